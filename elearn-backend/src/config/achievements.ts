@@ -0,0 +1,138 @@
+import type { Lang } from '../shared'
+
+/** What has to happen for an achievement to unlock */
+export type AchievementRule =
+  | { type: 'quizzesCompleted'; count: number }
+  | { type: 'perfectScores'; count: number }
+  | { type: 'streak'; days: number }
+  | { type: 'materialsViewed'; count: number }
+  | { type: 'topicsCompleted'; count: number } // every published material in the topic viewed
+  | { type: 'reviewsCompleted'; count: number }
+
+export type AchievementDefinition = {
+  code: string
+  icon: string
+  xpReward: number
+  rule: AchievementRule
+  translations: {
+    name: Record<Lang, string>
+    description: Record<Lang, string>
+  }
+}
+
+/**
+ * Built-in achievements. Seed creates an AchievementTemplate row for each code;
+ * admins can then edit icon, translations, xpReward or deactivate them, while the rule stays in code.
+ */
+export const achievementsDatabase: AchievementDefinition[] = [
+  {
+    code: 'first_quiz',
+    icon: '🎯',
+    xpReward: 10,
+    rule: { type: 'quizzesCompleted', count: 1 },
+    translations: {
+      name: { UA: 'Перший квіз', PL: 'Pierwszy quiz', EN: 'First Quiz' },
+      description: { UA: 'Пройти перший квіз', PL: 'Ukończ pierwszy quiz', EN: 'Complete your first quiz' },
+    },
+  },
+  {
+    code: 'quiz_enthusiast',
+    icon: '🧠',
+    xpReward: 50,
+    rule: { type: 'quizzesCompleted', count: 25 },
+    translations: {
+      name: { UA: 'Любитель квізів', PL: 'Entuzjasta quizów', EN: 'Quiz Enthusiast' },
+      description: { UA: 'Пройти 25 квізів', PL: 'Ukończ 25 quizów', EN: 'Complete 25 quizzes' },
+    },
+  },
+  {
+    code: 'perfect_score',
+    icon: '💯',
+    xpReward: 20,
+    rule: { type: 'perfectScores', count: 1 },
+    translations: {
+      name: { UA: 'Без помилок', PL: 'Bez błędów', EN: 'Perfect Score' },
+      description: { UA: 'Отримати 100% у квізі', PL: 'Zdobądź 100% w quizie', EN: 'Score 100% in a quiz' },
+    },
+  },
+  {
+    code: 'perfectionist',
+    icon: '💎',
+    xpReward: 75,
+    rule: { type: 'perfectScores', count: 10 },
+    translations: {
+      name: { UA: 'Перфекціоніст', PL: 'Perfekcjonista', EN: 'Perfectionist' },
+      description: { UA: 'Отримати 100% у 10 квізах', PL: 'Zdobądź 100% w 10 quizach', EN: 'Score 100% in 10 quizzes' },
+    },
+  },
+  {
+    code: 'week_streak',
+    icon: '🔥',
+    xpReward: 30,
+    rule: { type: 'streak', days: 7 },
+    translations: {
+      name: { UA: 'Тиждень поспіль', PL: 'Tydzień z rzędu', EN: '7-Day Streak' },
+      description: { UA: 'Навчатися 7 днів поспіль', PL: 'Ucz się 7 dni z rzędu', EN: 'Study 7 days in a row' },
+    },
+  },
+  {
+    code: 'month_streak',
+    icon: '🌟',
+    xpReward: 150,
+    rule: { type: 'streak', days: 30 },
+    translations: {
+      name: { UA: 'Місяць поспіль', PL: 'Miesiąc z rzędu', EN: '30-Day Streak' },
+      description: { UA: 'Навчатися 30 днів поспіль', PL: 'Ucz się 30 dni z rzędu', EN: 'Study 30 days in a row' },
+    },
+  },
+  {
+    code: 'first_material',
+    icon: '📖',
+    xpReward: 5,
+    rule: { type: 'materialsViewed', count: 1 },
+    translations: {
+      name: { UA: 'Перші кроки', PL: 'Pierwsze kroki', EN: 'First Steps' },
+      description: { UA: 'Переглянути перший матеріал', PL: 'Obejrzyj pierwszy materiał', EN: 'View your first material' },
+    },
+  },
+  {
+    code: 'bookworm',
+    icon: '📚',
+    xpReward: 50,
+    rule: { type: 'materialsViewed', count: 50 },
+    translations: {
+      name: { UA: 'Книжковий хробак', PL: 'Mól książkowy', EN: 'Bookworm' },
+      description: { UA: 'Переглянути 50 матеріалів', PL: 'Obejrzyj 50 materiałów', EN: 'View 50 materials' },
+    },
+  },
+  {
+    code: 'topic_complete',
+    icon: '✅',
+    xpReward: 25,
+    rule: { type: 'topicsCompleted', count: 1 },
+    translations: {
+      name: { UA: 'Тему завершено', PL: 'Temat ukończony', EN: 'Topic Complete' },
+      description: { UA: 'Переглянути всі матеріали теми', PL: 'Obejrzyj wszystkie materiały tematu', EN: 'View every material in a topic' },
+    },
+  },
+  {
+    code: 'topic_collector',
+    icon: '🏆',
+    xpReward: 100,
+    rule: { type: 'topicsCompleted', count: 5 },
+    translations: {
+      name: { UA: 'Колекціонер тем', PL: 'Kolekcjoner tematów', EN: 'Topic Collector' },
+      description: { UA: 'Завершити 5 тем', PL: 'Ukończ 5 tematów', EN: 'Complete 5 topics' },
+    },
+  },
+  {
+    code: 'review_habit',
+    icon: '🔁',
+    xpReward: 30,
+    rule: { type: 'reviewsCompleted', count: 20 },
+    translations: {
+      name: { UA: 'Звичка повторювати', PL: 'Nawyk powtórek', EN: 'Review Habit' },
+      description: { UA: 'Повторити 20 питань з помилок', PL: 'Powtórz 20 pytań z błędów', EN: 'Review 20 missed questions' },
+    },
+  },
+]
@@ -30,6 +30,15 @@ import adminRouter from './routes/admin.js'
 import i18nRouter from './routes/i18n.js'
 import dashboardRouter from './routes/dashboard.js'
 import activityRouter from './routes/activity.js'
+import reviewRouter from './routes/review.js'
+import achievementsRouter from './routes/achievements.js'
+import pathsRouter from './routes/paths.js'
+import certificatesRouter from './routes/certificates.js'
+import groupsRouter from './routes/groups.js'
+import invitesRouter from './routes/invites.js'
+import xapiRouter from './routes/xapi.js'
+import { startPublishScheduler } from './services/editorial.service.js'
+import { startAiJobWorker } from './services/aiJobs.service.js'
 
 // Import Middleware
 import { generalLimiter, authLimiter } from './middleware/rateLimit.js'
@@ -52,6 +61,10 @@ app.use(helmet({
   },
 }))
 
+// --- Local xAPI LRS stand-in ---
+// Before CORS/CSRF: exported SCORM packages call it from the LMS origin (see routes/xapi.ts)
+app.use('/api/xapi', xapiRouter)
+
 const allowed = Array.from(
   new Set(
     [
@@ -92,6 +105,9 @@ app.use(morgan(process.env.NODE_ENV === 'production' ? 'combined' : 'dev'))
 app.use(cookieParser())
 
 // --- Body Parser ---
+// Content and quiz file imports take whole files; the global parser below skips bodies already parsed here
+app.use('/api/admin/content/import', express.json({ limit: '25mb' }))
+app.use('/api/editor/topics/:topicId/quizzes/import', express.json({ limit: '10mb' }))
 app.use(express.json({ limit: '1mb' }))
 
 // --- Explicit OPTIONS handler for all routes ---
@@ -153,6 +169,12 @@ app.use('/api/admin', adminRouter)
 app.use('/api/i18n', i18nRouter)
 app.use('/api/dashboard', dashboardRouter)
 app.use('/api/activity', activityRouter)
+app.use('/api/review', reviewRouter)
+app.use('/api/achievements', achievementsRouter)
+app.use('/api/paths', pathsRouter)
+app.use('/api/certificates', certificatesRouter)
+app.use('/api/groups', groupsRouter)
+app.use('/api/invites', invitesRouter)
 
 // --- Error Handling (MUST be last) ---
 app.use(notFoundHandler) // 404 Handler
@@ -161,10 +183,16 @@ app.use(errorHandler)    // Global Error Handler
 // --- Server Startup ---
 const port = Number(process.env.PORT ?? 4000)
 const server = app.listen(port, () => logger.info(`API listening on http://localhost:${port}`))
+// Scheduled publish / unpublish of reviewed content
+const stopPublishScheduler = startPublishScheduler()
+// Background AI jobs (quiz generation)
+const stopAiJobWorker = startAiJobWorker()
 
 // --- Graceful Shutdown ---
 async function gracefulShutdown(signal: string) {
   logger.warn(`${signal} received. Starting graceful shutdown...`)
+  stopPublishScheduler()
+  stopAiJobWorker()
   server.close(async (err) => {
     if (err) {
       logger.error('Error during server close', err as Error)
@@ -13,6 +13,8 @@ export interface JwtPayload {
   email: string
   type?: 'access' | 'refresh'
   emailVerified?: boolean
+  /** Сесія (familyId refresh-токенів); у токенах, виданих до появи сесій, відсутня */
+  sid?: string
 }
 
 declare global {
@@ -61,6 +63,16 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
       return sendError(res, ErrorCodes.UNAUTHORIZED, 'User no longer exists', 401)
     }
     
+    // Сесію могли завершити (вихід, відкликання в профілі, повторне використання refresh токена)
+    if (decoded.sid) {
+      const activeSession = await prisma.refreshToken.count({
+        where: { familyId: decoded.sid, revokedAt: null, expiresAt: { gt: new Date() } }
+      })
+      if (!activeSession) {
+        return sendError(res, ErrorCodes.UNAUTHORIZED, 'Session has been revoked', 401)
+      }
+    }
+    
     req.user = { 
       ...decoded, 
       role: userExists.role as Role,
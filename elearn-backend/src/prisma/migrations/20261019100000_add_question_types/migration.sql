@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "QuestionType" AS ENUM ('single', 'multiple', 'truefalse', 'numeric', 'text');
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "type" "QuestionType" NOT NULL DEFAULT 'single',
+ADD COLUMN     "numericAnswer" DOUBLE PRECISION,
+ADD COLUMN     "tolerance" DOUBLE PRECISION,
+ADD COLUMN     "acceptedAnswers" TEXT[];
+
+-- AlterTable
+ALTER TABLE "Answer" ADD COLUMN     "selectedOptionIds" TEXT[],
+ADD COLUMN     "value" TEXT,
+ADD COLUMN     "credit" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Existing answers were all-or-nothing
+UPDATE "Answer" SET "credit" = 1 WHERE "isCorrect" = true;
+
+-- AlterTable
+ALTER TABLE "QuizAttempt" ALTER COLUMN "score" SET DATA TYPE DOUBLE PRECISION;
@@ -0,0 +1,84 @@
+-- DropIndex
+DROP INDEX "Topic_parentId_idx";
+
+-- DropIndex
+DROP INDEX "Material_topicId_idx";
+
+-- DropIndex
+DROP INDEX "Quiz_topicId_idx";
+
+-- AlterTable
+ALTER TABLE "Topic" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Material" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Keep the current (creation) order as the initial explicit order
+UPDATE "Topic" t SET "position" = o.rn FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "parentId" ORDER BY "createdAt") - 1 AS rn FROM "Topic"
+) o WHERE t."id" = o."id";
+
+UPDATE "Material" m SET "position" = o.rn FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "topicId" ORDER BY "createdAt") - 1 AS rn FROM "Material"
+) o WHERE m."id" = o."id";
+
+UPDATE "Quiz" q SET "position" = o.rn FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "topicId" ORDER BY "createdAt") - 1 AS rn FROM "Quiz"
+) o WHERE q."id" = o."id";
+
+-- CreateTable
+CREATE TABLE "Enrollment" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "topicId" TEXT NOT NULL,
+    "enrolledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Enrollment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TopicPrerequisite" (
+    "id" TEXT NOT NULL,
+    "topicId" TEXT NOT NULL,
+    "requiredQuizId" TEXT,
+    "requiredTopicId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TopicPrerequisite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Topic_parentId_position_idx" ON "Topic"("parentId", "position");
+
+-- CreateIndex
+CREATE INDEX "Material_topicId_position_idx" ON "Material"("topicId", "position");
+
+-- CreateIndex
+CREATE INDEX "Quiz_topicId_position_idx" ON "Quiz"("topicId", "position");
+
+-- CreateIndex
+CREATE INDEX "Enrollment_topicId_idx" ON "Enrollment"("topicId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Enrollment_userId_topicId_key" ON "Enrollment"("userId", "topicId");
+
+-- CreateIndex
+CREATE INDEX "TopicPrerequisite_topicId_idx" ON "TopicPrerequisite"("topicId");
+
+-- AddForeignKey
+ALTER TABLE "Enrollment" ADD CONSTRAINT "Enrollment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Enrollment" ADD CONSTRAINT "Enrollment_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "Topic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TopicPrerequisite" ADD CONSTRAINT "TopicPrerequisite_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "Topic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TopicPrerequisite" ADD CONSTRAINT "TopicPrerequisite_requiredQuizId_fkey" FOREIGN KEY ("requiredQuizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TopicPrerequisite" ADD CONSTRAINT "TopicPrerequisite_requiredTopicId_fkey" FOREIGN KEY ("requiredTopicId") REFERENCES "Topic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "QuizAttempt" ADD COLUMN "questionIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "QuizDrawRule" (
+    "id" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "difficulty" "Difficulty",
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuizDrawRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuizDrawRule_quizId_idx" ON "QuizDrawRule"("quizId");
+
+-- CreateIndex
+CREATE INDEX "Question_tags_idx" ON "Question" USING GIN ("tags");
+
+-- AddForeignKey
+ALTER TABLE "QuizDrawRule" ADD CONSTRAINT "QuizDrawRule_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "QuizMode" AS ENUM ('PRACTICE', 'EXAM');
+
+-- CreateEnum
+CREATE TYPE "ReviewPolicy" AS ENUM ('AFTER_SUBMIT', 'AFTER_DATE', 'NEVER');
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "mode" "QuizMode" NOT NULL DEFAULT 'PRACTICE',
+ADD COLUMN     "reviewPolicy" "ReviewPolicy" NOT NULL DEFAULT 'AFTER_SUBMIT',
+ADD COLUMN     "reviewAt" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Answer" ADD COLUMN     "timeSpentMs" INTEGER;
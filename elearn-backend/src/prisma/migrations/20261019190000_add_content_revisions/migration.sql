@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "RevisionEntity" AS ENUM ('material', 'quiz', 'question');
+
+-- CreateTable
+CREATE TABLE "ContentRevision" (
+    "id" TEXT NOT NULL,
+    "entityType" "RevisionEntity" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "authorId" TEXT,
+    "restoredFromVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContentRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContentRevision_entityType_entityId_version_key" ON "ContentRevision"("entityType", "entityId", "version");
+
+-- CreateIndex
+CREATE INDEX "ContentRevision_authorId_idx" ON "ContentRevision"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "ContentRevision" ADD CONSTRAINT "ContentRevision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
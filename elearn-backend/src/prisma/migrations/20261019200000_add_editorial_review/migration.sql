@@ -0,0 +1,59 @@
+-- AlterEnum
+ALTER TYPE "Status" ADD VALUE 'InReview' BEFORE 'Published';
+ALTER TYPE "Status" ADD VALUE 'ChangesRequested' BEFORE 'Published';
+ALTER TYPE "Status" ADD VALUE 'Scheduled' BEFORE 'Published';
+
+-- CreateEnum
+CREATE TYPE "ReviewTarget" AS ENUM ('material', 'quiz', 'question');
+
+-- AlterTable
+ALTER TABLE "Material" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "reviewerId" TEXT,
+ADD COLUMN     "submittedAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "reviewerId" TEXT,
+ADD COLUMN     "submittedAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ReviewComment" (
+    "id" TEXT NOT NULL,
+    "targetType" "ReviewTarget" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "field" TEXT,
+    "lang" "Lang",
+    "quote" TEXT,
+    "body" TEXT NOT NULL,
+    "authorId" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Material_status_publishAt_idx" ON "Material"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "Material_reviewerId_idx" ON "Material"("reviewerId");
+
+-- CreateIndex
+CREATE INDEX "Quiz_status_publishAt_idx" ON "Quiz"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "Quiz_reviewerId_idx" ON "Quiz"("reviewerId");
+
+-- CreateIndex
+CREATE INDEX "ReviewComment_targetType_targetId_idx" ON "ReviewComment"("targetType", "targetId");
+
+-- AddForeignKey
+ALTER TABLE "Material" ADD CONSTRAINT "Material_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quiz" ADD CONSTRAINT "Quiz_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewComment" ADD CONSTRAINT "ReviewComment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "TranslationEntity" AS ENUM ('topic', 'material', 'quiz', 'question');
+
+-- CreateTable
+CREATE TABLE "TranslationStamp" (
+    "id" TEXT NOT NULL,
+    "entityType" "TranslationEntity" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "lang" "Lang" NOT NULL,
+    "sourceHash" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TranslationStamp_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TranslationStamp_entityType_entityId_field_lang_key" ON "TranslationStamp"("entityType", "entityId", "field", "lang");
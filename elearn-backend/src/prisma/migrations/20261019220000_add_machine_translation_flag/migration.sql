@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TranslationStamp" ADD COLUMN     "machine" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "AiJobType" AS ENUM ('quiz_generation');
+
+-- CreateEnum
+CREATE TYPE "AiJobStatus" AS ENUM ('queued', 'running', 'succeeded', 'failed');
+
+-- CreateEnum
+CREATE TYPE "AiJobStage" AS ENUM ('extracting', 'generating', 'saving');
+
+-- CreateTable
+CREATE TABLE "AiJob" (
+    "id" TEXT NOT NULL,
+    "type" "AiJobType" NOT NULL,
+    "status" "AiJobStatus" NOT NULL DEFAULT 'queued',
+    "stage" "AiJobStage",
+    "input" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AiJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AiJob_status_runAt_idx" ON "AiJob"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "AiJob_createdById_idx" ON "AiJob"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "AiJob" ADD CONSTRAINT "AiJob_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
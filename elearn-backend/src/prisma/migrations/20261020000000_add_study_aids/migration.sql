@@ -0,0 +1,19 @@
+-- AlterEnum
+ALTER TYPE "MaterialType" ADD VALUE 'summary';
+ALTER TYPE "MaterialType" ADD VALUE 'flashcards';
+ALTER TYPE "MaterialType" ADD VALUE 'glossary';
+
+-- AlterEnum
+ALTER TYPE "AiJobType" ADD VALUE 'study_aids';
+
+-- AlterEnum
+ALTER TYPE "AiJobStage" ADD VALUE 'translating';
+
+-- AlterTable
+ALTER TABLE "Material" ADD COLUMN     "sourceMaterialId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Material_sourceMaterialId_idx" ON "Material"("sourceMaterialId");
+
+-- AddForeignKey
+ALTER TABLE "Material" ADD CONSTRAINT "Material_sourceMaterialId_fkey" FOREIGN KEY ("sourceMaterialId") REFERENCES "Material"("id") ON DELETE SET NULL ON UPDATE CASCADE;
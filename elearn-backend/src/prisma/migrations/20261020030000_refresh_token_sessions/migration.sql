@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "RefreshToken" ADD COLUMN     "familyId" TEXT,
+ADD COLUMN     "rotatedAt" TIMESTAMP(3),
+ADD COLUMN     "sessionStartedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing tokens become sessions of their own
+UPDATE "RefreshToken" SET "familyId" = "id", "sessionStartedAt" = "createdAt";
+
+ALTER TABLE "RefreshToken" ALTER COLUMN "familyId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "RefreshToken_familyId_idx" ON "RefreshToken"("familyId");
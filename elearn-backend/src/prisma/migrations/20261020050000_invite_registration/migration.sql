@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "InviteToken" ADD COLUMN     "invitedById" TEXT,
+ADD COLUMN     "lastSentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "role" "Role" NOT NULL DEFAULT 'STUDENT',
+ADD COLUMN     "usedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "InviteToken_email_idx" ON "InviteToken"("email");
+
+-- CreateIndex
+CREATE INDEX "InviteToken_invitedById_idx" ON "InviteToken"("invitedById");
+
+-- AddForeignKey
+ALTER TABLE "InviteToken" ADD CONSTRAINT "InviteToken_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
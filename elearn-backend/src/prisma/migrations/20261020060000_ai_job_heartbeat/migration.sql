@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AiJob" ADD COLUMN     "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN     "workerId" TEXT;
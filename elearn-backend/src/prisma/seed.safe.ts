@@ -4,6 +4,7 @@ import path from 'path'
 import { fileURLToPath } from 'url'
 import { dirname } from 'path'
 import bcrypt from 'bcryptjs'
+import { achievementsDatabase } from '../config/achievements.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
@@ -281,6 +282,16 @@ async function main() {
   */
   console.log('⚠️ Skipped Goals due to schema mismatch (fix later)')
 
+  // Achievements - create missing ones only, so admin edits (icon, xpReward, translations) survive re-seeding
+  for (const a of achievementsDatabase) {
+    await prisma.achievementTemplate.upsert({
+      where: { code: a.code },
+      update: {},
+      create: { code: a.code, icon: a.icon, xpReward: a.xpReward, translations: a.translations },
+    })
+  }
+  console.log(`🏆 Achievements ready (${achievementsDatabase.length})`)
+
   // UI Translations
   const existingUi = await prisma.uiTranslation.count()
   if (existingUi === 0) {
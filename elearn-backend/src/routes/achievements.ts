@@ -0,0 +1,25 @@
+// src/routes/achievements.ts
+import { Router, Request, Response } from 'express'
+import { requireAuth } from '../middleware/auth.js'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { ok } from '../utils/response.js'
+import type { Lang } from '../shared'
+import { getUserAchievements } from '../services/achievements.service.js'
+
+const router = Router()
+
+/**
+ * GET /api/achievements?lang=EN
+ * All active achievements for the current user, unlocked first, with progress towards locked ones
+ */
+router.get(
+  '/',
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const lang = (req.query.lang as string || 'EN') as Lang
+    const achievements = await getUserAchievements(req.user!.id, lang)
+    return ok(res, achievements)
+  })
+)
+
+export default router
@@ -9,6 +9,15 @@ import { z } from 'zod'
 import { emailSchema, nameSchema, passwordSchemaSimple } from '../utils/validation'
 import { logger } from '../utils/logger.js'
 import { asyncHandler } from '../middleware/errorHandler.js'
+import { contentSchemas } from '../schemas/content.schema.js'
+import { importContent } from '../services/contentImport.service.js'
+import { loadTopicTree } from '../services/contentExport.service.js'
+import { buildScormPackage } from '../services/scorm.service.js'
+import { ensureBaseline, recordRevision } from '../services/revisions.service.js'
+import { directStatusError, reopenAfterEdit } from '../services/editorial.service.js'
+import { localizedFields, syncTranslationStamps } from '../services/translations.service.js'
+import { getTwoFactorPolicies, resetTwoFactor, setTwoFactorPolicy } from '../services/twoFactor.service.js'
+import { unlockAccount } from '../services/loginProtection.service.js'
 
 const router = Router()
 
@@ -121,6 +130,7 @@ router.get('/stats', requireRole(['ADMIN', 'EDITOR']), async (req: Request, res:
 // Route-specific role guards
 router.use('/users', requireAdmin)
 router.use('/audit-logs', requireAdmin)
+router.use('/security', requireAdmin)
 router.use('/content', requireAdminOrEditor)
 
 // ============================================
@@ -130,21 +140,21 @@ router.use('/content', requireAdminOrEditor)
 const listUsersQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(20),
-  role: z.enum(['STUDENT', 'EDITOR', 'ADMIN']).optional(),
+  role: z.enum(['STUDENT', 'TEACHER', 'EDITOR', 'ADMIN']).optional(),
   search: z.string().optional(),
   sortBy: z.enum(['createdAt', 'email', 'name', 'xp']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 })
 
 const updateRoleSchema = z.object({
-  role: z.enum(['STUDENT', 'EDITOR', 'ADMIN']),
+  role: z.enum(['STUDENT', 'TEACHER', 'EDITOR', 'ADMIN']),
 })
 
 const createUserSchema = z.object({
   email: emailSchema,
   name: nameSchema,
   password: passwordSchemaSimple,
-  role: z.enum(['STUDENT', 'EDITOR', 'ADMIN']).default('STUDENT'),
+  role: z.enum(['STUDENT', 'TEACHER', 'EDITOR', 'ADMIN']).default('STUDENT'),
 })
 
 // Helper: mark user verified
@@ -193,6 +203,7 @@ router.get('/users', async (req: Request, res: Response) => {
           role: true,
           xp: true,
           emailVerified: true,
+          totpEnabledAt: true,
           createdAt: true,
           updatedAt: true,
           _count: {
@@ -208,7 +219,7 @@ router.get('/users', async (req: Request, res: Response) => {
     ])
 
     return ok(res, {
-      users,
+      users: users.map(({ totpEnabledAt, ...user }) => ({ ...user, twoFactorEnabled: !!totpEnabledAt })),
       pagination: {
         page,
         limit,
@@ -239,6 +250,9 @@ router.get('/users/:id', async (req: Request, res: Response) => {
         role: true,
         xp: true,
         emailVerified: true,
+        failedLoginCount: true,
+        lastFailedLoginAt: true,
+        lockedUntil: true,
         createdAt: true,
         updatedAt: true,
         _count: {
@@ -272,7 +286,7 @@ router.put('/users/:id/role', async (req: Request, res: Response) => {
     const id = getParam(req.params.id)
     const { role } = req.body
 
-    if (!role || !['STUDENT', 'EDITOR', 'ADMIN'].includes(role)) {
+    if (!role || !['STUDENT', 'TEACHER', 'EDITOR', 'ADMIN'].includes(role)) {
       return badRequest(res, 'Valid role required')
     }
 
@@ -425,7 +439,8 @@ router.delete('/users/:id', async (req: Request, res: Response) => {
         deletedAt: new Date(),
         email: `deleted_admin_${timestamp}_${user.email}`, // Звільняємо email
           // Можна також очистити пароль або сесії
-        refreshTokens: { deleteMany: {} } 
+        refreshTokens: { deleteMany: {} },
+        identities: { deleteMany: {} }
       }
     });
 
@@ -446,6 +461,61 @@ router.delete('/users/:id', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * DELETE /admin/users/:id/two-factor
+ * Reset 2FA of a user who lost their device
+ */
+router.delete('/users/:id/two-factor', asyncHandler(async (req: Request, res: Response) => {
+  await resetTwoFactor(getParam(req.params.id), req.user!.id, { ip: req.ip, userAgent: req.headers['user-agent'] })
+  return ok(res, { reset: true })
+}))
+
+/**
+ * POST /admin/users/:id/unlock
+ * Lift the lockout after failed logins and reset the counter
+ */
+router.post('/users/:id/unlock', asyncHandler(async (req: Request, res: Response) => {
+  await unlockAccount(getParam(req.params.id), req.user!.id, { ip: req.ip, userAgent: req.headers['user-agent'] })
+  return ok(res, { unlocked: true })
+}))
+
+// ============================================
+// SECURITY POLICY
+// ============================================
+
+const twoFactorPolicySchema = z.object({
+  required: z.boolean(),
+})
+
+/**
+ * GET /admin/security/two-factor
+ * Whether 2FA is mandatory, per role
+ */
+router.get('/security/two-factor', asyncHandler(async (_req: Request, res: Response) => {
+  return ok(res, { policies: await getTwoFactorPolicies() })
+}))
+
+/**
+ * PUT /admin/security/two-factor/:role
+ * Make 2FA mandatory (or optional) for a role
+ */
+router.put('/security/two-factor/:role', asyncHandler(async (req: Request, res: Response) => {
+  const role = updateRoleSchema.shape.role.safeParse(getParam(req.params.role))
+  if (!role.success) {
+    return badRequest(res, 'Invalid role')
+  }
+  const parsed = twoFactorPolicySchema.safeParse(req.body)
+  if (!parsed.success) {
+    return badRequest(res, 'Invalid data', parsed.error.flatten())
+  }
+
+  const policy = await setTwoFactorPolicy(role.data, parsed.data.required, req.user!.id, {
+    ip: req.ip,
+    userAgent: req.headers['user-agent'],
+  })
+  return ok(res, policy)
+}))
+
 // ============================================
 // AUDIT LOGS
 // ============================================
@@ -518,7 +588,7 @@ router.get('/audit-logs', async (req: Request, res: Response) => {
 router.get('/content/topics', async (req: Request, res: Response) => {
   try {
     const topics = await prisma.topic.findMany({
-      orderBy: [{ category: 'asc' }, { name: 'asc' }],
+      orderBy: [{ category: 'asc' }, { position: 'asc' }, { name: 'asc' }],
       select: {
         id: true,
         slug: true,
@@ -529,6 +599,7 @@ router.get('/content/topics', async (req: Request, res: Response) => {
         category: true,
         status: true,
         parentId: true,
+        position: true,
         materials: {
           where: { deletedAt: null },
           select: {
@@ -542,10 +613,11 @@ router.get('/content/topics', async (req: Request, res: Response) => {
             contentJson: true,
             status: true,
             lang: true,
+            position: true,
             createdAt: true,
             updatedAt: true,
           },
-          orderBy: { createdAt: 'asc' }
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
         },
         quizzes: {
           where: { deletedAt: null },
@@ -554,9 +626,10 @@ router.get('/content/topics', async (req: Request, res: Response) => {
             title: true,
             durationSec: true,
             status: true,
+            position: true,
             createdAt: true,
           },
-          orderBy: { createdAt: 'asc' }
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
         },
         _count: {
           select: {
@@ -593,7 +666,7 @@ router.get('/content/topics', async (req: Request, res: Response) => {
  */
 router.post('/content/topics', async (req: Request, res: Response) => {
   try {
-    const { slug, name, nameJson, description, descJson, category, parentId } = req.body
+    const { slug, name, nameJson, description, descJson, category, parentId, position } = req.body
 
     if (!slug || !name) {
       return badRequest(res, 'slug and name are required')
@@ -614,10 +687,15 @@ router.post('/content/topics', async (req: Request, res: Response) => {
         descJson: descJson || {},
         category: category || 'Programming',
         parentId: parentId || null,
+        // New topics go after their siblings unless a position is given
+        position: typeof position === 'number'
+          ? position
+          : await prisma.topic.count({ where: { parentId: parentId || null } }),
         status: 'Draft',
         createdById: req.user!.id,
       },
     })
+    await syncTranslationStamps('topic', topic.id, null, localizedFields('topic', topic))
 
     await auditLog({
       userId: req.user!.id,
@@ -643,7 +721,13 @@ router.post('/content/topics', async (req: Request, res: Response) => {
 router.put('/content/topics/:id', async (req: Request, res: Response) => {
   try {
     const id = getParam(req.params.id)
-    const { slug, name, nameJson, description, descJson, category, parentId, status, publishedAt } = req.body
+    const { slug, name, nameJson, description, descJson, category, parentId, position, status, publishedAt } = req.body
+
+    // Editors cannot publish; workflow statuses are not set directly
+    const statusError = directStatusError(req.user!, status)
+    if (statusError) {
+      return forbidden(res, statusError)
+    }
 
     const existing = await prisma.topic.findUnique({ where: { id } })
     if (!existing) {
@@ -668,10 +752,12 @@ router.put('/content/topics/:id', async (req: Request, res: Response) => {
         ...(descJson && { descJson }),
         ...(category && { category }),
         ...(parentId !== undefined && { parentId }),
+        ...(typeof position === 'number' && { position }),
         ...(status && { status }),
         ...(publishedAt !== undefined && { publishedAt: publishedAt ? new Date(publishedAt) : null }),
       },
     })
+    await syncTranslationStamps('topic', id, localizedFields('topic', existing), localizedFields('topic', topic))
 
     await auditLog({
       userId: req.user!.id,
@@ -846,21 +932,30 @@ router.put('/content/quizzes/:id', async (req: Request, res: Response) => {
     const quizId = getParam(req.params.id)
     const { title, titleJson, durationSec, status } = req.body
 
+    // Editors cannot publish: quizzes go through the review workflow
+    const statusError = directStatusError(req.user!, status)
+    if (statusError) {
+      return forbidden(res, statusError)
+    }
+
     const existing = await prisma.quiz.findUnique({ where: { id: quizId } })
     if (!existing) {
       return notFound(res, 'Quiz not found')
     }
 
+    await ensureBaseline('quiz', quizId)
     const quiz = await prisma.quiz.update({
       where: { id: quizId },
       data: {
         ...(title && { title }),
         ...(titleJson && { titleJson }),
         ...(durationSec && { durationSec }),
-        ...(status && { status }),
+        ...(status && { status, publishAt: null, unpublishAt: null }),
       },
       include: { questions: { include: { options: true } } },
     })
+    await recordRevision('quiz', quizId, req.user!.id)
+    await reopenAfterEdit('quiz', quizId, req.user!)
 
     await auditLog({
       userId: req.user!.id,
@@ -976,6 +1071,8 @@ router.post('/content/quizzes/:id/questions', async (req: Request, res: Response
       },
       include: { options: true },
     })
+    await recordRevision('question', question.id, req.user!.id)
+    await reopenAfterEdit('quiz', quizId, req.user!)
 
     await auditLog({
       userId: req.user!.id,
@@ -1012,6 +1109,7 @@ router.put('/content/questions/:id', async (req: Request, res: Response) => {
       return notFound(res, 'Question not found')
     }
 
+    await ensureBaseline('question', questionId)
     const question = await prisma.question.update({
       where: { id: questionId },
       data: {
@@ -1024,6 +1122,8 @@ router.put('/content/questions/:id', async (req: Request, res: Response) => {
       },
       include: { options: true },
     })
+    await recordRevision('question', questionId, req.user!.id)
+    await reopenAfterEdit('question', questionId, req.user!)
 
     await auditLog({
       userId: req.user!.id,
@@ -1070,6 +1170,7 @@ router.delete('/content/questions/:id', async (req: Request, res: Response) => {
         where: { id: questionId },
       }),
     ])
+    await reopenAfterEdit('quiz', question.quizId, req.user!)
 
     await auditLog({
       userId: req.user!.id,
@@ -1105,6 +1206,7 @@ router.put('/content/options/:id', async (req: Request, res: Response) => {
       return notFound(res, 'Option not found')
     }
 
+    await ensureBaseline('question', existing.questionId)
     const option = await prisma.option.update({
       where: { id: optionId },
       data: {
@@ -1113,6 +1215,8 @@ router.put('/content/options/:id', async (req: Request, res: Response) => {
         ...(correct !== undefined && { correct }),
       },
     })
+    await recordRevision('question', existing.questionId, req.user!.id)
+    await reopenAfterEdit('question', existing.questionId, req.user!)
 
     return ok(res, option)
   } catch (err) {
@@ -1137,6 +1241,7 @@ router.delete('/content/options/:id', async (req: Request, res: Response) => {
       return notFound(res, 'Option not found')
     }
 
+    await ensureBaseline('question', existing.questionId)
     // Delete associated answers first
     await prisma.answer.deleteMany({
       where: { optionId },
@@ -1145,6 +1250,8 @@ router.delete('/content/options/:id', async (req: Request, res: Response) => {
     await prisma.option.delete({
       where: { id: optionId },
     })
+    await recordRevision('question', existing.questionId, req.user!.id)
+    await reopenAfterEdit('question', existing.questionId, req.user!)
 
     return ok(res, { deleted: true })
   } catch (err) {
@@ -1166,125 +1273,8 @@ router.delete('/content/options/:id', async (req: Request, res: Response) => {
 router.get('/content/export', requireRole(['ADMIN']), asyncHandler(async (req, res) => {
   logger.info('Content export started')
 
-  // Рекурсивна функція для генерації include на потрібну глибину
-  const getTopicInclude = (depth: number): any => {
-    if (depth === 0) {
-      return {
-        materials: {
-          select: {
-            id: true,
-            title: true,
-            titleJson: true,
-            titleCache: true,
-            type: true,
-            url: true,
-            urlCache: true,
-            content: true,
-            contentJson: true,
-            contentCache: true,
-            lang: true,
-            status: true,
-            publishedAt: true,
-            createdAt: true,
-            updatedAt: true,
-          },
-        },
-        quizzes: {
-          select: {
-            id: true,
-            title: true,
-            titleJson: true,
-            titleCache: true,
-            durationSec: true,
-            status: true,
-            publishedAt: true,
-            createdAt: true,
-            updatedAt: true,
-            questions: {
-              select: {
-                id: true,
-                text: true,
-                textJson: true,
-                explanation: true,
-                explanationJson: true,
-                tags: true,
-                difficulty: true,
-                options: {
-                  select: {
-                    id: true,
-                    text: true,
-                    textJson: true,
-                    correct: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      }
-    }
-
-    return {
-      materials: {
-        select: {
-          id: true,
-          title: true,
-          titleJson: true,
-          titleCache: true,
-          type: true,
-          url: true,
-          urlCache: true,
-          content: true,
-          contentJson: true,
-          contentCache: true,
-          lang: true,
-          status: true,
-          publishedAt: true,
-          createdAt: true,
-          updatedAt: true,
-        },
-      },
-      quizzes: {
-        select: {
-          id: true,
-          title: true,
-          titleJson: true,
-          titleCache: true,
-          durationSec: true,
-          status: true,
-          publishedAt: true,
-          createdAt: true,
-          updatedAt: true,
-          questions: {
-            select: {
-              id: true,
-              text: true,
-              textJson: true,
-              explanation: true,
-              explanationJson: true,
-              tags: true,
-              difficulty: true,
-              options: {
-                select: {
-                  id: true,
-                  text: true,
-                  textJson: true,
-                  correct: true,
-                },
-              },
-            },
-          },
-        },
-      },
-      children: { include: getTopicInclude(depth - 1) },
-    }
-  }
-
   // Витягуємо всі кореневі теми з вкладеністю до 5 рівнів
-  const data = await prisma.topic.findMany({
-    where: { parentId: null },
-    include: getTopicInclude(5), // 5 рівнів глибини
-  })
+  const data = await loadTopicTree({ parentId: null })
 
   logger.info(`Exported ${data.length} root topics`)
 
@@ -1294,6 +1284,67 @@ router.get('/content/export', requireRole(['ADMIN']), asyncHandler(async (req, r
   res.send(JSON.stringify(data, null, 2))
 }))
 
+/**
+ * POST /admin/content/import?dryRun=false
+ * Приймає JSON з /admin/content/export. За замовчуванням dry run: повертає, що буде
+ * створено, оновлено чи пропущено; dryRun=false застосовує все в одній транзакції
+ * Доступ: ADMIN
+ */
+router.post('/content/import', requireRole(['ADMIN']), asyncHandler(async (req: Request, res: Response) => {
+  const query = contentSchemas.importQuery.safeParse(req.query)
+  if (!query.success) {
+    return badRequest(res, 'Invalid query params', query.error.flatten())
+  }
+  const parsed = contentSchemas.import.safeParse(req.body)
+  if (!parsed.success) {
+    return badRequest(res, 'Invalid content file', parsed.error.flatten())
+  }
+
+  const report = await importContent(parsed.data, { dryRun: query.data.dryRun, authorId: req.user!.id })
+
+  if (!report.dryRun) {
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.IMPORT,
+      resource: AuditResources.CONTENT,
+      metadata: { summary: report.summary },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+  }
+  return ok(res, report)
+}))
+
+/**
+ * GET /admin/content/scorm/:topicId?lang=EN&xapi=false&lrsEndpoint=&lrsAuth=
+ * Пакує кореневу тему з опублікованими підтемами, матеріалами та квізами у SCORM 1.2 zip.
+ * xapi=true: пакет також надсилає xAPI statements у LRS (lrsEndpoint або XAPI_LRS_ENDPOINT)
+ * Доступ: ADMIN
+ */
+router.get('/content/scorm/:topicId', requireRole(['ADMIN']), asyncHandler(async (req: Request, res: Response) => {
+  const query = contentSchemas.scormExportQuery.safeParse(req.query)
+  if (!query.success) {
+    return badRequest(res, 'Invalid query params', query.error.flatten())
+  }
+
+  const topicId = getParam(req.params.topicId)
+  const pkg = await buildScormPackage(topicId, query.data)
+
+  await auditLog({
+    userId: req.user!.id,
+    action: AuditActions.DOWNLOAD,
+    resource: AuditResources.CONTENT,
+    resourceId: topicId,
+    metadata: { format: 'scorm12', lang: query.data.lang, xapi: query.data.xapi, scos: pkg.scos },
+    ip: req.ip,
+    userAgent: req.headers['user-agent'],
+  })
+
+  res.setHeader('Content-Type', 'application/zip')
+  res.setHeader('Content-Disposition', `attachment; filename="${pkg.filename}"`)
+  res.send(pkg.data)
+}))
+
 // ============================================
 // FILE MANAGEMENT (ADMIN)
 // ============================================
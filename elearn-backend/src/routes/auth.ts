@@ -16,6 +16,8 @@ import {
 import {
   registerUser,
   loginUser,
+  completeTwoFactorLogin,
+  startLoginTwoFactorSetup,
   refreshUserTokens,
   logoutUser,
   logoutAllDevices,
@@ -31,6 +33,25 @@ import bcrypt from 'bcryptjs'
 import { ok, created } from '../utils/response.js'
 import { deleteFile } from '../services/storage.service.js'
 import { getBadges } from '../utils/gamification.js'
+import { getRecentAchievements } from '../services/achievements.service.js'
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+} from '../services/twoFactor.service.js'
+import {
+  completeOidcSignIn,
+  listIdentities,
+  listOidcProviders,
+  startOidcSignIn,
+  unlinkIdentity,
+} from '../services/oidc.service.js'
+import { listSessions, revokeSession } from '../services/sessions.service.js'
+import { unlockWithToken } from '../services/loginProtection.service.js'
+import { findPendingInvite, isInviteOnly } from '../services/invites.service.js'
+import type { Lang, RegistrationInfo, Role } from '../shared'
 
 const router = Router()
 
@@ -73,15 +94,31 @@ router.get('/me', requireAuth, asyncHandler(async (req: Request, res: Response)
       xp: true, 
       avatarId: true,
       emailVerified: true,
+      totpEnabledAt: true,
       avatarFile: { select: { id: true, key: true, mimeType: true } },
     },
   })
   if (!user) {
     throw AppError.notFound('User not found')
   }
-  return ok(res, { ...user, badges: getBadges(user.xp) })
+  const { totpEnabledAt, ...profile } = user
+  return ok(res, { ...profile, twoFactorEnabled: !!totpEnabledAt, badges: getBadges(user.xp) })
 }))
 
+// GET /api/auth/registration — чи реєстрація лише за запрошенням; дані запрошення з ?invite=
+router.get(
+  '/registration',
+  asyncHandler(async (req: Request, res: Response) => {
+    const token = typeof req.query.invite === 'string' ? req.query.invite : null
+    const invite = token ? await findPendingInvite(token) : null
+    const info: RegistrationInfo = {
+      inviteOnly: isInviteOnly(),
+      invite: invite && { email: invite.email, role: invite.role as Role },
+    }
+    return ok(res, info)
+  })
+)
+
 router.post(
   '/register',
   authLimiter,
@@ -126,6 +163,11 @@ router.post(
     logger.info('[LOGIN] Attempt', { email: req.body.email, ip, origin: req.headers.origin })
     try {
       const result = await loginUser(req.body, userAgent, ip)
+      // 2FA: no session yet, the client continues with POST /auth/login/2fa
+      if ('twoFactor' in result) {
+        logger.info('[LOGIN] Second factor required', { email: req.body.email, step: result.twoFactor })
+        return ok(res, { twoFactorRequired: true, twoFactor: result.twoFactor, challengeToken: result.challengeToken })
+      }
       setAuthCookies(res, result.tokens.accessToken, result.tokens.refreshToken)
       logger.info('[LOGIN] Success', { userId: result.user.id, email: result.user.email })
       // TEMPORARY: Return tokens in body for cross-domain auth (until api.e-learn.space is configured)
@@ -145,6 +187,37 @@ router.post(
   })
 )
 
+// POST /api/auth/login/2fa — другий крок входу: код 2FA або код відновлення
+router.post(
+  '/login/2fa',
+  authLimiter,
+  validateResource(authSchemas.twoFactorLogin, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { userAgent, ip } = getClientInfo(req)
+    const result = await completeTwoFactorLogin(req.body.challengeToken, req.body.code, userAgent, ip)
+    setAuthCookies(res, result.tokens.accessToken, result.tokens.refreshToken)
+    logger.info('[LOGIN] Success (2FA)', { userId: result.user.id, email: result.user.email })
+    // TEMPORARY: Return tokens in body for cross-domain auth (same as login)
+    return ok(res, {
+      user: result.user,
+      badges: getBadges(result.user.xp),
+      recoveryCodes: result.recoveryCodes,
+      accessToken: result.tokens.accessToken,
+      refreshToken: result.tokens.refreshToken
+    })
+  })
+)
+
+// POST /api/auth/login/2fa/setup — QR-код, коли 2FA обов'язкова для ролі, але ще не підключена
+router.post(
+  '/login/2fa/setup',
+  authLimiter,
+  validateResource(authSchemas.twoFactorChallenge, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await startLoginTwoFactorSetup(req.body.challengeToken))
+  })
+)
+
 // POST /api/auth/refresh — оновити токени
 router.post(
   '/refresh',
@@ -155,14 +228,18 @@ router.post(
     }
 
     const { userAgent, ip } = getClientInfo(req)
-    const tokens = await refreshUserTokens(refreshToken, userAgent, ip)
+    const result = await refreshUserTokens(refreshToken, userAgent, ip)
 
-    if (!tokens) {
+    // Паралельний запит щойно оновив токени: його cookies не можна стерти
+    if (result.status === 'retry') {
+      throw AppError.conflict('Tokens were just refreshed by another request, retry with the new ones')
+    }
+    if (result.status === 'invalid') {
       clearAuthCookies(res)
       throw AppError.unauthorized('Invalid or expired refresh token')
     }
 
-    setAuthCookies(res, tokens.accessToken, tokens.refreshToken)
+    setAuthCookies(res, result.tokens.accessToken, result.tokens.refreshToken)
     return ok(res, { message: 'Tokens refreshed' })
   })
 )
@@ -192,6 +269,166 @@ router.post(
   })
 )
 
+// ============================================
+// TWO-FACTOR AUTHENTICATION
+// ============================================
+
+// GET /api/auth/2fa — стан 2FA: увімкнено, чи обов'язкова для ролі, скільки кодів відновлення лишилось
+router.get(
+  '/2fa',
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await getTwoFactorStatus(req.user!.id))
+  })
+)
+
+// POST /api/auth/2fa/setup — новий секрет і QR-код для застосунку-автентифікатора
+router.post(
+  '/2fa/setup',
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await startTwoFactorSetup(req.user!.id))
+  })
+)
+
+// POST /api/auth/2fa/enable — підтвердити кодом із застосунку; повертає коди відновлення
+router.post(
+  '/2fa/enable',
+  requireAuth,
+  authLimiter,
+  validateResource(authSchemas.twoFactorCode, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await enableTwoFactor(req.user!.id, req.body.code, getClientInfo(req)))
+  })
+)
+
+// POST /api/auth/2fa/disable — вимкнути 2FA (пароль + код)
+router.post(
+  '/2fa/disable',
+  requireAuth,
+  authLimiter,
+  validateResource(authSchemas.disableTwoFactor, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    await disableTwoFactor(req.user!.id, req.body.password, req.body.code, getClientInfo(req))
+    return ok(res, { message: 'Two-factor authentication disabled' })
+  })
+)
+
+// POST /api/auth/2fa/recovery-codes — нові коди відновлення (старі перестають діяти)
+router.post(
+  '/2fa/recovery-codes',
+  requireAuth,
+  authLimiter,
+  validateResource(authSchemas.twoFactorCode, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await regenerateRecoveryCodes(req.user!.id, req.body.code, getClientInfo(req)))
+  })
+)
+
+// ============================================
+// SESSION ROUTES
+// ============================================
+
+// GET /api/auth/sessions — активні сесії (пристрій, браузер, останнє використання)
+router.get(
+  '/sessions',
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, { sessions: await listSessions(req.user!.id, req.user!.sid) })
+  })
+)
+
+// DELETE /api/auth/sessions/:id — завершити сесію на іншому (або поточному) пристрої
+router.delete(
+  '/sessions/:id',
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessionId = String(req.params.id)
+    await revokeSession(req.user!.id, sessionId, getClientInfo(req))
+    if (sessionId === req.user!.sid) {
+      clearAuthCookies(res)
+    }
+    return ok(res, { message: 'Session revoked', current: sessionId === req.user!.sid })
+  })
+)
+
+// ============================================
+// OIDC ROUTES
+// ============================================
+
+// GET /api/auth/oidc/providers — провайдери входу (Google, Microsoft, OIDC), налаштовані в env
+router.get('/oidc/providers', (_req: Request, res: Response) => {
+  return ok(res, { providers: listOidcProviders() })
+})
+
+// POST /api/auth/oidc/:provider/start — URL авторизації провайдера (PKCE)
+router.post(
+  '/oidc/:provider/start',
+  authLimiter,
+  validateResource(authSchemas.oidcStart, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await startOidcSignIn(String(req.params.provider), req.body.browserKey))
+  })
+)
+
+// POST /api/auth/oidc/:provider/callback — код від провайдера: вхід (як /login) або прив'язка
+router.post(
+  '/oidc/:provider/callback',
+  authLimiter,
+  validateResource(authSchemas.oidcCallback, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { userAgent, ip } = getClientInfo(req)
+    const outcome = await completeOidcSignIn(String(req.params.provider), req.body, { userAgent, ip })
+    if (outcome.mode === 'link') {
+      return ok(res, { linked: outcome.provider })
+    }
+
+    const result = outcome.result
+    if ('twoFactor' in result) {
+      return ok(res, { twoFactorRequired: true, twoFactor: result.twoFactor, challengeToken: result.challengeToken })
+    }
+    setAuthCookies(res, result.tokens.accessToken, result.tokens.refreshToken)
+    logger.info('[LOGIN] Success (OIDC)', { userId: result.user.id, provider: req.params.provider })
+    // TEMPORARY: Return tokens in body for cross-domain auth (same as login)
+    return ok(res, {
+      user: result.user,
+      badges: getBadges(result.user.xp),
+      accessToken: result.tokens.accessToken,
+      refreshToken: result.tokens.refreshToken
+    })
+  })
+)
+
+// GET /api/auth/identities — прив'язані провайдери входу
+router.get(
+  '/identities',
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await listIdentities(req.user!.id))
+  })
+)
+
+// POST /api/auth/identities/:provider — почати прив'язку провайдера до поточного акаунту
+router.post(
+  '/identities/:provider',
+  requireAuth,
+  authLimiter,
+  validateResource(authSchemas.oidcStart, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await startOidcSignIn(String(req.params.provider), req.body.browserKey, req.user!.id))
+  })
+)
+
+// DELETE /api/auth/identities/:provider — відв'язати провайдера
+router.delete(
+  '/identities/:provider',
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    await unlinkIdentity(req.user!.id, String(req.params.provider), getClientInfo(req))
+    return ok(res, { message: 'Sign-in provider unlinked' })
+  })
+)
+
 // ============================================
 // PASSWORD ROUTES
 // ============================================
@@ -302,7 +539,7 @@ router.put(
     }
     
     // Verify password
-    const isValid = await bcrypt.compare(password, user.password)
+    const isValid = !!user.password && await bcrypt.compare(password, user.password)
     if (!isValid) {
       throw AppError.unauthorized('Incorrect password')
     }
@@ -380,6 +617,20 @@ router.post(
   })
 )
 
+// POST /api/auth/unlock-account — розблокування акаунта за посиланням із листа
+router.post(
+  '/unlock-account',
+  authLimiter,
+  validateResource(authSchemas.unlockAccount, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const success = await unlockWithToken(req.body.token, getClientInfo(req))
+    if (!success) {
+      throw AppError.badRequest('Invalid or expired unlock link')
+    }
+    return ok(res, { message: 'Account unlocked' })
+  })
+)
+
 // POST /api/auth/resend-verification — повторне відправлення верифікації
 router.post(
   '/resend-verification',
@@ -422,7 +673,7 @@ router.put(
       throw AppError.notFound('User not found')
     }
 
-    const isValid = await bcrypt.compare(password, user.password)
+    const isValid = !!user.password && await bcrypt.compare(password, user.password)
     if (!isValid) {
       throw AppError.badRequest('Incorrect password')
     }
@@ -579,11 +830,16 @@ router.get(
       },
     })
 
+    const lang = (req.query.lang as string || 'EN') as Lang
+    const achievements = await getRecentAchievements(users.map(u => u.id), lang)
+
     const leaderboard = users.map((user, index) => ({
       ...user,
       rank: index + 1,
       level: Math.floor(user.xp / 100) + 1,
       badges: getBadges(user.xp),
+      achievements: achievements.get(user.id)?.recent ?? [],
+      achievementsCount: achievements.get(user.id)?.count ?? 0,
     }))
 
     return ok(res, leaderboard)
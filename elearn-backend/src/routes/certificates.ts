@@ -0,0 +1,77 @@
+// src/routes/certificates.ts
+import { Router, Request, Response } from 'express'
+import { requireAuth } from '../middleware/auth.js'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { validateResource } from '../middleware/validateResource.js'
+import { certificateSchemas, type ClaimCertificateInput } from '../schemas/certificate.schema.js'
+import { ok } from '../utils/response.js'
+import type { Lang } from '../shared'
+import {
+  claimCertificate,
+  getCertificateDownloadUrl,
+  getUserCertificates,
+  verifyCertificate,
+} from '../services/certificates.service.js'
+
+const router = Router()
+
+function getParam(param: string | string[]): string {
+  return Array.isArray(param) ? param[0] : param
+}
+
+/**
+ * GET /api/certificates
+ * Certificates of the current user, newest first
+ */
+router.get(
+  '/',
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const certificates = await getUserCertificates(req.user!.id)
+    return ok(res, certificates)
+  })
+)
+
+/**
+ * POST /api/certificates
+ * Get the certificate for a completed course, issuing it if needed
+ */
+router.post(
+  '/',
+  requireAuth,
+  validateResource(certificateSchemas.claim, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { slug, lang } = (req as any).bodyParsed as ClaimCertificateInput
+    const certificate = await claimCertificate(req.user!.id, slug, (lang as Lang) || 'EN')
+    return ok(res, certificate)
+  })
+)
+
+/**
+ * GET /api/certificates/:code/download
+ * Short-lived link to the PDF (owner only)
+ */
+router.get(
+  '/:code/download',
+  requireAuth,
+  validateResource(certificateSchemas.codeParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await getCertificateDownloadUrl(req.user!.id, getParam(req.params.code))
+    return ok(res, result)
+  })
+)
+
+/**
+ * GET /api/certificates/:code/verify
+ * Public check that a certificate is genuine
+ */
+router.get(
+  '/:code/verify',
+  validateResource(certificateSchemas.codeParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await verifyCertificate(getParam(req.params.code))
+    return ok(res, result)
+  })
+)
+
+export default router
@@ -8,7 +8,8 @@ import {
   getRecentActivity,
   getViewedMaterialIds,
 } from '../services/progress.service.js'
-import { dailyGoalsDatabase } from '../config/dailyGoals.js'
+import { getDailyGoals } from '../services/goals.service.js'
+import { getUserAchievements } from '../services/achievements.service.js'
 import { getTipOfTheDay, getWeakSpotAdvice } from '../config/weakSpots.js'
 import type { Lang } from '../shared'
 
@@ -68,16 +69,13 @@ router.get('/summary', requireAuth, asyncHandler(async (req: Request, res: Respo
     history.push(activityDates.has(dateStr))
   }
 
-  // Daily goals - localized by requested language
-  const findGoalText = (id: string) => {
-    const goal = dailyGoalsDatabase.find(g => g.id === id)
-    return goal?.translations?.[lang] || goal?.translations?.EN || 'Goal'
-  }
-  const dailyGoalsData = [
-    { id: 'g1', text: findGoalText('g1'), isCompleted: totalQuizAttempts > 0 },
-    { id: 'g6', text: findGoalText('g6'), isCompleted: completedLessonsCount > 0 },
-    { id: 'g18', text: findGoalText('g18'), isCompleted: totalTimeSpent >= 1800 }
-  ]
+  // Daily goals - picked and tracked server-side, localized by requested language
+  const dailyGoalsData = await getDailyGoals(userId, lang)
+
+  // Achievements - latest unlocks first, then the closest locked ones
+  const achievementsData = (await getUserAchievements(userId, lang))
+    .slice(0, 3)
+    .map(a => ({ id: a.code, name: a.name, description: a.description, earned: a.unlocked }))
 
   if (recentViews.length === 0) {
     return res.json({
@@ -94,11 +92,7 @@ router.get('/summary', requireAuth, asyncHandler(async (req: Request, res: Respo
       dailyGoals: dailyGoalsData,
       weakSpots: [],
       tipOfTheDay: getTipOfTheDay(lang),
-      achievements: [
-        { id: 'first_material', name: 'First Steps', description: 'View your first material', earned: false },
-        { id: 'quiz_master', name: 'Quiz Master', description: 'Complete 5 quizzes', earned: false },
-        { id: 'streak_7', name: '7-Day Streak', description: 'Maintain a 7-day streak', earned: false }
-      ]
+      achievements: achievementsData
     })
   }
 
@@ -204,11 +198,7 @@ router.get('/summary', requireAuth, asyncHandler(async (req: Request, res: Respo
     dailyGoals: dailyGoalsData,
     weakSpots: weakSpotsList,
     tipOfTheDay,
-    achievements: [
-      { id: 'first_material', name: 'First Steps', description: 'View your first material', earned: completedLessonsCount > 0 },
-      { id: 'quiz_master', name: 'Quiz Master', description: 'Complete 5 quizzes', earned: totalQuizAttempts >= 5 },
-      { id: 'streak_7', name: '7-Day Streak', description: 'Maintain a 7-day streak', earned: streakData.current >= 7 }
-    ]
+    achievements: achievementsData
   })
 }))
 
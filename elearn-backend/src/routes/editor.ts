@@ -4,14 +4,29 @@ import { prisma } from '../db.js'
 import { requireAuth, requireRole } from '../middleware/auth.js'
 import { asyncHandler, AppError } from '../middleware/errorHandler.js'
 import { validateResource } from '../middleware/validateResource.js'
-import { materialSchemas } from '../schemas/material.schema.js'
+import { materialSchemas, type GenerateStudyAidsInput } from '../schemas/material.schema.js'
+import { quizSchemas, type QuestionBankQuery, type QuizFileImportInput, type ReplaceDrawRulesInput } from '../schemas/quiz.schema.js'
+import { commonSchemas } from '../schemas/common.schema.js'
 import { z } from 'zod'
-import { ok } from '../utils/response.js'
-import type { Prisma } from '@prisma/client'
+import { ok, sendSuccess } from '../utils/response.js'
+import type { Prisma, QuestionType } from '@prisma/client'
 import { auditLog, AuditActions, AuditResources } from '../services/audit.service.js'
 import { updateMaterialWithLocalization } from '../services/materials.service.js'
+import { diffRevisions, ensureBaseline, listRevisions, recordRevision, restoreRevision } from '../services/revisions.service.js'
+import * as editorial from '../services/editorial.service.js'
+import { editorialSchemas, type CommentTargetParams, type ReviewCommentBody, type ScheduleInput, type WorkflowParams } from '../schemas/editorial.schema.js'
+import { getTranslationCoverage, getTranslationSheet, listTranslationGaps, saveTranslations } from '../services/translations.service.js'
+import { translationSchemas, type MachineTranslationInput, type MachineTranslationParams, type SaveTranslationsInput, type TranslationGapsQuery, type TranslationParams } from '../schemas/translation.schema.js'
+import { getTranslationProvider, machineTranslate } from '../services/machineTranslation.service.js'
 import { title } from 'process'
-import { aiService, type ContentSourceType, type QuizLanguage } from '../services/ai.service.js'
+import { aiService } from '../services/ai.service.js'
+import { enqueueQuizGeneration, enqueueStudyAids, getAiJob } from '../services/aiJobs.service.js'
+import { pathSchemas } from '../schemas/path.schema.js'
+import { getBankTags, getDrawRules, replaceDrawRules, searchBank } from '../services/questionBank.service.js'
+import { getQuizItemAnalytics, getTopicQuizFlags } from '../services/itemAnalytics.service.js'
+import { exportQuizFile, importQuizFile } from '../services/quizFormats.service.js'
+import type { QuizFormat } from '../utils/quizFormats.js'
+import type { Lang } from '../shared'
 
 const router = Router()
 
@@ -27,6 +42,13 @@ const jsonTranslationSchema = z.object({
 
 // Middleware for EDITOR role
 const requireEditor = requireRole(['EDITOR', 'ADMIN'])
+const requireAdmin = requireRole(['ADMIN'])
+
+// Editors cannot publish directly: content goes through the review workflow
+function assertDirectStatus(req: Request, status: string | undefined) {
+  const message = editorial.directStatusError(req.user!, status)
+  if (message) throw AppError.forbidden(message)
+}
 
 router.get(
   '/topics',
@@ -59,7 +81,7 @@ router.get(
     const topicId = getParam(req.params.topicId)
     const mats = await prisma.material.findMany({
       where: { topicId },
-      orderBy: { updatedAt: 'desc' },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
     })
     return ok(res, mats)
   })
@@ -74,7 +96,7 @@ router.post(
     z.object({
       title: z.string().min(2),
       titleJson: jsonTranslationSchema,
-      type: z.enum(['pdf', 'video', 'link', 'text']),
+      type: z.enum(['pdf', 'video', 'link', 'text', 'summary', 'flashcards', 'glossary']),
       url: z.string().url().optional().or(z.literal('')),
       urlJson: z.any().optional(),
       content: z.string().optional(),
@@ -87,6 +109,7 @@ router.post(
   asyncHandler(async (req: Request, res: Response) => {
     const topicId = getParam(req.params.topicId)
     const { title, titleJson, type, url, urlJson, content, contentJson, lang, publish } = req.body
+    assertDirectStatus(req, publish ? 'Published' : undefined)
 
     const data = {
       title,
@@ -98,13 +121,15 @@ router.post(
       contentJson: contentJson || {},
       lang,
       topic: { connect: { id: topicId } },
+      position: await prisma.material.count({ where: { topicId } }), // New materials go last
       status: publish ? 'Published' : 'Draft',
       publishedAt: publish ? new Date() : null,
       createdBy: req.user?.id ? { connect: { id: req.user.id } } : undefined,
     } as Prisma.MaterialCreateInput
 
     const mat = await prisma.material.create({ data })
-    
+    await recordRevision('material', mat.id, req.user?.id)
+
     await auditLog({
       userId: req.user!.id,
       action: AuditActions.CREATE,
@@ -126,7 +151,8 @@ router.put(
   validateResource(materialSchemas.updateTranslations, 'body'),
   asyncHandler(async (req: Request, res: Response) => {
     const id = getParam(req.params.id)
-    const updated = await updateMaterialWithLocalization(id, req.body)
+    const updated = await updateMaterialWithLocalization(id, req.body, req.user?.id)
+    await editorial.reopenAfterEdit('material', id, req.user!)
     
     await auditLog({
       userId: req.user!.id,
@@ -175,12 +201,16 @@ router.get(
     const topicId = getParam(req.params.topicId)
     const quizzes = await prisma.quiz.findMany({
       where: { topicId },
-      orderBy: { updatedAt: 'desc' },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
       select: { 
           id: true, 
           title: true, 
           titleJson: true, // <--- Added
           durationSec: true, 
+          mode: true,
+          reviewPolicy: true,
+          reviewAt: true,
+          position: true,
           status: true, 
           updatedAt: true 
       },
@@ -199,23 +229,32 @@ router.post(
       title: z.string().min(2),
       titleJson: jsonTranslationSchema, // <--- Added
       durationSec: z.number().int().min(10).max(3600),
+      mode: quizSchemas.mode.optional(),
+      reviewPolicy: quizSchemas.reviewPolicy.optional(),
+      reviewAt: commonSchemas.date.nullable().optional(),
       publish: z.boolean().optional(),
     }),
     'body'
   ),
   asyncHandler(async (req: Request, res: Response) => {
     const topicId = getParam(req.params.topicId)
+    assertDirectStatus(req, req.body.publish ? 'Published' : undefined)
     const data: Prisma.QuizCreateInput = {
       title: req.body.title,
       titleJson: req.body.titleJson || {},
       durationSec: req.body.durationSec,
+      mode: req.body.mode,
+      reviewPolicy: req.body.reviewPolicy,
+      reviewAt: req.body.reviewAt,
       topic: { connect: { id: topicId } },
+      position: await prisma.quiz.count({ where: { topicId } }), // New quizzes go last
       createdBy: req.user?.id ? { connect: { id: req.user.id } } : undefined,
       status: req.body.publish ? 'Published' : 'Draft',
       publishedAt: req.body.publish ? new Date() : null,
     }
 
     const quiz = await prisma.quiz.create({ data })
+    await recordRevision('quiz', quiz.id, req.user?.id)
     await auditLog({
       userId: req.user!.id,
       action: AuditActions.CREATE,
@@ -239,6 +278,9 @@ router.put(
       title: z.string().min(2).optional(),
       titleJson: jsonTranslationSchema, // <--- Added
       durationSec: z.number().int().min(10).max(3600).optional(),
+      mode: quizSchemas.mode.optional(),
+      reviewPolicy: quizSchemas.reviewPolicy.optional(),
+      reviewAt: commonSchemas.date.nullable().optional(),
       publish: z.boolean().optional(),
       status: z.enum(['Draft', 'Published']).optional(),
     }),
@@ -252,6 +294,9 @@ router.put(
         title: req.body.title,
         titleJson: req.body.titleJson,
         durationSec: req.body.durationSec,
+        mode: req.body.mode,
+        reviewPolicy: req.body.reviewPolicy,
+        reviewAt: req.body.reviewAt,
         status: req.body.status
     }
     
@@ -259,8 +304,17 @@ router.put(
       data.status = req.body.publish ? 'Published' : 'Draft'
       data.publishedAt = req.body.publish ? new Date() : null
     }
+    if (data.status) {
+      assertDirectStatus(req, data.status as string)
+      // A direct status change drops any pending schedule
+      data.publishAt = null
+      data.unpublishAt = null
+    }
 
+    await ensureBaseline('quiz', id)
     const quiz = await prisma.quiz.update({ where: { id }, data })
+    await recordRevision('quiz', id, req.user?.id)
+    await editorial.reopenAfterEdit('quiz', id, req.user!)
     
     await auditLog({
       userId: req.user!.id,
@@ -297,7 +351,241 @@ router.delete(
   })
 )
 
+/**
+ * POST /api/editor/topics/:topicId/quizzes/import
+ * Create a draft quiz from a Moodle XML, GIFT or QTI 2.1 file, with a per-item conversion report
+ */
+router.post(
+  '/topics/:topicId/quizzes/import',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ topicId: z.string().cuid() }), 'params'),
+  validateResource(quizSchemas.fileImport, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const topicId = getParam(req.params.topicId)
+    const input = (req as any).bodyParsed as QuizFileImportInput
+    const result = await importQuizFile(topicId, input, req.user!.id)
+
+    if (result.quiz) {
+      await auditLog({
+        userId: req.user!.id,
+        action: AuditActions.IMPORT,
+        resource: AuditResources.QUIZ,
+        resourceId: result.quiz.id,
+        metadata: { topicId, format: input.format, converted: result.report.converted, skipped: result.report.skipped },
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+      })
+    }
+    return ok(res, result)
+  })
+)
+
+/**
+ * GET /api/editor/topics/:topicId/quizzes/:id/export?format=moodle|gift|qti
+ * The quiz as a file (base64 for QTI packages) with a per-item conversion report
+ */
+router.get(
+  '/topics/:topicId/quizzes/:id/export',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ topicId: z.string().cuid(), id: z.string().cuid() }), 'params'),
+  validateResource(quizSchemas.fileExportQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { format } = (req as any).queryParsed as { format: QuizFormat }
+    const file = await exportQuizFile(getParam(req.params.topicId), getParam(req.params.id), format)
+    return ok(res, file)
+  })
+)
+
+// ==================== LEARNING PATHS ====================
+
+/**
+ * PUT /api/editor/topics/:topicId/order
+ * Reorder subtopics, materials and/or quizzes of a topic: each list holds ids in their new order
+ */
+router.put(
+  '/topics/:topicId/order',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ topicId: z.string().cuid() }), 'params'),
+  validateResource(pathSchemas.reorder, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const topicId = getParam(req.params.topicId)
+    const { children, materials, quizzes } = req.body as { children?: string[]; materials?: string[]; quizzes?: string[] }
+
+    // updateMany scoped to the topic ignores ids that belong elsewhere
+    await prisma.$transaction([
+      ...(children ?? []).map((id, position) =>
+        prisma.topic.updateMany({ where: { id, parentId: topicId }, data: { position } })),
+      ...(materials ?? []).map((id, position) =>
+        prisma.material.updateMany({ where: { id, topicId }, data: { position } })),
+      ...(quizzes ?? []).map((id, position) =>
+        prisma.quiz.updateMany({ where: { id, topicId }, data: { position } })),
+    ])
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: AuditResources.TOPIC,
+      resourceId: topicId,
+      metadata: { reordered: { children: !!children, materials: !!materials, quizzes: !!quizzes } },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, { ok: true })
+  })
+)
+
+/**
+ * GET /api/editor/topics/:topicId/prerequisites
+ * Rules that must be met before students can open the topic
+ */
+router.get(
+  '/topics/:topicId/prerequisites',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ topicId: z.string().cuid() }), 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const topicId = getParam(req.params.topicId)
+    const prerequisites = await prisma.topicPrerequisite.findMany({
+      where: { topicId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        requiredQuiz: { select: { id: true, title: true, titleJson: true, topicId: true } },
+        requiredTopic: { select: { id: true, slug: true, name: true, nameJson: true } },
+      },
+    })
+    return ok(res, prerequisites)
+  })
+)
+
+/**
+ * POST /api/editor/topics/:topicId/prerequisites
+ * Lock the topic until a quiz is passed or another topic is completed
+ */
+router.post(
+  '/topics/:topicId/prerequisites',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ topicId: z.string().cuid() }), 'params'),
+  validateResource(pathSchemas.createPrerequisite, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const topicId = getParam(req.params.topicId)
+    const { requiredQuizId, requiredTopicId } = req.body as { requiredQuizId?: string; requiredTopicId?: string }
+
+    const topic = await prisma.topic.findUnique({ where: { id: topicId }, select: { id: true } })
+    if (!topic) throw AppError.notFound('Topic not found')
+
+    // A topic locked behind its own content could never be unlocked
+    if (requiredQuizId) {
+      const quiz = await prisma.quiz.findUnique({ where: { id: requiredQuizId }, select: { topicId: true } })
+      if (!quiz) throw AppError.notFound('Quiz not found')
+      if (quiz.topicId === topicId) throw AppError.badRequest('A topic cannot require its own quiz')
+    }
+    if (requiredTopicId) {
+      if (requiredTopicId === topicId) throw AppError.badRequest('A topic cannot require itself')
+      const required = await prisma.topic.findUnique({ where: { id: requiredTopicId }, select: { id: true } })
+      if (!required) throw AppError.notFound('Required topic not found')
+    }
+
+    const duplicate = await prisma.topicPrerequisite.findFirst({
+      where: { topicId, requiredQuizId: requiredQuizId ?? null, requiredTopicId: requiredTopicId ?? null },
+    })
+    if (duplicate) throw AppError.conflict('Prerequisite already exists')
+
+    const prerequisite = await prisma.topicPrerequisite.create({
+      data: { topicId, requiredQuizId, requiredTopicId },
+    })
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: AuditResources.TOPIC,
+      resourceId: topicId,
+      metadata: { prerequisiteAdded: prerequisite.id, requiredQuizId, requiredTopicId },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, prerequisite)
+  })
+)
+
+/**
+ * DELETE /api/editor/topics/:topicId/prerequisites/:id
+ */
+router.delete(
+  '/topics/:topicId/prerequisites/:id',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ topicId: z.string().cuid(), id: z.string().cuid() }), 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const topicId = getParam(req.params.topicId)
+    const id = getParam(req.params.id)
+
+    const { count } = await prisma.topicPrerequisite.deleteMany({ where: { id, topicId } })
+    if (count === 0) throw AppError.notFound('Prerequisite not found')
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: AuditResources.TOPIC,
+      resourceId: topicId,
+      metadata: { prerequisiteRemoved: id },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, { ok: true })
+  })
+)
+
 // ==================== QUESTIONS ====================
+const questionOptionSchema = z.object({
+  id: z.string().optional(), // If provided, could be used for update logic, but current logic replaces all
+  text: z.string().min(1),
+  textJson: jsonTranslationSchema,
+  correct: z.boolean().default(false),
+})
+
+const CHOICE_TYPES: QuestionType[] = ['single', 'multiple', 'truefalse']
+
+interface QuestionAnswerKey {
+  type: QuestionType
+  options: Array<{ correct: boolean }>
+  numericAnswer?: number | null
+  acceptedAnswers?: string[]
+}
+
+/**
+ * Check that the answer key matches the question type:
+ * choice questions need options (true/false exactly two, one correct),
+ * numeric questions need an expected value, short-text questions at least one accepted answer.
+ */
+function assertAnswerKey(q: QuestionAnswerKey) {
+  const correctCount = q.options.filter((o) => o.correct).length
+  switch (q.type) {
+    case 'truefalse':
+      if (q.options.length !== 2) throw AppError.badRequest('True/false question must have exactly 2 options')
+      if (correctCount !== 1) throw AppError.badRequest('True/false question must have exactly one correct option')
+      return
+    case 'single':
+    case 'multiple':
+      if (q.options.length < 2) throw AppError.badRequest('At least 2 options required')
+      if (correctCount === 0) throw AppError.badRequest('At least one option must be correct')
+      return
+    case 'numeric':
+      if (q.numericAnswer === null || q.numericAnswer === undefined) {
+        throw AppError.badRequest('Numeric question must have an expected answer')
+      }
+      return
+    case 'text':
+      if (!q.acceptedAnswers?.some((a) => a.trim().length > 0)) {
+        throw AppError.badRequest('Short-text question must have at least one accepted answer')
+      }
+      return
+  }
+}
+
 router.get(
   '/quizzes/:quizId/questions',
   requireAuth,
@@ -332,23 +620,21 @@ router.post(
       explanationJson: jsonTranslationSchema,
       difficulty: z.enum(['Easy', 'Medium', 'Hard']).default('Easy'),
       tags: z.array(z.string()).default([]),
-      options: z
-        .array(
-          z.object({
-            text: z.string().min(1),
-            textJson: jsonTranslationSchema,
-            correct: z.boolean().default(false),
-          })
-        )
-        .min(2)
-        .max(6),
+      type: quizSchemas.questionType.default('single'),
+      options: z.array(questionOptionSchema).max(6).default([]),
+      numericAnswer: z.number().finite().nullable().optional(),
+      tolerance: z.number().finite().min(0).nullable().optional(),
+      acceptedAnswers: z.array(z.string().min(1).max(200)).max(20).optional(),
     }),
     'body'
   ),
   asyncHandler(async (req: Request, res: Response) => {
     const quizId = getParam(req.params.quizId)
-    const hasCorrect = (req.body.options as Array<{ correct: boolean }>).some((o) => o.correct)
-    if (!hasCorrect) throw AppError.badRequest('At least one option must be correct')
+    // validateResource does not write zod defaults back to req.body
+    const type: QuestionType = req.body.type ?? 'single'
+    const options = req.body.options ?? []
+    assertAnswerKey({ ...req.body, type, options })
+    const isChoice = CHOICE_TYPES.includes(type)
 
     const question = await prisma.question.create({
       data: {
@@ -358,9 +644,13 @@ router.post(
         explanationJson: req.body.explanationJson || {},
         difficulty: req.body.difficulty,
         tags: req.body.tags,
+        type,
+        numericAnswer: type === 'numeric' ? req.body.numericAnswer : null,
+        tolerance: type === 'numeric' ? req.body.tolerance ?? null : null,
+        acceptedAnswers: type === 'text' ? req.body.acceptedAnswers : [],
         quiz: { connect: { id: quizId } },
         options: {
-          create: req.body.options.map((o: any) => ({
+          create: (isChoice ? options : []).map((o: any) => ({
             text: o.text,
             textJson: o.textJson || {},
             correct: o.correct,
@@ -369,6 +659,8 @@ router.post(
       },
       include: { options: true },
     })
+    await recordRevision('question', question.id, req.user?.id)
+    await editorial.reopenAfterEdit('quiz', quizId, req.user!)
 
     await auditLog({
       userId: req.user?.id,
@@ -396,18 +688,11 @@ router.put(
       explanationJson: jsonTranslationSchema,
       difficulty: z.enum(['Easy', 'Medium', 'Hard']).optional(),
       tags: z.array(z.string()).optional(),
-      options: z
-        .array(
-          z.object({
-            id: z.string().optional(), // If provided, could be used for update logic, but current logic replaces all
-            text: z.string().min(1),
-            textJson: jsonTranslationSchema,
-            correct: z.boolean().default(false),
-          })
-        )
-        .min(2)
-        .max(6)
-        .optional(),
+      type: quizSchemas.questionType.optional(),
+      options: z.array(questionOptionSchema).max(6).optional(),
+      numericAnswer: z.number().finite().nullable().optional(),
+      tolerance: z.number().finite().min(0).nullable().optional(),
+      acceptedAnswers: z.array(z.string().min(1).max(200)).max(20).optional(),
     }),
     'body'
   ),
@@ -423,12 +708,45 @@ router.put(
     if (req.body.difficulty) questionData.difficulty = req.body.difficulty
     if (req.body.tags) questionData.tags = req.body.tags
 
+    // Answer key changes are validated against the merged state of the question
+    const touchesAnswerKey = ['type', 'options', 'numericAnswer', 'tolerance', 'acceptedAnswers']
+      .some((key) => req.body[key] !== undefined)
+    let replaceOptions: Array<{ text: string; textJson?: Prisma.InputJsonValue; correct: boolean }> | null = null
+
+    if (touchesAnswerKey) {
+      const existing = await prisma.question.findUnique({
+        where: { id },
+        include: { options: { select: { correct: true } } },
+      })
+      if (!existing) throw AppError.notFound('Question not found')
+
+      const type: QuestionType = req.body.type ?? existing.type
+      const isChoice = CHOICE_TYPES.includes(type)
+      const merged: QuestionAnswerKey = {
+        type,
+        options: req.body.options ?? existing.options,
+        numericAnswer: req.body.numericAnswer !== undefined ? req.body.numericAnswer : existing.numericAnswer,
+        acceptedAnswers: req.body.acceptedAnswers ?? existing.acceptedAnswers,
+      }
+      assertAnswerKey(merged)
+
+      questionData.type = type
+      questionData.numericAnswer = type === 'numeric' ? merged.numericAnswer : null
+      questionData.tolerance = type === 'numeric'
+        ? (req.body.tolerance !== undefined ? req.body.tolerance : existing.tolerance)
+        : null
+      questionData.acceptedAnswers = type === 'text' ? merged.acceptedAnswers : []
+
+      if (!isChoice) replaceOptions = []
+      else if (req.body.options) replaceOptions = req.body.options
+    }
+
+    await ensureBaseline('question', id)
+
     // WARNING: This deletes existing options. If users have answered this question,
     // this might fail with Foreign Key constraint error.
-    if (req.body.options) {
-      const hasCorrect = (req.body.options as Array<{ correct: boolean }>).some((o) => o.correct)
-      if (!hasCorrect) throw AppError.badRequest('At least one option must be correct')
-
+    if (replaceOptions) {
+      const options = replaceOptions
       // Transaction to ensure atomicity
       await prisma.$transaction(async (tx) => {
           // Check for existing answers to avoid crash
@@ -442,7 +760,7 @@ router.put(
 
           await tx.option.deleteMany({ where: { questionId: id } })
           await tx.option.createMany({
-            data: req.body.options.map((o: any) => ({
+            data: options.map((o) => ({
               text: o.text,
               textJson: o.textJson || {},
               correct: o.correct,
@@ -457,6 +775,8 @@ router.put(
       data: questionData,
       include: { options: true },
     })
+    await recordRevision('question', id, req.user?.id)
+    await editorial.reopenAfterEdit('quiz', quizId, req.user!)
 
     await auditLog({
       userId: req.user?.id,
@@ -486,6 +806,7 @@ router.delete(
         prisma.option.deleteMany({ where: { questionId: id } }),
         prisma.question.delete({ where: { id } })
     ])
+    await editorial.reopenAfterEdit('quiz', quizId, req.user!)
 
     await auditLog({
       userId: req.user?.id,
@@ -500,6 +821,527 @@ router.delete(
   })
 )
 
+// ==================== QUESTION BANK ====================
+
+/**
+ * GET /api/editor/questions/bank?tags=sql,joins&difficulty=Easy&search=
+ * Browse reusable questions across all quizzes
+ */
+router.get(
+  '/questions/bank',
+  requireAuth,
+  requireEditor,
+  validateResource(quizSchemas.bankQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = (req as any).queryParsed as QuestionBankQuery
+    const result = await searchBank(query)
+    return ok(res, result)
+  })
+)
+
+/**
+ * GET /api/editor/questions/tags
+ * Tags in use with question counts
+ */
+router.get(
+  '/questions/tags',
+  requireAuth,
+  requireEditor,
+  asyncHandler(async (_req: Request, res: Response) => {
+    return ok(res, await getBankTags())
+  })
+)
+
+/**
+ * GET /api/editor/quizzes/:quizId/draw-rules
+ * Draw rules of a quiz and how many bank questions match each
+ */
+router.get(
+  '/quizzes/:quizId/draw-rules',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ quizId: z.string().cuid() }), 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await getDrawRules(getParam(req.params.quizId)))
+  })
+)
+
+/**
+ * PUT /api/editor/quizzes/:quizId/draw-rules
+ * Replace the draw rules; with rules each attempt gets random bank questions instead of the quiz's own list
+ */
+router.put(
+  '/quizzes/:quizId/draw-rules',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ quizId: z.string().cuid() }), 'params'),
+  validateResource(quizSchemas.replaceDrawRules, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const quizId = getParam(req.params.quizId)
+    const { rules } = (req as any).bodyParsed as ReplaceDrawRulesInput
+    const result = await replaceDrawRules(quizId, rules)
+    await editorial.reopenAfterEdit('quiz', quizId, req.user!)
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: AuditResources.QUIZ,
+      resourceId: quizId,
+      metadata: { drawRules: rules.length },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, result)
+  })
+)
+
+// ==================== ITEM ANALYTICS ====================
+
+/**
+ * GET /api/editor/quizzes/:quizId/analytics
+ * Per-question statistics of a quiz with flags for broken questions
+ */
+router.get(
+  '/quizzes/:quizId/analytics',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ quizId: z.string().cuid() }), 'params'),
+  validateResource(z.object({ lang: commonSchemas.lang.optional() }), 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { lang } = (req as any).queryParsed as { lang?: Lang }
+    return ok(res, await getQuizItemAnalytics(getParam(req.params.quizId), lang))
+  })
+)
+
+/**
+ * GET /api/editor/topics/:topicId/quiz-flags
+ * Number of flagged questions per quiz of a topic
+ */
+router.get(
+  '/topics/:topicId/quiz-flags',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ topicId: z.string().cuid() }), 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await getTopicQuizFlags(getParam(req.params.topicId)))
+  })
+)
+
+// ==================== EDITORIAL REVIEW ====================
+
+/**
+ * GET /api/editor/review/queue?mine=
+ * Content in review, with requested changes or scheduled, oldest submission first
+ */
+router.get(
+  '/review/queue',
+  requireAuth,
+  requireEditor,
+  validateResource(editorialSchemas.queueQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { mine } = (req as any).queryParsed as { mine?: boolean }
+    return ok(res, await editorial.getReviewQueue(req.user!, mine))
+  })
+)
+
+/**
+ * GET /api/editor/review/reviewers
+ * Users who can be assigned as reviewers
+ */
+router.get(
+  '/review/reviewers',
+  requireAuth,
+  requireEditor,
+  asyncHandler(async (req: Request, res: Response) => {
+    const reviewers = await prisma.user.findMany({
+      where: { role: { in: ['EDITOR', 'ADMIN'] }, deletedAt: null },
+      select: { id: true, name: true, email: true, role: true },
+      orderBy: { name: 'asc' },
+    })
+    return ok(res, reviewers)
+  })
+)
+
+/**
+ * GET /api/editor/review/:entity/:id
+ * Workflow state of a material or quiz
+ */
+router.get(
+  '/review/:entity/:id',
+  requireAuth,
+  requireEditor,
+  validateResource(editorialSchemas.workflowParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as WorkflowParams
+    return ok(res, await editorial.getWorkflowState(entity, id))
+  })
+)
+
+const workflowAuditResources = { material: AuditResources.MATERIAL, quiz: AuditResources.QUIZ } as const
+
+async function auditTransition(req: Request, action: string, metadata: Record<string, unknown>) {
+  const { entity, id } = req.params as WorkflowParams
+  await auditLog({
+    userId: req.user!.id,
+    action,
+    resource: workflowAuditResources[entity],
+    resourceId: id,
+    metadata,
+    ip: req.ip,
+    userAgent: req.headers['user-agent'],
+  })
+}
+
+/**
+ * POST /api/editor/review/:entity/:id/submit
+ * Send a draft to review, optionally assigning a reviewer
+ */
+router.post(
+  '/review/:entity/:id/submit',
+  requireAuth,
+  requireEditor,
+  validateResource(editorialSchemas.workflowParam, 'params'),
+  validateResource(editorialSchemas.submit, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as WorkflowParams
+    const { reviewerId } = (req as any).bodyParsed as { reviewerId?: string | null }
+    const item = await editorial.submitForReview(entity, id, req.user!, reviewerId)
+    await auditTransition(req, AuditActions.UPDATE, { transition: 'submit', reviewerId: item.reviewerId })
+    return ok(res, item)
+  })
+)
+
+/**
+ * PUT /api/editor/review/:entity/:id/reviewer
+ * Assign or clear the reviewer (ADMIN)
+ */
+router.put(
+  '/review/:entity/:id/reviewer',
+  requireAuth,
+  requireAdmin,
+  validateResource(editorialSchemas.workflowParam, 'params'),
+  validateResource(editorialSchemas.assignReviewer, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as WorkflowParams
+    const { reviewerId } = (req as any).bodyParsed as { reviewerId: string | null }
+    const item = await editorial.assignReviewer(entity, id, req.user!, reviewerId)
+    await auditTransition(req, AuditActions.UPDATE, { transition: 'assign', reviewerId })
+    return ok(res, item)
+  })
+)
+
+/**
+ * POST /api/editor/review/:entity/:id/request-changes
+ * Send content back to its author with a note
+ */
+router.post(
+  '/review/:entity/:id/request-changes',
+  requireAuth,
+  requireEditor,
+  validateResource(editorialSchemas.workflowParam, 'params'),
+  validateResource(editorialSchemas.requestChanges, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as WorkflowParams
+    const { note } = (req as any).bodyParsed as { note: string }
+    const item = await editorial.requestChanges(entity, id, req.user!, note)
+    await auditTransition(req, AuditActions.UPDATE, { transition: 'request-changes' })
+    return ok(res, item)
+  })
+)
+
+/**
+ * POST /api/editor/review/:entity/:id/approve
+ * Approve content under review (ADMIN): publish now, or schedule with a future publishAt
+ */
+router.post(
+  '/review/:entity/:id/approve',
+  requireAuth,
+  requireAdmin,
+  validateResource(editorialSchemas.workflowParam, 'params'),
+  validateResource(editorialSchemas.schedule, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as WorkflowParams
+    const schedule = (req as any).bodyParsed as ScheduleInput
+    const item = await editorial.approve(entity, id, req.user!, schedule)
+    await auditTransition(req, AuditActions.PUBLISH, {
+      transition: 'approve',
+      status: item.status,
+      publishAt: item.publishAt,
+      unpublishAt: item.unpublishAt,
+    })
+    return ok(res, item)
+  })
+)
+
+/**
+ * PUT /api/editor/review/:entity/:id/schedule
+ * Change the publish time of scheduled content or the unpublish time (ADMIN)
+ */
+router.put(
+  '/review/:entity/:id/schedule',
+  requireAuth,
+  requireAdmin,
+  validateResource(editorialSchemas.workflowParam, 'params'),
+  validateResource(editorialSchemas.schedule, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as WorkflowParams
+    const schedule = (req as any).bodyParsed as ScheduleInput
+    const item = await editorial.reschedule(entity, id, req.user!, schedule)
+    await auditTransition(req, AuditActions.UPDATE, {
+      transition: 'schedule',
+      publishAt: item.publishAt,
+      unpublishAt: item.unpublishAt,
+    })
+    return ok(res, item)
+  })
+)
+
+/**
+ * POST /api/editor/review/:entity/:id/withdraw
+ * Back to Draft: withdraw from review, cancel a schedule or unpublish
+ */
+router.post(
+  '/review/:entity/:id/withdraw',
+  requireAuth,
+  requireEditor,
+  validateResource(editorialSchemas.workflowParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as WorkflowParams
+    const item = await editorial.withdraw(entity, id, req.user!)
+    await auditTransition(req, AuditActions.UPDATE, { transition: 'withdraw' })
+    return ok(res, item)
+  })
+)
+
+/**
+ * GET /api/editor/review/:entity/:id/comments
+ * Review comments of a material, or of a quiz and its questions
+ */
+router.get(
+  '/review/:entity/:id/comments',
+  requireAuth,
+  requireEditor,
+  validateResource(editorialSchemas.workflowParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as WorkflowParams
+    return ok(res, await editorial.listComments(entity, id))
+  })
+)
+
+/**
+ * POST /api/editor/review/comments/:target/:id
+ * Comment on a material, quiz or question, optionally on one field and language
+ */
+router.post(
+  '/review/comments/:target/:id',
+  requireAuth,
+  requireEditor,
+  validateResource(editorialSchemas.commentTargetParam, 'params'),
+  validateResource(editorialSchemas.comment, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { target, id } = req.params as CommentTargetParams
+    const body = (req as any).bodyParsed as ReviewCommentBody
+    return ok(res, await editorial.addComment(target, id, req.user!, body))
+  })
+)
+
+/**
+ * PUT /api/editor/review/comments/:commentId
+ * Resolve or reopen a comment
+ */
+router.put(
+  '/review/comments/:commentId',
+  requireAuth,
+  requireEditor,
+  validateResource(z.object({ commentId: z.string().cuid() }), 'params'),
+  validateResource(editorialSchemas.resolveComment, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { resolved } = (req as any).bodyParsed as { resolved: boolean }
+    return ok(res, await editorial.setCommentResolved(getParam(req.params.commentId), resolved))
+  })
+)
+
+// ==================== TRANSLATIONS ====================
+
+/**
+ * GET /api/editor/translations/coverage
+ * Translation coverage per language, overall, per entity type and per topic
+ */
+router.get(
+  '/translations/coverage',
+  requireAuth,
+  requireEditor,
+  asyncHandler(async (_req: Request, res: Response) => {
+    return ok(res, await getTranslationCoverage())
+  })
+)
+
+/**
+ * GET /api/editor/translations/gaps?lang=&entity=&topicId=&state=&page=&limit=
+ * Missing and stale translations worklist
+ */
+router.get(
+  '/translations/gaps',
+  requireAuth,
+  requireEditor,
+  validateResource(translationSchemas.gapsQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = (req as any).queryParsed as TranslationGapsQuery
+    return ok(res, await listTranslationGaps(query))
+  })
+)
+
+/**
+ * GET /api/editor/translations/:entity/:id
+ * All localized fields of a topic, material, quiz or question with their translation states
+ */
+router.get(
+  '/translations/:entity/:id',
+  requireAuth,
+  requireEditor,
+  validateResource(translationSchemas.param, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as TranslationParams
+    return ok(res, await getTranslationSheet(entity, id))
+  })
+)
+
+/**
+ * PUT /api/editor/translations/:entity/:id
+ * Save the texts of one language from the side-by-side editor
+ */
+router.put(
+  '/translations/:entity/:id',
+  requireAuth,
+  requireEditor,
+  validateResource(translationSchemas.param, 'params'),
+  validateResource(translationSchemas.save, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as TranslationParams
+    const { lang, values, confirm } = (req as any).bodyParsed as SaveTranslationsInput
+
+    if (entity !== 'topic') await ensureBaseline(entity, id)
+    const sheet = await saveTranslations(entity, id, lang, values, confirm)
+    if (entity !== 'topic') await recordRevision(entity, id, req.user!.id)
+    await editorial.reopenAfterEdit(entity, id, req.user!)
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: AuditResources.TRANSLATION,
+      resourceId: id,
+      metadata: { entity, lang, fields: Object.keys(values), confirmed: confirm },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, sheet)
+  })
+)
+
+/**
+ * POST /api/editor/translations/:entity/:id/machine
+ * Machine-translate the missing languages of a topic, material or whole quiz; the results
+ * are saved as drafts that need review
+ */
+router.post(
+  '/translations/:entity/:id/machine',
+  requireAuth,
+  requireEditor,
+  validateResource(translationSchemas.machineParam, 'params'),
+  validateResource(translationSchemas.machine, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as MachineTranslationParams
+    const { langs } = (req as any).bodyParsed as MachineTranslationInput
+    const result = await machineTranslate(entity, id, req.user!.id, langs)
+    if (result.count > 0) await editorial.reopenAfterEdit(entity, id, req.user!)
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: AuditResources.TRANSLATION,
+      resourceId: id,
+      metadata: { entity, machine: true, provider: result.provider, fields: result.count },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, result)
+  })
+)
+
+// ==================== REVISIONS ====================
+
+const revisionParams = z.object({
+  entity: z.enum(['material', 'quiz', 'question']),
+  id: z.string().cuid(),
+})
+type RevisionParams = z.infer<typeof revisionParams>
+
+const revisionAuditResources = {
+  material: AuditResources.MATERIAL,
+  quiz: AuditResources.QUIZ,
+  question: AuditResources.QUESTION,
+} as const
+
+/**
+ * GET /api/editor/revisions/:entity/:id
+ * Revision history of a material, quiz or question, newest first
+ */
+router.get(
+  '/revisions/:entity/:id',
+  requireAuth,
+  requireEditor,
+  validateResource(revisionParams, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as RevisionParams
+    return ok(res, await listRevisions(entity, id))
+  })
+)
+
+/**
+ * GET /api/editor/revisions/:entity/:id/diff?from=&to=
+ * Field-by-field, per-language differences between two revisions (to defaults to the latest)
+ */
+router.get(
+  '/revisions/:entity/:id/diff',
+  requireAuth,
+  requireEditor,
+  validateResource(revisionParams, 'params'),
+  validateResource(z.object({ from: z.string().cuid(), to: z.string().cuid().optional() }), 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as RevisionParams
+    const { from, to } = (req as any).queryParsed as { from: string; to?: string }
+    return ok(res, await diffRevisions(entity, id, from, to))
+  })
+)
+
+/**
+ * POST /api/editor/revisions/:entity/:id/restore/:revisionId
+ * Restore an old revision; the result is saved as a new revision
+ */
+router.post(
+  '/revisions/:entity/:id/restore/:revisionId',
+  requireAuth,
+  requireEditor,
+  validateResource(revisionParams.extend({ revisionId: z.string().cuid() }), 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entity, id } = req.params as RevisionParams
+    const revisionId = getParam(req.params.revisionId)
+    const revision = await restoreRevision(entity, id, revisionId, req.user!.id)
+    await editorial.reopenAfterEdit(entity, id, req.user!)
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: revisionAuditResources[entity],
+      resourceId: id,
+      metadata: { restoredRevisionId: revisionId, version: revision?.version },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, revision)
+  })
+)
+
 // ==================== AI QUIZ GENERATION ====================
 
 // Schema for AI quiz generation request
@@ -509,19 +1351,34 @@ const aiGenerateQuizSchema = z.object({
   type: z.enum(['text', 'pdf', 'youtube']),
   language: z.enum(['UA', 'EN', 'PL']).default('EN'),
   durationSec: z.number().int().min(30).max(3600).default(300),
-})
+  questionCount: z.number().int().min(1).max(20).default(5),
+  difficultyMix: z.object({
+    Easy: z.number().int().min(0),
+    Medium: z.number().int().min(0),
+    Hard: z.number().int().min(0),
+  }).optional(),
+  optionCount: z.number().int().min(2).max(6).default(4),
+  tags: z.array(z.string().trim().min(1).max(50)).max(10).default([]),
+}).refine(
+  (data) => !data.difficultyMix || data.difficultyMix.Easy + data.difficultyMix.Medium + data.difficultyMix.Hard === data.questionCount,
+  { message: 'Difficulty mix must add up to the question count', path: ['difficultyMix'] }
+)
 
 /**
  * POST /api/editor/ai/generate-quiz
- * Generate a quiz using AI from provided content
+ * Queue AI quiz generation from provided content; poll GET /api/editor/ai/jobs/:id for progress
  * 
  * @body topicId - The topic to associate the quiz with
  * @body content - Text content, base64 PDF, or YouTube URL
  * @body type - Content type: 'text', 'pdf', or 'youtube'
  * @body language - Target language: 'UA', 'EN', or 'PL' (default: 'EN')
  * @body durationSec - Quiz duration in seconds (default: 300)
+ * @body questionCount - Number of questions, 1-20 (default: 5)
+ * @body difficultyMix - Questions per difficulty { Easy, Medium, Hard }, summing to questionCount
+ * @body optionCount - Options per question, 2-6 (default: 4)
+ * @body tags - Tags added to every generated question
  * 
- * @returns Created quiz ID and title
+ * @returns The queued job (202)
  */
 router.post(
   '/ai/generate-quiz',
@@ -529,86 +1386,45 @@ router.post(
   requireEditor,
   validateResource(aiGenerateQuizSchema, 'body'),
   asyncHandler(async (req: Request, res: Response) => {
-    const { topicId, content, type, language, durationSec } = req.body
-
-    // Check if AI service is available
-    if (!aiService.isAvailable()) {
-      throw AppError.internal('AI service is not configured. Please contact administrator.')
-    }
-
-    // Verify topic exists
-    const topic = await prisma.topic.findUnique({
-      where: { id: topicId },
-      select: { id: true, name: true },
-    })
-    if (!topic) {
-      throw AppError.notFound('Topic not found')
-    }
-
-    // Extract text from the provided content
-    const extractedText = await aiService.extractText(content, type as ContentSourceType)
-
-    // Generate quiz using AI
-    const generatedQuiz = await aiService.generateQuiz(extractedText, language as QuizLanguage)
-
-    // Save quiz to database with Draft status
-    const quiz = await prisma.quiz.create({
-      data: {
-        title: generatedQuiz.title,
-        titleJson: { [language]: generatedQuiz.title },
-        durationSec,
-        topic: { connect: { id: topicId } },
-        createdBy: req.user?.id ? { connect: { id: req.user.id } } : undefined,
-        status: 'Draft',
-        questions: {
-          create: generatedQuiz.questions.map((q) => ({
-            text: q.text,
-            textJson: { [language]: q.text },
-            explanation: q.explanation,
-            explanationJson: { [language]: q.explanation },
-            difficulty: q.difficulty,
-            tags: [],
-            options: {
-              create: q.options.map((opt) => ({
-                text: opt.text,
-                textJson: { [language]: opt.text },
-                correct: opt.isCorrect,
-              })),
-            },
-          })),
-        },
-      },
-      include: {
-        questions: {
-          include: { options: true },
-        },
-      },
-    })
+    const job = await enqueueQuizGeneration(req.body, req.user!.id)
+    return sendSuccess(res, job, 202)
+  })
+)
 
-    // Audit log
-    await auditLog({
-      userId: req.user!.id,
-      action: AuditActions.CREATE,
-      resource: AuditResources.QUIZ,
-      resourceId: quiz.id,
-      metadata: { 
-        topicId, 
-        generatedByAI: true, 
-        sourceType: type,
-        language,
-        questionsCount: generatedQuiz.questions.length,
-      },
-      ip: req.ip,
-      userAgent: req.headers['user-agent'],
-    })
+/**
+ * POST /api/editor/materials/:id/study-aids
+ * Queue AI generation of a summary, flashcards and/or a glossary from a text, PDF or YouTube
+ * material; they are created as Draft materials of its topic. Poll GET /api/editor/ai/jobs/:id.
+ *
+ * @body kinds - Any of 'summary', 'flashcards', 'glossary'
+ * @body language - Language to write in (default: the material's language)
+ * @body translate - Machine-translate the results into the other languages (default: false)
+ *
+ * @returns The queued job (202)
+ */
+router.post(
+  '/materials/:id/study-aids',
+  requireAuth,
+  requireEditor,
+  validateResource(materialSchemas.idParam, 'params'),
+  validateResource(materialSchemas.studyAids, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const job = await enqueueStudyAids(getParam(req.params.id), req.body as GenerateStudyAidsInput, req.user!.id)
+    return sendSuccess(res, job, 202)
+  })
+)
 
-    return ok(res, {
-      quizId: quiz.id,
-      title: quiz.title,
-      questionsCount: quiz.questions.length,
-      status: quiz.status,
-      message: 'Quiz generated successfully. Review and publish when ready.',
-    })
+/**
+ * GET /api/editor/ai/jobs/:id
+ * AI job status: stage, attempts, error and, once succeeded, the created quiz or materials
+ */
+router.get(
+  '/ai/jobs/:id',
+  requireAuth,
+  requireEditor,
+  validateResource(commonSchemas.idParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await getAiJob(getParam(req.params.id), { id: req.user!.id, role: req.user!.role }))
   })
 )
 
@@ -625,6 +1441,8 @@ router.get(
       available: aiService.isAvailable(),
       features: {
         quizGeneration: aiService.isAvailable(),
+        studyAids: aiService.isAvailable(),
+        machineTranslation: getTranslationProvider().isAvailable(),
         supportedTypes: ['text', 'pdf', 'youtube'],
         supportedLanguages: ['UA', 'EN', 'PL'],
       },
@@ -0,0 +1,286 @@
+// src/routes/groups.ts
+import { Router, Request, Response } from 'express'
+import { requireAuth, requireRole } from '../middleware/auth.js'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { validateResource } from '../middleware/validateResource.js'
+import {
+  groupSchemas,
+  type CreateAssignmentInput,
+  type CreateGroupInput,
+  type GroupLangQuery,
+  type JoinGroupInput,
+  type UpdateGroupInput,
+} from '../schemas/group.schema.js'
+import { created, ok } from '../utils/response.js'
+import type { Lang } from '../shared'
+import { auditLog, AuditActions, AuditResources } from '../services/audit.service.js'
+import {
+  assignTopic,
+  createGroup,
+  deleteGroup,
+  getGroup,
+  getGroupLeaderboard,
+  getGroupProgress,
+  getGroups,
+  joinGroup,
+  leaveGroup,
+  regenerateJoinCode,
+  removeAssignment,
+  removeMember,
+  updateGroup,
+} from '../services/groups.service.js'
+
+const router = Router()
+
+function getParam(param: string | string[]): string {
+  return Array.isArray(param) ? param[0] : param
+}
+
+/**
+ * GET /api/groups
+ * Groups the current user owns or belongs to
+ */
+router.get(
+  '/',
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const groups = await getGroups(req.user!)
+    return ok(res, groups)
+  })
+)
+
+/**
+ * POST /api/groups
+ * Create a group (teachers and admins)
+ */
+router.post(
+  '/',
+  requireAuth,
+  requireRole(['TEACHER', 'ADMIN']),
+  validateResource(groupSchemas.create, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const input = (req as any).bodyParsed as CreateGroupInput
+    const group = await createGroup(req.user!.id, input)
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.CREATE,
+      resource: AuditResources.GROUP,
+      resourceId: group.id,
+      metadata: { name: group.name },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return created(res, group)
+  })
+)
+
+/**
+ * POST /api/groups/join
+ * Join a group with its code
+ */
+router.post(
+  '/join',
+  requireAuth,
+  validateResource(groupSchemas.join, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code } = (req as any).bodyParsed as JoinGroupInput
+    const group = await joinGroup(req.user!.id, code)
+    return ok(res, group)
+  })
+)
+
+/**
+ * GET /api/groups/:id?lang=EN
+ * Group details; members and join code only for the owner
+ */
+router.get(
+  '/:id',
+  requireAuth,
+  validateResource(groupSchemas.idParam, 'params'),
+  validateResource(groupSchemas.langQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { lang } = (req as any).queryParsed as GroupLangQuery
+    const group = await getGroup(req.user!, getParam(req.params.id), (lang as Lang) || 'EN')
+    return ok(res, group)
+  })
+)
+
+/**
+ * PUT /api/groups/:id
+ * Rename a group or change its description
+ */
+router.put(
+  '/:id',
+  requireAuth,
+  validateResource(groupSchemas.idParam, 'params'),
+  validateResource(groupSchemas.update, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const input = (req as any).bodyParsed as UpdateGroupInput
+    const group = await updateGroup(req.user!, getParam(req.params.id), input)
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: AuditResources.GROUP,
+      resourceId: group.id,
+      metadata: { fields: Object.keys(input) },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, group)
+  })
+)
+
+/**
+ * DELETE /api/groups/:id
+ * Delete a group with its memberships and assignments
+ */
+router.delete(
+  '/:id',
+  requireAuth,
+  validateResource(groupSchemas.idParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const group = await deleteGroup(req.user!, getParam(req.params.id))
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.DELETE,
+      resource: AuditResources.GROUP,
+      resourceId: group.id,
+      metadata: { name: group.name },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, { deleted: true })
+  })
+)
+
+/**
+ * POST /api/groups/:id/code
+ * Replace the join code; the old one stops working
+ */
+router.post(
+  '/:id/code',
+  requireAuth,
+  validateResource(groupSchemas.idParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await regenerateJoinCode(req.user!, getParam(req.params.id))
+    return ok(res, result)
+  })
+)
+
+/**
+ * POST /api/groups/:id/leave
+ * Leave a group
+ */
+router.post(
+  '/:id/leave',
+  requireAuth,
+  validateResource(groupSchemas.idParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await leaveGroup(req.user!.id, getParam(req.params.id))
+    return ok(res, result)
+  })
+)
+
+/**
+ * DELETE /api/groups/:id/members/:userId
+ * Remove a member from the group
+ */
+router.delete(
+  '/:id/members/:userId',
+  requireAuth,
+  validateResource(groupSchemas.memberParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const groupId = getParam(req.params.id)
+    const userId = getParam(req.params.userId)
+    const result = await removeMember(req.user!, groupId, userId)
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: AuditResources.GROUP,
+      resourceId: groupId,
+      metadata: { removedMember: userId },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, result)
+  })
+)
+
+/**
+ * POST /api/groups/:id/assignments
+ * Assign a course to the group, or change its due date
+ */
+router.post(
+  '/:id/assignments',
+  requireAuth,
+  validateResource(groupSchemas.idParam, 'params'),
+  validateResource(groupSchemas.createAssignment, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const groupId = getParam(req.params.id)
+    const { topicId, dueAt } = (req as any).bodyParsed as CreateAssignmentInput
+    const assignment = await assignTopic(req.user!, groupId, topicId, dueAt ?? null)
+
+    await auditLog({
+      userId: req.user!.id,
+      action: AuditActions.UPDATE,
+      resource: AuditResources.GROUP,
+      resourceId: groupId,
+      metadata: { assignedTopic: topicId, dueAt: assignment.dueAt },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    })
+    return ok(res, assignment)
+  })
+)
+
+/**
+ * DELETE /api/groups/:id/assignments/:assignmentId
+ * Remove an assignment
+ */
+router.delete(
+  '/:id/assignments/:assignmentId',
+  requireAuth,
+  validateResource(groupSchemas.assignmentParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await removeAssignment(req.user!, getParam(req.params.id), getParam(req.params.assignmentId))
+    return ok(res, result)
+  })
+)
+
+/**
+ * GET /api/groups/:id/leaderboard?lang=EN
+ * Members ranked by XP
+ */
+router.get(
+  '/:id/leaderboard',
+  requireAuth,
+  validateResource(groupSchemas.idParam, 'params'),
+  validateResource(groupSchemas.langQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { lang } = (req as any).queryParsed as GroupLangQuery
+    const leaderboard = await getGroupLeaderboard(req.user!, getParam(req.params.id), (lang as Lang) || 'EN')
+    return ok(res, leaderboard)
+  })
+)
+
+/**
+ * GET /api/groups/:id/progress?lang=EN
+ * Member activity and assignment progress (owner only)
+ */
+router.get(
+  '/:id/progress',
+  requireAuth,
+  validateResource(groupSchemas.idParam, 'params'),
+  validateResource(groupSchemas.langQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { lang } = (req as any).queryParsed as GroupLangQuery
+    const progress = await getGroupProgress(req.user!, getParam(req.params.id), (lang as Lang) || 'EN')
+    return ok(res, progress)
+  })
+)
+
+export default router
@@ -0,0 +1,76 @@
+// src/routes/invites.ts
+import { Router, Request, Response } from 'express'
+import { requireAuth, requireRole } from '../middleware/auth.js'
+import { authLimiter } from '../middleware/rateLimit.js'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { validateResource } from '../middleware/validateResource.js'
+import { inviteSchemas, type CreateInvitesInput, type ListInvitesQuery } from '../schemas/invite.schema.js'
+import { created, ok } from '../utils/response.js'
+import { createInvites, listInvites, resendInvite, revokeInvite } from '../services/invites.service.js'
+
+const router = Router()
+
+router.use(requireAuth, requireRole(['ADMIN', 'TEACHER']))
+
+function getParam(param: string | string[]): string {
+  return Array.isArray(param) ? param[0] : param
+}
+
+function getClientInfo(req: Request) {
+  return { ip: req.ip, userAgent: req.headers['user-agent'] }
+}
+
+/**
+ * GET /api/invites
+ * Invites with status and email filters (teachers: only their own)
+ */
+router.get(
+  '/',
+  validateResource(inviteSchemas.listQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = (req as any).queryParsed as ListInvitesQuery
+    return ok(res, await listInvites(req.user!, query))
+  })
+)
+
+/**
+ * POST /api/invites
+ * Invite one or many emails (teachers: students only)
+ */
+router.post(
+  '/',
+  authLimiter,
+  validateResource(inviteSchemas.create, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const input = (req as any).bodyParsed as CreateInvitesInput
+    return created(res, await createInvites(req.user!, input, getClientInfo(req)))
+  })
+)
+
+/**
+ * POST /api/invites/:id/resend
+ * Send the invite email again
+ */
+router.post(
+  '/:id/resend',
+  authLimiter,
+  validateResource(inviteSchemas.idParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    return ok(res, await resendInvite(req.user!, getParam(req.params.id), getClientInfo(req)))
+  })
+)
+
+/**
+ * DELETE /api/invites/:id
+ * Revoke an invite that hasn't been used yet
+ */
+router.delete(
+  '/:id',
+  validateResource(inviteSchemas.idParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    await revokeInvite(req.user!, getParam(req.params.id), getClientInfo(req))
+    return ok(res, { revoked: true })
+  })
+)
+
+export default router
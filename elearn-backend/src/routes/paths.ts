@@ -0,0 +1,76 @@
+// src/routes/paths.ts
+import { Router, Request, Response } from 'express'
+import { requireAuth } from '../middleware/auth.js'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { validateResource } from '../middleware/validateResource.js'
+import { pathSchemas, type PathLangQuery } from '../schemas/path.schema.js'
+import { ok } from '../utils/response.js'
+import type { Lang } from '../shared'
+import { getEnrollments, getPathProgress, enroll, unenroll } from '../services/paths.service.js'
+
+const router = Router()
+
+function getParam(param: string | string[]): string {
+  return Array.isArray(param) ? param[0] : param
+}
+
+/**
+ * GET /api/paths?lang=EN
+ * Courses the current user is enrolled in, with progress
+ */
+router.get(
+  '/',
+  requireAuth,
+  validateResource(pathSchemas.langQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { lang } = (req as any).queryParsed as PathLangQuery
+    const enrollments = await getEnrollments(req.user!.id, (lang as Lang) || 'EN')
+    return ok(res, enrollments)
+  })
+)
+
+/**
+ * GET /api/paths/:slug/progress?lang=EN
+ * Locked/unlocked/completed steps of a course and the next item to continue with
+ */
+router.get(
+  '/:slug/progress',
+  requireAuth,
+  validateResource(pathSchemas.slugParam, 'params'),
+  validateResource(pathSchemas.langQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { lang } = (req as any).queryParsed as PathLangQuery
+    const progress = await getPathProgress(req.user!.id, getParam(req.params.slug), (lang as Lang) || 'EN')
+    return ok(res, progress)
+  })
+)
+
+/**
+ * POST /api/paths/:slug/enroll
+ * Enroll in a course (root topic); repeated calls are no-ops
+ */
+router.post(
+  '/:slug/enroll',
+  requireAuth,
+  validateResource(pathSchemas.slugParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await enroll(req.user!.id, getParam(req.params.slug))
+    return ok(res, result)
+  })
+)
+
+/**
+ * DELETE /api/paths/:slug/enroll
+ * Leave a course; progress (views, attempts) is kept
+ */
+router.delete(
+  '/:slug/enroll',
+  requireAuth,
+  validateResource(pathSchemas.slugParam, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await unenroll(req.user!.id, getParam(req.params.slug))
+    return ok(res, result)
+  })
+)
+
+export default router
@@ -14,6 +14,10 @@ import {
   getUserStats,
   syncViewedMaterials,
 } from '../services/progress.service.js'
+import { getDailyGoals } from '../services/goals.service.js'
+import { evaluateAchievements } from '../services/achievements.service.js'
+import { issueCertificateIfCompleted } from '../services/certificates.service.js'
+import type { Lang } from '../shared'
 
 const router = Router()
 
@@ -31,12 +35,19 @@ router.get('/viewed', requireAuth, asyncHandler(async (req, res) => {
 const markViewedSchema = z.object({
   materialId: z.string().min(1),
   timeSpent: z.number().int().min(0).optional(),
+  lang: z.enum(['UA', 'PL', 'EN']).optional(),
 })
 
 router.post('/viewed', requireAuth, asyncHandler(async (req, res) => {
     const parsed = markViewedSchema.parse(req.body) // Zod throw error -> asyncHandler catch it
     await markMaterialViewed(req.user!.id, parsed.materialId, parsed.timeSpent)
-    res.json({ ok: true })
+    const achievementsUnlocked = await evaluateAchievements(req.user!.id)
+
+    const material = await prisma.material.findUnique({ where: { id: parsed.materialId }, select: { topicId: true } })
+    const certificateIssued = material
+      ? await issueCertificateIfCompleted(req.user!.id, material.topicId, parsed.lang || 'EN')
+      : null
+    res.json({ ok: true, achievementsUnlocked, certificateIssued })
 }))
 
 // GET /api/progress/viewed/:materialId
@@ -85,7 +96,6 @@ router.get('/activity', requireAuth, asyncHandler(async (req, res) => {
 const activitySchema = z.object({
   timeSpent: z.number().int().min(0).optional(),
   quizAttempt: z.boolean().optional(),
-  goalCompleted: z.boolean().optional(),
 })
 
 router.post('/activity', requireAuth, asyncHandler(async (req, res) => {
@@ -94,7 +104,6 @@ router.post('/activity', requireAuth, asyncHandler(async (req, res) => {
     await updateDailyActivity(req.user!.id, {
       timeSpent: parsed.timeSpent,
       quizAttempts: parsed.quizAttempt ? 1 : 0,
-      goalsCompleted: parsed.goalCompleted ? 1 : 0,
     })
     
     res.json({ ok: true })
@@ -271,16 +280,13 @@ router.get('/pull', requireAuth, asyncHandler(async (req, res) => {
 }))
 
 /**
- * POST /api/progress/goals/:id/toggle
- * Toggle daily goal completion (stub)
+ * GET /api/progress/goals?lang=EN
+ * Today's daily goals with progress (advanced automatically from quiz submits, material views and activity)
  */
-router.post(
-  '/goals/:id/toggle',
-  requireAuth,
-  asyncHandler(async (req: Request, res) => {
-    // Stub implementation - goals are frontend-only for now
-    return res.json({ ok: true, goalId: req.params.id })
-  })
-)
+router.get('/goals', requireAuth, asyncHandler(async (req, res) => {
+    const lang = (req.query.lang as string || 'EN') as Lang
+    const goals = await getDailyGoals(req.user!.id, lang)
+    res.json(goals)
+}))
 
 export default router
\ No newline at end of file
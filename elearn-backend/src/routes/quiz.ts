@@ -5,7 +5,8 @@ import { asyncHandler, AppError } from '../middleware/errorHandler.js'
 import { validateResource } from '../middleware/validateResource.js'
 import { quizSchemas } from '../schemas/quiz.schema.js'
 import type { Lang } from '../shared'
-import { getQuizWithToken, submitQuizAttempt, getUserQuizHistory } from '../services/quiz.service.js'
+import { getQuizWithToken, submitQuizAttempt, getUserQuizHistory, getAttemptReview } from '../services/quiz.service.js'
+import { assertTopicUnlocked } from '../services/paths.service.js'
 import { z } from 'zod'
 
 const router = Router()
@@ -29,6 +30,11 @@ router.get(
     if (!quiz) {
       throw AppError.notFound('Quiz not found')
     }
+
+    // Students can't start quizzes of a topic whose prerequisites aren't met yet
+    if (!['ADMIN', 'EDITOR'].includes(req.user!.role)) {
+      await assertTopicUnlocked(req.user!.id, quiz.topicId)
+    }
     
     return res.json(quiz)
   })
@@ -97,4 +103,22 @@ router.get(
   })
 )
 
+/**
+ * GET /api/quiz/attempts/:id
+ * Answers of a past attempt; exam answers stay hidden until the quiz's review policy allows it
+ */
+router.get(
+  '/attempts/:id',
+  requireAuth,
+  validateResource(quizSchemas.attemptIdParam, 'params'),
+  validateResource(quizSchemas.attemptReviewQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = getParam(req.params.id)
+    const { lang } = (req as any).queryParsed as { lang?: Lang }
+
+    const review = await getAttemptReview(id, { id: req.user!.id, role: req.user!.role }, lang)
+    return res.json(review)
+  })
+)
+
 export default router
\ No newline at end of file
@@ -0,0 +1,58 @@
+// src/routes/review.ts
+import { Router, Request, Response } from 'express'
+import { requireAuth } from '../middleware/auth.js'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { validateResource } from '../middleware/validateResource.js'
+import { reviewSchemas, type DueReviewsQuery } from '../schemas/review.schema.js'
+import { ok } from '../utils/response.js'
+import type { Lang } from '../shared'
+import { getDueReviews, gradeReview } from '../services/review.service.js'
+
+const router = Router()
+
+function getParam(param: string | string[]): string {
+  return Array.isArray(param) ? param[0] : param
+}
+
+/**
+ * GET /api/review/due?limit=20&lang=EN
+ * Review cards due now, oldest first
+ */
+router.get(
+  '/due',
+  requireAuth,
+  validateResource(reviewSchemas.dueQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const parsed = (req as any).queryParsed as DueReviewsQuery
+    const reviews = await getDueReviews(req.user!.id, {
+      limit: parsed.limit,
+      lang: parsed.lang as Lang | undefined,
+    })
+    return ok(res, reviews)
+  })
+)
+
+/**
+ * POST /api/review/:questionId/grade
+ * Check the answer for a review card and reschedule it (SM-2)
+ */
+router.post(
+  '/:questionId/grade',
+  requireAuth,
+  validateResource(reviewSchemas.questionParam, 'params'),
+  validateResource(reviewSchemas.grade, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const questionId = getParam(req.params.questionId)
+    const { optionId, selectedOptions, value, quality, lang } = req.body
+
+    const result = await gradeReview(
+      req.user!.id,
+      questionId,
+      { optionId, selectedOptions, value, quality },
+      (lang as Lang) || 'EN'
+    )
+    return ok(res, result)
+  })
+)
+
+export default router
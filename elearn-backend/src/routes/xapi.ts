@@ -0,0 +1,101 @@
+// src/routes/xapi.ts
+/**
+ * Local xAPI LRS stand-in (see xapiLrs.service.ts), enabled with XAPI_LOCAL_LRS=true.
+ *
+ * Mounted before the app's CORS and CSRF middleware: SCORM packages post from whatever origin
+ * the LMS serves them on, without cookies. When XAPI_LRS_AUTH is set, requests must send it
+ * as their Authorization header, the same value exported packages carry.
+ * Responses follow the xAPI spec (bare JSON), not the app's { success, data } envelope.
+ */
+import express, { Router, Request, Response, NextFunction } from 'express'
+import cors from 'cors'
+import { asyncHandler } from '../middleware/errorHandler.js'
+import { generalLimiter } from '../middleware/rateLimit.js'
+import { validateResource } from '../middleware/validateResource.js'
+import { xapiSchemas, type StatementInput, type StatementsQuery } from '../schemas/xapi.schema.js'
+import { AppError } from '../utils/AppError.js'
+import {
+  XAPI_VERSION,
+  getStatement,
+  isLocalLrsEnabled,
+  listStatements,
+  storeStatements,
+} from '../services/xapiLrs.service.js'
+
+const router = Router()
+
+router.use((req: Request, res: Response, next: NextFunction) => {
+  if (!isLocalLrsEnabled()) return next(AppError.notFound('Local LRS is disabled'))
+  next()
+})
+router.use(cors({
+  origin: true,
+  methods: ['GET', 'POST', 'PUT', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Experience-API-Version'],
+  exposedHeaders: ['X-Experience-API-Version'],
+  maxAge: 86400,
+}))
+router.use(generalLimiter)
+router.use(express.json({ limit: '1mb' }))
+router.use((req: Request, res: Response, next: NextFunction) => {
+  const auth = process.env.XAPI_LRS_AUTH
+  if (auth && req.headers.authorization !== auth) return next(AppError.unauthorized('Invalid LRS credentials'))
+  res.setHeader('X-Experience-API-Version', XAPI_VERSION)
+  next()
+})
+
+/**
+ * GET /api/xapi/about
+ * Supported xAPI versions
+ */
+router.get('/about', (req: Request, res: Response) => {
+  res.json({ version: [XAPI_VERSION] })
+})
+
+/**
+ * POST /api/xapi/statements
+ * Store one statement or a batch; returns their ids
+ */
+router.post(
+  '/statements',
+  validateResource(xapiSchemas.statementsBody, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const body = (req as any).bodyParsed as StatementInput | StatementInput[]
+    res.json(storeStatements(Array.isArray(body) ? body : [body]))
+  })
+)
+
+/**
+ * PUT /api/xapi/statements?statementId=
+ * Store a statement under the given id
+ */
+router.put(
+  '/statements',
+  validateResource(xapiSchemas.putQuery, 'query'),
+  validateResource(xapiSchemas.statement, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { statementId } = (req as any).queryParsed as { statementId: string }
+    const statement = (req as any).bodyParsed as StatementInput
+    if (statement.id && statement.id !== statementId) {
+      throw AppError.badRequest('Statement id does not match statementId')
+    }
+    storeStatements([{ ...statement, id: statementId }])
+    res.status(204).end()
+  })
+)
+
+/**
+ * GET /api/xapi/statements?statementId=&verb=&activity=&limit=
+ * One statement by id, or the newest statements
+ */
+router.get(
+  '/statements',
+  validateResource(xapiSchemas.query, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = (req as any).queryParsed as StatementsQuery
+    if (query.statementId) return res.json(getStatement(query.statementId))
+    res.json({ statements: listStatements(query), more: '' })
+  })
+)
+
+export default router
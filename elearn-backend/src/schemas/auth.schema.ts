@@ -13,9 +13,11 @@ export const registerSchema = z.object({
   email: commonSchemas.email,
   password: commonSchemas.password,
   name: commonSchemas.name,
+  inviteToken: z.string().min(1).max(200).optional(),
 })
 .refine(
-  (data) => data.email.toLowerCase().endsWith('@gmail.com'),
+  // The inviter chose the address, so invited emails may use any domain
+  (data) => !!data.inviteToken || data.email.toLowerCase().endsWith('@gmail.com'),
   {
     message: 'Email must end with @gmail.com',
     path: ['email'],
@@ -34,6 +36,74 @@ export const loginSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginSchema>
 
+/**
+ * Two-factor code: a 6-digit TOTP code or a recovery code
+ */
+const twoFactorCode = z.string().trim().min(6, 'Code required').max(20)
+
+/**
+ * Second login step schema (token from the login response)
+ */
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token required'),
+  code: twoFactorCode,
+})
+
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>
+
+/**
+ * Two-factor setup required at login schema
+ */
+export const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token required'),
+})
+
+export type TwoFactorChallengeInput = z.infer<typeof twoFactorChallengeSchema>
+
+/**
+ * Two-factor code schema (enable 2FA, regenerate recovery codes)
+ */
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCode,
+})
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>
+
+/**
+ * Disable two-factor schema
+ */
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password required'),
+  code: twoFactorCode,
+})
+
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>
+
+/**
+ * Random key from the browser's sessionStorage that binds an OIDC sign-in to the browser
+ */
+const browserKey = z.string().min(16, 'Browser key required').max(200)
+
+/**
+ * OIDC sign-in (or provider linking) start schema
+ */
+export const oidcStartSchema = z.object({
+  browserKey,
+})
+
+export type OidcStartInput = z.infer<typeof oidcStartSchema>
+
+/**
+ * OIDC callback schema (query of the provider's redirect, posted by the frontend)
+ */
+export const oidcCallbackSchema = z.object({
+  code: z.string().min(1, 'Code required').max(2048),
+  state: z.string().min(1, 'State required').max(200),
+  browserKey,
+})
+
+export type OidcCallbackInput = z.infer<typeof oidcCallbackSchema>
+
 /**
  * Refresh token schema
  */
@@ -97,6 +167,15 @@ export const verifyEmailSchema = z.object({
 
 export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>
 
+/**
+ * Unlock account schema (link from the lockout email)
+ */
+export const unlockAccountSchema = z.object({
+  token: z.string().min(1, 'Unlock token required'),
+})
+
+export type UnlockAccountInput = z.infer<typeof unlockAccountSchema>
+
 /**
  * Resend verification email schema
  */
@@ -122,12 +201,19 @@ export type UpdateProfileInput = z.infer<typeof updateProfileSchema>
 export const authSchemas = {
   register: registerSchema,
   login: loginSchema,
+  twoFactorLogin: twoFactorLoginSchema,
+  twoFactorChallenge: twoFactorChallengeSchema,
+  twoFactorCode: twoFactorCodeSchema,
+  disableTwoFactor: disableTwoFactorSchema,
+  oidcStart: oidcStartSchema,
+  oidcCallback: oidcCallbackSchema,
   refreshToken: refreshTokenSchema,
   changePassword: changePasswordSchema,
   changeEmail: changeEmailSchema,
   forgotPassword: forgotPasswordSchema,
   resetPassword: resetPasswordSchema,
   verifyEmail: verifyEmailSchema,
+  unlockAccount: unlockAccountSchema,
   resendVerificationEmail: resendVerificationEmailSchema,
   updateProfile: updateProfileSchema,
 }
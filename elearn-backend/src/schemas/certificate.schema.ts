@@ -0,0 +1,31 @@
+/**
+ * Certificate Validation Schemas
+ * Zod schemas for issuing, downloading and verifying course certificates
+ */
+import { z } from 'zod'
+import { commonSchemas } from './common.schema.js'
+
+/**
+ * Certificate code parameter schema (XXXX-XXXX-XXXX, case-insensitive)
+ */
+export const certificateCodeParamSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9]{4}-[A-Za-z0-9]{4}-[A-Za-z0-9]{4}$/, 'Invalid certificate code'),
+})
+
+/**
+ * Claim certificate schema
+ */
+export const claimCertificateSchema = z.object({
+  slug: z.string().min(1).max(255),
+  lang: commonSchemas.lang.optional(),
+})
+
+export type ClaimCertificateInput = z.infer<typeof claimCertificateSchema>
+
+/**
+ * All certificate schemas
+ */
+export const certificateSchemas = {
+  codeParam: certificateCodeParamSchema,
+  claim: claimCertificateSchema,
+}
@@ -99,7 +99,7 @@ export const statusSchema = z.enum(['ACTIVE', 'INACTIVE', 'ARCHIVED'])
 /**
  * Role enum
  */
-export const roleSchema = z.enum(['STUDENT', 'EDITOR', 'ADMIN'])
+export const roleSchema = z.enum(['STUDENT', 'TEACHER', 'EDITOR', 'ADMIN'])
 
 /**
  * Common schemas object
@@ -0,0 +1,170 @@
+/**
+ * Content Import Schemas
+ * Mirror the JSON produced by GET /admin/content/export. Fields the export gained later are
+ * optional, so older exports still import (missing fields are left untouched).
+ */
+import { z } from 'zod'
+import { difficultySchema, questionTypeSchema, quizModeSchema, reviewPolicySchema } from './quiz.schema.js'
+import { materialTypeEnum } from './material.schema.js'
+import { langSchema } from './common.schema.js'
+
+const idSchema = z.string().min(1).max(64)
+const translationsSchema = z.record(z.string()).nullable().optional()
+const cacheSchema = z.record(z.unknown()).nullable().optional()
+const contentStatusSchema = z.enum(['Draft', 'InReview', 'ChangesRequested', 'Scheduled', 'Published'])
+const positionSchema = z.number().int().min(0).optional()
+
+// Exported dates are ISO strings
+const dateSchema = z
+  .string()
+  .datetime()
+  .nullable()
+  .optional()
+  .transform((v) => (v == null ? v : new Date(v)))
+
+export const contentCategorySchema = z.enum([
+  'Programming',
+  'Mathematics',
+  'Databases',
+  'Networks',
+  'WebDevelopment',
+  'MobileDevelopment',
+  'MachineLearning',
+  'Security',
+  'DevOps',
+  'OperatingSystems',
+])
+
+const importOptionSchema = z.object({
+  id: idSchema,
+  text: z.string(),
+  textJson: translationsSchema,
+  correct: z.boolean(),
+})
+
+const importQuestionSchema = z.object({
+  id: idSchema,
+  text: z.string().min(1),
+  textJson: translationsSchema,
+  explanation: z.string().nullable().optional(),
+  explanationJson: translationsSchema,
+  tags: z.array(z.string()).default([]),
+  difficulty: difficultySchema,
+  type: questionTypeSchema.optional(),
+  numericAnswer: z.number().finite().nullable().optional(),
+  tolerance: z.number().finite().min(0).nullable().optional(),
+  acceptedAnswers: z.array(z.string()).optional(),
+  options: z.array(importOptionSchema).default([]),
+})
+
+const importDrawRuleSchema = z.object({
+  count: z.number().int().min(1),
+  difficulty: difficultySchema.nullable(),
+  tags: z.array(z.string()).default([]),
+  position: z.number().int().min(0).default(0),
+})
+
+const importQuizSchema = z.object({
+  id: idSchema,
+  title: z.string().min(1),
+  titleJson: translationsSchema,
+  titleCache: cacheSchema,
+  durationSec: z.number().int().positive(),
+  status: contentStatusSchema,
+  publishedAt: dateSchema,
+  position: positionSchema,
+  mode: quizModeSchema.optional(),
+  reviewPolicy: reviewPolicySchema.optional(),
+  reviewAt: dateSchema,
+  drawRules: z.array(importDrawRuleSchema).optional(),
+  questions: z.array(importQuestionSchema).default([]),
+})
+
+const importMaterialSchema = z.object({
+  id: idSchema,
+  title: z.string().min(1),
+  titleJson: translationsSchema,
+  titleCache: cacheSchema,
+  type: materialTypeEnum,
+  url: z.string().nullable().optional(),
+  urlJson: translationsSchema,
+  content: z.string().nullable().optional(),
+  contentJson: translationsSchema,
+  contentCache: cacheSchema,
+  lang: z.enum(['UA', 'PL', 'EN']).optional(),
+  status: contentStatusSchema,
+  publishedAt: dateSchema,
+  position: positionSchema,
+})
+
+export type ImportOption = z.infer<typeof importOptionSchema>
+export type ImportQuestion = z.infer<typeof importQuestionSchema>
+export type ImportQuiz = z.infer<typeof importQuizSchema>
+export type ImportMaterial = z.infer<typeof importMaterialSchema>
+
+export type ImportTopic = {
+  id: string
+  slug: string
+  name: string
+  nameJson?: Record<string, string> | null
+  titleCache?: Record<string, unknown> | null
+  description: string
+  descJson?: Record<string, string> | null
+  descCache?: Record<string, unknown> | null
+  category: z.infer<typeof contentCategorySchema>
+  status: z.infer<typeof contentStatusSchema>
+  publishedAt?: Date | null
+  position?: number
+  materials: ImportMaterial[]
+  quizzes: ImportQuiz[]
+  children: ImportTopic[]
+}
+
+const importTopicSchema: z.ZodType<ImportTopic, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.object({
+    id: idSchema,
+    slug: z.string().min(1).max(255),
+    name: z.string().min(1),
+    nameJson: translationsSchema,
+    titleCache: cacheSchema,
+    description: z.string(),
+    descJson: translationsSchema,
+    descCache: cacheSchema,
+    category: contentCategorySchema,
+    status: contentStatusSchema,
+    publishedAt: dateSchema,
+    position: positionSchema,
+    materials: z.array(importMaterialSchema).default([]),
+    quizzes: z.array(importQuizSchema).default([]),
+    children: z.array(importTopicSchema).default([]),
+  })
+)
+
+/**
+ * Import body: the root topics exactly as exported
+ */
+export const contentImportSchema = z.array(importTopicSchema).min(1, 'Nothing to import')
+
+/**
+ * Import query: dry run unless explicitly disabled
+ */
+export const contentImportQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+})
+
+/**
+ * SCORM export query: package language and optional xAPI reporting.
+ * Without lrsEndpoint the statements go to the LRS configured on the server.
+ */
+export const scormExportQuerySchema = z.object({
+  lang: langSchema,
+  xapi: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  lrsEndpoint: z.string().url().max(500).optional(),
+  lrsAuth: z.string().max(500).optional(), // Authorization header value, e.g. "Basic …"
+})
+
+export const contentSchemas = {
+  import: contentImportSchema,
+  importQuery: contentImportQuerySchema,
+  scormExportQuery: scormExportQuerySchema,
+}
@@ -0,0 +1,98 @@
+/**
+ * Editorial Review Validation Schemas
+ * Workflow transitions, scheduling and review comments for materials and quizzes
+ */
+import { z } from 'zod'
+import { commonSchemas } from './common.schema.js'
+
+/**
+ * Workflow item parameter schema
+ */
+export const workflowParamSchema = z.object({
+  entity: z.enum(['material', 'quiz']),
+  id: z.string().cuid(),
+})
+
+export type WorkflowParams = z.infer<typeof workflowParamSchema>
+
+/**
+ * Comment target parameter schema
+ */
+export const commentTargetParamSchema = z.object({
+  target: z.enum(['material', 'quiz', 'question']),
+  id: z.string().cuid(),
+})
+
+export type CommentTargetParams = z.infer<typeof commentTargetParamSchema>
+
+/**
+ * Submit for review schema
+ */
+export const submitReviewSchema = z.object({
+  reviewerId: z.string().cuid().nullable().optional(),
+})
+
+/**
+ * Reviewer assignment schema
+ */
+export const assignReviewerSchema = z.object({
+  reviewerId: z.string().cuid().nullable(),
+})
+
+/**
+ * Request changes schema: the note goes to the author
+ */
+export const requestChangesSchema = z.object({
+  note: z.string().trim().min(1).max(5000),
+})
+
+/**
+ * Approve / reschedule schema; a publishAt in the future schedules the publication
+ */
+export const scheduleSchema = z.object({
+  publishAt: commonSchemas.date.nullable().optional(),
+  unpublishAt: commonSchemas.date.nullable().optional(),
+})
+
+export type ScheduleInput = z.infer<typeof scheduleSchema>
+
+/**
+ * Review comment schema; field and lang anchor the comment to part of the content
+ */
+export const reviewCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+  field: z.string().max(100).nullable().optional(),
+  lang: z.enum(['UA', 'PL', 'EN']).nullable().optional(),
+  quote: z.string().max(1000).nullable().optional(),
+})
+
+export type ReviewCommentBody = z.infer<typeof reviewCommentSchema>
+
+/**
+ * Resolve comment schema
+ */
+export const resolveCommentSchema = z.object({
+  resolved: z.boolean(),
+})
+
+/**
+ * Review queue query schema
+ */
+export const reviewQueueQuerySchema = z.object({
+  mine: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+})
+
+/**
+ * All editorial schemas
+ */
+export const editorialSchemas = {
+  workflowParam: workflowParamSchema,
+  commentTargetParam: commentTargetParamSchema,
+  submit: submitReviewSchema,
+  assignReviewer: assignReviewerSchema,
+  requestChanges: requestChangesSchema,
+  schedule: scheduleSchema,
+  comment: reviewCommentSchema,
+  resolveComment: resolveCommentSchema,
+  queueQuery: reviewQueueQuerySchema,
+}
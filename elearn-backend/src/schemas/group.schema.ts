@@ -0,0 +1,95 @@
+/**
+ * Group Validation Schemas
+ * Zod schemas for teacher groups, membership and assignments
+ */
+import { z } from 'zod'
+import { commonSchemas } from './common.schema.js'
+
+/**
+ * Group ID parameter schema
+ */
+export const groupIdParamSchema = z.object({
+  id: commonSchemas.cuid,
+})
+
+/**
+ * Member removal parameters
+ */
+export const groupMemberParamSchema = z.object({
+  id: commonSchemas.cuid,
+  userId: commonSchemas.cuid,
+})
+
+/**
+ * Assignment removal parameters
+ */
+export const groupAssignmentParamSchema = z.object({
+  id: commonSchemas.cuid,
+  assignmentId: commonSchemas.cuid,
+})
+
+/**
+ * Create group schema
+ */
+export const createGroupSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(1000).optional(),
+})
+
+export type CreateGroupInput = z.infer<typeof createGroupSchema>
+
+/**
+ * Update group schema
+ */
+export const updateGroupSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().trim().max(1000).nullable().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.description !== undefined, {
+    message: 'Nothing to update',
+  })
+
+export type UpdateGroupInput = z.infer<typeof updateGroupSchema>
+
+/**
+ * Join group schema (code is case-insensitive)
+ */
+export const joinGroupSchema = z.object({
+  code: z.string().trim().min(4).max(20).transform((v) => v.toUpperCase()),
+})
+
+export type JoinGroupInput = z.infer<typeof joinGroupSchema>
+
+/**
+ * Assign a course (root topic) to a group; assigning it again updates the due date
+ */
+export const createAssignmentSchema = z.object({
+  topicId: commonSchemas.cuid,
+  dueAt: commonSchemas.date.nullable().optional(),
+})
+
+export type CreateAssignmentInput = z.infer<typeof createAssignmentSchema>
+
+/**
+ * Language query schema
+ */
+export const groupLangQuerySchema = z.object({
+  lang: commonSchemas.lang.optional(),
+})
+
+export type GroupLangQuery = z.infer<typeof groupLangQuerySchema>
+
+/**
+ * All group schemas
+ */
+export const groupSchemas = {
+  idParam: groupIdParamSchema,
+  memberParam: groupMemberParamSchema,
+  assignmentParam: groupAssignmentParamSchema,
+  create: createGroupSchema,
+  update: updateGroupSchema,
+  join: joinGroupSchema,
+  createAssignment: createAssignmentSchema,
+  langQuery: groupLangQuerySchema,
+}
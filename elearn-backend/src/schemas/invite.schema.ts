@@ -0,0 +1,47 @@
+/**
+ * Invite Validation Schemas
+ * Zod schemas for registration invites
+ */
+import { z } from 'zod'
+import { commonSchemas } from './common.schema.js'
+
+export const MAX_INVITES_PER_REQUEST = 100
+
+/**
+ * Invite ID parameter schema
+ */
+export const inviteIdParamSchema = z.object({
+  id: commonSchemas.cuid,
+})
+
+/**
+ * Create invites schema: one or many emails, the same role and expiry for all
+ */
+export const createInvitesSchema = z.object({
+  emails: z.array(commonSchemas.email).min(1, 'At least one email is required').max(MAX_INVITES_PER_REQUEST),
+  role: commonSchemas.role.default('STUDENT'),
+  expiresInDays: z.number().int().min(1).max(90).optional(),
+})
+
+export type CreateInvitesInput = z.infer<typeof createInvitesSchema>
+
+/**
+ * List invites query schema
+ */
+export const listInvitesQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.enum(['pending', 'used', 'expired', 'revoked']).optional(),
+  search: z.string().trim().max(255).optional(),
+})
+
+export type ListInvitesQuery = z.infer<typeof listInvitesQuerySchema>
+
+/**
+ * All invite schemas
+ */
+export const inviteSchemas = {
+  idParam: inviteIdParamSchema,
+  create: createInvitesSchema,
+  listQuery: listInvitesQuerySchema,
+}
@@ -8,7 +8,7 @@ import { commonSchemas } from './common.schema.js'
 /**
  * Material type enum
  */
-export const materialTypeEnum = z.enum(['pdf', 'video', 'text', 'link'])
+export const materialTypeEnum = z.enum(['pdf', 'video', 'text', 'link', 'summary', 'flashcards', 'glossary'])
 
 export type MaterialType = z.infer<typeof materialTypeEnum>
 
@@ -102,6 +102,18 @@ export const topicMaterialParamSchema = z.object({
 
 export type TopicMaterialParam = z.infer<typeof topicMaterialParamSchema>
 
+/**
+ * Study aids generation schema: which aids, in which language, and whether to machine-translate
+ * them into the other languages
+ */
+export const generateStudyAidsSchema = z.object({
+  kinds: z.array(z.enum(['summary', 'flashcards', 'glossary'])).min(1).max(3),
+  language: z.enum(['UA', 'PL', 'EN']).optional(),
+  translate: z.boolean().default(false),
+})
+
+export type GenerateStudyAidsInput = z.infer<typeof generateStudyAidsSchema>
+
 /**
  * All material schemas
  */
@@ -112,4 +124,5 @@ export const materialSchemas = {
   pagination: materialPaginationSchema,
   idParam: materialIdParamSchema,
   topicMaterialParam: topicMaterialParamSchema,
+  studyAids: generateStudyAidsSchema,
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Learning Path Validation Schemas
+ * Zod schemas for enrolment, path progress and topic prerequisites
+ */
+import { z } from 'zod'
+import { commonSchemas } from './common.schema.js'
+
+/**
+ * Path slug parameter schema (slug of a root topic)
+ */
+export const pathSlugParamSchema = z.object({
+  slug: z.string().min(1).max(255),
+})
+
+/**
+ * Language query schema
+ */
+export const pathLangQuerySchema = z.object({
+  lang: commonSchemas.lang.optional(),
+})
+
+export type PathLangQuery = z.infer<typeof pathLangQuerySchema>
+
+/**
+ * Create prerequisite schema
+ * A topic is unlocked by passing a quiz or by completing another topic, one rule per row
+ */
+export const createPrerequisiteSchema = z
+  .object({
+    requiredQuizId: z.string().cuid('Invalid quiz ID').optional(),
+    requiredTopicId: z.string().cuid('Invalid topic ID').optional(),
+  })
+  .refine((data) => !!data.requiredQuizId !== !!data.requiredTopicId, {
+    message: 'Provide exactly one of requiredQuizId or requiredTopicId',
+  })
+
+export type CreatePrerequisiteInput = z.infer<typeof createPrerequisiteSchema>
+
+/**
+ * Reorder schema: ids in their new order, position = index
+ */
+export const reorderSchema = z
+  .object({
+    children: z.array(z.string().cuid()).max(500).optional(),
+    materials: z.array(z.string().cuid()).max(500).optional(),
+    quizzes: z.array(z.string().cuid()).max(500).optional(),
+  })
+  .refine((data) => data.children || data.materials || data.quizzes, {
+    message: 'Nothing to reorder',
+  })
+
+export type ReorderInput = z.infer<typeof reorderSchema>
+
+/**
+ * All learning path schemas
+ */
+export const pathSchemas = {
+  slugParam: pathSlugParamSchema,
+  langQuery: pathLangQuerySchema,
+  createPrerequisite: createPrerequisiteSchema,
+  reorder: reorderSchema,
+}
@@ -17,6 +17,14 @@ const questionOptionSchema = z.object({
 
 export type QuestionOption = z.infer<typeof questionOptionSchema>
 
+/**
+ * Question type schema
+ * single/truefalse/multiple are answered with options, numeric/text with a free value
+ */
+export const questionTypeSchema = z.enum(['single', 'multiple', 'truefalse', 'numeric', 'text'])
+
+export type QuestionTypeInput = z.infer<typeof questionTypeSchema>
+
 /**
  * Create question schema
  */
@@ -24,11 +32,14 @@ export const createQuestionSchema = z.object({
   quizId: z.string().cuid('Invalid quiz ID'),
   text: z.string().min(5, 'Question must be at least 5 characters').max(1000),
   textJson: z.record(z.string()).optional(),
-  type: z.enum(['single', 'multiple']).default('single'),
+  type: questionTypeSchema.default('single'),
   options: z
     .array(questionOptionSchema)
-    .min(2, 'At least 2 options required')
-    .max(10, 'Maximum 10 options allowed'),
+    .max(10, 'Maximum 10 options allowed')
+    .default([]),
+  numericAnswer: z.number().finite().nullable().optional(),
+  tolerance: z.number().finite().min(0).nullable().optional(),
+  acceptedAnswers: z.array(z.string().min(1).max(200)).max(20).optional(),
   explanation: z.string().max(2000).optional(),
   explanationJson: z.record(z.string()).optional(),
 })
@@ -81,6 +92,8 @@ export const quizAnswerSchema = z.object({
   questionId: z.string().cuid('Invalid question ID'),
   optionId: z.string().cuid().optional(),
   selectedOptions: z.array(z.string().cuid()).optional(),
+  value: z.string().max(200).optional(),
+  timeSpentMs: z.number().int().min(0).max(24 * 60 * 60 * 1000).optional(),
 })
 
 export type QuizAnswer = z.infer<typeof quizAnswerSchema>
@@ -108,6 +121,20 @@ export const quizIdParamSchema = z.object({
 
 export type QuizIdParam = z.infer<typeof quizIdParamSchema>
 
+/**
+ * Quiz attempt ID parameter schema
+ */
+export const attemptIdParamSchema = z.object({
+  id: z.string().cuid('Invalid attempt ID'),
+})
+
+/**
+ * Attempt review query schema
+ */
+export const attemptReviewQuerySchema = z.object({
+  lang: commonSchemas.lang.optional(),
+})
+
 /**
  * Quiz pagination schema
  */
@@ -121,15 +148,97 @@ export const quizPaginationSchema = z.object({
 
 export type QuizPaginationInput = z.infer<typeof quizPaginationSchema>
 
+/**
+ * Quiz mode and exam review policy (when attempts show the correct answers)
+ */
+export const quizModeSchema = z.enum(['PRACTICE', 'EXAM'])
+export const reviewPolicySchema = z.enum(['AFTER_SUBMIT', 'AFTER_DATE', 'NEVER'])
+
+/**
+ * Question difficulty
+ */
+export const difficultySchema = z.enum(['Easy', 'Medium', 'Hard'])
+
+/**
+ * Draw rule schema: `count` bank questions of the difficulty (any if omitted) having all tags
+ */
+export const drawRuleSchema = z.object({
+  count: z.number().int().min(1).max(100),
+  difficulty: difficultySchema.nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(10).default([]),
+})
+
+export type DrawRuleInput = z.infer<typeof drawRuleSchema>
+
+/**
+ * Replace draw rules schema (an empty list makes the quiz fixed again)
+ */
+export const replaceDrawRulesSchema = z.object({
+  rules: z.array(drawRuleSchema).max(20),
+})
+
+export type ReplaceDrawRulesInput = z.infer<typeof replaceDrawRulesSchema>
+
+/**
+ * Question bank search query (tags are comma-separated, all must match)
+ */
+export const questionBankQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  tags: z
+    .string()
+    .optional()
+    .transform((v) => (v ? v.split(',').map((t) => t.trim()).filter(Boolean) : [])),
+  difficulty: difficultySchema.optional(),
+  search: z.string().trim().max(200).optional(),
+  lang: commonSchemas.lang.optional(),
+})
+
+export type QuestionBankQuery = z.infer<typeof questionBankQuerySchema>
+
+/**
+ * Quiz interchange formats: Moodle XML, GIFT, IMS QTI 2.1
+ */
+export const quizFormatSchema = z.enum(['moodle', 'gift', 'qti'])
+
+/**
+ * Quiz file import: file content as text, or base64 for binary files (QTI packages)
+ */
+export const quizFileImportSchema = z.object({
+  format: quizFormatSchema,
+  content: z.string().min(1, 'File is empty'),
+  encoding: z.enum(['utf8', 'base64']).default('utf8'),
+  title: z.string().trim().min(2).max(200).optional(),
+  dryRun: z.boolean().default(false),
+})
+
+export type QuizFileImportInput = z.infer<typeof quizFileImportSchema>
+
+export const quizFileExportQuerySchema = z.object({
+  format: quizFormatSchema,
+})
+
 /**
  * All quiz schemas
  */
 export const quizSchemas = {
+  questionType: questionTypeSchema,
   createQuestion: createQuestionSchema,
   updateQuestion: updateQuestionSchema,
   createQuiz: createQuizSchema,
   updateQuiz: updateQuizSchema,
   submitQuiz: submitQuizSchema,
   idParam: quizIdParamSchema,
+  attemptIdParam: attemptIdParamSchema,
+  attemptReviewQuery: attemptReviewQuerySchema,
   pagination: quizPaginationSchema,
+  difficulty: difficultySchema,
+  mode: quizModeSchema,
+  reviewPolicy: reviewPolicySchema,
+  drawRule: drawRuleSchema,
+  replaceDrawRules: replaceDrawRulesSchema,
+  bankQuery: questionBankQuerySchema,
+  format: quizFormatSchema,
+  fileImport: quizFileImportSchema,
+  fileExportQuery: quizFileExportQuerySchema,
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * Review Validation Schemas
+ * Zod schemas for the spaced-repetition review queue
+ */
+import { z } from 'zod'
+import { commonSchemas } from './common.schema.js'
+
+/**
+ * Due reviews query schema
+ */
+export const dueReviewsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(50).default(20),
+  lang: commonSchemas.lang.optional(),
+})
+
+export type DueReviewsQuery = z.infer<typeof dueReviewsQuerySchema>
+
+/**
+ * Question ID parameter schema
+ */
+export const reviewQuestionParamSchema = z.object({
+  questionId: z.string().cuid('Invalid question ID'),
+})
+
+/**
+ * Grade review schema
+ * The answer is shaped like a quiz answer; quality (3..5) only matters when it is correct
+ */
+export const gradeReviewSchema = z.object({
+  optionId: z.string().cuid().optional(),
+  selectedOptions: z.array(z.string().cuid()).optional(),
+  value: z.string().max(200).optional(),
+  quality: z.number().int().min(0).max(5).optional(),
+  lang: commonSchemas.lang.optional(),
+})
+
+export type GradeReviewInput = z.infer<typeof gradeReviewSchema>
+
+/**
+ * All review schemas
+ */
+export const reviewSchemas = {
+  dueQuery: dueReviewsQuerySchema,
+  questionParam: reviewQuestionParamSchema,
+  grade: gradeReviewSchema,
+}
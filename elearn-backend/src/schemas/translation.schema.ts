@@ -0,0 +1,74 @@
+/**
+ * Translation Validation Schemas
+ * Coverage report, missing-translation worklist and the side-by-side translation editor
+ */
+import { z } from 'zod'
+
+const langEnum = z.enum(['UA', 'PL', 'EN'])
+const entityEnum = z.enum(['topic', 'material', 'quiz', 'question'])
+
+/**
+ * Translated entity parameter schema
+ */
+export const translationParamSchema = z.object({
+  entity: entityEnum,
+  id: z.string().cuid(),
+})
+
+export type TranslationParams = z.infer<typeof translationParamSchema>
+
+/**
+ * Missing translations worklist query schema
+ */
+export const translationGapsQuerySchema = z.object({
+  lang: langEnum.optional(),
+  entity: entityEnum.optional(),
+  topicId: z.string().cuid().optional(),
+  state: z.enum(['missing', 'stale', 'machine']).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+})
+
+export type TranslationGapsQuery = z.infer<typeof translationGapsQuerySchema>
+
+/**
+ * Save translations schema: texts of one language by field; confirm marks unchanged
+ * translations as checked against the current EN text
+ */
+export const saveTranslationsSchema = z.object({
+  lang: langEnum,
+  values: z.record(z.string().max(100), z.string().max(50000)).default({}),
+  confirm: z.array(z.string().max(100)).max(200).default([]),
+})
+
+export type SaveTranslationsInput = z.infer<typeof saveTranslationsSchema>
+
+/**
+ * Machine translation parameter schema: questions are translated with their quiz
+ */
+export const machineTranslationParamSchema = z.object({
+  entity: z.enum(['topic', 'material', 'quiz']),
+  id: z.string().cuid(),
+})
+
+export type MachineTranslationParams = z.infer<typeof machineTranslationParamSchema>
+
+/**
+ * Machine translation schema: target languages, all missing ones by default
+ */
+export const machineTranslationSchema = z.object({
+  langs: z.array(langEnum).min(1).optional(),
+})
+
+export type MachineTranslationInput = z.infer<typeof machineTranslationSchema>
+
+/**
+ * All translation schemas
+ */
+export const translationSchemas = {
+  param: translationParamSchema,
+  gapsQuery: translationGapsQuerySchema,
+  save: saveTranslationsSchema,
+  machineParam: machineTranslationParamSchema,
+  machine: machineTranslationSchema,
+}
@@ -0,0 +1,68 @@
+/**
+ * xAPI Validation Schemas
+ * The parts of an xAPI 1.0.3 statement the local LRS stand-in checks; the rest is kept as sent
+ */
+import { z } from 'zod'
+
+const iriSchema = z.string().url().max(2048)
+
+const agentSchema = z
+  .object({
+    objectType: z.enum(['Agent', 'Group']).optional(),
+    name: z.string().max(255).optional(),
+    mbox: z.string().startsWith('mailto:').optional(),
+    account: z.object({ homePage: iriSchema, name: z.string().min(1).max(255) }).optional(),
+  })
+  .passthrough()
+  .refine((a) => a.mbox || a.account, { message: 'Actor needs an mbox or an account' })
+
+/**
+ * Statement schema
+ */
+export const statementSchema = z
+  .object({
+    id: z.string().uuid().optional(),
+    actor: agentSchema,
+    verb: z.object({ id: iriSchema, display: z.record(z.string()).optional() }).passthrough(),
+    object: z.object({ objectType: z.string().optional(), id: iriSchema }).passthrough(),
+    result: z.record(z.unknown()).optional(),
+    context: z.record(z.unknown()).optional(),
+    timestamp: z.string().datetime({ offset: true }).optional(),
+  })
+  .passthrough()
+
+export type StatementInput = z.infer<typeof statementSchema>
+
+/**
+ * POST body: one statement or a batch
+ */
+export const statementsBodySchema = z.union([statementSchema, z.array(statementSchema).min(1).max(100)])
+
+/**
+ * PUT query: the statement id is chosen by the client
+ */
+export const statementPutQuerySchema = z.object({
+  statementId: z.string().uuid(),
+})
+
+/**
+ * GET query: a single statement by id, or the newest ones filtered by verb/activity
+ */
+export const statementsQuerySchema = z.object({
+  statementId: z.string().uuid().optional(),
+  verb: iriSchema.optional(),
+  activity: iriSchema.optional(),
+  limit: z.coerce.number().int().positive().max(500).default(100),
+})
+
+export type StatementsQuery = z.infer<typeof statementsQuerySchema>
+
+/**
+ * All xAPI schemas
+ */
+export const xapiSchemas = {
+  statement: statementSchema,
+  statementsBody: statementsBodySchema,
+  putQuery: statementPutQuerySchema,
+  query: statementsQuerySchema,
+}
@@ -0,0 +1,190 @@
+// src/services/achievements.service.ts
+/**
+ * Achievements evaluator
+ *
+ * Active AchievementTemplate rows are matched to rules from `achievementsDatabase` by code.
+ * When a rule is satisfied a UserAchievement is recorded and the template's xpReward is
+ * credited in the same transaction; the unique (userId, achievementId) pair keeps it one-time.
+ */
+import { prisma } from '../db.js'
+import type { Lang } from '../shared'
+import type { AchievementTemplate } from '@prisma/client'
+import { achievementsDatabase, type AchievementRule } from '../config/achievements.js'
+import { getTranslation } from '../utils/i18n.js'
+import { logger } from '../utils/logger.js'
+import { calculateStreak } from './progress.service.js'
+
+type RuleType = AchievementRule['type']
+type AchievementStats = Partial<Record<RuleType, number>>
+
+const rulesByCode = new Map(achievementsDatabase.map((a) => [a.code, a.rule]))
+
+function ruleTarget(rule: AchievementRule): number {
+  return rule.type === 'streak' ? rule.days : rule.count
+}
+
+/**
+ * Load only the counters needed by the given rule types
+ */
+async function loadStats(userId: string, types: Set<RuleType>): Promise<AchievementStats> {
+  const stats: AchievementStats = {}
+
+  await Promise.all([...types].map(async (type) => {
+    switch (type) {
+      case 'quizzesCompleted':
+        stats[type] = await prisma.quizAttempt.count({ where: { userId } })
+        break
+      case 'perfectScores': {
+        const [row] = await prisma.$queryRaw<{ count: bigint }[]>`
+          SELECT COUNT(*) AS count FROM "QuizAttempt"
+          WHERE "userId" = ${userId} AND "total" > 0 AND "score" >= "total"
+        `
+        stats[type] = Number(row?.count ?? 0)
+        break
+      }
+      case 'streak':
+        stats[type] = (await calculateStreak(userId)).longest
+        break
+      case 'materialsViewed':
+        stats[type] = await prisma.materialView.count({ where: { userId } })
+        break
+      case 'topicsCompleted': {
+        const [row] = await prisma.$queryRaw<{ count: bigint }[]>`
+          SELECT COUNT(*) AS count FROM (
+            SELECT m."topicId"
+            FROM "Material" m
+            LEFT JOIN "MaterialView" v ON v."materialId" = m."id" AND v."userId" = ${userId}
+            WHERE m."status" = 'Published' AND m."deletedAt" IS NULL
+            GROUP BY m."topicId"
+            HAVING COUNT(*) = COUNT(v."id")
+          ) completed
+        `
+        stats[type] = Number(row?.count ?? 0)
+        break
+      }
+      case 'reviewsCompleted': {
+        const agg = await prisma.userActivity.aggregate({ where: { userId }, _sum: { reviewsCompleted: true } })
+        stats[type] = agg._sum.reviewsCompleted ?? 0
+        break
+      }
+    }
+  }))
+
+  return stats
+}
+
+/**
+ * Unlock every achievement whose rule the user now satisfies and credit its XP once
+ * @returns codes of newly unlocked achievements
+ */
+export async function evaluateAchievements(userId: string): Promise<string[]> {
+  const pending = await prisma.achievementTemplate.findMany({
+    where: { isActive: true, unlocks: { none: { userId } } },
+  })
+  const candidates = pending.filter((t) => rulesByCode.has(t.code))
+  if (candidates.length === 0) return []
+
+  const stats = await loadStats(userId, new Set(candidates.map((t) => rulesByCode.get(t.code)!.type)))
+  const unlocked: string[] = []
+
+  for (const template of candidates) {
+    const rule = rulesByCode.get(template.code)!
+    if ((stats[rule.type] ?? 0) < ruleTarget(rule)) continue
+
+    const created = await prisma.$transaction(async (tx) => {
+      // skipDuplicates makes a concurrent evaluation a no-op instead of a second XP credit
+      const { count } = await tx.userAchievement.createMany({
+        data: [{ userId, achievementId: template.id, xpAwarded: template.xpReward }],
+        skipDuplicates: true,
+      })
+      if (count > 0 && template.xpReward > 0) {
+        await tx.user.update({ where: { id: userId }, data: { xp: { increment: template.xpReward } } })
+      }
+      return count > 0
+    })
+    if (created) unlocked.push(template.code)
+  }
+
+  if (unlocked.length > 0) {
+    logger.info(`[evaluateAchievements] User ${userId} unlocked: ${unlocked.join(', ')}`)
+  }
+  return unlocked
+}
+
+function localize(template: AchievementTemplate, lang: Lang) {
+  // {name: {UA,PL,EN}, description: {UA,PL,EN}}
+  const translations = template.translations as Record<string, Record<string, string>> | null
+  return {
+    name: getTranslation(translations?.name, lang, template.code),
+    description: getTranslation(translations?.description, lang, ''),
+  }
+}
+
+/**
+ * All active achievements with the user's unlock state and progress towards locked ones
+ */
+export async function getUserAchievements(userId: string, lang: Lang = 'EN') {
+  await evaluateAchievements(userId)
+
+  const templates = await prisma.achievementTemplate.findMany({
+    where: { isActive: true },
+    include: { unlocks: { where: { userId }, select: { unlockedAt: true } } },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const lockedTypes = new Set(
+    templates
+      .filter((t) => t.unlocks.length === 0 && rulesByCode.has(t.code))
+      .map((t) => rulesByCode.get(t.code)!.type)
+  )
+  const stats = await loadStats(userId, lockedTypes)
+
+  const items = templates.map((template) => {
+    const rule = rulesByCode.get(template.code)
+    const unlockedAt = template.unlocks[0]?.unlockedAt ?? null
+    const target = rule ? ruleTarget(rule) : 0
+    return {
+      code: template.code,
+      icon: template.icon,
+      ...localize(template, lang),
+      xpReward: template.xpReward,
+      unlocked: !!unlockedAt,
+      unlockedAt: unlockedAt?.toISOString() ?? null,
+      progress: unlockedAt ? target : Math.min(rule ? stats[rule.type] ?? 0 : 0, target),
+      target,
+    }
+  })
+
+  // Unlocked first (newest on top), then locked closest to completion
+  return items.sort((a, b) => {
+    if (a.unlocked !== b.unlocked) return a.unlocked ? -1 : 1
+    if (a.unlocked) return b.unlockedAt!.localeCompare(a.unlockedAt!)
+    return b.progress / (b.target || 1) - a.progress / (a.target || 1)
+  })
+}
+
+/**
+ * Most recent unlocks for a set of users (leaderboard)
+ */
+export async function getRecentAchievements(userIds: string[], lang: Lang = 'EN', perUser: number = 3) {
+  const unlocks = await prisma.userAchievement.findMany({
+    where: { userId: { in: userIds }, achievement: { isActive: true } },
+    orderBy: { unlockedAt: 'desc' },
+    include: { achievement: true },
+  })
+
+  const byUser = new Map<string, { count: number; recent: Array<{ code: string; icon: string; name: string }> }>()
+  for (const unlock of unlocks) {
+    const entry = byUser.get(unlock.userId) ?? { count: 0, recent: [] }
+    entry.count++
+    if (entry.recent.length < perUser) {
+      entry.recent.push({
+        code: unlock.achievement.code,
+        icon: unlock.achievement.icon,
+        name: localize(unlock.achievement, lang).name,
+      })
+    }
+    byUser.set(unlock.userId, entry)
+  }
+  return byUser
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { countByDifficulty, parseQuizResponse, pickByDifficulty } from './ai.service.js'
+
+const options = (correct: number, count = 4) =>
+  Array.from({ length: count }, (_, i) => ({ text: `Option ${i + 1}`, isCorrect: i === correct }))
+
+const response = (questions: unknown[]) => JSON.stringify({ title: ' Joins ', questions })
+
+describe('parseQuizResponse', () => {
+  it('keeps valid questions, trimmed, with the difficulty normalized', () => {
+    const quiz = parseQuizResponse(
+      response([
+        { text: ' What is a join? ', explanation: ' Combines rows ', difficulty: 'HARD', options: options(1) },
+        { text: 'Which join keeps all left rows?', options: options(0) },
+      ]),
+      4
+    )
+
+    expect(quiz.title).toBe('Joins')
+    expect(quiz.invalidCount).toBe(0)
+    expect(quiz.questions).toEqual([
+      { text: 'What is a join?', explanation: 'Combines rows', difficulty: 'Hard', options: options(1) },
+      { text: 'Which join keeps all left rows?', explanation: '', difficulty: 'Medium', options: options(0) },
+    ])
+  })
+
+  it('drops questions that break the requested shape and counts them', () => {
+    const quiz = parseQuizResponse(
+      response([
+        { text: 'Valid', options: options(2) },
+        { text: '', options: options(0) },
+        { text: 'Three options', options: options(0, 3) },
+        { text: 'No correct option', options: options(-1) },
+        { text: 'Two correct', options: options(0).map((o, i) => ({ ...o, isCorrect: i < 2 })) },
+        { text: 'Repeated', options: options(0).map((o, i) => ({ ...o, text: i < 2 ? 'Same' : o.text })) },
+        { text: 'Blank option', options: options(0).map((o, i) => ({ ...o, text: i === 3 ? ' ' : o.text })) },
+        { text: 'String flag', options: options(-1).map((o, i) => ({ ...o, isCorrect: i === 0 ? 'true' : false })) },
+      ]),
+      4
+    )
+
+    expect(quiz.questions.map((q) => q.text)).toEqual(['Valid'])
+    expect(quiz.invalidCount).toBe(7)
+  })
+
+  it('keeps every valid question, even more than requested', () => {
+    const questions = Array.from({ length: 7 }, (_, i) => ({ text: `Question ${i}`, options: options(0) }))
+    expect(parseQuizResponse(response(questions), 4).questions).toHaveLength(7)
+  })
+
+  it('fails when nothing usable came back', () => {
+    expect(() => parseQuizResponse('not json', 4)).toThrow('invalid JSON')
+    expect(() => parseQuizResponse(JSON.stringify({ questions: [] }), 4)).toThrow('missing title')
+    expect(() => parseQuizResponse(response([]), 4)).toThrow('missing questions')
+    expect(() => parseQuizResponse(response([{ text: 'Bad', options: options(0, 2) }]), 4)).toThrow('no valid questions')
+  })
+})
+
+describe('pickByDifficulty', () => {
+  const generated = [
+    { id: 1, difficulty: 'Easy' as const },
+    { id: 2, difficulty: 'Easy' as const },
+    { id: 3, difficulty: 'Easy' as const },
+    { id: 4, difficulty: 'Medium' as const },
+    { id: 5, difficulty: 'Hard' as const },
+    { id: 6, difficulty: 'Medium' as const },
+    { id: 7, difficulty: 'Medium' as const },
+  ]
+
+  it('takes the requested number of each difficulty in generated order', () => {
+    const picked = pickByDifficulty(generated, { Easy: 2, Medium: 2, Hard: 1 })
+    expect(picked.map((q) => q.id)).toEqual([1, 2, 4, 5, 6])
+  })
+
+  it('fills a short difficulty with the others and reports the mix it got', () => {
+    const picked = pickByDifficulty(generated, { Easy: 1, Medium: 1, Hard: 3 })
+    expect(picked.map((q) => q.id)).toEqual([1, 2, 3, 4, 5])
+    expect(countByDifficulty(picked)).toEqual({ Easy: 3, Medium: 1, Hard: 1 })
+  })
+
+  it('returns everything when there are fewer questions than requested', () => {
+    expect(pickByDifficulty(generated.slice(0, 3), { Easy: 2, Medium: 2, Hard: 1 })).toHaveLength(3)
+  })
+})
@@ -28,9 +28,41 @@ export interface GeneratedQuestion {
 
 export interface GeneratedQuiz {
   title: string
+  /** Every valid question, which may be more or fewer than requested (see pickByDifficulty) */
   questions: GeneratedQuestion[]
+  /** Questions dropped because they broke the requested shape (option count, one correct option) */
+  invalidCount: number
 }
 
+export interface QuizGenerationOptions {
+  /** Number of questions per difficulty */
+  difficulty: Record<Difficulty, number>
+  /** Options per question */
+  optionCount: number
+  /** Existing questions the model should not repeat */
+  avoid: string[]
+}
+
+export type StudyAidKind = 'summary' | 'flashcards' | 'glossary'
+
+export interface StudyTerm {
+  term: string
+  definition: string
+}
+
+export interface GeneratedStudyAids {
+  summary?: { paragraphs: string[]; keyPoints: string[] }
+  flashcards?: StudyTerm[]
+  glossary?: StudyTerm[]
+}
+
+export const DEFAULT_DIFFICULTY_MIX: Record<Difficulty, number> = { Easy: 2, Medium: 2, Hard: 1 }
+export const DEFAULT_OPTION_COUNT = 4
+
+// Keep the prompt small: only this many existing questions are listed, each cut to a line
+const MAX_AVOID_QUESTIONS = 50
+const MAX_AVOID_LENGTH = 200
+
 interface GeminiQuizResponse {
   title: string
   questions: Array<{
@@ -44,6 +76,120 @@ interface GeminiQuizResponse {
   }>
 }
 
+const LANGUAGE_NAMES: Record<QuizLanguage, string> = {
+  UA: 'Ukrainian',
+  EN: 'English',
+  PL: 'Polish',
+}
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard']
+
+const DIFFICULTY_NAMES: Record<string, Difficulty> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+}
+
+// ============================================
+// QUIZ RESPONSE VALIDATION
+// ============================================
+
+/**
+ * Why a generated question can't be used, or null when it's valid
+ */
+function questionProblem(q: GeminiQuizResponse['questions'][number], optionCount: number): string | null {
+  if (!q || typeof q.text !== 'string' || !q.text.trim()) return 'missing text'
+  if (!Array.isArray(q.options)) return 'missing options'
+  if (q.options.length !== optionCount) return `${q.options.length} options instead of ${optionCount}`
+  if (q.options.some((opt) => !opt || typeof opt.text !== 'string' || !opt.text.trim())) return 'empty option'
+
+  const texts = q.options.map((opt) => opt.text.trim().toLowerCase())
+  if (new Set(texts).size !== texts.length) return 'repeated options'
+
+  const correctCount = q.options.filter((opt) => opt.isCorrect === true).length
+  if (correctCount !== 1) return `${correctCount} correct options`
+  return null
+}
+
+/**
+ * Parse and validate Gemini's quiz JSON. Questions with the wrong number of options or
+ * without exactly one correct option are dropped rather than guessed at.
+ */
+export function parseQuizResponse(jsonString: string, optionCount: number): GeneratedQuiz {
+  let parsed: GeminiQuizResponse
+
+  try {
+    parsed = JSON.parse(jsonString)
+  } catch (error) {
+    logger.error('Failed to parse Gemini JSON response:', jsonString.substring(0, 500))
+    throw AppError.internal('Failed to parse quiz response. The AI returned invalid JSON format. Please try again.')
+  }
+
+  // Validate structure
+  if (!parsed.title || typeof parsed.title !== 'string') {
+    throw AppError.internal('Invalid quiz response: missing title')
+  }
+
+  if (!Array.isArray(parsed.questions) || parsed.questions.length === 0) {
+    throw AppError.internal('Invalid quiz response: missing questions')
+  }
+
+  // Validate and transform questions
+  const questions: GeneratedQuestion[] = []
+  parsed.questions.forEach((q, index) => {
+    const problem = questionProblem(q, optionCount)
+    if (problem) {
+      logger.warn(`Dropping generated question ${index + 1}: ${problem}`)
+      return
+    }
+
+    const rawDifficulty = (q.difficulty || 'medium').toLowerCase()
+    questions.push({
+      text: q.text.trim(),
+      explanation: (q.explanation || '').trim(),
+      difficulty: DIFFICULTY_NAMES[rawDifficulty] || 'Medium',
+      options: q.options.map((opt) => ({ text: opt.text.trim(), isCorrect: opt.isCorrect === true })),
+    })
+  })
+
+  if (questions.length === 0) {
+    throw AppError.internal('Invalid quiz response: no valid questions')
+  }
+
+  return {
+    title: parsed.title.trim(),
+    questions,
+    invalidCount: parsed.questions.length - questions.length,
+  }
+}
+
+/**
+ * Choose up to the requested number of questions per difficulty, in generated order. When
+ * the model came up short on a difficulty, the gap is filled with surplus questions of the
+ * others, so the quiz still gets the requested length when enough questions are left.
+ */
+export function pickByDifficulty<T extends { difficulty: Difficulty }>(questions: T[], mix: Record<Difficulty, number>): T[] {
+  const picked = new Set<T>()
+  for (const d of DIFFICULTIES) {
+    questions.filter((q) => q.difficulty === d).slice(0, mix[d]).forEach((q) => picked.add(q))
+  }
+  const total = DIFFICULTIES.reduce((sum, d) => sum + mix[d], 0)
+  for (const q of questions) {
+    if (picked.size >= total) break
+    picked.add(q)
+  }
+  return questions.filter((q) => picked.has(q))
+}
+
+/**
+ * Questions per difficulty
+ */
+export function countByDifficulty(questions: { difficulty: Difficulty }[]): Record<Difficulty, number> {
+  const counts: Record<Difficulty, number> = { Easy: 0, Medium: 0, Hard: 0 }
+  for (const q of questions) counts[q.difficulty]++
+  return counts
+}
+
 // ============================================
 // AI SERVICE CLASS
 // ============================================
@@ -242,9 +388,14 @@ class AiService {
    * Generate a quiz from text content using Google Gemini
    * @param content - The text content to generate quiz from
    * @param language - Target language for the quiz (UA, EN, PL)
+   * @param options - Questions per difficulty, options per question, questions to avoid
    * @returns Generated quiz structure matching Prisma schema
    */
-  async generateQuiz(content: string, language: QuizLanguage = 'EN'): Promise<GeneratedQuiz> {
+  async generateQuiz(
+    content: string,
+    language: QuizLanguage = 'EN',
+    options: Partial<QuizGenerationOptions> = {}
+  ): Promise<GeneratedQuiz> {
     const genAI = this.getGeminiClient()
     const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' })
 
@@ -254,22 +405,33 @@ class AiService {
       ? content.substring(0, maxContentLength) + '...[content truncated]'
       : content
 
-    const languageNames: Record<QuizLanguage, string> = {
-      UA: 'Ukrainian',
-      EN: 'English',
-      PL: 'Polish',
-    }
-
-    const prompt = `You are an experienced teacher creating educational quizzes. Analyze the following text and generate a quiz with exactly 5 questions.
+    const mix = options.difficulty ?? DEFAULT_DIFFICULTY_MIX
+    const questionCount = mix.Easy + mix.Medium + mix.Hard
+    const optionCount = options.optionCount ?? DEFAULT_OPTION_COUNT
+    const difficultyRule = DIFFICULTIES
+      .filter((d) => mix[d] > 0)
+      .map((d) => `${mix[d]} ${d}`)
+      .join(', ')
+    const exampleOptions = Array.from({ length: optionCount }, (_, i) =>
+      `        { "text": "Option ${String.fromCharCode(65 + i)}", "isCorrect": ${i === 1} }`
+    ).join(',\n')
+    const avoid = (options.avoid ?? [])
+      .slice(0, MAX_AVOID_QUESTIONS)
+      .map((text) => `- ${text.replace(/\s+/g, ' ').slice(0, MAX_AVOID_LENGTH)}`)
+    const avoidRule = avoid.length > 0
+      ? `\n8. Do NOT repeat or rephrase any of these existing questions:\n${avoid.join('\n')}\n`
+      : ''
+
+    const prompt = `You are an experienced teacher creating educational quizzes. Analyze the following text and generate a quiz with exactly ${questionCount} questions.
 
 RULES:
 1. Questions should test understanding of key concepts from the text
-2. Each question must have exactly 4 options
+2. Each question must have exactly ${optionCount} options
 3. Only ONE option should be correct per question
 4. Provide a brief explanation for why the correct answer is correct
-5. Vary difficulty: include 2 Easy, 2 Medium, and 1 Hard question
-6. Write all content in ${languageNames[language]}
-7. Return ONLY raw JSON without any markdown formatting or code blocks
+5. Difficulty: include exactly ${difficultyRule}
+6. Write all content in ${LANGUAGE_NAMES[language]}
+7. Return ONLY raw JSON without any markdown formatting or code blocks${avoidRule}
 
 OUTPUT FORMAT (strictly follow this JSON structure):
 {
@@ -280,10 +442,7 @@ OUTPUT FORMAT (strictly follow this JSON structure):
       "explanation": "Explanation of why the correct answer is correct",
       "difficulty": "Easy",
       "options": [
-        { "text": "Option A", "isCorrect": false },
-        { "text": "Option B", "isCorrect": true },
-        { "text": "Option C", "isCorrect": false },
-        { "text": "Option D", "isCorrect": false }
+${exampleOptions}
       ]
     }
   ]
@@ -305,118 +464,180 @@ ${truncatedContent}`
 
       // Clean and parse the response
       const cleanedJson = this.cleanJson(responseText)
-      const quiz = this.parseQuizResponse(cleanedJson)
+      const quiz = parseQuizResponse(cleanedJson, optionCount)
       
-      logger.info(`Quiz generated successfully: "${quiz.title}" with ${quiz.questions.length} questions`)
+      logger.info(`Quiz generated successfully: "${quiz.title}" with ${quiz.questions.length} questions (${quiz.invalidCount} invalid dropped)`)
       return quiz
 
     } catch (error) {
-      if (error instanceof AppError) throw error
+      this.rethrowGeminiError(error, 'Failed to generate quiz. Please try again.')
+    }
+  }
 
-      // Handle Gemini-specific errors
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      logger.error('Gemini API error:', errorMessage)
-      
-      if (errorMessage.includes('API_KEY_INVALID') || errorMessage.includes('API key not valid')) {
-        throw AppError.internal('Gemini API key is invalid. Please check your configuration.')
-      }
-      if (errorMessage.includes('RATE_LIMIT') || errorMessage.includes('quota')) {
-        throw AppError.internal('Gemini API rate limit exceeded. Please try again later.')
-      }
-      if (errorMessage.includes('SAFETY')) {
-        throw AppError.badRequest('Content was blocked by safety filters. Please try different content.')
-      }
+  /**
+   * Map Gemini failures to AppErrors; AppErrors pass through unchanged
+   */
+  private rethrowGeminiError(error: unknown, fallbackMessage: string): never {
+    if (error instanceof AppError) throw error
+
+    // Handle Gemini-specific errors
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error('Gemini API error:', errorMessage)
 
-      logger.error('Quiz generation error:', error)
-      throw AppError.internal('Failed to generate quiz. Please try again.')
+    if (errorMessage.includes('API_KEY_INVALID') || errorMessage.includes('API key not valid')) {
+      throw AppError.internal('Gemini API key is invalid. Please check your configuration.')
+    }
+    if (errorMessage.includes('RATE_LIMIT') || errorMessage.includes('quota')) {
+      throw AppError.internal('Gemini API rate limit exceeded. Please try again later.')
     }
+    if (errorMessage.includes('SAFETY')) {
+      throw AppError.badRequest('Content was blocked by safety filters. Please try different content.')
+    }
+
+    throw AppError.internal(fallbackMessage)
   }
 
   /**
-   * Parse and validate Gemini response JSON
+   * Translate a batch of texts using Google Gemini
+   * @param texts - Texts to translate (Markdown allowed)
+   * @param from - Source language
+   * @param to - Target language
+   * @returns One translation per text, in the same order
    */
-  private parseQuizResponse(jsonString: string): GeneratedQuiz {
-    let parsed: GeminiQuizResponse
+  async translateTexts(texts: string[], from: QuizLanguage, to: QuizLanguage): Promise<string[]> {
+    if (texts.length === 0) return []
+
+    const genAI = this.getGeminiClient()
+    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' })
+
+    const prompt = `You are a professional translator of educational materials. Translate every string of the INPUT array from ${LANGUAGE_NAMES[from]} to ${LANGUAGE_NAMES[to]}.
+
+RULES:
+1. Keep Markdown, HTML tags, code blocks, inline code, URLs, formulas and {placeholders} unchanged
+2. Keep programming terms that are usually not translated
+3. Do not add notes or explanations
+4. Return ONLY raw JSON without any markdown formatting or code blocks
+
+OUTPUT FORMAT (strictly follow this JSON structure, exactly ${texts.length} strings in the input order):
+{ "translations": ["...", "..."] }
+
+INPUT:
+${JSON.stringify(texts)}`
 
     try {
-      parsed = JSON.parse(jsonString)
+      logger.info(`Translating ${texts.length} texts with Gemini (${from} -> ${to})`)
+
+      const result = await model.generateContent(prompt)
+      const responseText = (await result.response).text()
+      if (!responseText) {
+        throw AppError.internal('Gemini returned empty response')
+      }
+
+      let parsed: { translations?: unknown }
+      try {
+        parsed = JSON.parse(this.cleanJson(responseText))
+      } catch {
+        logger.error('Failed to parse Gemini JSON response:', responseText.substring(0, 500))
+        throw AppError.internal('Failed to parse translation response. The AI returned invalid JSON format. Please try again.')
+      }
+
+      const translations = parsed.translations
+      if (!Array.isArray(translations) || translations.length !== texts.length
+        || translations.some((t) => typeof t !== 'string')) {
+        throw AppError.internal('Invalid translation response: wrong number of translations')
+      }
+      return translations.map((t: string) => t.trim())
+
     } catch (error) {
-      logger.error('Failed to parse Gemini JSON response:', jsonString.substring(0, 500))
-      throw AppError.internal('Failed to parse quiz response. The AI returned invalid JSON format. Please try again.')
+      this.rethrowGeminiError(error, 'Failed to translate content. Please try again.')
     }
+  }
 
-    // Validate structure
-    if (!parsed.title || typeof parsed.title !== 'string') {
-      throw AppError.internal('Invalid quiz response: missing title')
-    }
+  /**
+   * Generate study aids (summary, flashcards, glossary) from text content in one Gemini call
+   * @param content - The text content to summarize
+   * @param language - Language to write in
+   * @param kinds - Which aids to generate
+   */
+  async generateStudyAids(content: string, language: QuizLanguage, kinds: StudyAidKind[]): Promise<GeneratedStudyAids> {
+    const genAI = this.getGeminiClient()
+    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' })
 
-    if (!Array.isArray(parsed.questions) || parsed.questions.length === 0) {
-      throw AppError.internal('Invalid quiz response: missing questions')
+    const maxContentLength = 30000
+    const truncatedContent = content.length > maxContentLength
+      ? content.substring(0, maxContentLength) + '...[content truncated]'
+      : content
+
+    const formats: Record<StudyAidKind, string> = {
+      summary: '"summary": { "paragraphs": ["2-4 short paragraphs"], "keyPoints": ["5-8 key takeaways"] }',
+      flashcards: '"flashcards": [{ "term": "Question or term for the front", "definition": "Short answer for the back" }] (8-15 cards)',
+      glossary: '"glossary": [{ "term": "Key term", "definition": "One or two sentence definition" }] (all important terms)',
     }
 
-    // Validate and transform questions
-    const questions: GeneratedQuestion[] = parsed.questions.map((q, index) => {
-      if (!q.text || typeof q.text !== 'string') {
-        throw AppError.internal(`Invalid question ${index + 1}: missing text`)
-      }
+    const prompt = `You are an experienced teacher preparing study aids for students. Based ONLY on the following text, create: ${kinds.join(', ')}.
 
-      if (!Array.isArray(q.options) || q.options.length < 2) {
-        throw AppError.internal(`Invalid question ${index + 1}: insufficient options`)
-      }
+RULES:
+1. Stay faithful to the text; do not invent facts
+2. Write all content in ${LANGUAGE_NAMES[language]}
+3. Use plain text without Markdown or HTML
+4. Return ONLY raw JSON without any markdown formatting or code blocks
 
-      // Validate options
-      const options: GeneratedOption[] = q.options.map((opt, optIndex) => {
-        if (!opt.text || typeof opt.text !== 'string') {
-          throw AppError.internal(`Invalid option ${optIndex + 1} in question ${index + 1}`)
-        }
-        return {
-          text: opt.text.trim(),
-          isCorrect: !!opt.isCorrect,
-        }
-      })
-
-      // Ensure exactly one correct answer
-      const correctCount = options.filter(o => o.isCorrect).length
-      if (correctCount !== 1) {
-        logger.warn(`Question ${index + 1} has ${correctCount} correct answers, fixing...`)
-        // Fix: set first option as correct if none, or keep only first correct
-        if (correctCount === 0) {
-          options[0].isCorrect = true
-        } else if (correctCount > 1) {
-          let foundFirst = false
-          for (const opt of options) {
-            if (opt.isCorrect) {
-              if (foundFirst) {
-                opt.isCorrect = false
-              } else {
-                foundFirst = true
-              }
-            }
-          }
-        }
-      }
+OUTPUT FORMAT (strictly follow this JSON structure, only the requested keys):
+{
+  ${kinds.map((kind) => formats[kind]).join(',\n  ')}
+}
+
+TEXT TO ANALYZE:
+${truncatedContent}`
+
+    try {
+      logger.info(`Generating study aids with Gemini (${kinds.join(', ')}; language: ${language}, content length: ${truncatedContent.length})`)
 
-      // Map difficulty
-      const difficultyMap: Record<string, Difficulty> = {
-        easy: 'Easy',
-        medium: 'Medium',
-        hard: 'Hard',
+      const result = await model.generateContent(prompt)
+      const responseText = (await result.response).text()
+      if (!responseText) {
+        throw AppError.internal('Gemini returned empty response')
       }
-      const rawDifficulty = (q.difficulty || 'medium').toLowerCase()
-      const difficulty: Difficulty = difficultyMap[rawDifficulty] || 'Medium'
-
-      return {
-        text: q.text.trim(),
-        explanation: (q.explanation || '').trim(),
-        difficulty,
-        options,
+
+      let parsed: Record<string, unknown>
+      try {
+        parsed = JSON.parse(this.cleanJson(responseText))
+      } catch {
+        logger.error('Failed to parse Gemini JSON response:', responseText.substring(0, 500))
+        throw AppError.internal('Failed to parse study aids response. The AI returned invalid JSON format. Please try again.')
       }
-    })
 
-    return {
-      title: parsed.title.trim(),
-      questions,
+      return this.parseStudyAids(parsed, kinds)
+    } catch (error) {
+      this.rethrowGeminiError(error, 'Failed to generate study aids. Please try again.')
+    }
+  }
+
+  /**
+   * Validate generated study aids: empty entries are dropped, missing aids are an error
+   */
+  private parseStudyAids(parsed: Record<string, unknown>, kinds: StudyAidKind[]): GeneratedStudyAids {
+    const strings = (value: unknown) =>
+      Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map((v) => v.trim()) : []
+    const terms = (value: unknown): StudyTerm[] =>
+      (Array.isArray(value) ? value : [])
+        .filter((t) => t && typeof t.term === 'string' && typeof t.definition === 'string' && t.term.trim() && t.definition.trim())
+        .map((t) => ({ term: t.term.trim(), definition: t.definition.trim() }))
+
+    const aids: GeneratedStudyAids = {}
+    if (kinds.includes('summary')) {
+      const summary = (parsed.summary ?? {}) as Record<string, unknown>
+      const paragraphs = strings(summary.paragraphs)
+      if (paragraphs.length === 0) throw AppError.internal('Invalid study aids response: missing summary')
+      aids.summary = { paragraphs, keyPoints: strings(summary.keyPoints) }
+    }
+    for (const kind of ['flashcards', 'glossary'] as const) {
+      if (!kinds.includes(kind)) continue
+      const list = terms(parsed[kind])
+      if (list.length === 0) throw AppError.internal(`Invalid study aids response: missing ${kind}`)
+      aids[kind] = list
     }
+    return aids
   }
 }
 
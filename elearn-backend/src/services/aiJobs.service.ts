@@ -0,0 +1,466 @@
+// src/services/aiJobs.service.ts
+/**
+ * Background AI jobs
+ *
+ * Quiz and study aid generation (PDF parsing or YouTube transcript fetch, the Gemini call,
+ * saving the result) takes longer than an HTTP request should, so the editor endpoints only
+ * enqueue an AiJob and the client polls it. startAiJobWorker() runs queued jobs one at a time
+ * and records the current stage (extracting -> generating -> saving, then translating for
+ * study aids that are to be machine-translated). Generated questions that nearly repeat a
+ * question already in the topic, or each other, are dropped before saving; the rest are
+ * picked to match the requested difficulty mix as closely as they allow.
+ *
+ * A failed attempt is retried with exponential backoff unless the input itself is at fault
+ * (4xx AppError). The worker that claims a job records its id and refreshes a heartbeat every
+ * AI_JOB_HEARTBEAT_MS while it runs; a running job whose heartbeat is older than
+ * AI_JOB_TIMEOUT_MS belongs to a stopped process and is picked up again, however long it has
+ * been running. Stage updates and the save of the generated content check that this worker
+ * still owns the job, and the save stores its result on the job in the same transaction, so
+ * an attempt that resumes after the save returns that result instead of creating the content
+ * again.
+ */
+import crypto from 'crypto'
+import os from 'os'
+import type { AiJob, AiJobStage, Difficulty, Prisma } from '@prisma/client'
+import { prisma } from '../db.js'
+import type { Role } from '../shared'
+import { AppError } from '../utils/AppError.js'
+import { getEnvNumber } from '../utils/env.js'
+import { filledTranslations } from '../utils/i18n.js'
+import { logger } from '../utils/logger.js'
+import { findNearDuplicate } from '../utils/textSimilarity.js'
+import {
+  aiService,
+  countByDifficulty,
+  DEFAULT_DIFFICULTY_MIX,
+  DEFAULT_OPTION_COUNT,
+  type ContentSourceType,
+  pickByDifficulty,
+  type QuizLanguage,
+} from './ai.service.js'
+import { auditLog, AuditActions, AuditResources } from './audit.service.js'
+import { getStudyAidSource, runStudyAidGeneration, type StudyAidsInput, type StudyAidsResult } from './studyAids.service.js'
+
+const POLL_INTERVAL_MS = getEnvNumber('AI_JOB_POLL_INTERVAL_MS', 2000)
+const HEARTBEAT_INTERVAL_MS = getEnvNumber('AI_JOB_HEARTBEAT_MS', 30_000)
+const JOB_TIMEOUT_MS = getEnvNumber('AI_JOB_TIMEOUT_MS', 2 * 60 * 1000)
+const RETRY_BASE_MS = 15_000
+
+// Identifies this process on the jobs it claims
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`
+
+// The client inside $transaction (the extended client minus its connection/transaction methods)
+type Db = Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>
+
+/** What a running job may do with its own row */
+export type AiJobContext = {
+  id: string
+  authorId: string | null
+  /** Result stored by an earlier attempt that got as far as saving its content */
+  saved: Prisma.JsonValue | null
+  setStage: (stage: AiJobStage) => Promise<void>
+  /** Write the generated content and store its result on the job, in one transaction */
+  save: <T extends Prisma.InputJsonObject>(write: (db: Db) => Promise<T>) => Promise<T>
+}
+
+/** The job was taken over by another worker, which records its outcome */
+class JobLostError extends Error {
+  constructor(id: string) {
+    super(`AI job ${id} is no longer owned by this worker`)
+  }
+}
+
+export type QuizGenerationInput = {
+  topicId: string
+  content: string
+  type: ContentSourceType
+  language: QuizLanguage
+  durationSec: number
+  questionCount?: number
+  /** Questions per difficulty, summing to questionCount; split 2:2:1 when absent */
+  difficultyMix?: Record<Difficulty, number>
+  optionCount?: number
+  /** Added to every generated question */
+  tags?: string[]
+}
+
+export type QuizGenerationResult = {
+  quizId: string
+  title: string
+  questionsCount: number
+  status: string
+  /** Generated questions dropped as near-duplicates of existing ones or of each other */
+  duplicatesDropped: number
+  /** Generated questions dropped for breaking the requested shape */
+  invalidDropped: number
+  /** Questions per difficulty as requested and as saved; they differ when the model came up short */
+  difficultyMix: { requested: Record<Difficulty, number>; actual: Record<Difficulty, number> }
+}
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard']
+
+/**
+ * Split a question count by the default difficulty proportions (largest remainder)
+ */
+function splitDifficulty(count: number): Record<Difficulty, number> {
+  const weight = DIFFICULTIES.reduce((sum, d) => sum + DEFAULT_DIFFICULTY_MIX[d], 0)
+  const exact = DIFFICULTIES.map((d) => (count * DEFAULT_DIFFICULTY_MIX[d]) / weight)
+  const mix = Object.fromEntries(DIFFICULTIES.map((d, i) => [d, Math.floor(exact[i])])) as Record<Difficulty, number>
+  let left = count - DIFFICULTIES.reduce((sum, d) => sum + mix[d], 0)
+  const byRemainder = DIFFICULTIES.map((d, i) => ({ d, r: exact[i] - mix[d] })).sort((a, b) => b.r - a.r)
+  for (const { d } of byRemainder) {
+    if (left-- <= 0) break
+    mix[d]++
+  }
+  return mix
+}
+
+/**
+ * Texts of the questions already in the topic, in every language
+ */
+async function topicQuestionTexts(topicId: string): Promise<string[]> {
+  const questions = await prisma.question.findMany({
+    where: { quiz: { topicId } },
+    select: { text: true, textJson: true },
+  })
+  return [...new Set(questions.flatMap((q) => [q.text, ...Object.values(filledTranslations(q.textJson))]))]
+}
+
+/**
+ * Job as reported to the client: the (possibly large) input is left out
+ */
+function toView(job: AiJob) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    stage: job.stage,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    result: job.result as QuizGenerationResult | StudyAidsResult | null,
+    nextAttemptAt: job.status === 'queued' && job.attempts > 0 ? job.runAt : null,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  }
+}
+
+export type AiJobView = ReturnType<typeof toView>
+
+// ============================================
+// QUEUE
+// ============================================
+
+// Set by startAiJobWorker() so new jobs start without waiting for the next poll
+let wakeWorker: () => void = () => {}
+
+/**
+ * Queue AI quiz generation. Checks what can be checked up front; the rest is reported by the job.
+ */
+export async function enqueueQuizGeneration(input: QuizGenerationInput, userId: string): Promise<AiJobView> {
+  if (!aiService.isAvailable()) {
+    throw AppError.internal('AI service is not configured. Please contact administrator.')
+  }
+
+  const topic = await prisma.topic.findUnique({ where: { id: input.topicId }, select: { id: true } })
+  if (!topic) {
+    throw AppError.notFound('Topic not found')
+  }
+
+  const job = await prisma.aiJob.create({
+    data: { type: 'quiz_generation', input, createdById: userId },
+  })
+  wakeWorker()
+  return toView(job)
+}
+
+/**
+ * Queue generation of study aids from a material
+ */
+export async function enqueueStudyAids(
+  materialId: string,
+  input: Omit<StudyAidsInput, 'materialId'>,
+  userId: string
+): Promise<AiJobView> {
+  if (!aiService.isAvailable()) {
+    throw AppError.internal('AI service is not configured. Please contact administrator.')
+  }
+
+  await getStudyAidSource(materialId, input.language)
+
+  const data: StudyAidsInput = { materialId, ...input }
+  const job = await prisma.aiJob.create({
+    data: { type: 'study_aids', input: data, createdById: userId },
+  })
+  wakeWorker()
+  return toView(job)
+}
+
+/**
+ * A job of the current user (any job for ADMIN)
+ */
+export async function getAiJob(id: string, actor: { id: string; role: Role }): Promise<AiJobView> {
+  const job = await prisma.aiJob.findUnique({ where: { id } })
+  if (!job || (job.createdById !== actor.id && actor.role !== 'ADMIN')) {
+    throw AppError.notFound('Job not found')
+  }
+  return toView(job)
+}
+
+// ============================================
+// WORKER
+// ============================================
+
+// The source text (or base64 PDF) is only needed while the job can still run
+function withoutContent(input: Prisma.JsonValue): Prisma.InputJsonValue {
+  const copy = { ...(input as Record<string, unknown>) }
+  delete copy.content
+  return copy as Prisma.InputJsonValue
+}
+
+async function runQuizGeneration(job: AiJob, ctx: AiJobContext): Promise<QuizGenerationResult> {
+  if (ctx.saved) return ctx.saved as QuizGenerationResult
+
+  const input = job.input as QuizGenerationInput
+  const { topicId, content, type, language, durationSec } = input
+  const difficulty = input.difficultyMix ?? splitDifficulty(input.questionCount ?? 5)
+  const optionCount = input.optionCount ?? DEFAULT_OPTION_COUNT
+  const { setStage } = ctx
+
+  await setStage('extracting')
+  const extractedText = await aiService.extractText(content, type)
+
+  await setStage('generating')
+  const existing = await topicQuestionTexts(topicId)
+  const generatedQuiz = await aiService.generateQuiz(extractedText, language, { difficulty, optionCount, avoid: existing })
+
+  // Drop near-duplicates of the topic's questions and of earlier generated ones
+  const seen = [...existing]
+  const unique = generatedQuiz.questions.filter((q) => {
+    if (findNearDuplicate(q.text, seen) !== -1) return false
+    seen.push(q.text)
+    return true
+  })
+  const duplicatesDropped = generatedQuiz.questions.length - unique.length
+  if (unique.length === 0) {
+    throw AppError.conflict('All generated questions duplicate questions already in this topic')
+  }
+  // Picked after dropping duplicates, so surplus questions can take their place
+  const questions = pickByDifficulty(unique, difficulty)
+  const difficultyMix = { requested: difficulty, actual: countByDifficulty(questions) }
+
+  await setStage('saving')
+  const topic = await prisma.topic.findUnique({ where: { id: topicId }, select: { id: true } })
+  if (!topic) {
+    throw AppError.notFound('Topic not found')
+  }
+
+  // Save quiz to database with Draft status
+  const result = await ctx.save(async (db) => {
+    const quiz = await db.quiz.create({
+      data: {
+        title: generatedQuiz.title,
+        titleJson: { [language]: generatedQuiz.title },
+        durationSec,
+        topic: { connect: { id: topicId } },
+        createdBy: job.createdById ? { connect: { id: job.createdById } } : undefined,
+        status: 'Draft',
+        questions: {
+          create: questions.map((q) => ({
+            text: q.text,
+            textJson: { [language]: q.text },
+            explanation: q.explanation,
+            explanationJson: { [language]: q.explanation },
+            // The generator always returns exactly one correct option
+            type: 'single',
+            difficulty: q.difficulty,
+            tags: input.tags ?? [],
+            options: {
+              create: q.options.map((opt) => ({
+                text: opt.text,
+                textJson: { [language]: opt.text },
+                correct: opt.isCorrect,
+              })),
+            },
+          })),
+        },
+      },
+      select: { id: true, title: true, status: true },
+    })
+    return {
+      quizId: quiz.id,
+      title: quiz.title,
+      questionsCount: questions.length,
+      status: quiz.status,
+      duplicatesDropped,
+      invalidDropped: generatedQuiz.invalidCount,
+      difficultyMix,
+    }
+  })
+
+  await auditLog({
+    userId: job.createdById ?? undefined,
+    action: AuditActions.CREATE,
+    resource: AuditResources.QUIZ,
+    resourceId: result.quizId,
+    metadata: {
+      topicId,
+      generatedByAI: true,
+      aiJobId: job.id,
+      sourceType: type,
+      language,
+      questionsCount: questions.length,
+      duplicatesDropped,
+      invalidDropped: generatedQuiz.invalidCount,
+      difficultyMix,
+    },
+  })
+
+  return result
+}
+
+function runJob(job: AiJob, ctx: AiJobContext): Promise<QuizGenerationResult | StudyAidsResult> {
+  switch (job.type) {
+    case 'quiz_generation':
+      return runQuizGeneration(job, ctx)
+    case 'study_aids':
+      return runStudyAidGeneration(job.input as StudyAidsInput, ctx)
+  }
+}
+
+async function processJob(job: AiJob): Promise<void> {
+  // Only the worker that still owns the attempt may write for it or record its outcome
+  const owned = { id: job.id, status: 'running' as const, workerId: WORKER_ID }
+  const ctx: AiJobContext = {
+    id: job.id,
+    authorId: job.createdById,
+    saved: job.result,
+    setStage: async (stage) => {
+      const { count } = await prisma.aiJob.updateMany({ where: owned, data: { stage } })
+      if (count === 0) throw new JobLostError(job.id)
+    },
+    // The ownership check locks the job row, so the job can't be recovered while the content is written
+    save: (write) =>
+      prisma.$transaction(async (db) => {
+        const { count } = await db.aiJob.updateMany({ where: owned, data: { heartbeatAt: new Date() } })
+        if (count === 0) throw new JobLostError(job.id)
+        const result = await write(db)
+        await db.aiJob.update({ where: { id: job.id }, data: { result } })
+        return result
+      }),
+  }
+  const heartbeat = setInterval(() => {
+    prisma.aiJob
+      .updateMany({ where: owned, data: { heartbeatAt: new Date() } })
+      .catch((err) => logger.warn(`AI job ${job.id} heartbeat failed: ${(err as Error).message}`))
+  }, HEARTBEAT_INTERVAL_MS)
+  heartbeat.unref()
+
+  try {
+    const result = await runJob(job, ctx)
+    await prisma.aiJob.updateMany({
+      where: owned,
+      data: { status: 'succeeded', result, error: null, finishedAt: new Date(), input: withoutContent(job.input) },
+    })
+    logger.info(`AI job ${job.id} (${job.type}) succeeded`)
+  } catch (err) {
+    if (err instanceof JobLostError) {
+      logger.warn(err.message)
+      return
+    }
+    const message = err instanceof Error ? err.message : String(err)
+    const inputError = err instanceof AppError && err.statusCode < 500
+    if (!inputError && job.attempts < job.maxAttempts) {
+      const delay = RETRY_BASE_MS * 2 ** (job.attempts - 1)
+      await prisma.aiJob.updateMany({
+        where: owned,
+        data: { status: 'queued', error: message, runAt: new Date(Date.now() + delay) },
+      })
+      logger.warn(`AI job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${message}`)
+    } else {
+      await prisma.aiJob.updateMany({
+        where: owned,
+        data: { status: 'failed', error: message, finishedAt: new Date(), input: withoutContent(job.input) },
+      })
+      logger.error(`AI job ${job.id} failed`, err as Error)
+    }
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+/**
+ * Put jobs whose worker stopped sending heartbeats back in the queue (or fail them when out of
+ * attempts). Jobs claimed before heartbeats existed fall back to their start time.
+ */
+async function recoverStaleJobs(): Promise<void> {
+  const cutoff = new Date(Date.now() - JOB_TIMEOUT_MS)
+  const stale = await prisma.aiJob.findMany({
+    where: {
+      status: 'running',
+      OR: [{ heartbeatAt: { lt: cutoff } }, { heartbeatAt: null, startedAt: { lt: cutoff } }],
+    },
+  })
+  for (const job of stale) {
+    const error = 'Job timed out'
+    await prisma.aiJob.updateMany({
+      where: { id: job.id, status: 'running', workerId: job.workerId, heartbeatAt: job.heartbeatAt },
+      data: job.attempts < job.maxAttempts
+        ? { status: 'queued', error, runAt: new Date() }
+        : { status: 'failed', error, finishedAt: new Date(), input: withoutContent(job.input) },
+    })
+  }
+}
+
+/**
+ * Claim the next due job; the conditional update keeps two workers from taking the same one
+ */
+async function claimNextJob(): Promise<AiJob | null> {
+  const now = new Date()
+  const next = await prisma.aiJob.findFirst({
+    where: { status: 'queued', runAt: { lte: now } },
+    orderBy: { runAt: 'asc' },
+    select: { id: true },
+  })
+  if (!next) return null
+
+  const { count } = await prisma.aiJob.updateMany({
+    where: { id: next.id, status: 'queued' },
+    data: { status: 'running', stage: null, startedAt: now, workerId: WORKER_ID, heartbeatAt: now, attempts: { increment: 1 } },
+  })
+  return count === 0 ? null : prisma.aiJob.findUnique({ where: { id: next.id } })
+}
+
+let draining = false
+
+async function drainQueue(): Promise<void> {
+  if (draining) return
+  draining = true
+  try {
+    await recoverStaleJobs()
+    for (let job = await claimNextJob(); job; job = await claimNextJob()) {
+      await processJob(job)
+    }
+  } finally {
+    draining = false
+  }
+}
+
+/**
+ * Run due jobs now, whenever a job is queued, and every AI_JOB_POLL_INTERVAL_MS.
+ * Returns a function that stops the worker.
+ */
+export function startAiJobWorker(): () => void {
+  const tick = () => {
+    drainQueue().catch((err) => logger.error('AI job worker failed', err as Error))
+  }
+  wakeWorker = tick
+  tick()
+  const timer = setInterval(tick, POLL_INTERVAL_MS)
+  timer.unref()
+  return () => {
+    clearInterval(timer)
+    wakeWorker = () => {}
+  }
+}
@@ -96,6 +96,18 @@ export const AuditActions = {
   UNPUBLISH: 'UNPUBLISH',
   UPLOAD: 'UPLOAD',
   DOWNLOAD: 'DOWNLOAD',
+  IMPORT: 'IMPORT',
+  TWO_FACTOR_ENABLE: 'TWO_FACTOR_ENABLE',
+  TWO_FACTOR_DISABLE: 'TWO_FACTOR_DISABLE',
+  TWO_FACTOR_RECOVERY_USED: 'TWO_FACTOR_RECOVERY_USED',
+  TWO_FACTOR_CODES_REGENERATED: 'TWO_FACTOR_CODES_REGENERATED',
+  IDENTITY_LINK: 'IDENTITY_LINK',
+  IDENTITY_UNLINK: 'IDENTITY_UNLINK',
+  SESSION_REVOKE: 'SESSION_REVOKE',
+  REFRESH_TOKEN_REUSE: 'REFRESH_TOKEN_REUSE',
+  LOGIN_FAILED: 'LOGIN_FAILED',
+  ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
+  ACCOUNT_UNLOCK: 'ACCOUNT_UNLOCK',
 } as const
 
 export const AuditResources = {
@@ -108,4 +120,7 @@ export const AuditResources = {
   FILE: 'file',
   TRANSLATION: 'translation',
   SETTINGS: 'settings',
+  GROUP: 'group',
+  CONTENT: 'content',
+  INVITE: 'invite',
 } as const
\ No newline at end of file
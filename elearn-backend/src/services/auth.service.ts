@@ -8,6 +8,9 @@ import {
   revokeRefreshToken, 
   revokeAllUserTokens,
   generateRandomToken,
+  createTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  type RefreshResult,
   type TokenPair 
 } from './token.service.js'
 import { 
@@ -17,16 +20,33 @@ import {
 } from './email.service.js'
 import { AppError } from '../utils/AppError.js'
 import { auditLog, AuditActions, AuditResources } from './audit.service.js'
+import {
+  enableTwoFactor,
+  isTwoFactorRequired,
+  startTwoFactorSetup,
+  verifySecondFactor,
+} from './twoFactor.service.js'
+import {
+  assertLoginAllowed,
+  assertUnknownLoginAllowed,
+  clearFailedLogins,
+  recordFailedLogin,
+  recordUnknownLogin,
+} from './loginProtection.service.js'
+import { markInviteUsed, resolveRegistrationInvite } from './invites.service.js'
 import type { Role } from '../shared'
 
 const BCRYPT_ROUNDS = 12
 const VERIFICATION_TOKEN_EXPIRES_HOURS = 24
 const PASSWORD_RESET_TOKEN_EXPIRES_HOURS = 1
+// Невдалих кодів 2FA на один токен другого кроку, далі — знову вхід з паролем
+const MAX_CHALLENGE_FAILURES = 5
 
 export interface RegisterData {
   name: string
   email: string
   password: string
+  inviteToken?: string
 }
 
 export interface LoginData {
@@ -46,6 +66,64 @@ export interface AuthResult {
   tokens: TokenPair
 }
 
+/**
+ * Пароль перевірено, але потрібен другий крок: код 2FA (verify) або
+ * обов'язкове для ролі підключення 2FA (setup)
+ */
+export interface TwoFactorChallenge {
+  twoFactor: 'verify' | 'setup'
+  challengeToken: string
+}
+
+export type LoginResult = AuthResult | TwoFactorChallenge
+
+type SessionUser = {
+  id: string
+  name: string
+  email: string
+  role: string
+  xp: number
+  emailVerified: boolean
+}
+
+/**
+ * Видає пару токенів і пише LOGIN в аудит
+ */
+async function startSession(
+  user: SessionUser,
+  userAgent?: string,
+  ip?: string,
+  metadata: Record<string, unknown> = {}
+): Promise<AuthResult> {
+  const tokens = await createTokenPair(
+    { id: user.id, name: user.name, email: user.email, role: user.role as Role },
+    userAgent,
+    ip
+  )
+
+  await auditLog({
+    userId: user.id,
+    action: AuditActions.LOGIN,
+    resource: AuditResources.USER,
+    resourceId: user.id,
+    metadata: { email: user.email, ip, ...metadata },
+    ip,
+    userAgent,
+  })
+
+  return {
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role as Role,
+      xp: user.xp,
+      emailVerified: user.emailVerified,
+    },
+    tokens,
+  }
+}
+
 /**
  * Реєстрація нового користувача
  */
@@ -63,27 +141,36 @@ export async function registerUser(
     throw AppError.conflict('Email already in use')
   }
   
+  // Запрошення: обов'язкове в режимі INVITE_ONLY, задає роль і підтверджує email
+  const invite = await resolveRegistrationInvite(email, data.inviteToken)
+  
   // Хешуємо пароль
   const hash = await bcrypt.hash(password, BCRYPT_ROUNDS)
   
-  // Створюємо користувача
-  const user = await prisma.user.create({
-    data: { 
-      name: name.trim(), 
-      email: email.toLowerCase().trim(), 
-      password: hash, 
-      role: 'STUDENT',
-      isPremium: true,
-      emailVerified: false,
-    },
-    select: { 
-      id: true, 
-      name: true, 
-      email: true, 
-      role: true, 
-      xp: true,
-      emailVerified: true,
-    },
+  // Створюємо користувача; запрошення використовується в тій самій транзакції
+  const user = await prisma.$transaction(async (tx) => {
+    const created = await tx.user.create({
+      data: { 
+        name: name.trim(), 
+        email: email.toLowerCase().trim(), 
+        password: hash, 
+        role: invite?.role ?? 'STUDENT',
+        isPremium: true,
+        emailVerified: !!invite,
+      },
+      select: { 
+        id: true, 
+        name: true, 
+        email: true, 
+        role: true, 
+        xp: true,
+        emailVerified: true,
+      },
+    })
+    if (invite) {
+      await markInviteUsed(invite.id, tx)
+    }
+    return created
   })
   
   // Створюємо токени
@@ -98,7 +185,7 @@ export async function registerUser(
     action: AuditActions.CREATE,
     resource: AuditResources.USER,
     resourceId: user.id,
-    metadata: { email },
+    metadata: { email, ...(invite && { inviteId: invite.id }) },
     ip,
     userAgent,
   })
@@ -107,13 +194,13 @@ export async function registerUser(
 }
 
 /**
- * Вхід користувача
+ * Вхід користувача. З 2FA токени видаються лише після completeTwoFactorLogin
  */
 export async function loginUser(
   data: LoginData,
   userAgent?: string,
   ip?: string
-): Promise<AuthResult> {
+): Promise<LoginResult> {
   const { email, password } = data
   
   const user = await prisma.user.findUnique({ 
@@ -126,46 +213,126 @@ export async function loginUser(
       xp: true,
       password: true,
       emailVerified: true,
+      totpEnabledAt: true,
+      failedLoginCount: true,
+      lastFailedLoginAt: true,
+      lockedUntil: true,
     },
   })
   
   if (!user) {
+    // Та сама затримка й блокування, що й для наявних акаунтів: відповіді не видають, які email зареєстровані
+    assertUnknownLoginAllowed(email.toLowerCase().trim())
+    await recordUnknownLogin(email.toLowerCase().trim(), { ip, userAgent })
     throw new Error('Invalid credentials')
   }
   
-  const isValid = await bcrypt.compare(password, user.password)
+  // Заблокований акаунт або затримка після невдалих спроб — пароль навіть не перевіряємо
+  assertLoginAllowed(user)
+  
+  // Акаунти, створені через провайдера входу, пароля не мають
+  const isValid = !!user.password && await bcrypt.compare(password, user.password)
   if (!isValid) {
+    await recordFailedLogin(user, { ip, userAgent })
     throw new Error('Invalid credentials')
   }
   
-  // Створюємо токени
-  const tokens = await createTokenPair(
-    { id: user.id, name: user.name, email: user.email, role: user.role as Role },
-    userAgent,
-    ip
-  )
+  // З 2FA лічильник скидається лише після другого кроку
+  const result = await completeSignIn(user, userAgent, ip)
+  if (!('twoFactor' in result)) await clearFailedLogins(user)
+  return result
+}
+
+/**
+ * Перший фактор пройдено (пароль або провайдер входу): видає сесію або, з 2FA,
+ * виклик другого кроку — код 2FA або підключення 2FA, якщо воно обов'язкове для ролі
+ */
+export async function completeSignIn(
+  user: SessionUser & { totpEnabledAt: Date | null },
+  userAgent?: string,
+  ip?: string,
+  metadata: Record<string, unknown> = {}
+): Promise<LoginResult> {
+  if (user.totpEnabledAt) {
+    return { twoFactor: 'verify', challengeToken: await twoFactorChallenge(user.id) }
+  }
+  if (await isTwoFactorRequired(user.role as Role)) {
+    return { twoFactor: 'setup', challengeToken: await twoFactorChallenge(user.id) }
+  }
   
-  await auditLog({
-    userId: user.id,
-    action: AuditActions.LOGIN,
-    resource: AuditResources.USER,
-    resourceId: user.id,
-    metadata: { email, ip },
-    ip,
-    userAgent,
+  return startSession(user, userAgent, ip, metadata)
+}
+
+async function twoFactorChallenge(userId: string): Promise<string> {
+  const { failedLoginCount } = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { failedLoginCount: true },
   })
-  
-  return { 
-    user: { 
-      id: user.id, 
-      name: user.name, 
-      email: user.email, 
-      role: user.role as Role, 
-      xp: user.xp,
-      emailVerified: user.emailVerified,
-    }, 
-    tokens 
+  return createTwoFactorChallenge(userId, failedLoginCount)
+}
+
+async function getChallengeUser(challengeToken: string) {
+  const challenge = verifyTwoFactorChallenge(challengeToken)
+  const user = challenge
+    ? await prisma.user.findUnique({
+        where: { id: challenge.userId },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          xp: true,
+          emailVerified: true,
+          totpEnabledAt: true,
+          deletedAt: true,
+          failedLoginCount: true,
+          lastFailedLoginAt: true,
+          lockedUntil: true,
+        },
+      })
+    : null
+  if (!challenge || !user || user.deletedAt) {
+    throw AppError.unauthorized('Login session expired, please sign in again')
+  }
+  // Після кількох невдалих кодів токен більше не діє
+  if (user.failedLoginCount >= challenge.failedAttempts + MAX_CHALLENGE_FAILURES) {
+    throw AppError.unauthorized('Too many invalid codes, please sign in again')
+  }
+  // Блокування і затримка після невдалих спроб діють на кожен крок з цим токеном
+  assertLoginAllowed(user)
+  return user
+}
+
+/**
+ * Обов'язкове підключення 2FA під час входу: секрет і QR-код для застосунку
+ */
+export async function startLoginTwoFactorSetup(challengeToken: string) {
+  const user = await getChallengeUser(challengeToken)
+  return startTwoFactorSetup(user.id)
+}
+
+/**
+ * Другий крок входу: код 2FA (або код відновлення). Під час обов'язкового підключення
+ * код підтверджує 2FA, і у відповіді повертаються коди відновлення. Невдалі коди рахуються
+ * в блокування входу так само, як невдалі паролі.
+ */
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  code: string,
+  userAgent?: string,
+  ip?: string
+): Promise<AuthResult & { recoveryCodes?: string[] }> {
+  const user = await getChallengeUser(challengeToken)
+
+  if (user.totpEnabledAt) {
+    const method = await verifySecondFactor(user.id, code, { ip, userAgent })
+    await clearFailedLogins(user)
+    return startSession(user, userAgent, ip, { twoFactor: method })
   }
+
+  const { recoveryCodes } = await enableTwoFactor(user.id, code, { ip, userAgent })
+  await clearFailedLogins(user)
+  return { ...(await startSession(user, userAgent, ip, { twoFactor: 'totp' })), recoveryCodes }
 }
 
 /**
@@ -175,7 +342,7 @@ export async function refreshUserTokens(
   refreshToken: string,
   userAgent?: string,
   ip?: string
-): Promise<TokenPair | null> {
+): Promise<RefreshResult> {
   return refreshTokens(refreshToken, userAgent, ip)
 }
 
@@ -300,9 +467,10 @@ export async function resetPassword(token: string, newPassword: string): Promise
   
   // Транзакція: оновлюємо пароль, позначаємо токен використаним, відкликаємо всі сесії
   await prisma.$transaction(async (tx) => {
+    // Новий пароль заодно знімає блокування після невдалих входів
     await tx.user.update({
       where: { email: record.email },
-      data: { password: hash },
+      data: { password: hash, failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
     })
     
     await tx.passwordResetToken.update({
@@ -349,6 +517,10 @@ export async function changePassword(
     throw new Error('User not found')
   }
   
+  if (!user.password) {
+    throw AppError.badRequest('This account has no password yet; set one via password reset')
+  }
+  
   const isValid = await bcrypt.compare(currentPassword, user.password)
   if (!isValid) {
     throw new Error('Current password is incorrect')
@@ -412,6 +584,9 @@ export async function deleteUser(userId: string): Promise<boolean> {
     // Видаляємо токени авторизації
     await tx.refreshToken.deleteMany({ where: { userId } })
     
+    // Відв'язуємо провайдерів входу, щоб їхні акаунти можна було використати знову
+    await tx.userIdentity.deleteMany({ where: { userId } })
+    
     // Видаляємо відповіді на квізи
     await tx.answer.deleteMany({ where: { userId } })
     
@@ -0,0 +1,161 @@
+// src/services/certificates.service.ts
+/**
+ * Course completion certificates
+ *
+ * Once every published material of a course (root topic and its subtopics) is viewed and every
+ * published quiz passed, the student gets one Certificate per course: a PDF rendered in their
+ * language, stored via storage.service, plus a public verification code.
+ */
+import { randomInt } from 'crypto'
+import { prisma } from '../db.js'
+import type { Lang } from '../shared'
+import type { Certificate } from '@prisma/client'
+import { AppError } from '../utils/AppError.js'
+import { getEnv } from '../utils/env.js'
+import { getTranslation } from '../utils/i18n.js'
+import { logger } from '../utils/logger.js'
+import { renderCertificatePdf } from '../utils/certificatePdf.js'
+import { generateFileKey, getPresignedDownloadUrl, uploadBuffer } from './storage.service.js'
+import { isPathCompleted } from './paths.service.js'
+
+const FRONTEND_URL = getEnv('FRONTEND_URL', 'http://localhost:5173')
+// No 0/O, 1/I/L so codes can be typed from a printout
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+type RootTopic = { id: string; slug: string; name: string; nameJson: unknown }
+
+function generateCode(): string {
+  const chars = Array.from({ length: 12 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)])
+  return [0, 4, 8].map((i) => chars.slice(i, i + 4).join('')).join('-')
+}
+
+export function getVerifyUrl(code: string): string {
+  return `${FRONTEND_URL}/certificates/${code}`
+}
+
+function toDto(certificate: Certificate & { topic: { slug: string } }) {
+  return {
+    code: certificate.code,
+    topicId: certificate.topicId,
+    topicSlug: certificate.topic.slug,
+    topicName: certificate.topicName,
+    recipientName: certificate.recipientName,
+    lang: certificate.lang,
+    issuedAt: certificate.issuedAt.toISOString(),
+    verifyUrl: getVerifyUrl(certificate.code),
+  }
+}
+
+/**
+ * Render, store and record the certificate; the caller has checked completion
+ */
+async function createCertificate(userId: string, root: RootTopic, lang: Lang) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } })
+  if (!user) throw AppError.notFound('User not found')
+
+  const code = generateCode()
+  const issuedAt = new Date()
+  const topicName = getTranslation(root.nameJson as Record<string, string> | null, lang, root.name)
+
+  const pdf = await renderCertificatePdf({
+    recipientName: user.name,
+    topicName,
+    code,
+    issuedAt,
+    lang,
+    verifyUrl: getVerifyUrl(code),
+  })
+  const fileKey = generateFileKey('certificates', `${code}.pdf`)
+  await uploadBuffer(fileKey, pdf, 'application/pdf')
+
+  const certificate = await prisma.certificate.create({
+    data: { code, userId, topicId: root.id, lang, recipientName: user.name, topicName, fileKey, issuedAt },
+    include: { topic: { select: { slug: true } } },
+  })
+  logger.info(`[createCertificate] Issued ${code} to user ${userId} for topic ${root.id}`)
+  return certificate
+}
+
+/**
+ * Issue the course certificate if the topic's course was just completed.
+ * Called after quiz submits and material views; never throws so those requests don't fail.
+ * @returns verification code of a newly issued certificate
+ */
+export async function issueCertificateIfCompleted(userId: string, topicId: string, lang: Lang = 'EN'): Promise<string | null> {
+  try {
+    const topic = await prisma.topic.findUnique({
+      where: { id: topicId },
+      select: {
+        id: true, slug: true, name: true, nameJson: true, status: true,
+        parent: { select: { id: true, slug: true, name: true, nameJson: true, status: true } },
+      },
+    })
+    const root = topic?.parent ?? topic
+    if (!root || root.status !== 'Published') return null
+
+    const existing = await prisma.certificate.findUnique({ where: { userId_topicId: { userId, topicId: root.id } } })
+    if (existing || !(await isPathCompleted(userId, root))) return null
+
+    return (await createCertificate(userId, root, lang)).code
+  } catch (err) {
+    logger.error(`[issueCertificateIfCompleted] Failed for user ${userId}, topic ${topicId}`, err as Error)
+    return null
+  }
+}
+
+/**
+ * Get (or issue) the certificate for a completed course
+ */
+export async function claimCertificate(userId: string, slug: string, lang: Lang = 'EN') {
+  const root = await prisma.topic.findFirst({
+    where: { slug, parentId: null, status: 'Published' },
+    select: { id: true, slug: true, name: true, nameJson: true },
+  })
+  if (!root) throw AppError.notFound('Learning path not found')
+
+  const existing = await prisma.certificate.findUnique({
+    where: { userId_topicId: { userId, topicId: root.id } },
+    include: { topic: { select: { slug: true } } },
+  })
+  if (existing) return toDto(existing)
+
+  if (!(await isPathCompleted(userId, root))) {
+    throw AppError.badRequest('Course is not completed yet')
+  }
+  return toDto(await createCertificate(userId, root, lang))
+}
+
+export async function getUserCertificates(userId: string) {
+  const certificates = await prisma.certificate.findMany({
+    where: { userId },
+    orderBy: { issuedAt: 'desc' },
+    include: { topic: { select: { slug: true } } },
+  })
+  return certificates.map(toDto)
+}
+
+/**
+ * Short-lived download link for the owner's PDF
+ */
+export async function getCertificateDownloadUrl(userId: string, code: string) {
+  const certificate = await prisma.certificate.findUnique({ where: { code } })
+  if (!certificate || certificate.userId !== userId) throw AppError.notFound('Certificate not found')
+
+  return { url: await getPresignedDownloadUrl(certificate.fileKey, 300) }
+}
+
+/**
+ * Public verification: only what is printed on the certificate
+ */
+export async function verifyCertificate(code: string) {
+  const certificate = await prisma.certificate.findUnique({ where: { code: code.toUpperCase() } })
+  if (!certificate) return { valid: false as const, code }
+
+  return {
+    valid: true as const,
+    code: certificate.code,
+    recipientName: certificate.recipientName,
+    topicName: certificate.topicName,
+    issuedAt: certificate.issuedAt.toISOString(),
+  }
+}
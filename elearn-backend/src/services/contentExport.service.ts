@@ -0,0 +1,114 @@
+// src/services/contentExport.service.ts
+/**
+ * Content export tree walk
+ *
+ * Loads topics with their subtopics (up to MAX_DEPTH levels), materials and quizzes with
+ * questions and options. Shared by the JSON export (GET /admin/content/export, everything
+ * POST /admin/content/import needs to recreate the content) and the SCORM package export,
+ * which only takes what learners see: published subtopics, materials and quizzes.
+ */
+import type { Prisma } from '@prisma/client'
+import { prisma } from '../db.js'
+
+/** Levels of subtopics below the loaded topics */
+const MAX_DEPTH = 5
+
+const ORDER = [{ position: 'asc' as const }, { createdAt: 'asc' as const }]
+
+const materialSelect = {
+  id: true,
+  title: true,
+  titleJson: true,
+  titleCache: true,
+  type: true,
+  url: true,
+  urlJson: true,
+  content: true,
+  contentJson: true,
+  contentCache: true,
+  lang: true,
+  position: true,
+  status: true,
+  publishedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}
+
+const quizSelect = {
+  id: true,
+  title: true,
+  titleJson: true,
+  titleCache: true,
+  durationSec: true,
+  mode: true,
+  reviewPolicy: true,
+  reviewAt: true,
+  position: true,
+  status: true,
+  publishedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  drawRules: { select: { count: true, difficulty: true, tags: true, position: true } },
+  questions: {
+    select: {
+      id: true,
+      text: true,
+      textJson: true,
+      explanation: true,
+      explanationJson: true,
+      tags: true,
+      difficulty: true,
+      type: true,
+      numericAnswer: true,
+      tolerance: true,
+      acceptedAnswers: true,
+      options: {
+        select: {
+          id: true,
+          text: true,
+          textJson: true,
+          correct: true,
+        },
+      },
+    },
+  },
+}
+
+export type ExportMaterial = Prisma.MaterialGetPayload<{ select: typeof materialSelect }>
+export type ExportQuiz = Prisma.QuizGetPayload<{ select: typeof quizSelect }>
+export type ExportTopic = Prisma.TopicGetPayload<object> & {
+  materials: ExportMaterial[]
+  quizzes: ExportQuiz[]
+  children?: ExportTopic[] // Missing below MAX_DEPTH
+}
+
+export interface TopicTreeOptions {
+  publishedOnly?: boolean // Skip drafts (subtopics, materials, quizzes) as learners would
+}
+
+function topicInclude(depth: number, publishedOnly: boolean): Prisma.TopicInclude {
+  const content = publishedOnly ? { status: 'Published' as const, deletedAt: null } : { deletedAt: null }
+  return {
+    materials: { where: content, orderBy: ORDER, select: materialSelect },
+    quizzes: { where: content, orderBy: ORDER, select: quizSelect },
+    ...(depth > 0 && {
+      children: {
+        where: publishedOnly ? { status: 'Published' as const } : undefined,
+        orderBy: ORDER,
+        include: topicInclude(depth - 1, publishedOnly),
+      },
+    }),
+  }
+}
+
+/**
+ * Topics matching `where` with their content and subtopic tree
+ */
+export async function loadTopicTree(where: Prisma.TopicWhereInput, options: TopicTreeOptions = {}): Promise<ExportTopic[]> {
+  const topics = await prisma.topic.findMany({
+    where,
+    orderBy: ORDER,
+    include: topicInclude(MAX_DEPTH, options.publishedOnly ?? false),
+  })
+  return topics as unknown as ExportTopic[]
+}
@@ -0,0 +1,327 @@
+// src/services/contentImport.service.ts
+/**
+ * Content import
+ *
+ * Loads the topic tree produced by GET /admin/content/export back into the database.
+ * Topics are matched by id, then by slug; materials, quizzes, questions and options by id.
+ * Each record is created, updated (only the fields that differ) or skipped. A dry run
+ * reports the same diff without writing; a real run applies everything in one transaction.
+ * Import never deletes: records missing from the file are left as they are, and
+ * soft-deleted materials/quizzes present in the file are restored. Created and updated
+ * materials, quizzes and questions get a revision attributed to the importing admin.
+ */
+import { Prisma, type RevisionEntity } from '@prisma/client'
+import { prisma } from '../db.js'
+import { AppError } from '../utils/AppError.js'
+import { logger } from '../utils/logger.js'
+import { ensureBaseline, recordRevision } from './revisions.service.js'
+import type { ImportMaterial, ImportQuestion, ImportQuiz, ImportTopic } from '../schemas/content.schema.js'
+
+// The client inside $transaction (the extended client minus its connection/transaction methods)
+type Db = Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>
+type Data = Record<string, unknown>
+
+export type ImportEntity = 'topic' | 'material' | 'quiz' | 'question' | 'option'
+export type ImportAction = 'create' | 'update' | 'skip'
+
+export interface ImportChange {
+  entity: ImportEntity
+  id: string
+  label: string
+  action: ImportAction
+  fields?: string[] // Changed fields of an update
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  summary: Record<ImportEntity, Record<ImportAction, number>>
+  changes: ImportChange[]
+}
+
+const ENTITIES: ImportEntity[] = ['topic', 'material', 'quiz', 'question', 'option']
+
+/**
+ * JSON with sorted object keys, so jsonb columns compare equal regardless of key order
+ */
+function stableStringify(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString())
+  if (value === undefined) return 'null'
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Data).sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Value for a nullable Json column: null needs Prisma.DbNull, undefined (a field the file
+ * doesn't have) leaves the column alone
+ */
+function jsonInput(value: Record<string, unknown> | null | undefined) {
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue | undefined)
+}
+
+// Stored Json nulls read back as null
+const comparable = (value: unknown) => (value === Prisma.DbNull ? null : value)
+
+function truncate(text: string, max = 60): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
+
+/**
+ * Record one create/update/skip and write it unless this is a dry run. `data` is the model's
+ * create input; an update gets only its changed fields. Fields left undefined (missing from
+ * older exports) are never changed, so they don't wipe newer columns.
+ */
+async function syncRecord<Input extends object>(
+  report: ImportReport,
+  change: { entity: ImportEntity; id: string; label: string },
+  existing: object | null,
+  data: Input,
+  write: { create: (data: Input) => Promise<unknown>; update: (data: Partial<Input>) => Promise<unknown> },
+  extraChanges: string[] = []
+) {
+  const record = (action: ImportAction, fields?: string[]) => {
+    report.summary[change.entity][action]++
+    report.changes.push({ ...change, action, ...(fields && { fields }) })
+  }
+
+  if (!existing) {
+    record('create')
+    if (!report.dryRun) await write.create(data)
+    return
+  }
+
+  const current = existing as Data
+  const changed = (Object.keys(data) as (keyof Input & string)[]).filter(
+    (k) => data[k] !== undefined && stableStringify(current[k]) !== stableStringify(comparable(data[k]))
+  )
+  const fields = [...changed, ...extraChanges]
+  if (fields.length === 0) {
+    record('skip')
+    return
+  }
+  record('update', fields)
+  if (!report.dryRun && changed.length > 0) {
+    const update: Partial<Input> = {}
+    for (const k of changed) update[k] = data[k]
+    await write.update(update)
+  }
+}
+
+/**
+ * Run the writes of one revisioned record: content without history gets its baseline first,
+ * and the result is recorded as a revision (none when nothing changed). Dry runs just diff.
+ */
+async function withRevision(
+  db: Db,
+  report: ImportReport,
+  entity: RevisionEntity,
+  id: string,
+  authorId: string,
+  existed: boolean,
+  sync: () => Promise<void>
+) {
+  if (report.dryRun) return sync()
+  if (existed) await ensureBaseline(entity, id, db)
+  await sync()
+  await recordRevision(entity, id, authorId, { db })
+}
+
+/**
+ * Reject files that use the same id (per entity) or topic slug twice
+ */
+function assertUnique(topics: ImportTopic[]) {
+  const seen = Object.fromEntries(ENTITIES.map((e) => [e, new Set<string>()])) as Record<ImportEntity, Set<string>>
+  const slugs = new Set<string>()
+  const add = (entity: ImportEntity, id: string) => {
+    if (seen[entity].has(id)) throw AppError.badRequest(`Duplicate ${entity} id in import: ${id}`)
+    seen[entity].add(id)
+  }
+  const walk = (topic: ImportTopic) => {
+    add('topic', topic.id)
+    if (slugs.has(topic.slug)) throw AppError.badRequest(`Duplicate topic slug in import: ${topic.slug}`)
+    slugs.add(topic.slug)
+    topic.materials.forEach((m) => add('material', m.id))
+    topic.quizzes.forEach((quiz) => {
+      add('quiz', quiz.id)
+      quiz.questions.forEach((q) => {
+        add('question', q.id)
+        q.options.forEach((o) => add('option', o.id))
+      })
+    })
+    topic.children.forEach(walk)
+  }
+  topics.forEach(walk)
+}
+
+async function importTopic(db: Db, report: ImportReport, authorId: string, node: ImportTopic, parentId: string | null) {
+  const existing = await db.topic.findUnique({ where: { id: node.id } })
+    ?? await db.topic.findUnique({ where: { slug: node.slug } })
+  // A topic matched by slug keeps its id; its content is attached to that id
+  const topicId = existing?.id ?? node.id
+
+  const slugOwner = await db.topic.findUnique({ where: { slug: node.slug }, select: { id: true } })
+  if (slugOwner && slugOwner.id !== topicId) {
+    throw AppError.conflict(`Slug "${node.slug}" belongs to another topic`)
+  }
+
+  const data: Omit<Prisma.TopicUncheckedCreateInput, 'id'> = {
+    slug: node.slug,
+    name: node.name,
+    nameJson: jsonInput(node.nameJson),
+    titleCache: jsonInput(node.titleCache),
+    description: node.description,
+    descJson: jsonInput(node.descJson),
+    descCache: jsonInput(node.descCache),
+    category: node.category,
+    parentId,
+    position: node.position,
+    status: node.status,
+    publishedAt: node.publishedAt,
+  }
+  await syncRecord(report, { entity: 'topic', id: topicId, label: node.slug }, existing, data, {
+    create: (d) => db.topic.create({ data: { id: topicId, ...d } }),
+    update: (d) => db.topic.update({ where: { id: topicId }, data: d }),
+  })
+
+  for (const material of node.materials) await importMaterial(db, report, authorId, material, topicId)
+  for (const quiz of node.quizzes) await importQuiz(db, report, authorId, quiz, topicId)
+  for (const child of node.children) await importTopic(db, report, authorId, child, topicId)
+}
+
+async function importMaterial(db: Db, report: ImportReport, authorId: string, node: ImportMaterial, topicId: string) {
+  const existing = await db.material.findUnique({ where: { id: node.id } })
+  const data: Omit<Prisma.MaterialUncheckedCreateInput, 'id'> = {
+    topicId,
+    title: node.title,
+    titleJson: jsonInput(node.titleJson),
+    titleCache: jsonInput(node.titleCache),
+    type: node.type,
+    url: node.url,
+    urlJson: jsonInput(node.urlJson),
+    content: node.content,
+    contentJson: jsonInput(node.contentJson),
+    contentCache: jsonInput(node.contentCache),
+    lang: node.lang,
+    position: node.position,
+    status: node.status,
+    publishedAt: node.publishedAt,
+    deletedAt: null,
+  }
+  await withRevision(db, report, 'material', node.id, authorId, !!existing, () =>
+    syncRecord(report, { entity: 'material', id: node.id, label: node.title }, existing, data, {
+      create: (d) => db.material.create({ data: { id: node.id, ...d } }),
+      update: (d) => db.material.update({ where: { id: node.id }, data: d }),
+    })
+  )
+}
+
+async function importQuiz(db: Db, report: ImportReport, authorId: string, node: ImportQuiz, topicId: string) {
+  const existing = await db.quiz.findUnique({
+    where: { id: node.id },
+    include: { drawRules: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] } },
+  })
+  const data: Omit<Prisma.QuizUncheckedCreateInput, 'id'> = {
+    topicId,
+    title: node.title,
+    titleJson: jsonInput(node.titleJson),
+    titleCache: jsonInput(node.titleCache),
+    durationSec: node.durationSec,
+    mode: node.mode,
+    reviewPolicy: node.reviewPolicy,
+    reviewAt: node.reviewAt,
+    position: node.position,
+    status: node.status,
+    publishedAt: node.publishedAt,
+    deletedAt: null,
+  }
+
+  const rules = node.drawRules?.map(({ count, difficulty, tags, position }) => ({ count, difficulty, tags, position }))
+  const currentRules = existing?.drawRules.map(({ count, difficulty, tags, position }) => ({ count, difficulty, tags, position })) ?? []
+  const rulesChanged = rules !== undefined && stableStringify(rules) !== stableStringify(currentRules)
+
+  await withRevision(db, report, 'quiz', node.id, authorId, !!existing, () =>
+    syncRecord(report, { entity: 'quiz', id: node.id, label: node.title }, existing, data, {
+      create: (d) => db.quiz.create({ data: { id: node.id, ...d } }),
+      update: (d) => db.quiz.update({ where: { id: node.id }, data: d }),
+    }, existing && rulesChanged ? ['drawRules'] : [])
+  )
+
+  if (rulesChanged && !report.dryRun) {
+    await db.quizDrawRule.deleteMany({ where: { quizId: node.id } })
+    await db.quizDrawRule.createMany({ data: rules!.map((r) => ({ quizId: node.id, ...r })) })
+  }
+
+  for (const question of node.questions) await importQuestion(db, report, authorId, question, node.id)
+}
+
+async function importQuestion(db: Db, report: ImportReport, authorId: string, node: ImportQuestion, quizId: string) {
+  const existing = await db.question.findUnique({ where: { id: node.id } })
+  // Options are part of the question's revision
+  await withRevision(db, report, 'question', node.id, authorId, !!existing, () => syncQuestion(db, report, node, quizId, existing))
+}
+
+async function syncQuestion(db: Db, report: ImportReport, node: ImportQuestion, quizId: string, existing: object | null) {
+  const data: Omit<Prisma.QuestionUncheckedCreateInput, 'id'> = {
+    quizId,
+    text: node.text,
+    textJson: jsonInput(node.textJson),
+    explanation: node.explanation,
+    explanationJson: jsonInput(node.explanationJson),
+    tags: node.tags,
+    difficulty: node.difficulty,
+    type: node.type,
+    numericAnswer: node.numericAnswer,
+    tolerance: node.tolerance,
+    acceptedAnswers: node.acceptedAnswers,
+  }
+  await syncRecord(report, { entity: 'question', id: node.id, label: truncate(node.text) }, existing, data, {
+    create: (d) => db.question.create({ data: { id: node.id, ...d } }),
+    update: (d) => db.question.update({ where: { id: node.id }, data: d }),
+  })
+
+  for (const option of node.options) {
+    const current = await db.option.findUnique({ where: { id: option.id } })
+    const optionData: Omit<Prisma.OptionUncheckedCreateInput, 'id'> = {
+      questionId: node.id,
+      text: option.text,
+      textJson: jsonInput(option.textJson),
+      correct: option.correct,
+    }
+    await syncRecord(report, { entity: 'option', id: option.id, label: truncate(option.text) }, current, optionData, {
+      create: (d) => db.option.create({ data: { id: option.id, ...d } }),
+      update: (d) => db.option.update({ where: { id: option.id }, data: d }),
+    })
+  }
+}
+
+/**
+ * Import exported root topics as `authorId`. With `dryRun` nothing is written and the report
+ * shows what would change.
+ */
+export async function importContent(
+  topics: ImportTopic[],
+  options: { dryRun: boolean; authorId: string }
+): Promise<ImportReport> {
+  assertUnique(topics)
+
+  const report: ImportReport = {
+    dryRun: options.dryRun,
+    summary: Object.fromEntries(ENTITIES.map((e) => [e, { create: 0, update: 0, skip: 0 }])) as ImportReport['summary'],
+    changes: [],
+  }
+
+  const run = async (db: Db) => {
+    for (const topic of topics) await importTopic(db, report, options.authorId, topic, null)
+  }
+  if (options.dryRun) {
+    await run(prisma)
+  } else {
+    await prisma.$transaction(run, { timeout: 120_000 })
+  }
+
+  logger.info(`[importContent] ${options.dryRun ? 'Dry run' : 'Import'} finished: ${JSON.stringify(report.summary)}`)
+  return report
+}
@@ -0,0 +1,500 @@
+// src/services/editorial.service.ts
+/**
+ * Editorial review workflow
+ *
+ * Materials and quizzes go Draft -> InReview -> Published (or Scheduled until publishAt),
+ * with ChangesRequested sending them back to the author. Any editor may submit content
+ * and review it; only an ADMIN approves. Reviewers leave comments on materials, quizzes
+ * and questions, optionally anchored to a field and language. Authors (and assigned
+ * reviewers) are notified by email. Scheduled publishing and unpublishing are carried out
+ * by startPublishScheduler(). An editor who changes published or scheduled content sends it
+ * back to review (reopenAfterEdit), so learners only see what an ADMIN approved.
+ *
+ * Topics stay outside the workflow: only ADMIN may publish them directly.
+ */
+import type { Lang, Prisma, ReviewTarget, Status } from '@prisma/client'
+import { prisma } from '../db.js'
+import type { Role } from '../shared'
+import { AppError } from '../utils/AppError.js'
+import { getEnv } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { auditLog, AuditActions, AuditResources } from './audit.service.js'
+import { sendReviewNotificationEmail, type ReviewNotification } from './email.service.js'
+
+const FRONTEND_URL = getEnv('FRONTEND_URL', 'http://localhost:5173')
+const REVIEW_URL = `${FRONTEND_URL}/admin/review`
+
+export type WorkflowEntity = 'material' | 'quiz'
+
+export type Actor = { id: string; role: Role }
+
+const userSelect = { select: { id: true, name: true, email: true } } as const
+
+const workflowSelect = {
+  id: true,
+  title: true,
+  status: true,
+  topicId: true,
+  createdById: true,
+  reviewerId: true,
+  submittedAt: true,
+  publishAt: true,
+  unpublishAt: true,
+  publishedAt: true,
+  updatedAt: true,
+  createdBy: userSelect,
+  reviewer: userSelect,
+} as const
+
+type WorkflowData = {
+  status?: Status
+  reviewerId?: string | null
+  submittedAt?: Date | null
+  publishAt?: Date | null
+  unpublishAt?: Date | null
+  publishedAt?: Date | null
+}
+
+const ENTITY_LABELS: Record<WorkflowEntity, string> = { material: 'Матеріал', quiz: 'Квіз' }
+
+/** Statuses that only the workflow below sets */
+const WORKFLOW_STATUSES: Status[] = ['InReview', 'ChangesRequested', 'Scheduled']
+
+/**
+ * Why a direct status change (publish flag, status field of an update) is not allowed,
+ * or null. Editors may only move content back to Draft; publishing needs an ADMIN.
+ */
+export function directStatusError(actor: Actor, status: string | undefined | null): string | null {
+  if (!status || status === 'Draft') return null
+  if (WORKFLOW_STATUSES.includes(status as Status)) return 'Use the review workflow to change this status'
+  if (actor.role !== 'ADMIN') return 'Publishing requires admin approval: submit the content for review'
+  return null
+}
+
+async function findItem(entity: WorkflowEntity, id: string) {
+  const item = entity === 'material'
+    ? await prisma.material.findFirst({ where: { id, deletedAt: null }, select: workflowSelect })
+    : await prisma.quiz.findFirst({ where: { id, deletedAt: null }, select: workflowSelect })
+  if (!item) throw AppError.notFound(entity === 'material' ? 'Material not found' : 'Quiz not found')
+  return item
+}
+
+type WorkflowItem = Awaited<ReturnType<typeof findItem>>
+
+/**
+ * Apply a transition only if the status is still one of `from`, so concurrent reviewers
+ * cannot both act on the same state
+ */
+async function transition(entity: WorkflowEntity, id: string, from: Status[], data: WorkflowData) {
+  const where = { id, status: { in: from }, deletedAt: null }
+  const { count } = entity === 'material'
+    ? await prisma.material.updateMany({ where, data })
+    : await prisma.quiz.updateMany({ where, data })
+  if (count === 0) throw AppError.conflict('Content status has changed, reload and try again')
+  return findItem(entity, id)
+}
+
+function assertStatus(item: WorkflowItem, allowed: Status[]) {
+  if (!allowed.includes(item.status)) {
+    throw AppError.badRequest(`Not allowed while content is ${item.status}`, { status: item.status, allowed })
+  }
+}
+
+async function notify(to: { id: string; email: string } | null, actor: Actor | null, n: Omit<ReviewNotification, 'link'>) {
+  if (!to || to.id === actor?.id) return
+  await sendReviewNotificationEmail(to.email, { ...n, link: REVIEW_URL })
+}
+
+async function assertReviewer(reviewerId: string) {
+  const reviewer = await prisma.user.findFirst({
+    where: { id: reviewerId, deletedAt: null, role: { in: ['EDITOR', 'ADMIN'] } },
+    select: { id: true },
+  })
+  if (!reviewer) throw AppError.badRequest('Reviewer must be an editor or admin')
+}
+
+/**
+ * Send a draft (or content with requested changes) to review, optionally to a reviewer
+ */
+export async function submitForReview(entity: WorkflowEntity, id: string, actor: Actor, reviewerId?: string | null) {
+  const item = await findItem(entity, id)
+  assertStatus(item, ['Draft', 'ChangesRequested'])
+  if (reviewerId) await assertReviewer(reviewerId)
+
+  const updated = await transition(entity, id, ['Draft', 'ChangesRequested'], {
+    status: 'InReview',
+    submittedAt: new Date(),
+    ...(reviewerId !== undefined && { reviewerId }),
+  })
+  await notify(updated.reviewer, actor, {
+    heading: 'Нове завдання на рецензію',
+    message: `${ENTITY_LABELS[entity]} «${updated.title}» очікує вашої рецензії.`,
+  })
+  return updated
+}
+
+/**
+ * Assign (or clear) the reviewer of content under review
+ */
+export async function assignReviewer(entity: WorkflowEntity, id: string, actor: Actor, reviewerId: string | null) {
+  const item = await findItem(entity, id)
+  assertStatus(item, ['InReview', 'ChangesRequested'])
+  if (reviewerId) await assertReviewer(reviewerId)
+
+  const updated = await transition(entity, id, ['InReview', 'ChangesRequested'], { reviewerId })
+  await notify(updated.reviewer, actor, {
+    heading: 'Нове завдання на рецензію',
+    message: `${ENTITY_LABELS[entity]} «${updated.title}» очікує вашої рецензії.`,
+  })
+  return updated
+}
+
+/**
+ * Send content back to its author. Allowed for ADMIN, the assigned reviewer, or, when
+ * nobody is assigned, any editor other than the author. The note is kept as a comment.
+ */
+export async function requestChanges(entity: WorkflowEntity, id: string, actor: Actor, note: string) {
+  const item = await findItem(entity, id)
+  assertStatus(item, ['InReview'])
+  const mayReview = actor.role === 'ADMIN'
+    || item.reviewerId === actor.id
+    || (!item.reviewerId && item.createdById !== actor.id)
+  if (!mayReview) throw AppError.forbidden('Only the assigned reviewer or an admin can request changes')
+
+  const updated = await transition(entity, id, ['InReview'], { status: 'ChangesRequested' })
+  await prisma.reviewComment.create({
+    data: { targetType: entity, targetId: id, body: note, authorId: actor.id },
+  })
+  await notify(updated.createdBy, actor, {
+    heading: 'Потрібні зміни',
+    message: `Рецензент попросив змінити ${entity === 'material' ? 'матеріал' : 'квіз'} «${updated.title}».`,
+    note,
+  })
+  return updated
+}
+
+function assertSchedule(publishAt: Date | null, unpublishAt: Date | null) {
+  const now = Date.now()
+  if (unpublishAt && unpublishAt.getTime() <= Math.max(now, publishAt?.getTime() ?? 0)) {
+    throw AppError.badRequest('unpublishAt must be in the future and after publishAt')
+  }
+}
+
+/**
+ * ADMIN approval: publish now, or schedule when publishAt is in the future
+ */
+export async function approve(
+  entity: WorkflowEntity,
+  id: string,
+  actor: Actor,
+  schedule: { publishAt?: Date | null; unpublishAt?: Date | null } = {}
+) {
+  if (actor.role !== 'ADMIN') throw AppError.forbidden('Only an admin can approve content')
+  const item = await findItem(entity, id)
+  assertStatus(item, ['InReview'])
+
+  const publishAt = schedule.publishAt && schedule.publishAt.getTime() > Date.now() ? schedule.publishAt : null
+  const unpublishAt = schedule.unpublishAt ?? null
+  assertSchedule(publishAt, unpublishAt)
+
+  const updated = await transition(entity, id, ['InReview'], publishAt
+    ? { status: 'Scheduled', publishAt, unpublishAt }
+    : { status: 'Published', publishedAt: new Date(), publishAt: null, unpublishAt })
+  await notify(updated.createdBy, actor, {
+    heading: publishAt ? 'Публікацію заплановано' : 'Опубліковано',
+    message: publishAt
+      ? `«${updated.title}» затверджено, публікація ${publishAt.toISOString().slice(0, 16).replace('T', ' ')} UTC.`
+      : `«${updated.title}» затверджено та опубліковано.`,
+  })
+  return updated
+}
+
+/**
+ * ADMIN: move the publish time of scheduled content, or set / clear the unpublish time of
+ * scheduled or published content
+ */
+export async function reschedule(
+  entity: WorkflowEntity,
+  id: string,
+  actor: Actor,
+  schedule: { publishAt?: Date | null; unpublishAt?: Date | null }
+) {
+  if (actor.role !== 'ADMIN') throw AppError.forbidden('Only an admin can schedule content')
+  const item = await findItem(entity, id)
+  assertStatus(item, ['Scheduled', 'Published'])
+
+  const data: WorkflowData = {}
+  if (item.status === 'Scheduled' && schedule.publishAt !== undefined) {
+    if (!schedule.publishAt || schedule.publishAt.getTime() <= Date.now()) {
+      throw AppError.badRequest('publishAt must be in the future')
+    }
+    data.publishAt = schedule.publishAt
+  }
+  if (schedule.unpublishAt !== undefined) data.unpublishAt = schedule.unpublishAt
+  assertSchedule(data.publishAt ?? item.publishAt, data.unpublishAt !== undefined ? data.unpublishAt : item.unpublishAt)
+
+  return transition(entity, id, [item.status], data)
+}
+
+/**
+ * Back to Draft from any state: withdraw from review, cancel a schedule or unpublish
+ */
+export async function withdraw(entity: WorkflowEntity, id: string, actor: Actor) {
+  const item = await findItem(entity, id)
+  assertStatus(item, ['InReview', 'ChangesRequested', 'Scheduled', 'Published'])
+
+  const updated = await transition(entity, id, [item.status], {
+    status: 'Draft',
+    publishAt: null,
+    unpublishAt: null,
+    publishedAt: null,
+  })
+  if (item.status === 'Published' || item.status === 'Scheduled') {
+    await notify(updated.createdBy, actor, {
+      heading: 'Знято з публікації',
+      message: `«${updated.title}» повернуто в чернетки.`,
+    })
+  }
+  return updated
+}
+
+/**
+ * After an editor changed the content of a published or scheduled material or quiz (a question
+ * edit counts for its quiz), take it off publication and back to review. ADMIN edits stay live;
+ * topics are outside the workflow.
+ */
+export async function reopenAfterEdit(target: ReviewTarget | 'topic', id: string, actor: Actor) {
+  if (actor.role === 'ADMIN' || target === 'topic') return null
+  const { entity, item } = await commentOwner(target, id)
+  if (item.status !== 'Published' && item.status !== 'Scheduled') return null
+
+  const updated = await transition(entity, item.id, [item.status], {
+    status: 'InReview',
+    submittedAt: new Date(),
+    publishAt: null,
+    unpublishAt: null,
+    publishedAt: null,
+  })
+  await auditLog({
+    userId: actor.id,
+    action: AuditActions.UPDATE,
+    resource: entity === 'material' ? AuditResources.MATERIAL : AuditResources.QUIZ,
+    resourceId: item.id,
+    metadata: { transition: 'reopen', from: item.status },
+  })
+  await notify(updated.reviewer, actor, {
+    heading: 'Нове завдання на рецензію',
+    message: `${ENTITY_LABELS[entity]} «${updated.title}» змінено після публікації, він знову очікує рецензії.`,
+  })
+  return updated
+}
+
+/**
+ * Workflow state of one item, for the review panel
+ */
+export async function getWorkflowState(entity: WorkflowEntity, id: string) {
+  return findItem(entity, id)
+}
+
+// ==================== COMMENTS ====================
+
+export type ReviewCommentInput = {
+  body: string
+  field?: string | null
+  lang?: Lang | null
+  quote?: string | null
+}
+
+const commentInclude = { author: userSelect } as const
+
+/** The material or quiz a comment (or edit) target belongs to, with its author */
+async function commentOwner(targetType: ReviewTarget, targetId: string) {
+  if (targetType === 'question') {
+    const question = await prisma.question.findUnique({ where: { id: targetId }, select: { quizId: true } })
+    if (!question) throw AppError.notFound('Question not found')
+    return { entity: 'quiz' as const, item: await findItem('quiz', question.quizId) }
+  }
+  return { entity: targetType, item: await findItem(targetType, targetId) }
+}
+
+/**
+ * Comments of a material, or of a quiz together with its questions; oldest first
+ */
+export async function listComments(entity: WorkflowEntity, id: string) {
+  await findItem(entity, id)
+  const questionIds = entity === 'quiz'
+    ? (await prisma.question.findMany({ where: { quizId: id }, select: { id: true } })).map((q) => q.id)
+    : []
+
+  return prisma.reviewComment.findMany({
+    where: {
+      OR: [
+        { targetType: entity, targetId: id },
+        ...(questionIds.length > 0 ? [{ targetType: 'question' as const, targetId: { in: questionIds } }] : []),
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+    include: commentInclude,
+  })
+}
+
+export async function addComment(targetType: ReviewTarget, targetId: string, actor: Actor, input: ReviewCommentInput) {
+  const { item } = await commentOwner(targetType, targetId)
+  const comment = await prisma.reviewComment.create({
+    data: {
+      targetType,
+      targetId,
+      body: input.body,
+      field: input.field ?? null,
+      lang: input.lang ?? null,
+      quote: input.quote ?? null,
+      authorId: actor.id,
+    },
+    include: commentInclude,
+  })
+  await notify(item.createdBy, actor, {
+    heading: 'Новий коментар рецензента',
+    message: `Коментар до «${item.title}»${input.field ? ` (${input.field}${input.lang ? `, ${input.lang}` : ''})` : ''}:`,
+    note: input.body,
+  })
+  return comment
+}
+
+/**
+ * Mark a comment resolved (or reopen it)
+ */
+export async function setCommentResolved(commentId: string, resolved: boolean) {
+  const comment = await prisma.reviewComment.findUnique({ where: { id: commentId } })
+  if (!comment) throw AppError.notFound('Comment not found')
+  return prisma.reviewComment.update({
+    where: { id: commentId },
+    data: { resolvedAt: resolved ? comment.resolvedAt ?? new Date() : null },
+    include: commentInclude,
+  })
+}
+
+// ==================== QUEUE ====================
+
+const QUEUE_STATUSES: Status[] = ['InReview', 'ChangesRequested', 'Scheduled']
+
+/**
+ * Content in the workflow, plus published content with a scheduled unpublish, with the
+ * number of open comments. `mine` limits it to content assigned to or written by the actor.
+ */
+export async function getReviewQueue(actor: Actor, mine = false) {
+  const where: Prisma.MaterialWhereInput & Prisma.QuizWhereInput = {
+    deletedAt: null,
+    OR: [{ status: { in: QUEUE_STATUSES } }, { status: 'Published', unpublishAt: { not: null } }],
+    ...(mine && { AND: [{ OR: [{ reviewerId: actor.id }, { createdById: actor.id }] }] }),
+  }
+  const select = { ...workflowSelect, topic: { select: { id: true, name: true, slug: true } } }
+  const [materials, quizzes] = await Promise.all([
+    prisma.material.findMany({ where, select, orderBy: { submittedAt: 'asc' } }),
+    prisma.quiz.findMany({ where, select: { ...select, questions: { select: { id: true } } }, orderBy: { submittedAt: 'asc' } }),
+  ])
+
+  const targetIds = [
+    ...materials.map((m) => m.id),
+    ...quizzes.flatMap((q) => [q.id, ...q.questions.map((question) => question.id)]),
+  ]
+  const open = targetIds.length > 0
+    ? await prisma.reviewComment.groupBy({
+        by: ['targetId'],
+        where: { targetId: { in: targetIds }, resolvedAt: null },
+        _count: { _all: true },
+      })
+    : []
+  const openCount = new Map(open.map((row) => [row.targetId, row._count._all]))
+
+  return [
+    ...materials.map((m) => ({ ...m, entity: 'material' as const, openComments: openCount.get(m.id) ?? 0 })),
+    ...quizzes.map(({ questions, ...q }) => ({
+      ...q,
+      entity: 'quiz' as const,
+      openComments: [q.id, ...questions.map((question) => question.id)]
+        .reduce((sum, targetId) => sum + (openCount.get(targetId) ?? 0), 0),
+    })),
+  ]
+}
+
+// ==================== SCHEDULER ====================
+
+const SCHEDULER_INTERVAL_MS = Number(getEnv('PUBLISH_SCHEDULER_INTERVAL_MS', '60000'))
+
+/**
+ * Publish scheduled content whose publishAt has passed and unpublish content whose
+ * unpublishAt has passed. Safe to run from several instances: each row changes once.
+ */
+export async function runScheduledTransitions(now = new Date()) {
+  let published = 0
+  let unpublished = 0
+
+  for (const entity of ['material', 'quiz'] as const) {
+    const dueWhere = { status: 'Scheduled' as const, publishAt: { lte: now }, deletedAt: null }
+    const due = entity === 'material'
+      ? await prisma.material.findMany({ where: dueWhere, select: workflowSelect })
+      : await prisma.quiz.findMany({ where: dueWhere, select: workflowSelect })
+
+    for (const item of due) {
+      const data = { status: 'Published' as const, publishedAt: item.publishAt, publishAt: null }
+      const where = { id: item.id, ...dueWhere }
+      const { count } = entity === 'material'
+        ? await prisma.material.updateMany({ where, data })
+        : await prisma.quiz.updateMany({ where, data })
+      if (count === 0) continue
+      published++
+      await auditLog({
+        action: AuditActions.PUBLISH,
+        resource: entity === 'material' ? AuditResources.MATERIAL : AuditResources.QUIZ,
+        resourceId: item.id,
+        metadata: { scheduled: true, publishAt: item.publishAt },
+      })
+      await notify(item.createdBy, null, {
+        heading: 'Опубліковано',
+        message: `«${item.title}» опубліковано за розкладом.`,
+      })
+    }
+
+    const expiredWhere = { status: 'Published' as const, unpublishAt: { lte: now }, deletedAt: null }
+    const expired = entity === 'material'
+      ? await prisma.material.findMany({ where: expiredWhere, select: workflowSelect })
+      : await prisma.quiz.findMany({ where: expiredWhere, select: workflowSelect })
+
+    for (const item of expired) {
+      const data = { status: 'Draft' as const, publishedAt: null, unpublishAt: null }
+      const where = { id: item.id, ...expiredWhere }
+      const { count } = entity === 'material'
+        ? await prisma.material.updateMany({ where, data })
+        : await prisma.quiz.updateMany({ where, data })
+      if (count === 0) continue
+      unpublished++
+      await auditLog({
+        action: AuditActions.UNPUBLISH,
+        resource: entity === 'material' ? AuditResources.MATERIAL : AuditResources.QUIZ,
+        resourceId: item.id,
+        metadata: { scheduled: true, unpublishAt: item.unpublishAt },
+      })
+      await notify(item.createdBy, null, {
+        heading: 'Знято з публікації',
+        message: `«${item.title}» знято з публікації за розкладом.`,
+      })
+    }
+  }
+
+  if (published || unpublished) logger.info('Scheduled publishing', { published, unpublished })
+  return { published, unpublished }
+}
+
+/**
+ * Run scheduled transitions now and then every PUBLISH_SCHEDULER_INTERVAL_MS.
+ * Returns a function that stops the timer.
+ */
+export function startPublishScheduler(): () => void {
+  const tick = () => {
+    runScheduledTransitions().catch((err) => logger.error('Scheduled publishing failed', err as Error))
+  }
+  tick()
+  const timer = setInterval(tick, SCHEDULER_INTERVAL_MS)
+  timer.unref()
+  return () => clearInterval(timer)
+}
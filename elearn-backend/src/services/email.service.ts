@@ -236,3 +236,170 @@ export async function sendPasswordChangedEmail(email: string): Promise<boolean>
     text: 'Ваш пароль для акаунту E-Learn було успішно змінено.',
   })
 }
+
+/**
+ * Відправляє сповіщення про блокування акаунта з посиланням для розблокування
+ */
+export async function sendAccountLockedEmail(email: string, token: string, lockedUntil: Date): Promise<boolean> {
+  const unlockUrl = `${FRONTEND_URL}/unlock-account?token=${token}`
+  const until = lockedUntil.toLocaleString('uk-UA', { timeZone: 'UTC' }) + ' UTC'
+
+  return sendEmail({
+    to: email,
+    subject: 'Акаунт тимчасово заблоковано - E-Learn',
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; padding: 40px 20px; background: #f5f5f5;">
+        <div style="max-width: 480px; margin: 0 auto; background: white; border-radius: 16px; padding: 40px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+          <div style="text-align: center; margin-bottom: 32px;">
+            <div style="width: 64px; height: 64px; background: linear-gradient(135deg, #6366f1, #8b5cf6); border-radius: 16px; margin: 0 auto 16px; display: flex; align-items: center; justify-content: center;">
+              <span style="color: white; font-size: 28px; font-weight: bold;">E</span>
+            </div>
+            <h1 style="margin: 0; color: #1f2937; font-size: 24px;">Акаунт тимчасово заблоковано</h1>
+          </div>
+
+          <p style="color: #4b5563; line-height: 1.6; margin-bottom: 24px;">
+            Через велику кількість невдалих спроб входу вхід за паролем до вашого акаунту E-Learn заблоковано до ${until}. Якщо це були ви, розблокуйте акаунт кнопкою нижче.
+          </p>
+
+          <div style="text-align: center; margin-bottom: 24px;">
+            <a href="${unlockUrl}" style="display: inline-block; background: linear-gradient(135deg, #6366f1, #8b5cf6); color: white; text-decoration: none; padding: 14px 32px; border-radius: 12px; font-weight: 600;">
+              Розблокувати акаунт
+            </a>
+          </div>
+
+          <p style="color: #9ca3af; font-size: 14px; line-height: 1.5;">
+            Якщо кнопка не працює, скопіюйте це посилання:<br>
+            <a href="${unlockUrl}" style="color: #6366f1; word-break: break-all;">${unlockUrl}</a>
+          </p>
+
+          <p style="color: #ef4444; font-size: 14px; line-height: 1.5; background: #fef2f2; padding: 16px; border-radius: 8px;">
+            ⚠️ Якщо ви не намагалися увійти, хтось підбирає ваш пароль. Не розблоковуйте акаунт і змініть пароль на надійніший.
+          </p>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `Вхід до вашого акаунту E-Learn заблоковано до ${until} через невдалі спроби входу. Розблокувати: ${unlockUrl}`,
+  })
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const ROLE_NAMES: Record<string, string> = {
+  STUDENT: 'студент',
+  TEACHER: 'викладач',
+  EDITOR: 'редактор',
+  ADMIN: 'адміністратор',
+}
+
+/**
+ * Відправляє запрошення до реєстрації
+ */
+export async function sendInviteEmail(
+  email: string,
+  token: string,
+  invite: { inviterName: string | null; role: string; expiresAt: Date }
+): Promise<boolean> {
+  const registerUrl = `${FRONTEND_URL}/register?invite=${token}`
+  const from = invite.inviterName ? `${escapeHtml(invite.inviterName)} запрошує` : 'Вас запрошено'
+  const until = invite.expiresAt.toLocaleDateString('uk-UA', { timeZone: 'UTC' })
+
+  return sendEmail({
+    to: email,
+    subject: 'Запрошення до E-Learn',
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; padding: 40px 20px; background: #f5f5f5;">
+        <div style="max-width: 480px; margin: 0 auto; background: white; border-radius: 16px; padding: 40px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+          <div style="text-align: center; margin-bottom: 32px;">
+            <div style="width: 64px; height: 64px; background: linear-gradient(135deg, #6366f1, #8b5cf6); border-radius: 16px; margin: 0 auto 16px; display: flex; align-items: center; justify-content: center;">
+              <span style="color: white; font-size: 28px; font-weight: bold;">E</span>
+            </div>
+            <h1 style="margin: 0; color: #1f2937; font-size: 24px;">Запрошення до E-Learn</h1>
+          </div>
+
+          <p style="color: #4b5563; line-height: 1.6; margin-bottom: 24px;">
+            ${from} вас приєднатися до платформи E-Learn (роль: ${ROLE_NAMES[invite.role] ?? invite.role}). Натисніть кнопку нижче, щоб створити акаунт.
+          </p>
+
+          <div style="text-align: center; margin-bottom: 24px;">
+            <a href="${registerUrl}" style="display: inline-block; background: linear-gradient(135deg, #6366f1, #8b5cf6); color: white; text-decoration: none; padding: 14px 32px; border-radius: 12px; font-weight: 600;">
+              Зареєструватися
+            </a>
+          </div>
+
+          <p style="color: #9ca3af; font-size: 14px; line-height: 1.5;">
+            Якщо кнопка не працює, скопіюйте це посилання:<br>
+            <a href="${registerUrl}" style="color: #6366f1; word-break: break-all;">${registerUrl}</a>
+          </p>
+
+          <p style="color: #9ca3af; font-size: 14px; margin-top: 32px; padding-top: 24px; border-top: 1px solid #e5e7eb;">
+            Запрошення дійсне до ${until}. Якщо ви не очікували цього листа, просто проігноруйте його.
+          </p>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `Вас запрошено до E-Learn. Зареєструватися: ${registerUrl} (дійсне до ${until})`,
+  })
+}
+
+export interface ReviewNotification {
+  heading: string
+  message: string // plain text, may contain the content title
+  note?: string | null // reviewer's comment
+  link: string
+}
+
+/**
+ * Відправляє сповіщення редакційного процесу (рецензія, затвердження, публікація)
+ */
+export async function sendReviewNotificationEmail(email: string, n: ReviewNotification): Promise<boolean> {
+  return sendEmail({
+    to: email,
+    subject: `${n.heading} - E-Learn`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; padding: 40px 20px; background: #f5f5f5;">
+        <div style="max-width: 480px; margin: 0 auto; background: white; border-radius: 16px; padding: 40px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+          <h1 style="margin: 0 0 24px; color: #1f2937; font-size: 22px;">${escapeHtml(n.heading)}</h1>
+
+          <p style="color: #4b5563; line-height: 1.6; margin-bottom: 24px;">
+            ${escapeHtml(n.message)}
+          </p>
+          ${n.note ? `
+          <p style="color: #374151; font-size: 14px; line-height: 1.5; background: #f3f4f6; padding: 16px; border-radius: 8px; white-space: pre-wrap;">${escapeHtml(n.note)}</p>
+          ` : ''}
+          <div style="text-align: center; margin: 32px 0;">
+            <a href="${n.link}" style="display: inline-block; background: linear-gradient(135deg, #6366f1, #8b5cf6); color: white; text-decoration: none; padding: 14px 32px; border-radius: 12px; font-weight: 600;">
+              Відкрити
+            </a>
+          </div>
+
+          <p style="color: #9ca3af; font-size: 14px; margin-top: 32px; padding-top: 24px; border-top: 1px solid #e5e7eb;">
+            З повагою,<br>Команда E-Learn
+          </p>
+        </div>
+      </body>
+      </html>
+    `,
+    text: [n.message, n.note, n.link].filter(Boolean).join('\n\n'),
+  })
+}
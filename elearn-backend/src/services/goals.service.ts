@@ -0,0 +1,175 @@
+// src/services/goals.service.ts
+/**
+ * Daily goals engine
+ *
+ * Each user gets a few goals per UTC day, picked by weight from the trackable entries of
+ * `dailyGoalsDatabase` and stored in DailyGoalTemplate rows. Progress is advanced from real
+ * events (quiz submits, material views, activity pings, reviews) instead of manual toggles,
+ * and every completed goal is counted once in UserActivity.goalsCompleted.
+ */
+import { prisma } from '../db.js'
+import type { Lang } from '../shared'
+import type { DailyGoalTemplate as GoalRow } from '@prisma/client'
+import { dailyGoalsDatabase, type DailyGoalTemplate, type GoalMetric } from '../config/dailyGoals.js'
+import { logger } from '../utils/logger.js'
+
+const DAILY_GOALS_COUNT = 3
+/** Score ratio that counts towards "Score 75% in any quiz" */
+export const HIGH_SCORE_RATIO = 0.75
+
+export type GoalProgress = Partial<Record<GoalMetric, number>>
+
+type TrackedTemplate = DailyGoalTemplate & { tracking: NonNullable<DailyGoalTemplate['tracking']> }
+
+const trackedTemplates = dailyGoalsDatabase.filter((g): g is TrackedTemplate => !!g.tracking)
+const templatesById = new Map(trackedTemplates.map((g) => [g.id, g]))
+
+/**
+ * Today's date key ("YYYY-MM-DD") and its UTC midnight, matching UserActivity.date
+ */
+function getUtcDay(): { key: string; start: Date } {
+  const now = new Date()
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  return { key: start.toISOString().split('T')[0], start }
+}
+
+/**
+ * Weighted pick without replacement; at most one goal per metric so goals don't overlap
+ */
+function pickTemplates(candidates: TrackedTemplate[], count: number): TrackedTemplate[] {
+  const pool = [...candidates]
+  const picked: TrackedTemplate[] = []
+
+  while (picked.length < count && pool.length > 0) {
+    const totalWeight = pool.reduce((sum, g) => sum + (g.weight ?? 1), 0)
+    let roll = Math.random() * totalWeight
+    const index = pool.findIndex((g) => (roll -= g.weight ?? 1) < 0)
+    const choice = pool[index === -1 ? pool.length - 1 : index]
+
+    picked.push(choice)
+    for (let i = pool.length - 1; i >= 0; i--) {
+      if (pool[i].tracking.metric === choice.tracking.metric) pool.splice(i, 1)
+    }
+  }
+
+  return picked
+}
+
+/**
+ * Everything the user already did today, so goals handed out mid-day start from real numbers
+ */
+async function measureToday(userId: string, start: Date): Promise<Record<GoalMetric, number>> {
+  const [activity, attempts, questionsAnswered] = await Promise.all([
+    prisma.userActivity.findUnique({ where: { userId_date: { userId, date: start } } }),
+    prisma.quizAttempt.findMany({
+      where: { userId, createdAt: { gte: start } },
+      select: { score: true, total: true },
+    }),
+    prisma.answer.count({ where: { userId, attempt: { createdAt: { gte: start } } } }),
+  ])
+
+  return {
+    quizzesCompleted: activity?.quizAttempts ?? 0,
+    perfectQuizzes: attempts.filter((a) => a.total > 0 && a.score >= a.total).length,
+    highScoreQuizzes: attempts.filter((a) => a.total > 0 && a.score / a.total >= HIGH_SCORE_RATIO).length,
+    questionsAnswered,
+    materialsViewed: activity?.materialsViewed ?? 0,
+    timeSpent: activity?.timeSpent ?? 0,
+    reviewsCompleted: activity?.reviewsCompleted ?? 0,
+  }
+}
+
+async function creditCompletedGoals(userId: string, start: Date, count: number): Promise<void> {
+  if (count <= 0) return
+  await prisma.userActivity.upsert({
+    where: { userId_date: { userId, date: start } },
+    create: { userId, date: start, goalsCompleted: count },
+    update: { goalsCompleted: { increment: count } },
+  })
+}
+
+/**
+ * Get today's goal rows, picking and persisting them on the first call of the day.
+ * `created` tells the caller that progress was measured from today's data and is already current.
+ */
+async function ensureDailyGoals(userId: string): Promise<{ goals: GoalRow[]; created: boolean }> {
+  const { key, start } = getUtcDay()
+
+  const existing = await prisma.dailyGoalTemplate.findMany({ where: { userId, date: key } })
+  if (existing.length > 0) return { goals: existing, created: false }
+
+  // "Review mistakes" goals only make sense once the review queue has cards
+  const hasReviewCards = (await prisma.reviewCard.count({ where: { userId } })) > 0
+  const candidates = trackedTemplates.filter(
+    (g) => hasReviewCards || g.tracking.metric !== 'reviewsCompleted'
+  )
+  const picked = pickTemplates(candidates, DAILY_GOALS_COUNT)
+  const measured = await measureToday(userId, start)
+
+  const { count } = await prisma.dailyGoalTemplate.createMany({
+    data: picked.map((g) => {
+      const progress = Math.min(measured[g.tracking.metric], g.tracking.target)
+      return { userId, date: key, templateId: g.id, progress, isCompleted: progress >= g.tracking.target }
+    }),
+    skipDuplicates: true,
+  })
+
+  const goals = await prisma.dailyGoalTemplate.findMany({ where: { userId, date: key } })
+  // A concurrent request may have created the day's goals first; only the winner credits them
+  if (count > 0) {
+    await creditCompletedGoals(userId, start, goals.filter((g) => g.isCompleted).length)
+    logger.info(`[ensureDailyGoals] Picked goals ${picked.map((g) => g.id).join(', ')} for user ${userId} on ${key}`)
+  }
+
+  return { goals, created: count > 0 }
+}
+
+/**
+ * Advance today's goals by the given event counts
+ * @returns number of goals completed by this event
+ */
+export async function recordGoalProgress(userId: string, events: GoalProgress): Promise<number> {
+  const { goals, created } = await ensureDailyGoals(userId)
+  if (created) return goals.filter((g) => g.isCompleted).length
+
+  let completed = 0
+  for (const goal of goals) {
+    const template = templatesById.get(goal.templateId)
+    const amount = template ? events[template.tracking.metric] ?? 0 : 0
+    if (!template || goal.isCompleted || amount <= 0) continue
+
+    const progress = Math.min(goal.progress + amount, template.tracking.target)
+    const isCompleted = progress >= template.tracking.target
+    // Guard on isCompleted so concurrent events can't complete (and credit) the same goal twice
+    const { count } = await prisma.dailyGoalTemplate.updateMany({
+      where: { id: goal.id, isCompleted: false },
+      data: { progress, isCompleted },
+    })
+    if (count > 0 && isCompleted) completed++
+  }
+
+  await creditCompletedGoals(userId, getUtcDay().start, completed)
+  return completed
+}
+
+/**
+ * Today's goals, localized
+ */
+export async function getDailyGoals(userId: string, lang: Lang = 'EN') {
+  const { goals } = await ensureDailyGoals(userId)
+
+  return goals.flatMap((goal) => {
+    const template = templatesById.get(goal.templateId)
+    if (!template) return []
+    // Time goals are tracked in seconds but shown in minutes
+    const scale = template.tracking.metric === 'timeSpent' ? 60 : 1
+    return [{
+      id: template.id,
+      text: template.translations[lang] || template.translations.EN,
+      category: template.category,
+      progress: Math.floor(goal.progress / scale),
+      target: Math.round(template.tracking.target / scale),
+      isCompleted: goal.isCompleted,
+    }]
+  })
+}
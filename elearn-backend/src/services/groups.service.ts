@@ -0,0 +1,401 @@
+// src/services/groups.service.ts
+/**
+ * Teacher groups
+ *
+ * A teacher owns groups that students join with a short code. Courses (root topics) are
+ * assigned to a group with an optional due date; the teacher sees each member's activity
+ * (QuizAttempt, MaterialView, UserActivity) and progress on every assignment. Admins can
+ * manage any group.
+ */
+import { randomInt } from 'crypto'
+import { prisma } from '../db.js'
+import type { Lang, Role } from '../shared'
+import { AppError } from '../utils/AppError.js'
+import { getBadges } from '../utils/gamification.js'
+import { getTranslation } from '../utils/i18n.js'
+import { getPassingPoints } from '../utils/quizScoring.js'
+import { getRecentAchievements } from './achievements.service.js'
+
+type TranslationsJson = Record<string, string> | null
+type Actor = { id: string; role: Role }
+
+// No 0/O, 1/I/L so codes can be read out in class
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 8
+const PUBLISHED_CONTENT = { status: 'Published' as const, deletedAt: null }
+
+function generateJoinCode(): string {
+  return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('')
+}
+
+async function uniqueJoinCode(): Promise<string> {
+  for (let i = 0; i < 5; i++) {
+    const code = generateJoinCode()
+    if (!(await prisma.group.findUnique({ where: { joinCode: code }, select: { id: true } }))) return code
+  }
+  throw AppError.internal('Could not generate a join code')
+}
+
+function canManage(group: { ownerId: string }, actor: Actor): boolean {
+  return actor.role === 'ADMIN' || group.ownerId === actor.id
+}
+
+/**
+ * Load a group the actor may see (owner, admin or member)
+ */
+async function findVisibleGroup(actor: Actor, groupId: string) {
+  const group = await prisma.group.findUnique({ where: { id: groupId } })
+  if (!group) throw AppError.notFound('Group not found')
+  if (canManage(group, actor)) return { group, manage: true }
+
+  const member = await prisma.groupMember.findUnique({
+    where: { groupId_userId: { groupId, userId: actor.id } },
+    select: { id: true },
+  })
+  // Don't reveal that the group exists
+  if (!member) throw AppError.notFound('Group not found')
+  return { group, manage: false }
+}
+
+async function findManagedGroup(actor: Actor, groupId: string) {
+  const group = await prisma.group.findUnique({ where: { id: groupId } })
+  if (!group) throw AppError.notFound('Group not found')
+  if (!canManage(group, actor)) throw AppError.forbidden('Only the group owner can do this')
+  return group
+}
+
+/**
+ * Whether the user owns a group the student is a member of
+ */
+export async function isGroupTeacherOf(teacherId: string, studentId: string): Promise<boolean> {
+  const group = await prisma.group.findFirst({
+    where: { ownerId: teacherId, members: { some: { userId: studentId } } },
+    select: { id: true },
+  })
+  return !!group
+}
+
+/**
+ * Groups the user owns or belongs to
+ */
+export async function getGroups(actor: Actor) {
+  const groups = await prisma.group.findMany({
+    where: { OR: [{ ownerId: actor.id }, { members: { some: { userId: actor.id } } }] },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      owner: { select: { id: true, name: true } },
+      _count: { select: { members: true, assignments: true } },
+    },
+  })
+
+  return groups.map((group) => {
+    const manage = canManage(group, actor)
+    return {
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      owner: group.owner,
+      isOwner: manage,
+      joinCode: manage ? group.joinCode : null,
+      memberCount: group._count.members,
+      assignmentCount: group._count.assignments,
+      createdAt: group.createdAt.toISOString(),
+    }
+  })
+}
+
+export async function createGroup(ownerId: string, data: { name: string; description?: string }) {
+  const group = await prisma.group.create({
+    data: { name: data.name, description: data.description || null, ownerId, joinCode: await uniqueJoinCode() },
+  })
+  return { id: group.id, name: group.name, description: group.description, joinCode: group.joinCode }
+}
+
+/**
+ * Group details: assignments for everyone, members and join code for the owner
+ */
+export async function getGroup(actor: Actor, groupId: string, lang: Lang = 'EN') {
+  const { group, manage } = await findVisibleGroup(actor, groupId)
+
+  const [owner, assignments, members] = await Promise.all([
+    prisma.user.findUnique({ where: { id: group.ownerId }, select: { id: true, name: true } }),
+    prisma.groupAssignment.findMany({
+      where: { groupId },
+      orderBy: [{ dueAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      include: { topic: { select: { id: true, slug: true, name: true, nameJson: true } } },
+    }),
+    manage
+      ? prisma.groupMember.findMany({
+          where: { groupId },
+          orderBy: { joinedAt: 'asc' },
+          select: {
+            joinedAt: true,
+            user: { select: { id: true, name: true, email: true, avatarId: true } },
+          },
+        })
+      : Promise.resolve([]),
+  ])
+
+  return {
+    id: group.id,
+    name: group.name,
+    description: group.description,
+    owner,
+    isOwner: manage,
+    joinCode: manage ? group.joinCode : null,
+    createdAt: group.createdAt.toISOString(),
+    assignments: assignments.map((a) => ({
+      id: a.id,
+      topicId: a.topicId,
+      topicSlug: a.topic.slug,
+      topicName: getTranslation(a.topic.nameJson as TranslationsJson, lang, a.topic.name),
+      dueAt: a.dueAt?.toISOString() ?? null,
+      createdAt: a.createdAt.toISOString(),
+    })),
+    members: members.map((m) => ({ ...m.user, joinedAt: m.joinedAt.toISOString() })),
+  }
+}
+
+export async function updateGroup(
+  actor: Actor,
+  groupId: string,
+  data: { name?: string; description?: string | null }
+) {
+  await findManagedGroup(actor, groupId)
+  const group = await prisma.group.update({
+    where: { id: groupId },
+    data: {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.description !== undefined && { description: data.description || null }),
+    },
+  })
+  return { id: group.id, name: group.name, description: group.description }
+}
+
+export async function deleteGroup(actor: Actor, groupId: string) {
+  const group = await findManagedGroup(actor, groupId)
+  await prisma.group.delete({ where: { id: groupId } })
+  return { id: group.id, name: group.name }
+}
+
+/**
+ * Issue a new join code; the old one stops working
+ */
+export async function regenerateJoinCode(actor: Actor, groupId: string) {
+  await findManagedGroup(actor, groupId)
+  const group = await prisma.group.update({ where: { id: groupId }, data: { joinCode: await uniqueJoinCode() } })
+  return { joinCode: group.joinCode }
+}
+
+export async function joinGroup(userId: string, code: string) {
+  const group = await prisma.group.findUnique({ where: { joinCode: code.toUpperCase() } })
+  if (!group) throw AppError.notFound('Invalid join code')
+  if (group.ownerId === userId) throw AppError.badRequest('You already own this group')
+
+  await prisma.groupMember.upsert({
+    where: { groupId_userId: { groupId: group.id, userId } },
+    create: { groupId: group.id, userId },
+    update: {},
+  })
+  return { id: group.id, name: group.name }
+}
+
+export async function leaveGroup(userId: string, groupId: string) {
+  const { count } = await prisma.groupMember.deleteMany({ where: { groupId, userId } })
+  if (count === 0) throw AppError.notFound('Group not found')
+  return { left: true }
+}
+
+export async function removeMember(actor: Actor, groupId: string, userId: string) {
+  await findManagedGroup(actor, groupId)
+  const { count } = await prisma.groupMember.deleteMany({ where: { groupId, userId } })
+  if (count === 0) throw AppError.notFound('Member not found')
+  return { removed: true }
+}
+
+/**
+ * Assign a published course; assigning it again only changes the due date
+ */
+export async function assignTopic(actor: Actor, groupId: string, topicId: string, dueAt: Date | null = null) {
+  await findManagedGroup(actor, groupId)
+  const topic = await prisma.topic.findFirst({
+    where: { id: topicId, parentId: null, status: 'Published' },
+    select: { id: true },
+  })
+  if (!topic) throw AppError.badRequest('Only published courses (root topics) can be assigned')
+
+  const assignment = await prisma.groupAssignment.upsert({
+    where: { groupId_topicId: { groupId, topicId } },
+    create: { groupId, topicId, dueAt },
+    update: { dueAt },
+  })
+  return { id: assignment.id, topicId, dueAt: assignment.dueAt?.toISOString() ?? null }
+}
+
+export async function removeAssignment(actor: Actor, groupId: string, assignmentId: string) {
+  await findManagedGroup(actor, groupId)
+  const { count } = await prisma.groupAssignment.deleteMany({ where: { id: assignmentId, groupId } })
+  if (count === 0) throw AppError.notFound('Assignment not found')
+  return { removed: true }
+}
+
+/**
+ * Members ranked by XP, same shape as the global leaderboard
+ */
+export async function getGroupLeaderboard(actor: Actor, groupId: string, lang: Lang = 'EN') {
+  await findVisibleGroup(actor, groupId)
+
+  const users = await prisma.user.findMany({
+    where: { deletedAt: null, groupMemberships: { some: { groupId } } },
+    orderBy: { xp: 'desc' },
+    select: {
+      id: true,
+      name: true,
+      xp: true,
+      avatarId: true,
+      avatarFile: { select: { id: true, key: true, mimeType: true } },
+      createdAt: true,
+    },
+  })
+  const achievements = await getRecentAchievements(users.map((u) => u.id), lang)
+
+  return users.map((user, index) => ({
+    ...user,
+    rank: index + 1,
+    level: Math.floor(user.xp / 100) + 1,
+    badges: getBadges(user.xp),
+    achievements: achievements.get(user.id)?.recent ?? [],
+    achievementsCount: achievements.get(user.id)?.count ?? 0,
+  }))
+}
+
+/**
+ * Teacher view: activity of every member and their progress on each assignment.
+ * An assignment counts every published material and quiz of the course and its published
+ * subtopics; a quiz is done once passed, a material once viewed.
+ */
+export async function getGroupProgress(actor: Actor, groupId: string, lang: Lang = 'EN') {
+  await findManagedGroup(actor, groupId)
+
+  const [members, assignments] = await Promise.all([
+    prisma.groupMember.findMany({
+      where: { groupId, user: { deletedAt: null } },
+      orderBy: { joinedAt: 'asc' },
+      select: { user: { select: { id: true, name: true, email: true, avatarId: true, xp: true } } },
+    }),
+    prisma.groupAssignment.findMany({
+      where: { groupId },
+      orderBy: [{ dueAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      include: {
+        topic: {
+          select: {
+            id: true, slug: true, name: true, nameJson: true,
+            materials: { where: PUBLISHED_CONTENT, select: { id: true } },
+            quizzes: { where: PUBLISHED_CONTENT, select: { id: true } },
+            children: {
+              where: { status: 'Published' },
+              select: {
+                materials: { where: PUBLISHED_CONTENT, select: { id: true } },
+                quizzes: { where: PUBLISHED_CONTENT, select: { id: true } },
+              },
+            },
+          },
+        },
+      },
+    }),
+  ])
+
+  const userIds = members.map((m) => m.user.id)
+  const courses = assignments.map((a) => {
+    const parts = [a.topic, ...a.topic.children]
+    return {
+      assignment: a,
+      materialIds: parts.flatMap((p) => p.materials.map((m) => m.id)),
+      quizIds: parts.flatMap((p) => p.quizzes.map((q) => q.id)),
+    }
+  })
+  const materialIds = courses.flatMap((c) => c.materialIds)
+  const quizIds = courses.flatMap((c) => c.quizIds)
+
+  const [attemptStats, viewStats, activityStats, views, attempts] = userIds.length === 0
+    ? [[], [], [], [], []]
+    : await Promise.all([
+        prisma.quizAttempt.groupBy({
+          by: ['userId'],
+          where: { userId: { in: userIds } },
+          _count: { _all: true },
+          _sum: { score: true, total: true },
+        }),
+        prisma.materialView.groupBy({
+          by: ['userId'],
+          where: { userId: { in: userIds } },
+          _count: { _all: true },
+        }),
+        prisma.userActivity.groupBy({
+          by: ['userId'],
+          where: { userId: { in: userIds } },
+          _sum: { timeSpent: true },
+          _max: { date: true },
+        }),
+        materialIds.length > 0
+          ? prisma.materialView.findMany({
+              where: { userId: { in: userIds }, materialId: { in: materialIds } },
+              select: { userId: true, materialId: true },
+            })
+          : Promise.resolve([]),
+        quizIds.length > 0
+          ? prisma.quizAttempt.findMany({
+              where: { userId: { in: userIds }, quizId: { in: quizIds } },
+              select: { userId: true, quizId: true, score: true, total: true },
+            })
+          : Promise.resolve([]),
+      ])
+
+  const attemptsByUser = new Map(attemptStats.map((s) => [s.userId, s]))
+  const viewsByUser = new Map(viewStats.map((s) => [s.userId, s._count._all]))
+  const activityByUser = new Map(activityStats.map((s) => [s.userId, s]))
+  const done = new Set([
+    ...views.map((v) => `${v.userId}:${v.materialId}`),
+    ...attempts
+      .filter((a) => a.total > 0 && a.score >= getPassingPoints(a.total))
+      .map((a) => `${a.userId}:${a.quizId}`),
+  ])
+  const now = Date.now()
+
+  return {
+    assignments: courses.map(({ assignment: a, materialIds, quizIds }) => ({
+      id: a.id,
+      topicId: a.topicId,
+      topicSlug: a.topic.slug,
+      topicName: getTranslation(a.topic.nameJson as TranslationsJson, lang, a.topic.name),
+      dueAt: a.dueAt?.toISOString() ?? null,
+      totalItems: materialIds.length + quizIds.length,
+    })),
+    members: members.map(({ user }) => {
+      const quiz = attemptsByUser.get(user.id)
+      const activity = activityByUser.get(user.id)
+      const scoreSum = quiz?._sum.score ?? 0
+      const totalSum = quiz?._sum.total ?? 0
+      return {
+        user,
+        quizAttempts: quiz?._count._all ?? 0,
+        averageScore: totalSum > 0 ? Math.round((scoreSum / totalSum) * 100) : null,
+        materialsViewed: viewsByUser.get(user.id) ?? 0,
+        timeSpent: activity?._sum.timeSpent ?? 0,
+        lastActiveAt: activity?._max.date?.toISOString() ?? null,
+        assignments: courses.map(({ assignment: a, materialIds, quizIds }) => {
+          const itemIds = [...materialIds, ...quizIds]
+          const completedItems = itemIds.filter((id) => done.has(`${user.id}:${id}`)).length
+          const completed = itemIds.length > 0 && completedItems === itemIds.length
+          return {
+            assignmentId: a.id,
+            completedItems,
+            progress: itemIds.length > 0 ? Math.round((completedItems / itemIds.length) * 100) : 0,
+            completed,
+            overdue: !completed && !!a.dueAt && a.dueAt.getTime() < now,
+          }
+        }),
+      }
+    }),
+  }
+}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { markInviteUsed } from './invites.service.js'
+
+type Invite = { id: string; used: boolean; usedAt: Date | null; revokedAt: Date | null; expiresAt: Date }
+
+const db = vi.hoisted(() => ({ invites: [] as Invite[] }))
+
+function matches(invite: Invite, where: Record<string, any>) {
+  return Object.entries(where).every(([key, value]) => {
+    const field = invite[key as keyof Invite]
+    if (value && typeof value === 'object' && 'gt' in value) return field! > value.gt
+    return field === value
+  })
+}
+
+// In-memory invite table
+vi.mock('../db.js', () => ({
+  prisma: {
+    inviteToken: {
+      updateMany: async ({ where, data }: any) => {
+        const rows = db.invites.filter((i) => matches(i, where))
+        rows.forEach((i) => Object.assign(i, data))
+        return { count: rows.length }
+      },
+    },
+  },
+}))
+vi.mock('./audit.service.js', () => ({ auditLog: vi.fn(), AuditActions: {}, AuditResources: {} }))
+vi.mock('./email.service.js', () => ({ sendInviteEmail: vi.fn() }))
+vi.mock('./token.service.js', () => ({ generateRandomToken: () => 'invite-token' }))
+
+const invite = (id: string, fields: Partial<Invite> = {}): Invite => ({
+  id,
+  used: false,
+  usedAt: null,
+  revokedAt: null,
+  expiresAt: new Date(Date.now() + 60_000),
+  ...fields,
+})
+
+beforeEach(() => {
+  db.invites = [
+    invite('pending'),
+    invite('revoked', { revokedAt: new Date() }),
+    invite('expired', { expiresAt: new Date(Date.now() - 1) }),
+  ]
+})
+
+describe('markInviteUsed', () => {
+  it('uses up a pending invite once', async () => {
+    await markInviteUsed('pending')
+    expect(db.invites[0]).toMatchObject({ used: true, usedAt: expect.any(Date) })
+
+    await expect(markInviteUsed('pending')).rejects.toMatchObject({ statusCode: 400 })
+  })
+
+  it('refuses revoked, expired and unknown invites', async () => {
+    for (const id of ['revoked', 'expired', 'missing']) {
+      await expect(markInviteUsed(id)).rejects.toThrow('This invite is invalid, has expired or was already used')
+    }
+    expect(db.invites.filter((i) => i.used)).toHaveLength(0)
+  })
+})
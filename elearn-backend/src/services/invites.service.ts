@@ -0,0 +1,310 @@
+// src/services/invites.service.ts
+/**
+ * Registration invites
+ *
+ * ADMIN and TEACHER invite people by email, one or many at once. The email carries a
+ * /register?invite=<token> link; registering through it gives the account the invite's role
+ * and a verified email (the link could only be opened from that mailbox). Teachers can only
+ * invite students and only see their own invites.
+ *
+ * With INVITE_ONLY=true registration requires a valid invite: the token for password sign-up,
+ * or a pending invite for the provider-verified email when the account is created through a
+ * sign-in provider. Inviting an email again replaces its pending invite.
+ */
+import type { InviteToken, Prisma } from '@prisma/client'
+import { prisma } from '../db.js'
+import type { Invite, InviteStatus, Role, SkippedInvite } from '../shared'
+import { AppError } from '../utils/AppError.js'
+import { auditLog, AuditActions, AuditResources } from './audit.service.js'
+import { sendInviteEmail } from './email.service.js'
+import { generateRandomToken } from './token.service.js'
+
+const INVITE_ONLY = process.env.INVITE_ONLY === 'true'
+const INVITE_EXPIRES_DAYS = Number(process.env.INVITE_EXPIRES_DAYS ?? 7)
+
+// The client inside $transaction (the extended client minus its connection/transaction methods)
+type Db = Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>
+
+type Actor = { id: string; role: Role }
+
+interface ClientInfo {
+  ip?: string
+  userAgent?: string
+}
+
+type InviteRow = InviteToken & { invitedBy: { id: string; name: string } | null }
+
+export function isInviteOnly(): boolean {
+  return INVITE_ONLY
+}
+
+function daysFromNow(days: number): Date {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+}
+
+function inviteStatus(invite: InviteToken): InviteStatus {
+  if (invite.used) return 'used'
+  if (invite.revokedAt) return 'revoked'
+  return invite.expiresAt < new Date() ? 'expired' : 'pending'
+}
+
+function pendingWhere(): Prisma.InviteTokenWhereInput {
+  return { used: false, revokedAt: null, expiresAt: { gt: new Date() } }
+}
+
+function statusWhere(status: InviteStatus): Prisma.InviteTokenWhereInput {
+  const now = new Date()
+  switch (status) {
+    case 'pending':
+      return pendingWhere()
+    case 'used':
+      return { used: true }
+    case 'revoked':
+      return { used: false, revokedAt: { not: null } }
+    case 'expired':
+      return { used: false, revokedAt: null, expiresAt: { lte: now } }
+  }
+}
+
+function toInvite(invite: InviteRow): Invite {
+  return {
+    id: invite.id,
+    email: invite.email,
+    role: invite.role as Role,
+    status: inviteStatus(invite),
+    invitedBy: invite.invitedBy,
+    expiresAt: invite.expiresAt.toISOString(),
+    lastSentAt: invite.lastSentAt.toISOString(),
+    usedAt: invite.usedAt?.toISOString() ?? null,
+    createdAt: invite.createdAt.toISOString(),
+  }
+}
+
+const INVITED_BY = { invitedBy: { select: { id: true, name: true } } } as const
+
+async function sendInvite(invite: InviteRow): Promise<void> {
+  await sendInviteEmail(invite.email, invite.token, {
+    inviterName: invite.invitedBy?.name ?? null,
+    role: invite.role,
+    expiresAt: invite.expiresAt,
+  })
+}
+
+// Teachers manage only their own invites
+async function getManagedInvite(actor: Actor, inviteId: string): Promise<InviteRow> {
+  const invite = await prisma.inviteToken.findUnique({ where: { id: inviteId }, include: INVITED_BY })
+  if (!invite || (actor.role !== 'ADMIN' && invite.invitedById !== actor.id)) {
+    throw AppError.notFound('Invite not found')
+  }
+  return invite
+}
+
+// ============================================
+// MANAGEMENT
+// ============================================
+
+/**
+ * Invite one or many emails; already registered emails are skipped
+ */
+export async function createInvites(
+  actor: Actor,
+  data: { emails: string[]; role: Role; expiresInDays?: number },
+  client: ClientInfo = {}
+): Promise<{ invites: Invite[]; skipped: SkippedInvite[] }> {
+  if (actor.role !== 'ADMIN' && data.role !== 'STUDENT') {
+    throw AppError.forbidden('Teachers can only invite students')
+  }
+
+  const emails = [...new Set(data.emails.map((email) => email.toLowerCase().trim()))]
+  const registered = await prisma.user.findMany({
+    where: { email: { in: emails } },
+    select: { email: true },
+  })
+  const registeredEmails = new Set(registered.map((user) => user.email))
+  const skipped: SkippedInvite[] = emails
+    .filter((email) => registeredEmails.has(email))
+    .map((email) => ({ email, reason: 'registered' }))
+  const toInviteEmails = emails.filter((email) => !registeredEmails.has(email))
+
+  const expiresAt = daysFromNow(data.expiresInDays ?? INVITE_EXPIRES_DAYS)
+  const created = await prisma.$transaction(async (tx) => {
+    // A new invite replaces the pending one, so only the latest link works
+    await tx.inviteToken.updateMany({
+      where: { email: { in: toInviteEmails }, ...pendingWhere() },
+      data: { revokedAt: new Date() },
+    })
+    return Promise.all(
+      toInviteEmails.map((email) =>
+        tx.inviteToken.create({
+          data: { email, token: generateRandomToken(), role: data.role, invitedById: actor.id, expiresAt },
+          include: INVITED_BY,
+        })
+      )
+    )
+  })
+
+  for (const invite of created) {
+    await sendInvite(invite)
+  }
+
+  if (created.length > 0) {
+    await auditLog({
+      userId: actor.id,
+      action: AuditActions.CREATE,
+      resource: AuditResources.INVITE,
+      metadata: { emails: toInviteEmails, role: data.role, expiresAt },
+      ...client,
+    })
+  }
+
+  return { invites: created.map(toInvite), skipped }
+}
+
+/**
+ * Invites, newest first; teachers see only the ones they sent
+ */
+export async function listInvites(
+  actor: Actor,
+  query: { page: number; limit: number; status?: InviteStatus; search?: string }
+) {
+  const where: Prisma.InviteTokenWhereInput = {
+    ...(actor.role !== 'ADMIN' && { invitedById: actor.id }),
+    ...(query.status && statusWhere(query.status)),
+    ...(query.search && { email: { contains: query.search.toLowerCase() } }),
+  }
+
+  const [invites, total] = await Promise.all([
+    prisma.inviteToken.findMany({
+      where,
+      include: INVITED_BY,
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    }),
+    prisma.inviteToken.count({ where }),
+  ])
+
+  return {
+    invites: invites.map(toInvite),
+    pagination: { page: query.page, limit: query.limit, total, pages: Math.ceil(total / query.limit) },
+  }
+}
+
+/**
+ * Send the invite email again; an expired invite gets a fresh expiry
+ */
+export async function resendInvite(actor: Actor, inviteId: string, client: ClientInfo = {}): Promise<Invite> {
+  const invite = await getManagedInvite(actor, inviteId)
+  const status = inviteStatus(invite)
+  if (status === 'used' || status === 'revoked') {
+    throw AppError.badRequest(`Invite is already ${status}`)
+  }
+
+  if (status === 'expired') {
+    // Reviving an old invite replaces a newer pending one, like inviting again
+    await prisma.inviteToken.updateMany({
+      where: { email: invite.email, id: { not: invite.id }, ...pendingWhere() },
+      data: { revokedAt: new Date() },
+    })
+  }
+  const updated = await prisma.inviteToken.update({
+    where: { id: invite.id },
+    data: {
+      lastSentAt: new Date(),
+      ...(status === 'expired' && { expiresAt: daysFromNow(INVITE_EXPIRES_DAYS) }),
+    },
+    include: INVITED_BY,
+  })
+  await sendInvite(updated)
+
+  await auditLog({
+    userId: actor.id,
+    action: AuditActions.UPDATE,
+    resource: AuditResources.INVITE,
+    resourceId: invite.id,
+    metadata: { email: invite.email, resent: true },
+    ...client,
+  })
+  return toInvite(updated)
+}
+
+/**
+ * Revoke a pending (or expired) invite so its link stops working
+ */
+export async function revokeInvite(actor: Actor, inviteId: string, client: ClientInfo = {}): Promise<void> {
+  const invite = await getManagedInvite(actor, inviteId)
+  const status = inviteStatus(invite)
+  if (status === 'used' || status === 'revoked') {
+    throw AppError.badRequest(`Invite is already ${status}`)
+  }
+
+  await prisma.inviteToken.update({ where: { id: invite.id }, data: { revokedAt: new Date() } })
+  await auditLog({
+    userId: actor.id,
+    action: AuditActions.DELETE,
+    resource: AuditResources.INVITE,
+    resourceId: invite.id,
+    metadata: { email: invite.email },
+    ...client,
+  })
+}
+
+// ============================================
+// REGISTRATION
+// ============================================
+
+/**
+ * Pending invite behind a ?invite= link, or null if it's unknown, used, revoked or expired
+ */
+export async function findPendingInvite(token: string): Promise<InviteToken | null> {
+  return prisma.inviteToken.findFirst({ where: { token, ...pendingWhere() } })
+}
+
+/**
+ * Invite that allows registering this email, if any. Password sign-up has to bring the token;
+ * sign-in providers verified the email themselves, so a pending invite for it is enough.
+ * Throws when registration is invite-only and there is no usable invite.
+ */
+export async function resolveRegistrationInvite(
+  email: string,
+  token?: string | null
+): Promise<InviteToken | null> {
+  let invite: InviteToken | null = null
+  if (token) {
+    invite = await findPendingInvite(token)
+    if (!invite) {
+      throw AppError.badRequest('This invite is invalid, has expired or was already used')
+    }
+    if (invite.email !== email.toLowerCase().trim()) {
+      throw AppError.badRequest('This invite was sent to a different email address')
+    }
+  } else if (INVITE_ONLY) {
+    throw AppError.forbidden('Registration is by invitation only')
+  }
+  return invite
+}
+
+export async function resolveProviderInvite(email: string): Promise<InviteToken | null> {
+  const invite = await prisma.inviteToken.findFirst({
+    where: { email: email.toLowerCase().trim(), ...pendingWhere() },
+    orderBy: { createdAt: 'desc' },
+  })
+  if (!invite && INVITE_ONLY) {
+    throw AppError.forbidden('Registration is by invitation only')
+  }
+  return invite
+}
+
+/**
+ * Use up the invite, in the transaction that creates the account. Only a still pending invite
+ * counts, so one invite can't register two accounts and a revoke in the meantime holds.
+ */
+export async function markInviteUsed(inviteId: string, db: Db = prisma): Promise<void> {
+  const { count } = await db.inviteToken.updateMany({
+    where: { id: inviteId, ...pendingWhere() },
+    data: { used: true, usedAt: new Date() },
+  })
+  if (count === 0) {
+    throw AppError.badRequest('This invite is invalid, has expired or was already used')
+  }
+}
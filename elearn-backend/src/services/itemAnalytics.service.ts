@@ -0,0 +1,149 @@
+// src/services/itemAnalytics.service.ts
+/**
+ * Item analytics
+ *
+ * Classic per-question statistics from the Answer rows of quiz attempts: share of credit
+ * earned, option distribution, discrimination index (upper vs lower 27% of attempts by
+ * score) and average time on the question. Questions nearly everyone fails, or whose wrong
+ * option is picked more often than the right one, are flagged for editors.
+ */
+import { prisma } from '../db.js'
+import type { Lang } from '../shared'
+import { AppError } from '../utils/AppError.js'
+import { getTranslation } from '../utils/i18n.js'
+
+type TranslationsJson = Record<string, string> | null
+
+export type ItemFlag = 'too_hard' | 'distractor'
+
+/** Responses needed before a question is flagged or gets a discrimination index */
+const MIN_RESPONSES = 5
+/** Share of credit below which a question counts as nearly always failed */
+const TOO_HARD_RATIO = 0.2
+/** Size of the upper and lower scorer groups for the discrimination index */
+const GROUP_SHARE = 0.27
+const CHOICE_TYPES = ['single', 'multiple', 'truefalse']
+
+type ResponseRow = {
+  credit: number
+  optionId: string | null
+  selectedOptionIds: string[]
+  timeSpentMs: number | null
+  attempt: { score: number; total: number } | null
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+}
+
+/**
+ * Mean credit of the upper group minus that of the lower group (-1..1).
+ * Responses are ranked by the score of their whole attempt.
+ */
+function discriminationIndex(rows: ResponseRow[]): number | null {
+  const ranked = rows
+    .filter((r) => r.attempt && r.attempt.total > 0)
+    .map((r) => ({ credit: r.credit, ratio: r.attempt!.score / r.attempt!.total }))
+    .sort((a, b) => b.ratio - a.ratio)
+  const size = Math.floor(ranked.length * GROUP_SHARE)
+  if (ranked.length < MIN_RESPONSES || size < 1) return null
+
+  const upper = average(ranked.slice(0, size).map((r) => r.credit))!
+  const lower = average(ranked.slice(-size).map((r) => r.credit))!
+  return Math.round((upper - lower) * 100) / 100
+}
+
+/**
+ * Statistics for every question of a quiz
+ */
+export async function getQuizItemAnalytics(quizId: string, lang: Lang = 'EN') {
+  const quiz = await prisma.quiz.findUnique({ where: { id: quizId }, select: { id: true } })
+  if (!quiz) throw AppError.notFound('Quiz not found')
+
+  const questions = await prisma.question.findMany({
+    where: { quizId },
+    orderBy: { id: 'asc' },
+    include: { options: { orderBy: { id: 'asc' }, select: { id: true, text: true, textJson: true, correct: true } } },
+  })
+
+  // Only answers given in quiz attempts; bank questions count answers from every quiz they were drawn into
+  const answers = await prisma.answer.findMany({
+    where: { questionId: { in: questions.map((q) => q.id) }, attemptId: { not: null } },
+    select: {
+      questionId: true,
+      credit: true,
+      optionId: true,
+      selectedOptionIds: true,
+      timeSpentMs: true,
+      attempt: { select: { score: true, total: true } },
+    },
+  })
+  const byQuestion = new Map<string, ResponseRow[]>()
+  for (const a of answers) {
+    const rows = byQuestion.get(a.questionId) ?? []
+    rows.push(a)
+    byQuestion.set(a.questionId, rows)
+  }
+
+  const items = questions.map((q) => {
+    const rows = byQuestion.get(q.id) ?? []
+    const meanCredit = average(rows.map((r) => r.credit))
+    const times = rows.map((r) => r.timeSpentMs).filter((t): t is number => t !== null)
+
+    const picks = new Map(q.options.map((o) => [o.id, 0]))
+    for (const r of rows) {
+      const chosen = new Set([...r.selectedOptionIds, ...(r.optionId ? [r.optionId] : [])])
+      chosen.forEach((id) => { if (picks.has(id)) picks.set(id, picks.get(id)! + 1) })
+    }
+    const options = q.options.map((o) => ({
+      id: o.id,
+      text: getTranslation(o.textJson as TranslationsJson, lang, o.text),
+      correct: o.correct,
+      count: picks.get(o.id)!,
+      percent: rows.length > 0 ? Math.round((picks.get(o.id)! / rows.length) * 100) : 0,
+    }))
+
+    const flags: ItemFlag[] = []
+    if (rows.length >= MIN_RESPONSES) {
+      if (meanCredit! < TOO_HARD_RATIO) flags.push('too_hard')
+      if (CHOICE_TYPES.includes(q.type)) {
+        const correctPicks = options.filter((o) => o.correct).map((o) => o.count)
+        const wrongPicks = options.filter((o) => !o.correct).map((o) => o.count)
+        if (correctPicks.length > 0 && wrongPicks.length > 0 && Math.max(...wrongPicks) > Math.min(...correctPicks)) {
+          flags.push('distractor')
+        }
+      }
+    }
+
+    return {
+      questionId: q.id,
+      text: getTranslation(q.textJson as TranslationsJson, lang, q.text),
+      type: q.type,
+      responses: rows.length,
+      percentCorrect: meanCredit === null ? null : Math.round(meanCredit * 100),
+      discrimination: discriminationIndex(rows),
+      avgTimeMs: times.length > 0 ? Math.round(average(times)!) : null,
+      options: CHOICE_TYPES.includes(q.type) ? options : [],
+      flags,
+    }
+  })
+
+  return {
+    quizId,
+    attempts: await prisma.quizAttempt.count({ where: { quizId } }),
+    flagged: items.filter((i) => i.flags.length > 0).length,
+    questions: items,
+  }
+}
+
+/**
+ * Number of flagged questions per quiz of a topic, for the content overview
+ */
+export async function getTopicQuizFlags(topicId: string): Promise<Record<string, number>> {
+  const quizzes = await prisma.quiz.findMany({ where: { topicId }, select: { id: true } })
+  const result: Record<string, number> = {}
+  for (const quiz of quizzes) {
+    result[quiz.id] = (await getQuizItemAnalytics(quiz.id)).flagged
+  }
+  return result
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { AppError } from '../utils/AppError.js'
+import {
+  assertLoginAllowed,
+  assertUnknownLoginAllowed,
+  recordFailedLogin,
+  recordUnknownLogin,
+  type LoginGuardState,
+} from './loginProtection.service.js'
+
+const mocks = vi.hoisted(() => ({
+  failedLoginCount: 0,
+  lastFailedLoginAt: null as Date | null,
+  lockedUntil: null as Date | null,
+  sendAccountLockedEmail: vi.fn(),
+}))
+
+vi.mock('../db.js', () => ({
+  prisma: {
+    user: {
+      update: async ({ data }: any) => {
+        if (data.failedLoginCount?.increment) mocks.failedLoginCount += data.failedLoginCount.increment
+        if (data.lastFailedLoginAt) mocks.lastFailedLoginAt = data.lastFailedLoginAt
+        if (data.lockedUntil) mocks.lockedUntil = data.lockedUntil
+        return { failedLoginCount: mocks.failedLoginCount }
+      },
+    },
+    accountUnlockToken: { deleteMany: async () => ({ count: 0 }), create: async () => ({}) },
+  },
+}))
+vi.mock('./audit.service.js', () => ({
+  auditLog: vi.fn(),
+  AuditActions: { LOGIN_FAILED: 'LOGIN_FAILED', ACCOUNT_LOCKED: 'ACCOUNT_LOCKED' },
+  AuditResources: { USER: 'USER' },
+}))
+vi.mock('./email.service.js', () => ({ sendAccountLockedEmail: mocks.sendAccountLockedEmail }))
+vi.mock('./token.service.js', () => ({ generateRandomToken: () => 'unlock-token' }))
+
+const now = new Date('2026-03-01T12:00:00Z')
+
+function account(failedLoginCount: number, lastFailedLoginAt: Date | null = now, lockedUntil: Date | null = null): LoginGuardState {
+  return { id: 'user1', email: 'ann@example.com', failedLoginCount, lastFailedLoginAt, lockedUntil }
+}
+
+function thrown(fn: () => void) {
+  try {
+    fn()
+  } catch (err) {
+    return err
+  }
+  return null
+}
+
+/** What the client sees of one wrong login */
+async function response(attempt: () => Promise<void>) {
+  try {
+    await attempt()
+    return 'invalid credentials'
+  } catch (err) {
+    const { statusCode, details } = err as AppError
+    return { statusCode, retryAfter: details?.retryAfter }
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now })
+  mocks.failedLoginCount = 0
+  mocks.lastFailedLoginAt = null
+  mocks.lockedUntil = null
+  mocks.sendAccountLockedEmail.mockClear()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('assertLoginAllowed', () => {
+  it('lets the first three failures retry right away', () => {
+    expect(() => assertLoginAllowed(account(0, null))).not.toThrow()
+    expect(() => assertLoginAllowed(account(2))).not.toThrow()
+  })
+
+  it('doubles the wait from the third failure', () => {
+    expect(thrown(() => assertLoginAllowed(account(3)))).toMatchObject({ statusCode: 429, details: { retryAfter: 1 } })
+    expect(thrown(() => assertLoginAllowed(account(6)))).toMatchObject({ statusCode: 429, details: { retryAfter: 8 } })
+  })
+
+  it('never waits longer than the lock for the same failure count', () => {
+    expect(thrown(() => assertLoginAllowed(account(15)))).toMatchObject({ details: { retryAfter: 4096 } })
+    expect(thrown(() => assertLoginAllowed(account(20)))).toMatchObject({ details: { retryAfter: 24 * 60 * 60 } })
+    expect(thrown(() => assertLoginAllowed(account(1000)))).toMatchObject({ details: { retryAfter: 24 * 60 * 60 } })
+    expect(() => assertLoginAllowed(account(1000, new Date(now.getTime() - 24 * 60 * 60_000)))).not.toThrow()
+  })
+
+  it('allows the next attempt once the wait is over', () => {
+    expect(() => assertLoginAllowed(account(6, new Date(now.getTime() - 8_000)))).not.toThrow()
+  })
+
+  it('refuses a locked account until the lock expires', () => {
+    const lockedUntil = new Date(now.getTime() + 60_000)
+    expect(thrown(() => assertLoginAllowed(account(10, now, lockedUntil)))).toMatchObject({
+      statusCode: 423,
+      details: { retryAfter: 60 },
+    })
+    expect(() => assertLoginAllowed(account(10, new Date(now.getTime() - 3_600_000), new Date(now.getTime() - 1)))).not.toThrow()
+  })
+})
+
+describe('recordFailedLogin', () => {
+  it('locks for 15 minutes at the tenth failure and emails an unlock link', async () => {
+    mocks.failedLoginCount = 8
+    await expect(recordFailedLogin(account(8))).resolves.toBeUndefined()
+    expect(mocks.lockedUntil).toBeNull()
+
+    await expect(recordFailedLogin(account(9))).rejects.toMatchObject({ statusCode: 423, code: 'ACCOUNT_LOCKED' })
+    expect(mocks.lockedUntil).toEqual(new Date(now.getTime() + 15 * 60_000))
+    expect(mocks.sendAccountLockedEmail).toHaveBeenCalledOnce()
+  })
+
+  it('locks twice as long for each failure after an expired lock, up to a day', async () => {
+    mocks.failedLoginCount = 10
+    await expect(recordFailedLogin(account(10))).rejects.toMatchObject({ statusCode: 423 })
+    expect(mocks.lockedUntil).toEqual(new Date(now.getTime() + 30 * 60_000))
+
+    mocks.failedLoginCount = 30
+    await expect(recordFailedLogin(account(30))).rejects.toMatchObject({ statusCode: 423 })
+    expect(mocks.lockedUntil).toEqual(new Date(now.getTime() + 24 * 60 * 60_000))
+  })
+})
+
+describe('unknown emails', () => {
+  it('get the same backoff and lock as an existing account', async () => {
+    const email = 'nobody@example.com'
+    const unknown: unknown[] = []
+    const existing: unknown[] = []
+
+    // A guess every ten seconds for five minutes
+    for (let i = 0; i < 30; i++) {
+      vi.setSystemTime(new Date(now.getTime() + i * 10_000))
+      unknown.push(
+        await response(async () => {
+          assertUnknownLoginAllowed(email)
+          await recordUnknownLogin(email)
+        })
+      )
+      existing.push(
+        await response(async () => {
+          const state = account(mocks.failedLoginCount, mocks.lastFailedLoginAt, mocks.lockedUntil)
+          assertLoginAllowed(state)
+          await recordFailedLogin(state)
+        })
+      )
+    }
+
+    expect(unknown).toEqual(existing)
+    expect(unknown).toContainEqual(expect.objectContaining({ statusCode: 429 }))
+    expect(unknown.at(-1)).toMatchObject({ statusCode: 423 })
+  })
+
+  it('answer with the backoff right after repeated failures', async () => {
+    const email = 'someone-else@example.com'
+    for (let i = 0; i < 3; i++) await recordUnknownLogin(email)
+    expect(thrown(() => assertUnknownLoginAllowed(email))).toMatchObject({ statusCode: 429, details: { retryAfter: 1 } })
+
+    vi.setSystemTime(new Date(now.getTime() + 1_000))
+    expect(() => assertUnknownLoginAllowed(email)).not.toThrow()
+  })
+})
@@ -0,0 +1,255 @@
+// src/services/loginProtection.service.ts
+/**
+ * Per-account brute-force protection for password login
+ *
+ * authLimiter only counts requests per IP, so it doesn't stop guessing one account's password
+ * from many addresses. Here wrong passwords are counted on the account itself: the first few
+ * are free (typos), after that every attempt has to wait an exponentially growing delay, and
+ * at LOGIN_LOCKOUT_THRESHOLD failures password login is locked for LOGIN_LOCKOUT_MINUTES.
+ * A wrong password after a lock expires locks again for twice as long (up to a day). Wrong 2FA
+ * codes count the same way, and the counter is only cleared once the whole sign-in succeeds,
+ * so knowing the password doesn't reset the guesses at the second factor. Emails without an
+ * account are counted the same way (in memory), so the backoff and lock responses don't reveal
+ * which emails are registered.
+ *
+ * A lock emails the owner a link that unlocks right away; ADMIN can unlock from the user
+ * details page, and a password reset unlocks too. Every wrong password is audited as
+ * LOGIN_FAILED (also for unknown emails), so attacks show up in the audit log.
+ */
+import { prisma } from '../db.js'
+import { AppError } from '../utils/AppError.js'
+import { logger } from '../utils/logger.js'
+import { auditLog, AuditActions, AuditResources } from './audit.service.js'
+import { sendAccountLockedEmail } from './email.service.js'
+import { generateRandomToken } from './token.service.js'
+
+const LOCKOUT_THRESHOLD = Number(process.env.LOGIN_LOCKOUT_THRESHOLD ?? 10)
+const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15)
+const MAX_LOCKOUT_MINUTES = 24 * 60
+const FREE_ATTEMPTS = 3
+const UNLOCK_TOKEN_EXPIRES_HOURS = 24
+const MAX_UNKNOWN_EMAILS = 10_000
+
+interface ClientInfo {
+  ip?: string
+  userAgent?: string
+}
+
+/** Login counters of the user, as selected by loginUser */
+export interface LoginGuardState {
+  id: string
+  email: string
+  failedLoginCount: number
+  lastFailedLoginAt: Date | null
+  lockedUntil: Date | null
+}
+
+type LoginCounters = Pick<LoginGuardState, 'failedLoginCount' | 'lastFailedLoginAt' | 'lockedUntil'>
+
+// Counters of emails without an account, least recently failed first
+const unknownEmails = new Map<string, LoginCounters>()
+
+function lockoutMs(failures: number): number {
+  const minutes = LOCKOUT_MINUTES * 2 ** Math.max(0, failures - LOCKOUT_THRESHOLD)
+  return Math.min(minutes, MAX_LOCKOUT_MINUTES) * 60_000
+}
+
+// 1s, 2s, 4s… after the free attempts, never longer than the lock the same failure count gets
+function backoffMs(failures: number): number {
+  return failures < FREE_ATTEMPTS ? 0 : Math.min(1000 * 2 ** (failures - FREE_ATTEMPTS), lockoutMs(failures))
+}
+
+function retryAfterSeconds(until: Date): number {
+  return Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000))
+}
+
+function accountLocked(lockedUntil: Date): AppError {
+  return new AppError('Account is temporarily locked after too many failed login attempts', 423, 'ACCOUNT_LOCKED', {
+    lockedUntil: lockedUntil.toISOString(),
+    retryAfter: retryAfterSeconds(lockedUntil),
+  })
+}
+
+/**
+ * Throw before the password is even checked if the account is locked or still in backoff
+ */
+export function assertLoginAllowed(user: LoginCounters): void {
+  if (user.lockedUntil && user.lockedUntil > new Date()) {
+    throw accountLocked(user.lockedUntil)
+  }
+
+  const delay = backoffMs(user.failedLoginCount)
+  if (delay > 0 && user.lastFailedLoginAt) {
+    const nextAttemptAt = new Date(user.lastFailedLoginAt.getTime() + delay)
+    if (nextAttemptAt > new Date()) {
+      throw new AppError('Too many failed login attempts, try again later', 429, 'RATE_LIMITED', {
+        retryAfter: retryAfterSeconds(nextAttemptAt),
+      })
+    }
+  }
+}
+
+/**
+ * Count a wrong password (or 2FA code); throws ACCOUNT_LOCKED when this attempt locked the account
+ */
+export async function recordFailedLogin(
+  user: LoginGuardState,
+  client: ClientInfo = {},
+  factor: 'password' | 'second_factor' = 'password'
+): Promise<void> {
+  const now = new Date()
+  // Atomic increment: parallel attempts each count
+  const { failedLoginCount } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: now },
+    select: { failedLoginCount: true },
+  })
+
+  const lockedUntil = failedLoginCount >= LOCKOUT_THRESHOLD
+    ? new Date(now.getTime() + lockoutMs(failedLoginCount))
+    : null
+
+  await auditLog({
+    userId: user.id,
+    action: AuditActions.LOGIN_FAILED,
+    resource: AuditResources.USER,
+    resourceId: user.id,
+    metadata: {
+      email: user.email,
+      failedAttempts: failedLoginCount,
+      ...(factor === 'second_factor' && { secondFactor: true }),
+      ...(lockedUntil && { lockedUntil }),
+    },
+    ...client,
+  })
+
+  if (!lockedUntil) return
+
+  await prisma.user.update({ where: { id: user.id }, data: { lockedUntil } })
+  await auditLog({
+    userId: user.id,
+    action: AuditActions.ACCOUNT_LOCKED,
+    resource: AuditResources.USER,
+    resourceId: user.id,
+    metadata: { email: user.email, failedAttempts: failedLoginCount, lockedUntil },
+    ...client,
+  })
+  logger.warn('[LOGIN] Account locked', { userId: user.id, failedAttempts: failedLoginCount, lockedUntil })
+
+  await sendUnlockEmail(user, lockedUntil)
+  throw accountLocked(lockedUntil)
+}
+
+/**
+ * assertLoginAllowed for an email without an account
+ */
+export function assertUnknownLoginAllowed(email: string): void {
+  const counters = unknownEmails.get(email)
+  if (counters) assertLoginAllowed(counters)
+}
+
+/**
+ * Wrong login for an email without an account: counted like recordFailedLogin, without the
+ * unlock email; throws ACCOUNT_LOCKED at the same threshold
+ */
+export async function recordUnknownLogin(email: string, client: ClientInfo = {}): Promise<void> {
+  const now = new Date()
+  const failedLoginCount = (unknownEmails.get(email)?.failedLoginCount ?? 0) + 1
+  const lockedUntil = failedLoginCount >= LOCKOUT_THRESHOLD
+    ? new Date(now.getTime() + lockoutMs(failedLoginCount))
+    : null
+
+  unknownEmails.delete(email)
+  unknownEmails.set(email, { failedLoginCount, lastFailedLoginAt: now, lockedUntil })
+  if (unknownEmails.size > MAX_UNKNOWN_EMAILS) {
+    unknownEmails.delete(unknownEmails.keys().next().value!)
+  }
+
+  await auditLog({
+    action: AuditActions.LOGIN_FAILED,
+    resource: AuditResources.USER,
+    metadata: { email, unknownUser: true, failedAttempts: failedLoginCount, ...(lockedUntil && { lockedUntil }) },
+    ...client,
+  })
+
+  if (lockedUntil) throw accountLocked(lockedUntil)
+}
+
+/**
+ * Correct password: forget earlier failures
+ */
+export async function clearFailedLogins(user: LoginGuardState): Promise<void> {
+  if (user.failedLoginCount === 0 && !user.lockedUntil) return
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+  })
+}
+
+async function sendUnlockEmail(user: LoginGuardState, lockedUntil: Date): Promise<void> {
+  const token = generateRandomToken()
+  const expiresAt = new Date(Date.now() + UNLOCK_TOKEN_EXPIRES_HOURS * 60 * 60 * 1000)
+
+  // Only the latest link works
+  await prisma.accountUnlockToken.deleteMany({ where: { userId: user.id } })
+  await prisma.accountUnlockToken.create({ data: { userId: user.id, token, expiresAt } })
+
+  await sendAccountLockedEmail(user.email, token, lockedUntil)
+}
+
+async function unlock(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+    }),
+    prisma.accountUnlockToken.deleteMany({ where: { userId } }),
+  ])
+}
+
+/**
+ * Unlock through the link from the lock email
+ */
+export async function unlockWithToken(token: string, client: ClientInfo = {}): Promise<boolean> {
+  const record = await prisma.accountUnlockToken.findUnique({ where: { token } })
+  if (!record || record.expiresAt < new Date()) {
+    return false
+  }
+
+  await unlock(record.userId)
+  await auditLog({
+    userId: record.userId,
+    action: AuditActions.ACCOUNT_UNLOCK,
+    resource: AuditResources.USER,
+    resourceId: record.userId,
+    metadata: { via: 'email' },
+    ...client,
+  })
+  return true
+}
+
+/**
+ * ADMIN: unlock an account and reset its failed login counter
+ */
+export async function unlockAccount(userId: string, adminId: string, client: ClientInfo = {}): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { failedLoginCount: true, lockedUntil: true },
+  })
+  if (!user) {
+    throw AppError.notFound('User not found')
+  }
+  if (user.failedLoginCount === 0 && !user.lockedUntil) {
+    throw AppError.badRequest('Account is not locked')
+  }
+
+  await unlock(userId)
+  await auditLog({
+    userId: adminId,
+    action: AuditActions.ACCOUNT_UNLOCK,
+    resource: AuditResources.USER,
+    resourceId: userId,
+    metadata: { via: 'admin' },
+    ...client,
+  })
+}
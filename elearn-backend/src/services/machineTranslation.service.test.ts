@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { machineTranslate, setTranslationProvider, stubTranslationProvider, type TranslationProvider } from './machineTranslation.service.js'
+import { getTranslationSheet, saveTranslations } from './translations.service.js'
+
+type Stamp = { entityType: string; entityId: string; field: string; lang: string; sourceHash: string; machine: boolean }
+
+const db = vi.hoisted(() => ({
+  material: {} as Record<string, unknown>,
+  stamps: [] as Stamp[],
+}))
+
+function matches(stamp: Stamp, where: Record<string, any>) {
+  return Object.entries(where).every(([key, value]) =>
+    value && typeof value === 'object' ? !value.notIn.includes(stamp[key as keyof Stamp]) : stamp[key as keyof Stamp] === value
+  )
+}
+
+// In-memory stand-in for one material and the translation stamps
+vi.mock('../db.js', () => {
+  const prisma = {
+    material: {
+      findUnique: async () => ({ ...db.material }),
+      update: async ({ data }: any) => Object.assign(db.material, data),
+    },
+    translationStamp: {
+      findMany: async ({ where }: any) => db.stamps.filter((s) => matches(s, where)),
+      deleteMany: async ({ where }: any) => {
+        db.stamps = db.stamps.filter((s) => !matches(s, where))
+      },
+      upsert: async ({ where, create, update }: any) => {
+        const existing = db.stamps.find((s) => matches(s, where.entityType_entityId_field_lang))
+        if (existing) Object.assign(existing, update)
+        else db.stamps.push({ machine: false, ...create })
+      },
+    },
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+  }
+  return { prisma }
+})
+vi.mock('./ai.service.js', () => ({ aiService: { isAvailable: () => false } }))
+vi.mock('./revisions.service.js', () => ({ ensureBaseline: vi.fn(), recordRevision: vi.fn() }))
+
+const states = async () =>
+  Object.fromEntries((await getTranslationSheet('material', 'material1')).fields.map((f) => [f.field, f.states]))
+
+beforeEach(() => {
+  setTranslationProvider(stubTranslationProvider)
+  db.material = {
+    id: 'material1',
+    topicId: 'topic1',
+    title: 'Joins',
+    titleJson: { EN: 'Joins', UA: "З'єднання" },
+    content: 'Inner and outer joins',
+    contentJson: { EN: 'Inner and outer joins' },
+  }
+  db.stamps = []
+})
+
+describe('machine translation', () => {
+  it('fills only the missing languages from the EN text', async () => {
+    const result = await machineTranslate('material', 'material1', 'editor1')
+
+    expect(result).toMatchObject({ provider: 'stub', count: 3 })
+    expect(db.material.titleJson).toEqual({ EN: 'Joins', UA: "З'єднання", PL: '[PL] Joins' })
+    expect(db.material.contentJson).toEqual({
+      EN: 'Inner and outer joins',
+      UA: '[UA] Inner and outer joins',
+      PL: '[PL] Inner and outer joins',
+    })
+  })
+
+  it('flags machine translations for review until they are accepted', async () => {
+    await machineTranslate('material', 'material1', 'editor1')
+    expect(await states()).toEqual({
+      titleJson: { UA: 'translated', PL: 'machine', EN: 'translated' },
+      contentJson: { UA: 'machine', PL: 'machine', EN: 'translated' },
+    })
+
+    await saveTranslations('material', 'material1', 'PL', {}, ['titleJson', 'contentJson'])
+    expect((await states()).contentJson).toEqual({ UA: 'machine', PL: 'translated', EN: 'translated' })
+  })
+
+  it('marks reviewed translations stale when the EN text changes', async () => {
+    await machineTranslate('material', 'material1', 'editor1')
+    await saveTranslations('material', 'material1', 'UA', {}, ['contentJson'])
+
+    await saveTranslations('material', 'material1', 'EN', { contentJson: 'Inner, outer and cross joins' })
+    expect(db.material.content).toBe('Inner, outer and cross joins')
+    // Unreviewed machine text stays flagged as such
+    expect((await states()).contentJson).toEqual({ UA: 'stale', PL: 'machine', EN: 'translated' })
+
+    await saveTranslations('material', 'material1', 'UA', { contentJson: 'Внутрішні, зовнішні та перехресні' })
+    expect((await states()).contentJson.UA).toBe('translated')
+  })
+
+  it('leaves a field alone when the provider returns nothing for it', async () => {
+    const provider: TranslationProvider = {
+      name: 'partial',
+      isAvailable: () => true,
+      translate: async (texts, _from, to) => texts.map((text) => (to === 'PL' ? '' : `[${to}] ${text}`)),
+    }
+    setTranslationProvider(provider)
+
+    const result = await machineTranslate('material', 'material1', 'editor1')
+    expect(result.count).toBe(1)
+    expect(db.material.titleJson).not.toHaveProperty('PL')
+    expect((await states()).titleJson.PL).toBe('missing')
+  })
+
+  it('refuses to run without an available provider', async () => {
+    setTranslationProvider({ ...stubTranslationProvider, isAvailable: () => false })
+    await expect(machineTranslate('material', 'material1', 'editor1')).rejects.toThrow('not configured')
+  })
+})
@@ -0,0 +1,166 @@
+// src/services/machineTranslation.service.ts
+/**
+ * Machine translation of content
+ *
+ * Fills the missing languages of a topic, a material or a whole quiz (its questions, options
+ * and explanations) through a TranslationProvider. Each field is translated from its EN text,
+ * or from another filled language when there is no EN. The results go straight into the
+ * *Json fields as draft translations flagged "machine-translated, needs review" until an
+ * editor accepts, edits or rejects them (see translations.service). Existing translations are
+ * never overwritten.
+ *
+ * The provider is Gemini (through AiService) unless TRANSLATION_PROVIDER=stub, which selects
+ * a local provider that only tags the text with the target language; tests and offline
+ * development can also install their own with setTranslationProvider().
+ */
+import type { Lang, TranslationEntity } from '@prisma/client'
+import { prisma } from '../db.js'
+import { AppError } from '../utils/AppError.js'
+import { logger } from '../utils/logger.js'
+import { aiService } from './ai.service.js'
+import { ensureBaseline, recordRevision } from './revisions.service.js'
+import {
+  getTranslationSheet,
+  markMachineTranslated,
+  saveTranslations,
+  SOURCE_LANG,
+  TRANSLATION_LANGS,
+} from './translations.service.js'
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+export interface TranslationProvider {
+  readonly name: string
+  isAvailable(): boolean
+  /** One translation per text, in the same order */
+  translate(texts: string[], from: Lang, to: Lang): Promise<string[]>
+}
+
+export const geminiTranslationProvider: TranslationProvider = {
+  name: 'gemini',
+  isAvailable: () => aiService.isAvailable(),
+  translate: (texts, from, to) => aiService.translateTexts(texts, from, to),
+}
+
+export const stubTranslationProvider: TranslationProvider = {
+  name: 'stub',
+  isAvailable: () => true,
+  translate: async (texts, _from, to) => texts.map((text) => `[${to}] ${text}`),
+}
+
+let provider: TranslationProvider =
+  process.env.TRANSLATION_PROVIDER === 'stub' ? stubTranslationProvider : geminiTranslationProvider
+
+export function getTranslationProvider(): TranslationProvider {
+  return provider
+}
+
+export function setTranslationProvider(next: TranslationProvider): void {
+  provider = next
+}
+
+// ============================================
+// TRANSLATION
+// ============================================
+
+export type MachineTranslatableEntity = Extract<TranslationEntity, 'topic' | 'material' | 'quiz'>
+
+type Job = { entity: TranslationEntity; id: string; field: string; from: Lang; to: Lang; text: string }
+
+// Keep each provider request well below model limits
+const BATCH_MAX_TEXTS = 40
+const BATCH_MAX_CHARS = 20000
+
+function batches(jobs: Job[]): Job[][] {
+  const out: Job[][] = []
+  let current: Job[] = []
+  let chars = 0
+  for (const job of jobs) {
+    if (current.length > 0 && (current.length >= BATCH_MAX_TEXTS || chars + job.text.length > BATCH_MAX_CHARS)) {
+      out.push(current)
+      current = []
+      chars = 0
+    }
+    current.push(job)
+    chars += job.text.length
+  }
+  if (current.length > 0) out.push(current)
+  return out
+}
+
+/**
+ * Machine-translate the missing languages of an entity (a quiz with all its questions).
+ * Returns what was translated, per entity.
+ */
+export async function machineTranslate(
+  entity: MachineTranslatableEntity,
+  id: string,
+  authorId: string,
+  langs: Lang[] = TRANSLATION_LANGS
+) {
+  if (!provider.isAvailable()) {
+    throw AppError.internal('Machine translation is not configured. Please contact administrator.')
+  }
+
+  const sheets = [await getTranslationSheet(entity, id)]
+  if (entity === 'quiz') {
+    const questions = await prisma.question.findMany({ where: { quizId: id }, select: { id: true }, orderBy: { id: 'asc' } })
+    for (const q of questions) sheets.push(await getTranslationSheet('question', q.id))
+  }
+
+  const jobs: Job[] = []
+  for (const sheet of sheets) {
+    for (const { field, values } of sheet.fields) {
+      for (const to of langs) {
+        if (values[to]) continue
+        const from = values[SOURCE_LANG] ? SOURCE_LANG : TRANSLATION_LANGS.find((l) => l !== to && values[l])
+        if (!from) continue
+        jobs.push({ entity: sheet.entity, id: sheet.id, field, from, to, text: values[from]! })
+      }
+    }
+  }
+
+  // One provider call per language pair and batch
+  const pairs = new Map<string, Job[]>()
+  for (const job of jobs) {
+    const key = `${job.from}>${job.to}`
+    pairs.set(key, [...(pairs.get(key) ?? []), job])
+  }
+  const translated = new Map<Job, string>()
+  for (const pairJobs of pairs.values()) {
+    for (const batch of batches(pairJobs)) {
+      const texts = await provider.translate(batch.map((j) => j.text), batch[0].from, batch[0].to)
+      batch.forEach((job, i) => {
+        if (texts[i]?.trim()) translated.set(job, texts[i])
+      })
+    }
+  }
+
+  // Write per entity: one revision each, then flag the new texts for review
+  const results = []
+  for (const sheet of sheets) {
+    const done = jobs.filter((j) => j.entity === sheet.entity && j.id === sheet.id && translated.has(j))
+    if (done.length === 0) continue
+
+    if (sheet.entity !== 'topic') await ensureBaseline(sheet.entity, sheet.id)
+    for (const lang of TRANSLATION_LANGS) {
+      const values = Object.fromEntries(done.filter((j) => j.to === lang).map((j) => [j.field, translated.get(j)!]))
+      if (Object.keys(values).length > 0) await saveTranslations(sheet.entity, sheet.id, lang, values)
+    }
+    if (sheet.entity !== 'topic') await recordRevision(sheet.entity, sheet.id, authorId)
+    await markMachineTranslated(sheet.entity, sheet.id, done.map((j) => ({ field: j.field, lang: j.to })))
+
+    results.push({
+      entity: sheet.entity,
+      id: sheet.id,
+      title: sheet.title,
+      fields: done.map((j) => ({ field: j.field, from: j.from, lang: j.to })),
+    })
+  }
+
+  const count = results.reduce((sum, r) => sum + r.fields.length, 0)
+  logger.info(`Machine-translated ${count} fields of ${entity} ${id} with ${provider.name}`)
+  return { provider: provider.name, count, items: results }
+}
@@ -1,6 +1,7 @@
 // src/services/materials.service.ts
 import { prisma } from '../db.js'
 import type { Prisma } from '@prisma/client'
+import { ensureBaseline, recordRevision } from './revisions.service.js'
 
 export interface MaterialLocalizationDTO {
   type?: string
@@ -17,11 +18,12 @@ export interface MaterialLocalizationDTO {
 
 /**
  * Updates a material with localized content
- * Handles fallbacks and JSON fields construction
+ * Handles fallbacks and JSON fields construction; each save is recorded as a revision
  */
 export async function updateMaterialWithLocalization(
   id: string,
-  dto: MaterialLocalizationDTO
+  dto: MaterialLocalizationDTO,
+  authorId?: string
 ) {
   const updateData: Prisma.MaterialUpdateInput = {}
 
@@ -68,10 +70,12 @@ export async function updateMaterialWithLocalization(
   Object.keys(contentJson).forEach(k => (contentJson as any)[k] === '' && delete (contentJson as any)[k])
   updateData.contentJson = contentJson
 
+  await ensureBaseline('material', id)
   const updated = await prisma.material.update({
     where: { id },
     data: updateData
   })
+  await recordRevision('material', id, authorId)
 
   return updated
 }
\ No newline at end of file
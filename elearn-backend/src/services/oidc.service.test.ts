@@ -0,0 +1,217 @@
+import crypto from 'crypto'
+import express from 'express'
+import jwt from 'jsonwebtoken'
+import type { Server } from 'http'
+import type { AddressInfo } from 'net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { completeOidcSignIn, registerOidcProvider, startOidcSignIn } from './oidc.service.js'
+
+type Row = Record<string, any>
+
+const db = vi.hoisted(() => ({
+  requests: [] as Row[],
+  users: [] as Row[],
+  identities: [] as Row[],
+  completeSignIn: vi.fn(),
+}))
+
+const userSelect = (user: Row) => ({ totpEnabledAt: null, deletedAt: null, xp: 0, ...user })
+
+// In-memory stand-in for the auth requests, users and linked identities
+vi.mock('../db.js', () => {
+  const prisma = {
+    oidcAuthRequest: {
+      deleteMany: async () => ({ count: 0 }),
+      create: async ({ data }: any) => db.requests.push(data),
+      delete: async ({ where }: any) => {
+        const request = db.requests.find((r) => r.state === where.state)
+        if (!request) throw new Error('Record to delete does not exist')
+        db.requests = db.requests.filter((r) => r !== request)
+        return request
+      },
+    },
+    user: {
+      findUnique: async ({ where }: any) => {
+        const user = db.users.find((u) => u.email === where.email)
+        return user ? userSelect(user) : null
+      },
+      create: async ({ data }: any) => {
+        const { identities, ...fields } = data
+        const user = { id: `user${db.users.length + 1}`, ...fields }
+        db.users.push(user)
+        db.identities.push({ userId: user.id, ...identities.create })
+        return userSelect(user)
+      },
+    },
+    userIdentity: {
+      findUnique: async ({ where, select }: any) => {
+        const identity = where.provider_subject
+          ? db.identities.find((i) => i.provider === where.provider_subject.provider && i.subject === where.provider_subject.subject)
+          : db.identities.find((i) => i.userId === where.userId_provider.userId && i.provider === where.userId_provider.provider)
+        if (!identity) return null
+        return select?.user ? { id: identity.id, user: userSelect(db.users.find((u) => u.id === identity.userId)!) } : identity
+      },
+      create: async ({ data }: any) => db.identities.push({ id: `identity${db.identities.length + 1}`, ...data }),
+      update: async () => ({}),
+    },
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+  }
+  return { prisma }
+})
+vi.mock('./auth.service.js', () => ({ completeSignIn: db.completeSignIn }))
+vi.mock('./invites.service.js', () => ({ resolveProviderInvite: async () => null, markInviteUsed: vi.fn() }))
+vi.mock('./audit.service.js', () => ({
+  auditLog: vi.fn(),
+  AuditActions: { CREATE: 'CREATE', IDENTITY_LINK: 'IDENTITY_LINK' },
+  AuditResources: { USER: 'USER' },
+}))
+
+const CLIENT_ID = 'elearn'
+const BROWSER_KEY = 'browser-key'
+
+/**
+ * Minimal OIDC issuer: discovery, JWKS and a token endpoint that checks PKCE. authorize()
+ * plays the user consenting on the provider's page and returns what the redirect carries.
+ */
+function mockIssuer() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const grants = new Map<string, { claims: Row; nonce: string; codeChallenge: string }>()
+  const app = express()
+  const server: Server = app.listen(0)
+  const issuer = () => `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer: issuer(),
+      authorization_endpoint: `${issuer()}/authorize`,
+      token_endpoint: `${issuer()}/token`,
+      jwks_uri: `${issuer()}/jwks`,
+    })
+  })
+  app.get('/jwks', (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'mock-key', use: 'sig', alg: 'RS256' }] })
+  })
+  app.post('/token', express.urlencoded({ extended: false }), (req, res) => {
+    const grant = grants.get(req.body.code)
+    grants.delete(req.body.code)
+    const challenge = crypto.createHash('sha256').update(String(req.body.code_verifier)).digest('base64url')
+    if (!grant || req.body.client_id !== CLIENT_ID || challenge !== grant.codeChallenge) {
+      res.status(400).json({ error: 'invalid_grant' })
+      return
+    }
+    const idToken = jwt.sign({ nonce: grant.nonce, ...grant.claims }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'mock-key',
+      issuer: issuer(),
+      audience: CLIENT_ID,
+      expiresIn: '5m',
+    })
+    res.json({ access_token: 'access', token_type: 'Bearer', id_token: idToken })
+  })
+
+  return {
+    server,
+    issuer,
+    authorize(authorizationUrl: string, claims: Row) {
+      const params = new URL(authorizationUrl).searchParams
+      const code = crypto.randomBytes(16).toString('hex')
+      grants.set(code, { claims, nonce: params.get('nonce')!, codeChallenge: params.get('code_challenge')! })
+      return { code, state: params.get('state')! }
+    },
+  }
+}
+
+let issuer: ReturnType<typeof mockIssuer>
+
+beforeAll(async () => {
+  issuer = mockIssuer()
+  await new Promise((resolve) => issuer.server.once('listening', resolve))
+  registerOidcProvider({ id: 'mock', name: 'Mock SSO', issuer: issuer.issuer(), clientId: CLIENT_ID, scopes: 'openid email profile' })
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => issuer.server.close(resolve))
+})
+
+beforeEach(() => {
+  db.requests = []
+  db.users = []
+  db.identities = []
+  db.completeSignIn.mockReset()
+  db.completeSignIn.mockImplementation(async (user: Row) => ({ user, tokens: { accessToken: 'a', refreshToken: 'r' } }))
+})
+
+async function signIn(claims: Row, userId?: string) {
+  const { url } = await startOidcSignIn('mock', BROWSER_KEY, userId)
+  const { code, state } = issuer.authorize(url, claims)
+  return completeOidcSignIn('mock', { code, state, browserKey: BROWSER_KEY })
+}
+
+describe('OIDC sign-in', () => {
+  it('sends the user to the issuer with state, nonce and a PKCE challenge', async () => {
+    const { url } = await startOidcSignIn('mock', BROWSER_KEY)
+    const params = new URL(url).searchParams
+
+    expect(url.startsWith(`${issuer.issuer()}/authorize?`)).toBe(true)
+    expect(params.get('client_id')).toBe(CLIENT_ID)
+    expect(params.get('code_challenge_method')).toBe('S256')
+    expect(db.requests).toEqual([expect.objectContaining({ state: params.get('state'), nonce: params.get('nonce') })])
+  })
+
+  it('creates a verified account on first sign-in and finds it by identity afterwards', async () => {
+    const claims = { sub: 'subject-1', email: 'Ann@Example.com', email_verified: true, name: 'Ann' }
+    const first = await signIn(claims)
+
+    expect(first.mode).toBe('login')
+    expect(db.users).toEqual([expect.objectContaining({ email: 'ann@example.com', name: 'Ann', emailVerified: true, password: null })])
+    expect(db.identities).toEqual([expect.objectContaining({ userId: 'user1', provider: 'mock', subject: 'subject-1' })])
+
+    await signIn({ ...claims, email_verified: false })
+    expect(db.users).toHaveLength(1)
+    expect(db.completeSignIn).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'user1' }), undefined, undefined, { provider: 'mock' })
+  })
+
+  it('consumes the state once and checks the browser key', async () => {
+    const { url } = await startOidcSignIn('mock', BROWSER_KEY)
+    const { code, state } = issuer.authorize(url, { sub: 'subject-1', email: 'ann@example.com', email_verified: true })
+
+    await expect(completeOidcSignIn('mock', { code, state, browserKey: 'other-browser' })).rejects.toMatchObject({ statusCode: 401 })
+    // The failed attempt used the request up
+    await expect(completeOidcSignIn('mock', { code, state, browserKey: BROWSER_KEY })).rejects.toThrow('Sign-in request expired')
+    await expect(completeOidcSignIn('mock', { code, state: 'forged-state', browserKey: BROWSER_KEY })).rejects.toThrow('Sign-in request expired')
+    expect(db.users).toHaveLength(0)
+  })
+
+  it('rejects an ID token issued for another nonce', async () => {
+    const { url } = await startOidcSignIn('mock', BROWSER_KEY)
+    const { code, state } = issuer.authorize(url, { sub: 'subject-1', email: 'ann@example.com', email_verified: true, nonce: 'replayed-nonce' })
+
+    await expect(completeOidcSignIn('mock', { code, state, browserKey: BROWSER_KEY })).rejects.toThrow('Invalid ID token')
+    expect(db.users).toHaveLength(0)
+  })
+
+  it('links to an existing account by email only when the issuer verified the email', async () => {
+    db.users.push({ id: 'existing', name: 'Ann', email: 'ann@example.com', role: 'STUDENT', emailVerified: true })
+
+    for (const emailVerified of [false, 'false', undefined]) {
+      await expect(signIn({ sub: 'subject-1', email: 'ann@example.com', email_verified: emailVerified })).rejects.toMatchObject({
+        statusCode: 400,
+        message: expect.stringContaining('did not confirm your email'),
+      })
+    }
+    expect(db.identities).toHaveLength(0)
+    expect(db.completeSignIn).not.toHaveBeenCalled()
+
+    await signIn({ sub: 'subject-1', email: 'ann@example.com', email_verified: 'true' })
+    expect(db.identities).toEqual([expect.objectContaining({ userId: 'existing', subject: 'subject-1' })])
+  })
+
+  it('links the identity to the signed-in user who started the flow', async () => {
+    db.users.push({ id: 'existing', name: 'Ann', email: 'ann@example.com', role: 'STUDENT', emailVerified: true })
+
+    const result = await signIn({ sub: 'subject-2', email: 'ann.work@example.com', email_verified: false }, 'existing')
+    expect(result).toEqual({ mode: 'link', provider: 'mock' })
+    expect(db.identities).toEqual([expect.objectContaining({ userId: 'existing', subject: 'subject-2' })])
+    expect(db.completeSignIn).not.toHaveBeenCalled()
+  })
+})
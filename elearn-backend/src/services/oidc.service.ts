@@ -0,0 +1,448 @@
+// src/services/oidc.service.ts
+/**
+ * Sign-in with OpenID Connect providers
+ *
+ * Google, Microsoft and one generic OIDC issuer are configured from env (a provider is enabled
+ * once its client id is set); others can be installed with registerOidcProvider(). The flow is
+ * the authorization code flow with PKCE, driven by the SPA:
+ *
+ *   1. start: the frontend sends a random browser key (kept in sessionStorage) and gets the
+ *      provider's authorization URL. state, nonce and the PKCE verifier are stored in
+ *      OidcAuthRequest for 10 minutes.
+ *   2. The provider redirects to FRONTEND_URL/auth/callback/:provider, which posts code, state
+ *      and the browser key back. The request is consumed once, the code is exchanged and the
+ *      ID token verified against the provider's JWKS (issuer, audience, expiry, nonce).
+ *
+ * Signing in finds the user by the linked identity, or links the identity to the user with the
+ * same email when the provider reports it verified, or creates a new user (emailVerified, no
+ * password). 2FA still applies afterwards. When the request was started by a signed-in user,
+ * the identity is linked to them instead. A local mock OIDC server works as the generic issuer.
+ */
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import { prisma } from '../db.js'
+import { AppError } from '../utils/AppError.js'
+import { getEnv } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { auditLog, AuditActions, AuditResources } from './audit.service.js'
+import { completeSignIn, type LoginResult } from './auth.service.js'
+import { markInviteUsed, resolveProviderInvite } from './invites.service.js'
+
+const FRONTEND_URL = getEnv('FRONTEND_URL', 'http://localhost:5173')
+const AUTH_REQUEST_TTL_MS = 10 * 60 * 1000
+const METADATA_TTL_MS = 60 * 60 * 1000
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512']
+
+interface ClientInfo {
+  ip?: string
+  userAgent?: string
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+export interface OidcProvider {
+  /** Used in URLs and stored on UserIdentity */
+  readonly id: string
+  /** Shown on the sign-in button */
+  readonly name: string
+  readonly issuer: string
+  readonly clientId: string
+  readonly clientSecret?: string
+  readonly scopes: string
+}
+
+const providers = new Map<string, OidcProvider>()
+
+export function registerOidcProvider(provider: OidcProvider): void {
+  providers.set(provider.id, provider)
+}
+
+function registerFromEnv(id: string, name: string, issuer: string | undefined, prefix: string): void {
+  const clientId = process.env[`${prefix}_CLIENT_ID`]
+  if (!clientId || !issuer) return
+  registerOidcProvider({
+    id,
+    name,
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env[`${prefix}_CLIENT_SECRET`] || undefined,
+    scopes: process.env[`${prefix}_SCOPES`] || 'openid email profile',
+  })
+}
+
+registerFromEnv('google', 'Google', 'https://accounts.google.com', 'GOOGLE')
+registerFromEnv('microsoft', 'Microsoft', `https://login.microsoftonline.com/${process.env.MICROSOFT_TENANT || 'common'}/v2.0`, 'MICROSOFT')
+registerFromEnv('oidc', process.env.OIDC_NAME || 'SSO', process.env.OIDC_ISSUER, 'OIDC')
+
+export function listOidcProviders(): { id: string; name: string }[] {
+  return [...providers.values()].map(({ id, name }) => ({ id, name }))
+}
+
+function getProvider(id: string): OidcProvider {
+  const provider = providers.get(id)
+  if (!provider) {
+    throw AppError.notFound('Sign-in provider not found')
+  }
+  return provider
+}
+
+function redirectUri(provider: OidcProvider): string {
+  return `${FRONTEND_URL}/auth/callback/${provider.id}`
+}
+
+// ============================================
+// DISCOVERY & KEYS
+// ============================================
+
+type ProviderMetadata = {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+}
+
+type Jwk = crypto.JsonWebKey & { kid?: string; use?: string }
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>()
+const jwksCache = new Map<string, Jwk[]>()
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(url, init)
+  } catch (err) {
+    logger.error(`OIDC request to ${url} failed`, err as Error)
+    throw AppError.internal('Sign-in provider is unavailable')
+  }
+  const body = await response.json().catch(() => null)
+  if (!response.ok || !body) {
+    logger.warn(`OIDC request to ${url} failed: HTTP ${response.status} ${JSON.stringify(body)}`)
+    throw AppError.unauthorized('Sign-in provider rejected the request')
+  }
+  return body as T
+}
+
+async function getMetadata(provider: OidcProvider): Promise<ProviderMetadata> {
+  const cached = metadataCache.get(provider.id)
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) return cached.metadata
+
+  const metadata = await fetchJson<ProviderMetadata>(`${provider.issuer}/.well-known/openid-configuration`)
+  metadataCache.set(provider.id, { metadata, fetchedAt: Date.now() })
+  return metadata
+}
+
+/**
+ * Public key for an ID token; the key set is refetched when the kid is unknown (key rotation)
+ */
+async function getSigningKey(jwksUri: string, kid?: string): Promise<crypto.KeyObject> {
+  const find = (keys: Jwk[] | undefined) => keys?.find((k) => (!kid || k.kid === kid) && k.use !== 'enc')
+
+  let jwk = find(jwksCache.get(jwksUri))
+  if (!jwk) {
+    const { keys } = await fetchJson<{ keys: Jwk[] }>(jwksUri)
+    jwksCache.set(jwksUri, keys)
+    jwk = find(keys)
+  }
+  if (!jwk) {
+    throw AppError.unauthorized('Invalid ID token')
+  }
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' })
+}
+
+type IdTokenClaims = jwt.JwtPayload & {
+  sub: string
+  nonce?: string
+  email?: string
+  email_verified?: boolean | string
+  name?: string
+  tid?: string
+}
+
+async function verifyIdToken(provider: OidcProvider, metadata: ProviderMetadata, idToken: string, nonce: string): Promise<IdTokenClaims> {
+  const decoded = jwt.decode(idToken, { complete: true })
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw AppError.unauthorized('Invalid ID token')
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid)
+  let claims: IdTokenClaims
+  try {
+    claims = jwt.verify(idToken, key, { algorithms: ID_TOKEN_ALGORITHMS, audience: provider.clientId, clockTolerance: 60 }) as IdTokenClaims
+  } catch (err) {
+    logger.warn(`OIDC ${provider.id}: ID token rejected: ${(err as Error).message}`)
+    throw AppError.unauthorized('Invalid ID token')
+  }
+
+  // Multi-tenant Microsoft metadata has "{tenantid}" in the issuer
+  const issuer = metadata.issuer.replace('{tenantid}', claims.tid ?? '')
+  if (claims.iss !== issuer || claims.nonce !== nonce || !claims.sub) {
+    throw AppError.unauthorized('Invalid ID token')
+  }
+  return claims
+}
+
+// ============================================
+// FLOW
+// ============================================
+
+function randomUrlToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url')
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex')
+}
+
+/**
+ * Start signing in (or linking, when userId is given): returns the provider's authorization URL
+ */
+export async function startOidcSignIn(providerId: string, browserKey: string, userId?: string): Promise<{ url: string }> {
+  const provider = getProvider(providerId)
+  const metadata = await getMetadata(provider)
+
+  await prisma.oidcAuthRequest.deleteMany({ where: { expiresAt: { lt: new Date() } } })
+
+  const state = randomUrlToken()
+  const nonce = randomUrlToken()
+  const codeVerifier = randomUrlToken()
+  await prisma.oidcAuthRequest.create({
+    data: {
+      state,
+      provider: provider.id,
+      codeVerifier,
+      nonce,
+      browserKeyHash: sha256(browserKey),
+      userId,
+      expiresAt: new Date(Date.now() + AUTH_REQUEST_TTL_MS),
+    },
+  })
+
+  const url = new URL(metadata.authorization_endpoint)
+  const params = {
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: redirectUri(provider),
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value)
+  return { url: url.toString() }
+}
+
+export type OidcCallbackResult =
+  | { mode: 'login'; result: LoginResult }
+  | { mode: 'link'; provider: string }
+
+/**
+ * Finish the flow from the provider's redirect: sign in, or link the identity for a
+ * request started by a signed-in user
+ */
+export async function completeOidcSignIn(
+  providerId: string,
+  input: { code: string; state: string; browserKey: string },
+  client: ClientInfo = {}
+): Promise<OidcCallbackResult> {
+  const provider = getProvider(providerId)
+
+  // Consumed on first use, so a state can't be replayed
+  const request = await prisma.oidcAuthRequest.delete({ where: { state: input.state } }).catch(() => null)
+  if (
+    !request ||
+    request.provider !== provider.id ||
+    request.expiresAt < new Date() ||
+    request.browserKeyHash !== sha256(input.browserKey)
+  ) {
+    throw AppError.unauthorized('Sign-in request expired, please try again')
+  }
+
+  const metadata = await getMetadata(provider)
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: input.code,
+      redirect_uri: redirectUri(provider),
+      client_id: provider.clientId,
+      code_verifier: request.codeVerifier,
+      ...(provider.clientSecret ? { client_secret: provider.clientSecret } : {}),
+    }),
+  })
+  if (!tokens.id_token) {
+    throw AppError.unauthorized('Sign-in provider did not return an ID token')
+  }
+  const claims = await verifyIdToken(provider, metadata, tokens.id_token, request.nonce)
+
+  if (request.userId) {
+    await linkIdentity(request.userId, provider, claims, client)
+    return { mode: 'link', provider: provider.id }
+  }
+  return { mode: 'login', result: await signInWithIdentity(provider, claims, client) }
+}
+
+function verifiedEmail(claims: IdTokenClaims): string | null {
+  const verified = claims.email_verified === true || claims.email_verified === 'true'
+  return verified && claims.email ? claims.email.toLowerCase().trim() : null
+}
+
+const SIGN_IN_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  xp: true,
+  emailVerified: true,
+  totpEnabledAt: true,
+  deletedAt: true,
+} as const
+
+async function signInWithIdentity(provider: OidcProvider, claims: IdTokenClaims, client: ClientInfo): Promise<LoginResult> {
+  const identity = await prisma.userIdentity.findUnique({
+    where: { provider_subject: { provider: provider.id, subject: claims.sub } },
+    select: { id: true, user: { select: SIGN_IN_SELECT } },
+  })
+
+  let user = identity?.user ?? null
+  if (identity) {
+    await prisma.userIdentity.update({ where: { id: identity.id }, data: { lastLoginAt: new Date(), email: claims.email ?? undefined } })
+  } else {
+    const email = verifiedEmail(claims)
+    if (!email) {
+      throw AppError.badRequest(`${provider.name} did not confirm your email address, so it can't be used to sign in`)
+    }
+
+    user = await prisma.user.findUnique({ where: { email }, select: SIGN_IN_SELECT })
+    if (user) {
+      // An unverified account may belong to someone who registered with this email without owning it
+      if (!user.emailVerified) {
+        throw AppError.conflict(`An account with this email already exists. Sign in with your password and link ${provider.name} in your profile.`)
+      }
+      await prisma.userIdentity.create({
+        data: { userId: user.id, provider: provider.id, subject: claims.sub, email, lastLoginAt: new Date() },
+      })
+      await auditLog({
+        userId: user.id,
+        action: AuditActions.IDENTITY_LINK,
+        resource: AuditResources.USER,
+        resourceId: user.id,
+        metadata: { provider: provider.id, email, byEmail: true },
+        ...client,
+      })
+    } else {
+      // The provider verified the email, so a pending invite for it is enough (required with INVITE_ONLY)
+      const invite = await resolveProviderInvite(email)
+      user = await prisma.$transaction(async (tx) => {
+        const created = await tx.user.create({
+          data: {
+            name: claims.name?.trim() || email.split('@')[0],
+            email,
+            password: null,
+            role: invite?.role ?? 'STUDENT',
+            isPremium: true,
+            emailVerified: true,
+            identities: { create: { provider: provider.id, subject: claims.sub, email, lastLoginAt: new Date() } },
+          },
+          select: SIGN_IN_SELECT,
+        })
+        if (invite) {
+          await markInviteUsed(invite.id, tx)
+        }
+        return created
+      })
+      await auditLog({
+        userId: user.id,
+        action: AuditActions.CREATE,
+        resource: AuditResources.USER,
+        resourceId: user.id,
+        metadata: { email, provider: provider.id, ...(invite && { inviteId: invite.id }) },
+        ...client,
+      })
+    }
+  }
+
+  if (!user || user.deletedAt) {
+    throw AppError.unauthorized('Account not found')
+  }
+  return completeSignIn(user, client.userAgent, client.ip, { provider: provider.id })
+}
+
+async function linkIdentity(userId: string, provider: OidcProvider, claims: IdTokenClaims, client: ClientInfo): Promise<void> {
+  const existing = await prisma.userIdentity.findUnique({
+    where: { provider_subject: { provider: provider.id, subject: claims.sub } },
+  })
+  if (existing) {
+    if (existing.userId === userId) return
+    throw AppError.conflict(`This ${provider.name} account is already linked to another user`)
+  }
+  const sameProvider = await prisma.userIdentity.findUnique({ where: { userId_provider: { userId, provider: provider.id } } })
+  if (sameProvider) {
+    throw AppError.conflict(`Another ${provider.name} account is already linked; unlink it first`)
+  }
+
+  await prisma.userIdentity.create({
+    data: { userId, provider: provider.id, subject: claims.sub, email: claims.email ?? null },
+  })
+  await auditLog({
+    userId,
+    action: AuditActions.IDENTITY_LINK,
+    resource: AuditResources.USER,
+    resourceId: userId,
+    metadata: { provider: provider.id, email: claims.email },
+    ...client,
+  })
+}
+
+// ============================================
+// LINKED IDENTITIES
+// ============================================
+
+export async function listIdentities(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      password: true,
+      identities: {
+        select: { provider: true, email: true, createdAt: true, lastLoginAt: true },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  })
+  if (!user) {
+    throw AppError.notFound('User not found')
+  }
+  return {
+    hasPassword: !!user.password,
+    identities: user.identities.map((identity) => ({
+      ...identity,
+      name: providers.get(identity.provider)?.name ?? identity.provider,
+    })),
+  }
+}
+
+/**
+ * Unlink a provider; the last one can't be removed while the account has no password
+ */
+export async function unlinkIdentity(userId: string, providerId: string, client: ClientInfo = {}): Promise<void> {
+  const { hasPassword, identities } = await listIdentities(userId)
+  if (!identities.some((identity) => identity.provider === providerId)) {
+    throw AppError.notFound('Sign-in provider is not linked')
+  }
+  if (!hasPassword && identities.length === 1) {
+    throw AppError.badRequest('Set a password before unlinking your only sign-in provider')
+  }
+
+  await prisma.userIdentity.delete({ where: { userId_provider: { userId, provider: providerId } } })
+  await auditLog({
+    userId,
+    action: AuditActions.IDENTITY_UNLINK,
+    resource: AuditResources.USER,
+    resourceId: userId,
+    metadata: { provider: providerId },
+    ...client,
+  })
+}
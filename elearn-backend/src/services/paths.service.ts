@@ -0,0 +1,282 @@
+// src/services/paths.service.ts
+/**
+ * Learning paths
+ *
+ * A root topic is a course: its own materials and quizzes come first, then each subtopic in
+ * `position` order. Students enroll in the root topic and unlock subtopics by satisfying
+ * TopicPrerequisite rules (pass a quiz / complete another topic). A topic is completed when
+ * every published material in it was viewed and every published quiz was passed.
+ */
+import { prisma } from '../db.js'
+import type { Lang, PathStepStatus } from '../shared'
+import type { Prisma } from '@prisma/client'
+import { AppError } from '../utils/AppError.js'
+import { getTranslation } from '../utils/i18n.js'
+import { getPassingPoints } from '../utils/quizScoring.js'
+
+type TranslationsJson = Record<string, string> | null
+
+/** Unmet prerequisite that keeps a step locked */
+type PathLock = { type: 'quiz' | 'topic'; id: string; title: string }
+
+const ORDER: Prisma.TopicOrderByWithRelationInput[] = [{ position: 'asc' }, { createdAt: 'asc' }]
+const CONTENT_ORDER = [{ position: 'asc' as const }, { createdAt: 'asc' as const }]
+const PUBLISHED_CONTENT = { status: 'Published' as const, deletedAt: null }
+
+const stepSelect = {
+  id: true,
+  slug: true,
+  name: true,
+  nameJson: true,
+  parentId: true,
+  materials: {
+    where: PUBLISHED_CONTENT,
+    orderBy: CONTENT_ORDER,
+    select: { id: true, title: true, titleJson: true },
+  },
+  quizzes: {
+    where: PUBLISHED_CONTENT,
+    orderBy: CONTENT_ORDER,
+    select: { id: true, title: true, titleJson: true },
+  },
+  prerequisites: {
+    select: {
+      requiredQuiz: { select: { id: true, title: true, titleJson: true } },
+      requiredTopic: { select: { id: true, name: true, nameJson: true } },
+    },
+  },
+} satisfies Prisma.TopicSelect
+
+type StepTopic = Prisma.TopicGetPayload<{ select: typeof stepSelect }>
+
+/**
+ * Quizzes the user has passed at least once (the attempt's own total decides, like XP)
+ */
+async function loadPassedQuizzes(userId: string, quizIds: string[]): Promise<Set<string>> {
+  if (quizIds.length === 0) return new Set()
+  const attempts = await prisma.quizAttempt.findMany({
+    where: { userId, quizId: { in: quizIds } },
+    select: { quizId: true, score: true, total: true },
+  })
+  return new Set(
+    attempts.filter((a) => a.total > 0 && a.score >= getPassingPoints(a.total)).map((a) => a.quizId)
+  )
+}
+
+/**
+ * Topics whose every material was viewed and every quiz passed
+ */
+function collectCompletedTopics(
+  topics: Array<Pick<StepTopic, 'id' | 'materials' | 'quizzes'>>,
+  viewed: Set<string>,
+  passed: Set<string>
+): Set<string> {
+  const completed = new Set<string>()
+  for (const topic of topics) {
+    if (topic.materials.every((m) => viewed.has(m.id)) && topic.quizzes.every((q) => passed.has(q.id))) {
+      completed.add(topic.id)
+    }
+  }
+  return completed
+}
+
+/**
+ * Build path progress for a published root topic
+ */
+async function buildPathProgress(userId: string, root: { id: string; slug: string }, lang: Lang) {
+  const [topics, enrollment] = await Promise.all([
+    prisma.topic.findMany({
+      where: { OR: [{ id: root.id }, { parentId: root.id }], status: 'Published' },
+      orderBy: ORDER,
+      select: stepSelect,
+    }),
+    prisma.enrollment.findUnique({ where: { userId_topicId: { userId, topicId: root.id } } }),
+  ])
+  // The root goes first, its subtopics follow in position order
+  const steps = [
+    ...topics.filter((t) => t.id === root.id),
+    ...topics.filter((t) => t.id !== root.id),
+  ]
+
+  // Prerequisites may point at topics of another course
+  const pathTopicIds = new Set(steps.map((t) => t.id))
+  const externalTopicIds = [...new Set(
+    steps.flatMap((t) => t.prerequisites.map((p) => p.requiredTopic?.id))
+      .filter((id): id is string => !!id && !pathTopicIds.has(id))
+  )]
+  const externalTopics = externalTopicIds.length > 0
+    ? await prisma.topic.findMany({
+        where: { id: { in: externalTopicIds } },
+        select: { id: true, materials: stepSelect.materials, quizzes: stepSelect.quizzes },
+      })
+    : []
+  const allTopics = [...steps, ...externalTopics]
+
+  const materialIds = allTopics.flatMap((t) => t.materials.map((m) => m.id))
+  const quizIds = [...new Set([
+    ...allTopics.flatMap((t) => t.quizzes.map((q) => q.id)),
+    ...steps.flatMap((t) => t.prerequisites.map((p) => p.requiredQuiz?.id)).filter((id): id is string => !!id),
+  ])]
+
+  const [views, passed] = await Promise.all([
+    materialIds.length > 0
+      ? prisma.materialView.findMany({ where: { userId, materialId: { in: materialIds } }, select: { materialId: true } })
+      : Promise.resolve([]),
+    loadPassedQuizzes(userId, quizIds),
+  ])
+  const viewed = new Set(views.map((v) => v.materialId))
+  const completedTopics = collectCompletedTopics(allTopics, viewed, passed)
+
+  const lockedByTopic = new Map<string, PathLock[]>()
+  let completedItems = 0
+  let totalItems = 0
+  // Assigned inside the map callback, so keep the declared type from being narrowed to null
+  let next = null as { topicId: string; topicSlug: string; type: 'material' | 'quiz'; id: string; title: string } | null
+
+  const pathSteps = steps.map((topic) => {
+    const unmet = topic.prerequisites.flatMap((p): PathLock[] => {
+      if (p.requiredQuiz && !passed.has(p.requiredQuiz.id)) {
+        const { id, title, titleJson } = p.requiredQuiz
+        return [{ type: 'quiz', id, title: getTranslation(titleJson as TranslationsJson, lang, title) }]
+      }
+      if (p.requiredTopic && !completedTopics.has(p.requiredTopic.id)) {
+        const { id, name, nameJson } = p.requiredTopic
+        return [{ type: 'topic', id, title: getTranslation(nameJson as TranslationsJson, lang, name) }]
+      }
+      return []
+    })
+    // Subtopics of a locked topic stay locked until the parent unlocks
+    const lockedBy = [...(topic.parentId ? lockedByTopic.get(topic.parentId) ?? [] : []), ...unmet]
+    lockedByTopic.set(topic.id, lockedBy)
+    const locked = lockedBy.length > 0
+
+    const items = [
+      ...topic.materials.map((m) => ({
+        type: 'material' as const,
+        id: m.id,
+        title: getTranslation(m.titleJson as TranslationsJson, lang, m.title),
+        done: viewed.has(m.id),
+      })),
+      ...topic.quizzes.map((q) => ({
+        type: 'quiz' as const,
+        id: q.id,
+        title: getTranslation(q.titleJson as TranslationsJson, lang, q.title),
+        done: passed.has(q.id),
+      })),
+    ].map(({ done, ...item }) => ({
+      ...item,
+      status: (done ? 'completed' : locked ? 'locked' : 'unlocked') as PathStepStatus,
+    }))
+
+    const done = items.filter((i) => i.status === 'completed').length
+    completedItems += done
+    totalItems += items.length
+
+    const pending = locked ? undefined : items.find((i) => i.status !== 'completed')
+    if (!next && pending) {
+      next = { topicId: topic.id, topicSlug: topic.slug, type: pending.type, id: pending.id, title: pending.title }
+    }
+
+    // Work already done before a rule was added still counts; an empty locked topic does not
+    const isCompleted = completedTopics.has(topic.id) && (items.length > 0 || !locked)
+    const status: PathStepStatus = isCompleted ? 'completed' : locked ? 'locked' : 'unlocked'
+    return {
+      topicId: topic.id,
+      slug: topic.slug,
+      name: getTranslation(topic.nameJson as TranslationsJson, lang, topic.name),
+      parentId: topic.parentId,
+      status,
+      progress: items.length > 0 ? Math.round((done / items.length) * 100) : status === 'completed' ? 100 : 0,
+      lockedBy,
+      items,
+    }
+  })
+
+  const rootStep = pathSteps[0]
+  return {
+    path: { id: root.id, slug: root.slug, name: rootStep?.name ?? root.slug },
+    enrolled: !!enrollment,
+    enrolledAt: enrollment?.enrolledAt.toISOString() ?? null,
+    progress: totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0,
+    completedItems,
+    totalItems,
+    steps: pathSteps,
+    next,
+  }
+}
+
+async function findPathRoot(slug: string) {
+  const root = await prisma.topic.findFirst({
+    where: { slug, parentId: null, status: 'Published' },
+    select: { id: true, slug: true },
+  })
+  if (!root) throw AppError.notFound('Learning path not found')
+  return root
+}
+
+/**
+ * Steps of a course with locked/unlocked/completed state and the next item to continue with
+ */
+export async function getPathProgress(userId: string, slug: string, lang: Lang = 'EN') {
+  return buildPathProgress(userId, await findPathRoot(slug), lang)
+}
+
+/**
+ * Courses the user is enrolled in, most recent first
+ */
+export async function getEnrollments(userId: string, lang: Lang = 'EN') {
+  const enrollments = await prisma.enrollment.findMany({
+    where: { userId, topic: { status: 'Published' } },
+    orderBy: { enrolledAt: 'desc' },
+    select: { topic: { select: { id: true, slug: true } } },
+  })
+
+  return Promise.all(enrollments.map(async ({ topic }) => {
+    const { path, enrolledAt, progress, completedItems, totalItems, next } = await buildPathProgress(userId, topic, lang)
+    return { path, enrolledAt, progress, completedItems, totalItems, next }
+  }))
+}
+
+export async function enroll(userId: string, slug: string) {
+  const root = await findPathRoot(slug)
+  const enrollment = await prisma.enrollment.upsert({
+    where: { userId_topicId: { userId, topicId: root.id } },
+    create: { userId, topicId: root.id },
+    update: {},
+  })
+  return { enrolled: true, enrolledAt: enrollment.enrolledAt.toISOString() }
+}
+
+export async function unenroll(userId: string, slug: string) {
+  const root = await findPathRoot(slug)
+  await prisma.enrollment.deleteMany({ where: { userId, topicId: root.id } })
+  return { enrolled: false, enrolledAt: null }
+}
+
+/**
+ * Whether every published material of the course was viewed and every published quiz passed
+ */
+export async function isPathCompleted(userId: string, root: { id: string; slug: string }): Promise<boolean> {
+  const { completedItems, totalItems } = await buildPathProgress(userId, root, 'EN')
+  return totalItems > 0 && completedItems === totalItems
+}
+
+/**
+ * Throw 403 if the topic is a locked step of its course
+ */
+export async function assertTopicUnlocked(userId: string, topicId: string): Promise<void> {
+  const topic = await prisma.topic.findUnique({
+    where: { id: topicId },
+    select: { id: true, slug: true, status: true, parent: { select: { id: true, slug: true, status: true } } },
+  })
+  const root = topic?.parent ?? topic
+  if (!topic || !root || root.status !== 'Published') return
+
+  const { steps } = await buildPathProgress(userId, root, 'EN')
+  const step = steps.find((s) => s.topicId === topic.id)
+  if (step?.status === 'locked') {
+    throw new AppError('Topic is locked by its prerequisites', 403, 'TOPIC_LOCKED', {
+      lockedBy: step.lockedBy.map(({ type, id }) => ({ type, id })),
+    })
+  }
+}
@@ -1,6 +1,7 @@
 // src/services/progress.service.ts
 import { prisma } from '../db.js'
 import { logger } from '../utils/logger.js'
+import { recordGoalProgress, type GoalProgress } from './goals.service.js'
 
 /**
  * Helper to get normalized UTC date (00:00:00.000 Z)
@@ -73,7 +74,8 @@ export async function getMaterialViewStats(materialIds: string[]): Promise<Recor
 }
 
 /**
- * Оновлює щоденну активність користувача
+ * Оновлює щоденну активність користувача і просуває щоденні цілі.
+ * `goalEvents` - додаткові лічильники для цілей, яких немає в UserActivity (напр. 100% у квізі)
  */
 export async function updateDailyActivity(
   userId: string,
@@ -81,8 +83,10 @@ export async function updateDailyActivity(
     timeSpent?: number
     quizAttempts?: number
     materialsViewed?: number
+    reviewsCompleted?: number
     goalsCompleted?: number
-  }
+  },
+  goalEvents: GoalProgress = {}
 ): Promise<void> {
   const today = getUtcToday() // Use UTC normalized date
   
@@ -98,17 +102,32 @@ export async function updateDailyActivity(
       timeSpent: updates.timeSpent ?? 0,
       quizAttempts: updates.quizAttempts ?? 0,
       materialsViewed: updates.materialsViewed ?? 0,
+      reviewsCompleted: updates.reviewsCompleted ?? 0,
       goalsCompleted: updates.goalsCompleted ?? 0,
     },
     update: {
       timeSpent: updates.timeSpent ? { increment: updates.timeSpent } : undefined,
       quizAttempts: updates.quizAttempts ? { increment: updates.quizAttempts } : undefined,
       materialsViewed: updates.materialsViewed ? { increment: updates.materialsViewed } : undefined,
+      reviewsCompleted: updates.reviewsCompleted ? { increment: updates.reviewsCompleted } : undefined,
       goalsCompleted: updates.goalsCompleted ? { increment: updates.goalsCompleted } : undefined,
     },
   })
   
   logger.info(`[updateDailyActivity] Successfully updated activity for user ${userId}`)
+
+  // Goal tracking must never break the event that triggered it
+  try {
+    await recordGoalProgress(userId, {
+      quizzesCompleted: updates.quizAttempts,
+      materialsViewed: updates.materialsViewed,
+      timeSpent: updates.timeSpent,
+      reviewsCompleted: updates.reviewsCompleted,
+      ...goalEvents,
+    })
+  } catch (error) {
+    logger.error(`[updateDailyActivity] Failed to update daily goals for user ${userId}`, error)
+  }
 }
 
 /**
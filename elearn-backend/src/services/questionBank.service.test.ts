@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createRng } from '../utils/random.js'
+import { drawQuizQuestions } from './questionBank.service.js'
+
+type BankQuestion = { id: string; quizId: string; difficulty: string; tags: string[] }
+type Rule = { id: string; quizId: string; count: number; difficulty: string | null; tags: string[] }
+
+const db = vi.hoisted(() => ({
+  questions: [] as BankQuestion[],
+  rules: [] as Rule[],
+}))
+
+// In-memory stand-in for the two queries the draw makes
+vi.mock('../db.js', () => ({
+  prisma: {
+    quizDrawRule: {
+      findMany: async ({ where }: any) => db.rules.filter((rule) => rule.quizId === where.quizId),
+    },
+    question: {
+      findMany: async ({ where }: any) =>
+        db.questions
+          .filter((q) => (where.quizId ? q.quizId === where.quizId : true))
+          .filter((q) => (where.difficulty ? q.difficulty === where.difficulty : true))
+          .filter((q) => (where.tags ? where.tags.hasEvery.every((tag: string) => q.tags.includes(tag)) : true))
+          .filter((q) => (where.id ? !where.id.notIn.includes(q.id) : true))
+          .sort((a, b) => a.id.localeCompare(b.id))
+          .map((q) => ({ id: q.id })),
+    },
+  },
+}))
+
+function bank(count: number, quizId: string, difficulty: string, tags: string[], prefix: string): BankQuestion[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `${prefix}${String(i).padStart(2, '0')}`, quizId, difficulty, tags }))
+}
+
+beforeEach(() => {
+  db.questions = [
+    ...bank(10, 'pool', 'Easy', ['sql'], 'easy-sql-'),
+    ...bank(10, 'pool', 'Hard', ['sql', 'joins'], 'hard-sql-'),
+    ...bank(3, 'fixed', 'Medium', [], 'fixed-'),
+  ]
+  db.rules = []
+})
+
+describe('drawQuizQuestions', () => {
+  it('issues every question of a fixed quiz in stored order', async () => {
+    expect(await drawQuizQuestions('fixed', createRng(1))).toEqual(['fixed-00', 'fixed-01', 'fixed-02'])
+  })
+
+  it('draws the rule counts from matching bank questions without repeats', async () => {
+    db.rules = [
+      { id: 'r1', quizId: 'drawn', count: 3, difficulty: 'Easy', tags: ['sql'] },
+      { id: 'r2', quizId: 'drawn', count: 2, difficulty: null, tags: ['joins'] },
+    ]
+    const ids = await drawQuizQuestions('drawn', createRng(99))
+    expect(ids).toHaveLength(5)
+    expect(new Set(ids).size).toBe(5)
+    expect(ids.filter((id) => id.startsWith('easy-sql-'))).toHaveLength(3)
+    expect(ids.filter((id) => id.startsWith('hard-sql-'))).toHaveLength(2)
+  })
+
+  it('reproduces the same draw from the same seed', async () => {
+    db.rules = [{ id: 'r1', quizId: 'drawn', count: 5, difficulty: null, tags: ['sql'] }]
+    const first = await drawQuizQuestions('drawn', createRng(2024))
+    const second = await drawQuizQuestions('drawn', createRng(2024))
+    const other = await drawQuizQuestions('drawn', createRng(2025))
+    expect(second).toEqual(first)
+    expect(other).not.toEqual(first)
+  })
+
+  it('issues what the bank has when a rule asks for more', async () => {
+    db.rules = [{ id: 'r1', quizId: 'drawn', count: 50, difficulty: 'Hard', tags: [] }]
+    expect(await drawQuizQuestions('drawn', createRng(3))).toHaveLength(10)
+  })
+})
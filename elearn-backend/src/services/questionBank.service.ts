@@ -0,0 +1,176 @@
+// src/services/questionBank.service.ts
+/**
+ * Question bank
+ *
+ * Every question is reusable through its `tags` and `difficulty`. A quiz either owns a fixed
+ * list of questions or is defined by QuizDrawRule rows ("5 Easy tagged sql"): each new quiz
+ * token then draws fresh random questions from the whole bank, including draft quizzes that
+ * editors keep as question pools.
+ */
+import { prisma } from '../db.js'
+import type { Lang } from '../shared'
+import type { Difficulty, Prisma } from '@prisma/client'
+import { AppError } from '../utils/AppError.js'
+import { getTranslation } from '../utils/i18n.js'
+import { logger } from '../utils/logger.js'
+import { shuffle, type Rng } from '../utils/random.js'
+
+type TranslationsJson = Record<string, string> | null
+
+export interface DrawRuleInput {
+  count: number
+  difficulty?: Difficulty | null
+  tags: string[]
+}
+
+function ruleWhere(rule: DrawRuleInput): Prisma.QuestionWhereInput {
+  return {
+    quiz: { deletedAt: null },
+    ...(rule.difficulty && { difficulty: rule.difficulty }),
+    ...(rule.tags.length > 0 && { tags: { hasEvery: rule.tags } }),
+  }
+}
+
+/**
+ * Draw rules of a quiz with the number of bank questions each one can pick from
+ */
+export async function getDrawRules(quizId: string) {
+  const rules = await prisma.quizDrawRule.findMany({
+    where: { quizId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  })
+  return Promise.all(rules.map(async (rule) => ({
+    id: rule.id,
+    count: rule.count,
+    difficulty: rule.difficulty,
+    tags: rule.tags,
+    available: await prisma.question.count({ where: ruleWhere(rule) }),
+  })))
+}
+
+/**
+ * Replace all draw rules of a quiz; an empty list turns it back into a fixed quiz
+ */
+export async function replaceDrawRules(quizId: string, rules: DrawRuleInput[]) {
+  const quiz = await prisma.quiz.findUnique({ where: { id: quizId }, select: { id: true } })
+  if (!quiz) throw AppError.notFound('Quiz not found')
+
+  await prisma.$transaction([
+    prisma.quizDrawRule.deleteMany({ where: { quizId } }),
+    prisma.quizDrawRule.createMany({
+      data: rules.map((rule, position) => ({
+        quizId,
+        count: rule.count,
+        difficulty: rule.difficulty ?? null,
+        tags: rule.tags,
+        position,
+      })),
+    }),
+  ])
+  return getDrawRules(quizId)
+}
+
+/**
+ * Ids of the questions a new quiz token issues.
+ * Fixed quizzes issue all their questions in stored order; rule-based quizzes draw per rule
+ * without repeats and return the draw in random order.
+ */
+export async function drawQuizQuestions(quizId: string, rng: Rng): Promise<string[]> {
+  const rules = await prisma.quizDrawRule.findMany({
+    where: { quizId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  })
+
+  if (rules.length === 0) {
+    const questions = await prisma.question.findMany({ where: { quizId }, orderBy: { id: 'asc' }, select: { id: true } })
+    return questions.map((q) => q.id)
+  }
+
+  const picked = new Set<string>()
+  for (const rule of rules) {
+    const candidates = await prisma.question.findMany({
+      where: { ...ruleWhere(rule), id: { notIn: [...picked] } },
+      orderBy: { id: 'asc' },
+      select: { id: true },
+    })
+    const drawn = shuffle(candidates.map((c) => c.id), rng).slice(0, rule.count)
+    if (drawn.length < rule.count) {
+      logger.warn(`[drawQuizQuestions] Quiz ${quizId}: rule ${rule.id} wants ${rule.count} questions, bank has ${drawn.length}`)
+    }
+    drawn.forEach((id) => picked.add(id))
+  }
+  return shuffle([...picked], rng)
+}
+
+/**
+ * Browse the bank by tags (all must match), difficulty and text
+ */
+export async function searchBank(options: {
+  tags: string[]
+  difficulty?: Difficulty
+  search?: string
+  page: number
+  limit: number
+  lang?: Lang
+}) {
+  const where: Prisma.QuestionWhereInput = {
+    ...ruleWhere({ count: 0, difficulty: options.difficulty, tags: options.tags }),
+    ...(options.search && { text: { contains: options.search, mode: 'insensitive' } }),
+  }
+
+  const [questions, total] = await Promise.all([
+    prisma.question.findMany({
+      where,
+      orderBy: { id: 'asc' },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit,
+      select: {
+        id: true,
+        text: true,
+        textJson: true,
+        type: true,
+        difficulty: true,
+        tags: true,
+        quiz: { select: { id: true, title: true, titleJson: true, status: true } },
+      },
+    }),
+    prisma.question.count({ where }),
+  ])
+
+  const lang = options.lang ?? 'EN'
+  return {
+    data: questions.map((q) => ({
+      id: q.id,
+      text: getTranslation(q.textJson as TranslationsJson, lang, q.text),
+      type: q.type,
+      difficulty: q.difficulty,
+      tags: q.tags,
+      quiz: {
+        id: q.quiz.id,
+        title: getTranslation(q.quiz.titleJson as TranslationsJson, lang, q.quiz.title),
+        status: q.quiz.status,
+      },
+    })),
+    pagination: {
+      page: options.page,
+      limit: options.limit,
+      total,
+      totalPages: Math.ceil(total / options.limit),
+    },
+  }
+}
+
+/**
+ * Tags in use with their question counts, most used first
+ */
+export async function getBankTags() {
+  const rows = await prisma.$queryRaw<{ tag: string; count: bigint }[]>`
+    SELECT t.tag, COUNT(*) AS count
+    FROM "Question" q
+    JOIN "Quiz" z ON z."id" = q."quizId" AND z."deletedAt" IS NULL
+    CROSS JOIN LATERAL unnest(q."tags") AS t(tag)
+    GROUP BY t.tag
+    ORDER BY count DESC, t.tag ASC
+  `
+  return rows.map((r) => ({ tag: r.tag, count: Number(r.count) }))
+}
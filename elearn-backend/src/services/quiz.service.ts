@@ -2,35 +2,47 @@
 import { prisma } from '../db.js'
 import jwt from 'jsonwebtoken'
 import { getJwtSecret } from '../utils/env.js'
-import type { Lang } from '../shared'
+import type { Lang, Role } from '../shared'
+import { AppError } from '../utils/AppError.js'
 import { logger } from '../utils/logger.js'
 import { updateDailyActivity } from './progress.service.js'
-import type { Quiz, Question, Option, QuizAttempt, Prisma } from '@prisma/client'
+import { recordReviewMistakes } from './review.service.js'
+import { HIGH_SCORE_RATIO } from './goals.service.js'
+import { evaluateAchievements } from './achievements.service.js'
+import { issueCertificateIfCompleted } from './certificates.service.js'
+import { drawQuizQuestions } from './questionBank.service.js'
+import { isGroupTeacherOf } from './groups.service.js'
+import { scoreAnswer, getExpectedAnswer, isAnswered, roundPoints, getPassingPoints, type SubmitAnswer, type ScorableQuestion } from '../utils/quizScoring.js'
+import { createRng, createSeed, deriveSeed, shuffle } from '../utils/random.js'
+import type { Prisma, Quiz } from '@prisma/client'
 
-// Type definitions for quiz-related data
-interface QuizWithQuestions extends Quiz {
-  questions: (Question & { options: Pick<Option, 'id' | 'text' | 'textJson'>[] })[]
-}
-
-interface QuizWithAnswers extends Quiz {
-  questions: (Question & { options: Pick<Option, 'id' | 'correct'>[] })[]
-}
-
-interface SubmitAnswer {
-  questionId: string
-  optionId?: string
+// Payload of the quiz token: the questions it issued and the seed of their option order
+interface QuizTokenPayload {
+  quizId: string
+  userId: string
+  expiresAt: number
+  questionIds?: string[] // Missing in tokens issued before the question bank
+  seed?: number
 }
 
 interface QuizSubmitResult {
+  attemptId: string
   correct: number
   total: number
   score: number
   passed: boolean
   xpEarned: number
-  correctMap: Record<string, string>
+  reviewAvailable: boolean
+  // Empty while the review policy keeps the answers hidden
+  correctMap: Record<string, string | string[]>
   solutions: Record<string, string>
+  credits: Record<string, number>
+  achievementsUnlocked: string[]
+  certificateIssued: string | null
 }
 
+type ReviewPolicyFields = Pick<Quiz, 'mode' | 'reviewPolicy' | 'reviewAt'>
+
 /**
  * Helper to get localized value from JSON field
  * Searches for requested language, then falls back to UA, then EN, then any available
@@ -50,31 +62,52 @@ function getLocalized(jsonField: unknown, lang: Lang, fallback: string): string
 }
 
 /**
- * Get quiz by ID with localization and token generation
+ * Whether attempts of the quiz may show correct answers and explanations to the student.
+ * Practice quizzes always do; exam quizzes follow their review policy.
+ */
+export function isReviewAvailable(quiz: ReviewPolicyFields, now = new Date()): boolean {
+  if (quiz.mode !== 'EXAM') return true
+  switch (quiz.reviewPolicy) {
+    case 'AFTER_SUBMIT':
+      return true
+    case 'AFTER_DATE':
+      return !!quiz.reviewAt && quiz.reviewAt <= now
+    default:
+      return false
+  }
+}
+
+/**
+ * Get quiz by ID with localization and token generation.
+ * The questions (fixed or drawn from the bank) and the option order are chosen here and
+ * bound to the token, so the submit is scored against exactly what was issued.
  */
 export async function getQuizWithToken(quizId: string, userId: string, lang?: Lang) {
-  const quiz = await prisma.quiz.findUnique({
-    where: { id: quizId },
+  const quiz = await prisma.quiz.findUnique({ where: { id: quizId } })
+
+  if (!quiz) return null
+
+  const seed = createSeed()
+  const questionIds = await drawQuizQuestions(quiz.id, createRng(seed))
+  const found = await prisma.question.findMany({
+    where: { id: { in: questionIds } },
     include: {
-      questions: { 
-        include: { 
-          options: { 
-            select: { 
-              id: true, 
-              text: true, 
-              textJson: true,
-            } 
-          } 
-        } 
-      },
+      options: {
+        orderBy: { id: 'asc' },
+        select: {
+          id: true,
+          text: true,
+          textJson: true,
+        }
+      }
     },
   })
-
-  if (!quiz) return null
+  const byId = new Map(found.map((q) => [q.id, q]))
+  const questions = questionIds.map((id) => byId.get(id)).filter((q): q is (typeof found)[number] => !!q)
 
   // Generate quiz token
   const expiresAt = Date.now() + (quiz.durationSec * 1000) + (120 * 1000)
-  const quizPayload = { quizId: quiz.id, userId, expiresAt }
+  const quizPayload: QuizTokenPayload = { quizId: quiz.id, userId, expiresAt, questionIds: questions.map((q) => q.id), seed }
   const expiresInSeconds = (quiz.durationSec + 120) * 60
   const quizToken = jwt.sign(quizPayload, getJwtSecret(), { 
     expiresIn: expiresInSeconds
@@ -87,16 +120,20 @@ export async function getQuizWithToken(quizId: string, userId: string, lang?: La
     id: quiz.id,
     title: shouldLocalize ? getLocalized(quiz.titleJson, lang, quiz.title) : quiz.title,
     durationSec: quiz.durationSec,
+    mode: quiz.mode,
     topicId: quiz.topicId,
     status: quiz.status,
     token: quizToken,
-    questions: quiz.questions.map((q) => ({
+    questions: questions.map((q) => ({
       id: q.id,
       text: shouldLocalize ? getLocalized(q.textJson, lang, q.text) : q.text,
-      explanation: shouldLocalize ? getLocalized(q.explanationJson, lang, q.explanation || '') : q.explanation,
+      // Exam explanations only come with the review
+      explanation: quiz.mode === 'EXAM' ? undefined : shouldLocalize ? getLocalized(q.explanationJson, lang, q.explanation || '') : q.explanation,
       difficulty: q.difficulty,
       tags: q.tags,
-      options: q.options.map((o) => ({
+      type: q.type,
+      // True/false keeps its natural order
+      options: (q.type === 'truefalse' ? q.options : shuffle(q.options, createRng(deriveSeed(seed, q.id)))).map((o) => ({
         id: o.id,
         text: shouldLocalize ? getLocalized(o.textJson, lang, o.text) : o.text,
       }))
@@ -117,9 +154,9 @@ export async function submitQuizAttempt(
   logger.info(`[submitQuizAttempt] Starting quiz submission for user ${userId}, quiz ${quizId}`)
   
   // Verify quiz token
-  let quizPayload: any
+  let quizPayload: QuizTokenPayload
   try {
-    quizPayload = jwt.verify(token, getJwtSecret()) as any
+    quizPayload = jwt.verify(token, getJwtSecret()) as QuizTokenPayload
   } catch (e) {
     logger.error('Quiz token verification failed:', e)
     throw new Error('Invalid or expired quiz token')
@@ -136,105 +173,117 @@ export async function submitQuizAttempt(
     throw new Error('Quiz token mismatch')
   }
 
-  // Fetch quiz with correct answers
-  const quiz = await prisma.quiz.findUnique({
-    where: { id: quizId },
+  const quiz = await prisma.quiz.findUnique({ where: { id: quizId } })
+
+  if (!quiz) {
+    throw new Error('Quiz not found')
+  }
+
+  // Score only the questions this token issued (answers to anything else are ignored)
+  const issuedIds = Array.isArray(quizPayload.questionIds) ? quizPayload.questionIds : null
+  const found: ScorableQuestion[] = await prisma.question.findMany({
+    where: issuedIds ? { id: { in: issuedIds } } : { quizId },
+    orderBy: { id: 'asc' },
     include: {
-      questions: {
-        include: {
-          options: {
-            select: {
-              id: true,
-              correct: true // Correct field name as per schema
-            }
-          }
+      options: {
+        select: {
+          id: true,
+          correct: true // Correct field name as per schema
         }
       }
     }
   })
-
-  if (!quiz) {
-    throw new Error('Quiz not found')
-  }
+  const byId = new Map(found.map((q) => [q.id, q]))
+  const questions = issuedIds
+    ? issuedIds.map((id) => byId.get(id)).filter((q): q is ScorableQuestion => !!q)
+    : found
 
   // Filter valid answers AND deduplicate by questionId
-  const uniqueAnswersMap = new Map<string, { questionId: string; optionId?: string }>();
+  const uniqueAnswersMap = new Map<string, SubmitAnswer>();
   
   answers.forEach((a) => {
-    if (typeof a.optionId === 'string' && a.optionId.length > 0) {
+    if (isAnswered(a)) {
       uniqueAnswersMap.set(a.questionId, a);
     }
   });
 
-  const validAnswers = Array.from(uniqueAnswersMap.values());
-
   // Build correctMap and explanationMap
-  const correctMap: Record<string, string> = {}
+  const correctMap: Record<string, string | string[]> = {}
   const explanationMap: Record<string, string> = {}
   
-  for (const q of quiz.questions) {
-    const correctOption = q.options.find((o) => o.correct)
-    if (correctOption) {
-      correctMap[q.id] = correctOption.id
+  for (const q of questions) {
+    const expected = getExpectedAnswer(q)
+    if (expected !== undefined) {
+      correctMap[q.id] = expected
     }
     
     // Get localized explanation if available
-    const questionWithExplanation = q as Question & { explanationJson?: unknown }
-    if (lang && questionWithExplanation.explanationJson) {
-      explanationMap[q.id] = getLocalized(questionWithExplanation.explanationJson, lang, q.explanation || '')
+    if (lang && q.explanationJson) {
+      explanationMap[q.id] = getLocalized(q.explanationJson, lang, q.explanation || '')
     } else if (q.explanation) {
       explanationMap[q.id] = q.explanation
     }
   }
 
   // Calculate score
-  let correctCount = 0
-  const rows = validAnswers.map((a) => {
-    const ok = correctMap[a.questionId] === a.optionId!
-    if (ok) correctCount += 1
-    return {
+  let points = 0
+  const credits: Record<string, number> = {}
+  const rows: Prisma.AnswerCreateManyInput[] = []
+  for (const q of questions) {
+    const a = uniqueAnswersMap.get(q.id)
+    if (!a) continue
+    const scored = scoreAnswer(q, a)
+    points += scored.credit
+    credits[q.id] = scored.credit
+    rows.push({
       userId,
-      questionId: a.questionId,
-      optionId: a.optionId!,
-      isCorrect: ok, // 'isCorrect' is correct for the Answer model (vs 'correct' for Option)
-    }
-  })
+      questionId: q.id,
+      optionId: scored.optionId,
+      selectedOptionIds: scored.selectedOptionIds,
+      value: scored.value,
+      isCorrect: scored.credit === 1, // 'isCorrect' is correct for the Answer model (vs 'correct' for Option)
+      credit: scored.credit,
+      timeSpentMs: a.timeSpentMs ?? null,
+    })
+  }
+  const correctCount = roundPoints(points)
 
   // Pass threshold: user must score at least 80% to pass and earn XP
-  const PASS_THRESHOLD = 0.80
-  const scorePercentage = quiz.questions.length > 0 ? correctCount / quiz.questions.length : 0
-  const passed = scorePercentage >= PASS_THRESHOLD
+  const passingPoints = getPassingPoints(questions.length)
+  const scorePercentage = questions.length > 0 ? correctCount / questions.length : 0
+  const passed = questions.length > 0 && correctCount >= passingPoints
   
   // Check if user already has a successful attempt for this quiz (prevent XP farming)
   const previousSuccessfulAttempt = await prisma.quizAttempt.findFirst({
     where: {
       userId,
       quizId,
-      score: { gte: Math.ceil(quiz.questions.length * PASS_THRESHOLD) }
+      score: { gte: passingPoints }
     }
   })
   
   // Award XP only if passed AND this is the first successful attempt
   const isFirstSuccess = passed && !previousSuccessfulAttempt
-  const xpEarned = isFirstSuccess ? correctCount * 10 : 0
+  const xpEarned = isFirstSuccess ? Math.round(correctCount * 10) : 0
   
   if (passed && previousSuccessfulAttempt) {
     logger.info(`[submitQuizAttempt] User ${userId} already passed quiz ${quizId} before. No XP awarded.`)
   }
 
   // Save attempt in transaction
-  await prisma.$transaction(async (tx) => {
+  const attemptId = await prisma.$transaction(async (tx) => {
     const attempt = await tx.quizAttempt.create({
       data: {
         userId,
         quizId: quiz.id,
         score: correctCount,
-        total: quiz.questions.length,
+        total: questions.length,
         xpEarned,
+        questionIds: questions.map((q) => q.id),
       },
     })
     
-    logger.info(`[submitQuizAttempt] Created quiz attempt ${attempt.id} for user ${userId}, quiz ${quizId}. Score: ${correctCount}/${quiz.questions.length}, Passed: ${passed}`)
+    logger.info(`[submitQuizAttempt] Created quiz attempt ${attempt.id} for user ${userId}, quiz ${quizId}. Score: ${correctCount}/${questions.length}, Passed: ${passed}`)
 
     if (rows.length) {
       const rowsWithAttempt = rows.map((r) => ({ ...r, attemptId: attempt.id }))
@@ -248,21 +297,43 @@ export async function submitQuizAttempt(
         data: { xp: { increment: xpEarned } },
       })
     }
+    return attempt.id
   })
 
+  const reviewAvailable = isReviewAvailable(quiz)
+
+  // Missed questions go to the spaced-repetition review queue; grading a card reveals its answer,
+  // so exam mistakes wait until the review policy allows it (picked up by the backfill then)
+  if (reviewAvailable) {
+    await recordReviewMistakes(userId, credits)
+  }
+
   // Log quiz attempt in daily activity
   logger.info(`[submitQuizAttempt] Updating daily activity for user ${userId}`)
-  await updateDailyActivity(userId, { quizAttempts: 1 })
+  await updateDailyActivity(userId, { quizAttempts: 1 }, {
+    questionsAnswered: rows.length,
+    perfectQuizzes: questions.length > 0 && correctCount >= questions.length ? 1 : 0,
+    highScoreQuizzes: scorePercentage >= HIGH_SCORE_RATIO ? 1 : 0,
+  })
   logger.info(`[submitQuizAttempt] Quiz attempt successfully recorded for user ${userId}, passed: ${passed}`)
 
+  const achievementsUnlocked = await evaluateAchievements(userId)
+  // Passing the last quiz of a course completes it
+  const certificateIssued = passed ? await issueCertificateIfCompleted(userId, quiz.topicId, lang) : null
+
   return {
+    attemptId,
     correct: correctCount,
-    total: quiz.questions.length,
+    total: questions.length,
     score: Math.round(scorePercentage * 100),
     passed,
     xpEarned,
-    correctMap,
-    solutions: explanationMap,
+    reviewAvailable,
+    correctMap: reviewAvailable ? correctMap : {},
+    solutions: reviewAvailable ? explanationMap : {},
+    credits: reviewAvailable ? credits : {},
+    achievementsUnlocked,
+    certificateIssued,
   }
 }
 
@@ -304,6 +375,7 @@ export async function getUserQuizHistory(
       quizTitle = getLocalized(a.quiz.titleJson, options.lang, a.quiz.title)
     }
     return {
+      attemptId: a.id,
       quizId: a.quiz.id,
       quizTitle,
       correct: a.score,
@@ -321,4 +393,94 @@ export async function getUserQuizHistory(
       totalPages: Math.ceil(total / options.limit)
     }
   }
-}
\ No newline at end of file
+}
+/**
+ * Review of a single attempt: every issued question with the chosen answer and, once the
+ * quiz's review policy allows it, the correct answer, credit and explanation.
+ * Students see their own attempts; editors, admins and the user's group teachers see any
+ * attempt with answers revealed.
+ */
+export async function getAttemptReview(
+  attemptId: string,
+  viewer: { id: string; role: Role },
+  lang: Lang = 'EN'
+) {
+  const attempt = await prisma.quizAttempt.findUnique({
+    where: { id: attemptId },
+    include: {
+      quiz: { select: { id: true, title: true, titleJson: true, topicId: true, mode: true, reviewPolicy: true, reviewAt: true } },
+      answers: true,
+    },
+  })
+  if (!attempt) throw AppError.notFound('Attempt not found')
+
+  const isOwner = attempt.userId === viewer.id
+  const isStaff = ['ADMIN', 'EDITOR'].includes(viewer.role)
+  const isTeacher = !isOwner && !isStaff && viewer.role === 'TEACHER' && await isGroupTeacherOf(viewer.id, attempt.userId)
+  // Don't reveal that the attempt exists
+  if (!isOwner && !isStaff && !isTeacher) throw AppError.notFound('Attempt not found')
+
+  const revealed = isStaff || isTeacher || isReviewAvailable(attempt.quiz)
+
+  // Attempts made before the question bank don't store their questions: use the answered ones
+  const questionIds = attempt.questionIds.length > 0
+    ? attempt.questionIds
+    : [...new Set(attempt.answers.map((a) => a.questionId))]
+  const found = await prisma.question.findMany({
+    where: { id: { in: questionIds } },
+    include: {
+      options: {
+        orderBy: { id: 'asc' },
+        select: { id: true, text: true, textJson: true, correct: true },
+      },
+    },
+  })
+  const byId = new Map(found.map((q) => [q.id, q]))
+  const answerByQuestion = new Map(attempt.answers.map((a) => [a.questionId, a]))
+
+  const questions = questionIds
+    .map((id) => byId.get(id))
+    .filter((q): q is (typeof found)[number] => !!q)
+    .map((q) => {
+      const answer = answerByQuestion.get(q.id)
+      const chosen = new Set(answer ? [...answer.selectedOptionIds, ...(answer.optionId ? [answer.optionId] : [])] : [])
+      const expected = getExpectedAnswer(q)
+      return {
+        id: q.id,
+        text: getLocalized(q.textJson, lang, q.text),
+        type: q.type,
+        answered: !!answer,
+        options: q.options.map((o) => ({
+          id: o.id,
+          text: getLocalized(o.textJson, lang, o.text),
+          chosen: chosen.has(o.id),
+          ...(revealed && { correct: o.correct }),
+        })),
+        value: answer?.value ?? null,
+        ...(revealed && {
+          credit: answer?.credit ?? 0,
+          // Numeric and short-text questions have no options to mark
+          expected: q.type === 'numeric' || q.type === 'text' ? (expected as string | undefined) ?? null : null,
+          explanation: getLocalized(q.explanationJson, lang, q.explanation || '') || null,
+        }),
+      }
+    })
+
+  return {
+    id: attempt.id,
+    userId: attempt.userId,
+    quiz: {
+      id: attempt.quiz.id,
+      title: getLocalized(attempt.quiz.titleJson, lang, attempt.quiz.title),
+      topicId: attempt.quiz.topicId,
+      mode: attempt.quiz.mode,
+    },
+    correct: attempt.score,
+    total: attempt.total,
+    createdAt: attempt.createdAt.toISOString(),
+    revealed,
+    // Lets the student know when hidden answers become visible
+    reviewAt: !revealed && attempt.quiz.reviewPolicy === 'AFTER_DATE' ? attempt.quiz.reviewAt?.toISOString() ?? null : null,
+    questions,
+  }
+}
@@ -0,0 +1,183 @@
+// src/services/quizFormats.service.ts
+/**
+ * Quiz import/export in Moodle XML, GIFT and IMS QTI 2.1
+ *
+ * Import creates a new draft quiz in the topic from the questions that could be converted;
+ * export writes a quiz's own questions. Both return a per-item report of what was dropped
+ * or changed on the way, so editors can fix those questions by hand.
+ */
+import { prisma } from '../db.js'
+import { AppError } from '../utils/AppError.js'
+import { logger } from '../utils/logger.js'
+import { parseGift, toGift } from '../utils/gift.js'
+import { parseMoodleXml, toMoodleXml } from '../utils/moodleXml.js'
+import { parseQti, toQtiPackage } from '../utils/qti.js'
+import {
+  type ConversionIssue,
+  type InterchangeQuestion,
+  type ParsedQuiz,
+  type QuizFormat,
+  excerpt,
+  fromStored,
+  toStored,
+} from '../utils/quizFormats.js'
+
+export interface QuizFormatReport {
+  converted: number
+  skipped: number
+  issues: ConversionIssue[]
+}
+
+export interface QuizImportInput {
+  format: QuizFormat
+  content: string
+  encoding: 'utf8' | 'base64'
+  title?: string
+  dryRun: boolean
+}
+
+export interface QuizExportFile {
+  filename: string
+  mimeType: string
+  encoding: 'utf8' | 'base64'
+  content: string
+  report: QuizFormatReport
+}
+
+/** Time limit of an imported quiz: a minute per question, within the editor's 10 s – 1 h */
+const SECONDS_PER_QUESTION = 60
+
+function report(converted: number, issues: ConversionIssue[]): QuizFormatReport {
+  return { converted, skipped: issues.filter((i) => i.skipped).length, issues }
+}
+
+function parse(input: QuizImportInput): ParsedQuiz {
+  const data = Buffer.from(input.content, input.encoding)
+  switch (input.format) {
+    case 'moodle':
+      return parseMoodleXml(data.toString('utf8'))
+    case 'gift':
+      return parseGift(data.toString('utf8'))
+    case 'qti':
+      return parseQti(data)
+  }
+}
+
+/**
+ * Create a draft quiz from a Moodle XML, GIFT or QTI file.
+ * With `dryRun` nothing is written; the report shows what would be imported.
+ */
+export async function importQuizFile(topicId: string, input: QuizImportInput, userId: string) {
+  const topic = await prisma.topic.findUnique({ where: { id: topicId }, select: { id: true } })
+  if (!topic) throw AppError.notFound('Topic not found')
+
+  const parsed = parse(input)
+  const result = report(parsed.questions.length, parsed.issues)
+  if (parsed.questions.length === 0) {
+    throw AppError.badRequest('No question in the file could be imported', { report: result })
+  }
+
+  const title = input.title?.trim() || parsed.title || 'Imported quiz'
+  if (input.dryRun) return { quiz: null, title, report: result }
+
+  const quiz = await prisma.quiz.create({
+    data: {
+      title,
+      titleJson: {},
+      durationSec: Math.min(3600, Math.max(SECONDS_PER_QUESTION, parsed.questions.length * SECONDS_PER_QUESTION)),
+      topicId,
+      position: await prisma.quiz.count({ where: { topicId } }),
+      createdById: userId,
+      status: 'Draft',
+      questions: {
+        create: parsed.questions.map((q) => {
+          const text = toStored(q.text)
+          const explanation = toStored(q.explanation)
+          return {
+            text: text.text,
+            textJson: text.json,
+            explanation: explanation.text || null,
+            explanationJson: explanation.json,
+            difficulty: q.difficulty,
+            tags: q.tags,
+            type: q.type,
+            numericAnswer: q.numericAnswer,
+            tolerance: q.tolerance,
+            acceptedAnswers: q.acceptedAnswers,
+            options: {
+              create: q.options.map((o) => {
+                const option = toStored(o.text)
+                return { text: option.text, textJson: option.json, correct: o.correct }
+              }),
+            },
+          }
+        }),
+      },
+    },
+    select: { id: true, title: true },
+  })
+
+  logger.info(`[importQuizFile] ${input.format}: quiz ${quiz.id} with ${result.converted} questions, ${result.skipped} skipped`)
+  return { quiz, title, report: result }
+}
+
+const FILE_TYPES: Record<QuizFormat, { extension: string; mimeType: string }> = {
+  moodle: { extension: 'xml', mimeType: 'application/xml' },
+  gift: { extension: 'gift.txt', mimeType: 'text/plain' },
+  qti: { extension: 'zip', mimeType: 'application/zip' },
+}
+
+/**
+ * A quiz of the topic as a Moodle XML, GIFT or QTI file
+ */
+export async function exportQuizFile(topicId: string, quizId: string, format: QuizFormat): Promise<QuizExportFile> {
+  const quiz = await prisma.quiz.findFirst({
+    where: { id: quizId, topicId },
+    include: {
+      questions: { orderBy: { id: 'asc' }, include: { options: { orderBy: { id: 'asc' } } } },
+      _count: { select: { drawRules: true } },
+    },
+  })
+  if (!quiz) throw AppError.notFound('Quiz not found')
+
+  const issues: ConversionIssue[] = []
+  if (quiz._count.drawRules > 0) {
+    issues.push({ item: quiz.title, message: 'Question bank draw rules were not exported; only the quiz\'s own questions are included', skipped: false })
+  }
+
+  const questions: InterchangeQuestion[] = quiz.questions.map((q, i) => {
+    const text = fromStored(q.textJson, q.text)
+    return {
+      id: q.id,
+      name: `${i + 1}. ${excerpt(text)}`,
+      type: q.type,
+      text,
+      explanation: fromStored(q.explanationJson, q.explanation),
+      difficulty: q.difficulty,
+      tags: q.tags,
+      options: q.options.map((o) => ({ text: fromStored(o.textJson, o.text), correct: o.correct })),
+      numericAnswer: q.numericAnswer,
+      tolerance: q.tolerance,
+      acceptedAnswers: q.acceptedAnswers,
+    }
+  })
+
+  const base = quiz.title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').toLowerCase() || 'quiz'
+  const { extension, mimeType } = FILE_TYPES[format]
+  const file = (content: string, encoding: 'utf8' | 'base64') => ({
+    filename: `${base}.${extension}`,
+    mimeType,
+    encoding,
+    content,
+    report: report(questions.length, issues),
+  })
+
+  switch (format) {
+    case 'moodle':
+      return file(toMoodleXml(quiz.title, questions), 'utf8')
+    case 'gift':
+      return file(toGift(quiz.title, questions), 'utf8')
+    case 'qti':
+      return file(toQtiPackage(questions, issues).toString('base64'), 'base64')
+  }
+}
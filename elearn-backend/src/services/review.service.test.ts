@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { applySm2, gradeReview } from './review.service.js'
+
+const mocks = vi.hoisted(() => ({
+  card: null as Record<string, any> | null,
+  updateDailyActivity: vi.fn(),
+  evaluateAchievements: vi.fn(),
+}))
+
+vi.mock('../db.js', () => ({
+  prisma: {
+    reviewCard: {
+      findUnique: async () => mocks.card,
+      updateMany: async ({ where, data }: any) => {
+        if (!mocks.card || mocks.card.dueAt > where.dueAt.lte) return { count: 0 }
+        Object.assign(mocks.card, data)
+        return { count: 1 }
+      },
+    },
+  },
+}))
+vi.mock('./progress.service.js', () => ({ updateDailyActivity: mocks.updateDailyActivity }))
+vi.mock('./achievements.service.js', () => ({ evaluateAchievements: mocks.evaluateAchievements }))
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = new Date('2026-01-01T00:00:00Z')
+const fresh = { easeFactor: 2.5, interval: 0, repetitions: 0, lapses: 0 }
+
+describe('applySm2', () => {
+  it('schedules the first two correct reviews after 1 and 6 days', () => {
+    const first = applySm2(fresh, 4, now)
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, lapses: 0 })
+    expect(first.dueAt.getTime()).toBe(now.getTime() + DAY_MS)
+
+    const second = applySm2(first, 4, now)
+    expect(second).toMatchObject({ interval: 6, repetitions: 2 })
+    expect(second.dueAt.getTime()).toBe(now.getTime() + 6 * DAY_MS)
+  })
+
+  it('multiplies the interval by the ease factor from the third review', () => {
+    const next = applySm2({ easeFactor: 2.5, interval: 6, repetitions: 2, lapses: 0 }, 4, now)
+    expect(next).toMatchObject({ interval: 15, repetitions: 3, easeFactor: 2.5 })
+  })
+
+  it('raises the ease factor on a perfect answer and lowers it on a hard one', () => {
+    expect(applySm2(fresh, 5, now).easeFactor).toBe(2.6)
+    expect(applySm2(fresh, 3, now).easeFactor).toBe(2.36)
+  })
+
+  it('resets the card on a lapse and brings it back the next day', () => {
+    const lapsed = applySm2({ easeFactor: 2.5, interval: 15, repetitions: 3, lapses: 1 }, 2, now)
+    expect(lapsed).toMatchObject({ interval: 1, repetitions: 0, lapses: 2, easeFactor: 2.18 })
+    expect(lapsed.dueAt.getTime()).toBe(now.getTime() + DAY_MS)
+  })
+
+  it('never drops the ease factor below 1.3', () => {
+    const next = applySm2({ easeFactor: 1.35, interval: 1, repetitions: 0, lapses: 4 }, 0, now)
+    expect(next.easeFactor).toBe(1.3)
+  })
+
+  it('clamps and rounds out-of-range quality', () => {
+    expect(applySm2(fresh, 9, now)).toEqual(applySm2(fresh, 5, now))
+    expect(applySm2(fresh, -1, now)).toEqual(applySm2(fresh, 0, now))
+    expect(applySm2(fresh, 2.6, now)).toEqual(applySm2(fresh, 3, now))
+  })
+})
+
+describe('gradeReview', () => {
+  beforeEach(() => {
+    mocks.updateDailyActivity.mockClear()
+    mocks.evaluateAchievements.mockClear()
+    mocks.card = {
+      id: 'card1',
+      ...fresh,
+      dueAt: new Date(Date.now() - 1000),
+      question: {
+        id: 'question1',
+        type: 'single',
+        text: 'Which keyword reads rows?',
+        explanation: null,
+        explanationJson: null,
+        numericAnswer: null,
+        tolerance: null,
+        acceptedAnswers: [],
+        options: [
+          { id: 'option1', correct: true },
+          { id: 'option2', correct: false },
+        ],
+      },
+    }
+  })
+
+  it('reschedules a due card and counts the review', async () => {
+    const result = await gradeReview('user1', 'question1', { optionId: 'option1' })
+    expect(result).toMatchObject({ correct: true, card: { interval: 1, repetitions: 1 } })
+    expect(mocks.updateDailyActivity).toHaveBeenCalledWith('user1', { reviewsCompleted: 1 })
+  })
+
+  it('refuses to grade a card again before it is due', async () => {
+    await gradeReview('user1', 'question1', { optionId: 'option1' })
+    await expect(gradeReview('user1', 'question1', { optionId: 'option1' })).rejects.toMatchObject({ statusCode: 409 })
+    expect(mocks.updateDailyActivity).toHaveBeenCalledOnce()
+    expect(mocks.evaluateAchievements).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,228 @@
+// src/services/review.service.ts
+/**
+ * Spaced-repetition review queue (SM-2)
+ *
+ * Every question a student gets wrong becomes a ReviewCard that is due immediately.
+ * Grading a card reschedules it with the SM-2 algorithm: correct answers push the
+ * next review further out, mistakes bring it back the next day.
+ */
+import { prisma } from '../db.js'
+import type { Lang } from '../shared'
+import type { Prisma, ReviewCard } from '@prisma/client'
+import { AppError } from '../utils/AppError.js'
+import { getTranslation } from '../utils/i18n.js'
+import { logger } from '../utils/logger.js'
+import { scoreAnswer, getExpectedAnswer, type SubmitAnswer } from '../utils/quizScoring.js'
+import { updateDailyActivity } from './progress.service.js'
+import { evaluateAchievements } from './achievements.service.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_EASE_FACTOR = 1.3
+
+type TranslationsJson = Record<string, string> | null
+
+type Sm2State = Pick<ReviewCard, 'easeFactor' | 'interval' | 'repetitions' | 'lapses'>
+
+/**
+ * Apply one SM-2 step.
+ * @param quality - 0..5, anything below 3 counts as a lapse
+ */
+export function applySm2(card: Sm2State, quality: number, now: Date = new Date()) {
+  const q = Math.max(0, Math.min(5, Math.round(quality)))
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  )
+
+  let { interval, repetitions, lapses } = card
+  if (q < 3) {
+    repetitions = 0
+    interval = 1
+    lapses += 1
+  } else {
+    repetitions += 1
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easeFactor)
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+  }
+}
+
+/**
+ * Turn wrong quiz answers into review cards due now.
+ * A question that was already being reviewed is reset, as if it was never learned.
+ */
+export async function recordReviewMistakes(userId: string, credits: Record<string, number>): Promise<void> {
+  const missed = Object.entries(credits)
+    .filter(([, credit]) => credit < 1)
+    .map(([questionId]) => questionId)
+
+  if (missed.length === 0) return
+
+  const now = new Date()
+  await prisma.$transaction(
+    missed.map((questionId) =>
+      prisma.reviewCard.upsert({
+        where: { userId_questionId: { userId, questionId } },
+        create: { userId, questionId, dueAt: now },
+        update: { repetitions: 0, interval: 0, dueAt: now, lapses: { increment: 1 } },
+      })
+    )
+  )
+
+  logger.info(`[recordReviewMistakes] Queued ${missed.length} review cards for user ${userId}`)
+}
+
+/**
+ * Attempts whose answers may be revealed, the query form of isReviewAvailable in quiz.service:
+ * practice quizzes, exams reviewable after submit, and exams past their review date.
+ * Answers saved without an attempt predate exams.
+ */
+function reviewableAnswerWhere(now: Date): Prisma.AnswerWhereInput {
+  return {
+    OR: [
+      { attemptId: null },
+      {
+        attempt: {
+          quiz: {
+            OR: [
+              { mode: { not: 'EXAM' } },
+              { reviewPolicy: 'AFTER_SUBMIT' },
+              { reviewPolicy: 'AFTER_DATE', reviewAt: { lte: now } },
+            ],
+          },
+        },
+      },
+    ],
+  }
+}
+
+/**
+ * Create cards for past mistakes recorded before the review queue existed, and for exam
+ * mistakes once their review policy reveals the answers
+ */
+async function backfillReviewCards(userId: string): Promise<void> {
+  const wrong = await prisma.answer.findMany({
+    where: {
+      userId,
+      isCorrect: false,
+      question: { reviewCards: { none: { userId } } },
+      ...reviewableAnswerWhere(new Date()),
+    },
+    select: { questionId: true },
+    distinct: ['questionId'],
+  })
+  if (wrong.length === 0) return
+
+  await prisma.reviewCard.createMany({
+    data: wrong.map((a) => ({ userId, questionId: a.questionId })),
+    skipDuplicates: true,
+  })
+}
+
+/**
+ * Get review cards that are due now, with localized questions (without answer keys)
+ */
+export async function getDueReviews(userId: string, options: { limit: number; lang?: Lang }) {
+  await backfillReviewCards(userId)
+
+  const now = new Date()
+  const lang = options.lang ?? 'EN'
+
+  const [cards, totalDue, nextCard] = await Promise.all([
+    prisma.reviewCard.findMany({
+      where: { userId, dueAt: { lte: now } },
+      orderBy: { dueAt: 'asc' },
+      take: options.limit,
+      include: {
+        question: {
+          include: { options: { select: { id: true, text: true, textJson: true } } },
+        },
+      },
+    }),
+    prisma.reviewCard.count({ where: { userId, dueAt: { lte: now } } }),
+    prisma.reviewCard.findFirst({
+      where: { userId, dueAt: { gt: now } },
+      orderBy: { dueAt: 'asc' },
+      select: { dueAt: true },
+    }),
+  ])
+
+  return {
+    items: cards.map((card) => ({
+      questionId: card.questionId,
+      quizId: card.question.quizId,
+      dueAt: card.dueAt.toISOString(),
+      repetitions: card.repetitions,
+      interval: card.interval,
+      question: {
+        id: card.question.id,
+        text: getTranslation(card.question.textJson as TranslationsJson, lang, card.question.text),
+        type: card.question.type,
+        difficulty: card.question.difficulty,
+        tags: card.question.tags,
+        options: card.question.options.map((o) => ({
+          id: o.id,
+          text: getTranslation(o.textJson as TranslationsJson, lang, o.text),
+        })),
+      },
+    })),
+    totalDue,
+    nextDueAt: nextCard?.dueAt.toISOString() ?? null,
+  }
+}
+
+/**
+ * Grade a review card with the student's answer and reschedule it.
+ * Correct answers map to SM-2 quality 3..5 (the client may pass how hard it felt, default 4),
+ * partially correct multi-select answers to 2 and wrong answers to 1. A card can only be graded
+ * once it is due, so repeated grading doesn't count towards the daily goal or achievements.
+ */
+export async function gradeReview(
+  userId: string,
+  questionId: string,
+  answer: Omit<SubmitAnswer, 'questionId'> & { quality?: number },
+  lang: Lang = 'EN'
+) {
+  const card = await prisma.reviewCard.findUnique({
+    where: { userId_questionId: { userId, questionId } },
+    include: { question: { include: { options: { select: { id: true, correct: true } } } } },
+  })
+  if (!card) throw AppError.notFound('Review card not found')
+  const now = new Date()
+  if (card.dueAt > now) throw AppError.conflict('Review card is not due yet')
+
+  const { credit } = scoreAnswer(card.question, { ...answer, questionId })
+  const quality = credit === 1
+    ? Math.max(3, Math.min(5, answer.quality ?? 4))
+    : credit > 0 ? 2 : 1
+
+  const next = applySm2(card, quality, now)
+  // Conditional, so two parallel requests can't both grade the same due card
+  const { count } = await prisma.reviewCard.updateMany({
+    where: { id: card.id, dueAt: { lte: now } },
+    data: { ...next, lastReviewedAt: now },
+  })
+  if (count === 0) throw AppError.conflict('Review card is not due yet')
+
+  await updateDailyActivity(userId, { reviewsCompleted: 1 })
+  await evaluateAchievements(userId)
+
+  return {
+    correct: credit === 1,
+    credit,
+    correctAnswer: getExpectedAnswer(card.question) ?? null,
+    explanation: getTranslation(card.question.explanationJson as TranslationsJson, lang, card.question.explanation || ''),
+    card: {
+      dueAt: next.dueAt.toISOString(),
+      interval: next.interval,
+      repetitions: next.repetitions,
+      easeFactor: next.easeFactor,
+    },
+  }
+}
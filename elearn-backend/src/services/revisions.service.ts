@@ -0,0 +1,373 @@
+// src/services/revisions.service.ts
+/**
+ * Content revisions
+ *
+ * Every save of a material, quiz or question records an immutable ContentRevision: a full
+ * snapshot of its localized fields (plus the options of a question) and the author.
+ * Content created before revisions existed gets a baseline revision of its old state on
+ * its first edit, so that state can be restored too. Saves that change nothing (publish
+ * toggles, repeated saves) do not create a revision. Restoring writes an old snapshot back
+ * and records it as a new revision; history is never rewritten.
+ */
+import type { Prisma, RevisionEntity } from '@prisma/client'
+import { prisma } from '../db.js'
+import { AppError } from '../utils/AppError.js'
+import { filledTranslations } from '../utils/i18n.js'
+import { localizedFields, syncTranslationStamps } from './translations.service.js'
+
+type Db = Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>
+
+type Localized = Record<string, string>
+
+export type MaterialSnapshot = {
+  title: string
+  titleJson: Localized
+  type: string
+  url: string | null
+  urlJson: Localized
+  content: string | null
+  contentJson: Localized
+  lang: string
+}
+
+export type QuizSnapshot = {
+  title: string
+  titleJson: Localized
+  durationSec: number
+  mode: string
+  reviewPolicy: string
+  reviewAt: string | null
+}
+
+export type OptionSnapshot = { text: string; textJson: Localized; correct: boolean }
+
+export type QuestionSnapshot = {
+  text: string
+  textJson: Localized
+  explanation: string | null
+  explanationJson: Localized
+  difficulty: string
+  tags: string[]
+  type: string
+  numericAnswer: number | null
+  tolerance: number | null
+  acceptedAnswers: string[]
+  options: OptionSnapshot[]
+}
+
+type Snapshot = MaterialSnapshot | QuizSnapshot | QuestionSnapshot
+
+/** One changed value; lang is set for the per-language parts of *Json fields */
+export type RevisionChange = {
+  field: string
+  lang: string | null
+  before: unknown
+  after: unknown
+}
+
+const authorSelect = { select: { id: true, name: true, email: true } } as const
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Current state of an entity, or null when it does not exist
+ */
+async function takeSnapshot(entity: RevisionEntity, id: string, db: Db = prisma): Promise<Snapshot | null> {
+  switch (entity) {
+    case 'material': {
+      const m = await db.material.findUnique({ where: { id } })
+      if (!m) return null
+      return {
+        title: m.title,
+        titleJson: filledTranslations(m.titleJson),
+        type: m.type,
+        url: m.url,
+        urlJson: filledTranslations(m.urlJson),
+        content: m.content,
+        contentJson: filledTranslations(m.contentJson),
+        lang: m.lang,
+      }
+    }
+    case 'quiz': {
+      const q = await db.quiz.findUnique({ where: { id } })
+      if (!q) return null
+      return {
+        title: q.title,
+        titleJson: filledTranslations(q.titleJson),
+        durationSec: q.durationSec,
+        mode: q.mode,
+        reviewPolicy: q.reviewPolicy,
+        reviewAt: q.reviewAt ? q.reviewAt.toISOString() : null,
+      }
+    }
+    case 'question': {
+      const q = await db.question.findUnique({
+        where: { id },
+        include: { options: { orderBy: { id: 'asc' } } },
+      })
+      if (!q) return null
+      return {
+        text: q.text,
+        textJson: filledTranslations(q.textJson),
+        explanation: q.explanation,
+        explanationJson: filledTranslations(q.explanationJson),
+        difficulty: q.difficulty,
+        tags: q.tags,
+        type: q.type,
+        numericAnswer: q.numericAnswer,
+        tolerance: q.tolerance,
+        acceptedAnswers: q.acceptedAnswers,
+        options: q.options.map((o) => ({ text: o.text, textJson: filledTranslations(o.textJson), correct: o.correct })),
+      }
+    }
+  }
+}
+
+/**
+ * Field-by-field differences; *Json fields are compared per language and question
+ * options per position (options[0].text, ...)
+ */
+export function diffSnapshots(before: Snapshot | null, after: Snapshot): RevisionChange[] {
+  return diffRecords((before ?? {}) as Record<string, unknown>, after as Record<string, unknown>, '')
+}
+
+function diffRecords(before: Record<string, unknown>, after: Record<string, unknown>, prefix: string): RevisionChange[] {
+  const changes: RevisionChange[] = []
+  const keys = [...new Set([...Object.keys(after), ...Object.keys(before)])]
+
+  for (const key of keys) {
+    const field = prefix + key
+    const a = before[key]
+    const b = after[key]
+
+    if (key === 'options') {
+      const from = (a ?? []) as OptionSnapshot[]
+      const to = (b ?? []) as OptionSnapshot[]
+      for (let i = 0; i < Math.max(from.length, to.length); i++) {
+        changes.push(...diffRecords(from[i] ?? {}, to[i] ?? {}, `${field}[${i}].`))
+      }
+    } else if (key.endsWith('Json')) {
+      const from = (a ?? {}) as Localized
+      const to = (b ?? {}) as Localized
+      for (const lang of [...new Set([...Object.keys(to), ...Object.keys(from)])].sort()) {
+        if (from[lang] !== to[lang]) changes.push({ field, lang, before: from[lang] ?? null, after: to[lang] ?? null })
+      }
+    } else if (!sameValue(a, b)) {
+      changes.push({ field, lang: null, before: a ?? null, after: b ?? null })
+    }
+  }
+  return changes
+}
+
+/** Changed field names for list summaries; option changes collapse to "options" */
+function changedFields(changes: RevisionChange[]): string[] {
+  return [...new Set(changes.map((c) => c.field.replace(/\[\d+\]\..*$/, '')))]
+}
+
+/**
+ * Record the current state of content that has no history yet, before it is first edited.
+ * The baseline is dated at the entity's last update and attributed to its creator.
+ */
+export async function ensureBaseline(entity: RevisionEntity, id: string, db: Db = prisma): Promise<void> {
+  const count = await db.contentRevision.count({ where: { entityType: entity, entityId: id } })
+  if (count > 0) return
+
+  const snapshot = await takeSnapshot(entity, id, db)
+  if (!snapshot) return
+
+  let authorId: string | null = null
+  let createdAt: Date | undefined
+  if (entity === 'material') {
+    const m = await db.material.findUnique({ where: { id }, select: { createdById: true, updatedAt: true } })
+    authorId = m?.createdById ?? null
+    createdAt = m?.updatedAt
+  } else if (entity === 'quiz') {
+    const q = await db.quiz.findUnique({ where: { id }, select: { createdById: true, updatedAt: true } })
+    authorId = q?.createdById ?? null
+    createdAt = q?.updatedAt
+  }
+
+  await db.contentRevision.create({
+    data: { entityType: entity, entityId: id, version: 1, snapshot, authorId, createdAt },
+  })
+}
+
+/**
+ * Record the current state as a new revision and bring the translation stamps up to date.
+ * Returns null when nothing changed since the latest revision (unless the save is a restore).
+ */
+export async function recordRevision(
+  entity: RevisionEntity,
+  id: string,
+  authorId: string | null | undefined,
+  options: { restoredFromVersion?: number; db?: Db } = {}
+) {
+  const db = options.db ?? prisma
+  const snapshot = await takeSnapshot(entity, id, db)
+  if (!snapshot) return null
+
+  const latest = await db.contentRevision.findFirst({
+    where: { entityType: entity, entityId: id },
+    orderBy: { version: 'desc' },
+  })
+  if (latest && options.restoredFromVersion === undefined
+    && diffSnapshots(latest.snapshot as Snapshot, snapshot).length === 0) {
+    return null
+  }
+
+  await syncTranslationStamps(
+    entity,
+    id,
+    latest ? localizedFields(entity, latest.snapshot as Snapshot) : null,
+    localizedFields(entity, snapshot),
+    db
+  )
+
+  return db.contentRevision.create({
+    data: {
+      entityType: entity,
+      entityId: id,
+      version: (latest?.version ?? 0) + 1,
+      snapshot,
+      authorId: authorId ?? null,
+      restoredFromVersion: options.restoredFromVersion ?? null,
+    },
+    include: { author: authorSelect },
+  })
+}
+
+/**
+ * Revisions of an entity, newest first, each with the fields it changed
+ */
+export async function listRevisions(entity: RevisionEntity, id: string) {
+  const revisions = await prisma.contentRevision.findMany({
+    where: { entityType: entity, entityId: id },
+    orderBy: { version: 'asc' },
+    include: { author: authorSelect },
+  })
+
+  return revisions
+    .map((r, i) => ({
+      id: r.id,
+      version: r.version,
+      author: r.author,
+      restoredFromVersion: r.restoredFromVersion,
+      createdAt: r.createdAt,
+      changedFields: changedFields(diffSnapshots(i > 0 ? (revisions[i - 1].snapshot as Snapshot) : null, r.snapshot as Snapshot)),
+    }))
+    .reverse()
+}
+
+async function getRevision(entity: RevisionEntity, id: string, revisionId: string) {
+  const revision = await prisma.contentRevision.findFirst({
+    where: { id: revisionId, entityType: entity, entityId: id },
+    include: { author: authorSelect },
+  })
+  if (!revision) throw AppError.notFound('Revision not found')
+  return revision
+}
+
+/**
+ * Differences between two revisions; `to` defaults to the latest one
+ */
+export async function diffRevisions(entity: RevisionEntity, id: string, fromId: string, toId?: string) {
+  const from = await getRevision(entity, id, fromId)
+  const to = toId
+    ? await getRevision(entity, id, toId)
+    : await prisma.contentRevision.findFirstOrThrow({
+        where: { entityType: entity, entityId: id },
+        orderBy: { version: 'desc' },
+        include: { author: authorSelect },
+      })
+
+  const summary = (r: typeof from) => ({ id: r.id, version: r.version, author: r.author, createdAt: r.createdAt })
+  return {
+    from: { ...summary(from), snapshot: from.snapshot as Snapshot },
+    to: { ...summary(to), snapshot: to.snapshot as Snapshot },
+    changes: diffSnapshots(from.snapshot as Snapshot, to.snapshot as Snapshot),
+  }
+}
+
+/**
+ * Write an old snapshot back. Question options are updated in place by position, extra
+ * ones created and surplus ones deleted, so answers keep pointing at the same options.
+ */
+async function applySnapshot(entity: RevisionEntity, id: string, snapshot: Snapshot, db: Db) {
+  switch (entity) {
+    case 'material': {
+      const s = snapshot as MaterialSnapshot
+      await db.material.update({
+        where: { id },
+        data: {
+          title: s.title,
+          titleJson: s.titleJson,
+          type: s.type as Prisma.MaterialUpdateInput['type'],
+          url: s.url,
+          urlJson: s.urlJson,
+          content: s.content,
+          contentJson: s.contentJson,
+          lang: s.lang as Prisma.MaterialUpdateInput['lang'],
+        },
+      })
+      return
+    }
+    case 'quiz': {
+      const s = snapshot as QuizSnapshot
+      await db.quiz.update({
+        where: { id },
+        data: {
+          title: s.title,
+          titleJson: s.titleJson,
+          durationSec: s.durationSec,
+          mode: s.mode as Prisma.QuizUpdateInput['mode'],
+          reviewPolicy: s.reviewPolicy as Prisma.QuizUpdateInput['reviewPolicy'],
+          reviewAt: s.reviewAt ? new Date(s.reviewAt) : null,
+        },
+      })
+      return
+    }
+    case 'question': {
+      const s = snapshot as QuestionSnapshot
+      await db.question.update({
+        where: { id },
+        data: {
+          text: s.text,
+          textJson: s.textJson,
+          explanation: s.explanation,
+          explanationJson: s.explanationJson,
+          difficulty: s.difficulty as Prisma.QuestionUpdateInput['difficulty'],
+          tags: s.tags,
+          type: s.type as Prisma.QuestionUpdateInput['type'],
+          numericAnswer: s.numericAnswer,
+          tolerance: s.tolerance,
+          acceptedAnswers: s.acceptedAnswers,
+        },
+      })
+
+      const current = await db.option.findMany({ where: { questionId: id }, orderBy: { id: 'asc' }, select: { id: true } })
+      for (let i = 0; i < s.options.length; i++) {
+        const data = { text: s.options[i].text, textJson: s.options[i].textJson, correct: s.options[i].correct }
+        if (current[i]) await db.option.update({ where: { id: current[i].id }, data })
+        else await db.option.create({ data: { ...data, questionId: id } })
+      }
+      const surplus = current.slice(s.options.length).map((o) => o.id)
+      if (surplus.length > 0) await db.option.deleteMany({ where: { id: { in: surplus } } })
+      return
+    }
+  }
+}
+
+/**
+ * Restore an entity to an old revision, recorded as a new revision
+ */
+export async function restoreRevision(entity: RevisionEntity, id: string, revisionId: string, authorId: string) {
+  const revision = await getRevision(entity, id, revisionId)
+  if (!(await takeSnapshot(entity, id))) throw AppError.notFound('Content not found')
+
+  return prisma.$transaction(async (tx) => {
+    await applySnapshot(entity, id, revision.snapshot as Snapshot, tx)
+    return recordRevision(entity, id, authorId, { restoredFromVersion: revision.version, db: tx })
+  })
+}
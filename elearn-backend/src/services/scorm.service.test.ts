@@ -0,0 +1,182 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import express from 'express'
+import type { AddressInfo } from 'net'
+import type { Server } from 'http'
+import { JSDOM, VirtualConsole } from 'jsdom'
+import xapiRouter from '../routes/xapi.js'
+import { errorHandler } from '../middleware/errorHandler.js'
+import { readZip } from '../utils/zip.js'
+import { buildScormPackage } from './scorm.service.js'
+import { listStatements, type StoredStatement } from './xapiLrs.service.js'
+
+const topic = vi.hoisted(() => ({
+  id: 'topic1',
+  slug: 'sql-basics',
+  name: 'SQL basics',
+  nameJson: null,
+  description: 'Intro',
+  descJson: null,
+  children: [],
+  materials: [
+    { id: 'material1', title: 'Reading', titleJson: null, type: 'text', content: '<p>SELECT *</p>', contentJson: null, url: null, urlJson: null },
+  ],
+  quizzes: [
+    {
+      id: 'quiz1',
+      title: 'Check',
+      titleJson: null,
+      questions: [
+        {
+          id: 'question1',
+          type: 'single',
+          text: 'Which keyword reads rows?',
+          textJson: null,
+          explanation: null,
+          explanationJson: null,
+          numericAnswer: null,
+          tolerance: null,
+          acceptedAnswers: [],
+          options: [
+            { id: 'option1', text: 'SELECT', textJson: null, correct: true },
+            { id: 'option2', text: 'DROP', textJson: null, correct: false },
+          ],
+        },
+      ],
+    },
+  ],
+}))
+
+vi.mock('../db.js', () => ({
+  prisma: { topic: { findUnique: async () => ({ parentId: null }) } },
+}))
+vi.mock('./contentExport.service.js', () => ({
+  loadTopicTree: async () => [topic],
+}))
+
+let server: Server
+let endpoint: string
+let page: string
+let runtime: string
+
+beforeAll(async () => {
+  process.env.XAPI_LOCAL_LRS = 'true'
+  const app = express()
+  app.use('/api/xapi', xapiRouter)
+  app.use(errorHandler)
+  server = app.listen(0)
+  await new Promise((resolve) => server.once('listening', resolve))
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/xapi`
+
+  const pkg = await buildScormPackage(topic.id, { lang: 'EN', xapi: true, lrsEndpoint: endpoint })
+  const files = new Map(readZip(pkg.data).map((e) => [e.name, e.data.toString('utf8')]))
+  page = files.get(`sco/${topic.id}.html`)!
+  runtime = files.get('shared/runtime.js')!
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+/**
+ * Open the SCO page outside an LMS and run its runtime. Each test uses its own origin, which
+ * becomes the actor's homePage, to tell its statements apart in the shared LRS.
+ */
+function launch(origin: string, fetchImpl: typeof fetch = fetch) {
+  const dom = new JSDOM(page, { url: `${origin}/sco/${topic.id}.html`, runScripts: 'outside-only', virtualConsole: new VirtualConsole() })
+  const window = dom.window as unknown as Window & { eval: (code: string) => void }
+  window.fetch = fetchImpl
+  // Retries fire right away instead of after their delay
+  window.setTimeout = ((fn: () => void) => {
+    fn()
+    return 0
+  }) as typeof setTimeout
+  window.eval(runtime)
+  return dom
+}
+
+function statementsFrom(origin: string): StoredStatement[] {
+  return listStatements({ limit: 500 }).filter((s) => (s.actor as any).account?.homePage === origin).reverse()
+}
+
+describe('SCORM package xAPI reporting', () => {
+  it('sends "experienced" for the topic and its materials on load', async () => {
+    const origin = 'https://lms-load.example.com'
+    launch(origin)
+
+    await vi.waitFor(() => expect(statementsFrom(origin)).toHaveLength(2))
+    const [topicStatement, materialStatement] = statementsFrom(origin)
+    expect(topicStatement).toMatchObject({
+      actor: { objectType: 'Agent', account: { homePage: origin, name: 'anonymous' } },
+      verb: { id: 'http://adlnet.gov/expapi/verbs/experienced' },
+      object: { id: expect.stringContaining(`/xapi/topics/${topic.id}`) },
+      context: { language: 'en-US' },
+    })
+    expect(materialStatement).toMatchObject({
+      verb: { id: 'http://adlnet.gov/expapi/verbs/experienced' },
+      object: { id: expect.stringContaining('/xapi/materials/material1') },
+      context: { contextActivities: { parent: [{ id: topicStatement.object.id }] } },
+    })
+  })
+
+  it('reports a quiz attempt with its score', async () => {
+    const origin = 'https://lms-quiz.example.com'
+    const dom = launch(origin)
+    const document = dom.window.document
+
+    const option = document.querySelector<HTMLInputElement>('input[value="option1"]')!
+    option.checked = true
+    document.querySelector<HTMLFormElement>('[data-quiz="quiz1"] form')!.requestSubmit()
+
+    await vi.waitFor(() => expect(statementsFrom(origin)).toHaveLength(3))
+    expect(statementsFrom(origin)[2]).toMatchObject({
+      verb: { id: 'http://adlnet.gov/expapi/verbs/passed' },
+      object: { id: expect.stringContaining('/xapi/quizzes/quiz1') },
+      result: { score: { scaled: 1, raw: 1, min: 0, max: 1 }, success: true, completion: true },
+    })
+  })
+
+  it('retries after network errors and server errors', async () => {
+    const origin = 'https://lms-retry.example.com'
+    let calls = 0
+    launch(origin, async (url, init) => {
+      calls++
+      if (calls === 1) throw new TypeError('Failed to fetch')
+      if (calls === 2) return new Response(null, { status: 503 })
+      return fetch(url, init)
+    })
+
+    await vi.waitFor(() => expect(statementsFrom(origin)).toHaveLength(2))
+    expect(calls).toBe(4)
+  })
+
+  it('does not duplicate a statement whose response was lost', async () => {
+    const origin = 'https://lms-lost.example.com'
+    let calls = 0
+    launch(origin, async (url, init) => {
+      const call = ++calls
+      const res = await fetch(url, init)
+      // The first post reaches the LRS, but the answer never comes back
+      if (call === 1) throw new TypeError('Network connection lost')
+      return res
+    })
+
+    await vi.waitFor(() => expect(calls).toBe(3))
+    await vi.waitFor(() => expect(statementsFrom(origin)).toHaveLength(2))
+    expect(new Set(statementsFrom(origin).map((s) => s.id)).size).toBe(2)
+  })
+
+  it('gives up after the last retry', async () => {
+    const origin = 'https://lms-down.example.com'
+    let calls = 0
+    launch(origin, async () => {
+      calls++
+      return new Response(null, { status: 502 })
+    })
+
+    // Two statements, each tried once and retried three times
+    await vi.waitFor(() => expect(calls).toBe(8))
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(calls).toBe(8)
+    expect(statementsFrom(origin)).toHaveLength(0)
+  })
+})
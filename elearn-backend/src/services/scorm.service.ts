@@ -0,0 +1,347 @@
+// src/services/scorm.service.ts
+/**
+ * SCORM 1.2 package export
+ *
+ * Packages a root topic for an external LMS, walking the same tree as the JSON content export
+ * but only with what learners see: published subtopics, materials and quizzes. Every topic
+ * with content becomes one SCO page (its materials, then its quizzes); the manifest's
+ * organization mirrors the subtopic tree. The shared runtime (scormRuntime.ts) reports
+ * completion, or score and passed/failed against PASS_THRESHOLD when the topic has quizzes.
+ *
+ * Quizzes are scored in the browser, so the page carries the answers: that's inherent to
+ * SCORM packages. Only a quiz's own questions are packaged, question bank draws are not.
+ *
+ * With an xAPI target the runtime also posts statements to the LRS: "experienced" for the
+ * topic and each material scrolled into view, "passed"/"failed" with the score for each quiz
+ * attempt. Statements carry their own ids, so a post that failed on the network or with a 5xx
+ * is retried a few times without duplicates. The credentials end up in the package, so the LRS
+ * key should be write-only.
+ */
+import { prisma } from '../db.js'
+import type { Lang } from '../shared'
+import { AppError } from '../utils/AppError.js'
+import { getEnv } from '../utils/env.js'
+import { getTranslation } from '../utils/i18n.js'
+import { logger } from '../utils/logger.js'
+import { escapeXml } from '../utils/quizFormats.js'
+import { PASS_THRESHOLD } from '../utils/quizScoring.js'
+import { SCORM_RUNTIME_JS, SCORM_STYLE_CSS } from '../utils/scormRuntime.js'
+import { createZip, type ZipEntry } from '../utils/zip.js'
+import { type ExportMaterial, type ExportQuiz, type ExportTopic, loadTopicTree } from './contentExport.service.js'
+
+type TranslationsJson = Record<string, string> | null
+
+export interface XapiTarget {
+  endpoint: string // LRS base URL; statements go to <endpoint>/statements
+  auth: string | null // Authorization header value
+}
+
+export interface ScormExportInput {
+  lang: Lang
+  xapi: boolean
+  lrsEndpoint?: string
+  lrsAuth?: string
+}
+
+export interface ScormPackage {
+  filename: string
+  data: Buffer
+  scos: number
+}
+
+interface Sco {
+  id: string
+  href: string
+}
+
+const FRONTEND_URL = getEnv('FRONTEND_URL', 'http://localhost:5173')
+const ACTIVITY_TYPES = 'http://adlnet.gov/expapi/activities/'
+
+const LOCALES: Record<Lang, { html: string; xapi: string }> = {
+  UA: { html: 'uk', xapi: 'uk-UA' },
+  EN: { html: 'en', xapi: 'en-US' },
+  PL: { html: 'pl', xapi: 'pl-PL' },
+}
+
+const LABELS: Record<Lang, Record<string, string>> = {
+  UA: {
+    submit: 'Надіслати',
+    retry: 'Спробувати ще',
+    correct: 'Правильно',
+    incorrect: 'Неправильно',
+    expected: 'Правильна відповідь',
+    score: 'Результат',
+    passed: 'Складено',
+    failed: 'Не складено',
+  },
+  EN: {
+    submit: 'Submit',
+    retry: 'Try again',
+    correct: 'Correct',
+    incorrect: 'Incorrect',
+    expected: 'Correct answer',
+    score: 'Score',
+    passed: 'Passed',
+    failed: 'Not passed',
+  },
+  PL: {
+    submit: 'Wyślij',
+    retry: 'Spróbuj ponownie',
+    correct: 'Poprawnie',
+    incorrect: 'Niepoprawnie',
+    expected: 'Poprawna odpowiedź',
+    score: 'Wynik',
+    passed: 'Zaliczony',
+    failed: 'Niezaliczony',
+  },
+}
+
+// Materials whose content is HTML: text and study aids
+const HTML_MATERIAL_TYPES: ExportMaterial['type'][] = ['text', 'summary', 'flashcards', 'glossary']
+
+const MATERIAL_ACTIVITY: Record<ExportMaterial['type'], string> = {
+  text: 'lesson',
+  video: 'media',
+  pdf: 'file',
+  link: 'link',
+  summary: 'lesson',
+  flashcards: 'lesson',
+  glossary: 'lesson',
+}
+
+/**
+ * LRS the package reports to: the one given at export, otherwise XAPI_LRS_ENDPOINT / XAPI_LRS_AUTH
+ */
+function resolveXapiTarget(input: ScormExportInput): XapiTarget | null {
+  if (!input.xapi) return null
+  if (input.lrsEndpoint) return { endpoint: input.lrsEndpoint, auth: input.lrsAuth || null }
+
+  const endpoint = process.env.XAPI_LRS_ENDPOINT
+  if (!endpoint) throw AppError.badRequest('No LRS endpoint: pass lrsEndpoint or set XAPI_LRS_ENDPOINT')
+  return { endpoint, auth: input.lrsAuth || process.env.XAPI_LRS_AUTH || null }
+}
+
+/** Only http(s) URLs make it into the package */
+function safeUrl(url: string): string | null {
+  return /^https?:\/\//i.test(url.trim()) ? url.trim() : null
+}
+
+function topicName(topic: ExportTopic, lang: Lang): string {
+  return getTranslation(topic.nameJson as TranslationsJson, lang, topic.name)
+}
+
+function playableQuizzes(topic: ExportTopic): ExportQuiz[] {
+  return topic.quizzes.filter((q) => q.questions.length > 0)
+}
+
+function hasContent(topic: ExportTopic): boolean {
+  return topic.materials.length > 0 || playableQuizzes(topic).length > 0
+}
+
+function materialBody(material: ExportMaterial, lang: Lang, title: string): string {
+  if (HTML_MATERIAL_TYPES.includes(material.type)) {
+    // Rich text is stored as HTML and rendered as-is, like the app does
+    return getTranslation(material.contentJson as TranslationsJson, lang, material.content ?? '')
+  }
+
+  const url = safeUrl(getTranslation(material.urlJson as TranslationsJson, lang, material.url ?? ''))
+  if (!url) return ''
+  const href = escapeXml(url)
+  const link = `<p><a href="${href}" target="_blank" rel="noopener noreferrer">${escapeXml(url)}</a></p>`
+
+  switch (material.type) {
+    case 'video': {
+      const youtube = url.match(/(?:youtube\.com\/(?:watch\?v=|embed\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/)
+      const vimeo = url.match(/vimeo\.com\/(\d+)/)
+      const embed = youtube
+        ? `https://www.youtube.com/embed/${youtube[1]}?rel=0`
+        : vimeo
+          ? `https://player.vimeo.com/video/${vimeo[1]}`
+          : null
+      return embed
+        ? `<iframe class="embed" src="${embed}" title="${escapeXml(title)}" allow="fullscreen; picture-in-picture" allowfullscreen></iframe>`
+        : `<video class="embed" src="${href}" controls></video>`
+    }
+    case 'pdf':
+      return `<iframe class="document" src="${href}" title="${escapeXml(title)}"></iframe>\n${link}`
+    default:
+      return link
+  }
+}
+
+/** JSON inside <script>: "</script>" must not end the block early */
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c')
+}
+
+function scoPage(topic: ExportTopic, lang: Lang, xapi: XapiTarget | null): string {
+  const name = topicName(topic, lang)
+  const description = getTranslation(topic.descJson as TranslationsJson, lang, topic.description)
+  const quizzes = playableQuizzes(topic)
+
+  // Materials with nothing to show (e.g. a link that isn't http/https) are left out
+  const materials = topic.materials.flatMap((m) => {
+    const title = getTranslation(m.titleJson as TranslationsJson, lang, m.title)
+    const body = materialBody(m, lang, title)
+    if (!body) return []
+    return [{
+      id: m.id,
+      title,
+      activity: `${FRONTEND_URL}/xapi/materials/${m.id}`,
+      activityType: ACTIVITY_TYPES + MATERIAL_ACTIVITY[m.type],
+      body,
+    }]
+  })
+
+  const data = {
+    topic: { id: topic.id, title: name, activity: `${FRONTEND_URL}/xapi/topics/${topic.id}`, activityType: `${ACTIVITY_TYPES}module` },
+    materials: materials.map(({ body: _body, ...m }) => m),
+    quizzes: quizzes.map((q) => ({
+      id: q.id,
+      title: getTranslation(q.titleJson as TranslationsJson, lang, q.title),
+      activity: `${FRONTEND_URL}/xapi/quizzes/${q.id}`,
+      activityType: `${ACTIVITY_TYPES}assessment`,
+      questions: q.questions.map((question) => ({
+        id: question.id,
+        type: question.type,
+        text: getTranslation(question.textJson as TranslationsJson, lang, question.text),
+        explanation: getTranslation(question.explanationJson as TranslationsJson, lang, question.explanation ?? ''),
+        options: question.options.map((o) => ({
+          id: o.id,
+          text: getTranslation(o.textJson as TranslationsJson, lang, o.text),
+          correct: o.correct,
+        })),
+        numericAnswer: question.numericAnswer,
+        tolerance: question.tolerance,
+        acceptedAnswers: question.acceptedAnswers,
+      })),
+    })),
+    locale: LOCALES[lang].xapi,
+    homePage: FRONTEND_URL,
+    passThreshold: PASS_THRESHOLD,
+    labels: LABELS[lang],
+    xapi,
+  }
+
+  const sections = [
+    ...materials.map((m) => `<section class="material" data-material="${m.id}">\n<h2>${escapeXml(m.title)}</h2>\n${m.body}\n</section>`),
+    ...data.quizzes.map((q) => `<section class="quiz" data-quiz="${q.id}">\n<h2>${escapeXml(q.title)}</h2>\n</section>`),
+  ]
+
+  return `<!DOCTYPE html>
+<html lang="${LOCALES[lang].html}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(name)}</title>
+<link rel="stylesheet" href="../shared/style.css">
+</head>
+<body>
+<main>
+<h1>${escapeXml(name)}</h1>
+${description ? `<p class="description">${escapeXml(description)}</p>\n` : ''}${sections.join('\n')}
+</main>
+<script type="application/json" id="sco-data">${scriptJson(data)}</script>
+<script src="../shared/runtime.js"></script>
+</body>
+</html>
+`
+}
+
+/**
+ * Organization item of a topic. A topic with both content and subtopics becomes a folder
+ * holding its own SCO first: SCORM 1.2 LMSs only launch leaf items.
+ */
+function organizationItem(topic: ExportTopic, lang: Lang, scos: Sco[], indent: string): string {
+  const title = `<title>${escapeXml(topicName(topic, lang))}</title>`
+  const mastery = playableQuizzes(topic).length > 0
+    ? `<adlcp:masteryscore>${Math.round(PASS_THRESHOLD * 100)}</adlcp:masteryscore>`
+    : ''
+
+  const own = hasContent(topic)
+  if (own) scos.push({ id: topic.id, href: `sco/${topic.id}.html` })
+
+  const children = (topic.children ?? [])
+    .map((child) => organizationItem(child, lang, scos, `${indent}  `))
+    .filter(Boolean)
+  const ownItem = (identifier: string) =>
+    `<item identifier="${identifier}" identifierref="RES-${topic.id}">${title}${mastery}</item>`
+
+  if (children.length === 0) return own ? `${indent}${ownItem(`ITEM-${topic.id}`)}` : ''
+
+  return [
+    `${indent}<item identifier="ITEM-${topic.id}">${title}`,
+    ...(own ? [`${indent}  ${ownItem(`ITEM-${topic.id}-SCO`)}`] : []),
+    ...children,
+    `${indent}</item>`,
+  ].join('\n')
+}
+
+function manifest(root: ExportTopic, lang: Lang, scos: Sco[]): string {
+  const items = organizationItem(root, lang, scos, '      ')
+  const resources = scos.map((sco) => `    <resource identifier="RES-${sco.id}" type="webcontent" adlcp:scormtype="sco" href="${sco.href}">
+      <file href="${sco.href}"/>
+      <dependency identifierref="RES-SHARED"/>
+    </resource>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="MANIFEST-${root.id}" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="ORG-${root.id}">
+    <organization identifier="ORG-${root.id}">
+      <title>${escapeXml(topicName(root, lang))}</title>
+${items}
+    </organization>
+  </organizations>
+  <resources>
+${resources.join('\n')}
+    <resource identifier="RES-SHARED" type="webcontent" adlcp:scormtype="asset">
+      <file href="shared/runtime.js"/>
+      <file href="shared/style.css"/>
+    </resource>
+  </resources>
+</manifest>
+`
+}
+
+/**
+ * SCORM 1.2 zip of a root topic and its published content, in one language
+ */
+export async function buildScormPackage(topicId: string, input: ScormExportInput): Promise<ScormPackage> {
+  const topic = await prisma.topic.findUnique({ where: { id: topicId }, select: { parentId: true } })
+  if (!topic) throw AppError.notFound('Topic not found')
+  if (topic.parentId) throw AppError.badRequest('Only root topics can be exported as SCORM packages')
+
+  const xapi = resolveXapiTarget(input)
+  const [root] = await loadTopicTree({ id: topicId }, { publishedOnly: true })
+
+  const scos: Sco[] = []
+  const manifestXml = manifest(root, input.lang, scos)
+  if (scos.length === 0) throw AppError.badRequest('The topic has no published materials or quizzes')
+
+  const pages = new Map<string, ExportTopic>()
+  const collect = (t: ExportTopic) => {
+    pages.set(t.id, t)
+    t.children?.forEach(collect)
+  }
+  collect(root)
+
+  const entries: ZipEntry[] = [
+    { name: 'imsmanifest.xml', data: Buffer.from(manifestXml, 'utf8') },
+    ...scos.map((sco) => ({ name: sco.href, data: Buffer.from(scoPage(pages.get(sco.id)!, input.lang, xapi), 'utf8') })),
+    { name: 'shared/runtime.js', data: Buffer.from(SCORM_RUNTIME_JS, 'utf8') },
+    { name: 'shared/style.css', data: Buffer.from(SCORM_STYLE_CSS, 'utf8') },
+  ]
+
+  logger.info(`[buildScormPackage] topic ${topicId} (${input.lang}): ${scos.length} SCOs${xapi ? ', xAPI on' : ''}`)
+  return {
+    filename: `${root.slug}-scorm12-${input.lang.toLowerCase()}.zip`,
+    data: createZip(entries),
+    scos: scos.length,
+  }
+}
@@ -0,0 +1,69 @@
+// src/services/sessions.service.ts
+/**
+ * Active sessions of a user
+ *
+ * A session is a refresh token family: the token issued at sign-in and every token that
+ * replaced it on refresh. Only the newest token of a family is active; its createdAt is the
+ * last refresh, i.e. roughly the last time the session was used, and its userAgent / ip are
+ * the latest ones. Access tokens carry the family id (sid), which marks the current session
+ * and lets requireAuth reject access tokens of a revoked session.
+ */
+import { prisma } from '../db.js'
+import { AppError } from '../utils/AppError.js'
+import { parseUserAgent, type DeviceType } from '../utils/userAgent.js'
+import { auditLog, AuditActions, AuditResources } from './audit.service.js'
+import { revokeTokenFamily } from './token.service.js'
+
+export interface ActiveSession {
+  id: string
+  browser: string | null
+  os: string | null
+  device: DeviceType
+  ip: string | null
+  createdAt: Date
+  lastUsedAt: Date
+  current: boolean
+}
+
+export async function listSessions(userId: string, currentSessionId?: string): Promise<ActiveSession[]> {
+  const tokens = await prisma.refreshToken.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { familyId: true, userAgent: true, ip: true, sessionStartedAt: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  const sessions = tokens.map((token) => ({
+    id: token.familyId,
+    ...parseUserAgent(token.userAgent),
+    ip: token.ip,
+    createdAt: token.sessionStartedAt,
+    lastUsedAt: token.createdAt,
+    current: token.familyId === currentSessionId,
+  }))
+  // Current session first, then by last use
+  return sessions.sort((a, b) => Number(b.current) - Number(a.current))
+}
+
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  client: { ip?: string; userAgent?: string } = {}
+): Promise<void> {
+  const session = await prisma.refreshToken.findFirst({
+    where: { familyId: sessionId, userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true },
+  })
+  if (!session) {
+    throw AppError.notFound('Session not found')
+  }
+
+  await revokeTokenFamily(sessionId)
+  await auditLog({
+    userId,
+    action: AuditActions.SESSION_REVOKE,
+    resource: AuditResources.USER,
+    resourceId: userId,
+    metadata: { sessionId },
+    ...client,
+  })
+}
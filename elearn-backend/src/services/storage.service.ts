@@ -30,7 +30,7 @@ const s3Client = new S3Client({
 })
 
 // File categories
-export type FileCategory = 'avatars' | 'materials' | 'attachments' | 'temp'
+export type FileCategory = 'avatars' | 'materials' | 'attachments' | 'certificates' | 'temp'
 
 // Generate unique file key (Year/Month/UUID)
 export function generateFileKey(category: FileCategory, originalName: string): string {
@@ -89,6 +89,35 @@ export function getPublicUrl(key: string): string {
   return `${config.endpoint}/${config.bucket}/${key}`
 }
 
+/**
+ * Upload a file generated on the server (e.g. certificate PDFs)
+ * Unlike user uploads this goes through server RAM, so keep it for small files.
+ */
+export async function uploadBuffer(key: string, body: Buffer, mimeType: string): Promise<void> {
+  const command = new PutObjectCommand({
+    Bucket: config.bucket,
+    Key: key,
+    Body: body,
+    ContentType: mimeType,
+  })
+
+  await s3Client.send(command)
+}
+
+/**
+ * Download a stored file into memory (e.g. a PDF for AI text extraction); small files only
+ */
+export async function downloadBuffer(key: string): Promise<Buffer> {
+  const command = new GetObjectCommand({
+    Bucket: config.bucket,
+    Key: key,
+  })
+
+  const response = await s3Client.send(command)
+  if (!response.Body) throw new Error(`Empty body for ${key}`)
+  return Buffer.from(await response.Body.transformToByteArray())
+}
+
 // Delete file
 export async function deleteFile(key: string): Promise<void> {
   const command = new DeleteObjectCommand({
@@ -123,6 +152,7 @@ export const allowedMimeTypes: Record<FileCategory, string[]> = {
     'application/x-zip-compressed',
     'text/plain',
   ],
+  certificates: ['application/pdf'],
   temp: ['*/*'],
 }
 
@@ -133,6 +163,7 @@ export const maxFileSizes: Record<FileCategory, number> = {
   avatars: 5 * 1024 * 1024,      // 5MB
   materials: 500 * 1024 * 1024,  // 500MB (Videos/Books allowed)
   attachments: 50 * 1024 * 1024, // 50MB
+  certificates: 5 * 1024 * 1024, // 5MB
   temp: 500 * 1024 * 1024,       // 500MB
 }
 
@@ -0,0 +1,232 @@
+// src/services/studyAids.service.ts
+/**
+ * AI study aids
+ *
+ * Editors turn a text, PDF or YouTube video material into a summary, flashcards and a
+ * glossary. Each aid becomes a new Draft material of the same topic (type summary, flashcards
+ * or glossary, linked to its source through sourceMaterialId), so it goes through the usual
+ * editorial review before students see it. Content is stored as HTML like text materials: the
+ * summary as paragraphs with a key-point list, flashcards and the glossary as a <dl> of terms
+ * that the frontend turns into cards.
+ *
+ * Generation runs as an AiJob (see aiJobs.service); on request the new materials are then
+ * machine-translated into the other languages, flagged for review.
+ */
+import type { Lang } from '@prisma/client'
+import { prisma } from '../db.js'
+import { AppError } from '../utils/AppError.js'
+import { getTranslation } from '../utils/i18n.js'
+import { logger } from '../utils/logger.js'
+import { downloadPublicFile } from '../utils/publicDownload.js'
+import { escapeXml, htmlToText } from '../utils/quizFormats.js'
+import { aiService, type GeneratedStudyAids, type StudyAidKind } from './ai.service.js'
+import type { AiJobContext } from './aiJobs.service.js'
+import { auditLog, AuditActions, AuditResources } from './audit.service.js'
+import { machineTranslate } from './machineTranslation.service.js'
+import { recordRevision } from './revisions.service.js'
+import { downloadBuffer } from './storage.service.js'
+
+export type StudyAidsInput = {
+  materialId: string
+  kinds: StudyAidKind[]
+  /** Language to write in; the source material's language when absent */
+  language?: Lang
+  translate: boolean
+}
+
+export type StudyAidsResult = {
+  materials: { id: string; type: StudyAidKind; title: string }[]
+  /** Materials machine-translated into the other languages */
+  translated: number
+  /** Set when generation succeeded but machine translation did not */
+  translationError?: string
+}
+
+type TranslationsJson = Record<string, string> | null
+
+const SOURCE_TYPES = ['text', 'pdf', 'video']
+const YOUTUBE_URL = /(?:youtube\.com\/(?:watch\?v=|embed\/)|youtu\.be\/)[a-zA-Z0-9_-]{11}/
+const MAX_PDF_BYTES = 10 * 1024 * 1024
+
+const KIND_TITLES: Record<StudyAidKind, Record<Lang, string>> = {
+  summary: { UA: 'Конспект', PL: 'Podsumowanie', EN: 'Summary' },
+  flashcards: { UA: 'Картки', PL: 'Fiszki', EN: 'Flashcards' },
+  glossary: { UA: 'Глосарій', PL: 'Słowniczek', EN: 'Glossary' },
+}
+
+const KEY_POINTS: Record<Lang, string> = { UA: 'Головне', PL: 'Najważniejsze', EN: 'Key points' }
+
+type SourceMaterial = NonNullable<Awaited<ReturnType<typeof findSource>>>
+
+function findSource(materialId: string) {
+  return prisma.material.findFirst({
+    where: { id: materialId, deletedAt: null },
+    select: {
+      id: true,
+      title: true,
+      titleJson: true,
+      type: true,
+      url: true,
+      urlJson: true,
+      content: true,
+      contentJson: true,
+      lang: true,
+      topicId: true,
+      file: { select: { key: true, size: true } },
+    },
+  })
+}
+
+/**
+ * The material study aids are generated from; rejects types with no text to work with
+ */
+export async function getStudyAidSource(materialId: string, lang?: Lang): Promise<SourceMaterial> {
+  const material = await findSource(materialId)
+  if (!material) {
+    throw AppError.notFound('Material not found')
+  }
+  if (!SOURCE_TYPES.includes(material.type)) {
+    throw AppError.badRequest('Study aids can only be generated from text, PDF or video materials')
+  }
+  if (material.type === 'video' && !YOUTUBE_URL.test(getTranslation(material.urlJson as TranslationsJson, lang ?? material.lang, material.url ?? ''))) {
+    throw AppError.badRequest('Study aids can only be generated from YouTube videos')
+  }
+  return material
+}
+
+/**
+ * Plain text of the source material in the given language (or the closest available one)
+ */
+async function sourceText(material: SourceMaterial, lang: Lang): Promise<string> {
+  switch (material.type) {
+    case 'text':
+      return aiService.extractText(htmlToText(getTranslation(material.contentJson as TranslationsJson, lang, material.content ?? '')), 'text')
+
+    case 'video':
+      return aiService.extractText(getTranslation(material.urlJson as TranslationsJson, lang, material.url ?? ''), 'youtube')
+
+    case 'pdf': {
+      let data: Buffer
+      if (material.file) {
+        if (material.file.size > MAX_PDF_BYTES) throw AppError.badRequest('PDF is too large for study aids (max 10 MB)')
+        data = await downloadBuffer(material.file.key)
+      } else {
+        const url = getTranslation(material.urlJson as TranslationsJson, lang, material.url ?? '')
+        data = await downloadPublicFile(url, MAX_PDF_BYTES)
+      }
+      return aiService.extractText(data.toString('base64'), 'pdf')
+    }
+
+    default:
+      throw AppError.badRequest('Study aids can only be generated from text, PDF or video materials')
+  }
+}
+
+/**
+ * HTML content of one generated aid
+ */
+export function studyAidHtml(kind: StudyAidKind, aids: GeneratedStudyAids, lang: Lang): string {
+  if (kind === 'summary') {
+    const { paragraphs, keyPoints } = aids.summary!
+    const html = paragraphs.map((p) => `<p>${escapeXml(p)}</p>`)
+    if (keyPoints.length > 0) {
+      html.push(`<h3>${KEY_POINTS[lang]}</h3>`, '<ul>', ...keyPoints.map((p) => `<li>${escapeXml(p)}</li>`), '</ul>')
+    }
+    return html.join('\n')
+  }
+
+  const terms = [...aids[kind]!]
+  if (kind === 'glossary') terms.sort((a, b) => a.term.localeCompare(b.term, lang.toLowerCase()))
+  return [
+    '<dl>',
+    ...terms.map((t) => `<dt>${escapeXml(t.term)}</dt><dd>${escapeXml(t.definition)}</dd>`),
+    '</dl>',
+  ].join('\n')
+}
+
+/**
+ * Extract the source text, generate the aids and save them as Draft materials
+ */
+async function createStudyAids(input: StudyAidsInput, job: AiJobContext): Promise<StudyAidsResult['materials']> {
+  const material = await getStudyAidSource(input.materialId, input.language)
+  const language = input.language ?? material.lang
+
+  await job.setStage('extracting')
+  const text = await sourceText(material, language)
+
+  await job.setStage('generating')
+  const aids = await aiService.generateStudyAids(text, language, input.kinds)
+
+  await job.setStage('saving')
+  const sourceTitle = getTranslation(material.titleJson as TranslationsJson, language, material.title)
+  const { materials } = await job.save(async (db) => {
+    const materials: StudyAidsResult['materials'] = []
+    for (const kind of input.kinds) {
+      const title = `${KIND_TITLES[kind][language]}: ${sourceTitle}`
+      const content = studyAidHtml(kind, aids, language)
+      const created = await db.material.create({
+        data: {
+          title,
+          titleJson: { [language]: title },
+          type: kind,
+          content,
+          contentJson: { [language]: content },
+          lang: language,
+          topic: { connect: { id: material.topicId } },
+          position: await db.material.count({ where: { topicId: material.topicId } }),
+          status: 'Draft',
+          createdBy: job.authorId ? { connect: { id: job.authorId } } : undefined,
+          sourceMaterial: { connect: { id: material.id } },
+        },
+        select: { id: true, title: true },
+      })
+      await recordRevision('material', created.id, job.authorId, { db })
+      materials.push({ id: created.id, type: kind, title: created.title })
+    }
+    return { materials, translated: 0 }
+  })
+
+  for (const created of materials) {
+    await auditLog({
+      userId: job.authorId ?? undefined,
+      action: AuditActions.CREATE,
+      resource: AuditResources.MATERIAL,
+      resourceId: created.id,
+      metadata: {
+        topicId: material.topicId,
+        generatedByAI: true,
+        aiJobId: job.id,
+        sourceMaterialId: material.id,
+        kind: created.type,
+        language,
+      },
+    })
+  }
+  return materials
+}
+
+/**
+ * Run a study aids job: generate and save the aids, then optionally machine-translate them.
+ * An attempt that follows one which already saved the aids only translates them.
+ */
+export async function runStudyAidGeneration(input: StudyAidsInput, job: AiJobContext): Promise<StudyAidsResult> {
+  const materials = job.saved ? (job.saved as StudyAidsResult).materials : await createStudyAids(input, job)
+
+  // The aids are saved by now: a translation failure is reported, not retried
+  let translated = 0
+  let translationError: string | undefined
+  if (input.translate && job.authorId) {
+    await job.setStage('translating')
+    try {
+      for (const created of materials) {
+        const result = await machineTranslate('material', created.id, job.authorId)
+        if (result.count > 0) translated++
+      }
+    } catch (err) {
+      translationError = err instanceof Error ? err.message : String(err)
+      logger.warn(`Study aids of material ${input.materialId}: machine translation failed: ${translationError}`)
+    }
+  }
+
+  return { materials, translated, translationError }
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createTokenPair, refreshTokens, revokeRefreshToken, verifyAccessToken } from './token.service.js'
+
+type Row = {
+  id: string
+  token: string
+  userId: string
+  familyId: string
+  sessionStartedAt: Date
+  userAgent?: string
+  ip?: string
+  expiresAt: Date
+  revokedAt: Date | null
+  rotatedAt: Date | null
+  createdAt: Date
+}
+
+const db = vi.hoisted(() => {
+  process.env.JWT_SECRET = 'test-secret'
+  return { rows: [] as Row[], nextId: 1, auditLog: vi.fn() }
+})
+
+function matches(row: Row, where: Record<string, any>) {
+  return Object.entries(where).every(([key, value]) => {
+    const field = row[key as keyof Row]
+    if (value && typeof value === 'object' && 'gt' in value) return field! > value.gt
+    return field === value
+  })
+}
+
+// In-memory refresh token table
+vi.mock('../db.js', () => ({
+  prisma: {
+    refreshToken: {
+      findUnique: async ({ where }: any) => {
+        const row = db.rows.find((r) => matches(r, where))
+        return row ? { ...row, user: { id: row.userId, name: 'Ann', email: 'ann@example.com', role: 'STUDENT' } } : null
+      },
+      findFirst: async ({ where }: any) =>
+        db.rows.filter((r) => matches(r, where)).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0] ?? null,
+      count: async ({ where }: any) => db.rows.filter((r) => matches(r, where)).length,
+      create: async ({ data }: any) => {
+        const row: Row = {
+          id: `rt${db.nextId++}`,
+          sessionStartedAt: new Date(),
+          revokedAt: null,
+          rotatedAt: null,
+          createdAt: new Date(),
+          ...data,
+        }
+        db.rows.push(row)
+        return { id: row.id }
+      },
+      update: async ({ where, data }: any) => Object.assign(db.rows.find((r) => r.id === where.id)!, data),
+      updateMany: async ({ where, data }: any) => {
+        const rows = db.rows.filter((r) => matches(r, where))
+        rows.forEach((r) => Object.assign(r, data))
+        return { count: rows.length }
+      },
+      delete: async ({ where }: any) => {
+        db.rows = db.rows.filter((r) => r.id !== where.id)
+      },
+    },
+  },
+}))
+vi.mock('./audit.service.js', () => ({
+  auditLog: db.auditLog,
+  AuditActions: { REFRESH_TOKEN_REUSE: 'REFRESH_TOKEN_REUSE' },
+  AuditResources: { USER: 'USER' },
+}))
+
+const user = { id: 'user1', name: 'Ann', email: 'ann@example.com', role: 'STUDENT' as const }
+const now = new Date('2026-05-01T09:00:00Z')
+
+const active = () => db.rows.filter((r) => !r.revokedAt)
+
+/** Refresh that is expected to rotate the token */
+async function rotate(refreshToken: string) {
+  const result = await refreshTokens(refreshToken)
+  if (result.status !== 'refreshed') throw new Error(`Expected a refresh, got ${result.status}`)
+  return result.tokens
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now })
+  db.rows = []
+  db.auditLog.mockClear()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('refreshTokens', () => {
+  it('rotates the refresh token within the same session', async () => {
+    const first = await createTokenPair(user)
+    vi.advanceTimersByTime(60_000)
+    const second = await rotate(first.refreshToken)
+
+    expect(second.refreshToken).not.toBe(first.refreshToken)
+    expect(db.rows).toHaveLength(2)
+    expect(db.rows[0]).toMatchObject({ revokedAt: new Date(now.getTime() + 60_000), rotatedAt: new Date(now.getTime() + 60_000) })
+    expect(db.rows[1]).toMatchObject({ familyId: db.rows[0].familyId, sessionStartedAt: db.rows[0].sessionStartedAt, revokedAt: null })
+    expect(verifyAccessToken(second.accessToken)).toMatchObject({ id: user.id, sid: db.rows[0].familyId })
+  })
+
+  it('asks a replay within the grace window to retry, without revoking the session', async () => {
+    const first = await createTokenPair(user)
+    const second = await rotate(first.refreshToken)
+
+    vi.advanceTimersByTime(5_000)
+    expect(await refreshTokens(first.refreshToken)).toEqual({ status: 'retry' })
+    expect(active().map((r) => r.token)).toEqual([second.refreshToken])
+    expect(db.auditLog).not.toHaveBeenCalled()
+  })
+
+  it('revokes the whole session when a rotated token is reused later', async () => {
+    const other = await createTokenPair(user)
+    const first = await createTokenPair(user)
+    const second = await rotate(first.refreshToken)
+    const third = await rotate(second.refreshToken)
+
+    vi.advanceTimersByTime(11_000)
+    expect(await refreshTokens(first.refreshToken)).toEqual({ status: 'invalid' })
+    expect(await refreshTokens(third.refreshToken)).toEqual({ status: 'invalid' })
+    expect(active().map((r) => r.token)).toEqual([other.refreshToken])
+    expect(db.auditLog).toHaveBeenCalledOnce()
+    expect(db.auditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'REFRESH_TOKEN_REUSE' }))
+  })
+
+  it('lets only one of two concurrent refreshes win and asks the other to retry', async () => {
+    const first = await createTokenPair(user)
+    const results = await Promise.all([refreshTokens(first.refreshToken), refreshTokens(first.refreshToken)])
+
+    expect(results.map((r) => r.status).sort()).toEqual(['refreshed', 'retry'])
+    expect(active()).toHaveLength(1)
+  })
+
+  it('refuses expired, logged out and unknown tokens', async () => {
+    const first = await createTokenPair(user)
+    const loggedOut = await createTokenPair(user)
+    await revokeRefreshToken(loggedOut.refreshToken)
+    expect(await refreshTokens(loggedOut.refreshToken)).toEqual({ status: 'invalid' })
+
+    vi.advanceTimersByTime(8 * 24 * 60 * 60 * 1000)
+    expect(await refreshTokens(first.refreshToken)).toEqual({ status: 'invalid' })
+    expect(db.rows[0].revokedAt).not.toBeNull()
+    expect(await refreshTokens('no-such-token')).toEqual({ status: 'invalid' })
+  })
+})
+
+describe('revokeRefreshToken', () => {
+  it('ends the session the token belongs to', async () => {
+    const kept = await createTokenPair(user)
+    const first = await createTokenPair(user)
+    const second = await rotate(first.refreshToken)
+
+    await revokeRefreshToken(second.refreshToken)
+    expect(active().map((r) => r.token)).toEqual([kept.refreshToken])
+  })
+})
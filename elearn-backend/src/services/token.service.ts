@@ -3,11 +3,16 @@ import crypto from 'crypto'
 import jwt, { type SignOptions } from 'jsonwebtoken'
 import { prisma } from '../db.js'
 import { getJwtSecret, getEnv } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { auditLog, AuditActions, AuditResources } from './audit.service.js'
 import type { Role } from '../shared'
 
 const JWT_SECRET = getJwtSecret()
 const ACCESS_TOKEN_EXPIRES = getEnv('ACCESS_TOKEN_EXPIRES', '15m') as SignOptions['expiresIn']
 const REFRESH_TOKEN_EXPIRES_DAYS = parseInt(getEnv('REFRESH_TOKEN_EXPIRES_DAYS', '7'))
+const TWO_FACTOR_CHALLENGE_EXPIRES = '5m'
+// Паралельні запити (кілька вкладок) можуть оновити той самий токен одночасно — це ще не крадіжка
+const REFRESH_REUSE_GRACE_MS = 10 * 1000
 
 export interface JwtPayload {
   id: string
@@ -15,6 +20,16 @@ export interface JwtPayload {
   name: string
   email: string
   type: 'access' | 'refresh'
+  /** Сесія (familyId refresh-токенів) */
+  sid?: string
+}
+
+/**
+ * Сесія, до якої належить новий refresh токен; без неї починається нова
+ */
+interface SessionRef {
+  familyId: string
+  sessionStartedAt: Date
 }
 
 export interface TokenPair {
@@ -22,6 +37,15 @@ export interface TokenPair {
   refreshToken: string
 }
 
+/**
+ * Результат оновлення токенів. 'retry': токен щойно замінив паралельний запит (інша вкладка),
+ * нові cookies вже в браузері — клієнт має повторити запит, а не виходити
+ */
+export type RefreshResult =
+  | { status: 'refreshed'; tokens: TokenPair }
+  | { status: 'retry' }
+  | { status: 'invalid' }
+
 /**
  * Генерує випадковий токен
  */
@@ -32,9 +56,9 @@ export function generateRandomToken(bytes = 32): string {
 /**
  * Створює access токен (короткоживучий)
  */
-export function createAccessToken(user: { id: string; name: string; email: string; role: Role }): string {
+export function createAccessToken(user: { id: string; name: string; email: string; role: Role }, sessionId?: string): string {
   return jwt.sign(
-    { id: user.id, role: user.role, name: user.name, email: user.email, type: 'access' },
+    { id: user.id, role: user.role, name: user.name, email: user.email, type: 'access', sid: sessionId },
     JWT_SECRET,
     { expiresIn: ACCESS_TOKEN_EXPIRES }
   )
@@ -42,18 +66,19 @@ export function createAccessToken(user: { id: string; name: string; email: strin
 
 /**
  * Створює refresh токен та зберігає в БД
- * Обмежує кількість активних сесій до 3
+ * Обмежує кількість активних сесій до 3 (при ротації сесія та сама, ліміт не перевіряється)
  */
 export async function createRefreshToken(
   userId: string, 
   userAgent?: string, 
-  ip?: string
-): Promise<string> {
+  ip?: string,
+  session?: SessionRef
+): Promise<{ token: string; id: string; familyId: string }> {
   const token = generateRandomToken(64)
   const expiresAt = new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000)
   
   // SECURITY: Обмеження сесій - максимум 3 активні токени на користувача
-  const activeTokens = await prisma.refreshToken.count({
+  const activeTokens = session ? 0 : await prisma.refreshToken.count({
     where: {
       userId,
       revokedAt: null,
@@ -80,17 +105,21 @@ export async function createRefreshToken(
     }
   }
   
-  await prisma.refreshToken.create({
+  const familyId = session?.familyId ?? crypto.randomUUID()
+  const created = await prisma.refreshToken.create({
     data: {
       token,
       userId,
+      familyId,
+      sessionStartedAt: session?.sessionStartedAt,
       userAgent,
       ip,
       expiresAt,
     },
+    select: { id: true },
   })
   
-  return token
+  return { token, id: created.id, familyId }
 }
 
 /**
@@ -99,12 +128,13 @@ export async function createRefreshToken(
 export async function createTokenPair(
   user: { id: string; name: string; email: string; role: Role },
   userAgent?: string,
-  ip?: string
+  ip?: string,
+  session?: SessionRef
 ): Promise<TokenPair> {
-  const accessToken = createAccessToken(user)
-  const refreshToken = await createRefreshToken(user.id, userAgent, ip)
+  const refresh = await createRefreshToken(user.id, userAgent, ip, session)
+  const accessToken = createAccessToken(user, refresh.familyId)
   
-  return { accessToken, refreshToken }
+  return { accessToken, refreshToken: refresh.token }
 }
 
 /**
@@ -114,15 +144,39 @@ export async function refreshTokens(
   refreshToken: string,
   userAgent?: string,
   ip?: string
-): Promise<TokenPair | null> {
+): Promise<RefreshResult> {
   const tokenRecord = await prisma.refreshToken.findUnique({
     where: { token: refreshToken },
     include: { user: true },
   })
   
-  // Токен не знайдено або відкликано
-  if (!tokenRecord || tokenRecord.revokedAt) {
-    return null
+  // Токен не знайдено
+  if (!tokenRecord) {
+    return { status: 'invalid' }
+  }
+  
+  // Відкликаний токен. Якщо його вже замінено новим, а ним користуються знову, копія токена
+  // є в когось іще — відкликаємо всю сесію. Одразу після заміни це паралельний запит
+  if (tokenRecord.revokedAt) {
+    if (tokenRecord.rotatedAt && Date.now() - tokenRecord.rotatedAt.getTime() <= REFRESH_REUSE_GRACE_MS) {
+      return { status: 'retry' }
+    }
+    if (tokenRecord.rotatedAt) {
+      const revoked = await revokeTokenFamily(tokenRecord.familyId)
+      if (revoked > 0) {
+        logger.warn(`Refresh token reuse detected, session ${tokenRecord.familyId} of user ${tokenRecord.userId} revoked`)
+        await auditLog({
+          userId: tokenRecord.userId,
+          action: AuditActions.REFRESH_TOKEN_REUSE,
+          resource: AuditResources.USER,
+          resourceId: tokenRecord.userId,
+          metadata: { sessionId: tokenRecord.familyId },
+          ip,
+          userAgent,
+        })
+      }
+    }
+    return { status: 'invalid' }
   }
   
   // Токен протермінований
@@ -131,32 +185,54 @@ export async function refreshTokens(
       where: { id: tokenRecord.id },
       data: { revokedAt: new Date() },
     })
-    return null
+    return { status: 'invalid' }
   }
   
-  // Відкликаємо старий токен (token rotation)
-  await prisma.refreshToken.update({
-    where: { id: tokenRecord.id },
-    data: { revokedAt: new Date() },
+  // Token rotation: спершу новий токен тієї ж сесії, щоб сесія не лишалась без активного токена,
+  // потім умовно відкликаємо старий — з двох одночасних оновлень виграє лише одне
+  const user = tokenRecord.user
+  const session = { familyId: tokenRecord.familyId, sessionStartedAt: tokenRecord.sessionStartedAt }
+  const refresh = await createRefreshToken(user.id, userAgent, ip, session)
+  
+  const now = new Date()
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: tokenRecord.id, revokedAt: null },
+    data: { revokedAt: now, rotatedAt: now },
   })
+  if (count === 0) {
+    // Паралельний запит замінив токен першим
+    await prisma.refreshToken.delete({ where: { id: refresh.id } })
+    return { status: 'retry' }
+  }
   
-  // Створюємо нову пару токенів
-  const user = tokenRecord.user
-  return createTokenPair(
-    { id: user.id, name: user.name, email: user.email, role: user.role as Role },
-    userAgent,
-    ip
-  )
+  return {
+    status: 'refreshed',
+    tokens: {
+      accessToken: createAccessToken({ id: user.id, name: user.name, email: user.email, role: user.role as Role }, refresh.familyId),
+      refreshToken: refresh.token,
+    },
+  }
 }
 
 /**
- * Відкликає конкретний refresh токен
+ * Відкликає всі токени сесії, повертає кількість відкликаних активних
  */
-export async function revokeRefreshToken(token: string): Promise<void> {
-  await prisma.refreshToken.updateMany({
-    where: { token, revokedAt: null },
+export async function revokeTokenFamily(familyId: string): Promise<number> {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
     data: { revokedAt: new Date() },
   })
+  return count
+}
+
+/**
+ * Відкликає сесію, до якої належить refresh токен (logout)
+ */
+export async function revokeRefreshToken(token: string): Promise<void> {
+  const record = await prisma.refreshToken.findUnique({ where: { token }, select: { familyId: true } })
+  if (record) {
+    await revokeTokenFamily(record.familyId)
+  }
 }
 
 /**
@@ -182,6 +258,27 @@ export function verifyAccessToken(token: string): JwtPayload | null {
   }
 }
 
+/**
+ * Створює токен другого кроку входу (2FA): пароль уже перевірено, сесії ще немає.
+ * Запам'ятовує лічильник невдалих спроб на момент видачі, щоб обмежити кількість кодів на один токен
+ */
+export function createTwoFactorChallenge(userId: string, failedAttempts = 0): string {
+  return jwt.sign({ id: userId, type: 'two_factor', failedAttempts }, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES })
+}
+
+/**
+ * Верифікує токен другого кроку входу
+ */
+export function verifyTwoFactorChallenge(token: string): { userId: string; failedAttempts: number } | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { id: string; type: string; failedAttempts?: number }
+    if (payload.type !== 'two_factor') return null
+    return { userId: payload.id, failedAttempts: payload.failedAttempts ?? 0 }
+  } catch {
+    return null
+  }
+}
+
 /**
  * Очищає протерміновані токени (для cron job)
  */
@@ -190,7 +287,8 @@ export async function cleanupExpiredTokens(): Promise<number> {
     where: {
       OR: [
         { expiresAt: { lt: new Date() } },
-        { revokedAt: { not: null } },
+        // Замінені при ротації токени лишаються до закінчення строку, щоб помітити їх повторне використання
+        { revokedAt: { not: null }, rotatedAt: null },
       ],
     },
   })
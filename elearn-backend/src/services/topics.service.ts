@@ -54,7 +54,7 @@ export async function getTopics(params: TopicQueryParams) {
 
   const topics = await prisma.topic.findMany({
     where: whereClause,
-    orderBy: { createdAt: 'asc' },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
     skip: (page - 1) * limit,
     take: limit,
     select: {
@@ -69,6 +69,7 @@ export async function getTopics(params: TopicQueryParams) {
       descJson: true, // FIXED: was descCache
       children: {
         where: isStaff ? {} : { status: 'Published' },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
         select: {
           id: true,
           slug: true,
@@ -84,6 +85,7 @@ export async function getTopics(params: TopicQueryParams) {
               ...(isStaff ? {} : { status: 'Published' }),
               deletedAt: null,
             },
+            orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
             select: {
               id: true,
               title: true,
@@ -94,13 +96,14 @@ export async function getTopics(params: TopicQueryParams) {
               titleJson: true, // FIXED
               contentJson: true, // FIXED
               status: true
-            } as any
+            }
           },
           quizzes: {
             where: {
               ...(isStaff ? {} : { status: 'Published' }),
               deletedAt: null,
             },
+            orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
             select: {
               id: true,
               title: true,
@@ -115,6 +118,7 @@ export async function getTopics(params: TopicQueryParams) {
           ...(isStaff ? {} : { status: 'Published' }),
           deletedAt: null,
         },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
         select: {
           id: true,
           title: true,
@@ -125,13 +129,14 @@ export async function getTopics(params: TopicQueryParams) {
           titleJson: true, // FIXED
           contentJson: true, // FIXED
           status: true
-        } as any
+        }
       },
       quizzes: {
         where: {
           ...(isStaff ? {} : { status: 'Published' }),
           deletedAt: null,
         },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
         select: {
           id: true,
           title: true,
@@ -219,6 +224,7 @@ export async function getTopicByIdOrSlug(
       descJson: true, // FIXED
       children: {
         where: isStaff ? {} : { status: 'Published' },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
         select: {
           id: true,
           slug: true,
@@ -231,21 +237,24 @@ export async function getTopicByIdOrSlug(
           ...(isStaff ? {} : { status: 'Published' }),
           deletedAt: null,
         },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
         select: {
           id: true,
           title: true,
           type: true,
           url: true,
+          urlJson: true,
           content: true,
           titleJson: true, // FIXED
           contentJson: true // FIXED
-        } as any
+        }
       },
       quizzes: {
         where: {
           ...(isStaff ? {} : { status: 'Published' }),
           deletedAt: null,
         },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
         select: {
           id: true,
           title: true,
@@ -0,0 +1,491 @@
+// src/services/translations.service.ts
+/**
+ * Translation coverage
+ *
+ * Localized text lives in *Json fields ({"UA": "...", "PL": "...", "EN": "..."}) and readers
+ * silently get the EN text (or the fallback column) when their language is missing, so gaps
+ * never show up on their own. This service reports which translations exist per topic,
+ * material, quiz and question, lists the gaps and backs the side-by-side translation editor.
+ *
+ * EN is the source language. Every UA/PL translation gets a TranslationStamp holding a hash of
+ * the EN text it was written against; when the EN text changes afterwards the hash no longer
+ * matches and the translation is stale until it is edited or confirmed. Translations written
+ * while a field had no EN text are not tracked. URLs are not translated text and are left out.
+ *
+ * Machine translations (see machineTranslation.service) are stored in the *Json fields like
+ * any other text, with the stamp flagged `machine` until an editor accepts, edits or rejects
+ * them; that flag is the only stamp a source-language (EN) text can have.
+ */
+import crypto from 'crypto'
+import type { Lang, Prisma, TranslationEntity } from '@prisma/client'
+import { prisma } from '../db.js'
+import { AppError } from '../utils/AppError.js'
+import { filledTranslations } from '../utils/i18n.js'
+
+type Db = Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>
+
+type Localized = Record<string, string>
+
+/** Tracked localized fields of one entity: { titleJson: {...}, "options[0].textJson": {...} } */
+export type LocalizedFields = Record<string, Localized>
+
+export type TranslationState = 'translated' | 'missing' | 'stale' | 'machine'
+
+export type TranslationCounts = { fields: number; translated: number; missing: number; stale: number; machine: number }
+
+export const TRANSLATION_LANGS: Lang[] = ['UA', 'PL', 'EN']
+export const SOURCE_LANG: Lang = 'EN'
+
+const ENTITIES: TranslationEntity[] = ['topic', 'material', 'quiz', 'question']
+
+// The first field of each entity is its title and always counts, even when empty
+const TRACKED_FIELDS: Record<TranslationEntity, string[]> = {
+  topic: ['nameJson', 'descJson'],
+  material: ['titleJson', 'contentJson'],
+  quiz: ['titleJson'],
+  question: ['textJson', 'explanationJson'],
+}
+
+// Fallback columns that mirror the EN text
+const FALLBACK_COLUMNS: Record<string, string> = {
+  nameJson: 'name',
+  descJson: 'description',
+  titleJson: 'title',
+  contentJson: 'content',
+  textJson: 'text',
+  explanationJson: 'explanation',
+}
+
+const OPTION_FIELD = /^options\[(\d+)\]\.textJson$/
+
+const hash = (text: string) => crypto.createHash('sha1').update(text).digest('hex')
+
+/**
+ * Tracked fields of an entity record (or revision snapshot); question options are expected
+ * in id order, like in revision snapshots
+ */
+export function localizedFields(entity: TranslationEntity, record: Record<string, unknown>): LocalizedFields {
+  const fields: LocalizedFields = {}
+  for (const field of TRACKED_FIELDS[entity]) fields[field] = filledTranslations(record[field])
+  if (entity === 'question') {
+    const options = (record.options ?? []) as { textJson?: unknown }[]
+    options.forEach((o, i) => {
+      fields[`options[${i}].textJson`] = filledTranslations(o.textJson)
+    })
+  }
+  return fields
+}
+
+/** Whether a field takes part in coverage: titles and options always, the rest once written */
+function isCounted(entity: TranslationEntity, field: string, values: Localized): boolean {
+  return field === TRACKED_FIELDS[entity][0] || OPTION_FIELD.test(field) || Object.keys(values).length > 0
+}
+
+type StampKey = string
+type Stamp = { sourceHash: string; machine: boolean }
+const stampKey = (entity: string, id: string, field: string, lang: string): StampKey => `${entity}:${id}:${field}:${lang}`
+
+function stampMap(stamps: Array<Stamp & { entityType: string; entityId: string; field: string; lang: string }>) {
+  return new Map(stamps.map((s) => [stampKey(s.entityType, s.entityId, s.field, s.lang), s as Stamp]))
+}
+
+function fieldStates(
+  entity: TranslationEntity,
+  id: string,
+  field: string,
+  values: Localized,
+  stamps: Map<StampKey, Stamp>
+): Record<Lang, TranslationState> {
+  const states = {} as Record<Lang, TranslationState>
+  const source = values[SOURCE_LANG]
+  for (const lang of TRANSLATION_LANGS) {
+    const stamp = stamps.get(stampKey(entity, id, field, lang))
+    if (!values[lang]) states[lang] = 'missing'
+    else if (stamp?.machine) states[lang] = 'machine'
+    else if (lang !== SOURCE_LANG && source && stamp && stamp.sourceHash !== hash(source)) states[lang] = 'stale'
+    else states[lang] = 'translated'
+  }
+  return states
+}
+
+/**
+ * Update the stamps of an entity after a save. Translations that changed are stamped with the
+ * current EN text and count as reviewed; translations left untouched while the EN text changed
+ * keep (or, if they predate stamping, get) the hash of the previous EN text, which makes them
+ * stale.
+ */
+export async function syncTranslationStamps(
+  entity: TranslationEntity,
+  id: string,
+  before: LocalizedFields | null,
+  after: LocalizedFields,
+  db: Db = prisma
+): Promise<void> {
+  await db.translationStamp.deleteMany({
+    where: { entityType: entity, entityId: id, field: { notIn: Object.keys(after) } },
+  })
+
+  for (const [field, values] of Object.entries(after)) {
+    const previous = before?.[field] ?? {}
+    const source = values[SOURCE_LANG]
+    const previousSource = previous[SOURCE_LANG]
+
+    if (source !== previousSource) {
+      // A changed EN text is no longer the machine translation
+      await db.translationStamp.deleteMany({ where: { entityType: entity, entityId: id, field, lang: SOURCE_LANG } })
+    }
+
+    for (const lang of TRANSLATION_LANGS) {
+      if (lang === SOURCE_LANG) continue
+      const where = { entityType: entity, entityId: id, field, lang }
+
+      if (!values[lang] || (values[lang] !== previous[lang] && !source)) {
+        if (previous[lang]) await db.translationStamp.deleteMany({ where })
+      } else if (values[lang] !== previous[lang]) {
+        await db.translationStamp.upsert({
+          where: { entityType_entityId_field_lang: where },
+          create: { ...where, sourceHash: hash(source) },
+          update: { sourceHash: hash(source), machine: false },
+        })
+      } else if (previousSource && previousSource !== source) {
+        await db.translationStamp.upsert({
+          where: { entityType_entityId_field_lang: where },
+          create: { ...where, sourceHash: hash(previousSource) },
+          update: {},
+        })
+      }
+    }
+  }
+}
+
+// ==================== LOADING ====================
+
+const questionSelect = {
+  id: true,
+  text: true,
+  textJson: true,
+  explanationJson: true,
+  quizId: true,
+  options: { select: { id: true, textJson: true }, orderBy: { id: 'asc' } },
+} satisfies Prisma.QuestionSelect
+
+/** One entity with its tracked fields, as shown in reports and the editor */
+type TranslationUnit = {
+  entity: TranslationEntity
+  id: string
+  title: string
+  topicId: string | null
+  quizId: string | null
+  fields: LocalizedFields
+}
+
+async function loadUnit(entity: TranslationEntity, id: string, db: Db = prisma): Promise<TranslationUnit & { optionIds: string[] }> {
+  switch (entity) {
+    case 'topic': {
+      const t = await db.topic.findUnique({ where: { id } })
+      if (!t) throw AppError.notFound('Topic not found')
+      return { entity, id, title: t.name, topicId: t.id, quizId: null, fields: localizedFields(entity, t), optionIds: [] }
+    }
+    case 'material': {
+      const m = await db.material.findUnique({ where: { id } })
+      if (!m) throw AppError.notFound('Material not found')
+      return { entity, id, title: m.title, topicId: m.topicId, quizId: null, fields: localizedFields(entity, m), optionIds: [] }
+    }
+    case 'quiz': {
+      const q = await db.quiz.findUnique({ where: { id } })
+      if (!q) throw AppError.notFound('Quiz not found')
+      return { entity, id, title: q.title, topicId: q.topicId, quizId: q.id, fields: localizedFields(entity, q), optionIds: [] }
+    }
+    case 'question': {
+      const q = await db.question.findUnique({
+        where: { id },
+        select: { ...questionSelect, quiz: { select: { topicId: true } } },
+      })
+      if (!q) throw AppError.notFound('Question not found')
+      return {
+        entity,
+        id,
+        title: q.text,
+        topicId: q.quiz.topicId,
+        quizId: q.quizId,
+        fields: localizedFields(entity, q),
+        optionIds: q.options.map((o) => o.id),
+      }
+    }
+  }
+}
+
+async function loadAllUnits() {
+  const [topics, materials, quizzes, stamps] = await Promise.all([
+    prisma.topic.findMany({
+      select: { id: true, slug: true, name: true, nameJson: true, descJson: true, parentId: true, position: true },
+      orderBy: [{ position: 'asc' }, { name: 'asc' }],
+    }),
+    prisma.material.findMany({
+      select: { id: true, title: true, titleJson: true, contentJson: true, topicId: true },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.quiz.findMany({
+      select: { id: true, title: true, titleJson: true, topicId: true, questions: { select: questionSelect, orderBy: { id: 'asc' } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.translationStamp.findMany({
+      select: { entityType: true, entityId: true, field: true, lang: true, sourceHash: true, machine: true },
+    }),
+  ])
+
+  const units: TranslationUnit[] = [
+    ...topics.map((t) => ({ entity: 'topic' as const, id: t.id, title: t.name, topicId: t.id, quizId: null, fields: localizedFields('topic', t) })),
+    ...materials.map((m) => ({ entity: 'material' as const, id: m.id, title: m.title, topicId: m.topicId, quizId: null, fields: localizedFields('material', m) })),
+    ...quizzes.flatMap((q) => [
+      { entity: 'quiz' as const, id: q.id, title: q.title, topicId: q.topicId, quizId: q.id, fields: localizedFields('quiz', q) },
+      ...q.questions.map((question) => ({
+        entity: 'question' as const,
+        id: question.id,
+        title: question.text,
+        topicId: q.topicId,
+        quizId: q.id,
+        fields: localizedFields('question', question),
+      })),
+    ]),
+  ]
+
+  return { topics, units, stamps: stampMap(stamps) }
+}
+
+// ==================== REPORTS ====================
+
+const emptyCounts = (): Record<Lang, TranslationCounts> =>
+  Object.fromEntries(TRANSLATION_LANGS.map((lang) => [lang, { fields: 0, translated: 0, missing: 0, stale: 0, machine: 0 }])) as Record<Lang, TranslationCounts>
+
+const emptyByEntity = () =>
+  Object.fromEntries(ENTITIES.map((e) => [e, emptyCounts()])) as Record<TranslationEntity, Record<Lang, TranslationCounts>>
+
+function addStates(counts: Record<Lang, TranslationCounts>, states: Record<Lang, TranslationState>) {
+  for (const lang of TRANSLATION_LANGS) {
+    const c = counts[lang]
+    c.fields++
+    if (states[lang] === 'missing') c.missing++
+    else c.translated++
+    if (states[lang] === 'stale') c.stale++
+    if (states[lang] === 'machine') c.machine++
+  }
+}
+
+/**
+ * Coverage per language, overall and per topic (counting the topic itself and the materials,
+ * quizzes and questions directly in it). Counts are in fields: a material with a title and
+ * text counts twice.
+ */
+export async function getTranslationCoverage() {
+  const { topics, units, stamps } = await loadAllUnits()
+
+  const totals = emptyCounts()
+  const byEntity = emptyByEntity()
+  const perTopic = new Map(topics.map((t) => [t.id, { totals: emptyCounts(), byEntity: emptyByEntity() }]))
+
+  for (const unit of units) {
+    const topic = unit.topicId ? perTopic.get(unit.topicId) : undefined
+    for (const [field, values] of Object.entries(unit.fields)) {
+      if (!isCounted(unit.entity, field, values)) continue
+      const states = fieldStates(unit.entity, unit.id, field, values, stamps)
+      addStates(totals, states)
+      addStates(byEntity[unit.entity], states)
+      if (topic) {
+        addStates(topic.totals, states)
+        addStates(topic.byEntity[unit.entity], states)
+      }
+    }
+  }
+
+  return {
+    langs: TRANSLATION_LANGS,
+    sourceLang: SOURCE_LANG,
+    totals,
+    byEntity,
+    topics: topics.map((t) => ({
+      id: t.id,
+      slug: t.slug,
+      name: t.name,
+      parentId: t.parentId,
+      ...perTopic.get(t.id)!,
+    })),
+  }
+}
+
+export type TranslationGapQuery = {
+  lang?: Lang
+  entity?: TranslationEntity
+  topicId?: string
+  state?: 'missing' | 'stale' | 'machine'
+  page: number
+  limit: number
+}
+
+/**
+ * Missing, stale and unreviewed machine translations, one item per entity with the affected
+ * fields and languages. The source language is never stale.
+ */
+export async function listTranslationGaps(query: TranslationGapQuery) {
+  const { topics, units, stamps } = await loadAllUnits()
+  const topicNames = new Map(topics.map((t) => [t.id, t.name]))
+  const langs = query.lang ? [query.lang] : TRANSLATION_LANGS
+
+  const items = []
+  for (const unit of units) {
+    if (query.entity && unit.entity !== query.entity) continue
+    if (query.topicId && unit.topicId !== query.topicId) continue
+
+    const fields = []
+    for (const [field, values] of Object.entries(unit.fields)) {
+      if (!isCounted(unit.entity, field, values)) continue
+      const states = fieldStates(unit.entity, unit.id, field, values, stamps)
+      const pick = (state: TranslationState) =>
+        !query.state || query.state === state ? langs.filter((l) => states[l] === state) : []
+      const [missing, stale, machine] = [pick('missing'), pick('stale'), pick('machine')]
+      if (missing.length > 0 || stale.length > 0 || machine.length > 0) fields.push({ field, missing, stale, machine })
+    }
+    if (fields.length === 0) continue
+
+    items.push({
+      entity: unit.entity,
+      id: unit.id,
+      title: unit.title,
+      topic: unit.topicId ? { id: unit.topicId, name: topicNames.get(unit.topicId) ?? '' } : null,
+      quizId: unit.quizId,
+      fields,
+    })
+  }
+
+  const start = (query.page - 1) * query.limit
+  return {
+    items: items.slice(start, start + query.limit),
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total: items.length,
+      pages: Math.ceil(items.length / query.limit),
+    },
+  }
+}
+
+// ==================== EDITOR ====================
+
+/**
+ * All tracked fields of one entity in every language, with their translation states
+ */
+export async function getTranslationSheet(entity: TranslationEntity, id: string) {
+  const unit = await loadUnit(entity, id)
+  const stamps = stampMap(await prisma.translationStamp.findMany({ where: { entityType: entity, entityId: id } }))
+
+  return {
+    entity,
+    id,
+    title: unit.title,
+    topicId: unit.topicId,
+    quizId: unit.quizId,
+    sourceLang: SOURCE_LANG,
+    fields: Object.entries(unit.fields).map(([field, values]) => ({
+      field,
+      values,
+      states: fieldStates(entity, id, field, values, stamps),
+    })),
+  }
+}
+
+/** Merge one language into a stored JSON value; an empty text removes the translation */
+function withTranslation(json: unknown, lang: Lang, text: string): Localized {
+  const next = filledTranslations(json)
+  if (text.trim()) next[lang] = text
+  else delete next[lang]
+  return next
+}
+
+/**
+ * Write the texts of one language from the side-by-side editor. Fields in `confirm` are
+ * translations the translator checked against the current EN text without changing them
+ * (or accepted machine translations); they stop being stale or unreviewed. EN texts also
+ * update the fallback columns.
+ */
+export async function saveTranslations(
+  entity: TranslationEntity,
+  id: string,
+  lang: Lang,
+  values: Record<string, string>,
+  confirm: string[] = []
+) {
+  const unit = await loadUnit(entity, id)
+  for (const field of [...Object.keys(values), ...confirm]) {
+    if (!(field in unit.fields)) throw AppError.badRequest(`Unknown field: ${field}`)
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const data: Record<string, unknown> = {}
+    for (const [field, text] of Object.entries(values)) {
+      const option = OPTION_FIELD.exec(field)
+      if (option) {
+        const optionId = unit.optionIds[Number(option[1])]
+        const current = await tx.option.findUniqueOrThrow({ where: { id: optionId }, select: { textJson: true } })
+        await tx.option.update({
+          where: { id: optionId },
+          data: {
+            textJson: withTranslation(current.textJson, lang, text),
+            ...(lang === SOURCE_LANG && text.trim() && { text }),
+          },
+        })
+        continue
+      }
+      data[field] = withTranslation(unit.fields[field], lang, text)
+      if (lang === SOURCE_LANG && text.trim()) data[FALLBACK_COLUMNS[field]] = text
+    }
+
+    if (Object.keys(data).length > 0) {
+      const args = { where: { id }, data }
+      switch (entity) {
+        case 'topic': await tx.topic.update(args as Prisma.TopicUpdateArgs); break
+        case 'material': await tx.material.update(args as Prisma.MaterialUpdateArgs); break
+        case 'quiz': await tx.quiz.update(args as Prisma.QuizUpdateArgs); break
+        case 'question': await tx.question.update(args as Prisma.QuestionUpdateArgs); break
+      }
+    }
+
+    const after = (await loadUnit(entity, id, tx)).fields
+    await syncTranslationStamps(entity, id, unit.fields, after, tx)
+
+    for (const field of confirm) {
+      const where = { entityType: entity, entityId: id, field, lang }
+      const source = after[field][SOURCE_LANG]
+      if (lang === SOURCE_LANG || !source) {
+        await tx.translationStamp.deleteMany({ where })
+      } else if (after[field][lang]) {
+        await tx.translationStamp.upsert({
+          where: { entityType_entityId_field_lang: where },
+          create: { ...where, sourceHash: hash(source) },
+          update: { sourceHash: hash(source), machine: false },
+        })
+      }
+    }
+  })
+
+  return getTranslationSheet(entity, id)
+}
+
+/**
+ * Flag freshly written machine translations for review
+ */
+export async function markMachineTranslated(
+  entity: TranslationEntity,
+  id: string,
+  entries: { field: string; lang: Lang }[]
+): Promise<void> {
+  const { fields } = await loadUnit(entity, id)
+  for (const { field, lang } of entries) {
+    const where = { entityType: entity, entityId: id, field, lang }
+    const sourceHash = hash(fields[field]?.[SOURCE_LANG] ?? '')
+    await prisma.translationStamp.upsert({
+      where: { entityType_entityId_field_lang: where },
+      create: { ...where, sourceHash, machine: true },
+      update: { sourceHash, machine: true },
+    })
+  }
+}
@@ -0,0 +1,303 @@
+// src/services/twoFactor.service.ts
+/**
+ * Two-factor authentication (TOTP)
+ *
+ * Enrolment: setup stores a new secret and returns it with a QR code for the authenticator
+ * app; 2FA is switched on only once a code from the app is confirmed, which also issues ten
+ * one-time recovery codes (only their SHA-256 hashes are stored). At login the second step
+ * accepts either a TOTP code or an unused recovery code.
+ *
+ * ADMIN can make 2FA mandatory per role (TwoFactorPolicy): users of such a role are walked
+ * through enrolment at their next login and can't switch 2FA off. ADMIN can also reset the
+ * 2FA of a user who lost their device.
+ */
+import bcrypt from 'bcryptjs'
+import crypto from 'crypto'
+import QRCode from 'qrcode'
+import { prisma } from '../db.js'
+import type { Role } from '../shared'
+import { AppError } from '../utils/AppError.js'
+import { getEnv } from '../utils/env.js'
+import { generateTotpSecret, totpUri, verifyTotp } from '../utils/totp.js'
+import { auditLog, AuditActions, AuditResources } from './audit.service.js'
+import { assertLoginAllowed, recordFailedLogin } from './loginProtection.service.js'
+
+const TOTP_ISSUER = getEnv('TOTP_ISSUER', 'E-Learn')
+export const RECOVERY_CODE_COUNT = 10
+const ROLES: Role[] = ['STUDENT', 'TEACHER', 'EDITOR', 'ADMIN']
+
+export type TwoFactorMethod = 'totp' | 'recovery'
+
+interface ClientInfo {
+  ip?: string
+  userAgent?: string
+}
+
+// Recovery codes look like "4f1c9-a02be"; dashes and case don't matter when typed back
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.toLowerCase().replace(/[^0-9a-z]/g, '')).digest('hex')
+}
+
+function newRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex')
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`
+  })
+}
+
+/**
+ * Replace the user's recovery codes, returning the new ones in plain text (shown once)
+ */
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = newRecoveryCodes()
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({ data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })) }),
+  ])
+  return codes
+}
+
+async function getUserSecrets(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      password: true,
+      totpSecret: true,
+      totpEnabledAt: true,
+      totpLastStep: true,
+      failedLoginCount: true,
+      lastFailedLoginAt: true,
+      lockedUntil: true,
+    },
+  })
+  if (!user) {
+    throw AppError.notFound('User not found')
+  }
+  return user
+}
+
+/**
+ * Accept a TOTP code once: the step is stored conditionally so two requests can't both use it
+ */
+async function acceptTotp(user: { id: string; totpSecret: string | null; totpLastStep: number | null }, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false
+  const step = verifyTotp(user.totpSecret, code, user.totpLastStep)
+  if (step === null) return false
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+    data: { totpLastStep: step },
+  })
+  return count === 1
+}
+
+// ============================================
+// POLICY
+// ============================================
+
+export async function isTwoFactorRequired(role: Role): Promise<boolean> {
+  const policy = await prisma.twoFactorPolicy.findUnique({ where: { role } })
+  return policy?.required ?? false
+}
+
+/**
+ * Whether 2FA is mandatory, for every role
+ */
+export async function getTwoFactorPolicies(): Promise<{ role: Role; required: boolean; updatedAt: Date | null }[]> {
+  const policies = await prisma.twoFactorPolicy.findMany()
+  return ROLES.map((role) => {
+    const policy = policies.find((p) => p.role === role)
+    return { role, required: policy?.required ?? false, updatedAt: policy?.updatedAt ?? null }
+  })
+}
+
+export async function setTwoFactorPolicy(role: Role, required: boolean, adminId: string, client: ClientInfo = {}) {
+  const policy = await prisma.twoFactorPolicy.upsert({
+    where: { role },
+    create: { role, required, updatedById: adminId },
+    update: { required, updatedById: adminId },
+  })
+
+  await auditLog({
+    userId: adminId,
+    action: AuditActions.UPDATE,
+    resource: AuditResources.SETTINGS,
+    resourceId: `two-factor:${role}`,
+    metadata: { role, twoFactorRequired: required },
+    ...client,
+  })
+  return { role: policy.role, required: policy.required, updatedAt: policy.updatedAt }
+}
+
+// ============================================
+// ENROLMENT
+// ============================================
+
+export async function getTwoFactorStatus(userId: string) {
+  const user = await getUserSecrets(userId)
+  const recoveryCodesLeft = await prisma.recoveryCode.count({ where: { userId, usedAt: null } })
+  return {
+    enabled: !!user.totpEnabledAt,
+    enabledAt: user.totpEnabledAt,
+    required: await isTwoFactorRequired(user.role as Role),
+    recoveryCodesLeft,
+  }
+}
+
+/**
+ * Start enrolment: a new secret replaces any unconfirmed one
+ */
+export async function startTwoFactorSetup(userId: string) {
+  const user = await getUserSecrets(userId)
+  if (user.totpEnabledAt) {
+    throw AppError.conflict('Two-factor authentication is already enabled')
+  }
+
+  const secret = generateTotpSecret()
+  await prisma.user.update({ where: { id: userId }, data: { totpSecret: secret, totpLastStep: null } })
+
+  const otpauthUrl = totpUri(secret, user.email, TOTP_ISSUER)
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) }
+}
+
+/**
+ * Confirm enrolment with a code from the app; returns the recovery codes (shown once)
+ */
+export async function enableTwoFactor(userId: string, code: string, client: ClientInfo = {}): Promise<{ recoveryCodes: string[] }> {
+  const user = await getUserSecrets(userId)
+  if (user.totpEnabledAt) {
+    throw AppError.conflict('Two-factor authentication is already enabled')
+  }
+  if (!user.totpSecret) {
+    throw AppError.badRequest('Start two-factor setup first')
+  }
+  if (!(await acceptTotp(user, code))) {
+    throw AppError.badRequest('Invalid authentication code')
+  }
+
+  await prisma.user.update({ where: { id: userId }, data: { totpEnabledAt: new Date() } })
+  const recoveryCodes = await replaceRecoveryCodes(userId)
+
+  await auditLog({
+    userId,
+    action: AuditActions.TWO_FACTOR_ENABLE,
+    resource: AuditResources.USER,
+    resourceId: userId,
+    ...client,
+  })
+  return { recoveryCodes }
+}
+
+/**
+ * Switch 2FA off: needs the password and a current code, and the role must not require 2FA
+ */
+export async function disableTwoFactor(userId: string, password: string, code: string, client: ClientInfo = {}): Promise<void> {
+  const user = await getUserSecrets(userId)
+  if (!user.totpEnabledAt) {
+    throw AppError.badRequest('Two-factor authentication is not enabled')
+  }
+  if (await isTwoFactorRequired(user.role as Role)) {
+    throw AppError.forbidden('Two-factor authentication is required for your role')
+  }
+  if (!user.password || !(await bcrypt.compare(password, user.password))) {
+    throw AppError.badRequest('Incorrect password')
+  }
+  await verifySecondFactor(userId, code, client)
+
+  await clearTwoFactor(userId)
+  await auditLog({
+    userId,
+    action: AuditActions.TWO_FACTOR_DISABLE,
+    resource: AuditResources.USER,
+    resourceId: userId,
+    ...client,
+  })
+}
+
+export async function regenerateRecoveryCodes(userId: string, code: string, client: ClientInfo = {}): Promise<{ recoveryCodes: string[] }> {
+  const user = await getUserSecrets(userId)
+  if (!user.totpEnabledAt) {
+    throw AppError.badRequest('Two-factor authentication is not enabled')
+  }
+  // Only a TOTP code: a recovery code would be wiped by the regeneration anyway
+  if (!(await acceptTotp(user, code))) {
+    throw AppError.badRequest('Invalid authentication code')
+  }
+
+  const recoveryCodes = await replaceRecoveryCodes(userId)
+  await auditLog({
+    userId,
+    action: AuditActions.TWO_FACTOR_CODES_REGENERATED,
+    resource: AuditResources.USER,
+    resourceId: userId,
+    ...client,
+  })
+  return { recoveryCodes }
+}
+
+/**
+ * ADMIN: switch off the 2FA of a user who lost their device. If their role requires 2FA,
+ * they enrol again at the next login.
+ */
+export async function resetTwoFactor(userId: string, adminId: string, client: ClientInfo = {}): Promise<void> {
+  const user = await getUserSecrets(userId)
+  if (!user.totpEnabledAt && !user.totpSecret) {
+    throw AppError.badRequest('Two-factor authentication is not enabled')
+  }
+
+  await clearTwoFactor(userId)
+  await auditLog({
+    userId: adminId,
+    action: AuditActions.TWO_FACTOR_DISABLE,
+    resource: AuditResources.USER,
+    resourceId: userId,
+    metadata: { resetByAdmin: true },
+    ...client,
+  })
+}
+
+async function clearTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null } }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+  ])
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Check the second factor of an enrolled user: a TOTP code or an unused recovery code
+ * (which is then spent). Wrong codes count towards the login lockout like wrong passwords.
+ */
+export async function verifySecondFactor(userId: string, code: string, client: ClientInfo = {}): Promise<TwoFactorMethod> {
+  const user = await getUserSecrets(userId)
+  if (!user.totpEnabledAt) {
+    throw AppError.badRequest('Two-factor authentication is not enabled')
+  }
+  assertLoginAllowed(user)
+  if (await acceptTotp(user, code)) return 'totp'
+
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  })
+  if (count === 0) {
+    await recordFailedLogin(user, client, 'second_factor')
+    throw AppError.unauthorized('Invalid authentication code')
+  }
+
+  const recoveryCodesLeft = await prisma.recoveryCode.count({ where: { userId, usedAt: null } })
+  await auditLog({
+    userId,
+    action: AuditActions.TWO_FACTOR_RECOVERY_USED,
+    resource: AuditResources.USER,
+    resourceId: userId,
+    metadata: { recoveryCodesLeft },
+    ...client,
+  })
+  return 'recovery'
+}
@@ -0,0 +1,66 @@
+// src/services/xapiLrs.service.ts
+/**
+ * Local xAPI LRS stand-in
+ *
+ * A minimal in-memory Learning Record Store, so SCORM packages exported with xAPI can be
+ * tried (and tested) without a real LRS: point XAPI_LRS_ENDPOINT at <api>/api/xapi.
+ * Only the statements resource is implemented; statements live in process memory, the
+ * newest MAX_STATEMENTS are kept, and nothing survives a restart.
+ */
+import { randomUUID } from 'crypto'
+import { AppError } from '../utils/AppError.js'
+import type { StatementInput, StatementsQuery } from '../schemas/xapi.schema.js'
+
+export const XAPI_VERSION = '1.0.3'
+
+export type StoredStatement = StatementInput & { id: string; stored: string; timestamp: string; version: string }
+
+const MAX_STATEMENTS = 1000
+
+const statements: StoredStatement[] = []
+const byId = new Map<string, StoredStatement>()
+
+export function isLocalLrsEnabled(): boolean {
+  return process.env.XAPI_LOCAL_LRS === 'true'
+}
+
+/**
+ * Store statements, returning their ids in order. An id already stored is a conflict.
+ */
+export function storeStatements(input: StatementInput[]): string[] {
+  const ids = input.map((s) => s.id ?? randomUUID())
+  const duplicate = ids.find((id, i) => byId.has(id) || ids.indexOf(id) !== i)
+  if (duplicate) throw AppError.conflict('Statement already exists', { statementId: duplicate })
+
+  const stored = new Date().toISOString()
+  input.forEach((s, i) => {
+    const statement: StoredStatement = { ...s, id: ids[i], stored, timestamp: s.timestamp ?? stored, version: XAPI_VERSION }
+    statements.push(statement)
+    byId.set(statement.id, statement)
+  })
+
+  for (const old of statements.splice(0, Math.max(0, statements.length - MAX_STATEMENTS))) {
+    byId.delete(old.id)
+  }
+  return ids
+}
+
+export function getStatement(id: string): StoredStatement {
+  const statement = byId.get(id)
+  if (!statement) throw AppError.notFound('Statement not found')
+  return statement
+}
+
+/**
+ * Newest statements first, optionally for one verb and/or object activity
+ */
+export function listStatements(query: StatementsQuery): StoredStatement[] {
+  const result: StoredStatement[] = []
+  for (let i = statements.length - 1; i >= 0 && result.length < query.limit; i--) {
+    const s = statements[i]
+    if (query.verb && s.verb.id !== query.verb) continue
+    if (query.activity && s.object.id !== query.activity) continue
+    result.push(s)
+  }
+  return result
+}
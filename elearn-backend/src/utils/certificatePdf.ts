@@ -0,0 +1,123 @@
+// src/utils/certificatePdf.ts
+/**
+ * Certificate PDF rendering (pdfkit)
+ *
+ * The built-in PDF fonts only cover Latin-1, so Ukrainian and Polish text needs a TrueType
+ * font with Cyrillic/Latin Extended glyphs. Set CERTIFICATE_FONT_PATH / CERTIFICATE_FONT_BOLD_PATH
+ * or install DejaVu (fonts-dejavu-core), which is picked up from the usual system location.
+ */
+import fs from 'fs'
+import PDFDocument from 'pdfkit'
+import type { Lang } from '../shared'
+import { logger } from './logger.js'
+
+export interface CertificatePdfData {
+  recipientName: string
+  topicName: string
+  code: string
+  issuedAt: Date
+  lang: Lang
+  verifyUrl: string
+}
+
+const labels: Record<Lang, { title: string; presented: string; completed: string; issued: string; code: string; verify: string }> = {
+  UA: {
+    title: 'Сертифікат про завершення',
+    presented: 'Цей сертифікат засвідчує, що',
+    completed: 'успішно завершив(ла) курс',
+    issued: 'Дата видачі',
+    code: 'Код сертифіката',
+    verify: 'Перевірити',
+  },
+  PL: {
+    title: 'Certyfikat ukończenia',
+    presented: 'Niniejszym zaświadcza się, że',
+    completed: 'pomyślnie ukończył(a) kurs',
+    issued: 'Data wydania',
+    code: 'Kod certyfikatu',
+    verify: 'Weryfikacja',
+  },
+  EN: {
+    title: 'Certificate of Completion',
+    presented: 'This is to certify that',
+    completed: 'has successfully completed the course',
+    issued: 'Issued on',
+    code: 'Certificate code',
+    verify: 'Verify at',
+  },
+}
+
+const dateLocales: Record<Lang, string> = { UA: 'uk-UA', PL: 'pl-PL', EN: 'en-GB' }
+
+function resolveFont(envName: string, fallbackPath: string): string | null {
+  const candidate = process.env[envName] || fallbackPath
+  return fs.existsSync(candidate) ? candidate : null
+}
+
+const regularFont = resolveFont('CERTIFICATE_FONT_PATH', '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf')
+const boldFont = resolveFont('CERTIFICATE_FONT_BOLD_PATH', '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf')
+
+if (!regularFont) {
+  logger.warn('[certificatePdf] No TrueType font found, falling back to Helvetica (non-Latin text will not render)')
+}
+
+/**
+ * Render a one-page landscape A4 certificate
+ */
+export function renderCertificatePdf(data: CertificatePdfData): Promise<Buffer> {
+  const text = labels[data.lang] ?? labels.EN
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: 60,
+      info: { Title: `${text.title} — ${data.topicName}`, Author: 'E-Learn' },
+    })
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+
+    doc.registerFont('regular', regularFont ?? 'Helvetica')
+    doc.registerFont('bold', boldFont ?? regularFont ?? 'Helvetica-Bold')
+
+    const { width, height } = doc.page
+    const contentWidth = width - 120
+
+    // Frame
+    doc.lineWidth(3).strokeColor('#4f46e5').rect(24, 24, width - 48, height - 48).stroke()
+    doc.lineWidth(1).strokeColor('#a5b4fc').rect(34, 34, width - 68, height - 68).stroke()
+
+    doc.fillColor('#111827').font('bold').fontSize(34)
+      .text(text.title, 60, 110, { width: contentWidth, align: 'center' })
+
+    doc.fillColor('#4b5563').font('regular').fontSize(15)
+      .text(text.presented, 60, 190, { width: contentWidth, align: 'center' })
+
+    doc.fillColor('#111827').font('bold').fontSize(28)
+      .text(data.recipientName, 60, 225, { width: contentWidth, align: 'center' })
+
+    doc.fillColor('#4b5563').font('regular').fontSize(15)
+      .text(text.completed, 60, 285, { width: contentWidth, align: 'center' })
+
+    doc.fillColor('#4f46e5').font('bold').fontSize(24)
+      .text(data.topicName, 60, 320, { width: contentWidth, align: 'center' })
+
+    const issued = data.issuedAt.toLocaleDateString(dateLocales[data.lang] ?? 'en-GB', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    })
+    doc.fillColor('#374151').font('regular').fontSize(11)
+      .text(`${text.issued}: ${issued}`, 60, height - 130, { width: contentWidth / 2 })
+      .text(`${text.code}: ${data.code}`, 60, height - 112, { width: contentWidth / 2 })
+    doc.text(`${text.verify}: ${data.verifyUrl}`, 60 + contentWidth / 2, height - 112, {
+      width: contentWidth / 2,
+      align: 'right',
+      link: data.verifyUrl,
+    })
+
+    doc.end()
+  })
+}
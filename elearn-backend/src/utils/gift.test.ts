@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { parseGift, toGift } from './gift.js'
+import { type InterchangeQuestion, TRUE_FALSE_TEXT, blankQuestion } from './quizFormats.js'
+
+function question(name: string, type: InterchangeQuestion['type'], overrides: Partial<InterchangeQuestion>): InterchangeQuestion {
+  return { ...blankQuestion(name, type), ...overrides }
+}
+
+const questions = [
+  question('Keyword', 'single', {
+    text: { EN: 'Which keyword reads rows?', UA: 'Яке ключове слово читає рядки?' },
+    explanation: { EN: 'SELECT reads: it never writes.' },
+    difficulty: 'Easy',
+    tags: ['sql'],
+    options: [
+      { text: { EN: 'SELECT' }, correct: true },
+      { text: { EN: 'DROP' }, correct: false },
+    ],
+  }),
+  question('Joins', 'multiple', {
+    text: { EN: 'Which of these are joins? {pick two}' },
+    options: [
+      { text: { EN: 'INNER' }, correct: true },
+      { text: { EN: 'OUTER' }, correct: true },
+      { text: { EN: 'GROUP' }, correct: false },
+    ],
+  }),
+  question('Null', 'truefalse', {
+    text: { EN: 'NULL = NULL is true' },
+    options: [
+      { text: TRUE_FALSE_TEXT.true, correct: false },
+      { text: TRUE_FALSE_TEXT.false, correct: true },
+    ],
+  }),
+  question('Pi', 'numeric', { text: { EN: 'Pi to two decimals' }, numericAnswer: 3.14, tolerance: 0.01, difficulty: 'Hard' }),
+  question('Reads', 'text', { text: { EN: 'Keyword that reads rows' }, acceptedAnswers: ['SELECT', 'select *'] }),
+]
+
+describe('GIFT', () => {
+  it('round-trips every question type, translations, tags and difficulty', () => {
+    const parsed = parseGift(toGift('SQL basics', questions))
+    expect(parsed).toEqual({ title: 'SQL basics', questions, issues: [] })
+  })
+
+  it('reads numeric ranges, weights, missing words and mlang text', () => {
+    const parsed = parseGift(
+      [
+        '::Range:: Between one and three {#1..3}',
+        '',
+        '::Weighted:: Pick the primes {~%50%2 ~%50%3 ~%-100%4}',
+        '',
+        '::Blank:: The {=SELECT} statement reads rows',
+        '',
+        '::Mlang:: \\{mlang en\\}Rows\\{mlang\\}\\{mlang uk\\}Рядки\\{mlang\\} {=rows}',
+      ].join('\n')
+    )
+    const [range, weighted, blank, mlang] = parsed.questions
+
+    expect(range).toMatchObject({ type: 'numeric', numericAnswer: 2, tolerance: 1 })
+    expect(weighted.type).toBe('multiple')
+    expect(weighted.options.map((o) => o.correct)).toEqual([true, true, false])
+    expect(blank).toMatchObject({ type: 'text', text: { EN: 'The _____ statement reads rows' }, acceptedAnswers: ['SELECT'] })
+    expect(mlang.text).toEqual({ EN: 'Rows', UA: 'Рядки' })
+  })
+
+  it('reports the items it skips and keeps the rest', () => {
+    const parsed = parseGift(
+      [
+        '::Essay:: Describe normal forms {}',
+        '',
+        '::Match:: Match them {=a -> 1 =b -> 2}',
+        '',
+        'Just a description without answers',
+        '',
+        '::Fine:: Is SQL declarative? {T}',
+      ].join('\n')
+    )
+
+    expect(parsed.questions.map((q) => q.name)).toEqual(['Fine'])
+    expect(parsed.issues).toEqual([
+      { item: 'Essay', message: 'Essay questions are not supported', skipped: true },
+      { item: 'Match', message: 'Matching questions are not supported', skipped: true },
+      { item: '#3', message: 'No answer block: description items are not imported', skipped: true },
+    ])
+  })
+
+  it('notes what it drops from an imported item', () => {
+    const parsed = parseGift('::Feedback:: 2 + 2 {=4#right ~5#no, that is five}')
+    expect(parsed.questions).toHaveLength(1)
+    expect(parsed.issues).toEqual([{ item: 'Feedback', message: 'Feedback on wrong answers was dropped', skipped: false }])
+  })
+})
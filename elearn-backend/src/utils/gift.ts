@@ -0,0 +1,305 @@
+// src/utils/gift.ts
+/**
+ * GIFT question format (Moodle's plain-text format)
+ *
+ * Supported: multiple choice (with = or with %weights%), true/false, short answer
+ * (only = answers), numeric ({#value:tolerance} and {#min..max}) and missing-word
+ * questions, whose blank becomes "_____". General feedback (####) becomes the explanation.
+ * Tags use Moodle's comment syntax: // [tag:name]
+ */
+import {
+  type ConversionIssue,
+  type InterchangeQuestion,
+  type ItemLog,
+  type LocalizedText,
+  type ParsedQuiz,
+  TRUE_FALSE_TEXT,
+  assertImportable,
+  blankQuestion,
+  convertItem,
+  formatMultilang,
+  isMultilang,
+  optionFractions,
+  parseMultilang,
+  splitDifficultyTag,
+  tagsWithDifficulty,
+  trueOption,
+} from './quizFormats.js'
+
+interface Block {
+  text: string
+  tags: string[]
+}
+
+interface AnswerItem {
+  mark: '=' | '~'
+  weight: number | null
+  text: string
+  feedback: string
+}
+
+/** Position of the next unescaped `char` (or string) from `from`, or -1 */
+function findUnescaped(text: string, token: string, from = 0): number {
+  for (let i = from; i <= text.length - token.length; i++) {
+    if (text[i] === '\\') {
+      i++
+      continue
+    }
+    if (text.startsWith(token, i)) return i
+  }
+  return -1
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1')
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/[~=#{}:]/g, '\\$&')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Split the file into questions: blank lines separate them unless inside an answer block.
+ * Comment lines are dropped, except Moodle's // [tag:…] which tag the next question.
+ */
+function splitBlocks(content: string): { blocks: Block[]; category: string | null } {
+  const blocks: Block[] = []
+  let category: string | null = null
+  let lines: string[] = []
+  let tags: string[] = []
+  let depth = 0
+
+  const flush = () => {
+    const text = lines.join('\n').trim()
+    if (text) blocks.push({ text, tags })
+    lines = []
+    tags = []
+  }
+
+  for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (depth === 0 && trimmed.startsWith('//')) {
+      for (const [, tag] of trimmed.matchAll(/\[tag:([^\]]+)\]/g)) tags.push(tag.trim())
+      continue
+    }
+    if (depth === 0 && /^\$CATEGORY:/i.test(trimmed)) {
+      const path = trimmed.replace(/^\$CATEGORY:/i, '').split('/').map((s) => s.trim()).filter(Boolean)
+      const last = path[path.length - 1]
+      if (last && !last.startsWith('$')) category = last
+      continue
+    }
+    if (depth === 0 && trimmed === '') {
+      flush()
+      continue
+    }
+    lines.push(line)
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '\\') i++
+      else if (line[i] === '{') depth++
+      else if (line[i] === '}') depth = Math.max(0, depth - 1)
+    }
+  }
+  flush()
+  return { blocks, category }
+}
+
+/** Answer items of a choice/short-answer block: =right ~wrong ~%50%partial #feedback */
+function parseAnswerItems(spec: string): AnswerItem[] {
+  const items: AnswerItem[] = []
+  let current: { mark: '=' | '~'; raw: string } | null = null
+  for (let i = 0; i < spec.length; i++) {
+    const char = spec[i]
+    if (char === '\\') {
+      if (current) current.raw += spec.slice(i, i + 2)
+      i++
+      continue
+    }
+    if (char === '=' || char === '~') {
+      if (current) items.push(toItem(current.mark, current.raw))
+      current = { mark: char, raw: '' }
+      continue
+    }
+    if (current) current.raw += char
+  }
+  if (current) items.push(toItem(current.mark, current.raw))
+  return items
+}
+
+function toItem(mark: '=' | '~', raw: string): AnswerItem {
+  let text = raw.trim()
+  let weight: number | null = null
+  const weightMatch = text.match(/^%(-?[\d.]+)%/)
+  if (weightMatch) {
+    weight = parseFloat(weightMatch[1])
+    text = text.slice(weightMatch[0].length)
+  }
+  const hash = findUnescaped(text, '#')
+  const feedback = hash >= 0 ? text.slice(hash + 1) : ''
+  if (hash >= 0) text = text.slice(0, hash)
+  return { mark, weight, text: text.trim(), feedback: feedback.trim() }
+}
+
+/** value:tolerance, min..max or value */
+function parseNumeric(spec: string): { value: number; tolerance: number | null } | null {
+  const range = spec.match(/^(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)$/)
+  if (range) {
+    const [min, max] = [parseFloat(range[1]), parseFloat(range[2])]
+    return { value: (min + max) / 2, tolerance: Math.abs(max - min) / 2 }
+  }
+  const [value, tolerance] = spec.split(':').map((s) => parseFloat(s.trim()))
+  if (!Number.isFinite(value)) return null
+  return { value, tolerance: Number.isFinite(tolerance) && tolerance > 0 ? tolerance : null }
+}
+
+function parseBlock(block: Block, name: string, log: ItemLog): InterchangeQuestion {
+  let rest = block.text
+  if (rest.startsWith('::')) {
+    const end = findUnescaped(rest, '::', 2)
+    if (end >= 0) rest = rest.slice(end + 2)
+  }
+
+  const open = findUnescaped(rest, '{')
+  const close = open >= 0 ? findUnescaped(rest, '}', open + 1) : -1
+  if (open < 0 || close < 0) log.skip('No answer block: description items are not imported')
+
+  let prefix = rest.slice(0, open)
+  const suffix = rest.slice(close + 1)
+  const formatMatch = prefix.trimStart().match(/^\[(html|moodle|plain|markdown)\]/)
+  const html = formatMatch?.[1] === 'html' || formatMatch?.[1] === 'moodle'
+  if (formatMatch) prefix = prefix.trimStart().slice(formatMatch[0].length)
+  if (formatMatch?.[1] === 'markdown') log.note('Markdown formatting was imported as plain text')
+
+  const readText = (raw: string): LocalizedText => parseMultilang(unescape(raw), { html, log })
+  const questionText = suffix.trim() ? `${prefix.trimEnd()} _____ ${suffix.trimStart()}` : prefix
+
+  let spec = rest.slice(open + 1, close)
+  let generalFeedback = ''
+  const feedbackAt = findUnescaped(spec, '####')
+  if (feedbackAt >= 0) {
+    generalFeedback = spec.slice(feedbackAt + 4)
+    spec = spec.slice(0, feedbackAt)
+  }
+  spec = spec.trim()
+
+  let q: InterchangeQuestion
+  let correctFeedback = ''
+
+  if (spec === '') {
+    log.skip('Essay questions are not supported')
+  } else if (spec.startsWith('#')) {
+    q = blankQuestion(name, 'numeric')
+    const body = spec.slice(1).trim()
+    const items = /^[=~]/.test(body) ? parseAnswerItems(body) : [toItem('=', body)]
+    const full = items.filter((i) => i.mark === '=' && (i.weight === null || i.weight >= 100))
+    if (items.length > 1) log.note('Only the first fully correct answer was kept')
+    const answer = full[0] ? parseNumeric(unescape(full[0].text)) : null
+    if (answer) {
+      q.numericAnswer = answer.value
+      q.tolerance = answer.tolerance
+      correctFeedback = full[0].feedback
+    }
+  } else if (/^(T|TRUE|F|FALSE)\s*(#|$)/i.test(spec)) {
+    q = blankQuestion(name, 'truefalse')
+    const isTrue = /^T/i.test(spec)
+    q.options = [
+      { text: TRUE_FALSE_TEXT.true, correct: isTrue },
+      { text: TRUE_FALSE_TEXT.false, correct: !isTrue },
+    ]
+    // {T#feedback for a wrong answer#feedback for the right one}
+    const feedbacks = spec.split(/(?<!\\)#/).slice(1)
+    correctFeedback = feedbacks[1] ?? ''
+    if (feedbacks[0]?.trim()) log.note('Feedback on wrong answers was dropped')
+  } else {
+    const items = parseAnswerItems(spec)
+    if (items.some((i) => findUnescaped(i.text, '->') >= 0)) log.skip('Matching questions are not supported')
+    if (items.length === 0) log.skip('Answer block has no answers')
+
+    const weighted = items.some((i) => i.mark === '~' && i.weight !== null && i.weight > 0)
+    if (items.every((i) => i.mark === '=')) {
+      q = blankQuestion(name, 'text')
+      const full = items.filter((i) => i.weight === null || i.weight >= 100)
+      if (full.length < items.length) log.note('Partial-credit answers were dropped')
+      q.acceptedAnswers = full.map((i) => unescape(i.text).trim()).filter(Boolean)
+      correctFeedback = full.map((i) => i.feedback).filter(Boolean).join('\n')
+    } else {
+      const correct = (i: AnswerItem) => (weighted ? (i.weight ?? (i.mark === '=' ? 100 : 0)) > 0 : i.mark === '=')
+      q = blankQuestion(name, weighted || items.filter((i) => i.mark === '=').length > 1 ? 'multiple' : 'single')
+      q.options = items.map((i) => ({ text: readText(i.text), correct: correct(i) }))
+      correctFeedback = items.filter(correct).map((i) => i.feedback).filter(Boolean).join('\n')
+      if (items.some((i) => !correct(i) && i.feedback)) log.note('Feedback on wrong answers was dropped')
+    }
+  }
+
+  const { tags, difficulty } = splitDifficultyTag(block.tags)
+  q.text = readText(questionText)
+  q.explanation = readText(generalFeedback.trim() || correctFeedback)
+  q.tags = tags
+  q.difficulty = difficulty
+  assertImportable(q, log)
+  return q
+}
+
+/**
+ * Parse a GIFT file. The last $CATEGORY becomes the quiz title.
+ */
+export function parseGift(content: string): ParsedQuiz {
+  const { blocks, category } = splitBlocks(content)
+  const issues: ConversionIssue[] = []
+  const questions: InterchangeQuestion[] = []
+
+  blocks.forEach((block, index) => {
+    const titleEnd = block.text.startsWith('::') ? findUnescaped(block.text, '::', 2) : -1
+    const title = titleEnd >= 0 ? block.text.slice(2, titleEnd) : ''
+    const name = unescape(title).trim() || `#${index + 1}`
+    const question = convertItem(issues, name, (log) => parseBlock(block, name, log))
+    if (question) questions.push(question)
+  })
+
+  return { title: category, questions, issues }
+}
+
+// ==================== EXPORT ====================
+
+function questionBlock(q: InterchangeQuestion): string {
+  // Translations need multilang spans, so the whole question is written as HTML
+  const html = [q.text, q.explanation, ...q.options.map((o) => o.text)].some(isMultilang)
+  const text = (value: LocalizedText) => escape(formatMultilang(value, html))
+
+  const lines = tagsWithDifficulty(q).map((tag) => `// [tag:${tag.replace(/]/g, '')}]`)
+  lines.push(`::${escape(q.name)}::${html ? '[html]' : ''}${text(q.text)}{`)
+
+  switch (q.type) {
+    case 'single':
+      q.options.forEach((o) => lines.push(`\t${o.correct ? '=' : '~'}${text(o.text)}`))
+      break
+    case 'multiple': {
+      const fractions = optionFractions(q)
+      q.options.forEach((o, i) => lines.push(`\t~%${fractions[i]}%${text(o.text)}`))
+      break
+    }
+    case 'truefalse': {
+      lines.push(`\t${trueOption(q.options)?.correct ? 'TRUE' : 'FALSE'}`)
+      break
+    }
+    case 'numeric':
+      lines.push(`\t#${q.numericAnswer}${q.tolerance ? `:${q.tolerance}` : ''}`)
+      break
+    case 'text':
+      q.acceptedAnswers.forEach((a) => lines.push(`\t=${escape(a)}`))
+      break
+  }
+
+  if (Object.keys(q.explanation).length > 0) lines.push(`\t####${text(q.explanation)}`)
+  lines.push('}')
+  return lines.join('\n')
+}
+
+/**
+ * GIFT text with the quiz as a category
+ */
+export function toGift(title: string, questions: InterchangeQuestion[]): string {
+  return [`$CATEGORY: $course$/top/${title.replace(/\//g, '-')}`, '', ...questions.map((q) => `${questionBlock(q)}\n`)].join('\n')
+}
@@ -38,6 +38,18 @@ export function getTranslation(
   return fallback
 }
 
+/**
+ * Лише непорожні переклади, тож {} / null / { UA: '' } рівнозначні
+ */
+export function filledTranslations(json: unknown): Record<string, string> {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return {}
+  const out: Record<string, string> = {}
+  for (const [lang, value] of Object.entries(json)) {
+    if (typeof value === 'string' && value !== '') out[lang] = value
+  }
+  return out
+}
+
 /**
  * Отримує вкладений переклад (для об'єктів типу {topic: {UA, PL, EN}, advice: {UA, PL, EN}})
  */
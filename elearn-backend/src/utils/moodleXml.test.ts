@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { parseMoodleXml, toMoodleXml } from './moodleXml.js'
+import { type InterchangeQuestion, TRUE_FALSE_TEXT, blankQuestion } from './quizFormats.js'
+
+function question(name: string, type: InterchangeQuestion['type'], overrides: Partial<InterchangeQuestion>): InterchangeQuestion {
+  return { ...blankQuestion(name, type), ...overrides }
+}
+
+const questions = [
+  question('Keyword', 'single', {
+    text: { EN: 'Which keyword reads <b>rows</b>?', UA: 'Яке ключове слово читає <b>рядки</b>?' },
+    explanation: { EN: 'SELECT reads & never writes.', PL: 'SELECT tylko czyta.' },
+    difficulty: 'Easy',
+    tags: ['sql'],
+    options: [
+      { text: { EN: 'SELECT' }, correct: true },
+      { text: { EN: 'DROP', UA: 'ВИДАЛИТИ' }, correct: false },
+    ],
+  }),
+  question('Joins', 'multiple', {
+    text: { EN: 'Which of these are joins?' },
+    options: [
+      { text: { EN: 'INNER' }, correct: true },
+      { text: { EN: 'OUTER' }, correct: true },
+      { text: { EN: 'GROUP' }, correct: false },
+    ],
+  }),
+  question('Null', 'truefalse', {
+    text: { EN: 'NULL = NULL is true' },
+    options: [
+      { text: TRUE_FALSE_TEXT.true, correct: false },
+      { text: TRUE_FALSE_TEXT.false, correct: true },
+    ],
+  }),
+  question('Pi', 'numeric', { text: { EN: 'Pi to two decimals' }, numericAnswer: 3.14, tolerance: 0.01, difficulty: 'Hard' }),
+  question('Reads', 'text', { text: { EN: 'Keyword that reads rows' }, acceptedAnswers: ['SELECT', 'select'] }),
+]
+
+const quiz = (...items: string[]) => `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${items.join('\n')}\n</quiz>`
+
+describe('Moodle XML', () => {
+  it('round-trips every question type, translations, tags and difficulty', () => {
+    const parsed = parseMoodleXml(toMoodleXml('SQL basics', questions))
+    expect(parsed).toEqual({ title: 'SQL basics', questions, issues: [] })
+  })
+
+  it('reads multilang spans and grade fractions', () => {
+    const parsed = parseMoodleXml(
+      quiz(
+        '<question type="category"><category><text>$course$/Databases/Joins</text></category></question>',
+        `<question type="multichoice">
+          <name><text>Primes</text></name>
+          <questiontext format="html"><text><![CDATA[<span lang="en" class="multilang">Pick primes</span><span lang="uk" class="multilang">Оберіть прості</span>]]></text></questiontext>
+          <single>false</single>
+          <answer fraction="50"><text>2</text></answer>
+          <answer fraction="50"><text>3</text></answer>
+          <answer fraction="-100"><text>4</text></answer>
+        </question>`
+      )
+    )
+
+    expect(parsed.title).toBe('Joins')
+    expect(parsed.questions[0]).toMatchObject({ type: 'multiple', text: { EN: 'Pick primes', UA: 'Оберіть прості' } })
+    expect(parsed.questions[0].options.map((o) => o.correct)).toEqual([true, true, false])
+  })
+
+  it('reports the items it skips and keeps the rest', () => {
+    const parsed = parseMoodleXml(
+      quiz(
+        '<question type="essay"><name><text>Essay</text></name><questiontext><text>Describe</text></questiontext></question>',
+        '<question type="description"><name><text>Intro</text></name><questiontext><text>Read this</text></questiontext></question>',
+        `<question type="truefalse"><name><text>Broken</text></name><questiontext><text>Is it?</text></questiontext>
+          <answer fraction="100"><text>yes</text></answer></question>`,
+        `<question type="truefalse"><name><text>Fine</text></name><questiontext><text>Is SQL declarative?</text></questiontext>
+          <answer fraction="100"><text>true</text></answer><answer fraction="0"><text>false</text></answer></question>`
+      )
+    )
+
+    expect(parsed.questions.map((q) => q.name)).toEqual(['Fine'])
+    expect(parsed.questions[0].options.map((o) => o.correct)).toEqual([true, false])
+    expect(parsed.issues).toEqual([
+      { item: 'Essay', message: 'Moodle question type "essay" is not supported', skipped: true },
+      { item: 'Intro', message: 'Description items contain no question', skipped: true },
+      { item: 'Broken', message: 'True/false question must have "true" and "false" answers', skipped: true },
+    ])
+  })
+
+  it('rejects files that are not a Moodle quiz', () => {
+    expect(() => parseMoodleXml('<questions/>')).toThrow('Not a Moodle XML file')
+    expect(() => parseMoodleXml('<quiz><question>')).toThrow()
+  })
+})
@@ -0,0 +1,241 @@
+// src/utils/moodleXml.ts
+/**
+ * Moodle XML question format
+ *
+ * Supported: multichoice (single and multiple answer), truefalse, shortanswer and
+ * numerical. General feedback becomes the explanation; without it the feedback of the
+ * correct answer is used. Moodle grade fractions are reduced to correct/incorrect.
+ */
+import { AppError } from './AppError.js'
+import {
+  type ConversionIssue,
+  type InterchangeQuestion,
+  type ItemLog,
+  type LocalizedText,
+  type ParsedQuiz,
+  TRUE_FALSE_TEXT,
+  assertImportable,
+  blankQuestion,
+  cdata,
+  childElement,
+  childElements,
+  convertItem,
+  formatMultilang,
+  optionFractions,
+  parseMultilang,
+  parseXml,
+  splitDifficultyTag,
+  tagsWithDifficulty,
+  textOf,
+  trueOption,
+} from './quizFormats.js'
+
+const HTML_FORMATS = new Set(['html', 'moodle_auto_format'])
+
+/** Localized text of a Moodle text element (<questiontext>, <answer>, <feedback>…) */
+function readText(el: Element | null, log: ItemLog): LocalizedText {
+  if (!el) return {}
+  const format = el.getAttribute('format') ?? 'html'
+  if (format === 'markdown') log.note('Markdown formatting was imported as plain text')
+  return parseMultilang(textOf(el, 'text'), { html: HTML_FORMATS.has(format), log })
+}
+
+function fractionOf(answer: Element): number {
+  const value = parseFloat(answer.getAttribute('fraction') ?? '0')
+  return Number.isFinite(value) ? value : 0
+}
+
+const isFull = (fraction: number) => fraction >= 99.99
+
+/** Feedback of the correct answers, used when the question has no general feedback */
+function answerFeedback(answers: Element[], correct: (answer: Element) => boolean, log: ItemLog): LocalizedText {
+  const result: LocalizedText = {}
+  let dropped = false
+  for (const answer of answers) {
+    const feedback = readText(childElement(answer, 'feedback'), log)
+    if (Object.keys(feedback).length === 0) continue
+    if (!correct(answer)) {
+      dropped = true
+      continue
+    }
+    for (const [lang, text] of Object.entries(feedback) as [keyof LocalizedText, string][]) {
+      result[lang] = result[lang] ? `${result[lang]}\n${text}` : text
+    }
+  }
+  if (dropped) log.note('Feedback on wrong answers was dropped')
+  return result
+}
+
+function parseQuestion(el: Element, type: string, name: string, log: ItemLog): InterchangeQuestion {
+  const answers = childElements(el, 'answer')
+  const { tags, difficulty } = splitDifficultyTag(
+    childElements(childElement(el, 'tags') ?? el, 'tag').map((tag) => textOf(tag, 'text'))
+  )
+  const generalFeedback = readText(childElement(el, 'generalfeedback'), log)
+  const explanation = (correct: (answer: Element) => boolean) => {
+    const fromAnswers = answerFeedback(answers, correct, log)
+    return Object.keys(generalFeedback).length > 0 ? generalFeedback : fromAnswers
+  }
+
+  let q: InterchangeQuestion
+  switch (type) {
+    case 'multichoice': {
+      const single = ['true', '1'].includes(textOf(el, 'single').trim())
+      const fractions = answers.map(fractionOf)
+      if (single && fractions.some((f) => f > 0 && !isFull(f))) {
+        log.note('Partial-credit answers were imported as incorrect')
+      }
+      const correct = (answer: Element) => (single ? isFull(fractionOf(answer)) : fractionOf(answer) > 0)
+      q = blankQuestion(name, single ? 'single' : 'multiple')
+      q.options = answers.map((answer) => ({ text: readText(answer, log), correct: correct(answer) }))
+      q.explanation = explanation(correct)
+      break
+    }
+    case 'truefalse': {
+      q = blankQuestion(name, 'truefalse')
+      const trueAnswer = answers.find((a) => textOf(a, 'text').trim().toLowerCase() === 'true')
+      const falseAnswer = answers.find((a) => textOf(a, 'text').trim().toLowerCase() === 'false')
+      if (!trueAnswer || !falseAnswer) log.skip('True/false question must have "true" and "false" answers')
+      const trueIsCorrect = isFull(fractionOf(trueAnswer))
+      q.options = [
+        { text: TRUE_FALSE_TEXT.true, correct: trueIsCorrect },
+        { text: TRUE_FALSE_TEXT.false, correct: !trueIsCorrect },
+      ]
+      q.explanation = explanation((a) => isFull(fractionOf(a)))
+      break
+    }
+    case 'shortanswer': {
+      q = blankQuestion(name, 'text')
+      if (textOf(el, 'usecase').trim() === '1') log.note('Case-sensitive matching is not supported; answers are compared ignoring case')
+      const full = answers.filter((a) => isFull(fractionOf(a)))
+      if (full.length < answers.filter((a) => fractionOf(a) > 0).length) log.note('Partial-credit answers were dropped')
+      q.acceptedAnswers = full.map((a) => textOf(a, 'text').trim()).filter(Boolean)
+      if (q.acceptedAnswers.some((a) => a.includes('*'))) log.note('Wildcards (*) are matched literally')
+      q.explanation = explanation((a) => isFull(fractionOf(a)))
+      break
+    }
+    case 'numerical': {
+      q = blankQuestion(name, 'numeric')
+      const full = answers.filter((a) => isFull(fractionOf(a)) && textOf(a, 'text').trim() !== '*')
+      if (answers.filter((a) => fractionOf(a) > 0).length > 1) log.note('Only the first fully correct answer was kept')
+      if (childElement(el, 'units')) log.note('Units were dropped')
+      const answer = full[0]
+      if (answer) {
+        q.numericAnswer = parseFloat(textOf(answer, 'text'))
+        const tolerance = parseFloat(textOf(answer, 'tolerance'))
+        q.tolerance = Number.isFinite(tolerance) && tolerance > 0 ? tolerance : null
+      }
+      q.explanation = explanation((a) => a === answer)
+      break
+    }
+    case 'description':
+      return log.skip('Description items contain no question')
+    default:
+      return log.skip(`Moodle question type "${type}" is not supported`)
+  }
+
+  q.text = readText(childElement(el, 'questiontext'), log)
+  q.tags = tags
+  q.difficulty = difficulty
+  assertImportable(q, log)
+  return q
+}
+
+/**
+ * Parse a Moodle XML file. The last category becomes the quiz title.
+ */
+export function parseMoodleXml(content: string): ParsedQuiz {
+  const root = parseXml(content).documentElement
+  if (root.localName !== 'quiz') throw AppError.badRequest('Not a Moodle XML file: the root element must be <quiz>')
+
+  const issues: ConversionIssue[] = []
+  const questions: InterchangeQuestion[] = []
+  let title: string | null = null
+  let position = 0
+
+  for (const el of childElements(root, 'question')) {
+    const type = el.getAttribute('type') ?? ''
+    if (type === 'category') {
+      const path = textOf(el, 'category', 'text').split('/').map((s) => s.trim()).filter(Boolean)
+      const last = path[path.length - 1]
+      if (last && !last.startsWith('$')) title = last
+      continue
+    }
+    position++
+    const name = textOf(el, 'name', 'text').trim() || `#${position}`
+    const question = convertItem(issues, name, (log) => parseQuestion(el, type, name, log))
+    if (question) questions.push(question)
+  }
+
+  return { title, questions, issues }
+}
+
+// ==================== EXPORT ====================
+
+function textElement(tag: string, text: LocalizedText, extra = ''): string {
+  return `<${tag} format="html"><text>${cdata(formatMultilang(text, true))}</text>${extra}</${tag}>`
+}
+
+function answerElement(fraction: string, text: string, extra = ''): string {
+  return `    <answer fraction="${fraction}" format="moodle_auto_format"><text>${cdata(text)}</text>${extra}</answer>`
+}
+
+function questionElement(q: InterchangeQuestion): string {
+  const moodleType = { single: 'multichoice', multiple: 'multichoice', truefalse: 'truefalse', numeric: 'numerical', text: 'shortanswer' }[q.type]
+  const lines = [
+    `  <question type="${moodleType}">`,
+    `    <name><text>${cdata(q.name)}</text></name>`,
+    `    ${textElement('questiontext', q.text)}`,
+    `    ${textElement('generalfeedback', q.explanation)}`,
+    '    <defaultgrade>1</defaultgrade>',
+    '    <penalty>0</penalty>',
+    '    <hidden>0</hidden>',
+  ]
+
+  switch (q.type) {
+    case 'single':
+    case 'multiple': {
+      const fractions = optionFractions(q)
+      lines.push(
+        `    <single>${q.type === 'single'}</single>`,
+        '    <shuffleanswers>true</shuffleanswers>',
+        '    <answernumbering>abc</answernumbering>',
+        ...q.options.map((o, i) => `    <answer fraction="${fractions[i]}" format="html"><text>${cdata(formatMultilang(o.text, true))}</text></answer>`)
+      )
+      break
+    }
+    case 'truefalse': {
+      const trueIsCorrect = trueOption(q.options)?.correct ?? true
+      lines.push(
+        answerElement(trueIsCorrect ? '100' : '0', 'true'),
+        answerElement(trueIsCorrect ? '0' : '100', 'false')
+      )
+      break
+    }
+    case 'numeric':
+      lines.push(answerElement('100', String(q.numericAnswer), `<tolerance>${q.tolerance ?? 0}</tolerance>`))
+      break
+    case 'text':
+      lines.push('    <usecase>0</usecase>', ...q.acceptedAnswers.map((a) => answerElement('100', a)))
+      break
+  }
+
+  const tags = tagsWithDifficulty(q)
+  lines.push(`    <tags>${tags.map((tag) => `<tag><text>${cdata(tag)}</text></tag>`).join('')}</tags>`, '  </question>')
+  return lines.join('\n')
+}
+
+/**
+ * Moodle XML with the quiz as a category. Every platform question type has a Moodle
+ * equivalent, so nothing is reported beyond what the caller collected.
+ */
+export function toMoodleXml(title: string, questions: InterchangeQuestion[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<quiz>',
+    `  <question type="category"><category><text>${cdata(`$course$/top/${title.replace(/\//g, '-')}`)}</text></category></question>`,
+    ...questions.map(questionElement),
+    '</quiz>',
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { downloadPublicFile, isPublicAddress } from './publicDownload.js'
+
+const MB = 1024 * 1024
+
+describe('isPublicAddress', () => {
+  it('accepts public IPv4 and IPv6 addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '172.32.0.1', '2606:4700:4700::1111']) {
+      expect(isPublicAddress(address)).toBe(true)
+    }
+  })
+
+  it('refuses loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1',
+      '::1', '::', 'fe80::1', 'fd00::1', 'ff02::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1',
+    ]) {
+      expect(isPublicAddress(address)).toBe(false)
+    }
+  })
+
+  it('refuses anything that is not an IP address', () => {
+    expect(isPublicAddress('localhost')).toBe(false)
+  })
+})
+
+describe('downloadPublicFile', () => {
+  it('only downloads over http(s)', async () => {
+    await expect(downloadPublicFile('file:///etc/passwd', MB)).rejects.toThrow('Only http and https URLs')
+    await expect(downloadPublicFile('ftp://example.com/a.pdf', MB)).rejects.toThrow('Only http and https URLs')
+    await expect(downloadPublicFile('not a url', MB)).rejects.toMatchObject({ statusCode: 400 })
+  })
+
+  it('refuses private addresses, by IP or by name', async () => {
+    for (const url of [
+      'http://127.0.0.1:1/a.pdf',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::1]/a.pdf',
+      'http://[::ffff:127.0.0.1]/a.pdf',
+      'http://localhost:1/a.pdf',
+    ]) {
+      await expect(downloadPublicFile(url, MB)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'The URL points to a private network address',
+      })
+    }
+  })
+})
@@ -0,0 +1,134 @@
+// src/utils/publicDownload.ts
+/**
+ * Downloads from URLs that users typed in
+ *
+ * Only http(s) on public addresses: loopback, private, link-local (cloud metadata), CGNAT,
+ * multicast and reserved ranges are refused. The check runs in the socket's DNS lookup, so
+ * it covers every redirect hop and a name can't be re-pointed between check and connect.
+ * Redirects are followed by hand (at most MAX_REDIRECTS), and the body is streamed and
+ * abandoned as soon as it passes the size limit.
+ */
+import dns from 'dns'
+import http from 'http'
+import https from 'https'
+import net from 'net'
+import { AppError } from './AppError.js'
+
+const MAX_REDIRECTS = 3
+const TIMEOUT_MS = 30_000
+
+const BLOCKED = new net.BlockList()
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED.addSubnet(prefix, bits, 'ipv4')
+}
+for (const [prefix, bits] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED.addSubnet(prefix, bits, 'ipv6')
+}
+
+class BlockedAddressError extends Error {}
+
+/**
+ * Whether an IP address is on the public internet; IPv4-mapped IPv6 addresses are checked as IPv4
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (family === 0) return false
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) return isPublicAddress(mapped[1])
+  return !BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+// dns.lookup that fails when the name resolves to any non-public address
+function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (err: Error | null, address: string | dns.LookupAddress[], family?: number) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '')
+    if (addresses.length === 0 || addresses.some((a) => !isPublicAddress(a.address))) {
+      return callback(new BlockedAddressError(hostname), '')
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+function checkUrl(value: string | URL): URL {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw AppError.badRequest('Invalid download URL')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw AppError.badRequest('Only http and https URLs can be downloaded')
+  }
+  // IP literals connect without a lookup
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw AppError.badRequest('The URL points to a private network address')
+  }
+  return url
+}
+
+function get(url: URL): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http
+    const request = client.get(url, { lookup: publicLookup as net.LookupFunction, timeout: TIMEOUT_MS }, resolve)
+    request.on('timeout', () => request.destroy(new Error(`Download from ${url.host} timed out`)))
+    request.on('error', (err) =>
+      reject(err instanceof BlockedAddressError ? AppError.badRequest('The URL points to a private network address') : err)
+    )
+  })
+}
+
+async function readBody(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => AppError.badRequest(`File is too large (max ${Math.round(maxBytes / (1024 * 1024))} MB)`)
+  if (Number(response.headers['content-length'] ?? 0) > maxBytes) {
+    response.destroy()
+    throw tooLarge()
+  }
+
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of response) {
+    size += (chunk as Buffer).length
+    if (size > maxBytes) {
+      response.destroy()
+      throw tooLarge()
+    }
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Download a file from a user-supplied URL, at most `maxBytes` long
+ */
+export async function downloadPublicFile(url: string, maxBytes: number): Promise<Buffer> {
+  let current = checkUrl(url)
+  for (let redirects = 0; ; redirects++) {
+    const response = await get(current)
+    const status = response.statusCode ?? 0
+    const location = response.headers.location
+
+    if (status >= 300 && status < 400 && location) {
+      response.resume()
+      if (redirects >= MAX_REDIRECTS) throw AppError.badRequest('Too many redirects')
+      current = checkUrl(new URL(location, current))
+      continue
+    }
+    if (status < 200 || status >= 300) {
+      response.resume()
+      throw AppError.badRequest(`Could not download the file (HTTP ${status})`)
+    }
+    return readBody(response, maxBytes)
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { type ConversionIssue, type InterchangeQuestion, TRUE_FALSE_TEXT, blankQuestion } from './quizFormats.js'
+import { parseQti, toQtiPackage } from './qti.js'
+import { isZip, readZip } from './zip.js'
+
+function question(name: string, type: InterchangeQuestion['type'], overrides: Partial<InterchangeQuestion>): InterchangeQuestion {
+  return { ...blankQuestion(name, type), ...overrides }
+}
+
+const questions = [
+  question('Keyword', 'single', {
+    text: { EN: 'Which keyword reads rows?', UA: 'Яке ключове слово читає рядки?' },
+    explanation: { EN: 'SELECT reads & never writes.' },
+    options: [
+      { text: { EN: 'SELECT' }, correct: true },
+      { text: { EN: 'DROP', UA: 'ВИДАЛИТИ' }, correct: false },
+    ],
+  }),
+  question('Joins', 'multiple', {
+    text: { EN: 'Which of these are joins?' },
+    options: [
+      { text: { EN: 'INNER' }, correct: true },
+      { text: { EN: 'OUTER' }, correct: true },
+      { text: { EN: 'GROUP' }, correct: false },
+    ],
+  }),
+  question('Null', 'truefalse', {
+    text: { EN: 'NULL = NULL is true' },
+    options: [
+      { text: TRUE_FALSE_TEXT.true, correct: false },
+      { text: TRUE_FALSE_TEXT.false, correct: true },
+    ],
+  }),
+  question('Pi', 'numeric', { text: { EN: 'Pi to two decimals' }, numericAnswer: 3.14, tolerance: 0.01 }),
+  question('Reads', 'text', { text: { EN: 'Keyword that reads rows' }, acceptedAnswers: ['SELECT', 'select'] }),
+]
+
+const item = (identifier: string, body: string, declarations = '') =>
+  `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="${identifier}" title="${identifier}">
+    ${declarations}
+    <itemBody>${body}</itemBody>
+  </assessmentItem>`
+
+describe('QTI 2.1', () => {
+  it('round-trips every question type and translations through a content package', () => {
+    const issues: ConversionIssue[] = []
+    const data = toQtiPackage(questions, issues)
+
+    expect(isZip(data)).toBe(true)
+    expect(readZip(data).map((e) => e.name)).toEqual(['imsmanifest.xml', ...questions.map((_, i) => `items/ITEM_${i + 1}.xml`)])
+    expect(issues).toEqual([])
+    expect(parseQti(data)).toEqual({ title: null, questions, issues: [] })
+  })
+
+  it('reports tags and difficulty it cannot export', () => {
+    const issues: ConversionIssue[] = []
+    toQtiPackage([{ ...questions[0], tags: ['sql'] }, { ...questions[3], difficulty: 'Hard' }, questions[4]], issues)
+
+    expect(issues).toEqual([
+      { item: 'Keyword', message: 'Tags and difficulty are not part of QTI items and were not exported', skipped: false },
+      { item: 'Pi', message: 'Tags and difficulty are not part of QTI items and were not exported', skipped: false },
+    ])
+  })
+
+  it('reads a single item file and detects true/false choices', () => {
+    const parsed = parseQti(
+      Buffer.from(
+        item(
+          'Declarative',
+          `<choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+            <prompt>Is SQL declarative?</prompt>
+            <simpleChoice identifier="A">False</simpleChoice>
+            <simpleChoice identifier="B">True</simpleChoice>
+          </choiceInteraction>`,
+          '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier"><correctResponse><value>B</value></correctResponse></responseDeclaration>'
+        )
+      )
+    )
+
+    expect(parsed.questions).toEqual([
+      expect.objectContaining({
+        name: 'Declarative',
+        type: 'truefalse',
+        text: { EN: 'Is SQL declarative?' },
+        options: [
+          { text: TRUE_FALSE_TEXT.true, correct: true },
+          { text: TRUE_FALSE_TEXT.false, correct: false },
+        ],
+      }),
+    ])
+  })
+
+  it('reports the items it skips and keeps the rest', () => {
+    const order = item('Order', '<orderInteraction responseIdentifier="RESPONSE"><simpleChoice identifier="A">A</simpleChoice></orderInteraction>')
+    const essay = item('Essay', '<p>Describe normal forms</p>')
+    const numeric = item(
+      'Answer',
+      '<p>Six times seven</p><textEntryInteraction responseIdentifier="RESPONSE"/>',
+      '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="integer"><correctResponse><value>42</value></correctResponse></responseDeclaration>'
+    )
+    const parsed = parseQti(Buffer.from(`<items>${order}${essay}${numeric}</items>`))
+
+    expect(parsed.questions).toEqual([expect.objectContaining({ name: 'Answer', type: 'numeric', numericAnswer: 42, tolerance: null })])
+    expect(parsed.issues).toEqual([
+      { item: 'Order', message: 'orderInteraction is not supported', skipped: true },
+      { item: 'Essay', message: 'Item has no supported interaction', skipped: true },
+    ])
+  })
+
+  it('rejects uploads without assessment items', () => {
+    expect(() => parseQti(Buffer.from('<quiz/>'))).toThrow('No QTI 2.1 assessmentItem found')
+    expect(() => parseQti(toQtiPackage([], []))).toThrow('No QTI 2.1 assessmentItem found')
+  })
+})
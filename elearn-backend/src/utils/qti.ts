@@ -0,0 +1,274 @@
+// src/utils/qti.ts
+/**
+ * IMS QTI 2.1 items and content packages
+ *
+ * Choice questions map to choiceInteraction (maxChoices 1 for single answer), numeric and
+ * short-answer questions to textEntryInteraction with a float or string response. The
+ * explanation travels as modalFeedback. Export produces a content package (imsmanifest.xml
+ * plus one file per item); import accepts a package or a single item/XML file.
+ */
+import { AppError } from './AppError.js'
+import { createZip, isZip, readZip } from './zip.js'
+import {
+  type ConversionIssue,
+  type InterchangeQuestion,
+  type ItemLog,
+  type LocalizedText,
+  type ParsedQuiz,
+  TRUE_FALSE_TEXT,
+  assertImportable,
+  blankQuestion,
+  childElement,
+  childElements,
+  convertItem,
+  descendants,
+  escapeXml,
+  formatMultilang,
+  langFromCode,
+  parseMultilang,
+  parseXml,
+  truthOf,
+} from './quizFormats.js'
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1'
+const CP_NS = 'http://www.imsglobal.org/xsd/imscp_v1p1'
+
+const UNSUPPORTED_INTERACTIONS = [
+  'orderInteraction', 'associateInteraction', 'matchInteraction', 'gapMatchInteraction',
+  'inlineChoiceInteraction', 'extendedTextInteraction', 'hottextInteraction', 'hotspotInteraction',
+  'selectPointInteraction', 'graphicOrderInteraction', 'graphicAssociateInteraction',
+  'graphicGapMatchInteraction', 'positionObjectInteraction', 'sliderInteraction',
+  'drawingInteraction', 'uploadInteraction', 'mediaInteraction', 'customInteraction',
+]
+
+/** Markup inside an element; comments and processing instructions are left out */
+function innerXml(el: Element): string {
+  return Array.from(el.childNodes)
+    .map((node) => {
+      if (node.nodeType === node.ELEMENT_NODE) return (node as Element).outerHTML
+      if (node.nodeType === node.TEXT_NODE || node.nodeType === node.CDATA_SECTION_NODE) return escapeXml(node.textContent ?? '')
+      return ''
+    })
+    .join('')
+}
+
+function parseItem(item: Element, name: string, log: ItemLog): InterchangeQuestion {
+  const defaultLang = langFromCode(item.getAttribute('xml:lang')) ?? 'EN'
+  const read = (html: string): LocalizedText => parseMultilang(html, { html: true, defaultLang, log })
+
+  const body = childElement(item, 'itemBody')
+  if (!body) log.skip('Item has no itemBody')
+
+  const unsupported = UNSUPPORTED_INTERACTIONS.find((tag) => descendants(body, tag).length > 0)
+  if (unsupported) log.skip(`${unsupported} is not supported`)
+  const interactions = [...descendants(body, 'choiceInteraction'), ...descendants(body, 'textEntryInteraction')]
+  if (interactions.length === 0) log.skip('Item has no supported interaction')
+  if (interactions.length > 1) log.skip('Items with several interactions are not supported')
+  const interaction = interactions[0]
+
+  const responseId = interaction.getAttribute('responseIdentifier')
+  const declaration = childElements(item, 'responseDeclaration').find((d) => d.getAttribute('identifier') === responseId)
+  if (!declaration) log.skip(`No responseDeclaration for "${responseId}"`)
+  const correctValues = descendants(declaration, 'correctResponse').flatMap((c) => descendants(c, 'value').map((v) => v.textContent!.trim()))
+  const mapped = descendants(declaration, 'mapEntry')
+    .filter((e) => parseFloat(e.getAttribute('mappedValue') ?? '0') > 0)
+    .map((e) => e.getAttribute('mapKey') ?? '')
+
+  // Question text: the item body without the interaction, plus the interaction's prompt
+  const prompt = childElement(interaction, 'prompt')
+  const stem = body.cloneNode(true) as Element
+  for (const el of [...descendants(stem, 'choiceInteraction'), ...descendants(stem, 'textEntryInteraction')]) el.remove()
+  const textHtml = [innerXml(stem), prompt ? innerXml(prompt) : ''].filter((s) => s.trim()).join('<br>')
+
+  let q: InterchangeQuestion
+  if (interaction.localName === 'choiceInteraction') {
+    const correct = new Set(correctValues.length > 0 ? correctValues : mapped)
+    const choices = childElements(interaction, 'simpleChoice')
+    const single = interaction.getAttribute('maxChoices') === '1'
+    q = blankQuestion(name, single ? 'single' : 'multiple')
+    q.options = choices.map((c) => ({ text: read(innerXml(c)), correct: correct.has(c.getAttribute('identifier') ?? '') }))
+
+    const truths = q.options.map((o) => truthOf(o.text))
+    if (single && q.options.length === 2 && truths.includes('true') && truths.includes('false')) {
+      const trueIsCorrect = q.options[truths.indexOf('true')].correct
+      q.type = 'truefalse'
+      q.options = [
+        { text: TRUE_FALSE_TEXT.true, correct: trueIsCorrect },
+        { text: TRUE_FALSE_TEXT.false, correct: !trueIsCorrect },
+      ]
+    }
+  } else {
+    const baseType = declaration.getAttribute('baseType')
+    if (baseType === 'float' || baseType === 'integer') {
+      q = blankQuestion(name, 'numeric')
+      q.numericAnswer = correctValues.length > 0 ? parseFloat(correctValues[0]) : null
+      if (correctValues.length > 1) log.note('Only the first correct value was kept')
+      const equal = descendants(item, 'equal').find((e) => e.getAttribute('toleranceMode') === 'absolute')
+      const tolerance = parseFloat(equal?.getAttribute('tolerance')?.split(/\s+/)[0] ?? '')
+      q.tolerance = Number.isFinite(tolerance) && tolerance > 0 ? tolerance : null
+    } else {
+      q = blankQuestion(name, 'text')
+      q.acceptedAnswers = [...new Set([...correctValues, ...mapped].map((a) => a.trim()).filter(Boolean))]
+      if (descendants(declaration, 'mapEntry').some((e) => e.getAttribute('caseSensitive') === 'true')) {
+        log.note('Case-sensitive matching is not supported; answers are compared ignoring case')
+      }
+    }
+  }
+
+  const feedback = childElements(item, 'modalFeedback')
+  if (feedback.length > 1) log.note(`Only the first of ${feedback.length} feedback blocks was kept`)
+  if (descendants(body, 'feedbackInline').length + descendants(body, 'feedbackBlock').length > 0) {
+    log.note('Inline feedback was dropped')
+  }
+
+  q.text = read(textHtml)
+  q.explanation = feedback[0] ? read(innerXml(feedback[0])) : {}
+  assertImportable(q, log)
+  return q
+}
+
+/**
+ * XML documents of the upload: the package's item files in manifest order, or the file itself
+ */
+function itemDocuments(data: Buffer): Document[] {
+  if (!isZip(data)) return [parseXml(data.toString('utf8'))]
+
+  const files = new Map(readZip(data).map((e) => [e.name.replace(/^\.?\//, ''), e.data]))
+  const manifest = files.get('imsmanifest.xml')
+  let hrefs = [...files.keys()].filter((name) => name.toLowerCase().endsWith('.xml') && name !== 'imsmanifest.xml')
+  if (manifest) {
+    const listed = descendants(parseXml(manifest.toString('utf8')), 'resource')
+      .filter((r) => (r.getAttribute('type') ?? '').startsWith('imsqti_item'))
+      .map((r) => r.getAttribute('href') ?? '')
+      .filter((href) => files.has(href))
+    if (listed.length > 0) hrefs = listed
+  }
+  return hrefs.map((href) => parseXml(files.get(href)!.toString('utf8')))
+}
+
+/**
+ * Parse a QTI 2.1 package (ZIP) or XML file with one or more assessmentItem elements
+ */
+export function parseQti(data: Buffer): ParsedQuiz {
+  const items = itemDocuments(data).flatMap((doc) => descendants(doc, 'assessmentItem'))
+  if (items.length === 0) throw AppError.badRequest('No QTI 2.1 assessmentItem found')
+
+  const issues: ConversionIssue[] = []
+  const questions: InterchangeQuestion[] = []
+  items.forEach((item, index) => {
+    const name = item.getAttribute('title')?.trim() || item.getAttribute('identifier') || `#${index + 1}`
+    const question = convertItem(issues, name, (log) => parseItem(item, name, log))
+    if (question) questions.push(question)
+  })
+  return { title: null, questions, issues }
+}
+
+// ==================== EXPORT ====================
+
+const setScore = (value: string) =>
+  `<setOutcomeValue identifier="SCORE">${value}</setOutcomeValue>`
+
+function itemXml(q: InterchangeQuestion, identifier: string): string {
+  const html = (text: LocalizedText) => formatMultilang(text, true)
+  const isChoice = q.type === 'single' || q.type === 'multiple' || q.type === 'truefalse'
+  const choiceId = (i: number) => `CHOICE_${i + 1}`
+  const lines: string[] = []
+
+  if (isChoice) {
+    const correct = q.options.map((o, i) => (o.correct ? `<value>${choiceId(i)}</value>` : '')).join('')
+    lines.push(
+      `  <responseDeclaration identifier="RESPONSE" cardinality="${q.type === 'multiple' ? 'multiple' : 'single'}" baseType="identifier">`,
+      `    <correctResponse>${correct}</correctResponse>`,
+      '  </responseDeclaration>'
+    )
+  } else if (q.type === 'numeric') {
+    lines.push(
+      '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">',
+      `    <correctResponse><value>${q.numericAnswer}</value></correctResponse>`,
+      '  </responseDeclaration>'
+    )
+  } else {
+    lines.push(
+      '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+      `    <correctResponse>${q.acceptedAnswers.map((a) => `<value>${escapeXml(a)}</value>`).join('')}</correctResponse>`,
+      `    <mapping defaultValue="0">${q.acceptedAnswers.map((a) => `<mapEntry mapKey="${escapeXml(a)}" mappedValue="1" caseSensitive="false"/>`).join('')}</mapping>`,
+      '  </responseDeclaration>'
+    )
+  }
+
+  lines.push(
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>',
+    '  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+    '  <itemBody>'
+  )
+  if (isChoice) {
+    lines.push(
+      `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="${q.type === 'multiple' ? 0 : 1}">`,
+      `      <prompt>${html(q.text)}</prompt>`,
+      ...q.options.map((o, i) => `      <simpleChoice identifier="${choiceId(i)}">${html(o.text)}</simpleChoice>`),
+      '    </choiceInteraction>'
+    )
+  } else {
+    lines.push(`    <div>${html(q.text)}</div>`, '    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="20"/></p>')
+  }
+  lines.push('  </itemBody>')
+
+  // Custom processing: numeric answers need the tolerance, and the explanation is always shown
+  const matched = q.type === 'numeric'
+    ? `<equal toleranceMode="absolute" tolerance="${q.tolerance ?? 0} ${q.tolerance ?? 0}"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal>`
+    : '<match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>'
+  lines.push(
+    '  <responseProcessing>',
+    q.type === 'text'
+      ? `    ${setScore('<mapResponse identifier="RESPONSE"/>')}`
+      : `    <responseCondition><responseIf>${matched}${setScore('<baseValue baseType="float">1</baseValue>')}</responseIf></responseCondition>`,
+    '    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>',
+    '  </responseProcessing>'
+  )
+  if (Object.keys(q.explanation).length > 0) {
+    lines.push(`  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${html(q.explanation)}</modalFeedback>`)
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+    `  xsi:schemaLocation="${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`,
+    `  identifier="${identifier}" title="${escapeXml(q.name)}" adaptive="false" timeDependent="false">`,
+    ...lines,
+    '</assessmentItem>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * QTI 2.1 content package (ZIP). Tags and difficulty have no place in a QTI item, so
+ * questions with tags or a non-default difficulty get an issue.
+ */
+export function toQtiPackage(questions: InterchangeQuestion[], issues: ConversionIssue[]): Buffer {
+  const items = questions.map((q, i) => {
+    if (q.tags.length > 0 || q.difficulty !== 'Medium') {
+      issues.push({ item: q.name, message: 'Tags and difficulty are not part of QTI items and were not exported', skipped: false })
+    }
+    const identifier = `ITEM_${q.id ?? i + 1}`
+    return { identifier, href: `items/${identifier}.xml`, xml: itemXml(q, identifier) }
+  })
+
+  const manifest = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest xmlns="${CP_NS}" identifier="MANIFEST_1">`,
+    `  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>`,
+    `  <organizations/>`,
+    '  <resources>',
+    ...items.map((item) =>
+      `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}"><file href="${item.href}"/></resource>`
+    ),
+    '  </resources>',
+    '</manifest>',
+    '',
+  ].join('\n')
+
+  return createZip([
+    { name: 'imsmanifest.xml', data: Buffer.from(manifest, 'utf8') },
+    ...items.map((item) => ({ name: item.href, data: Buffer.from(item.xml, 'utf8') })),
+  ])
+}
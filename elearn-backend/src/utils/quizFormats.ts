@@ -0,0 +1,337 @@
+// src/utils/quizFormats.ts
+/**
+ * Quiz interchange model shared by the Moodle XML, GIFT and QTI converters
+ *
+ * Each converter parses into, and serializes from, InterchangeQuestion: a format-neutral
+ * copy of Question + Option. Text in several languages travels as Moodle multilang spans
+ * (<span lang="uk" class="multilang">…</span>); {mlang uk}…{mlang} from filter_multilang2
+ * is read as well. Whatever a format can't carry is written to the per-item issue list.
+ */
+import { JSDOM } from 'jsdom'
+import type { Difficulty, QuestionType } from '@prisma/client'
+import type { Lang } from '../shared'
+import { AppError } from './AppError.js'
+
+export type QuizFormat = 'moodle' | 'gift' | 'qti'
+export type LocalizedText = Partial<Record<Lang, string>>
+
+export interface InterchangeOption {
+  text: LocalizedText
+  correct: boolean
+}
+
+export interface InterchangeQuestion {
+  id?: string // Source question id (export only)
+  name: string // Label used in the report
+  type: QuestionType
+  text: LocalizedText
+  explanation: LocalizedText
+  difficulty: Difficulty
+  tags: string[]
+  options: InterchangeOption[]
+  numericAnswer: number | null
+  tolerance: number | null
+  acceptedAnswers: string[]
+}
+
+export interface ConversionIssue {
+  item: string
+  message: string
+  skipped: boolean // The item was left out entirely
+}
+
+export interface ParsedQuiz {
+  title: string | null
+  questions: InterchangeQuestion[]
+  issues: ConversionIssue[]
+}
+
+/**
+ * Collects the issues of one item; `skip` throws so a converter can bail out of the item
+ */
+export class ItemLog {
+  constructor(private readonly issues: ConversionIssue[], public readonly item: string) {}
+
+  note(message: string) {
+    if (!this.issues.some((i) => i.item === this.item && i.message === message)) {
+      this.issues.push({ item: this.item, message, skipped: false })
+    }
+  }
+
+  skip(message: string): never {
+    throw new SkipItem(message)
+  }
+}
+
+class SkipItem extends Error {}
+
+/**
+ * Run one item conversion, turning `log.skip(...)` into a skipped issue
+ */
+export function convertItem<T>(issues: ConversionIssue[], item: string, convert: (log: ItemLog) => T): T | null {
+  try {
+    return convert(new ItemLog(issues, item))
+  } catch (err) {
+    if (!(err instanceof SkipItem)) throw err
+    issues.push({ item, message: err.message, skipped: true })
+    return null
+  }
+}
+
+export const LANGS: Lang[] = ['EN', 'UA', 'PL']
+
+// Moodle/ISO codes; Moodle uses "uk" for Ukrainian
+const LANG_BY_CODE: Record<string, Lang> = { en: 'EN', uk: 'UA', ua: 'UA', pl: 'PL' }
+const CODE_BY_LANG: Record<Lang, string> = { EN: 'en', UA: 'uk', PL: 'pl' }
+
+export function langFromCode(code: string | null | undefined): Lang | null {
+  if (!code) return null
+  return LANG_BY_CODE[code.toLowerCase().split(/[-_]/)[0]] ?? null
+}
+
+export function langCode(lang: Lang): string {
+  return CODE_BY_LANG[lang]
+}
+
+// Labels of generated true/false options, as the quiz editor creates them
+export const TRUE_FALSE_TEXT: Record<'true' | 'false', LocalizedText> = {
+  true: { EN: 'True', UA: 'Правда', PL: 'Prawda' },
+  false: { EN: 'False', UA: 'Неправда', PL: 'Fałsz' },
+}
+
+const TRUE_WORDS = new Set(['true', 'правда', 'так', 'prawda', 'tak'])
+const FALSE_WORDS = new Set(['false', 'неправда', 'ні', 'fałsz', 'nie'])
+
+/** 'true' / 'false' when the option reads like one in any supported language */
+export function truthOf(text: LocalizedText): 'true' | 'false' | null {
+  const values = Object.values(text).map((v) => v!.trim().toLowerCase())
+  if (values.some((v) => TRUE_WORDS.has(v))) return 'true'
+  if (values.some((v) => FALSE_WORDS.has(v))) return 'false'
+  return null
+}
+
+/** The "true" option of a true/false question: the first one unless its text says otherwise */
+export function trueOption<T extends InterchangeOption>(options: T[]): T | undefined {
+  return options.find((o) => truthOf(o.text) === 'true')
+    ?? options.find((o) => truthOf(o.text) !== 'false')
+    ?? options[0]
+}
+
+// ==================== TEXT ====================
+
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/** Plain text as HTML: escaped, line breaks kept */
+export function textToHtml(text: string): string {
+  return escapeXml(text).replace(/\r?\n/g, '<br>')
+}
+
+/**
+ * Plain text of an HTML fragment. Paragraphs and <br> become line breaks; images and
+ * other media can't be stored in question text, so they're reported and dropped.
+ */
+export function htmlToText(html: string, log?: ItemLog): string {
+  if (/<(img|video|audio|object|iframe)\b/i.test(html) || html.includes('@@PLUGINFILE@@')) {
+    log?.note('Images and media were removed; only text is imported')
+  }
+  if (!/[<&]/.test(html)) return html.trim()
+  const marked = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|pre|tr)>/gi, '$&\n')
+  return JSDOM.fragment(marked).textContent!.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+/**
+ * Split text into languages. Text outside any language marker belongs to `defaultLang`.
+ * With `html` the parts are converted from HTML to plain text.
+ */
+export function parseMultilang(raw: string, options: { html: boolean; defaultLang?: Lang; log?: ItemLog }): LocalizedText {
+  const { html, defaultLang = 'EN', log } = options
+  const parts = new Map<string, string>()
+
+  if (/\{mlang\s/i.test(raw)) {
+    for (const [, code, part] of raw.matchAll(/\{mlang\s+([\w-]+)\}([\s\S]*?)\{mlang\}/gi)) {
+      parts.set(code, (parts.get(code) ?? '') + part)
+    }
+  } else if (/class\s*=\s*["']multilang["']/i.test(raw)) {
+    const fragment = JSDOM.fragment(raw)
+    for (const span of Array.from(fragment.querySelectorAll('span.multilang[lang]'))) {
+      const code = span.getAttribute('lang')!
+      parts.set(code, (parts.get(code) ?? '') + span.innerHTML)
+    }
+  }
+
+  const convert = (part: string) => (html ? htmlToText(part, log) : part.trim())
+  if (parts.size === 0) {
+    const text = convert(raw)
+    return text ? { [defaultLang]: text } : {}
+  }
+
+  const result: LocalizedText = {}
+  for (const [code, part] of parts) {
+    // {mlang other} is the fallback text for languages without their own part
+    const lang = code.toLowerCase() === 'other' ? defaultLang : langFromCode(code)
+    if (!lang) {
+      log?.note(`Text in language "${code}" was dropped (supported: UA, PL, EN)`)
+      continue
+    }
+    const text = convert(part)
+    if (text && !result[lang]) result[lang] = text
+  }
+  return result
+}
+
+/**
+ * Text for a format: a single language as is, several as multilang spans.
+ * `html` escapes the text for HTML; spans always need it.
+ */
+export function formatMultilang(text: LocalizedText, html: boolean): string {
+  const entries = LANGS.filter((l) => text[l]).map((l) => [l, text[l]!] as const)
+  if (entries.length === 0) return ''
+  if (entries.length === 1) return html ? textToHtml(entries[0][1]) : entries[0][1]
+  return entries
+    .map(([lang, value]) => `<span lang="${langCode(lang)}" class="multilang">${textToHtml(value)}</span>`)
+    .join('')
+}
+
+export function isMultilang(text: LocalizedText): boolean {
+  return Object.values(text).filter(Boolean).length > 1
+}
+
+/**
+ * Localized text of a stored field: the translations, plus the fallback as EN when no
+ * translation has that text yet
+ */
+export function fromStored(json: unknown, fallback: string | null): LocalizedText {
+  const result: LocalizedText = {}
+  if (json && typeof json === 'object') {
+    for (const lang of LANGS) {
+      const value = (json as Record<string, unknown>)[lang]
+      if (typeof value === 'string' && value.trim()) result[lang] = value
+    }
+  }
+  if (fallback?.trim() && !result.EN && !Object.values(result).includes(fallback)) result.EN = fallback
+  return result
+}
+
+/** Fallback column (EN, else the first language) and translations for storing */
+export function toStored(text: LocalizedText): { text: string; json: Record<string, string> } {
+  const json = Object.fromEntries(LANGS.filter((l) => text[l]).map((l) => [l, text[l]!]))
+  return { text: text.EN ?? Object.values(json)[0] ?? '', json }
+}
+
+export function excerpt(text: LocalizedText, max = 60): string {
+  const value = (text.EN ?? Object.values(text)[0] ?? '').replace(/\s+/g, ' ').trim()
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value
+}
+
+// ==================== DIFFICULTY & SCORING ====================
+
+// Formats without a difficulty field carry it as a tag; Medium, the import default, is left out
+const DIFFICULTY_TAG = /^difficulty:(easy|medium|hard)$/i
+
+export function tagsWithDifficulty(q: Pick<InterchangeQuestion, 'tags' | 'difficulty'>): string[] {
+  return q.difficulty === 'Medium' ? q.tags : [...q.tags, `difficulty:${q.difficulty}`]
+}
+
+export function splitDifficultyTag(tags: string[]): { tags: string[]; difficulty: Difficulty } {
+  let difficulty: Difficulty = 'Medium'
+  const rest = tags.filter((tag) => {
+    const match = tag.trim().match(DIFFICULTY_TAG)
+    if (!match) return true
+    difficulty = (match[1][0].toUpperCase() + match[1].slice(1).toLowerCase()) as Difficulty
+    return false
+  })
+  return { tags: rest.map((t) => t.trim()).filter(Boolean), difficulty }
+}
+
+/**
+ * Moodle grade fractions (percent) of an option: correct options share 100%,
+ * wrong options of a multiple-answer question share -100%
+ */
+export function optionFractions(q: Pick<InterchangeQuestion, 'type' | 'options'>): string[] {
+  const correct = q.options.filter((o) => o.correct).length
+  const wrong = q.options.length - correct
+  const format = (value: number) => String(Number(value.toFixed(5)))
+  return q.options.map((o) => {
+    if (q.type !== 'multiple') return o.correct ? '100' : '0'
+    return o.correct ? format(100 / correct) : format(-100 / wrong)
+  })
+}
+
+/**
+ * Check a parsed question against the rules the quiz editor enforces
+ */
+export function assertImportable(q: InterchangeQuestion, log: ItemLog) {
+  if (Object.keys(q.text).length === 0) log.skip('Question has no text')
+  const correct = q.options.filter((o) => o.correct).length
+  switch (q.type) {
+    case 'truefalse':
+      if (q.options.length !== 2 || correct !== 1) log.skip('True/false question needs exactly one correct answer')
+      break
+    case 'single':
+    case 'multiple':
+      if (q.options.length < 2) log.skip('Choice question needs at least 2 options')
+      if (correct === 0) log.skip('Choice question has no correct option')
+      break
+    case 'numeric':
+      if (q.numericAnswer === null || !Number.isFinite(q.numericAnswer)) log.skip('Numeric question has no expected value')
+      break
+    case 'text':
+      if (q.acceptedAnswers.length === 0) log.skip('Short-answer question has no fully correct answer')
+      break
+  }
+}
+
+/** A question with defaults for the fields a converter fills in */
+export function blankQuestion(name: string, type: QuestionType): InterchangeQuestion {
+  return {
+    name,
+    type,
+    text: {},
+    explanation: {},
+    difficulty: 'Medium',
+    tags: [],
+    options: [],
+    numericAnswer: null,
+    tolerance: null,
+    acceptedAnswers: [],
+  }
+}
+
+// ==================== XML ====================
+
+export function parseXml(content: string): Document {
+  try {
+    return new JSDOM(content, { contentType: 'text/xml' }).window.document
+  } catch (err) {
+    throw AppError.badRequest(`Invalid XML: ${(err as Error).message}`)
+  }
+}
+
+/** Direct children with the given local name (namespace prefixes ignored) */
+export function childElements(parent: Element, name?: string): Element[] {
+  return Array.from(parent.children).filter((el) => !name || el.localName === name)
+}
+
+export function childElement(parent: Element | null | undefined, name: string): Element | null {
+  return parent ? childElements(parent, name)[0] ?? null : null
+}
+
+/** Descendants with the given local name, in document order */
+export function descendants(parent: Element | Document, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name))
+}
+
+/** Text of <parent><name><text>…</text></name></parent>, Moodle style */
+export function textOf(parent: Element | null | undefined, ...path: string[]): string {
+  let el: Element | null | undefined = parent
+  for (const name of path) el = childElement(el, name)
+  return el?.textContent ?? ''
+}
+
+export function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
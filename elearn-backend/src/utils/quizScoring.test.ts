@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest'
+import type { QuestionType } from '@prisma/client'
+import { getExpectedAnswer, getPassingPoints, isAnswered, scoreAnswer, type ScorableQuestion } from './quizScoring.js'
+
+function question(type: QuestionType, overrides: Partial<ScorableQuestion> = {}): ScorableQuestion {
+  return {
+    id: 'q1',
+    text: 'Question',
+    textJson: null,
+    explanation: null,
+    explanationJson: null,
+    tags: [],
+    difficulty: 'Easy',
+    type,
+    numericAnswer: null,
+    tolerance: null,
+    acceptedAnswers: [],
+    quizId: 'quiz1',
+    options: [],
+    ...overrides,
+  }
+}
+
+const choiceOptions = [
+  { id: 'a', correct: true },
+  { id: 'b', correct: false },
+  { id: 'c', correct: false },
+]
+
+const multiOptions = [
+  { id: 'a', correct: true },
+  { id: 'b', correct: true },
+  { id: 'c', correct: false },
+  { id: 'd', correct: false },
+]
+
+describe('scoreAnswer', () => {
+  describe('single choice', () => {
+    it('gives full credit for the correct option', () => {
+      const q = question('single', { options: choiceOptions })
+      expect(scoreAnswer(q, { questionId: 'q1', optionId: 'a' }).credit).toBe(1)
+    })
+
+    it('gives no credit for a wrong option', () => {
+      const q = question('single', { options: choiceOptions })
+      expect(scoreAnswer(q, { questionId: 'q1', optionId: 'b' }).credit).toBe(0)
+    })
+
+    it('drops option ids that do not belong to the question', () => {
+      const q = question('truefalse', { options: choiceOptions })
+      const scored = scoreAnswer(q, { questionId: 'q1', optionId: 'foreign' })
+      expect(scored).toMatchObject({ optionId: null, credit: 0 })
+    })
+  })
+
+  describe('multiple choice', () => {
+    const q = question('multiple', { options: multiOptions })
+
+    it('gives full credit for exactly the correct options', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', selectedOptions: ['a', 'b'] }).credit).toBe(1)
+    })
+
+    it('gives partial credit for a subset of the correct options', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', selectedOptions: ['a'] }).credit).toBe(0.5)
+    })
+
+    it('subtracts wrong picks from correct ones', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', selectedOptions: ['a', 'b', 'c'] }).credit).toBe(0.5)
+    })
+
+    it('floors the credit at 0', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', selectedOptions: ['a', 'c', 'd'] }).credit).toBe(0)
+    })
+
+    it('ignores duplicates and foreign ids', () => {
+      const scored = scoreAnswer(q, { questionId: 'q1', selectedOptions: ['a', 'a', 'x', 'b'] })
+      expect(scored.selectedOptionIds).toEqual(['a', 'b'])
+      expect(scored.credit).toBe(1)
+    })
+
+    it('rounds credit to 2 decimals', () => {
+      const three = question('multiple', {
+        options: [{ id: 'a', correct: true }, { id: 'b', correct: true }, { id: 'c', correct: true }],
+      })
+      expect(scoreAnswer(three, { questionId: 'q1', selectedOptions: ['a'] }).credit).toBe(0.33)
+    })
+  })
+
+  describe('numeric', () => {
+    const q = question('numeric', { numericAnswer: 3.14, tolerance: 0.01 })
+
+    it('accepts values within the tolerance', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', value: '3.15' }).credit).toBe(1)
+      expect(scoreAnswer(q, { questionId: 'q1', value: '3.13' }).credit).toBe(1)
+    })
+
+    it('rejects values outside the tolerance', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', value: '3.16' }).credit).toBe(0)
+    })
+
+    it('accepts a decimal comma', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', value: ' 3,14 ' })).toMatchObject({ value: '3,14', credit: 1 })
+    })
+
+    it('requires an exact match without a tolerance', () => {
+      const exact = question('numeric', { numericAnswer: 42 })
+      expect(scoreAnswer(exact, { questionId: 'q1', value: '42' }).credit).toBe(1)
+      expect(scoreAnswer(exact, { questionId: 'q1', value: '42.001' }).credit).toBe(0)
+    })
+
+    it('gives no credit for empty or non-numeric input', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', value: '' }).credit).toBe(0)
+      expect(scoreAnswer(q, { questionId: 'q1', value: 'pi' }).credit).toBe(0)
+    })
+  })
+
+  describe('short text', () => {
+    const q = question('text', { acceptedAnswers: ['Kyiv', 'Kiev city'] })
+
+    it('matches case-insensitively', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', value: 'KYIV' }).credit).toBe(1)
+    })
+
+    it('collapses surrounding and repeated whitespace', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', value: '  kiev    City ' }).credit).toBe(1)
+    })
+
+    it('rejects other answers and blank input', () => {
+      expect(scoreAnswer(q, { questionId: 'q1', value: 'Lviv' }).credit).toBe(0)
+      expect(scoreAnswer(q, { questionId: 'q1', value: '   ' }).credit).toBe(0)
+    })
+  })
+})
+
+describe('getExpectedAnswer', () => {
+  it('returns every correct option for multiple choice', () => {
+    expect(getExpectedAnswer(question('multiple', { options: multiOptions }))).toEqual(['a', 'b'])
+  })
+
+  it('returns the numeric value as a string', () => {
+    expect(getExpectedAnswer(question('numeric', { numericAnswer: 2.5 }))).toBe('2.5')
+  })
+
+  it('returns the first accepted text answer', () => {
+    expect(getExpectedAnswer(question('text', { acceptedAnswers: ['one', 'two'] }))).toBe('one')
+  })
+})
+
+describe('getPassingPoints', () => {
+  it('is 80% of the total, rounded to 2 decimals', () => {
+    expect(getPassingPoints(10)).toBe(8)
+    expect(getPassingPoints(7)).toBe(5.6)
+  })
+})
+
+describe('isAnswered', () => {
+  it('detects each answer shape', () => {
+    expect(isAnswered({ questionId: 'q1', optionId: 'a' })).toBe(true)
+    expect(isAnswered({ questionId: 'q1', selectedOptions: ['a'] })).toBe(true)
+    expect(isAnswered({ questionId: 'q1', value: '1' })).toBe(true)
+  })
+
+  it('treats blank answers as unanswered', () => {
+    expect(isAnswered({ questionId: 'q1' })).toBe(false)
+    expect(isAnswered({ questionId: 'q1', selectedOptions: [], value: '  ' })).toBe(false)
+  })
+})
@@ -0,0 +1,109 @@
+// src/utils/quizScoring.ts
+/**
+ * Per-question scoring shared by quiz submission and the review queue
+ */
+import type { Question, Option } from '@prisma/client'
+
+/** Share of points needed to pass a quiz (earn XP, satisfy path prerequisites) */
+export const PASS_THRESHOLD = 0.8
+
+export type ScorableQuestion = Question & { options: Pick<Option, 'id' | 'correct'>[] }
+
+export interface SubmitAnswer {
+  questionId: string
+  optionId?: string
+  selectedOptions?: string[]
+  value?: string
+  timeSpentMs?: number
+}
+
+export interface ScoredAnswer {
+  optionId: string | null
+  selectedOptionIds: string[]
+  value: string | null
+  credit: number
+}
+
+/**
+ * Normalize a short-text answer for comparison (case, surrounding and repeated whitespace)
+ */
+function normalizeTextAnswer(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Round credit/points to 2 decimals to keep float sums stable
+ */
+export function roundPoints(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Minimum score that passes a quiz with the given number of questions
+ */
+export function getPassingPoints(total: number): number {
+  return roundPoints(total * PASS_THRESHOLD)
+}
+
+/**
+ * Expected answer for a question, as sent back to the client after submission
+ */
+export function getExpectedAnswer(q: ScorableQuestion): string | string[] | undefined {
+  switch (q.type) {
+    case 'multiple':
+      return q.options.filter((o) => o.correct).map((o) => o.id)
+    case 'numeric':
+      return q.numericAnswer !== null ? String(q.numericAnswer) : undefined
+    case 'text':
+      return q.acceptedAnswers[0]
+    default:
+      return q.options.find((o) => o.correct)?.id
+  }
+}
+
+/**
+ * Score a single answer against its question.
+ * Multi-select gives partial credit: (correct picks - wrong picks) / correct options, floored at 0.
+ * Numeric answers are accepted within the question tolerance, short-text answers by normalized match.
+ */
+export function scoreAnswer(q: ScorableQuestion, answer: SubmitAnswer): ScoredAnswer {
+  const optionIds = new Set(q.options.map((o) => o.id))
+
+  switch (q.type) {
+    case 'multiple': {
+      const selected = Array.from(new Set(answer.selectedOptions ?? [])).filter((id) => optionIds.has(id))
+      const correctIds = new Set(q.options.filter((o) => o.correct).map((o) => o.id))
+      const hits = selected.filter((id) => correctIds.has(id)).length
+      const misses = selected.length - hits
+      const credit = correctIds.size > 0 ? Math.max(0, (hits - misses) / correctIds.size) : 0
+      return { optionId: null, selectedOptionIds: selected, value: null, credit: roundPoints(credit) }
+    }
+    case 'numeric': {
+      const raw = (answer.value ?? '').trim()
+      const parsed = Number(raw.replace(',', '.'))
+      const ok = raw.length > 0 && Number.isFinite(parsed) && q.numericAnswer !== null &&
+        Math.abs(parsed - q.numericAnswer) <= (q.tolerance ?? 0) + 1e-9
+      return { optionId: null, selectedOptionIds: [], value: raw, credit: ok ? 1 : 0 }
+    }
+    case 'text': {
+      const raw = (answer.value ?? '').trim()
+      const accepted = q.acceptedAnswers.map(normalizeTextAnswer)
+      const ok = raw.length > 0 && accepted.includes(normalizeTextAnswer(raw))
+      return { optionId: null, selectedOptionIds: [], value: raw, credit: ok ? 1 : 0 }
+    }
+    default: {
+      const optionId = answer.optionId && optionIds.has(answer.optionId) ? answer.optionId : null
+      const ok = !!optionId && q.options.some((o) => o.id === optionId && o.correct)
+      return { optionId, selectedOptionIds: [], value: null, credit: ok ? 1 : 0 }
+    }
+  }
+}
+
+/**
+ * Whether the submitted answer carries anything to score for its question type
+ */
+export function isAnswered(answer: SubmitAnswer): boolean {
+  return (typeof answer.optionId === 'string' && answer.optionId.length > 0) ||
+    (Array.isArray(answer.selectedOptions) && answer.selectedOptions.length > 0) ||
+    (typeof answer.value === 'string' && answer.value.trim().length > 0)
+}
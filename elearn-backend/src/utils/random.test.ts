@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { createRng, createSeed, deriveSeed, shuffle } from './random.js'
+
+function take(seed: number, count: number): number[] {
+  const rng = createRng(seed)
+  return Array.from({ length: count }, () => rng())
+}
+
+describe('createRng', () => {
+  it('replays the same sequence for the same seed', () => {
+    expect(take(12345, 20)).toEqual(take(12345, 20))
+  })
+
+  it('gives different sequences for different seeds', () => {
+    expect(take(1, 5)).not.toEqual(take(2, 5))
+  })
+
+  it('stays within [0, 1)', () => {
+    for (const value of take(createSeed(), 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+})
+
+describe('createSeed', () => {
+  it('returns an unsigned 32-bit integer', () => {
+    const seed = createSeed()
+    expect(Number.isInteger(seed)).toBe(true)
+    expect(seed).toBeGreaterThanOrEqual(0)
+    expect(seed).toBeLessThan(2 ** 32)
+  })
+})
+
+describe('deriveSeed', () => {
+  it('is stable for the same seed and key', () => {
+    expect(deriveSeed(42, 'question-1')).toBe(deriveSeed(42, 'question-1'))
+  })
+
+  it('differs per key and per seed', () => {
+    expect(deriveSeed(42, 'question-1')).not.toBe(deriveSeed(42, 'question-2'))
+    expect(deriveSeed(42, 'question-1')).not.toBe(deriveSeed(43, 'question-1'))
+  })
+})
+
+describe('shuffle', () => {
+  const items = Array.from({ length: 20 }, (_, i) => i)
+
+  it('is a permutation that leaves the input untouched', () => {
+    const shuffled = shuffle(items, createRng(7))
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items)
+    expect(items).toEqual(Array.from({ length: 20 }, (_, i) => i))
+  })
+
+  it('is reproducible from the seed', () => {
+    expect(shuffle(items, createRng(7))).toEqual(shuffle(items, createRng(7)))
+    expect(shuffle(items, createRng(7))).not.toEqual(shuffle(items, createRng(8)))
+  })
+})
@@ -0,0 +1,53 @@
+// src/utils/random.ts
+/**
+ * Seeded randomness for quiz assembly
+ *
+ * The quiz token carries the seed, so the question draw and option order it issued can be
+ * reproduced later from the token or the stored attempt.
+ */
+import { randomInt } from 'crypto'
+
+export type Rng = () => number
+
+export function createSeed(): number {
+  return randomInt(0, 2 ** 32)
+}
+
+/**
+ * mulberry32: small, fast and good enough for shuffling
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Derive an independent stream per item (e.g. option order per question)
+ */
+export function deriveSeed(seed: number, key: string): number {
+  let hash = seed >>> 0
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193) >>> 0
+  }
+  return hash
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffle<T>(items: readonly T[], rng: Rng): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1))
+    const tmp = result[i]
+    result[i] = result[j]
+    result[j] = tmp
+  }
+  return result
+}
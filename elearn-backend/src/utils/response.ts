@@ -43,6 +43,7 @@ export const ErrorCodes = {
   INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
   EMAIL_NOT_VERIFIED: 'EMAIL_NOT_VERIFIED',
   EMAIL_ALREADY_EXISTS: 'EMAIL_ALREADY_EXISTS',
+  ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
   
   // Validation errors
   VALIDATION_ERROR: 'VALIDATION_ERROR',
@@ -0,0 +1,402 @@
+// src/utils/scormRuntime.ts
+/**
+ * Static files of a SCORM package: the runtime script and stylesheet every SCO page loads
+ *
+ * The runtime reads the page's JSON data block (#sco-data), talks to the LMS through the
+ * SCORM 1.2 API (window.API in a parent or opener frame), renders and scores the quizzes with
+ * the same rules as the app (quizScoring.ts) and, when the package was exported with xAPI,
+ * posts statements to the LRS. Without an LMS the page still works, nothing is reported.
+ * Plain ES5 without modules: LMS players embed SCOs in all kinds of frames.
+ */
+
+export const SCORM_RUNTIME_JS = String.raw`(function () {
+  'use strict'
+
+  var data = JSON.parse(document.getElementById('sco-data').textContent)
+  var labels = data.labels
+  var startedAt = Date.now()
+
+  // ---------- SCORM 1.2 API ----------
+
+  function findApi(win) {
+    for (var i = 0; win && i < 10; i++) {
+      if (win.API) return win.API
+      if (!win.parent || win.parent === win) break
+      win = win.parent
+    }
+    return null
+  }
+
+  var api = findApi(window) || (window.opener ? findApi(window.opener) : null)
+  var connected = false
+  try {
+    connected = !!api && String(api.LMSInitialize('')) === 'true'
+  } catch (e) {
+    connected = false
+  }
+
+  function lmsGet(name) {
+    return connected ? String(api.LMSGetValue(name) || '') : ''
+  }
+
+  function lmsSet(name, value) {
+    if (connected) api.LMSSetValue(name, String(value))
+  }
+
+  function lmsCommit() {
+    if (connected) api.LMSCommit('')
+  }
+
+  // CMITimespan: HHHH:MM:SS.SS
+  function timespan(ms) {
+    var total = Math.floor(ms / 10) / 100
+    var hours = Math.floor(total / 3600)
+    var minutes = Math.floor((total % 3600) / 60)
+    var seconds = (total % 60).toFixed(2)
+    return ('000' + hours).slice(-4) + ':' + ('0' + minutes).slice(-2) + ':' + (seconds.length < 5 ? '0' : '') + seconds
+  }
+
+  var finished = false
+  function finish() {
+    if (!connected || finished) return
+    finished = true
+    lmsSet('cmi.core.session_time', timespan(Date.now() - startedAt))
+    lmsSet('cmi.core.exit', '')
+    lmsCommit()
+    api.LMSFinish('')
+  }
+  window.addEventListener('pagehide', finish)
+  window.addEventListener('beforeunload', finish)
+
+  // ---------- xAPI ----------
+
+  function langMap(text) {
+    var map = {}
+    map[data.locale] = text
+    return map
+  }
+
+  function activity(item) {
+    return {
+      objectType: 'Activity',
+      id: item.activity,
+      definition: { type: item.activityType, name: langMap(item.title) }
+    }
+  }
+
+  function actor() {
+    var homePage = window.location.origin && window.location.origin !== 'null' ? window.location.origin : data.homePage
+    var agent = { objectType: 'Agent', account: { homePage: homePage, name: lmsGet('cmi.core.student_id') || 'anonymous' } }
+    var name = lmsGet('cmi.core.student_name')
+    if (name) agent.name = name
+    return agent
+  }
+
+  // Statement ids make retries safe: the LRS refuses an id it already stored (409)
+  function uuid() {
+    if (window.crypto && window.crypto.randomUUID) return window.crypto.randomUUID()
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+      var r = (Math.random() * 16) | 0
+      return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16)
+    })
+  }
+
+  // Network errors, 5xx and 429 are retried with growing delays; any other answer is final
+  var XAPI_RETRY_DELAYS = [2000, 10000, 30000]
+
+  function postStatement(statement, headers, attempt) {
+    function retry(reason) {
+      if (attempt >= XAPI_RETRY_DELAYS.length) return console.warn('xAPI statement was not sent', reason)
+      setTimeout(function () { postStatement(statement, headers, attempt + 1) }, XAPI_RETRY_DELAYS[attempt])
+    }
+    try {
+      fetch(data.xapi.endpoint.replace(/\/+$/, '') + '/statements', {
+        method: 'POST',
+        headers: headers,
+        body: JSON.stringify(statement),
+        keepalive: true
+      }).then(function (res) {
+        if (res.status >= 500 || res.status === 429) retry(res.status)
+        else if (!res.ok && res.status !== 409) console.warn('xAPI statement was rejected', res.status)
+      }, retry)
+    } catch (err) {
+      retry(err)
+    }
+  }
+
+  function sendStatement(verb, item, result) {
+    if (!data.xapi || typeof fetch !== 'function') return
+    var statement = {
+      id: uuid(),
+      actor: actor(),
+      verb: { id: 'http://adlnet.gov/expapi/verbs/' + verb, display: { 'en-US': verb } },
+      object: activity(item),
+      context: { language: data.locale },
+      timestamp: new Date().toISOString()
+    }
+    if (item !== data.topic) statement.context.contextActivities = { parent: [activity(data.topic)] }
+    if (result) statement.result = result
+
+    var headers = { 'Content-Type': 'application/json', 'X-Experience-API-Version': '1.0.3' }
+    if (data.xapi.auth) headers.Authorization = data.xapi.auth
+    postStatement(statement, headers, 0)
+  }
+
+  // ---------- Status and score ----------
+
+  var results = {}
+
+  function updateStatus() {
+    var total = 0
+    var points = 0
+    var done = 0
+    data.quizzes.forEach(function (quiz) {
+      var result = results[quiz.id]
+      if (!result) return
+      done++
+      points += result.points
+      total += result.total
+    })
+
+    if (data.quizzes.length === 0) {
+      lmsSet('cmi.core.lesson_status', 'completed')
+    } else if (done > 0) {
+      var raw = total > 0 ? Math.round((points / total) * 100) : 0
+      lmsSet('cmi.core.score.min', 0)
+      lmsSet('cmi.core.score.max', 100)
+      lmsSet('cmi.core.score.raw', raw)
+      if (done < data.quizzes.length) lmsSet('cmi.core.lesson_status', 'incomplete')
+      else lmsSet('cmi.core.lesson_status', raw >= data.passThreshold * 100 ? 'passed' : 'failed')
+    }
+    lmsCommit()
+  }
+
+  var status = lmsGet('cmi.core.lesson_status')
+  if (status === '' || status === 'not attempted') {
+    lmsSet('cmi.core.lesson_status', data.quizzes.length === 0 ? 'completed' : 'incomplete')
+    lmsCommit()
+  }
+  sendStatement('experienced', data.topic)
+
+  // ---------- Materials ----------
+
+  var viewed = {}
+  function materialViewed(material) {
+    if (viewed[material.id]) return
+    viewed[material.id] = true
+    sendStatement('experienced', material)
+  }
+
+  data.materials.forEach(function (material) {
+    var section = document.querySelector('[data-material="' + material.id + '"]')
+    if (!section) return
+    if (!('IntersectionObserver' in window)) return materialViewed(material)
+    var observer = new IntersectionObserver(function (entries) {
+      if (!entries.some(function (e) { return e.isIntersecting })) return
+      observer.disconnect()
+      materialViewed(material)
+    }, { threshold: 0.5 })
+    observer.observe(section)
+  })
+
+  // ---------- Quizzes ----------
+
+  function round(value) {
+    return Math.round(value * 100) / 100
+  }
+
+  function normalize(value) {
+    return value.trim().replace(/\s+/g, ' ').toLowerCase()
+  }
+
+  // Same rules as scoreAnswer() in the app
+  function score(question, answer) {
+    switch (question.type) {
+      case 'multiple': {
+        var correct = question.options.filter(function (o) { return o.correct }).map(function (o) { return o.id })
+        var hits = answer.selected.filter(function (id) { return correct.indexOf(id) >= 0 }).length
+        var misses = answer.selected.length - hits
+        return correct.length > 0 ? round(Math.max(0, (hits - misses) / correct.length)) : 0
+      }
+      case 'numeric': {
+        var raw = answer.value.trim()
+        var parsed = Number(raw.replace(',', '.'))
+        return raw.length > 0 && isFinite(parsed) && question.numericAnswer !== null &&
+          Math.abs(parsed - question.numericAnswer) <= (question.tolerance || 0) + 1e-9 ? 1 : 0
+      }
+      case 'text': {
+        var value = normalize(answer.value)
+        return value.length > 0 && question.acceptedAnswers.map(normalize).indexOf(value) >= 0 ? 1 : 0
+      }
+      default:
+        return question.options.some(function (o) { return o.correct && answer.selected.indexOf(o.id) >= 0 }) ? 1 : 0
+    }
+  }
+
+  function expected(question) {
+    switch (question.type) {
+      case 'numeric':
+        return String(question.numericAnswer) + (question.tolerance ? ' ± ' + question.tolerance : '')
+      case 'text':
+        return question.acceptedAnswers[0] || ''
+      default:
+        return question.options.filter(function (o) { return o.correct }).map(function (o) { return o.text }).join(', ')
+    }
+  }
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag)
+    if (className) node.className = className
+    if (text !== undefined) node.textContent = text
+    return node
+  }
+
+  function renderQuestion(quiz, question, index) {
+    var fieldset = el('fieldset', 'question')
+    fieldset.appendChild(el('legend', null, (index + 1) + '. ' + question.text))
+
+    if (question.type === 'numeric' || question.type === 'text') {
+      var input = el('input', 'answer-input')
+      input.type = 'text'
+      input.name = question.id
+      if (question.type === 'numeric') input.inputMode = 'decimal'
+      fieldset.appendChild(input)
+    } else {
+      question.options.forEach(function (option) {
+        var label = el('label', 'option')
+        var input = el('input')
+        input.type = question.type === 'multiple' ? 'checkbox' : 'radio'
+        input.name = question.id
+        input.value = option.id
+        label.appendChild(input)
+        label.appendChild(el('span', null, option.text))
+        fieldset.appendChild(label)
+      })
+    }
+    fieldset.appendChild(el('div', 'feedback'))
+    return fieldset
+  }
+
+  function readAnswer(form, question) {
+    var inputs = Array.prototype.slice.call(form.querySelectorAll('[name="' + question.id + '"]'))
+    if (question.type === 'numeric' || question.type === 'text') return { selected: [], value: inputs[0].value }
+    return {
+      selected: inputs.filter(function (i) { return i.checked }).map(function (i) { return i.value }),
+      value: ''
+    }
+  }
+
+  var interaction = 0
+  function recordInteraction(question, answer, credit) {
+    var n = 'cmi.interactions.' + interaction++ + '.'
+    lmsSet(n + 'id', question.id)
+    lmsSet(n + 'type', question.type === 'numeric' ? 'numeric' : question.type === 'text' ? 'fill-in' : question.type === 'truefalse' ? 'true-false' : 'choice')
+    lmsSet(n + 'result', credit >= 1 ? 'correct' : 'wrong')
+    if (question.type === 'numeric' || question.type === 'text') lmsSet(n + 'student_response', answer.value.slice(0, 255))
+  }
+
+  function renderQuiz(quiz) {
+    var section = document.querySelector('[data-quiz="' + quiz.id + '"]')
+    if (!section) return
+    var form = el('form', 'quiz-form')
+    var questions = quiz.questions.map(function (q, i) {
+      var node = renderQuestion(quiz, q, i)
+      form.appendChild(node)
+      return node
+    })
+    var summary = el('p', 'quiz-summary')
+    var submit = el('button', 'button', labels.submit)
+    submit.type = 'submit'
+    var retry = el('button', 'button secondary', labels.retry)
+    retry.type = 'button'
+    retry.hidden = true
+    form.appendChild(summary)
+    form.appendChild(submit)
+    form.appendChild(retry)
+    section.appendChild(form)
+
+    var attemptStart = Date.now()
+
+    form.addEventListener('submit', function (event) {
+      event.preventDefault()
+      var points = 0
+      quiz.questions.forEach(function (question, i) {
+        var answer = readAnswer(form, question)
+        var credit = score(question, answer)
+        points += credit
+        recordInteraction(question, answer, credit)
+
+        var feedback = questions[i].querySelector('.feedback')
+        feedback.textContent = ''
+        feedback.className = 'feedback ' + (credit >= 1 ? 'correct' : credit > 0 ? 'partial' : 'wrong')
+        feedback.appendChild(el('strong', null, credit >= 1 ? labels.correct : labels.incorrect))
+        if (credit < 1) feedback.appendChild(el('span', null, ' ' + labels.expected + ': ' + expected(question)))
+        if (question.explanation) feedback.appendChild(el('p', 'explanation', question.explanation))
+      })
+
+      points = round(points)
+      var total = quiz.questions.length
+      var passed = total > 0 && points >= round(total * data.passThreshold)
+      results[quiz.id] = { points: points, total: total }
+      Array.prototype.forEach.call(form.elements, function (input) {
+        if (input !== retry) input.disabled = true
+      })
+      summary.textContent = labels.score + ': ' + points + ' / ' + total + ' — ' + (passed ? labels.passed : labels.failed)
+      summary.className = 'quiz-summary ' + (passed ? 'correct' : 'wrong')
+      retry.hidden = false
+      updateStatus()
+
+      sendStatement(passed ? 'passed' : 'failed', quiz, {
+        score: { scaled: total > 0 ? round(points / total) : 0, raw: points, min: 0, max: total },
+        success: passed,
+        completion: true,
+        duration: 'PT' + Math.round((Date.now() - attemptStart) / 1000) + 'S'
+      })
+    })
+
+    retry.addEventListener('click', function () {
+      form.reset()
+      Array.prototype.forEach.call(form.elements, function (input) { input.disabled = false })
+      Array.prototype.forEach.call(form.querySelectorAll('.feedback'), function (node) {
+        node.textContent = ''
+        node.className = 'feedback'
+      })
+      summary.textContent = ''
+      summary.className = 'quiz-summary'
+      retry.hidden = true
+      attemptStart = Date.now()
+    })
+  }
+
+  data.quizzes.forEach(renderQuiz)
+})()
+`
+
+export const SCORM_STYLE_CSS = `*, *::before, *::after { box-sizing: border-box; }
+body { margin: 0; font: 16px/1.6 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #171717; background: #fafafa; }
+main { max-width: 860px; margin: 0 auto; padding: 32px 20px 64px; }
+h1 { font-size: 1.8rem; line-height: 1.25; margin: 0 0 8px; }
+h2 { font-size: 1.3rem; margin: 0 0 12px; }
+.description { color: #525252; margin: 0 0 32px; }
+section { background: #fff; border: 1px solid #e5e5e5; border-radius: 12px; padding: 20px 24px; margin-bottom: 24px; }
+section img, section video, section iframe { max-width: 100%; }
+.embed { width: 100%; aspect-ratio: 16 / 9; border: 0; border-radius: 8px; background: #000; }
+.document { width: 100%; height: 70vh; border: 1px solid #e5e5e5; border-radius: 8px; }
+a { color: #2563eb; }
+.question { border: 0; margin: 0 0 20px; padding: 0; }
+.question legend { font-weight: 600; margin-bottom: 8px; }
+.option { display: flex; gap: 8px; align-items: flex-start; padding: 6px 8px; border-radius: 8px; cursor: pointer; }
+.option:hover { background: #f5f5f5; }
+.option input { margin-top: 6px; }
+.answer-input { width: 100%; max-width: 320px; padding: 8px 10px; border: 1px solid #d4d4d4; border-radius: 8px; font: inherit; }
+.feedback { margin-top: 6px; font-size: 0.9rem; }
+.feedback:empty { display: none; }
+.explanation { margin: 4px 0 0; color: #525252; }
+.correct { color: #15803d; }
+.partial { color: #b45309; }
+.wrong { color: #b91c1c; }
+.quiz-summary { font-weight: 600; }
+.button { font: inherit; padding: 8px 20px; margin-right: 8px; border: 0; border-radius: 8px; background: #2563eb; color: #fff; cursor: pointer; }
+.button:disabled { opacity: 0.5; cursor: default; }
+.button.secondary { background: #e5e5e5; color: #171717; }
+`
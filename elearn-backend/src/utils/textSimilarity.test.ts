@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { DUPLICATE_THRESHOLD, findNearDuplicate, normalizeText, textSimilarity } from './textSimilarity.js'
+
+describe('normalizeText', () => {
+  it('ignores case, punctuation and spacing in any script', () => {
+    expect(normalizeText('  What is a JOIN?!  ')).toBe('what is a join')
+    expect(normalizeText("Що таке  з'єднання?")).toBe('що таке з єднання')
+  })
+})
+
+describe('textSimilarity', () => {
+  it('is 1 for texts that only differ in form', () => {
+    expect(textSimilarity('What is a JOIN?', 'what is a join')).toBe(1)
+  })
+
+  it('is 0 for texts with nothing in common or too short to compare', () => {
+    expect(textSimilarity('abc', 'xyz')).toBe(0)
+    expect(textSimilarity('a', 'ab')).toBe(0)
+  })
+
+  it('is symmetric', () => {
+    const a = 'Which clause filters grouped rows?'
+    const b = 'Which clause filters rows after grouping?'
+    expect(textSimilarity(a, b)).toBeCloseTo(textSimilarity(b, a))
+  })
+})
+
+describe('findNearDuplicate', () => {
+  const pool = ['What does the SELECT statement do?', 'Which clause filters grouped rows?', 'Що робить оператор SELECT?']
+
+  it('catches rewordings above the threshold', () => {
+    expect(textSimilarity('What does a SELECT statement do?', pool[0])).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD)
+    expect(findNearDuplicate('What does a SELECT statement do?', pool)).toBe(0)
+    expect(findNearDuplicate('Що робить оператор SELECT', pool)).toBe(2)
+  })
+
+  it('lets different questions on the same subject through', () => {
+    expect(findNearDuplicate('What does the DELETE statement do?', pool)).toBe(-1)
+    expect(findNearDuplicate('Which clause sorts the result?', pool)).toBe(-1)
+  })
+
+  it('takes a custom threshold', () => {
+    expect(findNearDuplicate('What does the DELETE statement do?', pool, 0.6)).toBe(0)
+  })
+})
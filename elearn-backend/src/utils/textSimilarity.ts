@@ -0,0 +1,56 @@
+// src/utils/textSimilarity.ts
+/**
+ * Near-duplicate detection for question texts
+ *
+ * Texts are compared by the Dice coefficient of their character bigrams after normalization
+ * (case, punctuation, whitespace), which catches rewordings like changed articles or
+ * punctuation without any language-specific processing.
+ */
+
+// Generated questions at least this similar to an existing one are treated as duplicates
+export const DUPLICATE_THRESHOLD = 0.85
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace (letters of any script are kept)
+ */
+export function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function bigrams(value: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (let i = 0; i < value.length - 1; i++) {
+    const pair = value.slice(i, i + 2)
+    counts.set(pair, (counts.get(pair) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Similarity from 0 (nothing shared) to 1 (same normalized text)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const x = normalizeText(a)
+  const y = normalizeText(b)
+  if (x === y) return 1
+  if (x.length < 2 || y.length < 2) return 0
+
+  const left = bigrams(x)
+  const right = bigrams(y)
+  let shared = 0
+  for (const [pair, count] of left) {
+    shared += Math.min(count, right.get(pair) ?? 0)
+  }
+  return (2 * shared) / (x.length - 1 + y.length - 1)
+}
+
+/**
+ * Index of the first text in `pool` that `text` duplicates, or -1
+ */
+export function findNearDuplicate(text: string, pool: string[], threshold = DUPLICATE_THRESHOLD): number {
+  return pool.findIndex((other) => textSimilarity(text, other) >= threshold)
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { base32Decode, base32Encode, totpCode, totpStep, verifyTotp } from './totp.js'
+
+// RFC 6238 appendix B: the SHA-1 key is the ASCII string "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('base32', () => {
+  it('round-trips and ignores case, spaces and padding', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    expect(base32Decode('gezd gnbv-gy3t qojq gezd gnbv gy3t qojq====').toString()).toBe('12345678901234567890')
+  })
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character')
+  })
+})
+
+describe('totpCode', () => {
+  // The last six digits of the eight-digit RFC vectors
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ])('matches the RFC 6238 vector at T=%i', (seconds, code) => {
+    expect(totpCode(RFC_SECRET, totpStep(seconds * 1000))).toBe(code)
+  })
+})
+
+describe('verifyTotp', () => {
+  const now = 1234567890 * 1000
+  const current = totpStep(now)
+
+  it('accepts the current code and one step of drift either way', () => {
+    vi.useFakeTimers({ now })
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, current))).toBe(current)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, current - 1))).toBe(current - 1)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, current + 1))).toBe(current + 1)
+  })
+
+  it('rejects codes two steps away', () => {
+    vi.useFakeTimers({ now })
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, current - 2))).toBeNull()
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, current + 2))).toBeNull()
+  })
+
+  it('rejects steps up to the last used one', () => {
+    vi.useFakeTimers({ now })
+    const code = totpCode(RFC_SECRET, current)
+    expect(verifyTotp(RFC_SECRET, code, current)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, current + 1), current)).toBe(current + 1)
+  })
+
+  it('accepts spaces but not malformed codes', () => {
+    vi.useFakeTimers({ now })
+    const code = totpCode(RFC_SECRET, current)
+    expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`)).toBe(current)
+    expect(verifyTotp(RFC_SECRET, code.slice(1))).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull()
+  })
+})
@@ -0,0 +1,53 @@
+// src/utils/userAgent.ts
+/**
+ * Rough User-Agent parsing for the sessions list: browser, OS and device type.
+ * Good enough to tell "Chrome on Windows" from "Safari on iPhone", not a full UA database.
+ */
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet'
+
+export interface ParsedUserAgent {
+  browser: string | null
+  os: string | null
+  device: DeviceType
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\/(\d+)/, 'Edge'],
+  [/(?:OPR|Opera)\/(\d+)/, 'Opera'],
+  [/SamsungBrowser\/(\d+)/, 'Samsung Internet'],
+  [/(?:Firefox|FxiOS)\/(\d+)/, 'Firefox'],
+  [/(?:Chrome|CriOS)\/(\d+)/, 'Chrome'],
+  [/Version\/(\d+)(?:\.\d+)*.*Safari\//, 'Safari'],
+]
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows NT/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+]
+
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  const ua = userAgent ?? ''
+
+  let browser: string | null = null
+  for (const [pattern, name] of BROWSERS) {
+    const match = ua.match(pattern)
+    if (match) {
+      browser = `${name} ${match[1]}`
+      break
+    }
+  }
+
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? null
+
+  const device: DeviceType = /iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))
+    ? 'tablet'
+    : /Mobi|iPhone|iPod/.test(ua) ? 'mobile' : 'desktop'
+
+  return { browser, os, device }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { createZip, isZip, readZip } from './zip.js'
+
+const entries = [
+  { name: 'imsmanifest.xml', data: Buffer.from('<manifest/>') },
+  { name: 'items/q1.xml', data: Buffer.from('<assessmentItem/>'.repeat(100)) },
+]
+
+describe('readZip', () => {
+  it('reads back what createZip wrote', () => {
+    const zip = createZip(entries)
+    expect(isZip(zip)).toBe(true)
+    expect(readZip(zip)).toEqual(entries)
+  })
+
+  it('rejects an entry whose CRC-32 does not match', () => {
+    const zip = createZip(entries)
+    // The CRC of the first entry in its central directory record
+    const central = zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]))
+    zip.writeUInt32LE((zip.readUInt32LE(central + 16) ^ 1) >>> 0, central + 16)
+    expect(() => readZip(zip)).toThrow('Invalid or unsupported ZIP archive')
+  })
+
+  it('rejects archives with too many entries', () => {
+    const many = Array.from({ length: 11 }, (_, i) => ({ name: `f${i}.txt`, data: Buffer.from('x') }))
+    expect(() => readZip(createZip(many), { maxEntries: 10 })).toThrow('too many entries')
+  })
+
+  it('caps a single inflated entry', () => {
+    const zip = createZip([{ name: 'big.txt', data: Buffer.alloc(10_000) }])
+    expect(() => readZip(zip, { maxEntrySize: 1_000 })).toThrow('too large')
+  })
+
+  it('caps the total inflated size across entries', () => {
+    const zip = createZip(Array.from({ length: 5 }, (_, i) => ({ name: `f${i}.txt`, data: Buffer.alloc(1_000) })))
+    expect(readZip(zip, { maxTotalSize: 5_000 })).toHaveLength(5)
+    expect(() => readZip(zip, { maxTotalSize: 4_500 })).toThrow('too large')
+  })
+
+  it('caps inflating even when the declared size lies', () => {
+    const zip = createZip([{ name: 'bomb.txt', data: Buffer.alloc(10_000) }])
+    const central = zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]))
+    zip.writeUInt32LE(10, central + 24)
+    expect(() => readZip(zip, { maxEntrySize: 1_000 })).toThrow('too large')
+  })
+})
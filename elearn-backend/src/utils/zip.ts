@@ -0,0 +1,170 @@
+// src/utils/zip.ts
+/**
+ * Minimal ZIP reader/writer for content packages (QTI)
+ *
+ * Writes deflated entries without extra fields; reads stored and deflated entries through
+ * the central directory. ZIP64, encryption and multi-disk archives are not supported.
+ */
+import { deflateRawSync, inflateRawSync } from 'zlib'
+import { AppError } from './AppError.js'
+
+export interface ZipEntry {
+  name: string
+  data: Buffer
+}
+
+/** Caps applied while reading, against archive bombs */
+export interface ZipLimits {
+  maxEntries?: number
+  maxEntrySize?: number
+  maxTotalSize?: number
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/** 1980-01-01, the earliest DOS date: packages don't need real timestamps */
+const DOS_TIME = 0
+const DOS_DATE = (0 << 9) | (1 << 5) | 1
+/** Caps on the entry count, an inflated entry and the whole inflated archive */
+const MAX_ENTRIES = 2000
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024
+const MAX_TOTAL_SIZE = 200 * 1024 * 1024
+
+export function createZip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const compressed = deflateRawSync(entry.data)
+    const crc = crc32(entry.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // Version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // Deflate
+    local.writeUInt16LE(DOS_TIME, 10)
+    local.writeUInt16LE(DOS_DATE, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(entry.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+    locals.push(local, name, compressed)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // Version made by
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(DOS_TIME, 12)
+    central.writeUInt16LE(DOS_DATE, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(entry.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralSize, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, ...centrals, end])
+}
+
+export function isZip(data: Buffer): boolean {
+  return data.length >= 4 && data.readUInt32LE(0) === 0x04034b50
+}
+
+/**
+ * Files of an archive (directories skipped). Entries must match their CRC-32; archives with too
+ * many entries or inflating past the size caps are rejected.
+ */
+export function readZip(data: Buffer, limits: ZipLimits = {}): ZipEntry[] {
+  const maxEntries = limits.maxEntries ?? MAX_ENTRIES
+  const maxEntrySize = limits.maxEntrySize ?? MAX_ENTRY_SIZE
+  const maxTotalSize = limits.maxTotalSize ?? MAX_TOTAL_SIZE
+  const invalid = () => AppError.badRequest('Invalid or unsupported ZIP archive')
+  const tooLarge = () => AppError.badRequest('ZIP archive is too large when extracted')
+
+  // The end-of-central-directory record sits within the last 64 KB (comment included)
+  let end = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) throw invalid()
+
+  const count = data.readUInt16LE(end + 10)
+  if (count > maxEntries) {
+    throw AppError.badRequest(`ZIP archive has too many entries (max ${maxEntries})`)
+  }
+  let pos = data.readUInt32LE(end + 16)
+  const entries: ZipEntry[] = []
+  let totalSize = 0
+
+  for (let n = 0; n < count; n++) {
+    if (pos + 46 > data.length || data.readUInt32LE(pos) !== 0x02014b50) throw invalid()
+    const method = data.readUInt16LE(pos + 10)
+    const crc = data.readUInt32LE(pos + 16)
+    const compressedSize = data.readUInt32LE(pos + 20)
+    const size = data.readUInt32LE(pos + 24)
+    const nameLength = data.readUInt16LE(pos + 28)
+    const extraLength = data.readUInt16LE(pos + 30)
+    const commentLength = data.readUInt16LE(pos + 32)
+    const localOffset = data.readUInt32LE(pos + 42)
+    const name = data.toString('utf8', pos + 46, pos + 46 + nameLength)
+    pos += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== 0x04034b50) throw invalid()
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28)
+    if (start + compressedSize > data.length) throw invalid()
+    const raw = data.subarray(start, start + compressedSize)
+
+    // The declared size is checked up front; inflating is capped too, in case it lies
+    const budget = Math.min(maxEntrySize, maxTotalSize - totalSize)
+    if (size > budget) throw tooLarge()
+
+    let content: Buffer
+    if (method === 0) {
+      content = raw
+    } else if (method === 8) {
+      try {
+        content = inflateRawSync(raw, { maxOutputLength: budget })
+      } catch (error) {
+        throw (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE' ? tooLarge() : invalid()
+      }
+    } else {
+      throw invalid()
+    }
+
+    if (content.length !== size || crc32(content) !== crc) throw invalid()
+    totalSize += content.length
+    entries.push({ name, data: content })
+  }
+  return entries
+}
@@ -1,6 +1,6 @@
 import { useCallback, useState } from 'react'
 import { Routes, Route, NavLink, useNavigate, useLocation } from 'react-router-dom'
-import { LayoutDashboard, BookOpen, Trophy, User, LogOut, LucideIcon, Menu, X, Shield } from 'lucide-react'
+import { LayoutDashboard, BookOpen, Trophy, User, LogOut, LucideIcon, Menu, X, Shield, RotateCcw, Users } from 'lucide-react'
 
 // Components
 import RequireAuth from './components/RequireAuth'
@@ -19,12 +19,22 @@ import Login from './pages/Login'
 import Register from './pages/Register'
 import NotFound from './pages/NotFound'
 import LessonView from './pages/LessonView'
+import Review from './pages/Review'
+import Groups from './pages/Groups'
+import GroupDetail from './pages/GroupDetail'
+import AttemptReview from './pages/AttemptReview'
+import VerifyCertificate from './pages/VerifyCertificate'
+import OidcCallback from './pages/OidcCallback'
+import UnlockAccount from './pages/UnlockAccount'
 import AdminLayout from './pages/admin/AdminLayout'
 import AdminDashboard from './pages/admin/AdminDashboard'
 import AdminUsers from './pages/admin/AdminUsers'
 import AdminFiles from './pages/admin/AdminFiles'
 import AdminAuditLogs from './pages/admin/AdminAuditLogs'
+import AdminInvites from './pages/admin/AdminInvites'
 import AdminContent from './pages/admin/AdminContent'
+import AdminReview from './pages/admin/AdminReview'
+import AdminTranslations from './pages/admin/AdminTranslations'
 import AdminUserDetails from './pages/admin/AdminUserDetails'
 
 // Hooks
@@ -77,10 +87,13 @@ export default function App() {
 
   const location = useLocation()
   const isAuthPage = location.pathname === '/login' || location.pathname === '/register'
+  // Certificate verification is opened by employers without an account; sign-in providers redirect to /auth/callback;
+  // the unlock link comes from the lockout email
+  const isPublicPage = isAuthPage || location.pathname.startsWith('/certificates/') || location.pathname.startsWith('/auth/callback/') || location.pathname === '/unlock-account'
 
   // Show loading state first to prevent DOM inconsistency during auth initialization
   // This ensures a consistent render tree while auth status is being determined
-  if (loading && !isAuthPage) {
+  if (loading && !isPublicPage) {
     return (
       <>
         <div className="min-h-screen bg-neutral-50 dark:bg-neutral-950 flex items-center justify-center">
@@ -94,8 +107,8 @@ export default function App() {
     )
   }
 
-  // Special layout for auth pages
-  if (isAuthPage) {
+  // Special layout for auth and public pages
+  if (isPublicPage) {
     return (
       <>
         <div className="min-h-screen bg-neutral-50 dark:bg-neutral-950 flex flex-col">
@@ -103,6 +116,9 @@ export default function App() {
             <Routes>
               <Route path="/login" element={<Login/>} />
               <Route path="/register" element={<Register/>} />
+              <Route path="/certificates/:code" element={<VerifyCertificate/>} />
+              <Route path="/auth/callback/:provider" element={<OidcCallback/>} />
+              <Route path="/unlock-account" element={<UnlockAccount/>} />
             </Routes>
           </ErrorBoundary>
         </div>
@@ -121,8 +137,11 @@ export default function App() {
             <Route path="users" element={<RequireRole allowedRoles={['ADMIN']}><AdminUsers /></RequireRole>} />
             <Route path="users/:id" element={<RequireRole allowedRoles={['ADMIN']}><AdminUserDetails /></RequireRole>} />
             <Route path="content" element={<RequireRole allowedRoles={['ADMIN','EDITOR']}><AdminContent /></RequireRole>} />
+            <Route path="review" element={<RequireRole allowedRoles={['ADMIN','EDITOR']}><AdminReview /></RequireRole>} />
+            <Route path="translations" element={<RequireRole allowedRoles={['ADMIN','EDITOR']}><AdminTranslations /></RequireRole>} />
             <Route path="files" element={<RequireRole allowedRoles={['ADMIN']}><AdminFiles /></RequireRole>} />
             <Route path="audit" element={<RequireRole allowedRoles={['ADMIN']}><AdminAuditLogs /></RequireRole>} />
+            <Route path="invites" element={<RequireRole allowedRoles={['ADMIN']}><AdminInvites /></RequireRole>} />
             {/* <Route path="settings" element={<RequireRole allowedRoles={['ADMIN']}><AdminSettings /></RequireRole>} /> */}
             <Route path="*" element={<NotFound />} />
           </Route>
@@ -155,7 +174,9 @@ export default function App() {
             <nav className="hidden md:flex items-center gap-1">
               <NavItem to="/" icon={LayoutDashboard} label={t('nav.dashboard')} />
               <NavItem to="/materials" icon={BookOpen} label={t('nav.materials')} />
+              <NavItem to="/review" icon={RotateCcw} label={t('nav.review', 'Review')} />
               <NavItem to="/leaderboard" icon={Trophy} label={t('nav.leaderboard')} />
+              <NavItem to="/groups" icon={Users} label={t('nav.groups', 'Groups')} />
               <NavItem to="/profile" icon={User} label={t('nav.profile')} />
               {user?.role && (user.role === 'ADMIN' || user.role === 'EDITOR') && (
                 <NavItem to="/admin" icon={Shield} label={t('nav.admin')} />
@@ -209,7 +230,9 @@ export default function App() {
             <nav className="flex flex-col p-4 gap-2">
               <NavItem to="/" icon={LayoutDashboard} label={t('nav.dashboard')} onClick={closeMobileMenu} />
               <NavItem to="/materials" icon={BookOpen} label={t('nav.materials')} onClick={closeMobileMenu} />
+              <NavItem to="/review" icon={RotateCcw} label={t('nav.review', 'Review')} onClick={closeMobileMenu} />
               <NavItem to="/leaderboard" icon={Trophy} label={t('nav.leaderboard')} onClick={closeMobileMenu} />
+              <NavItem to="/groups" icon={Users} label={t('nav.groups', 'Groups')} onClick={closeMobileMenu} />
               <NavItem to="/profile" icon={User} label={t('nav.profile')} onClick={closeMobileMenu} />
               {user?.role && (user.role === 'ADMIN' || user.role === 'EDITOR') && (
                 <NavItem to="/admin" icon={Shield} label={t('nav.admin')} onClick={closeMobileMenu} />
@@ -238,7 +261,11 @@ export default function App() {
             <Route path="/dashboard" element={<RequireAuth><Dashboard/></RequireAuth>} />
             <Route path="/materials" element={<RequireAuth><Materials/></RequireAuth>} />
             <Route path="/lesson/:topicId/:lessonId" element={<RequireAuth><LessonView/></RequireAuth>} />
+            <Route path="/review" element={<RequireAuth><Review/></RequireAuth>} />
+            <Route path="/quiz/attempts/:id" element={<RequireAuth><AttemptReview/></RequireAuth>} />
             <Route path="/leaderboard" element={<RequireAuth><Leaderboard/></RequireAuth>} />
+            <Route path="/groups" element={<RequireAuth><Groups/></RequireAuth>} />
+            <Route path="/groups/:id" element={<RequireAuth><GroupDetail/></RequireAuth>} />
             <Route path="/profile" element={<RequireAuth><Profile/></RequireAuth>} />
             <Route path="*" element={<NotFound/>} />
           </Routes>
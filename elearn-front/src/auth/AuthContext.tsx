@@ -6,11 +6,24 @@ import type { User, AuthResponse } from '@packages/shared'
 // Re-export User type for convenience
 export type { User }
 
+/** Returned by login when a second factor is needed: 'setup' means 2FA is required for the role but not enrolled yet */
+export type TwoFactorChallenge = {
+  twoFactor: 'verify' | 'setup'
+  challengeToken: string
+}
+
+type SessionResponse = AuthResponse & { accessToken?: string; refreshToken?: string }
+
 type AuthState = {
   user: User | null
   loading: boolean
-  login: (email: string, password: string) => Promise<void>
-  register: (name: string, email: string, password: string) => Promise<void>
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>
+  /** Second login step; returns the recovery codes when 2FA was enrolled just now */
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<string[] | undefined>
+  /** Return from an OIDC provider: signs in (possibly with a 2FA challenge) or reports the linked provider */
+  completeOidcSignIn: (provider: string, callback: { code: string; state: string; browserKey: string }) => Promise<TwoFactorChallenge | { linked: string } | null>
+  /** inviteToken comes from the ?invite= link of an invite email */
+  register: (name: string, email: string, password: string, inviteToken?: string) => Promise<void>
   logout: () => Promise<void>
   refresh: () => Promise<void>
   updateUser: (updates: Partial<User>) => void
@@ -66,10 +79,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [initialized])
 
-  async function login(email: string, password: string): Promise<void> {
-    // Бекенд повертає { user: User, accessToken, refreshToken }
-    const response = await apiPost<AuthResponse & { accessToken?: string; refreshToken?: string }>('/auth/login', { email, password })
-    
+  async function startSession(response: SessionResponse): Promise<void> {
     // TEMPORARY: Store tokens in localStorage for cross-domain auth
     if (response.accessToken) {
       localStorage.setItem('access_token', response.accessToken)
@@ -87,9 +97,43 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await fetchCsrfToken().catch(err => console.warn('CSRF refresh warning:', err))
   }
 
-  async function register(name: string, email: string, password: string): Promise<void> {
+  async function login(email: string, password: string): Promise<TwoFactorChallenge | null> {
+    // Бекенд повертає { user: User, accessToken, refreshToken } або виклик 2FA без сесії
+    const response = await apiPost<SessionResponse | (TwoFactorChallenge & { twoFactorRequired: true })>('/auth/login', { email, password })
+    if ('twoFactorRequired' in response) {
+      return { twoFactor: response.twoFactor, challengeToken: response.challengeToken }
+    }
+    await startSession(response)
+    return null
+  }
+
+  async function completeTwoFactorLogin(challengeToken: string, code: string): Promise<string[] | undefined> {
+    const response = await apiPost<SessionResponse & { recoveryCodes?: string[] }>('/auth/login/2fa', { challengeToken, code })
+    await startSession(response)
+    return response.recoveryCodes
+  }
+
+  async function completeOidcSignIn(
+    provider: string,
+    callback: { code: string; state: string; browserKey: string }
+  ): Promise<TwoFactorChallenge | { linked: string } | null> {
+    const response = await apiPost<SessionResponse | (TwoFactorChallenge & { twoFactorRequired: true }) | { linked: string }>(
+      `/auth/oidc/${provider}/callback`,
+      callback
+    )
+    if ('linked' in response) {
+      return { linked: response.linked }
+    }
+    if ('twoFactorRequired' in response) {
+      return { twoFactor: response.twoFactor, challengeToken: response.challengeToken }
+    }
+    await startSession(response)
+    return null
+  }
+
+  async function register(name: string, email: string, password: string, inviteToken?: string): Promise<void> {
     // Register and get user data back
-    const response = await apiPost<AuthResponse & { accessToken?: string; refreshToken?: string }>('/auth/register', { name, email, password })
+    const response = await apiPost<AuthResponse & { accessToken?: string; refreshToken?: string }>('/auth/register', { name, email, password, inviteToken })
     
     // TEMPORARY: Store tokens in localStorage for cross-domain auth (same as login)
     if (response.accessToken) {
@@ -145,6 +189,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     user, 
     loading, 
     login, 
+    completeTwoFactorLogin,
+    completeOidcSignIn,
     register, 
     logout, 
     refresh,
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MonitorSmartphone, Monitor, Smartphone, Tablet, LogOut, Loader2 } from 'lucide-react'
+import { useAuth } from '@/auth/AuthContext'
+import { useTranslation } from '@/i18n/useTranslation'
+import { apiDelete, apiGet } from '@/lib/http'
+
+interface ActiveSession {
+  id: string
+  browser: string | null
+  os: string | null
+  device: 'desktop' | 'mobile' | 'tablet'
+  ip: string | null
+  createdAt: string
+  /** Last token refresh, so accurate to the access token lifetime */
+  lastUsedAt: string
+  current: boolean
+}
+
+const DEVICE_ICONS = { desktop: Monitor, mobile: Smartphone, tablet: Tablet }
+
+/**
+ * Profile section listing the signed-in devices, each of which can be signed out
+ */
+export default function ActiveSessions() {
+  const { t, lang } = useTranslation()
+  const { logout } = useAuth()
+  const nav = useNavigate()
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null)
+  const [pending, setPending] = useState<string | null>(null)
+
+  const load = () =>
+    apiGet<{ sessions: ActiveSession[] }>('/auth/sessions')
+      .then(res => setSessions(res.sessions))
+      .catch(() => setSessions(null))
+
+  useEffect(() => { load() }, [])
+
+  if (!sessions) return null
+
+  const locale = lang === 'UA' ? 'uk-UA' : lang === 'PL' ? 'pl-PL' : 'en-US'
+  const ago = (date: string) => {
+    const minutes = Math.round((Date.now() - new Date(date).getTime()) / 60000)
+    const format = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' })
+    if (minutes < 60) return format.format(-minutes, 'minute')
+    if (minutes < 60 * 24) return format.format(-Math.round(minutes / 60), 'hour')
+    return format.format(-Math.round(minutes / 60 / 24), 'day')
+  }
+
+  const revoke = async (session: ActiveSession) => {
+    setPending(session.id)
+    try {
+      await apiDelete(`/auth/sessions/${session.id}`)
+      if (session.current) {
+        await logout()
+        nav('/login', { replace: true })
+        return
+      }
+      await load()
+    } catch {
+      // Error toast is shown by the http client
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-neutral-100 dark:border-neutral-800 space-y-3">
+      <h4 className="font-semibold text-neutral-900 dark:text-white flex items-center gap-2">
+        <MonitorSmartphone size={16} /> {t('profile.sessions.title', 'Active sessions')}
+      </h4>
+      <ul className="space-y-2">
+        {sessions.map(session => {
+          const Icon = DEVICE_ICONS[session.device]
+          return (
+            <li key={session.id} className="flex items-center gap-3 rounded-xl border border-neutral-200 dark:border-neutral-800 px-3 py-2">
+              <Icon size={20} className="shrink-0 text-neutral-500" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-neutral-900 dark:text-white truncate">
+                  {[session.browser, session.os].filter(Boolean).join(' · ') || t('profile.sessions.unknownDevice', 'Unknown device')}
+                  {session.current && (
+                    <span className="ml-2 text-xs font-medium px-1.5 py-0.5 rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                      {t('profile.sessions.current', 'This device')}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-neutral-500 truncate">
+                  {[session.ip, t('profile.sessions.lastUsed', 'active {time}').replace('{time}', ago(session.lastUsedAt))].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => revoke(session)}
+                disabled={!!pending}
+                title={t('profile.sessions.signOut', 'Sign out')}
+                className="shrink-0 p-2 rounded-lg text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+              >
+                {pending === session.id ? <Loader2 size={16} className="animate-spin" /> : <LogOut size={16} />}
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+import { memo, useEffect, useMemo, useState } from 'react'
+import { ChevronLeft, ChevronRight, RotateCcw, Shuffle, Check, X } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import { parseFlashcards } from '@/utils/studyAids'
+
+interface FlashcardDeckProps {
+  /** Flashcards material HTML (a <dl> of terms) */
+  html: string
+}
+
+/**
+ * Flashcard study mode: click a card to flip it, then mark it as known or still learning.
+ * Cards still being learned can be reviewed again on their own.
+ */
+function FlashcardDeck({ html }: FlashcardDeckProps) {
+  const { t } = useTranslation()
+  const cards = useMemo(() => parseFlashcards(html), [html])
+  const [order, setOrder] = useState<number[]>([])
+  const [position, setPosition] = useState(0)
+  const [flipped, setFlipped] = useState(false)
+  const [known, setKnown] = useState<Set<number>>(new Set())
+  const [learning, setLearning] = useState<Set<number>>(new Set())
+
+  const restart = (next: number[]) => {
+    setOrder(next)
+    setPosition(0)
+    setFlipped(false)
+  }
+
+  useEffect(() => {
+    restart(cards.map((_, i) => i))
+    setKnown(new Set())
+    setLearning(new Set())
+  }, [cards])
+
+  if (cards.length === 0) {
+    return <p className="text-neutral-500">{t('lesson.flashcards.empty', 'No flashcards in this material')}</p>
+  }
+
+  const finished = position >= order.length
+  const card = cards[order[position]]
+
+  const go = (delta: number) => {
+    setPosition(p => Math.min(Math.max(p + delta, 0), order.length - 1))
+    setFlipped(false)
+  }
+
+  const mark = (isKnown: boolean) => {
+    const index = order[position]
+    setKnown(prev => { const next = new Set(prev); if (isKnown) next.add(index); else next.delete(index); return next })
+    setLearning(prev => { const next = new Set(prev); if (isKnown) next.delete(index); else next.add(index); return next })
+    setPosition(p => p + 1)
+    setFlipped(false)
+  }
+
+  const shuffle = () => {
+    const next = [...order]
+    for (let i = next.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1))
+      ;[next[i], next[j]] = [next[j], next[i]]
+    }
+    restart(next)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-neutral-600 dark:text-neutral-400">
+        <span>
+          {t('lesson.flashcards.progress', 'Card {current} of {total}')
+            .replace('{current}', String(Math.min(position + 1, order.length)))
+            .replace('{total}', String(order.length))}
+        </span>
+        <span className="flex gap-3">
+          <span className="text-green-600 dark:text-green-400">{t('lesson.flashcards.known', 'Known: {count}').replace('{count}', String(known.size))}</span>
+          <span className="text-amber-600 dark:text-amber-400">{t('lesson.flashcards.learning', 'Learning: {count}').replace('{count}', String(learning.size))}</span>
+        </span>
+      </div>
+
+      {finished ? (
+        <div className="flex flex-col items-center gap-4 py-12 rounded-2xl bg-neutral-50 dark:bg-neutral-900 text-center">
+          <p className="font-semibold text-neutral-900 dark:text-white">{t('lesson.flashcards.finished', 'You went through all the cards!')}</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {learning.size > 0 && (
+              <button onClick={() => restart(order.filter(i => learning.has(i)))} className="btn">
+                {t('lesson.flashcards.reviewLearning', 'Review the ones still learning')}
+              </button>
+            )}
+            <button onClick={() => restart(cards.map((_, i) => i))} className="btn-outline">
+              <RotateCcw size={16} /> {t('lesson.flashcards.restart', 'Start over')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setFlipped(f => !f)}
+          aria-label={t('lesson.flashcards.flip', 'Flip the card')}
+          className={`w-full min-h-[240px] flex flex-col items-center justify-center gap-3 p-8 rounded-2xl border shadow-sm transition-colors ${
+            flipped
+              ? 'bg-primary-50 dark:bg-primary-900/20 border-primary-200 dark:border-primary-800'
+              : 'bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800'
+          }`}
+        >
+          <span className="text-xs uppercase tracking-wide text-neutral-400">
+            {flipped ? t('lesson.flashcards.back', 'Answer') : t('lesson.flashcards.front', 'Question')}
+          </span>
+          <span className={flipped ? 'text-lg text-neutral-800 dark:text-neutral-200' : 'text-2xl font-semibold text-neutral-900 dark:text-white'}>
+            {flipped ? card.back : card.front}
+          </span>
+          {!flipped && <span className="text-xs text-neutral-400">{t('lesson.flashcards.hint', 'Click to see the answer')}</span>}
+        </button>
+      )}
+
+      {!finished && (
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex gap-1">
+            <button onClick={() => go(-1)} disabled={position === 0} className="p-2 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-40" title={t('lesson.flashcards.previous', 'Previous card')}>
+              <ChevronLeft size={18} />
+            </button>
+            <button onClick={() => go(1)} disabled={position >= order.length - 1} className="p-2 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-40" title={t('lesson.flashcards.next', 'Next card')}>
+              <ChevronRight size={18} />
+            </button>
+            <button onClick={shuffle} className="p-2 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800" title={t('lesson.flashcards.shuffle', 'Shuffle')}>
+              <Shuffle size={18} />
+            </button>
+          </div>
+          {flipped && (
+            <div className="flex gap-2">
+              <button onClick={() => mark(false)} className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium bg-amber-50 text-amber-700 hover:bg-amber-100 dark:bg-amber-900/20 dark:text-amber-300">
+                <X size={16} /> {t('lesson.flashcards.stillLearning', 'Still learning')}
+              </button>
+              <button onClick={() => mark(true)} className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium bg-green-50 text-green-700 hover:bg-green-100 dark:bg-green-900/20 dark:text-green-300">
+                <Check size={16} /> {t('lesson.flashcards.gotIt', 'I knew it')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default memo(FlashcardDeck)
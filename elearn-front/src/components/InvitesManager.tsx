@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Send, RotateCw, Ban, Mail } from 'lucide-react'
+import { useAuth } from '@/auth/AuthContext'
+import { useTranslation } from '@/i18n/useTranslation'
+import { apiDelete, apiGet, apiPost } from '@/lib/http'
+import { useToast } from '@/components/Toast'
+import { LoadingButton } from '@/components/LoadingButton'
+import { SkeletonList } from '@/components/Skeletons'
+import ConfirmDialog from '@/components/ConfirmDialog'
+import { Pagination } from '@/components/admin/Pagination'
+import type { Invite, InviteStatus, Role, SkippedInvite } from '@packages/shared'
+
+const ROLES: Role[] = ['STUDENT', 'TEACHER', 'EDITOR', 'ADMIN']
+const STATUSES: InviteStatus[] = ['pending', 'used', 'expired', 'revoked']
+const EXPIRY_DAYS = [7, 14, 30]
+const PAGE_SIZE = 20
+// Loose check; the server validates properly
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const statusColors: Record<InviteStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+  used: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+  expired: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  revoked: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+}
+
+interface InvitesResponse {
+  invites: Invite[]
+  pagination: { page: number; limit: number; total: number; pages: number }
+}
+
+/**
+ * Send registration invites (one or many emails) and list / resend / revoke them.
+ * ADMIN picks the role and sees every invite; TEACHER invites students and sees their own.
+ */
+export default function InvitesManager() {
+  const { user } = useAuth()
+  const { t } = useTranslation()
+  const push = useToast(s => s.push)
+  const isAdmin = user?.role === 'ADMIN'
+
+  const [emails, setEmails] = useState('')
+  const [role, setRole] = useState<Role>('STUDENT')
+  const [expiresInDays, setExpiresInDays] = useState(EXPIRY_DAYS[0])
+  const [sending, setSending] = useState(false)
+
+  const [invites, setInvites] = useState<Invite[]>([])
+  const [pagination, setPagination] = useState({ page: 1, pages: 1, total: 0 })
+  const [status, setStatus] = useState<InviteStatus | ''>('')
+  const [loading, setLoading] = useState(true)
+  const [pending, setPending] = useState<string | null>(null)
+  const [revokeTarget, setRevokeTarget] = useState<Invite | null>(null)
+
+  const load = useCallback(async (page = 1) => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (status) params.set('status', status)
+      const data = await apiGet<InvitesResponse>(`/invites?${params}`)
+      setInvites(data.invites)
+      setPagination(data.pagination)
+    } catch {
+      setInvites([])
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => { load(1) }, [load])
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const list = emails.split(/[\s,;]+/).filter(Boolean)
+    const invalid = list.filter(email => !EMAIL_RE.test(email))
+    if (list.length === 0) return
+    if (invalid.length > 0) {
+      push({ type: 'error', msg: t('invites.invalidEmails', 'Invalid emails: {emails}').replace('{emails}', invalid.join(', ')) })
+      return
+    }
+
+    setSending(true)
+    try {
+      const result = await apiPost<{ invites: Invite[]; skipped: SkippedInvite[] }>('/invites', {
+        emails: list,
+        role: isAdmin ? role : 'STUDENT',
+        expiresInDays,
+      })
+      if (result.invites.length > 0) {
+        push({ type: 'success', msg: t('invites.sent', '{count} invites sent').replace('{count}', String(result.invites.length)) })
+      }
+      if (result.skipped.length > 0) {
+        push({
+          type: 'info',
+          msg: t('invites.skippedRegistered', 'Already registered: {emails}').replace('{emails}', result.skipped.map(s => s.email).join(', ')),
+        })
+      }
+      setEmails('')
+      await load(1)
+    } catch {
+      // Error toast is shown by the http client
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const resend = async (invite: Invite) => {
+    setPending(invite.id)
+    try {
+      await apiPost(`/invites/${invite.id}/resend`)
+      push({ type: 'success', msg: t('invites.resent', 'Invite sent again to {email}').replace('{email}', invite.email) })
+      await load(pagination.page)
+    } catch {
+      // Error toast is shown by the http client
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const revoke = async () => {
+    if (!revokeTarget) return
+    setPending(revokeTarget.id)
+    try {
+      await apiDelete(`/invites/${revokeTarget.id}`)
+      setRevokeTarget(null)
+      await load(pagination.page)
+    } catch {
+      // Error toast is shown by the http client
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const statusLabel = (s: InviteStatus) => ({
+    pending: t('invites.status.pending', 'Pending'),
+    used: t('invites.status.used', 'Accepted'),
+    expired: t('invites.status.expired', 'Expired'),
+    revoked: t('invites.status.revoked', 'Revoked'),
+  })[s]
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={send} className="card space-y-3">
+        <h2 className="font-semibold flex items-center gap-2 text-neutral-900 dark:text-white">
+          <Mail size={18} className="text-primary-600" /> {t('invites.new', 'Invite people')}
+        </h2>
+        <textarea
+          value={emails}
+          onChange={e => setEmails(e.target.value)}
+          rows={3}
+          placeholder={t('invites.emailsPlaceholder', 'Emails, separated by commas or new lines')}
+          className="input w-full resize-y"
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          {isAdmin && (
+            <label className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+              {t('common.role', 'Role')}
+              <select value={role} onChange={e => setRole(e.target.value as Role)} className="input py-1.5">
+                {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+            {t('invites.expiresIn', 'Valid for')}
+            <select value={expiresInDays} onChange={e => setExpiresInDays(Number(e.target.value))} className="input py-1.5">
+              {EXPIRY_DAYS.map(days => (
+                <option key={days} value={days}>{t('invites.days', '{count} days').replace('{count}', String(days))}</option>
+              ))}
+            </select>
+          </label>
+          <LoadingButton type="submit" loading={sending} disabled={!emails.trim()} icon={<Send size={16} />} className="ml-auto">
+            {t('invites.send', 'Send invites')}
+          </LoadingButton>
+        </div>
+      </form>
+
+      <div className="card space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {(['', ...STATUSES] as const).map(s => (
+            <button
+              key={s || 'all'}
+              type="button"
+              onClick={() => setStatus(s)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${status === s
+                ? 'bg-primary-600 text-white'
+                : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200 dark:bg-neutral-800 dark:text-neutral-300 dark:hover:bg-neutral-700'}`}
+            >
+              {s ? statusLabel(s) : t('common.all', 'All')}
+            </button>
+          ))}
+          <span className="ml-auto self-center text-sm text-neutral-500">
+            {pagination.total} {t('common.total', 'Total')}
+          </span>
+        </div>
+
+        {loading ? (
+          <SkeletonList count={3} />
+        ) : invites.length === 0 ? (
+          <p className="text-center py-8 text-sm text-neutral-500">{t('invites.empty', 'No invites yet')}</p>
+        ) : (
+          <ul className="divide-y divide-neutral-100 dark:divide-neutral-800">
+            {invites.map(invite => {
+              const open = invite.status === 'pending' || invite.status === 'expired'
+              return (
+                <li key={invite.id} className="flex flex-wrap items-center gap-3 py-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-neutral-900 dark:text-white truncate">{invite.email}</p>
+                    <p className="text-xs text-neutral-500">
+                      {invite.status === 'used' && invite.usedAt
+                        ? t('invites.acceptedAt', 'Accepted {date}').replace('{date}', new Date(invite.usedAt).toLocaleDateString())
+                        : t('invites.expiresAt', 'Valid until {date}').replace('{date}', new Date(invite.expiresAt).toLocaleDateString())}
+                      {isAdmin && invite.invitedBy && ` · ${t('invites.by', 'by {name}').replace('{name}', invite.invitedBy.name)}`}
+                    </p>
+                  </div>
+                  <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-neutral-100 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300">
+                    {invite.role}
+                  </span>
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${statusColors[invite.status]}`}>
+                    {statusLabel(invite.status)}
+                  </span>
+                  {open && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => resend(invite)}
+                        disabled={!!pending}
+                        title={t('invites.resend', 'Send again')}
+                        className="p-2 rounded-lg text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-50"
+                      >
+                        <RotateCw size={16} className={pending === invite.id ? 'animate-spin' : ''} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setRevokeTarget(invite)}
+                        disabled={!!pending}
+                        title={t('invites.revoke', 'Revoke')}
+                        className="p-2 rounded-lg text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                      >
+                        <Ban size={16} />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <Pagination
+          currentPage={pagination.page}
+          totalPages={pagination.pages}
+          totalItems={pagination.total}
+          onPageChange={load}
+          disabled={loading}
+        />
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!revokeTarget}
+        title={t('invites.revokeTitle', 'Revoke invite?')}
+        description={t('invites.revokeDescription', 'The link sent to {email} will stop working.').replace('{email}', revokeTarget?.email ?? '')}
+        confirmText={t('invites.revoke', 'Revoke')}
+        cancelText={t('common.cancel', 'Cancel')}
+        variant="danger"
+        isLoading={!!pending}
+        onConfirm={revoke}
+        onClose={() => setRevokeTarget(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react'
+import { Link2, Unlink, Loader2 } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import {
+  getLinkedIdentities,
+  getOidcProviders,
+  redirectToProvider,
+  unlinkIdentity,
+  type LinkedIdentity,
+  type OidcProvider,
+} from '@/lib/oidc'
+
+/**
+ * Profile section listing the sign-in providers (Google, Microsoft, SSO) with link / unlink;
+ * hidden when no provider is configured and none is linked
+ */
+export default function LinkedAccounts() {
+  const { t } = useTranslation()
+  const [providers, setProviders] = useState<OidcProvider[]>([])
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([])
+  const [hasPassword, setHasPassword] = useState(true)
+  const [pending, setPending] = useState<string | null>(null)
+
+  const load = async () => {
+    const [available, linked] = await Promise.all([getOidcProviders(), getLinkedIdentities()])
+    setProviders(available)
+    setIdentities(linked.identities)
+    setHasPassword(linked.hasPassword)
+  }
+
+  useEffect(() => { load().catch(() => {}) }, [])
+
+  // Linked providers that were removed from the server config can still be unlinked
+  const rows = [
+    ...providers.map(p => ({ id: p.id, name: p.name })),
+    ...identities.filter(i => !providers.some(p => p.id === i.provider)).map(i => ({ id: i.provider, name: i.name })),
+  ]
+  if (rows.length === 0) return null
+
+  const link = async (provider: string) => {
+    setPending(provider)
+    try {
+      await redirectToProvider(provider, { link: true, returnTo: '/profile' })
+    } catch {
+      // Error toast is shown by the http client
+      setPending(null)
+    }
+  }
+
+  const unlink = async (provider: string) => {
+    setPending(provider)
+    try {
+      await unlinkIdentity(provider)
+      await load()
+    } catch {
+      // Error toast is shown by the http client
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-neutral-100 dark:border-neutral-800 space-y-3">
+      <h4 className="font-semibold text-neutral-900 dark:text-white flex items-center gap-2">
+        <Link2 size={16} /> {t('profile.linkedAccounts.title', 'Sign-in providers')}
+      </h4>
+      <ul className="space-y-2">
+        {rows.map(row => {
+          const identity = identities.find(i => i.provider === row.id)
+          // Without a password the last provider is the only way to sign in
+          const lastSignIn = !!identity && !hasPassword && identities.length === 1
+          return (
+            <li key={row.id} className="flex items-center justify-between gap-3 rounded-xl border border-neutral-200 dark:border-neutral-800 px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-neutral-900 dark:text-white">{row.name}</p>
+                <p className="text-xs text-neutral-500 truncate">
+                  {identity ? (identity.email || t('profile.linkedAccounts.linked', 'Linked')) : t('profile.linkedAccounts.notLinked', 'Not linked')}
+                </p>
+              </div>
+              {identity ? (
+                <button
+                  type="button"
+                  onClick={() => unlink(row.id)}
+                  disabled={!!pending || lastSignIn}
+                  title={lastSignIn ? t('profile.linkedAccounts.setPasswordFirst', 'Set a password before unlinking your only sign-in provider') : undefined}
+                  className="shrink-0 flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:hover:bg-transparent"
+                >
+                  {pending === row.id ? <Loader2 size={14} className="animate-spin" /> : <Unlink size={14} />}
+                  {t('profile.linkedAccounts.unlink', 'Unlink')}
+                </button>
+              ) : providers.some(p => p.id === row.id) && (
+                <button
+                  type="button"
+                  onClick={() => link(row.id)}
+                  disabled={!!pending}
+                  className="btn-outline shrink-0 flex items-center gap-1.5 text-xs px-3 py-1.5"
+                >
+                  {pending === row.id ? <Loader2 size={14} className="animate-spin" /> : <Link2 size={14} />}
+                  {t('profile.linkedAccounts.link', 'Link')}
+                </button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react'
+import { KeyRound, Loader2 } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import { getOidcProviders, redirectToProvider, type OidcProvider } from '@/lib/oidc'
+
+interface OidcButtonsProps {
+  /** Where to go after signing in */
+  returnTo?: string
+  disabled?: boolean
+}
+
+/**
+ * "Continue with Google / Microsoft / SSO" buttons for the providers configured on the server;
+ * renders nothing when there are none
+ */
+export default function OidcButtons({ returnTo, disabled }: OidcButtonsProps) {
+  const { t } = useTranslation()
+  const [providers, setProviders] = useState<OidcProvider[]>([])
+  const [pending, setPending] = useState<string | null>(null)
+
+  useEffect(() => {
+    getOidcProviders().then(setProviders).catch(() => setProviders([]))
+  }, [])
+
+  if (providers.length === 0) return null
+
+  const signIn = async (provider: string) => {
+    setPending(provider)
+    try {
+      await redirectToProvider(provider, { returnTo })
+    } catch {
+      // Error toast is shown by the http client
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-3 text-xs text-neutral-400 mb-4">
+        <div className="flex-1 h-px bg-neutral-200 dark:bg-neutral-800" />
+        {t('auth.oidc.or', 'or')}
+        <div className="flex-1 h-px bg-neutral-200 dark:bg-neutral-800" />
+      </div>
+      <div className="space-y-2">
+        {providers.map(provider => (
+          <button
+            key={provider.id}
+            type="button"
+            onClick={() => signIn(provider.id)}
+            disabled={disabled || !!pending}
+            className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 text-sm font-medium text-neutral-700 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800 transition-colors disabled:opacity-60"
+          >
+            {pending === provider.id ? <Loader2 size={16} className="animate-spin" /> : <KeyRound size={16} />}
+            {t('auth.oidc.continueWith', 'Continue with {provider}').replace('{provider}', provider.name)}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,21 +1,15 @@
 import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
 import { http } from '@/lib/http'
-import { Clock, CheckCircle, XCircle, History } from 'lucide-react'
+import { Clock, CheckCircle, XCircle, History, ChevronRight } from 'lucide-react'
 import { useTranslation } from '@/i18n/useTranslation'
 import { useAuth } from '@/auth/AuthContext'
 import { EmptyQuizHistory } from './EmptyState'
 import { SkeletonList } from './Skeletons'
-
-interface QuizAttempt {
-  quizId: string
-  quizTitle: string
-  correct: number
-  total: number
-  lastAttempt: string
-}
+import type { QuizHistoryItem } from '@packages/shared'
 
 interface QuizHistoryResponse {
-  data: QuizAttempt[]
+  data: QuizHistoryItem[]
   pagination: {
     page: number
     limit: number
@@ -27,7 +21,7 @@ interface QuizHistoryResponse {
 export default function QuizHistory() {
   const { t, lang } = useTranslation()
   const { user } = useAuth()
-  const [history, setHistory] = useState<QuizAttempt[]>([])
+  const [history, setHistory] = useState<QuizHistoryItem[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -141,9 +135,11 @@ export default function QuizHistory() {
           const percentage = attempt.total > 0 ? Math.round((attempt.correct / attempt.total) * 100) : 0
           
           return (
-            <div
-              key={`${attempt.quizId}-${attempt.lastAttempt}`}
-              className="group p-4 rounded-xl bg-neutral-50 dark:bg-neutral-800/50 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors border border-transparent hover:border-neutral-200 dark:hover:border-neutral-700"
+            <Link
+              key={attempt.attemptId}
+              to={`/quiz/attempts/${attempt.attemptId}`}
+              title={t('attemptReview.open', 'Review answers')}
+              className="block group p-4 rounded-xl bg-neutral-50 dark:bg-neutral-800/50 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors border border-transparent hover:border-neutral-200 dark:hover:border-neutral-700"
             >
               <div className="flex items-center justify-between gap-4 mb-3">
                 <div className="flex-1 min-w-0">
@@ -174,6 +170,7 @@ export default function QuizHistory() {
                   }`}>
                     {percentage >= 60 ? <CheckCircle size={16} /> : <XCircle size={16} />}
                   </div>
+                  <ChevronRight size={16} className="text-neutral-400 group-hover:text-primary-500 transition-colors" />
                 </div>
               </div>
               
@@ -190,7 +187,7 @@ export default function QuizHistory() {
                   style={{ width: `${percentage}%` }}
                 />
               </div>
-            </div>
+            </Link>
           )
         })}
       </div>
@@ -0,0 +1,71 @@
+import { Copy, Download } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import { useToast } from '@/components/Toast'
+
+/** Response of the 2FA setup endpoints */
+export type TwoFactorSetup = {
+  secret: string
+  otpauthUrl: string
+  /** QR code of otpauthUrl as a data URL */
+  qrCode: string
+}
+
+/**
+ * QR code to scan with an authenticator app, with the secret for manual entry
+ */
+export function TwoFactorQr({ setup }: { setup: TwoFactorSetup }) {
+  const { t } = useTranslation()
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 text-center">
+        {t('auth.twoFactor.scan', 'Scan the QR code with an authenticator app (Google Authenticator, Authy, 1Password…)')}
+      </p>
+      <img src={setup.qrCode} alt="QR" className="w-44 h-44 rounded-lg bg-white p-2 border border-neutral-200" />
+      <div className="text-center">
+        <p className="text-xs text-neutral-500">{t('auth.twoFactor.manualEntry', 'Or enter this key manually:')}</p>
+        <code className="text-xs font-mono break-all text-neutral-800 dark:text-neutral-200">{setup.secret}</code>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * One-time recovery codes, shown once after enrolment or regeneration
+ */
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { t } = useTranslation()
+  const { push } = useToast()
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'))
+    push({ type: 'success', msg: t('auth.twoFactor.codesCopied', 'Recovery codes copied') })
+  }
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([codes.join('\n') + '\n'], { type: 'text/plain' }))
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'recovery-codes.txt'
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="rounded-xl border border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/10 p-4 space-y-3">
+      <p className="text-sm text-amber-800 dark:text-amber-300">
+        {t('auth.twoFactor.codesHint', 'Save these recovery codes somewhere safe. Each can be used once to sign in if you lose your device; they will not be shown again.')}
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-neutral-900 dark:text-neutral-100">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <div className="flex gap-2">
+        <button type="button" onClick={copy} className="btn-outline flex items-center gap-1.5 text-xs px-3 py-1.5">
+          <Copy size={14} /> {t('auth.twoFactor.copyCodes', 'Copy')}
+        </button>
+        <button type="button" onClick={download} className="btn-outline flex items-center gap-1.5 text-xs px-3 py-1.5">
+          <Download size={14} /> {t('auth.twoFactor.downloadCodes', 'Download')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react'
+import { ShieldCheck, ShieldOff, KeyRound } from 'lucide-react'
+import { useAuth } from '@/auth/AuthContext'
+import { useTranslation } from '@/i18n/useTranslation'
+import { apiGet, apiPost } from '@/lib/http'
+import PasswordInput from '@/components/PasswordInput'
+import { LoadingButton } from '@/components/LoadingButton'
+import { RecoveryCodesList, TwoFactorQr, type TwoFactorSetup } from '@/components/TwoFactor'
+
+type TwoFactorStatus = {
+  enabled: boolean
+  enabledAt: string | null
+  /** 2FA is mandatory for the user's role, so it can't be switched off */
+  required: boolean
+  recoveryCodesLeft: number
+}
+
+type Mode = 'idle' | 'setup' | 'disable' | 'regenerate'
+
+/**
+ * Profile section to enrol in TOTP two-factor authentication, switch it off and
+ * regenerate the recovery codes
+ */
+export default function TwoFactorSettings() {
+  const { t } = useTranslation()
+  const { updateUser } = useAuth()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [mode, setMode] = useState<Mode>('idle')
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = () =>
+    apiGet<TwoFactorStatus>('/auth/2fa').then(setStatus).catch(() => setStatus(null))
+
+  useEffect(() => { load() }, [])
+
+  const reset = (next: Mode = 'idle') => {
+    setMode(next)
+    setSetup(null)
+    setCode('')
+    setPassword('')
+    setError(null)
+  }
+
+  // Runs a request, keeping the error inline instead of closing the form
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    setLoading(true)
+    try {
+      await action()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t('auth.twoFactor.invalidCode', 'Invalid code'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const startSetup = () => run(async () => {
+    reset('setup')
+    setRecoveryCodes(null)
+    setSetup(await apiPost<TwoFactorSetup>('/auth/2fa/setup'))
+  })
+
+  const enable = (e: React.FormEvent) => {
+    e.preventDefault()
+    return run(async () => {
+      const { recoveryCodes } = await apiPost<{ recoveryCodes: string[] }>('/auth/2fa/enable', { code })
+      setRecoveryCodes(recoveryCodes)
+      updateUser({ twoFactorEnabled: true })
+      reset()
+      await load()
+    })
+  }
+
+  const disable = (e: React.FormEvent) => {
+    e.preventDefault()
+    return run(async () => {
+      await apiPost('/auth/2fa/disable', { password, code })
+      setRecoveryCodes(null)
+      updateUser({ twoFactorEnabled: false })
+      reset()
+      await load()
+    })
+  }
+
+  const regenerate = (e: React.FormEvent) => {
+    e.preventDefault()
+    return run(async () => {
+      const { recoveryCodes } = await apiPost<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code })
+      setRecoveryCodes(recoveryCodes)
+      reset()
+      await load()
+    })
+  }
+
+  if (!status) return null
+
+  const codeInput = (
+    <div>
+      <label className="text-xs sm:text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-1.5 block">
+        {t('auth.twoFactor.code', 'Authentication code')}
+      </label>
+      <input
+        value={code}
+        onChange={e => setCode(e.target.value)}
+        className="w-full rounded-xl border px-3 py-2.5 bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800 focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 outline-none font-mono tracking-widest"
+        placeholder="123456"
+        autoComplete="one-time-code"
+        required
+      />
+    </div>
+  )
+
+  const cancelButton = (
+    <button type="button" onClick={() => reset()} className="btn-outline flex-1 min-h-[40px]">
+      {t('common.cancel', 'Cancel')}
+    </button>
+  )
+
+  return (
+    <div className="mt-6 pt-6 border-t border-neutral-100 dark:border-neutral-800 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="font-semibold text-neutral-900 dark:text-white flex items-center gap-2">
+            <ShieldCheck size={16} /> {t('profile.twoFactor.title', 'Two-factor authentication')}
+          </h4>
+          <p className="text-xs text-neutral-500 mt-1">
+            {status.enabled
+              ? t('profile.twoFactor.codesLeft', 'On · {count} recovery codes left').replace('{count}', String(status.recoveryCodesLeft))
+              : t('profile.twoFactor.off', 'Off: sign in with your password only')}
+          </p>
+        </div>
+        {status.required && (
+          <span className="shrink-0 text-xs font-medium px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+            {t('profile.twoFactor.required', 'Required for your role')}
+          </span>
+        )}
+      </div>
+
+      {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+      {mode === 'idle' && (
+        status.enabled ? (
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => reset('regenerate')} className="btn-outline flex items-center gap-1.5 text-sm px-3 py-2">
+              <KeyRound size={14} /> {t('profile.twoFactor.regenerate', 'New recovery codes')}
+            </button>
+            {!status.required && (
+              <button type="button" onClick={() => reset('disable')} className="flex items-center gap-1.5 text-sm px-3 py-2 rounded-xl text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20">
+                <ShieldOff size={14} /> {t('profile.twoFactor.disable', 'Turn off')}
+              </button>
+            )}
+          </div>
+        ) : (
+          <LoadingButton type="button" onClick={startSetup} loading={loading} className="w-full min-h-[40px]" icon={<ShieldCheck size={16} />}>
+            {t('profile.twoFactor.enable', 'Set up two-factor authentication')}
+          </LoadingButton>
+        )
+      )}
+
+      {mode === 'setup' && setup && (
+        <form onSubmit={enable} className="space-y-3">
+          <TwoFactorQr setup={setup} />
+          {codeInput}
+          {error && <p className="text-xs text-red-500 bg-red-50 dark:bg-red-900/20 p-2.5 rounded-lg">{error}</p>}
+          <div className="flex gap-2">
+            {cancelButton}
+            <LoadingButton type="submit" loading={loading} className="flex-1 min-h-[40px]">
+              {t('profile.twoFactor.confirm', 'Turn on')}
+            </LoadingButton>
+          </div>
+        </form>
+      )}
+
+      {mode === 'disable' && (
+        <form onSubmit={disable} className="space-y-3">
+          <div>
+            <label className="text-xs sm:text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-1.5 block">
+              {t('profile.label.currentPassword', 'Current Password')}
+            </label>
+            <PasswordInput value={password} onChange={e => setPassword(e.target.value)} autoComplete="current-password" required />
+          </div>
+          {codeInput}
+          {error && <p className="text-xs text-red-500 bg-red-50 dark:bg-red-900/20 p-2.5 rounded-lg">{error}</p>}
+          <div className="flex gap-2">
+            {cancelButton}
+            <LoadingButton type="submit" variant="danger" loading={loading} className="flex-1 min-h-[40px]">
+              {t('profile.twoFactor.disable', 'Turn off')}
+            </LoadingButton>
+          </div>
+        </form>
+      )}
+
+      {mode === 'regenerate' && (
+        <form onSubmit={regenerate} className="space-y-3">
+          <p className="text-xs text-neutral-500">
+            {t('profile.twoFactor.regenerateHint', 'Enter a code from your authenticator app. Your old recovery codes will stop working.')}
+          </p>
+          {codeInput}
+          {error && <p className="text-xs text-red-500 bg-red-50 dark:bg-red-900/20 p-2.5 rounded-lg">{error}</p>}
+          <div className="flex gap-2">
+            {cancelButton}
+            <LoadingButton type="submit" loading={loading} className="flex-1 min-h-[40px]">
+              {t('profile.twoFactor.regenerate', 'New recovery codes')}
+            </LoadingButton>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -166,11 +166,53 @@ export function useAdminUsers(initialPage = 1, initialLimit = 20) {
     }
   }, [fetchUsers, pagination])
 
+  const resetTwoFactor = useCallback(async (userId: string) => {
+    try {
+      await apiDelete(`/admin/users/${userId}/two-factor`)
+      fetchUsers({ page: pagination.page, limit: pagination.limit })
+      return true
+    } catch {
+      return false
+    }
+  }, [fetchUsers, pagination])
+
   useEffect(() => {
     fetchUsers({ page: initialPage, limit: initialLimit })
   }, [])
 
-  return { users, pagination, loading, error, fetchUsers, updateRole, deleteUser, verifyUser }
+  return { users, pagination, loading, error, fetchUsers, updateRole, deleteUser, verifyUser, resetTwoFactor }
+}
+
+// ============================================
+// TWO-FACTOR POLICY HOOK
+// ============================================
+
+export interface TwoFactorPolicy {
+  role: Role
+  required: boolean
+  updatedAt: string | null
+}
+
+export function useTwoFactorPolicies() {
+  const [policies, setPolicies] = useState<TwoFactorPolicy[]>([])
+
+  useEffect(() => {
+    api<{ policies: TwoFactorPolicy[] }>('/admin/security/two-factor')
+      .then(res => setPolicies(res.policies))
+      .catch(() => setPolicies([]))
+  }, [])
+
+  const setRequired = useCallback(async (role: Role, required: boolean) => {
+    try {
+      const policy = await apiPut<TwoFactorPolicy>(`/admin/security/two-factor/${role}`, { required })
+      setPolicies(prev => prev.map(p => p.role === role ? policy : p))
+      return true
+    } catch {
+      return false
+    }
+  }, [])
+
+  return { policies, setRequired }
 }
 
 // ============================================
@@ -31,7 +31,7 @@ export function useQuizSession({ quiz, mode, userId, onSubmit }: Params) {
   
   // State for answers and results
   const [selectedMap, setSelectedMap] = useState<Record<string, string>>({})
-  const [correctMap, setCorrectMap] = useState<Record<string, string>>({})
+  const [correctMap, setCorrectMap] = useState<Record<string, string | string[]>>({})
   const [explanationMap, setExplanationMap] = useState<Record<string, string>>({})
   
   // UI State
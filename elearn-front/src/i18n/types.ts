@@ -46,6 +46,8 @@ export type TranslationKey =
   | 'nav.register'
   | 'nav.logout'
   | 'nav.admin'
+  | 'nav.review'
+  | 'nav.groups'
   | 'nav.home'
 
   // ============================================
@@ -153,7 +155,73 @@ export type TranslationKey =
   | 'materials.type.video'
   | 'materials.type.link'
   | 'materials.type.text'
+  | 'materials.type.summary'
+  | 'materials.type.flashcards'
+  | 'materials.type.glossary'
+  | 'materials.studyAids'
   | 'materials.lastUpdated'
+  // Learning paths
+  | 'path.progress'
+  | 'path.enroll'
+  | 'path.enrolled'
+  | 'path.continue'
+  | 'path.completed'
+  | 'path.locked'
+  | 'path.lockedHint'
+  | 'path.passQuiz'
+  | 'path.completeTopic'
+  // Certificates
+  | 'certificate.title'
+  | 'certificate.empty'
+  | 'certificate.get'
+  | 'certificate.download'
+  | 'certificate.code'
+  | 'certificate.verifyTitle'
+  | 'certificate.valid'
+  | 'certificate.invalid'
+  | 'certificate.issuedTo'
+  | 'certificate.course'
+  | 'certificate.issuedAt'
+  // Groups
+  | 'groups.title'
+  | 'groups.subtitle'
+  | 'groups.join'
+  | 'groups.codePlaceholder'
+  | 'groups.joinAction'
+  | 'groups.joined'
+  | 'groups.create'
+  | 'groups.namePlaceholder'
+  | 'groups.descriptionPlaceholder'
+  | 'groups.createAction'
+  | 'groups.empty'
+  | 'groups.owner'
+  | 'groups.notFound'
+  | 'groups.back'
+  | 'groups.teacher'
+  | 'groups.delete'
+  | 'groups.deleteConfirm'
+  | 'groups.leave'
+  | 'groups.leaveConfirm'
+  | 'groups.shareCode'
+  | 'groups.copyCode'
+  | 'groups.codeCopied'
+  | 'groups.regenerateCode'
+  | 'groups.regenerateHint'
+  | 'groups.assignments'
+  | 'groups.noAssignments'
+  | 'groups.due'
+  | 'groups.removeAssignment'
+  | 'groups.selectCourse'
+  | 'groups.assign'
+  | 'groups.progress'
+  | 'groups.noMembers'
+  | 'groups.member'
+  | 'groups.quizAttempts'
+  | 'groups.averageScore'
+  | 'groups.materialsViewed'
+  | 'groups.timeSpent'
+  | 'groups.lastActive'
+  | 'groups.removeMember'
 
   // ============================================
   // CATEGORY (10 keys)
@@ -213,6 +281,7 @@ export type TranslationKey =
   | 'quiz.start'
   | 'quiz.tryAgainMessage'
   | 'quiz.mode.practice'
+  | 'quiz.mode.exam'
   | 'quiz.shortcuts.hide'
   | 'quiz.shortcuts.show'
   | 'quiz.shortcuts.selectAnswer'
@@ -226,6 +295,34 @@ export type TranslationKey =
   | 'quiz.error.startFailed'
   | 'quiz.error.submitFailed'
   | 'quiz.hint.needPass'
+  | 'quiz.true'
+  | 'quiz.false'
+  | 'quiz.selectAll'
+  | 'quiz.placeholder.numeric'
+  | 'quiz.placeholder.text'
+  // Review (spaced repetition)
+  | 'review.title'
+  | 'review.subtitle'
+  | 'review.dueCount'
+  | 'review.empty'
+  | 'review.nextDue'
+  | 'review.check'
+  | 'review.correct'
+  | 'review.incorrect'
+  | 'review.correctAnswer'
+  | 'review.scheduled'
+  | 'review.days'
+  | 'review.finished'
+  | 'review.loadMore'
+  // Attempt review
+  | 'attemptReview.open'
+  | 'attemptReview.openHidden'
+  | 'attemptReview.notFound'
+  | 'attemptReview.hidden'
+  | 'attemptReview.hiddenUntil'
+  | 'attemptReview.yourChoice'
+  | 'attemptReview.yourAnswer'
+  | 'attemptReview.notAnswered'
   
 
   // ============================================
@@ -263,6 +360,24 @@ export type TranslationKey =
   | 'lesson.noVideo'
   | 'lesson.translationWarning.unavailable'
   | 'lesson.translationWarning.showingOriginal'
+  // Flashcard study mode
+  | 'lesson.content.flashcards'
+  | 'lesson.flashcards.empty'
+  | 'lesson.flashcards.progress'
+  | 'lesson.flashcards.known'
+  | 'lesson.flashcards.learning'
+  | 'lesson.flashcards.finished'
+  | 'lesson.flashcards.reviewLearning'
+  | 'lesson.flashcards.restart'
+  | 'lesson.flashcards.flip'
+  | 'lesson.flashcards.front'
+  | 'lesson.flashcards.back'
+  | 'lesson.flashcards.hint'
+  | 'lesson.flashcards.previous'
+  | 'lesson.flashcards.next'
+  | 'lesson.flashcards.shuffle'
+  | 'lesson.flashcards.stillLearning'
+  | 'lesson.flashcards.gotIt'
 
   // ============================================
   // PROFILE (41 keys)
@@ -272,6 +387,8 @@ export type TranslationKey =
   | 'profile.email'
   | 'profile.xp'
   | 'profile.badges'
+  | 'profile.achievements'
+  | 'profile.achievementsEmpty'
   | 'profile.settings'
   | 'profile.language'
   | 'profile.theme'
@@ -306,6 +423,26 @@ export type TranslationKey =
   | 'profile.placeholder.newEmail'
   | 'profile.success.emailChanged'
   | 'profile.success.passwordChanged'
+  | 'profile.twoFactor.title'
+  | 'profile.twoFactor.codesLeft'
+  | 'profile.twoFactor.off'
+  | 'profile.twoFactor.required'
+  | 'profile.twoFactor.enable'
+  | 'profile.twoFactor.confirm'
+  | 'profile.twoFactor.disable'
+  | 'profile.twoFactor.regenerate'
+  | 'profile.twoFactor.regenerateHint'
+  | 'profile.linkedAccounts.title'
+  | 'profile.linkedAccounts.linked'
+  | 'profile.linkedAccounts.notLinked'
+  | 'profile.linkedAccounts.link'
+  | 'profile.linkedAccounts.unlink'
+  | 'profile.linkedAccounts.setPasswordFirst'
+  | 'profile.sessions.title'
+  | 'profile.sessions.current'
+  | 'profile.sessions.unknownDevice'
+  | 'profile.sessions.lastUsed'
+  | 'profile.sessions.signOut'
 
   // ============================================
   // AUTH (23 keys)
@@ -330,6 +467,37 @@ export type TranslationKey =
   | 'auth.termsOfService'
   | 'auth.and'
   | 'auth.privacyPolicy'
+  | 'auth.twoFactor.title'
+  | 'auth.twoFactor.setupTitle'
+  | 'auth.twoFactor.setupRequired'
+  | 'auth.twoFactor.enterCode'
+  | 'auth.twoFactor.code'
+  | 'auth.twoFactor.verify'
+  | 'auth.twoFactor.back'
+  | 'auth.twoFactor.invalidCode'
+  | 'auth.twoFactor.enabled'
+  | 'auth.twoFactor.continue'
+  | 'auth.twoFactor.scan'
+  | 'auth.twoFactor.manualEntry'
+  | 'auth.twoFactor.codesHint'
+  | 'auth.twoFactor.codesCopied'
+  | 'auth.twoFactor.copyCodes'
+  | 'auth.twoFactor.downloadCodes'
+  | 'auth.oidc.or'
+  | 'auth.oidc.continueWith'
+  | 'auth.oidc.signingIn'
+  | 'auth.oidc.cancelled'
+  | 'auth.oidc.expired'
+  | 'auth.oidc.linked'
+  | 'auth.oidc.backToProfile'
+  | 'auth.lockout.locked'
+  | 'auth.lockout.wait'
+  | 'auth.lockout.unlocking'
+  | 'auth.lockout.unlocked'
+  | 'auth.lockout.unlockFailed'
+  | 'auth.invite.invited'
+  | 'auth.invite.invalid'
+  | 'auth.invite.only'
 
   // ============================================
   // COOKIES (4 keys)
@@ -368,9 +536,11 @@ export type TranslationKey =
   | 'leaderboard.subtitle'
   | 'leaderboard.loading'
   | 'leaderboard.participants'
+  | 'leaderboard.global'
   | 'leaderboard.level'
   | 'leaderboard.user'
   | 'leaderboard.badges'
+  | 'leaderboard.achievements'
   | 'leaderboard.you'
   | 'leaderboard.error.loadFailed'
 
@@ -480,6 +650,7 @@ export type TranslationKey =
   | 'editor.placeholder.quizTitle'
   | 'editor.placeholder.questionText'
   | 'editor.placeholder.explanation'
+  | 'editor.placeholder.tags'
   | 'editor.action.reloadList'
   | 'editor.action.addQuestion'
   | 'editor.action.addLesson'
@@ -536,6 +707,174 @@ export type TranslationKey =
   | 'editor.add_option'
   | 'editor.delete_question'
   | 'editor.delete_material'
+  // Question types
+  | 'editor.label.questionType'
+  | 'editor.questionType.single'
+  | 'editor.questionType.multiple'
+  | 'editor.questionType.truefalse'
+  | 'editor.questionType.numeric'
+  | 'editor.questionType.text'
+  | 'editor.label.numericAnswer'
+  | 'editor.label.tolerance'
+  | 'editor.label.acceptedAnswers'
+  | 'editor.label.quizMode'
+  | 'editor.label.reviewPolicy'
+  | 'editor.label.reviewAt'
+  | 'editor.reviewPolicy.AFTER_SUBMIT'
+  | 'editor.reviewPolicy.AFTER_DATE'
+  | 'editor.reviewPolicy.NEVER'
+  // Item analytics
+  | 'editor.analytics.noData'
+  | 'editor.analytics.responses'
+  | 'editor.analytics.correct'
+  | 'editor.analytics.discrimination'
+  | 'editor.analytics.discriminationHint'
+  | 'editor.analytics.avgTime'
+  | 'editor.analytics.flag.too_hard'
+  | 'editor.analytics.flag.distractor'
+  | 'editor.analytics.summary'
+  | 'editor.analytics.flagged'
+  | 'editor.analytics.flaggedHint'
+  // Quiz import / export (Moodle XML, GIFT, QTI)
+  | 'editor.transfer.importButton'
+  | 'editor.transfer.exportButton'
+  | 'editor.transfer.importTitle'
+  | 'editor.transfer.exportTitle'
+  | 'editor.transfer.format'
+  | 'editor.transfer.file'
+  | 'editor.transfer.quizTitle'
+  | 'editor.transfer.quizTitleHint'
+  | 'editor.transfer.check'
+  | 'editor.transfer.import'
+  | 'editor.transfer.download'
+  | 'editor.transfer.checked'
+  | 'editor.transfer.imported'
+  | 'editor.transfer.exported'
+  | 'editor.transfer.summary'
+  | 'editor.transfer.noIssues'
+  | 'editor.transfer.skipped'
+  // Revision history
+  | 'editor.history.title'
+  | 'editor.history.empty'
+  | 'editor.history.version'
+  | 'editor.history.current'
+  | 'editor.history.restoredFrom'
+  | 'editor.history.unknownAuthor'
+  | 'editor.history.compare'
+  | 'editor.history.restore'
+  | 'editor.history.restoreConfirm'
+  | 'editor.history.diffTitle'
+  | 'editor.history.noChanges'
+  | 'editor.history.loadError'
+  | 'editor.history.restoreError'
+  // Editorial review
+  | 'editor.review.title'
+  | 'editor.review.status.Draft'
+  | 'editor.review.status.InReview'
+  | 'editor.review.status.ChangesRequested'
+  | 'editor.review.status.Scheduled'
+  | 'editor.review.status.Published'
+  | 'editor.review.author'
+  | 'editor.review.reviewer'
+  | 'editor.review.noReviewer'
+  | 'editor.review.submit'
+  | 'editor.review.requestChanges'
+  | 'editor.review.notePlaceholder'
+  | 'editor.review.approve'
+  | 'editor.review.publishAt'
+  | 'editor.review.publishAtHint'
+  | 'editor.review.unpublishAt'
+  | 'editor.review.saveSchedule'
+  | 'editor.review.withdraw'
+  | 'editor.review.unpublish'
+  | 'editor.review.scheduledFor'
+  | 'editor.review.unpublishesAt'
+  | 'editor.review.adminOnly'
+  | 'editor.review.comments'
+  | 'editor.review.noComments'
+  | 'editor.review.addComment'
+  | 'editor.review.commentPlaceholder'
+  | 'editor.review.quotePlaceholder'
+  | 'editor.review.resolve'
+  | 'editor.review.reopen'
+  | 'editor.review.resolved'
+  | 'editor.review.wholeItem'
+  | 'editor.review.anyField'
+  | 'editor.review.anyLang'
+  | 'editor.review.question'
+  | 'editor.review.field.title'
+  | 'editor.review.field.content'
+  | 'editor.review.field.url'
+  | 'editor.review.field.text'
+  | 'editor.review.field.explanation'
+  | 'editor.review.field.options'
+  | 'editor.review.queue.title'
+  | 'editor.review.queue.subtitle'
+  | 'editor.review.queue.mine'
+  | 'editor.review.queue.all'
+  | 'editor.review.queue.empty'
+  | 'editor.review.queue.openComments'
+  | 'editor.review.entity.material'
+  | 'editor.review.entity.quiz'
+  // Translation coverage and side-by-side translation editor
+  | 'editor.translations.title'
+  | 'editor.translations.subtitle'
+  | 'editor.translations.translated'
+  | 'editor.translations.missingCount'
+  | 'editor.translations.staleCount'
+  | 'editor.translations.source'
+  | 'editor.translations.byEntity'
+  | 'editor.translations.byTopic'
+  | 'editor.translations.worklist'
+  | 'editor.translations.filter.lang'
+  | 'editor.translations.filter.entity'
+  | 'editor.translations.filter.state'
+  | 'editor.translations.filter.topic'
+  | 'editor.translations.state.any'
+  | 'editor.translations.state.missing'
+  | 'editor.translations.state.stale'
+  | 'editor.translations.entity.topic'
+  | 'editor.translations.entity.material'
+  | 'editor.translations.entity.quiz'
+  | 'editor.translations.entity.question'
+  | 'editor.translations.noGaps'
+  | 'editor.translations.translate'
+  | 'editor.translations.editorTitle'
+  | 'editor.translations.sourceLang'
+  | 'editor.translations.targetLang'
+  | 'editor.translations.field.name'
+  | 'editor.translations.field.description'
+  | 'editor.translations.field.title'
+  | 'editor.translations.field.content'
+  | 'editor.translations.field.text'
+  | 'editor.translations.field.explanation'
+  | 'editor.translations.field.option'
+  | 'editor.translations.staleHint'
+  | 'editor.translations.stillAccurate'
+  | 'editor.translations.sourceMissing'
+  | 'editor.translations.saved'
+  | 'editor.translations.discardConfirm'
+  | 'editor.translations.loadError'
+  | 'editor.translations.saveError'
+  | 'editor.translations.state.machine'
+  | 'editor.translations.machineCount'
+  | 'editor.translations.machineHint'
+  | 'editor.translations.accept'
+  | 'editor.translations.reject'
+  | 'editor.translations.machineTranslate'
+  | 'editor.translations.machineConfirm'
+  | 'editor.translations.machineDone'
+  | 'editor.translations.machineNothing'
+  | 'editor.translations.machineError'
+  | 'editor.error.numericAnswerRequired'
+  | 'editor.error.acceptedAnswersRequired'
+  // Question bank draw rules
+  | 'editor.drawRules.title'
+  | 'editor.drawRules.hint'
+  | 'editor.drawRules.active'
+  | 'editor.drawRules.anyDifficulty'
+  | 'editor.drawRules.available'
+  | 'editor.drawRules.add'
   // AI Quiz Generation
   | 'editor.manual_mode'
   | 'editor.ai_mode'
@@ -555,6 +894,33 @@ export type TranslationKey =
   | 'editor.generate_quiz'
   | 'editor.generating'
   | 'editor.ai_unavailable'
+  | 'editor.ai_job.queued'
+  | 'editor.ai_job.extracting'
+  | 'editor.ai_job.generating'
+  | 'editor.ai_job.saving'
+  | 'editor.ai_job.retrying'
+  | 'editor.ai_job.background'
+  | 'editor.ai_job.failed'
+  | 'editor.ai_questions_by_difficulty'
+  | 'editor.ai_total_questions'
+  | 'editor.ai_option_count'
+  | 'editor.ai_tags'
+  | 'editor.ai_count_error'
+  | 'editor.ai_job.done'
+  | 'editor.ai_job.dropped'
+  | 'editor.ai_job.mix'
+  // AI study aids
+  | 'editor.studyAids.title'
+  | 'editor.studyAids.hint'
+  | 'editor.studyAids.sourceLanguage'
+  | 'editor.studyAids.translate'
+  | 'editor.studyAids.generate'
+  | 'editor.studyAids.generating'
+  | 'editor.studyAids.saving'
+  | 'editor.ai_job.translating'
+  | 'editor.studyAids.done'
+  | 'editor.studyAids.failed'
+  | 'editor.studyAids.translationFailed'
   | 'editor.placeholder.textContent'
   | 'editor.placeholder.youtubeUrl'
   | 'editor.success.quizGenerated'
@@ -572,6 +938,7 @@ export type TranslationKey =
   | 'admin.users'
   | 'admin.usersDescription'
   | 'admin.content'
+  | 'admin.review'
   | 'admin.contentDescription'
   | 'admin.files'
   | 'admin.filesDescription'
@@ -599,12 +966,59 @@ export type TranslationKey =
   | 'admin.noUsersFound'
   | 'admin.verified'
   | 'admin.unverified'
+  | 'admin.twoFactor.requiredFor'
+  | 'admin.twoFactor.enabled'
+  | 'admin.twoFactor.reset'
+  | 'admin.twoFactor.resetAction'
+  | 'admin.twoFactor.resetConfirm'
+  | 'admin.twoFactor.resetFailed'
+  | 'admin.lockout.lockedUntil'
+  | 'admin.lockout.failedAttempts'
+  | 'admin.lockout.count'
+  | 'admin.lockout.unlock'
+  | 'admin.lockout.reset'
+  | 'admin.lockout.unlocked'
+  | 'admin.invites'
+  | 'admin.invitesDescription'
+  | 'invites.new'
+  | 'invites.emailsPlaceholder'
+  | 'invites.expiresIn'
+  | 'invites.days'
+  | 'invites.send'
+  | 'invites.invalidEmails'
+  | 'invites.sent'
+  | 'invites.skippedRegistered'
+  | 'invites.resent'
+  | 'invites.status.pending'
+  | 'invites.status.used'
+  | 'invites.status.expired'
+  | 'invites.status.revoked'
+  | 'invites.empty'
+  | 'invites.acceptedAt'
+  | 'invites.expiresAt'
+  | 'invites.by'
+  | 'invites.resend'
+  | 'invites.revoke'
+  | 'invites.revokeTitle'
+  | 'invites.revokeDescription'
+  | 'invites.teacherTitle'
   | 'admin.action'
   | 'admin.resource'
   | 'admin.startDate'
   | 'admin.endDate'
   | 'admin.systemAction'
   | 'admin.viewDetails'
+  // SCORM export
+  | 'admin.scorm.button'
+  | 'admin.scorm.title'
+  | 'admin.scorm.hint'
+  | 'admin.scorm.language'
+  | 'admin.scorm.xapi'
+  | 'admin.scorm.lrsEndpoint'
+  | 'admin.scorm.lrsEndpointHint'
+  | 'admin.scorm.lrsAuth'
+  | 'admin.scorm.lrsAuthHint'
+  | 'admin.scorm.download'
   | 'admin.noLogsFound'
   | 'admin.allCategories'
   | 'admin.avatars'
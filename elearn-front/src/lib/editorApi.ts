@@ -7,7 +7,26 @@ import type {
   Question,
   Option,
   Difficulty,
-  LocalizedString
+  LocalizedString,
+  QuestionType,
+  QuizItemAnalytics,
+  QuizFormat,
+  QuizFileImportResult,
+  QuizExportFile,
+  RevisionEntity,
+  ContentRevisionSummary,
+  RevisionDiff,
+  WorkflowEntity,
+  WorkflowState,
+  WorkflowUser,
+  ReviewQueueItem,
+  ReviewComment,
+  ReviewTarget,
+  TranslationEntity,
+  TranslationCoverageReport,
+  TranslationGap,
+  TranslationSheet,
+  MachineTranslationResult
 } from '@packages/shared'
 
 // Editor-specific Topic type (extends shared Topic logic conceptually)
@@ -35,15 +54,19 @@ export interface CreateQuestionRequest {
   explanationJson?: LocalizedString
   difficulty: Difficulty
   tags: string[]
+  type?: QuestionType
   options: {
     text: string
     textJson?: LocalizedString
     correct: boolean
   }[]
+  numericAnswer?: number | null
+  tolerance?: number | null
+  acceptedAnswers?: string[]
 }
 
 // Re-export types for usage in components
-export type { Category, Lang, Material, QuizLite, Question, Option }
+export type { Category, Lang, Material, QuizLite, Question, Option, QuestionType }
 
 // Helper wrapper to handle potential 404s gracefully during development
 async function soft<T>(p: Promise<T>): Promise<T> {
@@ -101,6 +124,151 @@ export const updateQuestion = (quizId: string, id: string, data: Partial<CreateQ
 export const deleteQuestion = (quizId: string, id: string) =>
   soft(apiDelete<{ok: true}>(`/editor/quizzes/${quizId}/questions/${id}`))
 
+// ==========================================
+// QUESTION BANK - draw rules
+// ==========================================
+
+/** Draws `count` random bank questions of the difficulty (any if null) having all tags */
+export interface DrawRule {
+  id?: string
+  count: number
+  difficulty: Difficulty | null
+  tags: string[]
+  available?: number // Matching bank questions
+}
+
+export interface BankTag {
+  tag: string
+  count: number
+}
+
+export const listDrawRules = (quizId: string) =>
+  soft(apiGet<DrawRule[]>(`/editor/quizzes/${quizId}/draw-rules`))
+export const saveDrawRules = (quizId: string, rules: DrawRule[]) =>
+  soft(apiPut<DrawRule[]>(`/editor/quizzes/${quizId}/draw-rules`, {
+    rules: rules.map(({ count, difficulty, tags }) => ({ count, difficulty, tags })),
+  }))
+export const listBankTags = () => soft(apiGet<BankTag[]>('/editor/questions/tags'))
+
+// ==========================================
+// ITEM ANALYTICS
+// ==========================================
+
+export const getQuizAnalytics = (quizId: string, lang?: Lang) =>
+  soft(apiGet<QuizItemAnalytics>(`/editor/quizzes/${quizId}/analytics${lang ? `?lang=${lang}` : ''}`))
+/** Number of flagged questions per quiz id */
+export const getTopicQuizFlags = (topicId: string) =>
+  soft(apiGet<Record<string, number>>(`/editor/topics/${topicId}/quiz-flags`))
+
+// ==========================================
+// QUIZ IMPORT / EXPORT (Moodle XML, GIFT, QTI)
+// ==========================================
+
+export interface QuizFileImportRequest {
+  format: QuizFormat
+  content: string
+  encoding: 'utf8' | 'base64'
+  title?: string
+  dryRun?: boolean
+}
+
+export const importQuizFile = (topicId: string, data: QuizFileImportRequest) =>
+  soft(apiPost<QuizFileImportResult>(`/editor/topics/${topicId}/quizzes/import`, data))
+export const exportQuizFile = (topicId: string, quizId: string, format: QuizFormat) =>
+  soft(apiGet<QuizExportFile>(`/editor/topics/${topicId}/quizzes/${quizId}/export?format=${format}`))
+
+// ==========================================
+// REVISIONS
+// ==========================================
+
+export const listRevisions = (entity: RevisionEntity, id: string) =>
+  soft(apiGet<ContentRevisionSummary[]>(`/editor/revisions/${entity}/${id}`))
+/** Changes from one revision to another (the latest when `to` is omitted) */
+export const diffRevisions = (entity: RevisionEntity, id: string, from: string, to?: string) =>
+  soft(apiGet<RevisionDiff>(`/editor/revisions/${entity}/${id}/diff?from=${from}${to ? `&to=${to}` : ''}`))
+export const restoreRevision = (entity: RevisionEntity, id: string, revisionId: string) =>
+  soft(apiPost<ContentRevisionSummary>(`/editor/revisions/${entity}/${id}/restore/${revisionId}`, {}))
+
+// ==========================================
+// EDITORIAL REVIEW
+// ==========================================
+
+export interface ReviewSchedule {
+  publishAt?: string | null
+  unpublishAt?: string | null
+}
+
+export interface ReviewCommentRequest {
+  body: string
+  field?: string | null
+  lang?: Lang | null
+  quote?: string | null
+}
+
+export const getReviewQueue = (mine = false) =>
+  soft(apiGet<ReviewQueueItem[]>(`/editor/review/queue${mine ? '?mine=true' : ''}`))
+export const listReviewers = () =>
+  soft(apiGet<Array<WorkflowUser & { role: string }>>('/editor/review/reviewers'))
+export const getWorkflowState = (entity: WorkflowEntity, id: string) =>
+  soft(apiGet<WorkflowState>(`/editor/review/${entity}/${id}`))
+export const submitForReview = (entity: WorkflowEntity, id: string, reviewerId?: string | null) =>
+  soft(apiPost<WorkflowState>(`/editor/review/${entity}/${id}/submit`, { reviewerId }))
+export const assignReviewer = (entity: WorkflowEntity, id: string, reviewerId: string | null) =>
+  soft(apiPut<WorkflowState>(`/editor/review/${entity}/${id}/reviewer`, { reviewerId }))
+export const requestChanges = (entity: WorkflowEntity, id: string, note: string) =>
+  soft(apiPost<WorkflowState>(`/editor/review/${entity}/${id}/request-changes`, { note }))
+/** ADMIN: publish now, or schedule with a future publishAt */
+export const approveContent = (entity: WorkflowEntity, id: string, schedule: ReviewSchedule = {}) =>
+  soft(apiPost<WorkflowState>(`/editor/review/${entity}/${id}/approve`, schedule))
+export const rescheduleContent = (entity: WorkflowEntity, id: string, schedule: ReviewSchedule) =>
+  soft(apiPut<WorkflowState>(`/editor/review/${entity}/${id}/schedule`, schedule))
+/** Back to Draft: withdraw from review, cancel a schedule or unpublish */
+export const withdrawContent = (entity: WorkflowEntity, id: string) =>
+  soft(apiPost<WorkflowState>(`/editor/review/${entity}/${id}/withdraw`, {}))
+/** Comments of a material, or of a quiz and its questions */
+export const listReviewComments = (entity: WorkflowEntity, id: string) =>
+  soft(apiGet<ReviewComment[]>(`/editor/review/${entity}/${id}/comments`))
+export const addReviewComment = (target: ReviewTarget, id: string, data: ReviewCommentRequest) =>
+  soft(apiPost<ReviewComment>(`/editor/review/comments/${target}/${id}`, data))
+export const resolveReviewComment = (commentId: string, resolved: boolean) =>
+  soft(apiPut<ReviewComment>(`/editor/review/comments/${commentId}`, { resolved }))
+
+// ==========================================
+// TRANSLATIONS
+// ==========================================
+
+export interface TranslationGapFilters {
+  lang?: Lang
+  entity?: TranslationEntity
+  topicId?: string
+  state?: 'missing' | 'stale' | 'machine'
+  page?: number
+  limit?: number
+}
+
+export interface TranslationGapPage {
+  items: TranslationGap[]
+  pagination: { page: number; limit: number; total: number; pages: number }
+}
+
+export const getTranslationCoverage = () =>
+  soft(apiGet<TranslationCoverageReport>('/editor/translations/coverage'))
+export const listTranslationGaps = (filters: TranslationGapFilters = {}) => {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  }
+  return soft(apiGet<TranslationGapPage>(`/editor/translations/gaps?${params}`))
+}
+export const getTranslationSheet = (entity: TranslationEntity, id: string) =>
+  soft(apiGet<TranslationSheet>(`/editor/translations/${entity}/${id}`))
+/** Texts of one language by field; confirm marks unchanged stale translations as checked */
+export const saveTranslations = (entity: TranslationEntity, id: string, lang: Lang, values: Record<string, string>, confirm: string[] = []) =>
+  soft(apiPut<TranslationSheet>(`/editor/translations/${entity}/${id}`, { lang, values, confirm }))
+/** Machine-translate the missing languages (of a quiz: with its questions); results need review */
+export const machineTranslate = (entity: Exclude<TranslationEntity, 'question'>, id: string, langs?: Lang[]) =>
+  soft(apiPost<MachineTranslationResult>(`/editor/translations/${entity}/${id}/machine`, { langs }))
+
 // ==========================================
 // AI QUIZ GENERATION - Gemini Free API
 // ==========================================
@@ -114,20 +282,52 @@ export interface AIGenerateQuizRequest {
   type: AIContentType
   language?: AILanguage
   durationSec?: number
+  questionCount?: number
+  /** Questions per difficulty, summing to questionCount */
+  difficultyMix?: Record<Difficulty, number>
+  optionCount?: number
+  /** Added to every generated question */
+  tags?: string[]
 }
 
-export interface AIGenerateQuizResponse {
+export interface AIGenerateQuizResult {
   quizId: string
   title: string
   questionsCount: number
   status: string
-  message: string
+  /** Dropped as near-duplicates of questions already in the topic */
+  duplicatesDropped: number
+  /** Dropped for a wrong option count or not exactly one correct option */
+  invalidDropped: number
+  /** Questions per difficulty as requested and as saved (missing on older jobs) */
+  difficultyMix?: { requested: Record<Difficulty, number>; actual: Record<Difficulty, number> }
+}
+
+export type AIJobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+export type AIJobStage = 'extracting' | 'generating' | 'saving' | 'translating'
+
+/** Background AI job (quiz and study aid generation run outside the HTTP request) */
+export interface AIJob<R = AIGenerateQuizResult> {
+  id: string
+  type: 'quiz_generation' | 'study_aids'
+  status: AIJobStatus
+  stage: AIJobStage | null
+  attempts: number
+  maxAttempts: number
+  error: string | null
+  result: R | null
+  nextAttemptAt: string | null
+  createdAt: string
+  startedAt: string | null
+  finishedAt: string | null
 }
 
 export interface AIStatusResponse {
   available: boolean
   features: {
     quizGeneration: boolean
+    studyAids: boolean
+    machineTranslation: boolean
     supportedTypes: string[]
     supportedLanguages: string[]
   }
@@ -136,6 +336,35 @@ export interface AIStatusResponse {
 /** Check if AI features are available */
 export const checkAIStatus = () => soft(apiGet<AIStatusResponse>('/editor/ai/status'))
 
-/** Generate quiz using AI (Gemini) from text, PDF, or YouTube URL */
+/** Queue quiz generation with AI (Gemini) from text, PDF, or YouTube URL */
 export const generateQuizWithAI = (data: AIGenerateQuizRequest) =>
-  soft(apiPost<AIGenerateQuizResponse>('/editor/ai/generate-quiz', data))
+  soft(apiPost<AIJob>('/editor/ai/generate-quiz', data))
+
+/** Poll an AI job */
+export const getAIJob = <R = AIGenerateQuizResult>(id: string) => soft(apiGet<AIJob<R>>(`/editor/ai/jobs/${id}`))
+
+// ==========================================
+// AI STUDY AIDS
+// ==========================================
+
+export type StudyAidKind = 'summary' | 'flashcards' | 'glossary'
+
+export interface StudyAidsRequest {
+  kinds: StudyAidKind[]
+  /** Defaults to the material's language */
+  language?: AILanguage
+  /** Machine-translate the new materials into the other languages */
+  translate?: boolean
+}
+
+export interface StudyAidsResult {
+  /** Created as Draft materials of the source material's topic */
+  materials: { id: string; type: StudyAidKind; title: string }[]
+  translated: number
+  /** Set when the aids were saved but machine translation failed */
+  translationError?: string
+}
+
+/** Queue generation of study aids from a text, PDF or YouTube material */
+export const generateStudyAids = (materialId: string, data: StudyAidsRequest) =>
+  soft(apiPost<AIJob<StudyAidsResult>>(`/editor/materials/${materialId}/study-aids`, data))
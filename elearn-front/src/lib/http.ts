@@ -168,6 +168,11 @@ $api.interceptors.response.use(
         )
         return $api.request(originalRequest)
       } catch (refreshError) {
+        // 409: інша вкладка щойно оновила токени, її cookies вже (або ось-ось) в браузері
+        if (axios.isAxiosError(refreshError) && refreshError.response?.status === 409) {
+          await new Promise(resolve => setTimeout(resolve, 500))
+          return $api.request(originalRequest)
+        }
         console.error('Session expired', refreshError)
         localStorage.removeItem('user_data')
         localStorage.removeItem('access_token')
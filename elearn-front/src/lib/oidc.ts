@@ -0,0 +1,56 @@
+import { apiDelete, apiGet, apiPost } from './http'
+
+// Sign-in with OpenID Connect providers (Google, Microsoft, SSO)
+
+export interface OidcProvider {
+  id: string
+  name: string
+}
+
+export interface LinkedIdentity {
+  provider: string
+  name: string
+  email: string | null
+  createdAt: string
+  lastLoginAt: string | null
+}
+
+const BROWSER_KEY = 'oidc_browser_key'
+const RETURN_TO_KEY = 'oidc_return_to'
+
+export const getOidcProviders = () =>
+  apiGet<{ providers: OidcProvider[] }>('/auth/oidc/providers').then(res => res.providers)
+
+export const getLinkedIdentities = () =>
+  apiGet<{ hasPassword: boolean; identities: LinkedIdentity[] }>('/auth/identities')
+
+export const unlinkIdentity = (provider: string) =>
+  apiDelete(`/auth/identities/${provider}`)
+
+/**
+ * Redirect to the provider to sign in, or to link it to the signed-in account. The random
+ * browser key stays in sessionStorage so only this browser can finish the flow.
+ */
+export async function redirectToProvider(provider: string, options: { link?: boolean; returnTo?: string } = {}): Promise<void> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  const browserKey = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+  sessionStorage.setItem(BROWSER_KEY, browserKey)
+  sessionStorage.setItem(RETURN_TO_KEY, options.returnTo || (options.link ? '/profile' : '/'))
+
+  const { url } = await apiPost<{ url: string }>(
+    options.link ? `/auth/identities/${provider}` : `/auth/oidc/${provider}/start`,
+    { browserKey }
+  )
+  window.location.assign(url)
+}
+
+/**
+ * Browser key and return path saved by redirectToProvider; cleared once read
+ */
+export function takeOidcSession(): { browserKey: string | null; returnTo: string } {
+  const browserKey = sessionStorage.getItem(BROWSER_KEY)
+  const returnTo = sessionStorage.getItem(RETURN_TO_KEY) || '/'
+  sessionStorage.removeItem(BROWSER_KEY)
+  sessionStorage.removeItem(RETURN_TO_KEY)
+  return { browserKey, returnTo }
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, CheckCircle2, XCircle, Circle, Lightbulb, EyeOff, ClipboardList } from 'lucide-react'
+import { apiGet } from '@/lib/http'
+import { useTranslation } from '@/i18n/useTranslation'
+import { SkeletonCard } from '@/components/Skeletons'
+import type { AttemptReviewQuestion, QuizAttemptReview } from '@packages/shared'
+
+// Full, partial or no credit; unknown while the answers are hidden
+function creditTone(q: AttemptReviewQuestion): 'correct' | 'partial' | 'wrong' | null {
+  if (q.credit === undefined) return null
+  if (q.credit >= 1) return 'correct'
+  return q.credit > 0 ? 'partial' : 'wrong'
+}
+
+const TONE_BADGE = {
+  correct: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  partial: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  wrong: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+}
+
+export default function AttemptReview() {
+  const { id = '' } = useParams()
+  const nav = useNavigate()
+  const { t, lang } = useTranslation()
+  const [review, setReview] = useState<QuizAttemptReview | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let mounted = true
+    setLoading(true)
+    apiGet<QuizAttemptReview>(`/quiz/attempts/${id}?lang=${lang}`)
+      .then(data => { if (mounted) setReview(data) })
+      .catch(() => { if (mounted) setReview(null) })
+      .finally(() => { if (mounted) setLoading(false) })
+    return () => { mounted = false }
+  }, [id, lang])
+
+  const formatDate = (iso: string) => {
+    const locale = lang === 'UA' ? 'uk-UA' : lang === 'PL' ? 'pl-PL' : 'en-US'
+    return new Date(iso).toLocaleString(locale, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+  }
+
+  if (loading) {
+    return <div className="space-y-4"><SkeletonCard /><SkeletonCard /></div>
+  }
+
+  if (!review) {
+    return (
+      <div className="card flex flex-col items-center justify-center py-16 text-center">
+        <ClipboardList size={40} className="text-neutral-300 dark:text-neutral-600 mb-3" />
+        <p className="text-neutral-500 mb-6">{t('attemptReview.notFound', 'Attempt not found')}</p>
+        <Link to="/dashboard" className="btn btn-sm">{t('nav.dashboard')}</Link>
+      </div>
+    )
+  }
+
+  const percentage = review.total > 0 ? Math.round((review.correct / review.total) * 100) : 0
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-6">
+      <button onClick={() => nav(-1)} className="inline-flex items-center gap-1 text-sm text-neutral-500 hover:text-primary-600">
+        <ArrowLeft size={16} /> {t('common.back', 'Back')}
+      </button>
+
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-neutral-900 dark:text-white">{review.quiz.title}</h1>
+          <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1">
+            {formatDate(review.createdAt)}
+            {review.quiz.mode === 'EXAM' && <span className="ml-2 text-xs font-semibold uppercase text-orange-600">{t('quiz.mode.exam', 'Exam')}</span>}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">{t('quiz.result', 'Result')}</p>
+          <p className="text-2xl font-bold tabular-nums text-neutral-900 dark:text-white">
+            {review.correct}/{review.total} <span className="text-base font-medium text-neutral-500">({percentage}%)</span>
+          </p>
+        </div>
+      </div>
+
+      {!review.revealed && (
+        <div className="p-4 rounded-xl border border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/20 flex gap-3 text-sm text-amber-800 dark:text-amber-300">
+          <EyeOff size={18} className="shrink-0 mt-0.5" />
+          <p>
+            {review.reviewAt
+              ? t('attemptReview.hiddenUntil', 'Correct answers for this exam will be shown from {date}').replace('{date}', formatDate(review.reviewAt))
+              : t('attemptReview.hidden', 'Correct answers for this exam are not shown. You can still see what you answered.')}
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {review.questions.map((q, idx) => {
+          const tone = creditTone(q)
+          return (
+            <div key={q.id} className="card space-y-4">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <span className="text-xs font-bold text-primary-600 dark:text-primary-400 uppercase tracking-wider">
+                    {t('quiz.question', 'Question')} {idx + 1}
+                  </span>
+                  <h3 className="font-semibold text-neutral-900 dark:text-white mt-1 leading-snug">{q.text}</h3>
+                </div>
+                {tone && (
+                  <span className={`shrink-0 text-xs font-semibold px-2 py-1 rounded-md tabular-nums ${TONE_BADGE[tone]}`}>
+                    {tone === 'partial' ? `${Math.round((q.credit ?? 0) * 100)}%` : tone === 'correct' ? t('review.correct', 'Correct') : t('review.incorrect', 'Incorrect')}
+                  </span>
+                )}
+              </div>
+
+              {q.options.length > 0 && (
+                <ul className="space-y-2">
+                  {q.options.map(o => {
+                    const border = o.correct
+                      ? 'border-green-300 bg-green-50 dark:border-green-800 dark:bg-green-900/20'
+                      : o.chosen && o.correct === false
+                      ? 'border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-900/20'
+                      : o.chosen
+                      ? 'border-primary-300 bg-primary-50 dark:border-primary-800 dark:bg-primary-900/20'
+                      : 'border-neutral-200 dark:border-neutral-800'
+                    return (
+                      <li key={o.id} className={`flex items-center gap-3 p-3 rounded-xl border text-sm ${border}`}>
+                        {o.correct ? <CheckCircle2 size={18} className="text-green-600 shrink-0" />
+                          : o.chosen && o.correct === false ? <XCircle size={18} className="text-red-600 shrink-0" />
+                          : <Circle size={18} className={`shrink-0 ${o.chosen ? 'text-primary-600' : 'text-neutral-300'}`} />}
+                        <span className="flex-1 text-neutral-800 dark:text-neutral-200">{o.text}</span>
+                        {o.chosen && (
+                          <span className="text-xs font-medium text-neutral-500">{t('attemptReview.yourChoice', 'Your choice')}</span>
+                        )}
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+
+              {q.options.length === 0 && (
+                <div className="text-sm space-y-1">
+                  <p className="text-neutral-600 dark:text-neutral-300">
+                    {t('attemptReview.yourAnswer', 'Your answer')}: <span className="font-semibold">{q.value ?? '—'}</span>
+                  </p>
+                  {q.expected && (
+                    <p className="text-green-700 dark:text-green-400">
+                      {t('review.correctAnswer', 'Correct answer')}: <span className="font-semibold">{q.expected}</span>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {!q.answered && (
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">{t('attemptReview.notAnswered', 'Not answered')}</p>
+              )}
+
+              {q.explanation && (
+                <div className="p-3 rounded-xl bg-neutral-50 dark:bg-neutral-800/50 flex gap-3 text-sm">
+                  <Lightbulb size={18} className="text-amber-500 shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-semibold text-neutral-800 dark:text-neutral-200 mb-0.5">{t('lesson.explanationTitle', 'Explanation')}</p>
+                    <p className="text-neutral-600 dark:text-neutral-300">{q.explanation}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -8,7 +8,7 @@ import {
 import { useAuth } from '@/auth/AuthContext'
 import { useTranslation } from '@/i18n/useTranslation'
 import { useActivityTracker } from '@/hooks/useActivityTracker'
-import { apiGet, apiPost } from '@/lib/http'
+import { apiGet } from '@/lib/http'
 import { SkeletonDashboard } from '@/components/Skeletons'
 import QuizHistory from '@/components/QuizHistory'
 import { 
@@ -16,6 +16,7 @@ import {
   StatCard, 
   StreakDay 
 } from '@/components/dashboard/DashboardComponents'
+import type { DailyGoal } from '@packages/shared'
 
 // Типи даних, які очікуємо від бекенду
 interface DashboardData {
@@ -35,11 +36,7 @@ interface DashboardData {
     totalMaterials: number;
     viewedMaterials: number;
   }>;
-  dailyGoals: Array<{
-    id: string;
-    text: string;
-    isCompleted: boolean;
-  }>;
+  dailyGoals: DailyGoal[];
   weakSpots: Array<{
     topic: string;
     advice: string;
@@ -111,43 +108,6 @@ export default function Dashboard() {
     return () => { mounted = false }
   }, [lang, user]) // Перезавантажуємо при зміні мови або user
 
-  // Стан для запобігання швидким подвійним клікам
-  const [togglingGoals, setTogglingGoals] = useState<Set<string>>(new Set())
-  
-  // Функція для відмітки цілі як виконаної (оптимістичний UI з захистом від подвійних кліків)
-  const toggleGoal = async (goalId: string, currentState: boolean) => {
-    if (!data || !user) return
-    
-    // Захист від подвійних кліків
-    if (togglingGoals.has(goalId)) return
-    setTogglingGoals(prev => new Set(prev).add(goalId))
-    
-    // Optimistic update
-    setData(prev => prev ? ({
-      ...prev,
-      dailyGoals: prev.dailyGoals.map(g => g.id === goalId ? { ...g, isCompleted: !currentState } : g)
-    }) : null)
-
-    try {
-      await apiPost(`/progress/goals/${goalId}/toggle`, {})
-    } catch {
-      // Revert if failed - apiPost вже обробляє CSRF автоматично
-      setData(prev => prev ? ({
-        ...prev,
-        dailyGoals: prev.dailyGoals.map(g => g.id === goalId ? { ...g, isCompleted: currentState } : g)
-      }) : null)
-    } finally {
-      // Знімаємо блокування через невелику затримку
-      setTimeout(() => {
-        setTogglingGoals(prev => {
-          const next = new Set(prev)
-          next.delete(goalId)
-          return next
-        })
-      }, 500)
-    }
-  }
-
   if (loading) return <SkeletonDashboard />
   
   if (error) {
@@ -324,28 +284,32 @@ export default function Dashboard() {
                       : 'bg-white border-neutral-100 dark:bg-neutral-800/50 dark:border-neutral-800'
                   }`}
                 >
-                  <label className="flex items-center gap-3 cursor-pointer flex-1 select-none min-w-0">
-                    <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${
+                  <div className="flex items-center gap-3 flex-1 min-w-0">
+                    <div className={`w-5 h-5 shrink-0 rounded border flex items-center justify-center transition-colors ${
                       g.isCompleted
                         ? 'bg-green-500 border-green-500 text-white'
-                        : 'border-neutral-300 dark:border-neutral-600 hover:border-green-500'
+                        : 'border-neutral-300 dark:border-neutral-600'
                     }`}>
                       {g.isCompleted && <CheckCircle size={14} />}
                     </div>
-                    <input 
-                      type="checkbox" 
-                      className="hidden"
-                      checked={g.isCompleted} 
-                      onChange={() => toggleGoal(g.id, g.isCompleted)}
-                    />
-                    <span className={`font-medium transition-colors break-words ${
-                      g.isCompleted 
-                        ? 'text-green-700 dark:text-green-400 line-through decoration-green-500/30' 
-                        : 'text-neutral-700 dark:text-neutral-200'
-                    }`}>
-                      {g.text}
-                    </span>
-                  </label>
+                    <div className="flex-1 min-w-0">
+                      <span className={`font-medium transition-colors break-words ${
+                        g.isCompleted 
+                          ? 'text-green-700 dark:text-green-400 line-through decoration-green-500/30' 
+                          : 'text-neutral-700 dark:text-neutral-200'
+                      }`}>
+                        {g.text}
+                      </span>
+                      {!g.isCompleted && g.target > 1 && (
+                        <div className="flex items-center gap-2 mt-1.5">
+                          <ProgressBar value={(g.progress / g.target) * 100} className="h-1.5 flex-1" />
+                          <span className="text-xs text-neutral-500 dark:text-neutral-400 tabular-nums">
+                            {g.progress}/{g.target}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
                 </li>
               ))}
             </ul>
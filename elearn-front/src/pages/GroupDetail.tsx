@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, Copy, RefreshCw, Trash2, LogOut, Trophy, Plus, CalendarClock, UserMinus, Users } from 'lucide-react'
+import { apiDelete, apiGet, apiPost } from '@/lib/http'
+import { useTranslation } from '@/i18n/useTranslation'
+import { useToast } from '@/components/Toast'
+import { SkeletonList } from '@/components/Skeletons'
+import { LoadingButton } from '@/components/LoadingButton'
+import ConfirmDialog from '@/components/ConfirmDialog'
+import type { GroupDetails, GroupProgress, TopicTree } from '@packages/shared'
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.round((seconds % 3600) / 60)
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
+
+function progressColor(progress: number, overdue: boolean): string {
+  if (progress === 100) return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300'
+  if (overdue) return 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+  if (progress > 0) return 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+  return 'bg-neutral-100 text-neutral-500 dark:bg-neutral-800 dark:text-neutral-400'
+}
+
+export default function GroupDetail() {
+  const { id = '' } = useParams()
+  const nav = useNavigate()
+  const { t, lang } = useTranslation()
+  const push = useToast(s => s.push)
+  const [group, setGroup] = useState<GroupDetails | null>(null)
+  const [progress, setProgress] = useState<GroupProgress | null>(null)
+  const [courses, setCourses] = useState<TopicTree[]>([])
+  const [loading, setLoading] = useState(true)
+  const [topicId, setTopicId] = useState('')
+  const [dueAt, setDueAt] = useState('')
+  const [assigning, setAssigning] = useState(false)
+  const [confirm, setConfirm] = useState<'delete' | 'leave' | null>(null)
+
+  const loadGroup = useCallback(async () => {
+    try {
+      const data = await apiGet<GroupDetails>(`/groups/${id}?lang=${lang}`)
+      setGroup(data)
+      if (data.isOwner) {
+        setProgress(await apiGet<GroupProgress>(`/groups/${id}/progress?lang=${lang}`))
+      }
+    } catch {
+      setGroup(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [id, lang])
+
+  useEffect(() => { loadGroup() }, [loadGroup])
+
+  useEffect(() => {
+    if (!group?.isOwner) return
+    apiGet<TopicTree[]>(`/topics/tree?lang=${lang}`)
+      .then(data => setCourses(Array.isArray(data) ? data : []))
+      .catch(() => setCourses([]))
+  }, [group?.isOwner, lang])
+
+  const copyCode = async () => {
+    if (!group?.joinCode) return
+    await navigator.clipboard.writeText(group.joinCode)
+    push({ type: 'success', msg: t('groups.codeCopied', 'Join code copied') })
+  }
+
+  const regenerateCode = async () => {
+    try {
+      const { joinCode } = await apiPost<{ joinCode: string }>(`/groups/${id}/code`)
+      setGroup(g => g && { ...g, joinCode })
+    } catch {
+      // Error toast is shown by the http client
+    }
+  }
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!topicId) return
+    setAssigning(true)
+    try {
+      await apiPost(`/groups/${id}/assignments`, {
+        topicId,
+        dueAt: dueAt ? new Date(`${dueAt}T23:59:59`).toISOString() : null,
+      })
+      setTopicId('')
+      setDueAt('')
+      await loadGroup()
+    } catch {
+      // Error toast is shown by the http client
+    } finally {
+      setAssigning(false)
+    }
+  }
+
+  const removeAssignment = async (assignmentId: string) => {
+    try {
+      await apiDelete(`/groups/${id}/assignments/${assignmentId}`)
+      await loadGroup()
+    } catch {
+      // Error toast is shown by the http client
+    }
+  }
+
+  const removeMember = async (userId: string) => {
+    try {
+      await apiDelete(`/groups/${id}/members/${userId}`)
+      await loadGroup()
+    } catch {
+      // Error toast is shown by the http client
+    }
+  }
+
+  const handleConfirm = async () => {
+    try {
+      if (confirm === 'delete') await apiDelete(`/groups/${id}`)
+      else await apiPost(`/groups/${id}/leave`)
+      nav('/groups')
+    } catch {
+      setConfirm(null)
+    }
+  }
+
+  if (loading) {
+    return <div className="card"><SkeletonList count={5} /></div>
+  }
+
+  if (!group) {
+    return (
+      <div className="card flex flex-col items-center justify-center py-16 text-center">
+        <Users size={40} className="text-neutral-300 dark:text-neutral-600 mb-3" />
+        <p className="text-neutral-500 mb-6">{t('groups.notFound', 'Group not found')}</p>
+        <Link to="/groups" className="btn btn-sm">{t('groups.back', 'All groups')}</Link>
+      </div>
+    )
+  }
+
+  const assignedIds = new Set(group.assignments.map(a => a.topicId))
+  const now = Date.now()
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-6">
+      <Link to="/groups" className="inline-flex items-center gap-1 text-sm text-neutral-500 hover:text-primary-600">
+        <ArrowLeft size={16} /> {t('groups.back', 'All groups')}
+      </Link>
+
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-neutral-900 dark:text-white">{group.name}</h1>
+          {group.description && <p className="text-neutral-500 dark:text-neutral-400 mt-1">{group.description}</p>}
+          {group.owner && (
+            <p className="text-xs text-neutral-400 mt-1">{t('groups.teacher', 'Teacher')}: {group.owner.name}</p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Link to={`/leaderboard?group=${group.id}`} className="btn-outline btn-sm flex items-center gap-1.5">
+            <Trophy size={16} /> {t('nav.leaderboard')}
+          </Link>
+          {group.isOwner ? (
+            <button onClick={() => setConfirm('delete')} className="btn-outline btn-sm flex items-center gap-1.5 text-red-600">
+              <Trash2 size={16} /> {t('groups.delete', 'Delete group')}
+            </button>
+          ) : (
+            <button onClick={() => setConfirm('leave')} className="btn-outline btn-sm flex items-center gap-1.5 text-red-600">
+              <LogOut size={16} /> {t('groups.leave', 'Leave group')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {group.isOwner && group.joinCode && (
+        <div className="card flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex-1">
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">{t('groups.shareCode', 'Students join with this code')}</p>
+            <p className="font-mono text-2xl font-bold tracking-[0.3em] text-neutral-900 dark:text-white">{group.joinCode}</p>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={copyCode} className="btn-outline btn-sm flex items-center gap-1.5">
+              <Copy size={16} /> {t('groups.copyCode', 'Copy')}
+            </button>
+            <button onClick={regenerateCode} className="btn-outline btn-sm flex items-center gap-1.5" title={t('groups.regenerateHint', 'The old code stops working')}>
+              <RefreshCw size={16} /> {t('groups.regenerateCode', 'New code')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Assignments */}
+      <div className="card space-y-4">
+        <h2 className="font-semibold text-neutral-900 dark:text-white">{t('groups.assignments', 'Assignments')}</h2>
+        {group.assignments.length === 0 ? (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">{t('groups.noAssignments', 'No courses assigned yet')}</p>
+        ) : (
+          <ul className="divide-y divide-neutral-100 dark:divide-neutral-800">
+            {group.assignments.map(a => {
+              const overdue = !!a.dueAt && new Date(a.dueAt).getTime() < now
+              return (
+                <li key={a.id} className="flex items-center gap-3 py-2.5">
+                  <Link to={`/materials?topic=${a.topicSlug}`} className="flex-1 font-medium text-neutral-900 dark:text-white hover:text-primary-600 truncate">
+                    {a.topicName}
+                  </Link>
+                  {a.dueAt && (
+                    <span className={`flex items-center gap-1 text-xs ${overdue ? 'text-red-600' : 'text-neutral-500'}`}>
+                      <CalendarClock size={14} />
+                      {t('groups.due', 'Due')} {new Date(a.dueAt).toLocaleDateString()}
+                    </span>
+                  )}
+                  {group.isOwner && (
+                    <button
+                      onClick={() => removeAssignment(a.id)}
+                      className="p-1.5 text-neutral-400 hover:text-red-600 rounded-lg"
+                      title={t('groups.removeAssignment', 'Remove assignment')}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        {group.isOwner && (
+          <form onSubmit={handleAssign} className="flex flex-col sm:flex-row gap-2 pt-2 border-t border-neutral-100 dark:border-neutral-800">
+            <select value={topicId} onChange={e => setTopicId(e.target.value)} className="input flex-1">
+              <option value="">{t('groups.selectCourse', 'Select a course')}</option>
+              {courses.filter(c => !assignedIds.has(c.id)).map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <input type="date" value={dueAt} onChange={e => setDueAt(e.target.value)} className="input" />
+            <LoadingButton type="submit" loading={assigning} disabled={!topicId} icon={<Plus size={16} />}>
+              {t('groups.assign', 'Assign')}
+            </LoadingButton>
+          </form>
+        )}
+      </div>
+
+      {/* Teacher view */}
+      {group.isOwner && progress && (
+        <div className="card space-y-4">
+          <h2 className="font-semibold text-neutral-900 dark:text-white">
+            {t('groups.progress', 'Member progress')} ({progress.members.length})
+          </h2>
+          {progress.members.length === 0 ? (
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">{t('groups.noMembers', 'Share the join code to add students')}</p>
+          ) : (
+            <div className="overflow-x-auto -mx-4 sm:mx-0">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase text-neutral-500 border-b border-neutral-100 dark:border-neutral-800">
+                    <th className="px-3 py-2 font-medium">{t('groups.member', 'Member')}</th>
+                    <th className="px-3 py-2 font-medium text-right">XP</th>
+                    <th className="px-3 py-2 font-medium text-right">{t('groups.quizAttempts', 'Quiz attempts')}</th>
+                    <th className="px-3 py-2 font-medium text-right">{t('groups.averageScore', 'Avg. score')}</th>
+                    <th className="px-3 py-2 font-medium text-right">{t('groups.materialsViewed', 'Materials')}</th>
+                    <th className="px-3 py-2 font-medium text-right">{t('groups.timeSpent', 'Time')}</th>
+                    <th className="px-3 py-2 font-medium">{t('groups.lastActive', 'Last active')}</th>
+                    {progress.assignments.map(a => (
+                      <th key={a.id} className="px-3 py-2 font-medium text-center max-w-[8rem] truncate" title={a.topicName}>
+                        {a.topicName}
+                      </th>
+                    ))}
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                  {progress.members.map(m => (
+                    <tr key={m.user.id}>
+                      <td className="px-3 py-2">
+                        <p className="font-medium text-neutral-900 dark:text-white">{m.user.name}</p>
+                        <p className="text-xs text-neutral-500">{m.user.email}</p>
+                      </td>
+                      <td className="px-3 py-2 text-right tabular-nums">{m.user.xp}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{m.quizAttempts}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{m.averageScore === null ? '—' : `${m.averageScore}%`}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{m.materialsViewed}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{formatDuration(m.timeSpent)}</td>
+                      <td className="px-3 py-2 text-neutral-500 whitespace-nowrap">
+                        {m.lastActiveAt ? new Date(m.lastActiveAt).toLocaleDateString() : '—'}
+                      </td>
+                      {m.assignments.map(a => (
+                        <td key={a.assignmentId} className="px-3 py-2 text-center">
+                          <span className={`inline-block min-w-[3rem] px-2 py-0.5 rounded-full text-xs font-semibold ${progressColor(a.progress, a.overdue)}`}>
+                            {a.progress}%
+                          </span>
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={() => removeMember(m.user.id)}
+                          className="p-1.5 text-neutral-400 hover:text-red-600 rounded-lg"
+                          title={t('groups.removeMember', 'Remove from group')}
+                        >
+                          <UserMinus size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirm !== null}
+        onClose={() => setConfirm(null)}
+        onConfirm={handleConfirm}
+        title={confirm === 'delete' ? t('groups.delete', 'Delete group') : t('groups.leave', 'Leave group')}
+        message={confirm === 'delete'
+          ? t('groups.deleteConfirm', 'Members and assignments of this group will be removed. Learning progress is kept.')
+          : t('groups.leaveConfirm', 'You can join again later with the join code.')}
+        variant="danger"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Users, Plus, LogIn, BookOpen, ChevronRight } from 'lucide-react'
+import { useAuth } from '@/auth/AuthContext'
+import { apiGet, apiPost } from '@/lib/http'
+import { useTranslation } from '@/i18n/useTranslation'
+import { useToast } from '@/components/Toast'
+import { SkeletonList } from '@/components/Skeletons'
+import { LoadingButton } from '@/components/LoadingButton'
+import InvitesManager from '@/components/InvitesManager'
+import type { GroupSummary } from '@packages/shared'
+
+export default function Groups() {
+  const { t } = useTranslation()
+  const { user } = useAuth()
+  const push = useToast(s => s.push)
+  const [groups, setGroups] = useState<GroupSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [joinCode, setJoinCode] = useState('')
+  const [joining, setJoining] = useState(false)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  const canCreate = user?.role === 'TEACHER' || user?.role === 'ADMIN'
+
+  const loadGroups = useCallback(async () => {
+    try {
+      const data = await apiGet<GroupSummary[]>('/groups')
+      setGroups(Array.isArray(data) ? data : [])
+    } catch {
+      setGroups([])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { loadGroups() }, [loadGroups])
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!joinCode.trim()) return
+    setJoining(true)
+    try {
+      const group = await apiPost<{ id: string; name: string }>('/groups/join', { code: joinCode.trim() })
+      push({ type: 'success', msg: t('groups.joined', 'You joined {name}').replace('{name}', group.name) })
+      setJoinCode('')
+      await loadGroups()
+    } catch {
+      // Error toast is shown by the http client
+    } finally {
+      setJoining(false)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    setCreating(true)
+    try {
+      await apiPost('/groups', { name: name.trim(), description: description.trim() || undefined })
+      setName('')
+      setDescription('')
+      await loadGroups()
+    } catch {
+      // Error toast is shown by the http client
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 sm:space-y-8 animate-in fade-in duration-500 pb-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-display font-bold text-neutral-900 dark:text-white">
+          {t('groups.title', 'Groups')}
+        </h1>
+        <p className="text-sm sm:text-base text-neutral-500 dark:text-neutral-400 mt-1">
+          {t('groups.subtitle', 'Classes you teach or take part in')}
+        </p>
+      </div>
+
+      <div className={`grid gap-4 ${canCreate ? 'md:grid-cols-2' : ''}`}>
+        <form onSubmit={handleJoin} className="card space-y-3">
+          <h2 className="font-semibold flex items-center gap-2 text-neutral-900 dark:text-white">
+            <LogIn size={18} className="text-primary-600" /> {t('groups.join', 'Join a group')}
+          </h2>
+          <div className="flex gap-2">
+            <input
+              value={joinCode}
+              onChange={e => setJoinCode(e.target.value.toUpperCase())}
+              placeholder={t('groups.codePlaceholder', 'Join code')}
+              maxLength={20}
+              className="input flex-1 font-mono tracking-widest uppercase"
+            />
+            <LoadingButton type="submit" loading={joining} disabled={!joinCode.trim()}>
+              {t('groups.joinAction', 'Join')}
+            </LoadingButton>
+          </div>
+        </form>
+
+        {canCreate && (
+          <form onSubmit={handleCreate} className="card space-y-3">
+            <h2 className="font-semibold flex items-center gap-2 text-neutral-900 dark:text-white">
+              <Plus size={18} className="text-primary-600" /> {t('groups.create', 'Create a group')}
+            </h2>
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder={t('groups.namePlaceholder', 'Group name')}
+              maxLength={100}
+              className="input w-full"
+            />
+            <textarea
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder={t('groups.descriptionPlaceholder', 'Description (optional)')}
+              maxLength={1000}
+              rows={2}
+              className="input w-full"
+            />
+            <LoadingButton type="submit" loading={creating} disabled={!name.trim()}>
+              {t('groups.createAction', 'Create')}
+            </LoadingButton>
+          </form>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="card"><SkeletonList count={4} /></div>
+      ) : groups.length === 0 ? (
+        <div className="card flex flex-col items-center justify-center py-12 text-center">
+          <Users size={40} className="text-neutral-300 dark:text-neutral-600 mb-3" />
+          <p className="text-neutral-500 dark:text-neutral-400">{t('groups.empty', 'You are not in any group yet')}</p>
+        </div>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {groups.map(group => (
+            <Link
+              key={group.id}
+              to={`/groups/${group.id}`}
+              className="card flex items-center gap-4 hover:border-primary-300 dark:hover:border-primary-700 transition-colors"
+            >
+              <div className="w-11 h-11 rounded-xl bg-primary-50 dark:bg-primary-900/30 text-primary-600 flex items-center justify-center shrink-0">
+                <Users size={22} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-semibold text-neutral-900 dark:text-white truncate">{group.name}</p>
+                  {group.isOwner && (
+                    <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300">
+                      {t('groups.owner', 'Owner')}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-0.5 flex items-center gap-3">
+                  <span className="flex items-center gap-1"><Users size={12} /> {group.memberCount}</span>
+                  <span className="flex items-center gap-1"><BookOpen size={12} /> {group.assignmentCount}</span>
+                  {!group.isOwner && <span className="truncate">{group.owner.name}</span>}
+                </p>
+              </div>
+              <ChevronRight size={18} className="text-neutral-400" />
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* Teachers invite their students here; admins use the admin panel */}
+      {user?.role === 'TEACHER' && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-display font-semibold text-neutral-900 dark:text-white">
+            {t('invites.teacherTitle', 'Invite students')}
+          </h2>
+          <InvitesManager />
+        </section>
+      )}
+    </div>
+  )
+}
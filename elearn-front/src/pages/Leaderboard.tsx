@@ -1,10 +1,12 @@
 import { useEffect, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { Trophy, Medal, Award, Crown, Star, Flame } from 'lucide-react'
 import { useAuth } from '@/auth/AuthContext'
 import { api } from '@/lib/http'
 import { useTranslation } from '@/i18n/useTranslation'
 import { SkeletonList } from '@/components/Skeletons'
 import type { TranslationKey } from '@/i18n/types'
+import type { AchievementSummary, GroupSummary } from '@packages/shared'
 
 interface LeaderboardUser {
   id: string
@@ -13,6 +15,8 @@ interface LeaderboardUser {
   rank: number
   level: number
   badges: string[]
+  achievements: AchievementSummary[]
+  achievementsCount: number
   createdAt: string
 }
 
@@ -36,11 +40,20 @@ const BADGE_INFO: Record<string, BadgeConfig> = {
 }
 
 export default function Leaderboard() {
-  const { t } = useTranslation()
+  const { t, lang } = useTranslation()
   const { user } = useAuth()
   const [leaderboard, setLeaderboard] = useState<LeaderboardUser[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [groups, setGroups] = useState<GroupSummary[]>([])
+  const [searchParams, setSearchParams] = useSearchParams()
+  const groupId = searchParams.get('group')
+
+  useEffect(() => {
+    api<GroupSummary[]>('/groups')
+      .then(data => setGroups(Array.isArray(data) ? data : []))
+      .catch(() => setGroups([]))
+  }, [])
 
   useEffect(() => {
     let mounted = true
@@ -51,7 +64,10 @@ export default function Leaderboard() {
         setLoading(true)
         setError(null)
         // Використовуємо новий api клієнт
-        const data = await api<LeaderboardUser[]>('/auth/leaderboard?limit=50', {
+        const url = groupId
+          ? `/groups/${groupId}/leaderboard?lang=${lang}`
+          : `/auth/leaderboard?limit=50&lang=${lang}`
+        const data = await api<LeaderboardUser[]>(url, {
           signal: controller.signal,
         })
         if (mounted) {
@@ -77,7 +93,7 @@ export default function Leaderboard() {
       mounted = false
       controller.abort()
     }
-  }, []) // Empty dependency - fetch once on mount
+  }, [lang, groupId]) // Refetch on language change (achievement names are localized)
 
   const getRankStyle = (rank: number) => {
     if (rank === 1) return 'bg-gradient-to-r from-yellow-400 to-amber-500 text-white shadow-lg shadow-amber-500/30'
@@ -127,8 +143,20 @@ export default function Leaderboard() {
             {t('leaderboard.subtitle', 'Top learners this week')}
           </p>
         </div>
-        <div className="px-3 py-2 sm:py-1 bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 rounded-full text-xs sm:text-sm font-medium whitespace-nowrap self-start sm:self-auto">
-          {leaderboard.length} {t('leaderboard.participants', 'participants')}
+        <div className="flex items-center gap-2 self-start sm:self-auto">
+          {groups.length > 0 && (
+            <select
+              value={groupId ?? ''}
+              onChange={e => setSearchParams(e.target.value ? { group: e.target.value } : {})}
+              className="input py-1.5 text-sm"
+            >
+              <option value="">{t('leaderboard.global', 'Everyone')}</option>
+              {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+            </select>
+          )}
+          <div className="px-3 py-2 sm:py-1 bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 rounded-full text-xs sm:text-sm font-medium whitespace-nowrap">
+            {leaderboard.length} {t('leaderboard.participants', 'participants')}
+          </div>
         </div>
       </div>
 
@@ -208,6 +236,7 @@ export default function Leaderboard() {
                 <th className="py-3 px-4 font-semibold text-xs text-neutral-500 uppercase tracking-wider text-center w-24">{t('leaderboard.level', 'Level')}</th>
                 <th className="py-3 px-4 font-semibold text-xs text-neutral-500 uppercase tracking-wider text-right w-32">XP</th>
                 <th className="py-3 px-4 font-semibold text-xs text-neutral-500 uppercase tracking-wider hidden md:table-cell w-48">{t('leaderboard.badges', 'Badges')}</th>
+                <th className="py-3 px-4 font-semibold text-xs text-neutral-500 uppercase tracking-wider hidden lg:table-cell w-40">{t('leaderboard.achievements', 'Achievements')}</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
@@ -271,13 +300,27 @@ export default function Leaderboard() {
                         )}
                       </div>
                     </td>
+                    <td className="py-3 px-4 hidden lg:table-cell">
+                      <div className="flex items-center gap-1">
+                        {(u.achievements ?? []).map(a => (
+                          <span key={a.code} className="text-lg hover:scale-110 transition-transform cursor-help" title={a.name}>
+                            {a.icon}
+                          </span>
+                        ))}
+                        {u.achievementsCount > (u.achievements ?? []).length && (
+                          <span className="flex items-center justify-center w-7 h-7 rounded-lg bg-neutral-100 dark:bg-neutral-800 text-xs font-medium text-neutral-500">
+                            +{u.achievementsCount - u.achievements.length}
+                          </span>
+                        )}
+                      </div>
+                    </td>
                   </tr>
                 )
               })}
               
               {leaderboard.length === 0 && (
                 <tr>
-                  <td colSpan={5} className="py-12 text-center text-neutral-500">
+                  <td colSpan={6} className="py-12 text-center text-neutral-500">
                     <Trophy size={48} className="mx-auto mb-4 opacity-20" />
                     <p>{t('leaderboard.error.loadFailed', 'Leaderboard is empty')}</p>
                   </td>
@@ -3,16 +3,17 @@ import { useParams, useNavigate } from 'react-router-dom'
 import confetti from 'canvas-confetti'
 import { 
   ChevronRight, Play, FileText, Video, Link as LinkIcon, Code, 
-  CheckCircle, XCircle, Timer, Lightbulb, ListChecks, Loader2 
+  CheckCircle, XCircle, Timer, Lightbulb, ListChecks, Loader2, Layers 
 } from 'lucide-react'
 
 import { useTranslation } from '@/i18n/useTranslation'
 import { api } from '@/lib/http'
+import FlashcardDeck from '@/components/FlashcardDeck'
 import type { Material } from '@packages/shared'
 
 // --- Types ---
 
-type ContentType = 'text' | 'video' | 'quiz' | 'code' | 'pdf' | 'link'
+type ContentType = 'text' | 'video' | 'quiz' | 'code' | 'pdf' | 'link' | 'flashcards'
 type Mode = 'practice' | 'exam'
 
 interface LessonData extends Material {
@@ -267,6 +268,7 @@ export default function LessonView() {
         
         // Auto-select tab based on type
         if (data.type === 'video') setActiveTab('video')
+        else if (data.type === 'flashcards') setActiveTab('flashcards')
         else if ((data as any).type === 'quiz') setActiveTab('quiz')
         else setActiveTab('text')
         
@@ -290,6 +292,10 @@ export default function LessonView() {
     { icon: Video, label: t('lesson.content.video', 'Video'), type: 'video' as ContentType },
     { icon: Code, label: t('lesson.content.quiz', 'Quiz'), type: 'quiz' as ContentType },
     { icon: Code, label: t('lesson.content.code', 'Code'), type: 'code' as ContentType },
+    // Flashcard study mode only for flashcards materials (their text tab shows the term list)
+    ...(lesson?.type === 'flashcards'
+      ? [{ icon: Layers, label: t('lesson.content.flashcards', 'Flashcards'), type: 'flashcards' as ContentType }]
+      : []),
   ]
 
   if (loading) return (
@@ -374,6 +380,13 @@ export default function LessonView() {
             </div>
           )}
 
+          {activeTab === 'flashcards' && (
+            <div className="card space-y-4 animate-in fade-in duration-300">
+              <h2 className="text-2xl font-bold">{lesson.title}</h2>
+              <FlashcardDeck html={lesson.content || ''} />
+            </div>
+          )}
+
           {activeTab === 'quiz' && <QuizView mode={quizMode} setMode={setQuizMode} />}
           
           {activeTab === 'code' && <CodeView />}
@@ -1,24 +1,34 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { useNavigate, useLocation, Link } from 'react-router-dom'
-import { LogIn, AlertCircle } from 'lucide-react'
+import { LogIn, AlertCircle, ShieldCheck, ArrowLeft } from 'lucide-react'
 
-import { useAuth } from '@/auth/AuthContext'
+import { useAuth, type TwoFactorChallenge } from '@/auth/AuthContext'
 import { useTranslation } from '@/i18n/useTranslation'
+import { apiPost } from '@/lib/http'
 import PasswordInput from '@/components/PasswordInput'
 import LanguageSelector from '@/components/LanguageSelector'
 import { LoadingButton } from '@/components/LoadingButton'
+import { RecoveryCodesList, TwoFactorQr, type TwoFactorSetup } from '@/components/TwoFactor'
+import OidcButtons from '@/components/OidcButtons'
 
 interface LocationState {
   from?: { pathname: string }
+  /** Second step after signing in with a provider (see OidcCallback) */
+  twoFactor?: TwoFactorChallenge
 }
 
 export default function LoginPage() {
-  const { login } = useAuth()
-  const { t } = useTranslation()
+  const { login, completeTwoFactorLogin } = useAuth()
+  const { t, lang } = useTranslation()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [err, setErr] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
+  // Second step: code from the authenticator app (or enrolment when 2FA is required for the role)
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null)
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
   
   const nav = useNavigate()
   const loc = useLocation()
@@ -26,25 +36,100 @@ export default function LoginPage() {
   // Redirect back to where they came from, or to dashboard
   const from = state?.from?.pathname || '/'
 
+  useEffect(() => {
+    if (state?.twoFactor) {
+      beginSecondStep(state.twoFactor).catch((error: unknown) => {
+        setErr(error instanceof Error ? error.message : t('auth.error.loginFailed', 'Login failed'))
+      })
+    }
+  }, [])
+
+  async function beginSecondStep(next: TwoFactorChallenge) {
+    if (next.twoFactor === 'setup') {
+      setSetup(await apiPost<TwoFactorSetup>('/auth/login/2fa/setup', { challengeToken: next.challengeToken }))
+    }
+    setChallenge(next)
+  }
+
+  // Server refuses the attempt after repeated wrong passwords: backoff delay or temporary lock
+  function lockoutMessage(error: any): string | null {
+    const body = error?.response?.data?.error
+    if (body?.code === 'ACCOUNT_LOCKED' && body.details?.lockedUntil) {
+      const locale = lang === 'UA' ? 'uk-UA' : lang === 'PL' ? 'pl-PL' : 'en-US'
+      const until = new Date(body.details.lockedUntil).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })
+      return t('auth.lockout.locked', 'Too many failed attempts. Sign-in is locked until {time}; check your email for an unlock link.').replace('{time}', until)
+    }
+    if (body?.code === 'RATE_LIMITED' && body.details?.retryAfter) {
+      return t('auth.lockout.wait', 'Too many failed attempts. Try again in {seconds} s.').replace('{seconds}', String(body.details.retryAfter))
+    }
+    return null
+  }
+
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault()
     setErr(null)
     setLoading(true)
     
     try {
-      await login(email, password)
-      // Don't navigate immediately - wait a bit to ensure state is updated
-      // This prevents the error boundary from catching during navigation
-      setTimeout(() => {
-        nav(from, { replace: true })
-      }, 150)
+      const next = await login(email, password)
+      if (next) {
+        await beginSecondStep(next)
+        setLoading(false)
+        return
+      }
+      goBack()
+    } catch (error: unknown) {
+      const message = lockoutMessage(error) ?? (error instanceof Error ? error.message : t('auth.error.loginFailed', 'Login failed'))
+      setErr(message)
+      setLoading(false)
+    }
+  }
+
+  async function onSubmitCode(e: React.FormEvent) {
+    e.preventDefault()
+    if (!challenge) return
+    setErr(null)
+    setLoading(true)
+
+    try {
+      const codes = await completeTwoFactorLogin(challenge.challengeToken, code)
+      if (codes?.length) {
+        // Just enrolled: show the recovery codes before leaving
+        setRecoveryCodes(codes)
+        setLoading(false)
+        return
+      }
+      goBack()
     } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : t('auth.error.loginFailed', 'Login failed')
+      const message = error instanceof Error ? error.message : t('auth.twoFactor.invalidCode', 'Invalid code')
       setErr(message)
       setLoading(false)
     }
   }
 
+  function goBack() {
+    // Don't navigate immediately - wait a bit to ensure state is updated
+    // This prevents the error boundary from catching during navigation
+    setTimeout(() => {
+      nav(from, { replace: true })
+    }, 150)
+  }
+
+  function restart() {
+    setChallenge(null)
+    setSetup(null)
+    setCode('')
+    setPassword('')
+    setErr(null)
+  }
+
+  const errorBox = err && (
+    <div className="mt-6 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 flex items-start gap-3">
+      <AlertCircle size={18} className="text-red-600 dark:text-red-400 shrink-0 mt-0.5" />
+      <p className="text-sm text-red-600 dark:text-red-400 font-medium">{err}</p>
+    </div>
+  )
+
   return (
     <div className="min-h-screen flex flex-col bg-neutral-50 dark:bg-neutral-950">
       {/* Top bar */}
@@ -63,6 +148,70 @@ export default function LoginPage() {
       {/* Form Container */}
       <div className="flex-1 flex items-center justify-center p-4 pt-20">
         <div className="w-full max-w-md animate-in fade-in zoom-in-95 duration-300">
+          {recoveryCodes ? (
+            <div className="card shadow-2xl border-t-4 border-t-primary-500 space-y-6">
+              <div className="text-center">
+                <h2 className="text-2xl font-display font-bold text-neutral-900 dark:text-white">
+                  {t('auth.twoFactor.enabled', 'Two-factor authentication is on')}
+                </h2>
+              </div>
+              <RecoveryCodesList codes={recoveryCodes} />
+              <button type="button" onClick={goBack} className="btn w-full py-3 text-base">
+                {t('auth.twoFactor.continue', 'Continue')}
+              </button>
+            </div>
+          ) : challenge ? (
+            <form onSubmit={onSubmitCode} className="card shadow-2xl border-t-4 border-t-primary-500">
+              <div className="text-center mb-8">
+                <h2 className="text-2xl font-display font-bold text-neutral-900 dark:text-white">
+                  {challenge.twoFactor === 'setup'
+                    ? t('auth.twoFactor.setupTitle', 'Set up two-factor authentication')
+                    : t('auth.twoFactor.title', 'Two-factor authentication')}
+                </h2>
+                <p className="text-sm text-neutral-500 mt-2">
+                  {challenge.twoFactor === 'setup'
+                    ? t('auth.twoFactor.setupRequired', 'Your role requires two-factor authentication. Connect an authenticator app to continue.')
+                    : t('auth.twoFactor.enterCode', 'Enter the 6-digit code from your authenticator app, or one of your recovery codes.')}
+                </p>
+              </div>
+
+              {setup && <div className="mb-6"><TwoFactorQr setup={setup} /></div>}
+
+              <label className="block mb-1.5 text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                {t('auth.twoFactor.code', 'Authentication code')}
+              </label>
+              <input
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                className="w-full rounded-xl border px-3 py-3 bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800 focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 transition-all outline-none font-mono tracking-widest text-center text-lg"
+                placeholder="123456"
+                required
+                autoFocus
+                disabled={loading}
+                autoComplete="one-time-code"
+                inputMode={challenge.twoFactor === 'setup' ? 'numeric' : 'text'}
+              />
+
+              {errorBox}
+
+              <LoadingButton
+                type="submit"
+                loading={loading}
+                className="w-full mt-6 py-3 text-base"
+                icon={<ShieldCheck size={18} />}
+              >
+                {t('auth.twoFactor.verify', 'Verify')}
+              </LoadingButton>
+
+              <button
+                type="button"
+                onClick={restart}
+                className="mt-4 w-full flex items-center justify-center gap-1.5 text-sm text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+              >
+                <ArrowLeft size={14} /> {t('auth.twoFactor.back', 'Back to sign in')}
+              </button>
+            </form>
+          ) : (
           <form onSubmit={onSubmit} className="card shadow-2xl border-t-4 border-t-primary-500">
             <div className="text-center mb-8">
               <h2 className="text-2xl font-display font-bold text-neutral-900 dark:text-white">
@@ -107,12 +256,7 @@ export default function LoginPage() {
               </div>
             </div>
             
-            {err && (
-              <div className="mt-6 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 flex items-start gap-3">
-                <AlertCircle size={18} className="text-red-600 dark:text-red-400 shrink-0 mt-0.5" />
-                <p className="text-sm text-red-600 dark:text-red-400 font-medium">{err}</p>
-              </div>
-            )}
+            {errorBox}
             
             <LoadingButton 
               type="submit" 
@@ -122,6 +266,8 @@ export default function LoginPage() {
             >
               {t('auth.signIn', 'Sign In')}
             </LoadingButton>
+
+            <OidcButtons returnTo={from} disabled={loading} />
             
             <div className="mt-6 text-center text-sm text-neutral-600 dark:text-neutral-400">
               {t('auth.noAccount', "Don't have an account?")}{' '}
@@ -133,6 +279,7 @@ export default function LoginPage() {
               </Link>
             </div>
           </form>
+          )}
           
           <p className="text-center text-xs text-neutral-400 mt-8">
             &copy; {new Date().getFullYear()} {t('app.name', 'E-Learn')}. {t('auth.privacyPolicy', 'Privacy Policy')}
@@ -3,8 +3,8 @@ import { useSearchParams } from 'react-router-dom'
 
 import useCatalogStore from '@/store/catalog'
 import { useTranslation } from '@/i18n/useTranslation'
-import { apiPost } from '@/lib/http'
-import type { Category } from '@packages/shared'
+import { apiGet, apiPost } from '@/lib/http'
+import type { Category, Certificate, PathProgress, PathNextItem } from '@packages/shared'
 
 import {
   DEFAULT_CAT,
@@ -18,8 +18,9 @@ import {
 import { MaterialsHeader } from '@/pages/materialsComponents/MaterialsHeader'
 import { TopicView } from '@/pages/materialsComponents/TopicView'
 import { CardSkeleton } from '@/components/Skeletons'
+import { isStudyAid } from '@/utils/studyAids'
 
-export type Tab = 'ALL' | 'PDF' | 'VIDEO' | 'TEXT' | 'LINK'
+export type Tab = 'ALL' | 'PDF' | 'VIDEO' | 'TEXT' | 'LINK' | 'STUDY' // STUDY: AI study aids
 
 export default function Materials() {
   const { topics: roots, loadTopics, loading } = useCatalogStore()
@@ -38,6 +39,9 @@ export default function Materials() {
   // Material viewer modal
   const [selectedMaterial, setSelectedMaterial] = useState<Material | null>(null)
   const [materialModalOpen, setMaterialModalOpen] = useState(false)
+
+  // Learning path state of the active root topic
+  const [pathProgress, setPathProgress] = useState<PathProgress | null>(null)
   
   // Load topics on mount/lang change (force fresh data)
   useEffect(() => {
@@ -118,6 +122,24 @@ export default function Materials() {
 
   const isDashboardView = !activeTopic
 
+  const activeTopicSlug = activeTopic?.slug
+  const loadPathProgress = useCallback(async () => {
+    if (!activeTopicSlug) {
+      setPathProgress(null)
+      return
+    }
+    try {
+      setPathProgress(await apiGet<PathProgress>(`/paths/${activeTopicSlug}/progress?lang=${lang}`))
+    } catch (e) {
+      console.error('Failed to load path progress', e)
+      setPathProgress(null)
+    }
+  }, [activeTopicSlug, lang])
+
+  useEffect(() => {
+    loadPathProgress()
+  }, [loadPathProgress])
+
   // --- Handlers ---
 
   const filteredMaterials = useCallback((list: Material[] | undefined | null) => {
@@ -131,7 +153,7 @@ export default function Materials() {
     
     // Filter by Tab
     if (tab !== 'ALL') {
-      result = result.filter((m) => m.type.toUpperCase() === tab)
+      result = result.filter((m) => tab === 'STUDY' ? isStudyAid(m.type) : m.type.toUpperCase() === tab)
     }
     
     // Filter by Query
@@ -149,7 +171,7 @@ export default function Materials() {
     
     // Mark material as seen on backend
     try {
-      await apiPost('/progress/viewed', { materialId: material.id })
+      await apiPost('/progress/viewed', { materialId: material.id, lang })
     } catch (e) {
       console.error('Failed to mark material as complete', e)
       // Reload topics to ensure consistency if API call failed
@@ -160,7 +182,40 @@ export default function Materials() {
     // Open material in modal
     setSelectedMaterial(material)
     setMaterialModalOpen(true)
-  }, [loadTopics, lang])
+    loadPathProgress()
+  }, [loadTopics, lang, loadPathProgress])
+
+  const handleEnroll = useCallback(async () => {
+    if (!activeTopicSlug) return
+    try {
+      await apiPost(`/paths/${activeTopicSlug}/enroll`)
+      await loadPathProgress()
+    } catch (e) {
+      console.error('Failed to enroll', e)
+    }
+  }, [activeTopicSlug, loadPathProgress])
+
+  const handleGetCertificate = useCallback(async () => {
+    if (!activeTopicSlug) return
+    try {
+      const certificate = await apiPost<Certificate>('/certificates', { slug: activeTopicSlug, lang })
+      const { url } = await apiGet<{ url: string }>(`/certificates/${certificate.code}/download`)
+      window.open(url, '_blank', 'noopener')
+    } catch (e) {
+      console.error('Failed to get certificate', e)
+    }
+  }, [activeTopicSlug, lang])
+
+  // Jump to the next unfinished step: open the material, or show the lesson with the quiz
+  const handleContinue = useCallback((next: PathNextItem) => {
+    if (!activeTopic) return
+    setActiveSubId(next.topicId === activeTopic.id ? null : next.topicId)
+    if (next.type !== 'material') return
+
+    const topics = [activeTopic, ...(activeTopic.children || [])] as TopicNode[]
+    const material = topics.flatMap((t) => t.materials || []).find((m) => m.id === next.id)
+    if (material) handleOpenMaterial(material)
+  }, [activeTopic, handleOpenMaterial])
 
   return (
     <>
@@ -183,6 +238,7 @@ export default function Materials() {
               activeTopicId={activeTopicId}
               activeSubId={activeSubId}
               loading={loading}
+              pathProgress={pathProgress}
               onSelectTopic={setActiveTopicId}
               onSelectSub={(topicId, subId) => {
                 setActiveTopicId(topicId)
@@ -198,6 +254,7 @@ export default function Materials() {
               activeTopicId={activeTopicId}
               activeSubId={activeSubId}
               loading={loading}
+              pathProgress={pathProgress}
               onSelectTopic={setActiveTopicId}
               onSelectSub={(topicId, subId) => {
                 setActiveTopicId(topicId)
@@ -226,6 +283,10 @@ export default function Materials() {
                   setQuery={setQuery}
                   filteredMaterials={filteredMaterials}
                   openMaterial={handleOpenMaterial}
+                  pathProgress={pathProgress}
+                  onEnroll={handleEnroll}
+                  onContinue={handleContinue}
+                  onGetCertificate={handleGetCertificate}
                 />
               )}
             </main>
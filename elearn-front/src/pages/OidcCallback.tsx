@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { Loader2, XCircle } from 'lucide-react'
+import { useAuth } from '@/auth/AuthContext'
+import { useTranslation } from '@/i18n/useTranslation'
+import { useToast } from '@/components/Toast'
+import { takeOidcSession } from '@/lib/oidc'
+
+// Public page the OIDC provider redirects back to (FRONTEND_URL/auth/callback/:provider)
+export default function OidcCallback() {
+  const { provider = '' } = useParams()
+  const [params] = useSearchParams()
+  const { user, completeOidcSignIn } = useAuth()
+  const { t } = useTranslation()
+  const { push } = useToast()
+  const nav = useNavigate()
+  const [error, setError] = useState<string | null>(null)
+  // The sign-in request is single use: don't send it twice (React StrictMode)
+  const started = useRef(false)
+
+  useEffect(() => {
+    if (started.current) return
+    started.current = true
+
+    const { browserKey, returnTo } = takeOidcSession()
+    const code = params.get('code')
+    const state = params.get('state')
+    if (params.get('error')) {
+      setError(params.get('error_description') || t('auth.oidc.cancelled', 'Sign-in was cancelled'))
+      return
+    }
+    if (!code || !state || !browserKey) {
+      setError(t('auth.oidc.expired', 'The sign-in link is invalid or has expired. Please try again.'))
+      return
+    }
+
+    completeOidcSignIn(provider, { code, state, browserKey })
+      .then(outcome => {
+        if (outcome && 'linked' in outcome) {
+          push({ type: 'success', msg: t('auth.oidc.linked', 'Sign-in provider linked') })
+          nav(returnTo, { replace: true })
+        } else if (outcome) {
+          nav('/login', { replace: true, state: { twoFactor: outcome, from: { pathname: returnTo } } })
+        } else {
+          // Same delay as the password login, so the auth state settles before navigating
+          setTimeout(() => nav(returnTo, { replace: true }), 150)
+        }
+      })
+      .catch((e: unknown) => {
+        setError(e instanceof Error ? e.message : t('auth.error.loginFailed', 'Login failed'))
+      })
+  }, [])
+
+  return (
+    <div className="flex-1 flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-6 sm:p-8 shadow-sm text-center space-y-5">
+        {error ? (
+          <>
+            <XCircle size={48} className="mx-auto text-red-500" />
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">{error}</p>
+            <Link to={user ? '/profile' : '/login'} className="btn inline-flex">
+              {user ? t('auth.oidc.backToProfile', 'Back to profile') : t('auth.twoFactor.back', 'Back to sign in')}
+            </Link>
+          </>
+        ) : (
+          <>
+            <Loader2 size={32} className="mx-auto animate-spin text-primary-600" />
+            <p className="text-sm text-neutral-500">{t('auth.oidc.signingIn', 'Signing you in…')}</p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
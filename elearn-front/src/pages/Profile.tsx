@@ -1,16 +1,20 @@
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Settings, Palette, Sun, Moon, Lock, Camera, Trash2, AlertTriangle, User, CheckCircle, AlertCircle } from 'lucide-react'
+import { Settings, Palette, Sun, Moon, Lock, Camera, Trash2, AlertTriangle, User, CheckCircle, AlertCircle, Award, Download } from 'lucide-react'
 
 import { useAuth } from '@/auth/AuthContext'
 import { useTheme } from '@/store/theme'
 import { useTranslation } from '@/i18n/useTranslation'
-import { apiPost, apiDelete, apiPut } from '@/lib/http'
+import { apiGet, apiPost, apiDelete, apiPut } from '@/lib/http'
+import type { Achievement, Certificate } from '@packages/shared'
 
 import PasswordInput from '@/components/PasswordInput'
 import ConfirmDialog from '@/components/ConfirmDialog'
 import { LoadingButton } from '@/components/LoadingButton'
 import { SkeletonAvatar } from '@/components/Skeletons'
+import TwoFactorSettings from '@/components/TwoFactorSettings'
+import LinkedAccounts from '@/components/LinkedAccounts'
+import ActiveSessions from '@/components/ActiveSessions'
 
 // --- SUB-COMPONENTS ---
 
@@ -95,7 +99,7 @@ function ProfileHeader({ user, onUpload, onDeleteAvatar, uploading }: { user: an
 export default function Profile() {
   const { user, refresh, logout } = useAuth()
   const { theme, toggle } = useTheme()
-  const { t } = useTranslation()
+  const { t, lang } = useTranslation()
   const navigate = useNavigate()
   
   // States
@@ -119,6 +123,36 @@ export default function Profile() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [deleteLoading, setDeleteLoading] = useState(false)
 
+  const [achievements, setAchievements] = useState<Achievement[]>([])
+  const [certificates, setCertificates] = useState<Certificate[]>([])
+
+  useEffect(() => {
+    if (!user) return
+    let mounted = true
+    apiGet<Achievement[]>(`/achievements?lang=${lang}`)
+      .then(data => { if (mounted) setAchievements(Array.isArray(data) ? data : []) })
+      .catch(() => { if (mounted) setAchievements([]) })
+    return () => { mounted = false }
+  }, [lang, user?.id])
+
+  useEffect(() => {
+    if (!user) return
+    let mounted = true
+    apiGet<Certificate[]>('/certificates')
+      .then(data => { if (mounted) setCertificates(Array.isArray(data) ? data : []) })
+      .catch(() => { if (mounted) setCertificates([]) })
+    return () => { mounted = false }
+  }, [user?.id])
+
+  const downloadCertificate = async (code: string) => {
+    try {
+      const { url } = await apiGet<{ url: string }>(`/certificates/${code}/download`)
+      window.open(url, '_blank', 'noopener')
+    } catch (e) {
+      console.error('Failed to download certificate', e)
+    }
+  }
+
   if (!user) return (
     <div className="card p-8">
       <SkeletonAvatar size={80} className="mb-6" />
@@ -322,6 +356,81 @@ export default function Profile() {
               ))}
             </div>
           </div>
+
+          <div className="border-t border-neutral-100 dark:border-neutral-800 pt-6 mt-6">
+            <h4 className="text-sm font-semibold text-neutral-500 uppercase tracking-wider mb-4">
+              {t('profile.achievements', 'Achievements')} ({achievements.filter(a => a.unlocked).length}/{achievements.length})
+            </h4>
+            {achievements.length === 0 ? (
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">{t('profile.achievementsEmpty', 'No achievements yet')}</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {achievements.map(a => (
+                  <div
+                    key={a.code}
+                    className={`flex items-start gap-3 p-3 rounded-xl border transition-all ${
+                      a.unlocked
+                        ? 'bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20 border-amber-200 dark:border-amber-800'
+                        : 'bg-neutral-50 dark:bg-neutral-800/50 border-neutral-200 dark:border-neutral-700'
+                    }`}
+                  >
+                    <span className={`text-2xl shrink-0 ${a.unlocked ? '' : 'grayscale opacity-50'}`}>{a.unlocked ? a.icon : '🔒'}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className={`text-sm font-semibold truncate ${a.unlocked ? 'text-amber-900 dark:text-amber-100' : 'text-neutral-700 dark:text-neutral-300'}`}>
+                          {a.name}
+                        </span>
+                        {a.xpReward > 0 && (
+                          <span className="text-[10px] font-bold text-amber-600 dark:text-amber-400 shrink-0">+{a.xpReward} XP</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-neutral-500 dark:text-neutral-400">{a.description}</p>
+                      {a.unlocked && a.unlockedAt ? (
+                        <p className="text-[10px] text-amber-700/70 dark:text-amber-300/60 mt-1">{new Date(a.unlockedAt).toLocaleDateString()}</p>
+                      ) : a.target > 1 && (
+                        <div className="flex items-center gap-2 mt-1.5">
+                          <div className="flex-1 h-1.5 bg-neutral-200 dark:bg-neutral-700 rounded-full overflow-hidden">
+                            <div className="h-full bg-primary-500 rounded-full" style={{ width: `${Math.round((a.progress / a.target) * 100)}%` }} />
+                          </div>
+                          <span className="text-[10px] text-neutral-500 tabular-nums">{a.progress}/{a.target}</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-neutral-100 dark:border-neutral-800 pt-6 mt-6">
+            <h4 className="text-sm font-semibold text-neutral-500 uppercase tracking-wider mb-4">
+              {t('certificate.title', 'Certificates')} ({certificates.length})
+            </h4>
+            {certificates.length === 0 ? (
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">{t('certificate.empty', 'Complete a course to earn a certificate')}</p>
+            ) : (
+              <div className="space-y-2">
+                {certificates.map(c => (
+                  <div key={c.code} className="flex items-center gap-3 p-3 rounded-xl border border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800/50">
+                    <Award size={22} className="text-primary-600 dark:text-primary-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-semibold text-neutral-900 dark:text-white truncate">{c.topicName}</div>
+                      <a href={c.verifyUrl} target="_blank" rel="noreferrer" className="text-[11px] font-mono text-neutral-500 hover:text-primary-600">
+                        {c.code} · {new Date(c.issuedAt).toLocaleDateString()}
+                      </a>
+                    </div>
+                    <button
+                      onClick={() => downloadCertificate(c.code)}
+                      className="btn-outline text-xs px-3 py-1.5 inline-flex items-center gap-1.5 shrink-0"
+                    >
+                      <Download size={14} />
+                      {t('certificate.download', 'Download PDF')}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </section>
 
@@ -576,6 +685,10 @@ export default function Profile() {
               {t('common.save', 'Update Password')}
             </LoadingButton>
           </form>
+
+          <TwoFactorSettings />
+          <LinkedAccounts />
+          <ActiveSessions />
           </section>
           
           {/* Danger Zone Card */}
@@ -1,12 +1,15 @@
-import React, { useState } from 'react'
-import { useNavigate, Link } from 'react-router-dom'
-import { UserPlus, AlertCircle } from 'lucide-react'
+import React, { useEffect, useState } from 'react'
+import { useNavigate, Link, useSearchParams } from 'react-router-dom'
+import { UserPlus, AlertCircle, Mail, Lock } from 'lucide-react'
 
 import { useAuth } from '@/auth/AuthContext'
 import PasswordInput from '@/components/PasswordInput'
 import LanguageSelector from '@/components/LanguageSelector'
 import { LoadingButton } from '@/components/LoadingButton'
+import OidcButtons from '@/components/OidcButtons'
 import { useTranslation } from '@/i18n/useTranslation'
+import { apiGet } from '@/lib/http'
+import type { RegistrationInfo } from '@packages/shared'
 
 export default function Register() {
   const { register } = useAuth()
@@ -22,6 +25,21 @@ export default function Register() {
   const [err, setErr] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
 
+  // Invite link: /register?invite=<token>; the invite fixes the email
+  const [params] = useSearchParams()
+  const inviteToken = params.get('invite') || undefined
+  const [registration, setRegistration] = useState<RegistrationInfo | null>(null)
+  const invite = registration?.invite ?? null
+
+  useEffect(() => {
+    apiGet<RegistrationInfo>('/auth/registration', { params: inviteToken ? { invite: inviteToken } : {} })
+      .then(info => {
+        setRegistration(info)
+        if (info.invite) setEmail(info.invite.email)
+      })
+      .catch(() => setRegistration({ inviteOnly: false, invite: null }))
+  }, [inviteToken])
+
   async function submit(e: React.FormEvent) {
     e.preventDefault()
     setErr(null)
@@ -63,15 +81,15 @@ export default function Register() {
       return
     }
 
-    // Validate email domain - only @gmail.com allowed
-    if (!email.toLowerCase().endsWith('@gmail.com')) {
+    // Validate email domain - only @gmail.com allowed (invited emails may use any domain)
+    if (!invite && !email.toLowerCase().endsWith('@gmail.com')) {
       setErr(t('auth.emailMustBeGmail', 'Email must end with @gmail.com'))
       return
     }
     
     setLoading(true)
     try {
-      await register(name, email, password)
+      await register(name, email, password, invite ? inviteToken : undefined)
       // Don't navigate immediately - wait a bit to ensure state is updated
       // This prevents the error boundary from catching during navigation
       setTimeout(() => {
@@ -85,6 +103,8 @@ export default function Register() {
   }
 
   const passwordsMatch = password === confirmPassword && confirmPassword.length > 0
+  // Without a valid invite there's nothing to fill in
+  const closed = !!registration?.inviteOnly && !invite
 
   return (
     <div className="min-h-screen flex flex-col bg-neutral-50 dark:bg-neutral-950">
@@ -113,7 +133,32 @@ export default function Register() {
                 {t('auth.noAccount', 'Join us to start learning today')}
               </p>
             </div>
-            
+
+            {invite && (
+              <div className="mb-6 p-3 rounded-xl bg-primary-50 dark:bg-primary-900/20 border border-primary-200 dark:border-primary-900/50 flex items-start gap-3">
+                <Mail size={18} className="text-primary-600 dark:text-primary-400 shrink-0 mt-0.5" />
+                <p className="text-sm text-primary-700 dark:text-primary-300">
+                  {t('auth.invite.invited', 'You were invited to join as {role}.').replace('{role}', invite.role)}
+                </p>
+              </div>
+            )}
+            {inviteToken && registration && !invite && (
+              <div className="mb-6 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 flex items-start gap-3">
+                <AlertCircle size={18} className="text-red-600 dark:text-red-400 shrink-0 mt-0.5" />
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {t('auth.invite.invalid', 'This invite link is invalid, has expired or was already used.')}
+                </p>
+              </div>
+            )}
+
+            {closed ? (
+              <div className="text-center space-y-3 py-4">
+                <Lock size={32} className="mx-auto text-neutral-400" />
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                  {t('auth.invite.only', 'Registration is by invitation only. Ask your teacher or administrator for an invite.')}
+                </p>
+              </div>
+            ) : (<>
             <div className="space-y-4">
               {/* Name */}
               <div>
@@ -144,11 +189,14 @@ export default function Register() {
                   placeholder={t('auth.placeholder.email', 'name@gmail.com')}
                   required
                   disabled={loading}
+                  readOnly={!!invite}
                   autoComplete="email"
                 />
-                <p className="mt-1.5 text-xs text-neutral-500 dark:text-neutral-400">
-                  {t('auth.emailMustBeGmail', 'Email must end with @gmail.com')}
-                </p>
+                {!invite && (
+                  <p className="mt-1.5 text-xs text-neutral-500 dark:text-neutral-400">
+                    {t('auth.emailMustBeGmail', 'Email must end with @gmail.com')}
+                  </p>
+                )}
               </div>
               
               {/* Password */}
@@ -242,6 +290,10 @@ export default function Register() {
             >
               {t('auth.register', 'Register')}
             </LoadingButton>
+
+            {/* Accounts created through a provider accept the same terms */}
+            <OidcButtons disabled={loading || !agreedToTerms} />
+            </>)}
             
             <div className="mt-6 text-center text-sm text-neutral-600 dark:text-neutral-400">
               {t('auth.hasAccount', 'Already have an account?')}{' '}
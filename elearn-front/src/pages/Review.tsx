@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useState } from 'react'
+import { RotateCcw, CheckCircle2, XCircle, ArrowRight, Loader2, CalendarClock } from 'lucide-react'
+import { apiGet, apiPost } from '@/lib/http'
+import { useTranslation } from '@/i18n/useTranslation'
+import { SkeletonCard } from '@/components/Skeletons'
+import { EmptyState } from '@/components/EmptyState'
+import { QuestionCard, toQuizAnswer, type AnswerValue } from '@/pages/materialsComponents/TopicQuizSection'
+import type { DueReviewsResponse, ReviewGradeResult, ReviewItem } from '@packages/shared'
+
+const BATCH_SIZE = 20
+
+// Human-readable correct answer: option texts for choice questions, raw value otherwise
+function formatCorrectAnswer(item: ReviewItem, answer: string | string[] | null): string {
+  if (answer === null) return ''
+  const ids = Array.isArray(answer) ? answer : [answer]
+  const texts = ids.map(id => item.question.options.find(o => o.id === id)?.text ?? id)
+  return texts.join(', ')
+}
+
+export default function Review() {
+  const { t, lang } = useTranslation()
+  const [items, setItems] = useState<ReviewItem[]>([])
+  const [totalDue, setTotalDue] = useState(0)
+  const [nextDueAt, setNextDueAt] = useState<string | null>(null)
+  const [idx, setIdx] = useState(0)
+  const [value, setValue] = useState<AnswerValue | undefined>(undefined)
+  const [result, setResult] = useState<ReviewGradeResult | null>(null)
+  const [reviewed, setReviewed] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDue = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await apiGet<DueReviewsResponse>(`/review/due?limit=${BATCH_SIZE}&lang=${lang}`)
+      setItems(Array.isArray(data.items) ? data.items : [])
+      setTotalDue(data.totalDue)
+      setNextDueAt(data.nextDueAt)
+      setIdx(0)
+      setValue(undefined)
+      setResult(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load reviews')
+    } finally {
+      setLoading(false)
+    }
+  }, [lang])
+
+  useEffect(() => {
+    loadDue()
+  }, [loadDue])
+
+  const current = items[idx]
+
+  const handleCheck = async () => {
+    if (!current || value === undefined || checking) return
+    setChecking(true)
+    setError(null)
+    try {
+      const { questionId, ...answer } = toQuizAnswer(current.question, value)
+      const res = await apiPost<ReviewGradeResult>(`/review/${questionId}/grade`, { ...answer, lang })
+      setResult(res)
+      setReviewed(n => n + 1)
+      setTotalDue(n => Math.max(0, n - 1))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to check answer')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleNext = () => {
+    setValue(undefined)
+    setResult(null)
+    setIdx(i => i + 1)
+  }
+
+  const sessionDone = !loading && idx >= items.length
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="rounded-2xl md:rounded-3xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 px-5 md:px-6 py-5 md:py-6 shadow-sm flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-neutral-900 dark:text-white flex items-center gap-2">
+            <RotateCcw size={22} className="text-primary-600" />
+            {t('review.title', 'Review Mistakes')}
+          </h1>
+          <p className="mt-2 text-sm text-neutral-600 dark:text-neutral-400 max-w-xl">
+            {t('review.subtitle', 'Questions you got wrong come back until you remember them')}
+          </p>
+        </div>
+        <div className="shrink-0 text-right">
+          <div className="text-2xl font-bold text-primary-600 dark:text-primary-400">{totalDue}</div>
+          <div className="text-xs text-neutral-500 dark:text-neutral-400">{t('review.dueCount', 'Due now')}</div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading && <SkeletonCard />}
+
+      {/* Nothing due */}
+      {sessionDone && items.length === 0 && (
+        <EmptyState
+          icon={CalendarClock}
+          title={t('review.empty', 'Nothing to review right now')}
+          description={nextDueAt
+            ? `${t('review.nextDue', 'Next review')}: ${new Date(nextDueAt).toLocaleString()}`
+            : undefined}
+        />
+      )}
+
+      {/* Batch finished */}
+      {sessionDone && items.length > 0 && (
+        <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-6 text-center space-y-4">
+          <CheckCircle2 size={40} className="mx-auto text-green-500" />
+          <h3 className="text-lg font-bold text-neutral-900 dark:text-white">
+            {t('review.finished', 'Session complete')} · {reviewed}
+          </h3>
+          {totalDue > 0 && (
+            <button onClick={loadDue} className="btn inline-flex items-center gap-2">
+              {t('review.loadMore', 'Continue reviewing')}
+              <ArrowRight size={16} />
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Current card */}
+      {!loading && current && (
+        <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-6 space-y-6 shadow-sm">
+          <div className="text-sm font-bold text-neutral-500 uppercase tracking-wider">
+            {t('quiz.question', 'Question')} {idx + 1} / {items.length}
+          </div>
+
+          <QuestionCard
+            question={current.question}
+            value={value}
+            onChange={(v) => { if (!result) setValue(v) }}
+            lang={lang}
+          />
+
+          {result && (
+            <div className={`p-4 rounded-xl border text-sm space-y-2 ${
+              result.correct
+                ? 'bg-green-50 border-green-200 dark:bg-green-900/10 dark:border-green-900/30'
+                : 'bg-orange-50 border-orange-200 dark:bg-orange-900/10 dark:border-orange-900/30'
+            }`}>
+              <div className="flex items-center gap-2 font-semibold text-neutral-900 dark:text-white">
+                {result.correct
+                  ? <CheckCircle2 size={18} className="text-green-600" />
+                  : <XCircle size={18} className="text-orange-600" />}
+                {result.correct ? t('review.correct', 'Correct!') : t('review.incorrect', 'Not quite')}
+              </div>
+              {!result.correct && result.correctAnswer !== null && (
+                <p className="text-neutral-700 dark:text-neutral-300">
+                  {t('review.correctAnswer', 'Correct answer')}: <span className="font-medium">{formatCorrectAnswer(current, result.correctAnswer)}</span>
+                </p>
+              )}
+              {result.explanation && (
+                <p className="text-neutral-600 dark:text-neutral-400">{result.explanation}</p>
+              )}
+              <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                {t('review.scheduled', 'Next time in')} {result.card.interval} {t('review.days', 'days')}
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            {result ? (
+              <button onClick={handleNext} className="btn text-sm flex items-center gap-2">
+                {t('quiz.next', 'Next')}
+                <ArrowRight size={16} />
+              </button>
+            ) : (
+              <button
+                onClick={handleCheck}
+                disabled={value === undefined || checking}
+                className="btn text-sm flex items-center gap-2 disabled:opacity-50"
+              >
+                {checking && <Loader2 size={16} className="animate-spin" />}
+                {t('review.check', 'Check')}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
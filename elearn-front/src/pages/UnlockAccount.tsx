@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { CheckCircle, Loader2, XCircle } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import { apiPost } from '@/lib/http'
+
+// Public page opened from the lockout email (FRONTEND_URL/unlock-account?token=...)
+export default function UnlockAccount() {
+  const [params] = useSearchParams()
+  const { t } = useTranslation()
+  const [status, setStatus] = useState<'pending' | 'done' | 'failed'>('pending')
+  // The link is single use: don't send it twice (React StrictMode)
+  const started = useRef(false)
+
+  useEffect(() => {
+    if (started.current) return
+    started.current = true
+
+    const token = params.get('token')
+    if (!token) {
+      setStatus('failed')
+      return
+    }
+    apiPost('/auth/unlock-account', { token })
+      .then(() => setStatus('done'))
+      .catch(() => setStatus('failed'))
+  }, [])
+
+  return (
+    <div className="flex-1 flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-6 sm:p-8 shadow-sm text-center space-y-5">
+        {status === 'pending' ? (
+          <>
+            <Loader2 size={32} className="mx-auto animate-spin text-primary-600" />
+            <p className="text-sm text-neutral-500">{t('auth.lockout.unlocking', 'Unlocking your account…')}</p>
+          </>
+        ) : (
+          <>
+            {status === 'done'
+              ? <CheckCircle size={48} className="mx-auto text-green-500" />
+              : <XCircle size={48} className="mx-auto text-red-500" />}
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              {status === 'done'
+                ? t('auth.lockout.unlocked', 'Your account is unlocked. You can sign in again.')
+                : t('auth.lockout.unlockFailed', 'The unlock link is invalid or has expired.')}
+            </p>
+            <Link to="/login" className="btn inline-flex">
+              {t('auth.twoFactor.back', 'Back to sign in')}
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { BadgeCheck, XCircle, Loader2 } from 'lucide-react'
+import { apiGet } from '@/lib/http'
+import { useTranslation } from '@/i18n/useTranslation'
+import type { CertificateVerification } from '@packages/shared'
+
+// Public page linked from the certificate PDF
+export default function VerifyCertificate() {
+  const { code = '' } = useParams()
+  const { t } = useTranslation()
+  const [result, setResult] = useState<CertificateVerification | null>(null)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    let mounted = true
+    setResult(null)
+    setError(false)
+    apiGet<CertificateVerification>(`/certificates/${encodeURIComponent(code)}/verify`)
+      .then(data => { if (mounted) setResult(data) })
+      .catch(() => { if (mounted) setError(true) })
+    return () => { mounted = false }
+  }, [code])
+
+  const invalid = error || (result && !result.valid)
+
+  return (
+    <div className="flex-1 flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-6 sm:p-8 shadow-sm text-center space-y-5">
+        <h1 className="text-xl font-semibold text-neutral-900 dark:text-white">
+          {t('certificate.verifyTitle', 'Certificate verification')}
+        </h1>
+
+        {!result && !error && <Loader2 size={32} className="mx-auto animate-spin text-primary-600" />}
+
+        {invalid && (
+          <div className="space-y-2">
+            <XCircle size={48} className="mx-auto text-red-500" />
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">{t('certificate.invalid', 'No certificate found with this code')}</p>
+          </div>
+        )}
+
+        {result?.valid && (
+          <div className="space-y-4">
+            <BadgeCheck size={48} className="mx-auto text-emerald-500" />
+            <p className="font-semibold text-emerald-700 dark:text-emerald-300">{t('certificate.valid', 'This certificate is valid')}</p>
+            <dl className="text-left text-sm divide-y divide-neutral-100 dark:divide-neutral-800">
+              <div className="flex justify-between gap-4 py-2">
+                <dt className="text-neutral-500">{t('certificate.issuedTo', 'Issued to')}</dt>
+                <dd className="font-medium text-neutral-900 dark:text-white text-right">{result.recipientName}</dd>
+              </div>
+              <div className="flex justify-between gap-4 py-2">
+                <dt className="text-neutral-500">{t('certificate.course', 'Course')}</dt>
+                <dd className="font-medium text-neutral-900 dark:text-white text-right">{result.topicName}</dd>
+              </div>
+              <div className="flex justify-between gap-4 py-2">
+                <dt className="text-neutral-500">{t('certificate.issuedAt', 'Issued on')}</dt>
+                <dd className="font-medium text-neutral-900 dark:text-white text-right">{new Date(result.issuedAt).toLocaleDateString()}</dd>
+              </div>
+            </dl>
+          </div>
+        )}
+
+        <p className="text-xs font-mono text-neutral-400">{t('certificate.code', 'Certificate code')}: {code.toUpperCase()}</p>
+      </div>
+    </div>
+  )
+}
@@ -14,7 +14,10 @@ import {
   ChevronRight,
   AlertCircle,
   LogIn,
-  LogOut
+  LogOut,
+  ShieldAlert,
+  Lock,
+  Unlock
 } from 'lucide-react'
 
 import { useTranslation } from '@/i18n/useTranslation'
@@ -56,6 +59,9 @@ const ACTION_CONFIG: Record<string, { icon: any, color: string }> = {
   DOWNLOAD: { icon: Download, color: 'text-purple-600 bg-purple-100 dark:text-purple-400 dark:bg-purple-900/30' },
   LOGIN: { icon: LogIn, color: 'text-emerald-600 bg-emerald-100 dark:text-emerald-400 dark:bg-emerald-900/30' },
   LOGOUT: { icon: LogOut, color: 'text-orange-600 bg-orange-100 dark:text-orange-400 dark:bg-orange-900/30' },
+  LOGIN_FAILED: { icon: ShieldAlert, color: 'text-red-600 bg-red-100 dark:text-red-400 dark:bg-red-900/30' },
+  ACCOUNT_LOCKED: { icon: Lock, color: 'text-red-600 bg-red-100 dark:text-red-400 dark:bg-red-900/30' },
+  ACCOUNT_UNLOCK: { icon: Unlock, color: 'text-blue-600 bg-blue-100 dark:text-blue-400 dark:bg-blue-900/30' },
 }
 
 export default function AdminAuditLogs() {
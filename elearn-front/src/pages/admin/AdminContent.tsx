@@ -3,7 +3,8 @@ import {
   BookOpen,
   Save,
   Trash2,
-  AlertTriangle
+  AlertTriangle,
+  Upload
 } from 'lucide-react'
 
 import { useTranslation } from '@/i18n/useTranslation'
@@ -12,9 +13,11 @@ import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { TopicSidebar, TopicView, MaterialModal } from '@/pages/materialsComponents'
 import { QuizModal } from '@/pages/materialsComponents/QuizModal'
 import EditQuizModal from '@/pages/materialsComponents/EditQuizModal'
+import QuizTransferModal from '@/pages/materialsComponents/QuizTransferModal'
 import { SkeletonDashboard } from '@/components/Skeletons'
 import { LoadingButton } from '@/components/LoadingButton'
 import { apiPost, apiPut, apiDelete } from '@/lib/http'
+import { getTopicQuizFlags } from '@/lib/editorApi'
 
 import type { TopicNode, Material } from '@/pages/materialsComponents/types'
 import type { Lang, LocalizedString, Category, MaterialType } from '@packages/shared'
@@ -60,6 +63,8 @@ export default function AdminContent() {
   const [showQuizModal, setShowQuizModal] = useState(false)
   const [quizTopicId, setQuizTopicId] = useState<string | null>(null)
   const [editQuizId, setEditQuizId] = useState<string | null>(null)
+  // Moodle XML / GIFT / QTI: null = closed, { quiz: undefined } = import into the topic
+  const [transfer, setTransfer] = useState<{ quiz?: { id: string; title: string } } | null>(null)
 
   // Transform topics tree for student view (TopicNode)
   const topicsAsNodes = useMemo((): TopicNode[] => {
@@ -79,6 +84,18 @@ export default function AdminContent() {
 
   const activeTopic = topicsAsNodes.find((t) => t.id === selectedTopicId) || null
   const activeSub = activeTopic?.children?.find((c) => c.id === selectedSubId) || null
+  const quizTopicKey = (activeSub || activeTopic)?.id
+
+  // Flagged questions per quiz (item analytics), refreshed when the quiz editor closes
+  const [quizFlags, setQuizFlags] = useState<Record<string, number>>({})
+  useEffect(() => {
+    if (!quizTopicKey || editQuizId) return
+    let mounted = true
+    getTopicQuizFlags(quizTopicKey)
+      .then((flags) => { if (mounted) setQuizFlags(flags) })
+      .catch(() => { if (mounted) setQuizFlags({}) })
+    return () => { mounted = false }
+  }, [quizTopicKey, editQuizId])
 
   // --- Handlers ---
 
@@ -252,14 +269,34 @@ export default function AdminContent() {
             />
             {/* Admin Quiz Management */}
             <div className="mt-6 space-y-3">
-              <h3 className="text-sm font-semibold text-neutral-700 dark:text-neutral-300">Quizzes</h3>
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-neutral-700 dark:text-neutral-300">Quizzes</h3>
+                <button
+                  onClick={() => setTransfer({})}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg bg-neutral-100 dark:bg-neutral-800 hover:bg-neutral-200 dark:hover:bg-neutral-700"
+                >
+                  <Upload size={14} /> {t('editor.transfer.importButton', 'Import from Moodle / GIFT / QTI')}
+                </button>
+              </div>
               <div className="space-y-2">
                 {((activeSub || activeTopic)?.quizzes || []).length === 0 ? (
                   <div className="text-xs text-neutral-500 dark:text-neutral-400">No quizzes yet</div>
                 ) : (
                   (activeSub || activeTopic)!.quizzes!.map((q) => (
                     <div key={q.id} className="flex items-center justify-between rounded-xl border border-neutral-200 dark:border-neutral-800 p-3 bg-white dark:bg-neutral-900">
-                      <div className="text-sm font-medium text-neutral-900 dark:text-white">{q.title}</div>
+                      <div className="flex items-center gap-2 text-sm font-medium text-neutral-900 dark:text-white">
+                        {q.title}
+                        {quizFlags[q.id] > 0 && (
+                          <button
+                            onClick={() => setEditQuizId(q.id)}
+                            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] font-semibold bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+                            title={t('editor.analytics.flaggedHint', 'Questions that most students fail or whose wrong option is picked more than the correct one')}
+                          >
+                            <AlertTriangle size={12} />
+                            {t('editor.analytics.flagged', '{count} flagged').replace('{count}', String(quizFlags[q.id]))}
+                          </button>
+                        )}
+                      </div>
                       <div className="flex items-center gap-2">
                         <button
                           onClick={() => setEditQuizId(q.id)}
@@ -267,6 +304,12 @@ export default function AdminContent() {
                         >
                           {t('common.edit', 'Edit')}
                         </button>
+                        <button
+                          onClick={() => setTransfer({ quiz: { id: q.id, title: q.title } })}
+                          className="px-3 py-1.5 text-xs rounded-lg bg-neutral-100 dark:bg-neutral-800 hover:bg-neutral-200 dark:hover:bg-neutral-700"
+                        >
+                          {t('editor.transfer.exportButton', 'Export')}
+                        </button>
                         <button
                           onClick={async () => {
                             try {
@@ -375,6 +418,16 @@ export default function AdminContent() {
           onSave={() => { setEditQuizId(null); fetchTopics() }}
         />
       )}
+
+      {/* Quiz import / export */}
+      {transfer && (activeSub || activeTopic) && (
+        <QuizTransferModal
+          topicId={(activeSub || activeTopic)!.id}
+          quiz={transfer.quiz}
+          onClose={() => setTransfer(null)}
+          onImported={fetchTopics}
+        />
+      )}
     </div>
   )
 }
@@ -189,7 +189,8 @@ export default function AdminDashboard() {
                       <div 
                         className={`h-full rounded-full ${
                           role === 'ADMIN' ? 'bg-purple-500' : 
-                          role === 'EDITOR' ? 'bg-blue-500' : 'bg-green-500'
+                          role === 'EDITOR' ? 'bg-blue-500' :
+                          role === 'TEACHER' ? 'bg-amber-500' : 'bg-green-500'
                         }`}
                         style={{ width: `${percentage}%` }}
                       />
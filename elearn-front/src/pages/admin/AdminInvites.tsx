@@ -0,0 +1,23 @@
+import { Mail } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import InvitesManager from '@/components/InvitesManager'
+
+export default function AdminInvites() {
+  const { t } = useTranslation()
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-3 font-display">
+          <Mail className="w-8 h-8 text-primary-600" />
+          {t('admin.invites', 'Invites')}
+        </h1>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {t('admin.invitesDescription', 'Invite people to register, with a role assigned in advance')}
+        </p>
+      </div>
+
+      <InvitesManager />
+    </div>
+  )
+}
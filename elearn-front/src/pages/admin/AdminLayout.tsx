@@ -13,7 +13,10 @@ import {
   X,
   Trophy,
   User,
-  LayoutDashboard
+  LayoutDashboard,
+  ClipboardCheck,
+  Languages,
+  Mail
 } from 'lucide-react'
 
 import { useAuth } from '@/auth/AuthContext'
@@ -33,8 +36,11 @@ const navItems: NavItem[] = [
   { path: '/admin', icon: BarChart3, labelKey: 'admin.dashboard', end: true, roles: ['ADMIN', 'EDITOR'] },
   { path: '/admin/users', icon: Users, labelKey: 'admin.users', roles: ['ADMIN'] },
   { path: '/admin/content', icon: BookOpen, labelKey: 'admin.content', roles: ['ADMIN', 'EDITOR'] },
+  { path: '/admin/review', icon: ClipboardCheck, labelKey: 'admin.review', roles: ['ADMIN', 'EDITOR'] },
+  { path: '/admin/translations', icon: Languages, labelKey: 'admin.translations', roles: ['ADMIN', 'EDITOR'] },
   { path: '/admin/files', icon: FolderOpen, labelKey: 'admin.files', roles: ['ADMIN'] },
   { path: '/admin/audit', icon: Activity, labelKey: 'admin.auditLogs', roles: ['ADMIN'] },
+  { path: '/admin/invites', icon: Mail, labelKey: 'admin.invites', roles: ['ADMIN'] },
 ]
 
 export default function AdminLayout() {
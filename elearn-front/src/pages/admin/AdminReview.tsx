@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ClipboardCheck, ChevronDown, ChevronRight, FileText, ListChecks, MessageSquare, AlertTriangle } from 'lucide-react'
+
+import { useTranslation } from '@/i18n/useTranslation'
+import { SkeletonList } from '@/components/Skeletons'
+import { getReviewQueue, listQuestions } from '@/lib/editorApi'
+import ReviewPanel, { StatusBadge } from '@/pages/materialsComponents/ReviewPanel'
+import type { ReviewQueueItem } from '@packages/shared'
+
+export default function AdminReview() {
+  const { t } = useTranslation()
+  const [items, setItems] = useState<ReviewQueueItem[]>([])
+  const [mine, setMine] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [openId, setOpenId] = useState<string | null>(null)
+  const [questionIds, setQuestionIds] = useState<string[]>([])
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setItems(await getReviewQueue(mine))
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load review queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [mine])
+
+  useEffect(() => { fetchQueue() }, [fetchQueue])
+
+  const toggle = (item: ReviewQueueItem) => {
+    if (openId === item.id) {
+      setOpenId(null)
+      return
+    }
+    setOpenId(item.id)
+    setQuestionIds([])
+    // Comments on quiz questions are labelled by question number
+    if (item.entity === 'quiz') {
+      listQuestions(item.id)
+        .then(qs => setQuestionIds(qs.map(q => q.id)))
+        .catch(() => { /* labels fall back to "?" */ })
+    }
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-3 font-display">
+            <ClipboardCheck className="w-8 h-8 text-primary-600" />
+            {t('editor.review.queue.title', 'Review queue')}
+          </h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            {t('editor.review.queue.subtitle', 'Materials and quizzes waiting for review, changes or a scheduled publication')}
+          </p>
+        </div>
+        <div className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden text-sm">
+          {[false, true].map(value => (
+            <button
+              key={String(value)}
+              onClick={() => setMine(value)}
+              className={`px-4 py-2 ${mine === value
+                ? 'bg-primary-600 text-white'
+                : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+            >
+              {value ? t('editor.review.queue.mine', 'Mine') : t('editor.review.queue.all', 'All')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400 flex items-start gap-3">
+          <AlertTriangle className="shrink-0 mt-0.5" size={18} />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <SkeletonList />
+      ) : items.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+          {t('editor.review.queue.empty', 'Nothing to review')}
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+          {items.map(item => (
+            <div key={item.id}>
+              <button
+                onClick={() => toggle(item)}
+                className="w-full flex items-center gap-3 p-4 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50"
+              >
+                {openId === item.id ? <ChevronDown size={16} className="text-gray-400" /> : <ChevronRight size={16} className="text-gray-400" />}
+                {item.entity === 'quiz'
+                  ? <ListChecks size={18} className="text-primary-600 shrink-0" />
+                  : <FileText size={18} className="text-primary-600 shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-white truncate">{item.title}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {t(`editor.review.entity.${item.entity}`, item.entity)} · {item.topic.name}
+                    {item.createdBy && ` · ${item.createdBy.name}`}
+                    {item.reviewer && ` → ${item.reviewer.name}`}
+                  </div>
+                </div>
+                {item.openComments > 0 && (
+                  <span
+                    className="flex items-center gap-1 text-xs text-amber-600"
+                    title={t('editor.review.queue.openComments', '{count} open comments').replace('{count}', String(item.openComments))}
+                  >
+                    <MessageSquare size={14} /> {item.openComments}
+                  </span>
+                )}
+                <StatusBadge status={item.status} />
+              </button>
+              {openId === item.id && (
+                <div className="px-4 pb-4">
+                  <ReviewPanel
+                    entity={item.entity}
+                    entityId={item.id}
+                    questionIds={questionIds}
+                    onChanged={(state) => setItems(prev => prev.map(i => i.id === state.id ? { ...i, ...state } : i))}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,6 +6,8 @@
 import { useState } from 'react'
 import { useAdminContent, type AdminTopic } from '@/hooks/useAdmin'
 import { useTranslation } from '@/i18n/useTranslation'
+import { useAuth } from '@/auth/AuthContext'
+import { apiGet } from '@/lib/http'
 import {
   BookOpen,
   Plus,
@@ -18,9 +20,13 @@ import {
   Loader2,
   Globe,
   Search,
+  Package,
+  X,
 } from 'lucide-react'
 import { Loading } from '@/components/Skeletons'
 import { PageHeader } from '@/components/admin/PageHeader'
+import { LoadingButton } from '@/components/LoadingButton'
+import type { Lang } from '@packages/shared'
 
 type TopicWithChildren = AdminTopic & {
   children?: TopicWithChildren[]
@@ -40,6 +46,7 @@ const CATEGORIES = ['Programming', 'Mathematics', 'Databases', 'Networks', 'Secu
 
 export default function AdminTopics() {
   const { t } = useTranslation()
+  const { user } = useAuth()
   const { topics, loading, error, deleteTopic } = useAdminContent()
   
   // Stub functions for features not yet implemented in useAdminContent
@@ -51,6 +58,7 @@ export default function AdminTopics() {
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
   const [editingTopic, setEditingTopic] = useState<AdminTopic | null>(null)
   const [deleteConfirm, setDeleteConfirm] = useState<AdminTopic | null>(null)
+  const [scormTopic, setScormTopic] = useState<AdminTopic | null>(null)
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [activeTab, setActiveTab] = useState<'UA' | 'PL' | 'EN'>('UA')
   const [searchTerm, setSearchTerm] = useState('')
@@ -153,6 +161,16 @@ export default function AdminTopics() {
 
           {/* Actions */}
           <div className="flex items-center gap-2">
+            {/* SCORM packages are built from root topics, admins only */}
+            {level === 0 && user?.role === 'ADMIN' && (
+              <button
+                onClick={() => setScormTopic(topic)}
+                className="p-2 text-gray-600 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                title={t('admin.scorm.button', 'SCORM package')}
+              >
+                <Package size={18} />
+              </button>
+            )}
             <button
               onClick={() => handlePublishToggle(topic)}
               className="p-2 text-gray-600 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
@@ -301,6 +319,9 @@ export default function AdminTopics() {
         />
       )}
 
+      {/* SCORM Export */}
+      {scormTopic && <ScormExportModal topic={scormTopic} onClose={() => setScormTopic(null)} />}
+
       {/* Delete Confirmation */}
       {deleteConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -541,3 +562,113 @@ function TopicEditModal({
     </div>
   )
 }
+
+// SCORM Export Modal Component
+function ScormExportModal({ topic, onClose }: { topic: AdminTopic; onClose: () => void }) {
+  const { t } = useTranslation()
+  const [lang, setLang] = useState<Lang>('UA')
+  const [xapi, setXapi] = useState(false)
+  const [lrsEndpoint, setLrsEndpoint] = useState('')
+  const [lrsAuth, setLrsAuth] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleDownload = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ lang, xapi: String(xapi) })
+      if (xapi && lrsEndpoint.trim()) params.set('lrsEndpoint', lrsEndpoint.trim())
+      if (xapi && lrsAuth.trim()) params.set('lrsAuth', lrsAuth.trim())
+      const blob = await apiGet<Blob>(`/admin/content/scorm/${topic.id}?${params}`, { responseType: 'blob' })
+
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${topic.slug}-scorm12-${lang.toLowerCase()}.zip`
+      a.click()
+      URL.revokeObjectURL(url)
+      onClose()
+    } catch {
+      // Error toast shown by the http client
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+            {t('admin.scorm.title', 'Export "{title}" as SCORM 1.2').replace('{title}', topic.nameJson?.UA || topic.name)}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('admin.scorm.hint', 'Published subtopics, materials and quizzes are packaged for upload to another LMS. Quizzes report score and completion to the LMS.')}
+        </p>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {t('admin.scorm.language', 'Package language')}
+          </label>
+          <select
+            value={lang}
+            onChange={(e) => setLang(e.target.value as Lang)}
+            className="w-full px-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          >
+            <option value="UA">Українська</option>
+            <option value="PL">Polski</option>
+            <option value="EN">English</option>
+          </select>
+        </div>
+
+        <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={xapi} onChange={(e) => setXapi(e.target.checked)} className="mt-1" />
+          {t('admin.scorm.xapi', 'Also send xAPI statements (views and quiz attempts) to an LRS')}
+        </label>
+
+        {xapi && (
+          <div className="space-y-3 pl-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {t('admin.scorm.lrsEndpoint', 'LRS endpoint')}
+              </label>
+              <input
+                type="url"
+                value={lrsEndpoint}
+                onChange={(e) => setLrsEndpoint(e.target.value)}
+                placeholder={t('admin.scorm.lrsEndpointHint', "Leave empty to use the server's LRS")}
+                className="w-full px-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {t('admin.scorm.lrsAuth', 'Authorization header (optional)')}
+              </label>
+              <input
+                value={lrsAuth}
+                onChange={(e) => setLrsAuth(e.target.value)}
+                placeholder="Basic …"
+                className="w-full px-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                {t('admin.scorm.lrsAuthHint', 'Stored in the package: use a write-only LRS key')}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end pt-2">
+          <button type="button" onClick={onClose} className="btn-outline" disabled={loading}>
+            {t('common.cancel')}
+          </button>
+          <LoadingButton onClick={handleDownload} loading={loading} icon={<Package size={16} />}>
+            {t('admin.scorm.download', 'Download')}
+          </LoadingButton>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,347 @@
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from 'react'
+import { Languages, ChevronLeft, ChevronRight, AlertTriangle, Bot, Sparkles } from 'lucide-react'
+
+import { useTranslation } from '@/i18n/useTranslation'
+import { SkeletonList, SkeletonStats } from '@/components/Skeletons'
+import { getTranslationCoverage, listTranslationGaps, machineTranslate, type TranslationGapFilters, type TranslationGapPage } from '@/lib/editorApi'
+import TranslationEditorModal from '@/pages/materialsComponents/TranslationEditorModal'
+import type { Lang, LangCoverage, TranslationCounts, TranslationCoverageReport, TranslationEntity, TranslationGap } from '@packages/shared'
+
+const ENTITIES: TranslationEntity[] = ['topic', 'material', 'quiz', 'question']
+
+const selectClass = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900 text-sm focus:ring-2 focus:ring-primary-500 outline-none'
+
+const percent = (c: TranslationCounts) => (c.fields === 0 ? null : Math.floor((c.translated / c.fields) * 100))
+
+function CoverageCell({ counts }: { counts: TranslationCounts }) {
+  const value = percent(counts)
+  if (value === null) return <span className="text-gray-400">—</span>
+  const color = value === 100 ? 'bg-green-500' : value >= 50 ? 'bg-amber-500' : 'bg-red-500'
+  return (
+    <div className="flex items-center gap-2 min-w-[7rem]">
+      <div className="flex-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${value}%` }} />
+      </div>
+      <span className="w-10 text-right tabular-nums text-gray-700 dark:text-gray-300">{value}%</span>
+      {counts.stale > 0 && (
+        <span className="flex items-center gap-0.5 text-amber-600" title={String(counts.stale)}>
+          <AlertTriangle size={12} />{counts.stale}
+        </span>
+      )}
+      {counts.machine > 0 && (
+        <span className="flex items-center gap-0.5 text-violet-600" title={String(counts.machine)}>
+          <Bot size={12} />{counts.machine}
+        </span>
+      )}
+    </div>
+  )
+}
+
+export default function AdminTranslations() {
+  const { t } = useTranslation()
+  const [report, setReport] = useState<TranslationCoverageReport | null>(null)
+  const [gaps, setGaps] = useState<TranslationGapPage | null>(null)
+  const [filters, setFilters] = useState<TranslationGapFilters>({ page: 1 })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ gap: TranslationGap; lang: Lang } | null>(null)
+  const [translating, setTranslating] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const fetchCoverage = useCallback(async () => {
+    try {
+      setReport(await getTranslationCoverage())
+    } catch (e: any) {
+      setError(e?.message || t('editor.translations.loadError', 'Failed to load translations'))
+    }
+  }, [])
+
+  const fetchGaps = useCallback(async () => {
+    setLoading(true)
+    try {
+      setGaps(await listTranslationGaps(filters))
+    } catch (e: any) {
+      setError(e?.message || t('editor.translations.loadError', 'Failed to load translations'))
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => { fetchCoverage() }, [fetchCoverage])
+  useEffect(() => { fetchGaps() }, [fetchGaps])
+
+  const setFilter = (patch: TranslationGapFilters) => setFilters(prev => ({ ...prev, ...patch, page: 1 }))
+
+  // Topics in tree order with their depth, for indentation
+  const topicRows = useMemo(() => {
+    if (!report) return []
+    const rows: { topic: TranslationCoverageReport['topics'][number]; depth: number }[] = []
+    const visit = (parentId: string | null, depth: number) => {
+      for (const topic of report.topics.filter(tp => tp.parentId === parentId)) {
+        rows.push({ topic, depth })
+        visit(topic.id, depth + 1)
+      }
+    }
+    visit(null, 0)
+    return rows
+  }, [report])
+
+  const entityLabel = (entity: TranslationEntity) => t(`editor.translations.entity.${entity}`, entity)
+
+  const langHeader = (lang: Lang) => (
+    <th key={lang} className="px-4 py-2 text-left font-semibold">
+      {lang}
+      {lang === report?.sourceLang && <span className="ml-1 font-normal normal-case text-gray-400">({t('editor.translations.source', 'source')})</span>}
+    </th>
+  )
+
+  const coverageRow = (key: string, label: ReactNode, coverage: LangCoverage, onClick?: () => void) => (
+    <tr
+      key={key}
+      onClick={onClick}
+      className={`border-t border-gray-100 dark:border-gray-700 ${onClick ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50' : ''}`}
+    >
+      <td className="px-4 py-2 text-gray-900 dark:text-white">{label}</td>
+      {report!.langs.map(lang => <td key={lang} className="px-4 py-2"><CoverageCell counts={coverage[lang]} /></td>)}
+    </tr>
+  )
+
+  const firstGapLang = (gap: TranslationGap): Lang =>
+    (filters.lang ?? gap.fields.flatMap(f => [...f.missing, ...f.stale, ...f.machine]).find(l => l !== report?.sourceLang) ?? gap.fields[0].missing[0] ?? 'UA')
+
+  const handleMachineTranslate = async (gap: TranslationGap) => {
+    if (gap.entity === 'question') return
+    if (!confirm(t('editor.translations.machineConfirm', 'Machine-translate all missing languages of "{title}"?').replace('{title}', gap.title))) return
+    setTranslating(`${gap.entity}:${gap.id}`)
+    setError(null)
+    setNotice(null)
+    try {
+      const result = await machineTranslate(gap.entity, gap.id, filters.lang ? [filters.lang] : undefined)
+      setNotice(result.count > 0
+        ? t('editor.translations.machineDone', '{count} fields machine-translated; review them before publishing').replace('{count}', String(result.count))
+        : t('editor.translations.machineNothing', 'Nothing to translate'))
+      fetchCoverage()
+      fetchGaps()
+    } catch (e: any) {
+      setError(e?.message || t('editor.translations.machineError', 'Machine translation failed'))
+    } finally {
+      setTranslating(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-3 font-display">
+          <Languages className="w-8 h-8 text-primary-600" />
+          {t('editor.translations.title', 'Translations')}
+        </h1>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {t('editor.translations.subtitle', 'UA / PL / EN coverage of all content and the missing-translation worklist')}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400 flex items-start gap-3">
+          <AlertTriangle className="shrink-0 mt-0.5" size={18} />
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-xl text-green-700 dark:text-green-400">
+          {notice}
+        </div>
+      )}
+
+      {/* Per-language totals */}
+      {!report ? (
+        <SkeletonStats count={3} />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {report.langs.map(lang => {
+            const c = report.totals[lang]
+            return (
+              <button
+                key={lang}
+                onClick={() => setFilter({ lang })}
+                className={`text-left bg-white dark:bg-gray-800 rounded-xl p-5 border transition-colors ${
+                  filters.lang === lang ? 'border-primary-500' : 'border-gray-200 dark:border-gray-700 hover:border-primary-300'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-lg font-bold text-gray-900 dark:text-white">{lang}</span>
+                  <span className="text-2xl font-bold text-primary-600">{percent(c) ?? 0}%</span>
+                </div>
+                <div className="mt-3"><CoverageCell counts={c} /></div>
+                <div className="mt-2 text-xs text-gray-500 dark:text-gray-400 flex gap-3">
+                  <span>{t('editor.translations.missingCount', '{count} missing').replace('{count}', String(c.missing))}</span>
+                  {c.stale > 0 && (
+                    <span className="text-amber-600">{t('editor.translations.staleCount', '{count} outdated').replace('{count}', String(c.stale))}</span>
+                  )}
+                  {c.machine > 0 && (
+                    <span className="text-violet-600">{t('editor.translations.machineCount', '{count} to review').replace('{count}', String(c.machine))}</span>
+                  )}
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-x-auto">
+            <h2 className="px-4 pt-4 pb-2 font-semibold text-gray-900 dark:text-white">{t('editor.translations.byEntity', 'By content type')}</h2>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-500 uppercase tracking-wider">
+                <tr><th className="px-4 py-2" />{report.langs.map(langHeader)}</tr>
+              </thead>
+              <tbody>
+                {ENTITIES.map(entity => coverageRow(entity, entityLabel(entity), report.byEntity[entity], () => setFilter({ entity })))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-x-auto max-h-96 overflow-y-auto">
+            <h2 className="px-4 pt-4 pb-2 font-semibold text-gray-900 dark:text-white">{t('editor.translations.byTopic', 'By topic')}</h2>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-500 uppercase tracking-wider">
+                <tr><th className="px-4 py-2" />{report.langs.map(langHeader)}</tr>
+              </thead>
+              <tbody>
+                {topicRows.map(({ topic, depth }) => coverageRow(
+                  topic.id,
+                  <span style={{ paddingLeft: `${depth * 1.25}rem` }} className={filters.topicId === topic.id ? 'font-semibold text-primary-600' : ''}>{topic.name}</span>,
+                  topic.totals,
+                  () => setFilter({ topicId: topic.id })
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Worklist */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-3">
+          <h2 className="font-semibold text-gray-900 dark:text-white">
+            {t('editor.translations.worklist', 'Missing translations')}
+            {gaps && <span className="ml-2 text-sm font-normal text-gray-500">({gaps.pagination.total})</span>}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1.5">{t('editor.translations.filter.lang', 'Language')}</label>
+              <select value={filters.lang ?? ''} onChange={e => setFilter({ lang: (e.target.value || undefined) as Lang | undefined })} className={selectClass}>
+                <option value="">{t('common.all', 'All')}</option>
+                {(report?.langs ?? ['UA', 'PL', 'EN']).map(lang => <option key={lang} value={lang}>{lang}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1.5">{t('editor.translations.filter.entity', 'Content type')}</label>
+              <select value={filters.entity ?? ''} onChange={e => setFilter({ entity: (e.target.value || undefined) as TranslationEntity | undefined })} className={selectClass}>
+                <option value="">{t('common.all', 'All')}</option>
+                {ENTITIES.map(entity => <option key={entity} value={entity}>{entityLabel(entity)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1.5">{t('editor.translations.filter.state', 'Problem')}</label>
+              <select value={filters.state ?? ''} onChange={e => setFilter({ state: (e.target.value || undefined) as TranslationGapFilters['state'] })} className={selectClass}>
+                <option value="">{t('editor.translations.state.any', 'Any problem')}</option>
+                <option value="missing">{t('editor.translations.state.missing', 'Missing')}</option>
+                <option value="stale">{t('editor.translations.state.stale', 'Outdated')}</option>
+                <option value="machine">{t('editor.translations.state.machine', 'Machine-translated')}</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1.5">{t('editor.translations.filter.topic', 'Topic')}</label>
+              <select value={filters.topicId ?? ''} onChange={e => setFilter({ topicId: e.target.value || undefined })} className={selectClass}>
+                <option value="">{t('common.all', 'All')}</option>
+                {topicRows.map(({ topic, depth }) => (
+                  <option key={topic.id} value={topic.id}>{' '.repeat(depth * 3)}{topic.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="p-4"><SkeletonList /></div>
+        ) : !gaps || gaps.items.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">{t('editor.translations.noGaps', 'Nothing is missing')}</div>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {gaps.items.map(gap => (
+              <li key={`${gap.entity}:${gap.id}`} className="p-4 flex items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {entityLabel(gap.entity)}{gap.topic && gap.entity !== 'topic' && ` · ${gap.topic.name}`}
+                  </div>
+                  <div className="font-medium text-gray-900 dark:text-white truncate">{gap.title}</div>
+                  <div className="mt-1 flex flex-wrap gap-1.5 text-xs">
+                    {gap.fields.map(f => (
+                      <span key={f.field} className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                        {f.field.replace(/Json$/, '')}
+                        {f.missing.length > 0 && <span className="ml-1 text-red-600">−{f.missing.join(', ')}</span>}
+                        {f.stale.length > 0 && <span className="ml-1 text-amber-600">⚠{f.stale.join(', ')}</span>}
+                        {f.machine.length > 0 && <span className="ml-1 text-violet-600">🤖{f.machine.join(', ')}</span>}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                {gap.entity !== 'question' && gap.fields.some(f => f.missing.length > 0) && (
+                  <button
+                    onClick={() => handleMachineTranslate(gap)}
+                    disabled={translating !== null}
+                    title={t('editor.translations.machineTranslate', 'Translate missing with AI')}
+                    className="shrink-0 p-2 rounded-lg text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 disabled:opacity-50"
+                  >
+                    <Sparkles size={16} className={translating === `${gap.entity}:${gap.id}` ? 'animate-pulse' : ''} />
+                  </button>
+                )}
+                <button
+                  onClick={() => setEditing({ gap, lang: firstGapLang(gap) })}
+                  className="shrink-0 px-3 py-1.5 text-sm rounded-lg border border-primary-200 dark:border-primary-800 text-primary-700 dark:text-primary-300 hover:bg-primary-50 dark:hover:bg-primary-900/20"
+                >
+                  {t('editor.translations.translate', 'Translate')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {gaps && gaps.pagination.pages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 flex items-center justify-between">
+            <button
+              onClick={() => setFilters(prev => ({ ...prev, page: gaps.pagination.page - 1 }))}
+              disabled={gaps.pagination.page <= 1}
+              className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              {t('common.page', 'Page')} {gaps.pagination.page} {t('common.of', 'of')} {gaps.pagination.pages}
+            </span>
+            <button
+              onClick={() => setFilters(prev => ({ ...prev, page: gaps.pagination.page + 1 }))}
+              disabled={gaps.pagination.page >= gaps.pagination.pages}
+              className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <TranslationEditorModal
+          entity={editing.gap.entity}
+          entityId={editing.gap.id}
+          initialLang={editing.lang}
+          onClose={() => setEditing(null)}
+          onSaved={() => { fetchCoverage(); fetchGaps() }}
+        />
+      )}
+    </div>
+  )
+}
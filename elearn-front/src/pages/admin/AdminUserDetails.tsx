@@ -5,7 +5,8 @@
 import { useState, useEffect } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useTranslation } from '@/i18n/useTranslation'
-import { apiGet } from '@/lib/http'
+import { apiGet, apiPost } from '@/lib/http'
+import { useToast } from '@/components/Toast'
 import {
   Mail,
   Shield,
@@ -16,6 +17,8 @@ import {
   ArrowLeft,
   CheckCircle,
   XCircle,
+  Lock,
+  Unlock,
 } from 'lucide-react'
 import { Loading } from '@/components/Skeletons'
 
@@ -26,6 +29,9 @@ interface UserDetails {
   role: string
   xp: number
   emailVerified: boolean
+  failedLoginCount: number
+  lastFailedLoginAt: string | null
+  lockedUntil: string | null
   createdAt: string
   updatedAt: string
   _count: {
@@ -39,10 +45,12 @@ interface UserDetails {
 export default function AdminUserDetails() {
   const { id } = useParams<{ id: string }>()
   const { t } = useTranslation()
+  const { push } = useToast()
   const navigate = useNavigate()
   const [user, setUser] = useState<UserDetails | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
 
   useEffect(() => {
     const fetchUser = async () => {
@@ -61,6 +69,20 @@ export default function AdminUserDetails() {
     fetchUser()
   }, [id])
 
+  const unlock = async () => {
+    if (!user) return
+    setUnlocking(true)
+    try {
+      await apiPost(`/admin/users/${user.id}/unlock`)
+      setUser({ ...user, failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null })
+      push({ type: 'success', msg: t('admin.lockout.unlocked', 'Account unlocked') })
+    } catch {
+      // Error toast is shown by the http client
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
   if (loading) return <Loading />
 
   if (error || !user) {
@@ -154,6 +176,37 @@ export default function AdminUserDetails() {
         </div>
       </div>
 
+      {/* Failed logins / lockout */}
+      {(user.failedLoginCount > 0 || user.lockedUntil) && (() => {
+        const locked = !!user.lockedUntil && new Date(user.lockedUntil) > new Date()
+        return (
+          <div className={`rounded-xl border p-6 flex items-center gap-4 ${locked
+            ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-900/50'
+            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700'}`}>
+            <Lock className={`w-6 h-6 shrink-0 ${locked ? 'text-red-600 dark:text-red-400' : 'text-gray-500'}`} />
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold text-gray-900 dark:text-white">
+                {locked
+                  ? t('admin.lockout.lockedUntil', 'Sign-in locked until {time}').replace('{time}', new Date(user.lockedUntil!).toLocaleString())
+                  : t('admin.lockout.failedAttempts', 'Recent failed sign-in attempts')}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {t('admin.lockout.count', '{count} wrong passwords in a row').replace('{count}', String(user.failedLoginCount))}
+                {user.lastFailedLoginAt && ` · ${new Date(user.lastFailedLoginAt).toLocaleString()}`}
+              </p>
+            </div>
+            <button
+              onClick={unlock}
+              disabled={unlocking}
+              className="btn-primary flex items-center gap-2 disabled:opacity-50"
+            >
+              <Unlock className="w-4 h-4" />
+              {locked ? t('admin.lockout.unlock', 'Unlock') : t('admin.lockout.reset', 'Reset counter')}
+            </button>
+          </div>
+        )
+      })()}
+
       {/* User Info */}
       <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">User information</h2>
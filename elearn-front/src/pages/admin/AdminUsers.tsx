@@ -3,7 +3,7 @@
  * CRUD operations for users, role management
  */
 import { useState } from 'react'
-import { useAdminUsers } from '@/hooks/useAdmin'
+import { useAdminUsers, useTwoFactorPolicies } from '@/hooks/useAdmin'
 import { useAuth } from '@/auth/AuthContext'
 import { useTranslation } from '@/i18n/useTranslation'
 import {
@@ -19,17 +19,20 @@ import {
   Download,
   Eye,
   Mail,
+  ShieldCheck,
+  ShieldOff,
 } from 'lucide-react'
 import { Loading } from '@/components/Skeletons'
 import ConfirmDialog from '@/components/ConfirmDialog'
 import { Pagination } from '@/components/admin/Pagination'
 import { PageHeader } from '@/components/admin/PageHeader'
 
-const ROLES = ['STUDENT', 'EDITOR', 'ADMIN'] as const
+const ROLES = ['STUDENT', 'TEACHER', 'EDITOR', 'ADMIN'] as const
 type Role = (typeof ROLES)[number]
 
 const roleColors: Record<Role, string> = {
   STUDENT: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  TEACHER: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/50 dark:text-emerald-300',
   EDITOR: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
   ADMIN: 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300',
 }
@@ -46,7 +49,9 @@ export default function AdminUsers() {
     updateRole,
     deleteUser,
     verifyUser,
+    resetTwoFactor,
   } = useAdminUsers()
+  const { policies: twoFactorPolicies, setRequired: setTwoFactorRequired } = useTwoFactorPolicies()
   
   // Stub functions for features not yet implemented
   const createUser = async (_data: { email: string; name: string; password: string; role: Role }) => { throw new Error('Not implemented') }
@@ -59,6 +64,7 @@ export default function AdminUsers() {
   const [roleChangeConfirm, setRoleChangeConfirm] = useState<{ userId: string; newRole: string; userName: string } | null>(null)
   const [validationError, setValidationError] = useState<string | null>(null)
   const [viewingUser, setViewingUser] = useState<typeof users[0] | null>(null)
+  const [twoFactorResetConfirm, setTwoFactorResetConfirm] = useState<{ id: string; name: string } | null>(null)
 
   // New user form
   const [newUser, setNewUser] = useState({
@@ -160,6 +166,16 @@ export default function AdminUsers() {
     }
   }
 
+  const handleResetTwoFactor = async () => {
+    if (!twoFactorResetConfirm) return
+    const ok = await resetTwoFactor(twoFactorResetConfirm.id)
+    if (!ok) {
+      setValidationError(t('admin.twoFactor.resetFailed', 'Failed to reset two-factor authentication'))
+    }
+    setTwoFactorResetConfirm(null)
+    setViewingUser(null)
+  }
+
   if (loading && (!users || users.length === 0)) {
     return <Loading />
   }
@@ -228,6 +244,26 @@ export default function AdminUsers() {
         </button>
       </div>
 
+      {/* 2FA policy: roles that must use two-factor authentication */}
+      {twoFactorPolicies.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 sm:gap-3 p-3 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 text-sm">
+          <span className="flex items-center gap-1.5 font-medium text-gray-700 dark:text-gray-300">
+            <ShieldCheck className="w-4 h-4" />
+            {t('admin.twoFactor.requiredFor', 'Two-factor authentication required for:')}
+          </span>
+          {twoFactorPolicies.map(policy => (
+            <label key={policy.role} className="flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={policy.required}
+                onChange={(e) => setTwoFactorRequired(policy.role, e.target.checked)}
+              />
+              {policy.role}
+            </label>
+          ))}
+        </div>
+      )}
+
       {/* Error */}
       {error && (
         <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-600 dark:text-red-400">
@@ -335,6 +371,11 @@ export default function AdminUsers() {
                         <span className="sm:hidden">!</span>
                       </span>
                     )}
+                    {user.twoFactorEnabled && (
+                      <span className="ml-2 inline-flex items-center text-blue-600 dark:text-blue-400" title={t('admin.twoFactor.enabled', '2FA on')}>
+                        <ShieldCheck className="w-3 h-3 sm:w-4 sm:h-4" />
+                      </span>
+                    )}
                   </td>
                   <td className="px-3 sm:px-6 py-3 sm:py-4 text-xs sm:text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
                     {new Date(user.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
@@ -489,6 +530,20 @@ export default function AdminUsers() {
         />
       )}
 
+      {/* 2FA Reset Confirmation */}
+      {twoFactorResetConfirm && (
+        <ConfirmDialog
+          isOpen={!!twoFactorResetConfirm}
+          title={t('admin.twoFactor.reset', 'Reset two-factor authentication')}
+          description={t('admin.twoFactor.resetConfirm', '{name} will sign in with the password only (or enrol again if their role requires 2FA).').replace('{name}', twoFactorResetConfirm.name)}
+          confirmText={t('admin.twoFactor.resetAction', 'Reset')}
+          cancelText={t('common.cancel')}
+          onConfirm={handleResetTwoFactor}
+          onClose={() => setTwoFactorResetConfirm(null)}
+          variant="warning"
+        />
+      )}
+
       {/* User Details Modal */}
       {viewingUser && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -552,6 +607,12 @@ export default function AdminUsers() {
                       {t('admin.unverified')}
                     </span>
                   )}
+                  {viewingUser.twoFactorEnabled && (
+                    <span className="ml-3 inline-flex items-center text-blue-600 dark:text-blue-400">
+                      <ShieldCheck className="w-4 h-4 mr-1" />
+                      {t('admin.twoFactor.enabled', '2FA on')}
+                    </span>
+                  )}
                 </div>
 
                 <div>
@@ -660,6 +721,22 @@ export default function AdminUsers() {
                 </div>
               )}
 
+              {/* Скидання 2FA (користувач втратив пристрій) */}
+              {viewingUser.twoFactorEnabled && (
+                <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+                  <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">
+                    {t('admin.twoFactor.reset', 'Reset two-factor authentication')}
+                  </h3>
+                  <button
+                    onClick={() => setTwoFactorResetConfirm({ id: viewingUser.id, name: viewingUser.name })}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-2"
+                  >
+                    <ShieldOff className="w-4 h-4" />
+                    {t('admin.twoFactor.reset', 'Reset two-factor authentication')}
+                  </button>
+                </div>
+              )}
+
               {/* Розділ видалення */}
               <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
                 <h3 className="text-sm font-medium text-red-600 dark:text-red-400 mb-3">
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react'
+import { Plus, Trash2, Shuffle } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import { listDrawRules, saveDrawRules, listBankTags } from '@/lib/editorApi'
+import type { BankTag, DrawRule } from '@/lib/editorApi'
+import type { Difficulty } from '@packages/shared'
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard']
+
+interface DrawRulesPanelProps {
+  quizId: string
+  onError: (message: string) => void
+}
+
+/**
+ * Editor for quiz draw rules: with rules, every attempt gets random questions from the bank
+ */
+export default function DrawRulesPanel({ quizId, onError }: DrawRulesPanelProps) {
+  const { t } = useTranslation()
+  const [rules, setRules] = useState<DrawRule[]>([])
+  const [tags, setTags] = useState<BankTag[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let mounted = true
+    listDrawRules(quizId)
+      .then((data) => { if (mounted) setRules(data) })
+      .catch(() => { /* panel stays empty */ })
+    listBankTags()
+      .then((data) => { if (mounted) setTags(data) })
+      .catch(() => { /* tag suggestions are optional */ })
+    return () => { mounted = false }
+  }, [quizId])
+
+  const updateRule = (index: number, patch: Partial<DrawRule>) => {
+    // Matching count is stale once the filter changes
+    setRules(prev => prev.map((r, i) => i === index ? { ...r, ...patch, available: undefined } : r))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      setRules(await saveDrawRules(quizId, rules.filter(r => r.count > 0)))
+    } catch (e: any) {
+      onError(e?.message || 'Failed to save draw rules')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const total = rules.reduce((sum, r) => sum + (r.count || 0), 0)
+
+  return (
+    <div className="rounded-xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-900">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-neutral-700 dark:text-neutral-300 flex items-center gap-2">
+          <Shuffle size={16} /> {t('editor.drawRules.title', 'Question bank draw')}
+        </h3>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1.5 text-xs rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {t('common.save', 'Save')}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+        {rules.length > 0
+          ? t('editor.drawRules.active', 'Each attempt draws {count} random questions from the bank instead of the list below').replace('{count}', String(total))
+          : t('editor.drawRules.hint', 'Without rules the quiz uses its own questions. Add rules to draw random tagged questions from the bank.')}
+      </p>
+
+      <div className="mt-3 space-y-2">
+        {rules.map((rule, index) => (
+          <div key={rule.id} className="flex flex-wrap items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={100}
+              className="input w-20 text-sm"
+              value={rule.count}
+              onChange={(e) => updateRule(index, { count: Math.max(0, parseInt(e.target.value || '0', 10) || 0) })}
+            />
+            <select
+              className="input w-auto text-sm"
+              value={rule.difficulty ?? ''}
+              onChange={(e) => updateRule(index, { difficulty: (e.target.value || null) as Difficulty | null })}
+            >
+              <option value="">{t('editor.drawRules.anyDifficulty', 'Any difficulty')}</option>
+              {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+            <input
+              className="input flex-1 min-w-[10rem] text-sm"
+              list={`bank-tags-${quizId}`}
+              // Uncontrolled so a trailing comma survives while typing
+              defaultValue={rule.tags.join(', ')}
+              onChange={(e) => updateRule(index, { tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean) })}
+              placeholder={t('editor.placeholder.tags', 'Tags, comma-separated (e.g. sql, joins)')}
+            />
+            {rule.available !== undefined && (
+              <span className={`text-xs ${rule.available < rule.count ? 'text-red-600' : 'text-neutral-500'}`}>
+                {t('editor.drawRules.available', '{count} in bank').replace('{count}', String(rule.available))}
+              </span>
+            )}
+            <button
+              onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}
+              className="p-1.5 text-neutral-400 hover:text-red-600 rounded-lg"
+              title={t('common.delete', 'Delete')}
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <datalist id={`bank-tags-${quizId}`}>
+        {tags.map(tag => <option key={tag.tag} value={tag.tag}>{`${tag.tag} (${tag.count})`}</option>)}
+      </datalist>
+
+      <button
+        // Client-side id only keys the row; saving sends count/difficulty/tags
+        onClick={() => setRules(prev => [...prev, { id: crypto.randomUUID(), count: 5, difficulty: null, tags: [] }])}
+        className="mt-3 inline-flex items-center gap-1 text-xs font-medium text-primary-600 hover:text-primary-700"
+      >
+        <Plus size={14} /> {t('editor.drawRules.add', 'Add rule')}
+      </button>
+    </div>
+  )
+}
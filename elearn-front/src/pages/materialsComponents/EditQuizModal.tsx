@@ -1,9 +1,34 @@
 import { useEffect, useState } from 'react'
 import { X, Trash2, Save, Loader2, AlertCircle } from 'lucide-react'
 import { useTranslation } from '@/i18n/useTranslation'
-import { listQuestions, updateQuestion, deleteQuestion, listQuizzes, updateQuiz } from '@/lib/editorApi'
+import { listQuestions, updateQuestion, deleteQuestion, listQuizzes, updateQuiz, getQuizAnalytics } from '@/lib/editorApi'
 import type { QuestionWithOptions, CreateQuestionRequest } from '@/lib/editorApi'
-import type { Difficulty, LocalizedString } from '@packages/shared'
+import DrawRulesPanel from './DrawRulesPanel'
+import QuestionStats from './QuestionStats'
+import RevisionHistoryPanel from './RevisionHistoryPanel'
+import ReviewPanel from './ReviewPanel'
+import type { Difficulty, LocalizedString, QuestionType, QuizItemAnalytics, QuizMode, ReviewPolicy } from '@packages/shared'
+
+const QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'truefalse', 'numeric', 'text']
+const CHOICE_TYPES: QuestionType[] = ['single', 'multiple', 'truefalse']
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard']
+const REVIEW_POLICIES: ReviewPolicy[] = ['AFTER_SUBMIT', 'AFTER_DATE', 'NEVER']
+
+interface QuizInfo {
+  title: string
+  titleJson: LocalizedString
+  durationSec: number
+  mode: QuizMode
+  reviewPolicy: ReviewPolicy
+  reviewAt: string // datetime-local value, empty when unset
+}
+
+// ISO date <-> value of a datetime-local input (local time, minutes precision)
+const toLocalInput = (iso?: string | null) => {
+  if (!iso) return ''
+  const d = new Date(iso)
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
 
 interface EditQuizModalProps {
   quizId: string
@@ -13,12 +38,15 @@ interface EditQuizModalProps {
 }
 
 export default function EditQuizModal({ quizId, topicId, onClose, onSave }: EditQuizModalProps) {
-  const { t } = useTranslation()
+  const { t, lang } = useTranslation()
   const [questions, setQuestions] = useState<QuestionWithOptions[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [quizInfo, setQuizInfo] = useState<{ title: string; titleJson: LocalizedString; durationSec: number } | null>(null)
+  const [quizInfo, setQuizInfo] = useState<QuizInfo | null>(null)
+  const [analytics, setAnalytics] = useState<QuizItemAnalytics | null>(null)
+  // Bumped after a revision restore to reload questions and settings
+  const [reloadKey, setReloadKey] = useState(0)
 
   useEffect(() => {
     let mounted = true
@@ -39,12 +67,27 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
             UA: q.titleJson?.UA || '',
             PL: q.titleJson?.PL || '',
           }
-          setQuizInfo({ title: q.title, titleJson, durationSec: q.durationSec })
+          setQuizInfo({
+            title: q.title,
+            titleJson,
+            durationSec: q.durationSec,
+            mode: q.mode ?? 'PRACTICE',
+            reviewPolicy: q.reviewPolicy ?? 'AFTER_SUBMIT',
+            reviewAt: toLocalInput(q.reviewAt),
+          })
         }
       })
       .catch(() => { /* ignore meta load errors */ })
     return () => { mounted = false }
-  }, [quizId, topicId])
+  }, [quizId, topicId, reloadKey])
+
+  useEffect(() => {
+    let mounted = true
+    getQuizAnalytics(quizId, lang)
+      .then((data) => { if (mounted) setAnalytics(data) })
+      .catch(() => { /* stats are optional */ })
+    return () => { mounted = false }
+  }, [quizId, lang])
 
   const langs: Array<'EN' | 'UA' | 'PL'> = ['EN', 'UA', 'PL']
 
@@ -71,6 +114,35 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
     } : q))
   }
 
+  const setQuestionType = (qId: string, type: QuestionType) => {
+    setQuestions(prev => prev.map(q => {
+      if (q.id !== qId) return q
+      let options = q.options
+      if (type === 'truefalse') {
+        options = [
+          { id: '', text: 'True', textJson: { EN: 'True', UA: 'Правда', PL: 'Prawda' }, correct: true },
+          { id: '', text: 'False', textJson: { EN: 'False', UA: 'Неправда', PL: 'Fałsz' }, correct: false },
+        ]
+      } else if (CHOICE_TYPES.includes(type) && options.length < 2) {
+        options = [
+          { id: '', text: '', correct: true },
+          { id: '', text: '', correct: false },
+        ]
+      }
+      return { ...q, type, options }
+    }))
+  }
+
+  const setOptionCorrect = (qId: string, optIndex: number, checked: boolean) => {
+    setQuestions(prev => prev.map(q => q.id === qId ? {
+      ...q,
+      // True/false keeps exactly one correct option
+      options: q.options.map((opt, i) => i === optIndex
+        ? { ...opt, correct: checked }
+        : q.type === 'truefalse' && checked ? { ...opt, correct: false } : opt)
+    } : q))
+  }
+
   const setTitleLoc = (lang: 'EN' | 'UA' | 'PL', val: string) => {
     setQuizInfo(prev => prev ? ({
       ...prev,
@@ -87,7 +159,10 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
       await updateQuiz(topicId, quizId, {
         title: quizInfo.title,
         titleJson: { EN: quizInfo.titleJson.EN || '', UA: quizInfo.titleJson.UA || '', PL: quizInfo.titleJson.PL || '' },
-        durationSec: Math.max(10, Math.min(3600, Number(quizInfo.durationSec) || 0))
+        durationSec: Math.max(10, Math.min(3600, Number(quizInfo.durationSec) || 0)),
+        mode: quizInfo.mode,
+        reviewPolicy: quizInfo.reviewPolicy,
+        reviewAt: quizInfo.reviewAt ? new Date(quizInfo.reviewAt).toISOString() : null,
       })
     } catch (e: any) {
       setError(e?.message || 'Failed to update quiz settings')
@@ -100,6 +175,7 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
     setSaving(true)
     setError(null)
     try {
+      const type = q.type ?? 'single'
       const payload: Partial<CreateQuestionRequest> = {
         text: q.text,
         textJson: ensureLoc(q.textJson as LocalizedString),
@@ -107,11 +183,15 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
         tags: q.tags || [],
         explanation: q.explanation,
         explanationJson: ensureLoc(q.explanationJson as LocalizedString),
-        options: q.options.map((o) => ({ 
+        type,
+        options: CHOICE_TYPES.includes(type) ? q.options.map((o) => ({ 
           text: o.text, 
           textJson: ensureLoc(o.textJson as LocalizedString),
           correct: !!o.correct 
-        }))
+        })) : [],
+        numericAnswer: type === 'numeric' ? q.numericAnswer ?? null : null,
+        tolerance: type === 'numeric' ? q.tolerance ?? null : null,
+        acceptedAnswers: type === 'text' ? (q.acceptedAnswers || []).map(a => a.trim()).filter(Boolean) : [],
       }
       const updated = await updateQuestion(quizId, q.id, payload)
       setQuestions(prev => prev.map(item => item.id === updated.id ? updated : item))
@@ -204,6 +284,45 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
                       </div>
                     </div>
 
+                    <div className="grid md:grid-cols-3 gap-3">
+                      <div>
+                        <label className="label text-xs">{t('editor.label.quizMode', 'Mode')}</label>
+                        <select
+                          className="input w-full"
+                          value={quizInfo.mode}
+                          onChange={(e) => setQuizInfo(prev => prev ? ({ ...prev, mode: e.target.value as QuizMode }) : prev)}
+                        >
+                          <option value="PRACTICE">{t('quiz.mode.practice', 'Practice')}</option>
+                          <option value="EXAM">{t('quiz.mode.exam', 'Exam')}</option>
+                        </select>
+                      </div>
+                      {quizInfo.mode === 'EXAM' && (
+                        <div>
+                          <label className="label text-xs">{t('editor.label.reviewPolicy', 'Show answers')}</label>
+                          <select
+                            className="input w-full"
+                            value={quizInfo.reviewPolicy}
+                            onChange={(e) => setQuizInfo(prev => prev ? ({ ...prev, reviewPolicy: e.target.value as ReviewPolicy }) : prev)}
+                          >
+                            {REVIEW_POLICIES.map(p => (
+                              <option key={p} value={p}>{t(`editor.reviewPolicy.${p}` as any, p)}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {quizInfo.mode === 'EXAM' && quizInfo.reviewPolicy === 'AFTER_DATE' && (
+                        <div>
+                          <label className="label text-xs">{t('editor.label.reviewAt', 'Answers visible from')}</label>
+                          <input
+                            type="datetime-local"
+                            className="input w-full"
+                            value={quizInfo.reviewAt}
+                            onChange={(e) => setQuizInfo(prev => prev ? ({ ...prev, reviewAt: e.target.value }) : prev)}
+                          />
+                        </div>
+                      )}
+                    </div>
+
                     <div className="mt-2 grid gap-2 p-3 rounded-lg bg-neutral-50 dark:bg-neutral-800/30">
                       {langs.map(l => (
                         <div key={l} className="flex items-center gap-3">
@@ -219,7 +338,19 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
                     </div>
                   </div>
                 )}
+                <RevisionHistoryPanel entity="quiz" entityId={quizId} onRestored={() => setReloadKey(k => k + 1)} />
               </div>
+              <ReviewPanel entity="quiz" entityId={quizId} questionIds={questions.map(q => q.id)} onChanged={() => onSave?.()} />
+              <DrawRulesPanel quizId={quizId} onError={setError} />
+
+              {analytics && analytics.attempts > 0 && (
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {t('editor.analytics.summary', '{attempts} attempts, {flagged} questions flagged')
+                    .replace('{attempts}', String(analytics.attempts))
+                    .replace('{flagged}', String(analytics.flagged))}
+                </p>
+              )}
+
               {questions.length === 0 && (
                 <div className="text-sm text-neutral-500 dark:text-neutral-400">
                   No questions yet. Add some in the quiz creation modal.
@@ -236,6 +367,7 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
                       onChange={(e) => setQuestions(prev => prev.map(item => item.id === q.id ? { ...item, text: e.target.value } : item))}
                     />
                   </div>
+                  <QuestionStats stats={analytics?.questions.find(s => s.questionId === q.id)} />
 
                   {/* Question Text Translations */}
                   <div className="mt-3 grid gap-2 p-3 rounded-lg bg-neutral-50 dark:bg-neutral-800/30">
@@ -268,50 +400,128 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
                     ))}
                   </div>
 
-                  <div className="mt-3 grid gap-2">
-                    {q.options.map((o, oi) => (
-                      <div key={o.id || oi} className="flex items-center gap-3">
-                        <input
-                          className="input flex-1"
-                          value={o.text}
-                          onChange={(e) => setQuestions(prev => prev.map((item) => item.id === q.id ? {
-                            ...item,
-                            options: item.options.map((opt, i) => i === oi ? { ...opt, text: e.target.value } : opt)
-                          } : item))}
-                        />
-                        <label className="text-xs text-neutral-600 dark:text-neutral-300 flex items-center gap-2">
+                  {/* Question Type */}
+                  <div className="mt-3 flex items-center gap-3">
+                    <label className="label text-xs mb-0">{t('editor.label.questionType', 'Question Type')}</label>
+                    <select
+                      className="input text-sm w-auto"
+                      value={q.type ?? 'single'}
+                      onChange={(e) => setQuestionType(q.id, e.target.value as QuestionType)}
+                    >
+                      {QUESTION_TYPES.map(type => (
+                        <option key={type} value={type}>{t(`editor.questionType.${type}`, type)}</option>
+                      ))}
+                    </select>
+                    <label className="label text-xs mb-0">{t('editor.label.difficulty', 'Difficulty')}</label>
+                    <select
+                      className="input text-sm w-auto"
+                      value={q.difficulty}
+                      onChange={(e) => setQuestions(prev => prev.map(item => item.id === q.id ? { ...item, difficulty: e.target.value as Difficulty } : item))}
+                    >
+                      {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                    </select>
+                  </div>
+                  <input
+                    className="input w-full text-sm mt-2"
+                    // Uncontrolled so a trailing comma survives while typing
+                    defaultValue={(q.tags || []).join(', ')}
+                    onChange={(e) => {
+                      const tags = e.target.value.split(',').map(tag => tag.trim()).filter(Boolean)
+                      setQuestions(prev => prev.map(item => item.id === q.id ? { ...item, tags } : item))
+                    }}
+                    placeholder={t('editor.placeholder.tags', 'Tags, comma-separated (e.g. sql, joins)')}
+                  />
+
+                  {CHOICE_TYPES.includes(q.type ?? 'single') && (
+                    <div className="mt-3 grid gap-2">
+                      {q.options.map((o, oi) => (
+                        <div key={o.id || oi} className="flex items-center gap-3">
                           <input
-                            type="checkbox"
-                            checked={!!o.correct}
+                            className="input flex-1"
+                            value={o.text}
                             onChange={(e) => setQuestions(prev => prev.map((item) => item.id === q.id ? {
                               ...item,
-                              options: item.options.map((opt, i) => i === oi ? { ...opt, correct: e.target.checked } : opt)
+                              options: item.options.map((opt, i) => i === oi ? { ...opt, text: e.target.value } : opt)
                             } : item))}
                           />
-                          Correct
-                        </label>
-                      </div>
-                    ))}
-
-                    {/* Option Text Translations */}
-                    <div className="mt-2 grid gap-2">
-                      {q.options.map((o, oi) => (
-                        <div key={`optloc-${o.id || oi}`} className="grid gap-2 p-2 rounded-lg bg-neutral-50 dark:bg-neutral-800/30">
-                          {langs.map(l => (
-                            <div key={`${oi}-${l}`} className="flex items-center gap-3">
-                              <span className="w-8 text-xs font-bold text-neutral-400 uppercase">{l}</span>
-                              <input
-                                className="input w-full text-sm"
-                                value={ensureLoc(o.textJson as LocalizedString)[l]}
-                                onChange={(e) => setOptionLoc(q.id, oi, l, e.target.value)}
-                                placeholder={`Option text (${l})`}
-                              />
-                            </div>
-                          ))}
+                          <label className="text-xs text-neutral-600 dark:text-neutral-300 flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={!!o.correct}
+                              onChange={(e) => setOptionCorrect(q.id, oi, e.target.checked)}
+                            />
+                            Correct
+                          </label>
                         </div>
                       ))}
+
+                      {/* Option Text Translations */}
+                      <div className="mt-2 grid gap-2">
+                        {q.options.map((o, oi) => (
+                          <div key={`optloc-${o.id || oi}`} className="grid gap-2 p-2 rounded-lg bg-neutral-50 dark:bg-neutral-800/30">
+                            {langs.map(l => (
+                              <div key={`${oi}-${l}`} className="flex items-center gap-3">
+                                <span className="w-8 text-xs font-bold text-neutral-400 uppercase">{l}</span>
+                                <input
+                                  className="input w-full text-sm"
+                                  value={ensureLoc(o.textJson as LocalizedString)[l]}
+                                  onChange={(e) => setOptionLoc(q.id, oi, l, e.target.value)}
+                                  placeholder={`Option text (${l})`}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                  </div>
+                  )}
+
+                  {q.type === 'numeric' && (
+                    <div className="mt-3 grid md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="label text-xs">{t('editor.label.numericAnswer', 'Correct value')}</label>
+                        <input
+                          type="number"
+                          step="any"
+                          className="input w-full"
+                          value={q.numericAnswer ?? ''}
+                          onChange={(e) => setQuestions(prev => prev.map(item => item.id === q.id ? {
+                            ...item,
+                            numericAnswer: e.target.value === '' ? null : Number(e.target.value)
+                          } : item))}
+                        />
+                      </div>
+                      <div>
+                        <label className="label text-xs">{t('editor.label.tolerance', 'Tolerance (±)')}</label>
+                        <input
+                          type="number"
+                          step="any"
+                          min={0}
+                          className="input w-full"
+                          value={q.tolerance ?? ''}
+                          onChange={(e) => setQuestions(prev => prev.map(item => item.id === q.id ? {
+                            ...item,
+                            tolerance: e.target.value === '' ? null : Math.abs(Number(e.target.value))
+                          } : item))}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {q.type === 'text' && (
+                    <div className="mt-3">
+                      <label className="label text-xs">{t('editor.label.acceptedAnswers', 'Accepted answers (one per line)')}</label>
+                      <textarea
+                        className="input w-full text-sm resize-none"
+                        rows={3}
+                        value={(q.acceptedAnswers || []).join('\n')}
+                        onChange={(e) => setQuestions(prev => prev.map(item => item.id === q.id ? {
+                          ...item,
+                          acceptedAnswers: e.target.value.split('\n')
+                        } : item))}
+                      />
+                    </div>
+                  )}
 
                   <div className="mt-4 flex justify-end gap-2">
                     <button
@@ -328,6 +538,7 @@ export default function EditQuizModal({ quizId, topicId, onClose, onSave }: Edit
                       <Save size={16} />
                     </button>
                   </div>
+                  <RevisionHistoryPanel entity="question" entityId={q.id} onRestored={() => setReloadKey(k => k + 1)} />
                 </div>
               ))}
             </div>
@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react'
-import { X, AlignLeft, Link as LinkIcon, Video, FileText } from 'lucide-react'
+import { X, AlignLeft, Link as LinkIcon, Video, FileText, ScrollText, Layers, BookA } from 'lucide-react'
 import { useTranslation } from '@/i18n/useTranslation'
 import { apiPost, apiPut } from '@/lib/http'
 import { LoadingButton } from '@/components/LoadingButton'
+import RevisionHistoryPanel from './RevisionHistoryPanel'
+import ReviewPanel from './ReviewPanel'
+import StudyAidsPanel from './StudyAidsPanel'
+import { isStudyAid } from '@/utils/studyAids'
 import type { Material, Lang, LocalizedString, MaterialType } from '@packages/shared'
 
 interface MaterialModalProps {
@@ -32,7 +36,8 @@ export const MaterialModal: React.FC<MaterialModalProps> = ({
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const isText = type === 'text'
+  // Study aids are HTML like text materials
+  const isText = type === 'text' || isStudyAid(type)
   const languages: Lang[] = ['UA', 'PL', 'EN']
 
   const trimTranslations = (source: LocalizedString): LocalizedString => ({
@@ -175,7 +180,10 @@ export const MaterialModal: React.FC<MaterialModalProps> = ({
 
   if (!isOpen) return null
 
-  const Icon = isText ? AlignLeft : type === 'video' ? Video : type === 'pdf' ? FileText : LinkIcon
+  const Icon = type === 'summary' ? ScrollText
+    : type === 'flashcards' ? Layers
+    : type === 'glossary' ? BookA
+    : isText ? AlignLeft : type === 'video' ? Video : type === 'pdf' ? FileText : LinkIcon
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
@@ -269,6 +277,23 @@ export const MaterialModal: React.FC<MaterialModalProps> = ({
               </p>
             )}
           </div>
+
+          {/* Рецензування та публікація */}
+          {material?.id && <ReviewPanel entity="material" entityId={material.id} />}
+
+          {/* Історія змін: відновлена версія перезавантажує список матеріалів */}
+          {material?.id && (
+            <RevisionHistoryPanel
+              entity="material"
+              entityId={material.id}
+              onRestored={() => { onSave(); onClose() }}
+            />
+          )}
+
+          {/* AI: конспект, картки та глосарій на основі матеріалу */}
+          {material?.id && (type === 'text' || type === 'pdf' || type === 'video') && (
+            <StudyAidsPanel materialId={material.id} onCreated={onSave} />
+          )}
         </form>
 
         {/* Footer */}
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { AlertTriangle, BarChart3, ChevronDown, ChevronUp } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import type { QuestionItemStats } from '@packages/shared'
+
+interface QuestionStatsProps {
+  stats?: QuestionItemStats
+}
+
+// Discrimination below 0.2 means the question barely separates strong and weak students
+const discriminationTone = (d: number) =>
+  d < 0 ? 'text-red-600' : d < 0.2 ? 'text-amber-600' : 'text-green-600'
+
+/**
+ * Item analytics of one question: response count, % correct, discrimination, time and option picks
+ */
+export default function QuestionStats({ stats }: QuestionStatsProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+
+  if (!stats || stats.responses === 0) {
+    return (
+      <p className="mt-2 text-xs text-neutral-400 flex items-center gap-1.5">
+        <BarChart3 size={14} /> {t('editor.analytics.noData', 'No answers yet')}
+      </p>
+    )
+  }
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-neutral-600 dark:text-neutral-400 text-left"
+      >
+        <span className="flex items-center gap-1.5"><BarChart3 size={14} /> {t('editor.analytics.responses', '{count} answers').replace('{count}', String(stats.responses))}</span>
+        <span>{t('editor.analytics.correct', 'Correct')}: <b>{stats.percentCorrect}%</b></span>
+        {stats.discrimination !== null && (
+          <span title={t('editor.analytics.discriminationHint', 'Top 27% of scorers minus bottom 27%')}>
+            {t('editor.analytics.discrimination', 'Discrimination')}: <b className={discriminationTone(stats.discrimination)}>{stats.discrimination.toFixed(2)}</b>
+          </span>
+        )}
+        {stats.avgTimeMs !== null && (
+          <span>{t('editor.analytics.avgTime', 'Avg time')}: <b>{Math.round(stats.avgTimeMs / 1000)}s</b></span>
+        )}
+        {stats.flags.map(flag => (
+          <span key={flag} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300 font-medium">
+            <AlertTriangle size={12} /> {t(`editor.analytics.flag.${flag}` as any, flag)}
+          </span>
+        ))}
+        {stats.options.length > 0 && (open ? <ChevronUp size={14} className="ml-auto" /> : <ChevronDown size={14} className="ml-auto" />)}
+      </button>
+
+      {open && stats.options.length > 0 && (
+        <div className="mt-2 space-y-1.5">
+          {stats.options.map(o => (
+            <div key={o.id} className="flex items-center gap-2 text-xs">
+              <span className={`w-40 truncate ${o.correct ? 'font-semibold text-green-700 dark:text-green-400' : 'text-neutral-600 dark:text-neutral-400'}`} title={o.text}>
+                {o.text}
+              </span>
+              <div className="flex-1 h-2 bg-neutral-100 dark:bg-neutral-800 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${o.correct ? 'bg-green-500' : 'bg-neutral-400'}`} style={{ width: `${o.percent}%` }} />
+              </div>
+              <span className="w-16 text-right tabular-nums text-neutral-500">{o.count} ({o.percent}%)</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,8 +3,8 @@ import { X, Plus, Trash2, CheckCircle2, Circle, Clock, Save, AlertCircle, Sparkl
 import { apiPost } from '@/lib/http'
 import { useTranslation } from '@/i18n/useTranslation'
 import { LoadingButton } from '@/components/LoadingButton'
-import { checkAIStatus, generateQuizWithAI, type AIContentType, type AILanguage } from '@/lib/editorApi'
-import type { Difficulty } from '@packages/shared'
+import { checkAIStatus, generateQuizWithAI, getAIJob, type AIContentType, type AIGenerateQuizResult, type AIJob, type AILanguage } from '@/lib/editorApi'
+import type { Difficulty, QuestionType } from '@packages/shared'
 
 interface QuizModalProps {
   topicId: string
@@ -20,9 +20,24 @@ interface Option {
 interface Question {
   text: string
   difficulty: Difficulty
+  type: QuestionType
   options: Option[]
+  numericAnswer: string
+  tolerance: string
+  acceptedAnswers: string
+  tags: string // Comma-separated
 }
 
+const QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'truefalse', 'numeric', 'text']
+const CHOICE_TYPES: QuestionType[] = ['single', 'multiple', 'truefalse']
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard']
+
+/** Whether the saved questions' difficulties differ from the requested mix */
+const mixDiffers = (result: AIGenerateQuizResult) =>
+  !!result.difficultyMix && DIFFICULTIES.some(d => result.difficultyMix!.actual[d] !== result.difficultyMix!.requested[d])
+
+const formatMix = (mix: Record<Difficulty, number>) => DIFFICULTIES.map(d => `${mix[d]} ${d}`).join(', ')
+
 export const QuizModal = memo(function QuizModal({
   topicId,
   onClose,
@@ -37,11 +52,17 @@ export const QuizModal = memo(function QuizModal({
   const [aiAvailable, setAiAvailable] = useState<boolean | null>(null)
   const [aiLoading, setAiLoading] = useState(false)
   const [aiError, setAiError] = useState<string | null>(null)
+  const [aiJob, setAiJob] = useState<AIJob | null>(null)
+  const [aiResult, setAiResult] = useState<AIGenerateQuizResult | null>(null)
   
   // AI Input
   const [aiContentType, setAiContentType] = useState<AIContentType>('text')
   const [aiContent, setAiContent] = useState('')
   const [aiLanguage, setAiLanguage] = useState<AILanguage>(lang.toUpperCase() as AILanguage || 'EN')
+  const [aiMix, setAiMix] = useState<Record<Difficulty, number>>({ Easy: 2, Medium: 2, Hard: 1 })
+  const [aiOptionCount, setAiOptionCount] = useState(4)
+  const [aiTags, setAiTags] = useState('')
+  const aiQuestionCount = aiMix.Easy + aiMix.Medium + aiMix.Hard
   
   // Manual mode state
   const [title, setTitle] = useState('')
@@ -57,17 +78,73 @@ export const QuizModal = memo(function QuizModal({
       .catch(() => setAiAvailable(false))
   }, [])
 
+  // Poll the queued generation job until it finishes
+  const aiJobId = aiJob?.id
+  useEffect(() => {
+    if (!aiJobId) return
+    const timer = setInterval(async () => {
+      try {
+        const job = await getAIJob(aiJobId)
+        setAiJob(job)
+        if (job.status === 'succeeded') {
+          clearInterval(timer)
+          onSave?.()
+          // Stay open to report what was dropped or a different difficulty mix; otherwise we're done
+          if (job.result && (job.result.duplicatesDropped + job.result.invalidDropped > 0 || mixDiffers(job.result))) {
+            setAiResult(job.result)
+            setAiJob(null)
+            setAiLoading(false)
+          } else {
+            onClose()
+          }
+        } else if (job.status === 'failed') {
+          clearInterval(timer)
+          setAiError(job.error || t('editor.ai_job.failed', 'Quiz generation failed'))
+          setAiJob(null)
+          setAiLoading(false)
+        }
+      } catch {
+        // Transient network errors: keep polling
+      }
+    }, 2000)
+    return () => clearInterval(timer)
+  }, [aiJobId])
+
   const addQuestion = () => {
     setQuestions(prev => [...prev, {
       text: '',
       difficulty: 'Medium',
+      type: 'single',
       options: [
         { text: '', correct: true },
         { text: '', correct: false },
-      ]
+      ],
+      numericAnswer: '',
+      tolerance: '',
+      acceptedAnswers: '',
+      tags: '',
     }])
   }
 
+  const changeQuestionType = (index: number, type: QuestionType) => {
+    setQuestions(prev => prev.map((q, i) => {
+      if (i !== index) return q
+      let options = q.options
+      if (type === 'truefalse') {
+        options = [
+          { text: t('quiz.true', 'True'), correct: true },
+          { text: t('quiz.false', 'False'), correct: false },
+        ]
+      } else if (CHOICE_TYPES.includes(type) && options.length < 2) {
+        options = [
+          { text: '', correct: true },
+          { text: '', correct: false },
+        ]
+      }
+      return { ...q, type, options }
+    }))
+  }
+
   const updateQuestion = (index: number, field: keyof Question, value: any) => {
     setQuestions(prev => prev.map((q, i) => i === index ? { ...q, [field]: value } : q))
   }
@@ -119,25 +196,31 @@ export const QuizModal = memo(function QuizModal({
           : 'Please enter text content')
       return
     }
+    if (aiQuestionCount < 1 || aiQuestionCount > 20) {
+      setAiError(t('editor.ai_count_error', 'Choose between 1 and 20 questions'))
+      return
+    }
 
     setAiLoading(true)
     setAiError(null)
+    setAiResult(null)
 
     try {
-      await generateQuizWithAI({
+      // Generation runs as a background job; the effect above polls it
+      const job = await generateQuizWithAI({
         topicId,
         content: aiContent,
         type: aiContentType,
         language: aiLanguage,
         durationSec,
+        questionCount: aiQuestionCount,
+        difficultyMix: aiMix,
+        optionCount: aiOptionCount,
+        tags: aiTags.split(',').map(tag => tag.trim()).filter(Boolean),
       })
-
-      // Quiz created successfully, close modal and refresh
-      onSave?.()
-      onClose()
+      setAiJob(job)
     } catch (err: any) {
       setAiError(err.message || 'Failed to generate quiz. Please try again.')
-    } finally {
       setAiLoading(false)
     }
   }
@@ -148,7 +231,10 @@ export const QuizModal = memo(function QuizModal({
         ? {
             ...q,
             options: q.options.map((o, oi) => 
-              oi === oIndex ? { ...o, [field]: value } : o
+              oi === oIndex
+                ? { ...o, [field]: value }
+                // True/false keeps exactly one correct option
+                : field === 'correct' && value && q.type === 'truefalse' ? { ...o, correct: false } : o
             )
           }
         : q
@@ -184,6 +270,20 @@ export const QuizModal = memo(function QuizModal({
         setError(`Question ${i + 1} text is required`)
         return
       }
+      if (q.type === 'numeric') {
+        if (q.numericAnswer.trim() === '' || !Number.isFinite(Number(q.numericAnswer))) {
+          setError(`Question ${i + 1}: ${t('editor.error.numericAnswerRequired', 'Numeric question needs a correct value')}`)
+          return
+        }
+        continue
+      }
+      if (q.type === 'text') {
+        if (!q.acceptedAnswers.split('\n').some(a => a.trim())) {
+          setError(`Question ${i + 1}: ${t('editor.error.acceptedAnswersRequired', 'Add at least one accepted answer')}`)
+          return
+        }
+        continue
+      }
       if (q.options.length < 2) {
         setError(`Question ${i + 1} must have at least 2 options`)
         return
@@ -216,8 +316,12 @@ export const QuizModal = memo(function QuizModal({
           apiPost(`/editor/quizzes/${newQuiz.id}/questions`, {
             text: q.text,
             difficulty: q.difficulty,
-            options: q.options,
-            tags: []
+            type: q.type,
+            options: CHOICE_TYPES.includes(q.type) ? q.options : [],
+            numericAnswer: q.type === 'numeric' ? Number(q.numericAnswer) : undefined,
+            tolerance: q.type === 'numeric' && q.tolerance.trim() !== '' ? Math.abs(Number(q.tolerance)) : undefined,
+            acceptedAnswers: q.type === 'text' ? q.acceptedAnswers.split('\n').map(a => a.trim()).filter(Boolean) : undefined,
+            tags: q.tags.split(',').map(tag => tag.trim()).filter(Boolean)
           })
         ))
       }
@@ -297,6 +401,51 @@ export const QuizModal = memo(function QuizModal({
               </div>
             )}
 
+            {aiResult && (
+              <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-900/50 rounded-xl text-green-700 dark:text-green-400 text-sm space-y-1">
+                <p className="flex items-center gap-2 font-medium">
+                  <CheckCircle2 size={16} />
+                  {t('editor.ai_job.done', 'Quiz "{title}" created as a draft with {count} questions.')
+                    .replace('{title}', aiResult.title)
+                    .replace('{count}', String(aiResult.questionsCount))}
+                </p>
+                <p>
+                  {t('editor.ai_job.dropped', 'Dropped: {duplicates} near-duplicates of existing questions, {invalid} malformed questions.')
+                    .replace('{duplicates}', String(aiResult.duplicatesDropped))
+                    .replace('{invalid}', String(aiResult.invalidDropped))}
+                </p>
+                {aiResult.difficultyMix && mixDiffers(aiResult) && (
+                  <p>
+                    {t('editor.ai_job.mix', 'By difficulty: {actual} instead of the requested {requested}.')
+                      .replace('{actual}', formatMix(aiResult.difficultyMix.actual))
+                      .replace('{requested}', formatMix(aiResult.difficultyMix.requested))}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {aiJob && (
+              <div className="p-4 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800/50 rounded-xl text-sm space-y-1">
+                <div className="flex items-center gap-2 font-medium text-purple-700 dark:text-purple-300">
+                  <Loader2 size={16} className="animate-spin" />
+                  {aiJob.status === 'running' && aiJob.stage
+                    ? t(`editor.ai_job.${aiJob.stage}`, aiJob.stage)
+                    : t('editor.ai_job.queued', 'Queued…')}
+                </div>
+                {aiJob.status === 'queued' && aiJob.attempts > 0 && aiJob.error && (
+                  <p className="text-amber-700 dark:text-amber-400">
+                    {t('editor.ai_job.retrying', 'Attempt {attempt} of {max} failed, retrying shortly: {error}')
+                      .replace('{attempt}', String(aiJob.attempts))
+                      .replace('{max}', String(aiJob.maxAttempts))
+                      .replace('{error}', aiJob.error)}
+                  </p>
+                )}
+                <p className="text-neutral-600 dark:text-neutral-400">
+                  {t('editor.ai_job.background', 'You can close this window: generation continues in the background and the quiz will appear as a draft.')}
+                </p>
+              </div>
+            )}
+
             {/* AI Info Banner */}
             <div className="p-4 bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 border border-purple-200 dark:border-purple-800/50 rounded-xl">
               <div className="flex items-start gap-3">
@@ -306,7 +455,7 @@ export const QuizModal = memo(function QuizModal({
                     {t('editor.ai_title', 'AI-Powered Quiz Generation')}
                   </h4>
                   <p className="text-sm text-purple-700 dark:text-purple-300">
-                    {t('editor.ai_description', 'Automatically generate 5 questions from your content using Google Gemini AI. Supports text, PDF documents, and YouTube videos with captions.')}
+                    {t('editor.ai_description', 'Automatically generate questions from your content using Google Gemini AI. Supports text, PDF documents, and YouTube videos with captions.')}
                   </p>
                 </div>
               </div>
@@ -461,6 +610,62 @@ export const QuizModal = memo(function QuizModal({
                 />
               </div>
             </div>
+
+            {/* Generation controls */}
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-neutral-700 dark:text-neutral-300 mb-1.5">
+                  {t('editor.ai_questions_by_difficulty', 'Questions by difficulty')}
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['Easy', 'Medium', 'Hard'] as const).map(d => (
+                    <label key={d} className="text-xs text-neutral-500 dark:text-neutral-400">
+                      {d}
+                      <input
+                        type="number"
+                        value={aiMix[d]}
+                        onChange={(e) => setAiMix(prev => ({ ...prev, [d]: Math.max(0, parseInt(e.target.value) || 0) }))}
+                        min="0"
+                        max="20"
+                        className="mt-1 w-full px-3 py-2.5 border border-neutral-200 dark:border-neutral-700 rounded-xl bg-white dark:bg-neutral-800 text-sm text-neutral-900 dark:text-white focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 outline-none transition-all"
+                        disabled={aiLoading}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <p className={`mt-1 text-xs ${aiQuestionCount < 1 || aiQuestionCount > 20 ? 'text-red-500' : 'text-neutral-400'}`}>
+                  {t('editor.ai_total_questions', '{count} questions in total').replace('{count}', String(aiQuestionCount))}
+                </p>
+              </div>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-semibold text-neutral-700 dark:text-neutral-300 mb-1.5">
+                    {t('editor.ai_option_count', 'Options per question')}
+                  </label>
+                  <select
+                    value={aiOptionCount}
+                    onChange={(e) => setAiOptionCount(parseInt(e.target.value))}
+                    className="w-full px-3 py-2.5 border border-neutral-200 dark:border-neutral-700 rounded-xl bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 outline-none transition-all"
+                    disabled={aiLoading}
+                  >
+                    {[2, 3, 4, 5, 6].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-neutral-700 dark:text-neutral-300 mb-1.5">
+                    {t('editor.ai_tags', 'Tags for generated questions')}
+                  </label>
+                  <input
+                    type="text"
+                    value={aiTags}
+                    onChange={(e) => setAiTags(e.target.value)}
+                    placeholder={t('editor.placeholder.tags', 'Tags, comma-separated (e.g. sql, joins)')}
+                    className="w-full px-3 py-2.5 border border-neutral-200 dark:border-neutral-700 rounded-xl bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 outline-none transition-all"
+                    disabled={aiLoading}
+                  />
+                </div>
+              </div>
+            </div>
           </div>
         ) : (
         /* Body - Manual Mode */
@@ -550,15 +755,27 @@ export const QuizModal = memo(function QuizModal({
                           <label className="text-xs font-bold text-primary-600 dark:text-primary-400 uppercase tracking-wider">
                             {t('editor.question', 'Question')} {qIdx + 1}
                           </label>
+                          <div className="flex items-center gap-2">
+                          <select
+                            value={question.type}
+                            onChange={(e) => changeQuestionType(qIdx, e.target.value as QuestionType)}
+                            title={t('editor.label.questionType', 'Question Type')}
+                            className="text-xs px-2 py-1 border border-neutral-200 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-700 dark:text-neutral-300 focus:border-primary-500 outline-none"
+                          >
+                            {QUESTION_TYPES.map(type => (
+                              <option key={type} value={type}>{t(`editor.questionType.${type}`, type)}</option>
+                            ))}
+                          </select>
                           <select
                             value={question.difficulty}
                             onChange={(e) => updateQuestion(qIdx, 'difficulty', e.target.value)}
                             className="text-xs px-2 py-1 border border-neutral-200 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-700 dark:text-neutral-300 focus:border-primary-500 outline-none"
                           >
-                            <option value="EASY">Easy</option>
-                            <option value="MEDIUM">Medium</option>
-                            <option value="HARD">Hard</option>
+                            <option value="Easy">Easy</option>
+                            <option value="Medium">Medium</option>
+                            <option value="Hard">Hard</option>
                           </select>
+                          </div>
                         </div>
                         <input
                           type="text"
@@ -568,6 +785,13 @@ export const QuizModal = memo(function QuizModal({
                           className="w-full px-3 py-2 border border-neutral-200 dark:border-neutral-700 rounded-lg bg-white dark:bg-neutral-900 text-neutral-900 dark:text-white text-sm focus:ring-1 focus:ring-primary-500 focus:border-primary-500 outline-none"
                           required
                         />
+                        <input
+                          type="text"
+                          value={question.tags}
+                          onChange={(e) => updateQuestion(qIdx, 'tags', e.target.value)}
+                          placeholder={t('editor.placeholder.tags', 'Tags, comma-separated (e.g. sql, joins)')}
+                          className="mt-2 w-full px-3 py-1.5 border border-neutral-200 dark:border-neutral-700 rounded-lg bg-white dark:bg-neutral-900 text-neutral-700 dark:text-neutral-300 text-xs focus:ring-1 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                        />
                       </div>
                       <button
                         type="button"
@@ -580,55 +804,103 @@ export const QuizModal = memo(function QuizModal({
                     </div>
 
                     {/* Options */}
-                    <div className="pl-0 sm:pl-4 border-l-2 border-neutral-200 dark:border-neutral-700 space-y-3">
-                      {question.options.map((option, oIdx) => (
-                        <div key={oIdx} className="flex items-center gap-3">
+                    {CHOICE_TYPES.includes(question.type) && (
+                      <div className="pl-0 sm:pl-4 border-l-2 border-neutral-200 dark:border-neutral-700 space-y-3">
+                        {question.options.map((option, oIdx) => (
+                          <div key={oIdx} className="flex items-center gap-3">
+                            <button
+                              type="button"
+                              onClick={() => updateOption(qIdx, oIdx, 'correct', !option.correct)}
+                              className="flex-shrink-0 focus:outline-none"
+                              title={option.correct ? 'Correct Answer' : 'Mark as Correct'}
+                            >
+                              {option.correct ? (
+                                <CheckCircle2 size={22} className="text-green-500" />
+                              ) : (
+                                <Circle size={22} className="text-neutral-300 dark:text-neutral-600 hover:text-green-500 dark:hover:text-green-500 transition-colors" />
+                              )}
+                            </button>
+
+                            <input
+                              type="text"
+                              value={option.text}
+                              onChange={(e) => updateOption(qIdx, oIdx, 'text', e.target.value)}
+                              placeholder={`${t('editor.options', 'Option')} ${oIdx + 1}`}
+                              className={`flex-1 px-3 py-1.5 border rounded-lg text-sm bg-white dark:bg-neutral-900 text-neutral-900 dark:text-white outline-none transition-colors ${
+                                option.correct 
+                                  ? 'border-green-300 dark:border-green-800 ring-1 ring-green-500/20' 
+                                  : 'border-neutral-200 dark:border-neutral-700 focus:border-primary-500'
+                              }`}
+                              required
+                            />
+
+                            {question.options.length > 2 && question.type !== 'truefalse' && (
+                              <button
+                                type="button"
+                                onClick={() => removeOption(qIdx, oIdx)}
+                                className="text-neutral-300 hover:text-red-500 transition-colors px-1"
+                              >
+                                <X size={16} />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      
+                        {question.type !== 'truefalse' && (
                           <button
                             type="button"
-                            onClick={() => updateOption(qIdx, oIdx, 'correct', !option.correct)}
-                            className="flex-shrink-0 focus:outline-none"
-                            title={option.correct ? 'Correct Answer' : 'Mark as Correct'}
+                            onClick={() => addOption(qIdx)}
+                            className="text-xs text-primary-600 dark:text-primary-400 hover:underline font-medium pl-9"
                           >
-                            {option.correct ? (
-                              <CheckCircle2 size={22} className="text-green-500" />
-                            ) : (
-                              <Circle size={22} className="text-neutral-300 dark:text-neutral-600 hover:text-green-500 dark:hover:text-green-500 transition-colors" />
-                            )}
+                            + {t('editor.add_option', 'Add Option')}
                           </button>
+                        )}
+                      </div>
+                    )}
 
+                    {question.type === 'numeric' && (
+                      <div className="pl-0 sm:pl-4 border-l-2 border-neutral-200 dark:border-neutral-700 grid sm:grid-cols-2 gap-3">
+                        <div>
+                          <label className="text-xs font-medium text-neutral-500 dark:text-neutral-400">
+                            {t('editor.label.numericAnswer', 'Correct value')}
+                          </label>
                           <input
-                            type="text"
-                            value={option.text}
-                            onChange={(e) => updateOption(qIdx, oIdx, 'text', e.target.value)}
-                            placeholder={`${t('editor.options', 'Option')} ${oIdx + 1}`}
-                            className={`flex-1 px-3 py-1.5 border rounded-lg text-sm bg-white dark:bg-neutral-900 text-neutral-900 dark:text-white outline-none transition-colors ${
-                              option.correct 
-                                ? 'border-green-300 dark:border-green-800 ring-1 ring-green-500/20' 
-                                : 'border-neutral-200 dark:border-neutral-700 focus:border-primary-500'
-                            }`}
-                            required
+                            type="number"
+                            step="any"
+                            value={question.numericAnswer}
+                            onChange={(e) => updateQuestion(qIdx, 'numericAnswer', e.target.value)}
+                            className="w-full mt-1 px-3 py-1.5 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm bg-white dark:bg-neutral-900 text-neutral-900 dark:text-white outline-none focus:border-primary-500"
                           />
-
-                          {question.options.length > 2 && (
-                            <button
-                              type="button"
-                              onClick={() => removeOption(qIdx, oIdx)}
-                              className="text-neutral-300 hover:text-red-500 transition-colors px-1"
-                            >
-                              <X size={16} />
-                            </button>
-                          )}
                         </div>
-                      ))}
-                      
-                      <button
-                        type="button"
-                        onClick={() => addOption(qIdx)}
-                        className="text-xs text-primary-600 dark:text-primary-400 hover:underline font-medium pl-9"
-                      >
-                        + {t('editor.add_option', 'Add Option')}
-                      </button>
-                    </div>
+                        <div>
+                          <label className="text-xs font-medium text-neutral-500 dark:text-neutral-400">
+                            {t('editor.label.tolerance', 'Tolerance (±)')}
+                          </label>
+                          <input
+                            type="number"
+                            step="any"
+                            min={0}
+                            value={question.tolerance}
+                            onChange={(e) => updateQuestion(qIdx, 'tolerance', e.target.value)}
+                            className="w-full mt-1 px-3 py-1.5 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm bg-white dark:bg-neutral-900 text-neutral-900 dark:text-white outline-none focus:border-primary-500"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {question.type === 'text' && (
+                      <div className="pl-0 sm:pl-4 border-l-2 border-neutral-200 dark:border-neutral-700">
+                        <label className="text-xs font-medium text-neutral-500 dark:text-neutral-400">
+                          {t('editor.label.acceptedAnswers', 'Accepted answers (one per line)')}
+                        </label>
+                        <textarea
+                          rows={3}
+                          value={question.acceptedAnswers}
+                          onChange={(e) => updateQuestion(qIdx, 'acceptedAnswers', e.target.value)}
+                          className="w-full mt-1 px-3 py-1.5 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm bg-white dark:bg-neutral-900 text-neutral-900 dark:text-white outline-none focus:border-primary-500 resize-none"
+                        />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -642,10 +914,10 @@ export const QuizModal = memo(function QuizModal({
           <button
             type="button"
             onClick={onClose}
-            disabled={loading || aiLoading}
+            disabled={loading || (aiLoading && !aiJob)}
             className="px-4 py-2 rounded-xl text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 font-medium transition-colors text-sm"
           >
-            {t('common.cancel', 'Cancel')}
+            {aiResult ? t('common.close', 'Close') : t('common.cancel', 'Cancel')}
           </button>
           
           {mode === 'ai' ? (
@@ -0,0 +1,208 @@
+import { useState } from 'react'
+import { X, Upload, Download, FileCheck2, AlertTriangle, Ban } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import { LoadingButton } from '@/components/LoadingButton'
+import { exportQuizFile, importQuizFile } from '@/lib/editorApi'
+import type { QuizFormat, QuizFormatReport } from '@packages/shared'
+
+interface QuizTransferModalProps {
+  topicId: string
+  quiz?: { id: string; title: string } // Export this quiz; import into the topic when omitted
+  onClose: () => void
+  onImported?: () => void
+}
+
+const FORMATS: { id: QuizFormat; label: string; accept: string }[] = [
+  { id: 'moodle', label: 'Moodle XML', accept: '.xml' },
+  { id: 'gift', label: 'GIFT', accept: '.txt,.gift' },
+  { id: 'qti', label: 'QTI 2.1', accept: '.zip,.xml' },
+]
+
+// Files go as base64 so any encoding and binary packages (QTI .zip) arrive intact
+async function fileToBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function downloadFile(content: string, encoding: 'utf8' | 'base64', filename: string, mimeType: string) {
+  const data = encoding === 'base64' ? Uint8Array.from(atob(content), c => c.charCodeAt(0)) : content
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Import a quiz from Moodle XML / GIFT / QTI, or export one, showing the per-item conversion report
+ */
+export default function QuizTransferModal({ topicId, quiz, onClose, onImported }: QuizTransferModalProps) {
+  const { t } = useTranslation()
+  const [format, setFormat] = useState<QuizFormat>('moodle')
+  const [file, setFile] = useState<File | null>(null)
+  const [title, setTitle] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [report, setReport] = useState<QuizFormatReport | null>(null)
+  const [done, setDone] = useState<string | null>(null)
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return
+    setLoading(true)
+    setDone(null)
+    try {
+      const result = await importQuizFile(topicId, {
+        format,
+        content: await fileToBase64(file),
+        encoding: 'base64',
+        title: title.trim() || undefined,
+        dryRun,
+      })
+      setReport(result.report)
+      setDone(dryRun
+        ? t('editor.transfer.checked', '{count} questions can be imported').replace('{count}', String(result.report.converted))
+        : t('editor.transfer.imported', 'Quiz "{title}" created as a draft').replace('{title}', result.title))
+      if (!dryRun) onImported?.()
+    } catch (err: any) {
+      // Nothing convertible: the error carries the report
+      setReport(err?.response?.data?.error?.details?.report ?? null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runExport = async () => {
+    if (!quiz) return
+    setLoading(true)
+    try {
+      const result = await exportQuizFile(topicId, quiz.id, format)
+      downloadFile(result.content, result.encoding, result.filename, result.mimeType)
+      setReport(result.report)
+      setDone(t('editor.transfer.exported', '{count} questions exported').replace('{count}', String(result.report.converted)))
+    } catch {
+      setReport(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-neutral-900 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col border border-neutral-200 dark:border-neutral-800">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-neutral-100 dark:border-neutral-800 bg-neutral-50/50 dark:bg-neutral-900/50">
+          <h2 className="text-lg font-bold text-neutral-900 dark:text-white flex items-center gap-2">
+            {quiz ? <Download size={20} className="text-primary-600" /> : <Upload size={20} className="text-primary-600" />}
+            {quiz
+              ? t('editor.transfer.exportTitle', 'Export "{title}"').replace('{title}', quiz.title)
+              : t('editor.transfer.importTitle', 'Import quiz')}
+          </h2>
+          <button onClick={onClose} type="button" className="p-2 rounded-lg text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">{t('editor.transfer.format', 'Format')}</label>
+            <div className="flex flex-wrap gap-2">
+              {FORMATS.map(f => (
+                <button
+                  key={f.id}
+                  type="button"
+                  onClick={() => { setFormat(f.id); setReport(null); setDone(null) }}
+                  className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                    format === f.id
+                      ? 'border-primary-600 bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300'
+                      : 'border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800'
+                  }`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!quiz && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">{t('editor.transfer.file', 'File')}</label>
+                <input
+                  type="file"
+                  accept={FORMATS.find(f => f.id === format)!.accept}
+                  onChange={e => { setFile(e.target.files?.[0] ?? null); setReport(null); setDone(null) }}
+                  className="block w-full text-sm text-neutral-600 dark:text-neutral-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-neutral-100 dark:file:bg-neutral-800 file:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">{t('editor.transfer.quizTitle', 'Quiz title (optional)')}</label>
+                <input
+                  value={title}
+                  onChange={e => setTitle(e.target.value)}
+                  placeholder={t('editor.transfer.quizTitleHint', 'Taken from the file category if empty')}
+                  className="input w-full"
+                />
+              </div>
+            </>
+          )}
+
+          {done && (
+            <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+              <FileCheck2 size={16} /> {done}
+            </p>
+          )}
+
+          {report && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                {t('editor.transfer.summary', '{converted} converted, {skipped} skipped')
+                  .replace('{converted}', String(report.converted))
+                  .replace('{skipped}', String(report.skipped))}
+              </p>
+              {report.issues.length === 0 ? (
+                <p className="text-xs text-neutral-500">{t('editor.transfer.noIssues', 'Everything was converted without changes')}</p>
+              ) : (
+                <ul className="space-y-1.5 max-h-64 overflow-y-auto">
+                  {report.issues.map((issue, i) => (
+                    <li key={i} className="flex items-start gap-2 text-xs p-2 rounded-lg bg-neutral-50 dark:bg-neutral-800/50">
+                      {issue.skipped
+                        ? <Ban size={14} className="text-red-600 shrink-0 mt-0.5" />
+                        : <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />}
+                      <span className="text-neutral-700 dark:text-neutral-300">
+                        <b>{issue.item}</b>: {issue.message}
+                        {issue.skipped && <span className="ml-1 text-red-600">({t('editor.transfer.skipped', 'skipped')})</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-neutral-100 dark:border-neutral-800">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm rounded-lg text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800">
+            {t('common.close', 'Close')}
+          </button>
+          {quiz ? (
+            <LoadingButton onClick={runExport} loading={loading} icon={<Download size={16} />} className="px-6 py-2 text-sm">
+              {t('editor.transfer.download', 'Download')}
+            </LoadingButton>
+          ) : (
+            <>
+              <LoadingButton variant="outline" onClick={() => runImport(true)} disabled={!file || loading} icon={<FileCheck2 size={16} />} className="px-4 py-2 text-sm">
+                {t('editor.transfer.check', 'Check file')}
+              </LoadingButton>
+              <LoadingButton onClick={() => runImport(false)} loading={loading} disabled={!file} icon={<Upload size={16} />} className="px-6 py-2 text-sm">
+                {t('editor.transfer.import', 'Import')}
+              </LoadingButton>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,431 @@
+import { useEffect, useState } from 'react'
+import { ClipboardCheck, MessageSquare, Check, RotateCcw, Send, CalendarClock, Loader2 } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import type { TranslationKey } from '@/i18n/types'
+import { useAuth } from '@/auth/AuthContext'
+import {
+  getWorkflowState,
+  listReviewers,
+  submitForReview,
+  assignReviewer,
+  requestChanges,
+  approveContent,
+  rescheduleContent,
+  withdrawContent,
+  listReviewComments,
+  addReviewComment,
+  resolveReviewComment,
+} from '@/lib/editorApi'
+import type { Lang, ReviewComment, ReviewTarget, Status, WorkflowEntity, WorkflowState, WorkflowUser } from '@packages/shared'
+
+const LANGS: Lang[] = ['EN', 'UA', 'PL']
+
+// Fields a comment can be anchored to, per target
+const COMMENT_FIELDS: Record<ReviewTarget, Array<{ field: string; labelKey: TranslationKey }>> = {
+  material: [
+    { field: 'titleJson', labelKey: 'editor.review.field.title' },
+    { field: 'contentJson', labelKey: 'editor.review.field.content' },
+    { field: 'urlJson', labelKey: 'editor.review.field.url' },
+  ],
+  quiz: [{ field: 'titleJson', labelKey: 'editor.review.field.title' }],
+  question: [
+    { field: 'textJson', labelKey: 'editor.review.field.text' },
+    { field: 'explanationJson', labelKey: 'editor.review.field.explanation' },
+    { field: 'options', labelKey: 'editor.review.field.options' },
+  ],
+}
+
+const STATUS_STYLES: Record<Status, string> = {
+  Draft: 'bg-neutral-100 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300',
+  InReview: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  ChangesRequested: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  Scheduled: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  Published: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+}
+
+// ISO date <-> value of a datetime-local input (local time, minutes precision)
+const toLocalInput = (iso?: string | null) => {
+  if (!iso) return ''
+  const d = new Date(iso)
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null)
+
+export function StatusBadge({ status }: { status: Status }) {
+  const { t } = useTranslation()
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {t(`editor.review.status.${status}` as TranslationKey, status)}
+    </span>
+  )
+}
+
+interface ReviewPanelProps {
+  entity: WorkflowEntity
+  entityId: string
+  /** Quiz questions in display order, so comments can target them */
+  questionIds?: string[]
+  onChanged?: (state: WorkflowState) => void
+}
+
+/**
+ * Editorial workflow of a material or quiz: status, submit / request changes / approve,
+ * publish schedule and review comments (on questions too, for a quiz)
+ */
+export default function ReviewPanel({ entity, entityId, questionIds = [], onChanged }: ReviewPanelProps) {
+  const { t } = useTranslation()
+  const { user } = useAuth()
+  const isAdmin = user?.role === 'ADMIN'
+
+  const [state, setState] = useState<WorkflowState | null>(null)
+  const [reviewers, setReviewers] = useState<WorkflowUser[]>([])
+  const [comments, setComments] = useState<ReviewComment[]>([])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [reviewerId, setReviewerId] = useState('')
+  const [note, setNote] = useState('')
+  const [publishAt, setPublishAt] = useState('')
+  const [unpublishAt, setUnpublishAt] = useState('')
+
+  const [commentTarget, setCommentTarget] = useState<string>('') // '' = the item itself, else a question id
+  const [commentField, setCommentField] = useState('')
+  const [commentLang, setCommentLang] = useState<Lang | ''>('')
+  const [commentQuote, setCommentQuote] = useState('')
+  const [commentBody, setCommentBody] = useState('')
+
+  const applyState = (next: WorkflowState) => {
+    setState(next)
+    setReviewerId(next.reviewerId ?? '')
+    setPublishAt(toLocalInput(next.publishAt))
+    setUnpublishAt(toLocalInput(next.unpublishAt))
+  }
+
+  useEffect(() => {
+    let mounted = true
+    setError(null)
+    getWorkflowState(entity, entityId)
+      .then((s) => { if (mounted) applyState(s) })
+      .catch((e) => { if (mounted) setError(e?.message || 'Failed to load review state') })
+    listReviewComments(entity, entityId)
+      .then((c) => { if (mounted) setComments(c) })
+      .catch(() => { /* comments stay empty */ })
+    listReviewers()
+      .then((r) => { if (mounted) setReviewers(r) })
+      .catch(() => { /* reviewer choice is optional */ })
+    return () => { mounted = false }
+  }, [entity, entityId])
+
+  const run = async (action: () => Promise<WorkflowState>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const next = await action()
+      applyState(next)
+      onChanged?.(next)
+      // A change request adds a comment
+      setComments(await listReviewComments(entity, entityId))
+      return true
+    } catch (e: any) {
+      setError(e?.message || 'Action failed')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAddComment = async () => {
+    if (!commentBody.trim()) return
+    setBusy(true)
+    setError(null)
+    try {
+      const comment = await addReviewComment(commentTarget ? 'question' : entity, commentTarget || entityId, {
+        body: commentBody.trim(),
+        field: commentField || null,
+        lang: commentLang || null,
+        quote: commentQuote.trim() || null,
+      })
+      setComments(prev => [...prev, comment])
+      setCommentBody('')
+      setCommentQuote('')
+    } catch (e: any) {
+      setError(e?.message || 'Failed to add comment')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleResolve = async (comment: ReviewComment) => {
+    try {
+      const updated = await resolveReviewComment(comment.id, !comment.resolvedAt)
+      setComments(prev => prev.map(c => c.id === updated.id ? updated : c))
+    } catch (e: any) {
+      setError(e?.message || 'Failed to update comment')
+    }
+  }
+
+  const targetLabel = (comment: ReviewComment) => {
+    const parts: string[] = []
+    if (comment.targetType === 'question') {
+      const index = questionIds.indexOf(comment.targetId)
+      parts.push(t('editor.review.question', 'Question #{n}').replace('{n}', index >= 0 ? String(index + 1) : '?'))
+    }
+    const field = COMMENT_FIELDS[comment.targetType].find(f => f.field === comment.field)
+    if (field) parts.push(t(field.labelKey))
+    else if (comment.field) parts.push(comment.field)
+    if (comment.lang) parts.push(comment.lang)
+    return parts.join(' · ')
+  }
+
+  if (!state) {
+    return error ? <p className="text-xs text-red-600 dark:text-red-400">{error}</p> : null
+  }
+
+  const isAuthor = state.createdById === user?.id
+  const canRequestChanges = isAdmin || state.reviewerId === user?.id || (!state.reviewerId && !isAuthor)
+  const fieldOptions = COMMENT_FIELDS[commentTarget ? 'question' : entity]
+  const openComments = comments.filter(c => !c.resolvedAt).length
+
+  return (
+    <div className="rounded-xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-900 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-semibold text-neutral-700 dark:text-neutral-300 flex items-center gap-2">
+          <ClipboardCheck size={16} /> {t('editor.review.title', 'Review')}
+        </h3>
+        <StatusBadge status={state.status} />
+        {busy && <Loader2 size={14} className="animate-spin text-neutral-400" />}
+      </div>
+
+      <div className="text-xs text-neutral-500 dark:text-neutral-400 space-y-0.5">
+        {state.createdBy && <div>{t('editor.review.author', 'Author')}: {state.createdBy.name}</div>}
+        {state.reviewer && <div>{t('editor.review.reviewer', 'Reviewer')}: {state.reviewer.name}</div>}
+        {state.status === 'Scheduled' && state.publishAt && (
+          <div className="flex items-center gap-1">
+            <CalendarClock size={12} />
+            {t('editor.review.scheduledFor', 'Publishes {date}').replace('{date}', new Date(state.publishAt).toLocaleString())}
+          </div>
+        )}
+        {state.unpublishAt && (
+          <div className="flex items-center gap-1">
+            <CalendarClock size={12} />
+            {t('editor.review.unpublishesAt', 'Unpublishes {date}').replace('{date}', new Date(state.unpublishAt).toLocaleString())}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      {/* Reviewer: chosen on submit, reassigned by an admin */}
+      {(state.status === 'Draft' || state.status === 'ChangesRequested' || (isAdmin && state.status === 'InReview')) && (
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="label text-xs mb-0">{t('editor.review.reviewer', 'Reviewer')}</label>
+          <select
+            className="input text-sm w-auto"
+            value={reviewerId}
+            onChange={(e) => setReviewerId(e.target.value)}
+            disabled={busy}
+          >
+            <option value="">{t('editor.review.noReviewer', 'Any reviewer')}</option>
+            {reviewers.filter(r => r.id !== state.createdById).map(r => (
+              <option key={r.id} value={r.id}>{r.name}</option>
+            ))}
+          </select>
+          {state.status === 'InReview' ? (
+            <button
+              type="button"
+              onClick={() => run(() => assignReviewer(entity, entityId, reviewerId || null))}
+              disabled={busy || reviewerId === (state.reviewerId ?? '')}
+              className="px-3 py-1.5 text-xs rounded-lg border border-neutral-200 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 disabled:opacity-50"
+            >
+              {t('common.save', 'Save')}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => run(() => submitForReview(entity, entityId, reviewerId || null))}
+              disabled={busy}
+              className="px-3 py-1.5 text-xs rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50 flex items-center gap-1"
+            >
+              <Send size={12} /> {t('editor.review.submit', 'Submit for review')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {state.status === 'InReview' && canRequestChanges && (
+        <div className="space-y-2">
+          <textarea
+            className="input w-full text-sm resize-none"
+            rows={2}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t('editor.review.notePlaceholder', 'What should the author change?')}
+            disabled={busy}
+          />
+          <button
+            type="button"
+            onClick={() => run(() => requestChanges(entity, entityId, note.trim())).then((done) => { if (done) setNote('') })}
+            disabled={busy || !note.trim()}
+            className="px-3 py-1.5 text-xs rounded-lg bg-red-50 text-red-600 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-400 disabled:opacity-50"
+          >
+            {t('editor.review.requestChanges', 'Request changes')}
+          </button>
+        </div>
+      )}
+
+      {/* Publication: approval and schedule are admin-only */}
+      {isAdmin && ['InReview', 'Scheduled', 'Published'].includes(state.status) && (
+        <div className="grid md:grid-cols-2 gap-2">
+          {state.status !== 'Published' && (
+            <div>
+              <label className="label text-xs">{t('editor.review.publishAt', 'Publish at')}</label>
+              <input
+                type="datetime-local"
+                className="input w-full text-sm"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+                disabled={busy}
+              />
+              {state.status === 'InReview' && (
+                <p className="text-xs text-neutral-500 mt-1">{t('editor.review.publishAtHint', 'Leave empty to publish now')}</p>
+              )}
+            </div>
+          )}
+          <div>
+            <label className="label text-xs">{t('editor.review.unpublishAt', 'Unpublish at')}</label>
+            <input
+              type="datetime-local"
+              className="input w-full text-sm"
+              value={unpublishAt}
+              onChange={(e) => setUnpublishAt(e.target.value)}
+              disabled={busy}
+            />
+          </div>
+        </div>
+      )}
+      {!isAdmin && state.status === 'InReview' && (
+        <p className="text-xs text-neutral-500">{t('editor.review.adminOnly', 'An admin approves the content before it is published')}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {isAdmin && state.status === 'InReview' && (
+          <button
+            type="button"
+            onClick={() => run(() => approveContent(entity, entityId, {
+              publishAt: fromLocalInput(publishAt),
+              unpublishAt: fromLocalInput(unpublishAt),
+            }))}
+            disabled={busy}
+            className="px-3 py-1.5 text-xs rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Check size={12} /> {t('editor.review.approve', 'Approve')}
+          </button>
+        )}
+        {isAdmin && (state.status === 'Scheduled' || state.status === 'Published') && (
+          <button
+            type="button"
+            onClick={() => run(() => rescheduleContent(entity, entityId, {
+              ...(state.status === 'Scheduled' && { publishAt: fromLocalInput(publishAt) }),
+              unpublishAt: fromLocalInput(unpublishAt),
+            }))}
+            disabled={busy}
+            className="px-3 py-1.5 text-xs rounded-lg border border-neutral-200 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 disabled:opacity-50"
+          >
+            {t('editor.review.saveSchedule', 'Save schedule')}
+          </button>
+        )}
+        {state.status !== 'Draft' && (
+          <button
+            type="button"
+            onClick={() => run(() => withdrawContent(entity, entityId))}
+            disabled={busy}
+            className="px-3 py-1.5 text-xs rounded-lg border border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-400 hover:bg-neutral-50 dark:hover:bg-neutral-800 disabled:opacity-50 flex items-center gap-1"
+          >
+            <RotateCcw size={12} />
+            {state.status === 'Published' ? t('editor.review.unpublish', 'Unpublish') : t('editor.review.withdraw', 'Back to draft')}
+          </button>
+        )}
+      </div>
+
+      {/* Comments */}
+      <div className="pt-3 border-t border-neutral-100 dark:border-neutral-800 space-y-2">
+        <h4 className="text-xs font-semibold text-neutral-600 dark:text-neutral-400 flex items-center gap-1">
+          <MessageSquare size={14} /> {t('editor.review.comments', 'Comments')}
+          {openComments > 0 && <span className="text-amber-600">({openComments})</span>}
+        </h4>
+        {comments.length === 0 && (
+          <p className="text-xs text-neutral-500">{t('editor.review.noComments', 'No comments yet')}</p>
+        )}
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {comments.map(c => (
+            <li key={c.id} className={`text-xs rounded-lg p-2 bg-neutral-50 dark:bg-neutral-800/40 ${c.resolvedAt ? 'opacity-60' : ''}`}>
+              <div className="flex flex-wrap items-center gap-x-2 text-neutral-500">
+                <span className="font-medium text-neutral-700 dark:text-neutral-300">{c.author?.name ?? '—'}</span>
+                <span>{new Date(c.createdAt).toLocaleString()}</span>
+                {targetLabel(c) && <span className="text-primary-600 dark:text-primary-400">{targetLabel(c)}</span>}
+                {c.resolvedAt && <span>· {t('editor.review.resolved', 'resolved')}</span>}
+                <button
+                  type="button"
+                  onClick={() => handleResolve(c)}
+                  className="ml-auto text-primary-600 hover:underline"
+                >
+                  {c.resolvedAt ? t('editor.review.reopen', 'Reopen') : t('editor.review.resolve', 'Resolve')}
+                </button>
+              </div>
+              {c.quote && <blockquote className="mt-1 pl-2 border-l-2 border-neutral-300 dark:border-neutral-600 italic text-neutral-500">{c.quote}</blockquote>}
+              <p className="mt-1 text-neutral-700 dark:text-neutral-300 whitespace-pre-wrap">{c.body}</p>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {questionIds.length > 0 && (
+              <select
+                className="input text-xs w-auto"
+                value={commentTarget}
+                onChange={(e) => { setCommentTarget(e.target.value); setCommentField('') }}
+              >
+                <option value="">{t('editor.review.wholeItem', 'Whole item')}</option>
+                {questionIds.map((id, i) => (
+                  <option key={id} value={id}>{t('editor.review.question', 'Question #{n}').replace('{n}', String(i + 1))}</option>
+                ))}
+              </select>
+            )}
+            <select className="input text-xs w-auto" value={commentField} onChange={(e) => setCommentField(e.target.value)}>
+              <option value="">{t('editor.review.anyField', 'Any field')}</option>
+              {fieldOptions.map(f => <option key={f.field} value={f.field}>{t(f.labelKey)}</option>)}
+            </select>
+            <select className="input text-xs w-auto" value={commentLang} onChange={(e) => setCommentLang(e.target.value as Lang | '')}>
+              <option value="">{t('editor.review.anyLang', 'All languages')}</option>
+              {LANGS.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+          <input
+            className="input w-full text-xs"
+            value={commentQuote}
+            onChange={(e) => setCommentQuote(e.target.value)}
+            placeholder={t('editor.review.quotePlaceholder', 'Quoted text (optional)')}
+          />
+          <div className="flex gap-2">
+            <textarea
+              className="input w-full text-sm resize-none"
+              rows={2}
+              value={commentBody}
+              onChange={(e) => setCommentBody(e.target.value)}
+              placeholder={t('editor.review.commentPlaceholder', 'Your comment')}
+            />
+            <button
+              type="button"
+              onClick={handleAddComment}
+              disabled={busy || !commentBody.trim()}
+              className="px-3 py-1.5 text-xs rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50 self-end"
+            >
+              {t('editor.review.addComment', 'Comment')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
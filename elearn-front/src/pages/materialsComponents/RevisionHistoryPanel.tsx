@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react'
+import { History, ChevronDown, ChevronRight, RotateCcw, GitCompare, Loader2 } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import { listRevisions, diffRevisions, restoreRevision } from '@/lib/editorApi'
+import type { ContentRevisionSummary, RevisionDiff, RevisionEntity } from '@packages/shared'
+
+interface RevisionHistoryPanelProps {
+  entity: RevisionEntity
+  entityId: string
+  onRestored: () => void
+}
+
+// "titleJson" -> "title", "options[1].textJson" -> "option 2 text"
+const fieldLabel = (field: string) =>
+  field
+    .replace(/^options\[(\d+)\]\./, (_, i) => `option ${Number(i) + 1} `)
+    .replace(/Json$/, '')
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.join(', ') || '—'
+  return String(value)
+}
+
+/**
+ * Collapsible revision history of a material, quiz or question: who saved what, a per-language
+ * diff of any revision against the current one, and restore
+ */
+export default function RevisionHistoryPanel({ entity, entityId, onRestored }: RevisionHistoryPanelProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [revisions, setRevisions] = useState<ContentRevisionSummary[] | null>(null)
+  const [diff, setDiff] = useState<RevisionDiff | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = () => {
+    setError(null)
+    return listRevisions(entity, entityId)
+      .then(setRevisions)
+      .catch((e) => setError(e?.message || t('editor.history.loadError', 'Failed to load history')))
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setDiff(null)
+    load()
+  }, [open, entity, entityId])
+
+  const handleCompare = async (revision: ContentRevisionSummary) => {
+    setBusy(true)
+    try {
+      setDiff(await diffRevisions(entity, entityId, revision.id))
+    } catch (e: any) {
+      setError(e?.message || t('editor.history.loadError', 'Failed to load history'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRestore = async (revision: ContentRevisionSummary) => {
+    const question = t('editor.history.restoreConfirm', 'Restore version {version}? Unsaved changes in this form will be lost.')
+      .replace('{version}', String(revision.version))
+    if (!confirm(question)) return
+    setBusy(true)
+    try {
+      await restoreRevision(entity, entityId, revision.id)
+      setDiff(null)
+      await load()
+      onRestored()
+    } catch (e: any) {
+      setError(e?.message || t('editor.history.restoreError', 'Failed to restore the revision'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border border-neutral-200 dark:border-neutral-800">
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs font-semibold text-neutral-600 dark:text-neutral-400 hover:bg-neutral-50 dark:hover:bg-neutral-800/50 rounded-lg"
+      >
+        {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <History size={14} /> {t('editor.history.title', 'History')}
+        {busy && <Loader2 size={14} className="animate-spin ml-auto" />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+          {revisions?.length === 0 && (
+            <p className="text-xs text-neutral-500">{t('editor.history.empty', 'No revisions yet')}</p>
+          )}
+
+          <ul className="divide-y divide-neutral-100 dark:divide-neutral-800 max-h-56 overflow-y-auto">
+            {revisions?.map((r, i) => (
+              <li key={r.id} className="py-2 flex items-start gap-3 text-xs">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-x-2 text-neutral-700 dark:text-neutral-300">
+                    <span className="font-semibold">
+                      {t('editor.history.version', 'v{version}').replace('{version}', String(r.version))}
+                    </span>
+                    {i === 0 && (
+                      <span className="px-1.5 rounded bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300">
+                        {t('editor.history.current', 'current')}
+                      </span>
+                    )}
+                    <span>{r.author?.name || t('editor.history.unknownAuthor', 'Unknown author')}</span>
+                    <span className="text-neutral-400">{new Date(r.createdAt).toLocaleString()}</span>
+                  </div>
+                  <div className="text-neutral-500 truncate">
+                    {r.restoredFromVersion !== null
+                      ? t('editor.history.restoredFrom', 'restored from v{version}').replace('{version}', String(r.restoredFromVersion))
+                      : r.changedFields.map(fieldLabel).join(', ')}
+                  </div>
+                </div>
+                {i > 0 && (
+                  <div className="flex gap-1 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => handleCompare(r)}
+                      disabled={busy}
+                      title={t('editor.history.compare', 'Compare with current')}
+                      className="p-1.5 rounded-lg text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-50"
+                    >
+                      <GitCompare size={14} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(r)}
+                      disabled={busy}
+                      title={t('editor.history.restore', 'Restore')}
+                      className="p-1.5 rounded-lg text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 disabled:opacity-50"
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {diff && (
+            <div className="rounded-lg bg-neutral-50 dark:bg-neutral-800/40 p-3 space-y-2">
+              <p className="text-xs font-semibold text-neutral-700 dark:text-neutral-300">
+                {t('editor.history.diffTitle', 'Changes from v{from} to v{to}')
+                  .replace('{from}', String(diff.from.version))
+                  .replace('{to}', String(diff.to.version))}
+              </p>
+              {diff.changes.length === 0 && (
+                <p className="text-xs text-neutral-500">{t('editor.history.noChanges', 'No differences')}</p>
+              )}
+              {diff.changes.map((c, i) => (
+                <div key={i} className="text-xs">
+                  <div className="font-medium text-neutral-600 dark:text-neutral-400">
+                    {fieldLabel(c.field)}{c.lang ? ` · ${c.lang}` : ''}
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-2 mt-1">
+                    <div className="px-2 py-1 rounded bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">
+                      {formatValue(c.before)}
+                    </div>
+                    <div className="px-2 py-1 rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">
+                      {formatValue(c.after)}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
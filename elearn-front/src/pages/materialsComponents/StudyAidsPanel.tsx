@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react'
+import { Sparkles, ChevronDown, ChevronRight, Loader2, CheckCircle2 } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import { generateStudyAids, getAIJob, type AIJob, type AILanguage, type StudyAidKind, type StudyAidsResult } from '@/lib/editorApi'
+
+interface StudyAidsPanelProps {
+  materialId: string
+  /** Called once the new materials are saved, to reload the topic */
+  onCreated: () => void
+}
+
+const KINDS: StudyAidKind[] = ['summary', 'flashcards', 'glossary']
+const LANGUAGES: AILanguage[] = ['UA', 'PL', 'EN']
+
+/**
+ * Collapsible panel that generates a summary, flashcards and/or a glossary from a text, PDF or
+ * YouTube material with AI. They are added to the topic as draft materials for review.
+ */
+export default function StudyAidsPanel({ materialId, onCreated }: StudyAidsPanelProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [kinds, setKinds] = useState<StudyAidKind[]>(KINDS)
+  const [language, setLanguage] = useState<AILanguage | ''>('')
+  const [translate, setTranslate] = useState(false)
+  const [job, setJob] = useState<AIJob<StudyAidsResult> | null>(null)
+  const [result, setResult] = useState<StudyAidsResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Poll the queued job until it finishes
+  const jobId = job?.id
+  useEffect(() => {
+    if (!jobId) return
+    const timer = setInterval(async () => {
+      try {
+        const next = await getAIJob<StudyAidsResult>(jobId)
+        setJob(next)
+        if (next.status === 'succeeded') {
+          clearInterval(timer)
+          setResult(next.result)
+          setJob(null)
+          onCreated()
+        } else if (next.status === 'failed') {
+          clearInterval(timer)
+          setError(next.error || t('editor.studyAids.failed', 'Study aid generation failed'))
+          setJob(null)
+        }
+      } catch {
+        // Transient network errors: keep polling
+      }
+    }, 2000)
+    return () => clearInterval(timer)
+  }, [jobId])
+
+  const toggleKind = (kind: StudyAidKind) =>
+    setKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : KINDS.filter(k => k === kind || prev.includes(k)))
+
+  const handleGenerate = async () => {
+    setError(null)
+    setResult(null)
+    try {
+      setJob(await generateStudyAids(materialId, { kinds, language: language || undefined, translate }))
+    } catch (e: any) {
+      setError(e?.message || t('editor.studyAids.failed', 'Study aid generation failed'))
+    }
+  }
+
+  const kindLabel = (kind: StudyAidKind) =>
+    t(`materials.type.${kind}`, kind)
+
+  const stageLabel = () => {
+    if (!job || job.status === 'queued' || !job.stage) return t('editor.ai_job.queued', 'Queued…')
+    if (job.stage === 'generating') return t('editor.studyAids.generating', 'Generating study aids…')
+    if (job.stage === 'saving') return t('editor.studyAids.saving', 'Saving the materials…')
+    if (job.stage === 'translating') return t('editor.ai_job.translating', 'Translating into the other languages…')
+    return t('editor.ai_job.extracting', 'Extracting text from the source…')
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border border-neutral-200 dark:border-neutral-800">
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs font-semibold text-neutral-600 dark:text-neutral-400 hover:bg-neutral-50 dark:hover:bg-neutral-800/50 rounded-lg"
+      >
+        {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <Sparkles size={14} /> {t('editor.studyAids.title', 'Study aids with AI')}
+        {job && <Loader2 size={14} className="animate-spin ml-auto" />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3 text-xs">
+          <p className="text-neutral-500">
+            {t('editor.studyAids.hint', 'Generates materials from this one and adds them to the topic as drafts for review.')}
+          </p>
+
+          <div className="flex flex-wrap gap-3">
+            {KINDS.map(kind => (
+              <label key={kind} className="flex items-center gap-1.5 text-neutral-700 dark:text-neutral-300">
+                <input
+                  type="checkbox"
+                  checked={kinds.includes(kind)}
+                  onChange={() => toggleKind(kind)}
+                  disabled={!!job}
+                />
+                {kindLabel(kind)}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as AILanguage | '')}
+              disabled={!!job}
+              className="rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 px-2 py-1.5 text-neutral-700 dark:text-neutral-300"
+            >
+              <option value="">{t('editor.studyAids.sourceLanguage', 'Material language')}</option>
+              {LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+            <label className="flex items-center gap-1.5 text-neutral-700 dark:text-neutral-300">
+              <input type="checkbox" checked={translate} onChange={(e) => setTranslate(e.target.checked)} disabled={!!job} />
+              {t('editor.studyAids.translate', 'Machine-translate into the other languages')}
+            </label>
+          </div>
+
+          {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+          {job && (
+            <p className="flex items-center gap-2 text-primary-700 dark:text-primary-300">
+              <Loader2 size={14} className="animate-spin" /> {stageLabel()}
+            </p>
+          )}
+
+          {result && (
+            <div className="rounded-lg bg-green-50 dark:bg-green-900/20 p-2 space-y-1 text-green-800 dark:text-green-300">
+              <p className="flex items-center gap-1.5 font-semibold">
+                <CheckCircle2 size={14} />
+                {t('editor.studyAids.done', 'Created as drafts:')}
+              </p>
+              <ul className="list-disc pl-5">
+                {result.materials.map(m => <li key={m.id}>{m.title}</li>)}
+              </ul>
+              {result.translationError && (
+                <p className="text-amber-700 dark:text-amber-400">
+                  {t('editor.studyAids.translationFailed', 'Machine translation failed: {error}').replace('{error}', result.translationError)}
+                </p>
+              )}
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={!!job || kinds.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-primary-600 text-white font-medium hover:bg-primary-700 disabled:opacity-50"
+          >
+            <Sparkles size={14} /> {t('editor.studyAids.generate', 'Generate')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,14 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
 import {
   Trophy, CheckCircle2, Clock, Sparkles, ChevronRight,
-  Award, Target, Lock, Loader2, ArrowRight, RotateCcw, Save
+  Award, Target, Lock, Loader2, ArrowRight, RotateCcw, Save, Check, ClipboardList
 } from 'lucide-react'
+import { Link } from 'react-router-dom'
 
 import { apiGet, apiPost } from '@/lib/http'
 import { useTranslation } from '@/i18n/useTranslation'
 import { useAuth } from '@/auth/AuthContext'
-import type { Quiz, QuizLite, Lang, LocalizedString } from '@packages/shared'
+import type { Quiz, QuizLite, QuizAnswer, QuizSubmitResult, Question, Lang, LocalizedString } from '@packages/shared'
 
 interface TopicQuizSectionProps {
   quizzes: QuizLite[]
@@ -21,6 +22,23 @@ interface TopicQuizSectionProps {
 
 type QuizState = 'locked' | 'ready' | 'in-progress' | 'completed'
 
+// Option id for single/truefalse, option ids for multiple, raw input for numeric/text
+export type AnswerValue = string | string[]
+
+// Shape an answer for the API by its question type
+export function toQuizAnswer(question: Question, value: AnswerValue, timeSpentMs?: number): QuizAnswer {
+  const base = { questionId: question.id, ...(timeSpentMs !== undefined && { timeSpentMs }) }
+  switch (question.type) {
+    case 'multiple':
+      return { ...base, selectedOptions: Array.isArray(value) ? value : [value] }
+    case 'numeric':
+    case 'text':
+      return { ...base, value: String(value) }
+    default:
+      return { ...base, optionId: String(value) }
+  }
+}
+
 // Helper for localization inside component to avoid external utils
 const getLocalizedText = (json: LocalizedString | undefined | null, fallback: string, lang: Lang) => {
   if (!json) return fallback
@@ -34,7 +52,7 @@ function getQuizStorageKey(quizId: string, userId: string): string {
 
 interface PersistedQuizSession {
   currentQuestion: number
-  answers: Record<string, string>
+  answers: Record<string, AnswerValue>
   timeLeft: number
   savedAt: number
 }
@@ -55,18 +73,23 @@ export function TopicQuizSection({
   const [error, setError] = useState<string | null>(null)
   const [draftSaved, setDraftSaved] = useState(false)
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // Time each question spent on screen (ms), sent with the answers for item analytics
+  const questionTimesRef = useRef<Record<string, number>>({})
+  const shownAtRef = useRef(0)
   
   // Quiz Session State
   const [quizStarted, setQuizStarted] = useState(false)
   const [currentQuestion, setCurrentQuestion] = useState(0)
-  const [answers, setAnswers] = useState<Record<string, string>>({})
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({})
   const [timeLeft, setTimeLeft] = useState(0)
   
   // Results State
   const [showResults, setShowResults] = useState(false)
   const [score, setScore] = useState(0)
   const [passed, setPassed] = useState(false)
-  const [_correctIds, setCorrectIds] = useState<Record<string, string>>({})
+  const [_correctIds, setCorrectIds] = useState<Record<string, string | string[]>>({})
+  const [attemptId, setAttemptId] = useState<string | null>(null)
+  const [reviewAvailable, setReviewAvailable] = useState(true)
 
   // Filter duplicate quizzes (by ID) - defensive programming
   const uniqueQuizzes = useMemo(() => {
@@ -190,6 +213,15 @@ export function TopicQuizSection({
     return () => clearInterval(timer)
   }, [quizStarted, timeLeft, showResults])
 
+  useEffect(() => {
+    const questionId = quizStarted ? quiz?.questions[currentQuestion]?.id : undefined
+    if (!questionId) return
+    shownAtRef.current = Date.now()
+    return () => {
+      questionTimesRef.current[questionId] = (questionTimesRef.current[questionId] ?? 0) + Date.now() - shownAtRef.current
+    }
+  }, [quiz, quizStarted, currentQuestion])
+
   const loadQuiz = useCallback(async (quizId: string) => {
     setLoading(true)
     setError(null)
@@ -214,6 +246,7 @@ export function TopicQuizSection({
 
   const startQuiz = useCallback(() => {
     if (quiz) {
+      questionTimesRef.current = {}
       setQuizStarted(true)
       setCurrentQuestion(0)
       setAnswers({})
@@ -222,22 +255,26 @@ export function TopicQuizSection({
     }
   }, [quiz])
 
-  const handleAnswer = useCallback((questionId: string, optionId: string) => {
-    setAnswers((prev) => ({ ...prev, [questionId]: optionId }))
+  const handleAnswer = useCallback((questionId: string, value: AnswerValue) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: value }))
   }, [])
 
   const handleSubmit = useCallback(async () => {
     if (!quiz || !quizToken) return
 
-    const answerArray = Object.entries(answers).map(([questionId, optionId]) => ({
-      questionId,
-      optionId,
-    }))
+    // The question still on screen hasn't been counted yet
+    const times = { ...questionTimesRef.current }
+    const currentId = quiz.questions[currentQuestion]?.id
+    if (currentId) times[currentId] = (times[currentId] ?? 0) + Date.now() - shownAtRef.current
+
+    const answerArray = quiz.questions
+      .filter((q) => answers[q.id] !== undefined)
+      .map((q) => toQuizAnswer(q, answers[q.id], times[q.id] !== undefined ? Math.round(times[q.id]) : undefined))
 
     try {
       setLoading(true)
       // Submit attempt
-      const result = await apiPost<{ correct: number, correctMap: Record<string, string>, passed: boolean }>(
+      const result = await apiPost<QuizSubmitResult & { passed: boolean }>(
         `/quiz/${quiz.id}/submit`,
         { 
           token: quizToken,
@@ -249,6 +286,8 @@ export function TopicQuizSection({
       setScore(result.correct)
       setPassed(result.passed)
       setCorrectIds(result.correctMap || {})
+      setAttemptId(result.attemptId ?? null)
+      setReviewAvailable(result.reviewAvailable !== false)
       setShowResults(true)
       setQuizStarted(false)
 
@@ -263,7 +302,7 @@ export function TopicQuizSection({
     } finally {
       setLoading(false)
     }
-  }, [quiz, quizToken, answers, lang, onQuizComplete])
+  }, [quiz, quizToken, answers, currentQuestion, lang, onQuizComplete])
 
   const resetQuiz = useCallback(() => {
     setQuiz(null)
@@ -273,6 +312,7 @@ export function TopicQuizSection({
     setAnswers({})
     setScore(0)
     setPassed(false)
+    setAttemptId(null)
     setCurrentQuestion(0)
     setError(null)
     clearSession() // Clear localStorage on reset
@@ -446,8 +486,8 @@ export function TopicQuizSection({
             {Array.isArray(quiz.questions) && quiz.questions[currentQuestion] && (
               <QuestionCard
                 question={quiz.questions[currentQuestion]}
-                selectedOption={answers[quiz.questions[currentQuestion].id]}
-                onSelect={(optId) => handleAnswer(quiz.questions[currentQuestion].id, optId)}
+                value={answers[quiz.questions[currentQuestion].id]}
+                onChange={(value) => handleAnswer(quiz.questions[currentQuestion].id, value)}
                 lang={lang}
               />
             )}
@@ -508,6 +548,15 @@ export function TopicQuizSection({
               </p>
             </div>
 
+            {attemptId && (
+              <Link to={`/quiz/attempts/${attemptId}`} className="btn w-full flex items-center justify-center gap-2">
+                <ClipboardList size={18} />
+                {reviewAvailable
+                  ? t('attemptReview.open', 'Review answers')
+                  : t('attemptReview.openHidden', 'See your answers')}
+              </Link>
+            )}
+
             <button onClick={resetQuiz} className="btn-outline w-full flex items-center justify-center gap-2">
               <RotateCcw size={18} />
               {t('quiz.tryAgain', 'Try Again')}
@@ -526,43 +575,79 @@ export function TopicQuizSection({
   )
 }
 
-function QuestionCard({ question, selectedOption, onSelect, lang }: { question: any, selectedOption?: string, onSelect: (id: string) => void, lang: Lang }) {
+export function QuestionCard({ question, value, onChange, lang }: { question: Question, value?: AnswerValue, onChange: (value: AnswerValue) => void, lang: Lang }) {
+  const { t } = useTranslation()
   const text = getLocalizedText(question.textJson, question.text, lang)
-  
+  const type = question.type ?? 'single'
+  const isMultiple = type === 'multiple'
+  const selectedIds = Array.isArray(value) ? value : value ? [value] : []
+
+  const toggleOption = (optionId: string) => {
+    if (!isMultiple) {
+      onChange(optionId)
+      return
+    }
+    onChange(selectedIds.includes(optionId)
+      ? selectedIds.filter(id => id !== optionId)
+      : [...selectedIds, optionId])
+  }
+
   return (
     <div className="space-y-4">
       <h4 className="text-lg font-bold text-neutral-900 dark:text-white leading-snug">
         {text}
       </h4>
-      <div className="grid gap-3">
-        {question.options.map((opt: any) => {
-          const optText = getLocalizedText(opt.textJson, opt.text, lang)
-          const isSelected = selectedOption === opt.id
-          
-          return (
-            <button
-              key={opt.id}
-              onClick={() => onSelect(opt.id)}
-              className={`p-4 rounded-xl border-2 text-left transition-all ${
-                isSelected
-                  ? 'border-primary-600 bg-primary-50 dark:bg-primary-900/20 dark:border-primary-500'
-                  : 'border-neutral-200 dark:border-neutral-800 hover:border-primary-300 dark:hover:border-primary-700 bg-white dark:bg-neutral-800'
-              }`}
-            >
-              <div className="flex items-center gap-3">
-                <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center shrink-0 ${
-                  isSelected ? 'border-primary-600 bg-primary-600' : 'border-neutral-300 dark:border-neutral-600'
-                }`}>
-                  {isSelected && <div className="w-2 h-2 rounded-full bg-white" />}
+      {isMultiple && (
+        <p className="text-xs font-medium text-neutral-500 dark:text-neutral-400">
+          {t('quiz.selectAll', 'Select all that apply')}
+        </p>
+      )}
+
+      {(type === 'numeric' || type === 'text') ? (
+        <input
+          type={type === 'numeric' ? 'number' : 'text'}
+          inputMode={type === 'numeric' ? 'decimal' : undefined}
+          step="any"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={type === 'numeric'
+            ? t('quiz.placeholder.numeric', 'Enter a number')
+            : t('quiz.placeholder.text', 'Type your answer')}
+          className="input w-full"
+        />
+      ) : (
+        <div className="grid gap-3">
+          {question.options.map((opt) => {
+            const optText = getLocalizedText(opt.textJson, opt.text, lang)
+            const isSelected = selectedIds.includes(opt.id)
+            
+            return (
+              <button
+                key={opt.id}
+                onClick={() => toggleOption(opt.id)}
+                className={`p-4 rounded-xl border-2 text-left transition-all ${
+                  isSelected
+                    ? 'border-primary-600 bg-primary-50 dark:bg-primary-900/20 dark:border-primary-500'
+                    : 'border-neutral-200 dark:border-neutral-800 hover:border-primary-300 dark:hover:border-primary-700 bg-white dark:bg-neutral-800'
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className={`w-5 h-5 ${isMultiple ? 'rounded-md' : 'rounded-full'} border-2 flex items-center justify-center shrink-0 ${
+                    isSelected ? 'border-primary-600 bg-primary-600' : 'border-neutral-300 dark:border-neutral-600'
+                  }`}>
+                    {isSelected && (isMultiple
+                      ? <Check size={12} className="text-white" strokeWidth={3} />
+                      : <div className="w-2 h-2 rounded-full bg-white" />)}
+                  </div>
+                  <span className={`text-sm font-medium ${isSelected ? 'text-primary-700 dark:text-primary-300' : 'text-neutral-700 dark:text-neutral-300'}`}>
+                    {optText}
+                  </span>
                 </div>
-                <span className={`text-sm font-medium ${isSelected ? 'text-primary-700 dark:text-primary-300' : 'text-neutral-700 dark:text-neutral-300'}`}>
-                  {optText}
-                </span>
-              </div>
-            </button>
-          )
-        })}
-      </div>
+              </button>
+            )
+          })}
+        </div>
+      )}
     </div>
   )
 }
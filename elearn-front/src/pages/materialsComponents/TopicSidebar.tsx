@@ -1,8 +1,8 @@
 import { memo, useCallback, useEffect } from 'react'
-import { ChevronRight, Layout, Pencil, Trash2, Plus, X } from 'lucide-react'
+import { ChevronRight, Layout, Pencil, Trash2, Plus, X, Lock, CheckCircle2 } from 'lucide-react'
 import type { TopicNode } from './types'
 import { useTranslation } from '@/i18n/useTranslation'
-import type { Lang, LocalizedString } from '@packages/shared'
+import type { Lang, LocalizedString, PathProgress } from '@packages/shared'
 
 interface SidebarTopicItemProps {
   topic: TopicNode
@@ -11,6 +11,7 @@ interface SidebarTopicItemProps {
   activeSubId: string | null
   lang: Lang
   isEditable?: boolean
+  pathProgress?: PathProgress | null // Only for the active topic
   onSelectTopic: (topicId: string) => void
   onSelectSub: (topicId: string, subId: string) => void
   onEditTopic?: (topic: TopicNode) => void
@@ -30,16 +31,18 @@ const SidebarTopicItem = memo(function SidebarTopicItem({
   activeSubId,
   lang,
   isEditable,
+  pathProgress,
   onSelectTopic,
   onSelectSub,
   onEditTopic,
   onDeleteTopic,
 }: SidebarTopicItemProps) {
   // Використовуємо дані з API замість локального підрахунку
-  const percent = topic.progress || (topic.totalMaterials && topic.totalMaterials > 0 
+  const percent = pathProgress?.progress ?? (topic.progress || (topic.totalMaterials && topic.totalMaterials > 0 
     ? Math.round((topic.viewedMaterials || 0) / topic.totalMaterials * 100) 
-    : 0)
+    : 0))
 
+  const { t } = useTranslation()
   const handleClick = useCallback(() => onSelectTopic(topic.id), [onSelectTopic, topic.id])
   const topicName = getTopicName(topic, lang)
 
@@ -108,6 +111,7 @@ const SidebarTopicItem = memo(function SidebarTopicItem({
           {topic.children.map((sub) => {
             const subActive = activeSubId === sub.id
             const subName = getTopicName(sub, lang)
+            const subStatus = pathProgress?.steps.find((s) => s.topicId === sub.id)?.status
             return (
               <div key={sub.id} className="group/sub relative">
                 <button
@@ -118,8 +122,12 @@ const SidebarTopicItem = memo(function SidebarTopicItem({
                       : 'text-neutral-500 hover:text-neutral-900 hover:bg-neutral-50 dark:text-neutral-400 dark:hover:text-neutral-100 dark:hover:bg-neutral-800'
                   }`}
                 >
-                  <span className="line-clamp-1">{subName}</span>
-                  {subActive && <ChevronRight size={14} className="opacity-70" />}
+                  <span className={`line-clamp-1 ${subStatus === 'locked' ? 'opacity-60' : ''}`}>{subName}</span>
+                  <span className="flex items-center gap-1 shrink-0">
+                    {subStatus === 'locked' && <Lock size={12} className="text-neutral-400" aria-label={t('path.locked', 'Locked')} />}
+                    {subStatus === 'completed' && <CheckCircle2 size={12} className="text-green-500" />}
+                    {subActive && <ChevronRight size={14} className="opacity-70" />}
+                  </span>
                 </button>
 
                 {isEditable && (
@@ -159,6 +167,7 @@ interface TopicSidebarProps {
   activeSubId: string | null
   loading: boolean
   isEditable?: boolean
+  pathProgress?: PathProgress | null
   onSelectTopic: (topicId: string) => void
   onSelectSub: (topicId: string, subId: string) => void
   onAddTopic?: () => void
@@ -172,6 +181,7 @@ export const TopicSidebar = memo(function TopicSidebar({
   activeSubId,
   loading,
   isEditable,
+  pathProgress,
   onSelectTopic,
   onSelectSub,
   onAddTopic,
@@ -204,6 +214,7 @@ export const TopicSidebar = memo(function TopicSidebar({
               activeSubId={activeSubId}
               lang={lang as Lang}
               isEditable={isEditable}
+              pathProgress={pathProgress?.path.id === topic.id ? pathProgress : null}
               onSelectTopic={onSelectTopic}
               onSelectSub={onSelectSub}
               onEditTopic={onEditTopic}
@@ -246,6 +257,7 @@ export const MobileSidebar = memo(function MobileSidebar({
   activeSubId,
   loading,
   isEditable,
+  pathProgress,
   onSelectTopic,
   onSelectSub,
   onAddTopic,
@@ -334,6 +346,7 @@ export const MobileSidebar = memo(function MobileSidebar({
               activeSubId={activeSubId}
               lang={lang as Lang}
               isEditable={isEditable}
+              pathProgress={pathProgress?.path.id === topic.id ? pathProgress : null}
               onSelectTopic={handleSelectTopic}
               onSelectSub={handleSelectSub}
               onEditTopic={onEditTopic}
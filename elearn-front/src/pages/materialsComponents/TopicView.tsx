@@ -16,12 +16,18 @@ import {
   PlusCircle,
   ChevronDown,
   Trophy,
+  Lock,
+  GraduationCap,
+  Award,
+  ScrollText,
+  Layers,
+  BookA,
 } from 'lucide-react'
 
 import { TopicQuizSection } from './TopicQuizSection'
 import type { TopicNode, Tab, Material } from './types'
 import { useTranslation } from '@/i18n/useTranslation'
-import type { Lang, LocalizedString, MaterialType } from '@packages/shared'
+import type { Lang, LocalizedString, MaterialType, PathProgress, PathStep, PathNextItem } from '@packages/shared'
 
 // Helper for localization
 const getLocalizedText = (json: LocalizedString | undefined | null, fallback: string, lang: Lang) => {
@@ -38,6 +44,10 @@ interface TopicViewProps {
   setQuery: (v: string) => void
   filteredMaterials: (list: Material[]) => Material[]
   openMaterial: (m: Material) => void
+  pathProgress?: PathProgress | null
+  onEnroll?: () => void
+  onContinue?: (next: PathNextItem) => void
+  onGetCertificate?: () => void
   isEditable?: boolean
   onAddLesson?: (topic: TopicNode) => void
   onEditLesson?: (topic: TopicNode) => void
@@ -57,6 +67,10 @@ export function TopicView({
   setQuery,
   filteredMaterials,
   openMaterial,
+  pathProgress,
+  onEnroll,
+  onContinue,
+  onGetCertificate,
   isEditable,
   onAddLesson,
   onEditLesson,
@@ -70,16 +84,23 @@ export function TopicView({
 
   if (!activeTopic) return null
 
+  // Editors see every lesson unlocked
+  const path = !isEditable && pathProgress?.path.id === activeTopic.id ? pathProgress : null
+  const stepFor = (topicId: string) => path?.steps.find((s) => s.topicId === topicId)
+
   const filterTabs: { value: Tab; label: string; icon: React.ReactNode }[] = [
     { value: 'ALL', label: t('materials.all', 'All'), icon: <Filter size={14} /> },
     { value: 'VIDEO', label: t('materials.video', 'Video'), icon: <PlayCircle size={14} /> },
     { value: 'PDF', label: 'PDF', icon: <BookOpen size={14} /> },
     { value: 'TEXT', label: t('materials.text', 'Text'), icon: <FileText size={14} /> },
     { value: 'LINK', label: t('materials.link', 'Link'), icon: <LinkIcon size={14} /> },
+    { value: 'STUDY', label: t('materials.studyAids', 'Study aids'), icon: <Layers size={14} /> },
   ]
 
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+
+      {path && <PathProgressCard path={path} onEnroll={onEnroll} onContinue={onContinue} onGetCertificate={onGetCertificate} />}
       
       {/* Filters & Search Bar - Always sticky for better mobile UX */}
       <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-3 sm:p-4 shadow-sm sticky top-20 z-20">
@@ -124,6 +145,7 @@ export function TopicView({
           topic={activeSub}
           filteredMats={filteredMaterials(activeSub.materials || [])}
           onOpen={openMaterial}
+          step={stepFor(activeSub.id)}
           lang={lang as Lang}
           isMain
           isEditable={isEditable}
@@ -140,6 +162,7 @@ export function TopicView({
             topic={activeTopic}
             filteredMats={filteredMaterials(activeTopic.materials || [])}
             onOpen={openMaterial}
+            step={stepFor(activeTopic.id)}
             lang={lang as Lang}
             isMain
             isEditable={isEditable}
@@ -157,6 +180,7 @@ export function TopicView({
               topic={child}
               filteredMats={filteredMaterials(child.materials || [])}
               onOpen={openMaterial}
+              step={stepFor(child.id)}
               lang={lang as Lang}
               isEditable={isEditable}
               onAddMaterial={onAddMaterial}
@@ -185,12 +209,104 @@ export function TopicView({
   )
 }
 
+// --- Path Progress Card ---
+
+function PathProgressCard({
+  path,
+  onEnroll,
+  onContinue,
+  onGetCertificate,
+}: {
+  path: PathProgress
+  onEnroll?: () => void
+  onContinue?: (next: PathNextItem) => void
+  onGetCertificate?: () => void
+}) {
+  const { t } = useTranslation()
+  const isDone = path.totalItems > 0 && path.completedItems === path.totalItems
+
+  return (
+    <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-4 sm:p-5 shadow-sm">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="p-2 sm:p-2.5 rounded-lg sm:rounded-xl bg-primary-100 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400 shrink-0">
+            <GraduationCap size={18} className="sm:w-[20px] sm:h-[20px]" />
+          </div>
+          <div className="min-w-0">
+            <div className="text-[9px] sm:text-[10px] font-bold uppercase tracking-wider text-neutral-500 dark:text-neutral-400">
+              {isDone ? t('path.completed', 'Course completed') : t('path.progress', 'Course progress')}
+            </div>
+            <div className="text-sm sm:text-base font-semibold text-neutral-900 dark:text-white line-clamp-1">
+              {path.path.name}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 shrink-0">
+          <div className="text-right">
+            <div className="text-lg font-bold text-neutral-900 dark:text-white font-mono">{path.progress}%</div>
+            <div className="text-[10px] sm:text-xs text-neutral-500 dark:text-neutral-400">
+              {path.completedItems}/{path.totalItems} {t('materials.count.materials', 'items')}
+            </div>
+          </div>
+          {path.enrolled ? (
+            <span className="inline-flex items-center gap-1 rounded-lg bg-emerald-50 dark:bg-emerald-900/20 px-2.5 py-1.5 text-xs font-semibold text-emerald-700 dark:text-emerald-300">
+              <CheckCircle2 size={14} />
+              {t('path.enrolled', 'Enrolled')}
+            </span>
+          ) : onEnroll && (
+            <button onClick={onEnroll} className="btn text-xs sm:text-sm px-3 py-1.5">
+              {t('path.enroll', 'Enroll')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="w-full h-1.5 bg-neutral-100 dark:bg-neutral-800 rounded-full overflow-hidden mt-3">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${isDone ? 'bg-emerald-500' : 'bg-primary-500'}`}
+          style={{ width: `${path.progress}%` }}
+        />
+      </div>
+
+      {/* Continue where you left off */}
+      {path.next && onContinue && (
+        <button
+          onClick={() => onContinue(path.next!)}
+          className="mt-3 w-full flex items-center justify-between gap-3 rounded-xl bg-primary-50 dark:bg-primary-900/20 px-3 py-2 text-left hover:bg-primary-100 dark:hover:bg-primary-900/30 transition-colors"
+        >
+          <div className="min-w-0">
+            <div className="text-[9px] sm:text-[10px] font-bold uppercase tracking-wider text-primary-600 dark:text-primary-400">
+              {t('path.continue', 'Continue where you left off')}
+            </div>
+            <div className="text-xs sm:text-sm font-semibold text-neutral-900 dark:text-white line-clamp-1">
+              {path.next.title}
+            </div>
+          </div>
+          <ArrowRight size={16} className="text-primary-600 shrink-0" />
+        </button>
+      )}
+
+      {isDone && onGetCertificate && (
+        <button
+          onClick={onGetCertificate}
+          className="mt-3 w-full inline-flex items-center justify-center gap-2 rounded-xl bg-emerald-600 hover:bg-emerald-700 px-3 py-2 text-sm font-semibold text-white transition-colors"
+        >
+          <Award size={16} />
+          {t('certificate.get', 'Get certificate')}
+        </button>
+      )}
+    </div>
+  )
+}
+
 // --- Topic Section Component ---
 
 interface TopicSectionProps {
   topic: TopicNode
   filteredMats: Material[]
   onOpen: (m: Material) => void
+  step?: PathStep
   lang: Lang
   isMain?: boolean
   isEditable?: boolean
@@ -207,6 +323,7 @@ function TopicSection({
   topic,
   filteredMats = [],
   onOpen,
+  step,
   lang,
   isMain,
   isEditable,
@@ -234,6 +351,7 @@ function TopicSection({
   const topicDesc = getLocalizedText(topic.descJson, topic.description || '', lang)
 
   const isComplete = done === total && total > 0
+  const isLocked = step?.status === 'locked'
 
   return (
     <section className="rounded-xl sm:rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-sm overflow-hidden group/section relative mb-6">
@@ -323,8 +441,25 @@ function TopicSection({
         </div>
       </div>
 
+      {/* Locked by prerequisites */}
+      {isLocked && (
+        <div className="mx-4 sm:mx-5 my-3 sm:my-4 flex items-start gap-2 sm:gap-3 rounded-lg sm:rounded-xl border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 p-3">
+          <Lock size={16} className="text-amber-600 dark:text-amber-400 mt-0.5 shrink-0" />
+          <div className="text-xs sm:text-sm text-amber-800 dark:text-amber-200">
+            <div className="font-semibold">{t('path.lockedHint', 'To unlock this lesson, first complete')}:</div>
+            <ul className="mt-1 space-y-0.5">
+              {step!.lockedBy.map((lock) => (
+                <li key={`${lock.type}-${lock.id}`}>
+                  {lock.type === 'quiz' ? t('path.passQuiz', 'Pass the quiz') : t('path.completeTopic', 'Complete the lesson')}: <span className="font-medium">{lock.title}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
       {/* Recommended Next */}
-      {next && !isComplete && (
+      {next && !isComplete && !isLocked && (
         <div className="mx-4 sm:mx-5 my-3 sm:my-4 rounded-lg sm:rounded-xl bg-gradient-to-r from-primary-600 to-indigo-600 p-0.5 shadow-md">
           <div className="flex items-center justify-between gap-2 sm:gap-3 bg-white dark:bg-neutral-900 rounded-[10px] p-2 sm:p-3">
             <div className="flex items-center gap-2 sm:gap-3 min-w-0">
@@ -409,6 +544,7 @@ function TopicSection({
                   index={index}
                   lang={lang}
                   onOpen={onOpen}
+                  locked={isLocked}
                   isEditable={isEditable}
                   onEditMaterial={onEditMaterial}
                   onDeleteMaterial={onDeleteMaterial}
@@ -439,7 +575,7 @@ function TopicSection({
         )}
 
         {/* Quizzes - Lazy Load with Collapsible on Mobile */}
-        {topic.quizzes && topic.quizzes.length > 0 && <QuizSectionLazy topic={topic} topicName={topicName} isComplete={isComplete} total={total} done={done} lang={lang} t={t} />}
+        {topic.quizzes && topic.quizzes.length > 0 && !isLocked && <QuizSectionLazy topic={topic} topicName={topicName} isComplete={isComplete} total={total} done={done} lang={lang} t={t} />}
 
         {/* Add Quiz Button */}
         {isEditable && onAddQuiz && (
@@ -523,6 +659,7 @@ const MaterialCardNew = memo(function MaterialCardNew({
   index,
   lang,
   onOpen,
+  locked,
   isEditable,
   onEditMaterial,
   onDeleteMaterial,
@@ -532,6 +669,7 @@ const MaterialCardNew = memo(function MaterialCardNew({
   index: number,
   lang: Lang,
   onOpen: (m: Material) => void,
+  locked?: boolean,
   isEditable?: boolean,
   onEditMaterial?: (m: Material, t: TopicNode) => void,
   onDeleteMaterial?: (m: Material, t: TopicNode) => void,
@@ -546,6 +684,9 @@ const MaterialCardNew = memo(function MaterialCardNew({
       case 'VIDEO': return { Icon: PlayCircle, color: 'text-pink-500', bg: 'bg-pink-50 dark:bg-pink-900/20', label: t('materials.video', 'Video') }
       case 'PDF': return { Icon: BookOpen, color: 'text-amber-500', bg: 'bg-amber-50 dark:bg-amber-900/20', label: 'PDF' }
       case 'LINK': return { Icon: LinkIcon, color: 'text-emerald-500', bg: 'bg-emerald-50 dark:bg-emerald-900/20', label: t('materials.link', 'Link') }
+      case 'SUMMARY': return { Icon: ScrollText, color: 'text-violet-500', bg: 'bg-violet-50 dark:bg-violet-900/20', label: t('materials.type.summary', 'Summary') }
+      case 'FLASHCARDS': return { Icon: Layers, color: 'text-violet-500', bg: 'bg-violet-50 dark:bg-violet-900/20', label: t('materials.type.flashcards', 'Flashcards') }
+      case 'GLOSSARY': return { Icon: BookA, color: 'text-violet-500', bg: 'bg-violet-50 dark:bg-violet-900/20', label: t('materials.type.glossary', 'Glossary') }
       default: return { Icon: FileText, color: 'text-blue-500', bg: 'bg-blue-50 dark:bg-blue-900/20', label: t('materials.text', 'Text') }
     }
   }, [m.type, t])
@@ -556,7 +697,8 @@ const MaterialCardNew = memo(function MaterialCardNew({
     <div className="group/card relative">
       <button
         onClick={() => onOpen(m)}
-        className={`w-full flex items-start gap-3 sm:gap-4 p-3 sm:p-4 rounded-xl border-2 text-left transition-all hover:shadow-md ${
+        disabled={locked && !m.isSeen}
+        className={`w-full flex items-start gap-3 sm:gap-4 p-3 sm:p-4 rounded-xl border-2 text-left transition-all hover:shadow-md disabled:opacity-60 disabled:cursor-not-allowed disabled:hover:shadow-none ${
           m.isSeen
             ? 'bg-emerald-50/50 dark:bg-emerald-900/5 border-emerald-100 dark:border-emerald-900/30'
             : 'bg-white dark:bg-neutral-800/50 border-neutral-100 dark:border-neutral-800 hover:border-primary-300 dark:hover:border-primary-700'
@@ -566,6 +708,8 @@ const MaterialCardNew = memo(function MaterialCardNew({
         <div className="absolute top-2 sm:top-3 right-2 sm:right-3">
           {m.isSeen ? (
             <CheckCircle2 size={16} className="sm:size-[18px] text-emerald-500" />
+          ) : locked ? (
+            <Lock size={16} className="sm:size-[18px] text-neutral-400" />
           ) : (
             <Circle size={16} className="sm:size-[18px] text-neutral-300 dark:text-neutral-600 group-hover/card:text-primary-400 transition-colors" />
           )}
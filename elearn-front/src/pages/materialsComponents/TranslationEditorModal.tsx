@@ -0,0 +1,276 @@
+import { useEffect, useMemo, useState } from 'react'
+import { X, Languages, Save, AlertTriangle, Bot, Check, Sparkles } from 'lucide-react'
+import { useTranslation } from '@/i18n/useTranslation'
+import { LoadingButton } from '@/components/LoadingButton'
+import { getTranslationSheet, saveTranslations, machineTranslate } from '@/lib/editorApi'
+import type { Lang, TranslationEntity, TranslationSheet } from '@packages/shared'
+
+interface TranslationEditorModalProps {
+  entity: TranslationEntity
+  entityId: string
+  initialLang?: Lang
+  onClose: () => void
+  onSaved?: () => void
+}
+
+const LANGS: Lang[] = ['UA', 'PL', 'EN']
+
+// Long texts get a bigger textarea
+const LONG_FIELDS = ['contentJson', 'descJson', 'explanationJson']
+
+/**
+ * Side-by-side translation editor: the source text of every localized field next to an
+ * editable translation, with outdated translations flagged and machine translations
+ * accepted or rejected per field
+ */
+export default function TranslationEditorModal({ entity, entityId, initialLang = 'UA', onClose, onSaved }: TranslationEditorModalProps) {
+  const { t } = useTranslation()
+  const [sheet, setSheet] = useState<TranslationSheet | null>(null)
+  const [target, setTarget] = useState<Lang>(initialLang)
+  const [source, setSource] = useState<Lang>(initialLang === 'EN' ? 'UA' : 'EN')
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [confirmed, setConfirmed] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const reset = (next: TranslationSheet, lang: Lang) => {
+    setDrafts(Object.fromEntries(next.fields.map(f => [f.field, f.values[lang] ?? ''])))
+    setConfirmed([])
+  }
+
+  useEffect(() => {
+    getTranslationSheet(entity, entityId)
+      .then(next => { setSheet(next); reset(next, target) })
+      .catch((e) => setError(e?.message || t('editor.translations.loadError', 'Failed to load translations')))
+  }, [entity, entityId])
+
+  const changed = useMemo(
+    () => (sheet ? sheet.fields.filter(f => (drafts[f.field] ?? '') !== (f.values[target] ?? '')).map(f => f.field) : []),
+    [sheet, drafts, target]
+  )
+  const dirty = changed.length > 0 || confirmed.length > 0
+
+  const switchTarget = (lang: Lang) => {
+    if (!sheet || lang === target) return
+    if (dirty && !confirm(t('editor.translations.discardConfirm', 'Discard unsaved translations?'))) return
+    setTarget(lang)
+    if (source === lang) setSource(LANGS.find(l => l !== lang)!)
+    reset(sheet, lang)
+    setNotice(null)
+  }
+
+  const handleClose = () => {
+    if (dirty && !confirm(t('editor.translations.discardConfirm', 'Discard unsaved translations?'))) return
+    onClose()
+  }
+
+  const handleSave = async () => {
+    if (!sheet) return
+    setSaving(true)
+    setError(null)
+    try {
+      const values = Object.fromEntries(changed.map(field => [field, drafts[field] ?? '']))
+      const next = await saveTranslations(entity, entityId, target, values, confirmed)
+      setSheet(next)
+      reset(next, target)
+      setNotice(t('editor.translations.saved', 'Translations saved'))
+      onSaved?.()
+    } catch (e: any) {
+      setError(e?.message || t('editor.translations.saveError', 'Failed to save translations'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Accept or reject one machine translation right away, keeping other unsaved edits
+  const handleReview = async (field: string, accept: boolean) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const next = accept
+        ? await saveTranslations(entity, entityId, target, {}, [field])
+        : await saveTranslations(entity, entityId, target, { [field]: '' })
+      setSheet(next)
+      setDrafts(prev => ({ ...prev, [field]: next.fields.find(f => f.field === field)?.values[target] ?? '' }))
+      setConfirmed(prev => prev.filter(x => x !== field))
+      onSaved?.()
+    } catch (e: any) {
+      setError(e?.message || t('editor.translations.saveError', 'Failed to save translations'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMachineTranslate = async () => {
+    if (!sheet || entity === 'question') return
+    const question = dirty
+      ? t('editor.translations.discardConfirm', 'Discard unsaved translations?')
+      : t('editor.translations.machineConfirm', 'Machine-translate all missing languages of "{title}"?').replace('{title}', sheet.title)
+    if (!confirm(question)) return
+    setSaving(true)
+    setError(null)
+    try {
+      const result = await machineTranslate(entity, entityId)
+      const next = await getTranslationSheet(entity, entityId)
+      setSheet(next)
+      reset(next, target)
+      setNotice(result.count > 0
+        ? t('editor.translations.machineDone', '{count} fields machine-translated; review them before publishing').replace('{count}', String(result.count))
+        : t('editor.translations.machineNothing', 'Nothing to translate'))
+      onSaved?.()
+    } catch (e: any) {
+      setError(e?.message || t('editor.translations.machineError', 'Machine translation failed'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const fieldLabel = (field: string) => {
+    const option = field.match(/^options\[(\d+)\]/)
+    if (option) return t('editor.translations.field.option', 'Option {n}').replace('{n}', String(Number(option[1]) + 1))
+    switch (field) {
+      case 'nameJson': return t('editor.translations.field.name', 'Name')
+      case 'descJson': return t('editor.translations.field.description', 'Description')
+      case 'titleJson': return t('editor.translations.field.title', 'Title')
+      case 'contentJson': return t('editor.translations.field.content', 'Content')
+      case 'textJson': return t('editor.translations.field.text', 'Question text')
+      case 'explanationJson': return t('editor.translations.field.explanation', 'Explanation')
+      default: return field
+    }
+  }
+
+  const langButton = (lang: Lang, active: boolean, onClick: () => void, disabled = false) => (
+    <button
+      key={lang}
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-colors disabled:opacity-30 ${
+        active
+          ? 'bg-primary-600 text-white'
+          : 'text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+      }`}
+    >
+      {lang}
+    </button>
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-neutral-900 rounded-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col border border-neutral-200 dark:border-neutral-800">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-neutral-100 dark:border-neutral-800 bg-neutral-50/50 dark:bg-neutral-900/50">
+          <h2 className="text-lg font-bold text-neutral-900 dark:text-white flex items-center gap-2 min-w-0">
+            <Languages size={20} className="text-primary-600 shrink-0" />
+            <span className="truncate">
+              {t('editor.translations.editorTitle', 'Translate "{title}"').replace('{title}', sheet?.title ?? '…')}
+            </span>
+          </h2>
+          <div className="flex items-center gap-2 shrink-0">
+            {entity !== 'question' && (
+              <button
+                type="button"
+                onClick={handleMachineTranslate}
+                disabled={!sheet || saving}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border border-primary-200 dark:border-primary-800 text-primary-700 dark:text-primary-300 hover:bg-primary-50 dark:hover:bg-primary-900/20 disabled:opacity-50"
+              >
+                <Sparkles size={16} /> {t('editor.translations.machineTranslate', 'Translate missing with AI')}
+              </button>
+            )}
+            <button onClick={handleClose} type="button" className="p-2 rounded-lg text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 px-6 pt-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">
+          <div className="flex items-center gap-2">
+            {t('editor.translations.sourceLang', 'Source')}
+            <div className="flex gap-1">{LANGS.map(l => langButton(l, l === source, () => setSource(l), l === target))}</div>
+          </div>
+          <div className="flex items-center gap-2">
+            {t('editor.translations.targetLang', 'Translation')}
+            <div className="flex gap-1">{LANGS.map(l => langButton(l, l === target, () => switchTarget(l)))}</div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          {sheet?.fields.map(f => {
+            const stale = f.states[target] === 'stale' && !changed.includes(f.field)
+            const machine = f.states[target] === 'machine' && !changed.includes(f.field)
+            const sourceText = f.values[source] ?? ''
+            return (
+              <div key={f.field}>
+                <div className="flex items-center gap-2 mb-1 text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                  {fieldLabel(f.field)}
+                  {stale && (
+                    <span title={t('editor.translations.staleHint', 'The EN text changed after this translation was written')} className="flex items-center gap-1 text-xs font-normal text-amber-600">
+                      <AlertTriangle size={12} /> {t('editor.translations.state.stale', 'Outdated')}
+                    </span>
+                  )}
+                  {stale && (
+                    <label className="ml-auto flex items-center gap-1.5 text-xs font-normal text-neutral-500">
+                      <input
+                        type="checkbox"
+                        checked={confirmed.includes(f.field)}
+                        onChange={e => setConfirmed(prev => e.target.checked ? [...prev, f.field] : prev.filter(x => x !== f.field))}
+                      />
+                      {t('editor.translations.stillAccurate', 'Still accurate')}
+                    </label>
+                  )}
+                  {machine && (
+                    <>
+                      <span className="flex items-center gap-1 text-xs font-normal text-violet-600 dark:text-violet-400">
+                        <Bot size={12} /> {t('editor.translations.machineHint', 'Machine-translated, needs review')}
+                      </span>
+                      <span className="ml-auto flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => handleReview(f.field, true)}
+                          disabled={saving}
+                          className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-md text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 disabled:opacity-50"
+                        >
+                          <Check size={12} /> {t('editor.translations.accept', 'Accept')}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleReview(f.field, false)}
+                          disabled={saving}
+                          className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                        >
+                          <X size={12} /> {t('editor.translations.reject', 'Reject')}
+                        </button>
+                      </span>
+                    </>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="px-3 py-2 rounded-lg bg-neutral-50 dark:bg-neutral-800/40 text-sm text-neutral-700 dark:text-neutral-300 whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+                    {sourceText || <span className="italic text-neutral-400">{t('editor.translations.sourceMissing', 'No source text')}</span>}
+                  </div>
+                  <textarea
+                    value={drafts[f.field] ?? ''}
+                    onChange={e => setDrafts(prev => ({ ...prev, [f.field]: e.target.value }))}
+                    rows={LONG_FIELDS.includes(f.field) ? 8 : 2}
+                    className={`input w-full text-sm ${stale ? 'border-amber-400' : machine ? 'border-violet-400' : ''}`}
+                  />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-neutral-100 dark:border-neutral-800">
+          {notice && !dirty && <span className="mr-auto text-sm text-green-700 dark:text-green-400">{notice}</span>}
+          <button type="button" onClick={handleClose} className="px-4 py-2 text-sm rounded-lg text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800">
+            {t('common.close', 'Close')}
+          </button>
+          <LoadingButton onClick={handleSave} loading={saving} disabled={!dirty} icon={<Save size={16} />} className="px-6 py-2 text-sm">
+            {t('common.save', 'Save')}
+          </LoadingButton>
+        </div>
+      </div>
+    </div>
+  )
+}
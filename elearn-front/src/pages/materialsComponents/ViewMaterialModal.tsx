@@ -1,6 +1,7 @@
 import { memo, useEffect } from 'react'
-import { X, ExternalLink, FileText, Video, Link as LinkIcon, BookOpen } from 'lucide-react'
+import { X, ExternalLink, FileText, Video, Link as LinkIcon, BookOpen, ScrollText, Layers, BookA } from 'lucide-react'
 import { useTranslation } from '@/i18n/useTranslation'
+import FlashcardDeck from '@/components/FlashcardDeck'
 import type { Material } from './types'
 
 interface ViewMaterialModalProps {
@@ -59,6 +60,9 @@ export const ViewMaterialModal = memo(function ViewMaterialModal({
       case 'pdf': return <FileText size={20} />
       case 'link': return <LinkIcon size={20} />
       case 'text': return <BookOpen size={20} />
+      case 'summary': return <ScrollText size={20} />
+      case 'flashcards': return <Layers size={20} />
+      case 'glossary': return <BookA size={20} />
       default: return <FileText size={20} />
     }
   }
@@ -145,6 +149,13 @@ export const ViewMaterialModal = memo(function ViewMaterialModal({
           </div>
         )
 
+      case 'flashcards':
+        return (
+          <div className="p-6 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800">
+            <FlashcardDeck html={material.content || ''} />
+          </div>
+        )
+
       case 'text':
       default:
         return (
@@ -19,7 +19,7 @@ export interface TopicNode extends Omit<TopicTree, 'materials'> {
   materials: Material[]
 }
 
-export type Tab = 'ALL' | 'PDF' | 'VIDEO' | 'TEXT' | 'LINK'
+export type Tab = 'ALL' | 'PDF' | 'VIDEO' | 'TEXT' | 'LINK' | 'STUDY' // STUDY: AI study aids
 
 export const DEFAULT_CAT: Category = 'Programming'
 
@@ -20,7 +20,7 @@ export interface LocalizedObject {
 // USER & AUTH TYPES
 // ============================================
 
-export type Role = 'ADMIN' | 'EDITOR' | 'STUDENT'
+export type Role = 'ADMIN' | 'EDITOR' | 'TEACHER' | 'STUDENT'
 
 export interface User {
   id: string
@@ -29,6 +29,7 @@ export interface User {
   role: Role
   xp: number
   avatar?: string | null
+  twoFactorEnabled?: boolean
 }
 
 export interface AuthUser extends User {}
@@ -53,10 +54,13 @@ export interface AuthResponse {
 // ============================================
 
 export type Category = 'Programming' | 'Mathematics' | 'Databases' | 'Networks' | 'WebDevelopment' | 'MobileDevelopment' | 'MachineLearning' | 'Security' | 'DevOps' | 'OperatingSystems'
-export type MaterialType = 'pdf' | 'video' | 'link' | 'text'
+export type MaterialType = 'pdf' | 'video' | 'link' | 'text' | 'summary' | 'flashcards' | 'glossary' // The last three: AI study aids
 export type Lang = 'UA' | 'PL' | 'EN'
-export type Status = 'Draft' | 'Published'
+export type Status = 'Draft' | 'InReview' | 'ChangesRequested' | 'Scheduled' | 'Published'
 export type Difficulty = 'Easy' | 'Medium' | 'Hard'
+export type QuestionType = 'single' | 'multiple' | 'truefalse' | 'numeric' | 'text'
+export type QuizMode = 'PRACTICE' | 'EXAM'
+export type ReviewPolicy = 'AFTER_SUBMIT' | 'AFTER_DATE' | 'NEVER' // When exam attempts show correct answers
 
 export interface Material {
   id: string
@@ -70,6 +74,7 @@ export interface Material {
   lang?: Lang
   status?: Status
   tags?: string[]
+  sourceMaterialId?: string | null // Study aids: the material they were generated from
 }
 
 export interface QuizLite {
@@ -78,6 +83,9 @@ export interface QuizLite {
   titleJson?: LocalizedString
   durationSec: number
   status?: Status
+  mode?: QuizMode
+  reviewPolicy?: ReviewPolicy
+  reviewAt?: string | null
 }
 
 export interface TopicLite {
@@ -121,6 +129,11 @@ export interface Question {
   options: Option[]
   tags: string[]
   difficulty: Difficulty
+  type?: QuestionType // Defaults to 'single'
+  // Answer keys below are only sent to editors/admins
+  numericAnswer?: number | null
+  tolerance?: number | null
+  acceptedAnswers?: string[]
 }
 
 export interface Quiz {
@@ -130,13 +143,17 @@ export interface Quiz {
   durationSec: number
   topicId: string
   status?: Status
+  mode?: QuizMode
   token?: string
   questions: Question[]
 }
 
 export interface QuizAnswer {
   questionId: string
-  optionId: string
+  optionId?: string // single / truefalse
+  selectedOptions?: string[] // multiple
+  value?: string // numeric / text
+  timeSpentMs?: number // time the question was on screen
 }
 
 export interface QuizSubmitRequest {
@@ -144,11 +161,311 @@ export interface QuizSubmitRequest {
 }
 
 export interface QuizSubmitResult {
+  attemptId?: string
   correct: number
   total: number
   xpEarned: number
-  correctMap?: Record<string, string>
+  reviewAvailable?: boolean // false while an exam's review policy hides the answers
+  correctMap?: Record<string, string | string[]>
   solutions?: Record<string, string>
+  credits?: Record<string, number> // 0..1 per answered question
+  achievementsUnlocked?: string[] // achievement codes unlocked by this attempt
+  certificateIssued?: string | null // verification code if this attempt completed the course
+}
+
+export interface QuizHistoryItem {
+  attemptId: string
+  quizId: string
+  quizTitle: string
+  correct: number
+  total: number
+  lastAttempt: string
+}
+
+export interface AttemptReviewOption {
+  id: string
+  text: string
+  chosen: boolean
+  correct?: boolean // Only when answers are revealed
+}
+
+export interface AttemptReviewQuestion {
+  id: string
+  text: string
+  type: QuestionType
+  answered: boolean
+  options: AttemptReviewOption[]
+  value: string | null // Numeric / short-text answer
+  // Only when answers are revealed
+  credit?: number
+  expected?: string | null
+  explanation?: string | null
+}
+
+export interface QuizAttemptReview {
+  id: string
+  userId: string
+  quiz: { id: string; title: string; topicId: string; mode: QuizMode }
+  correct: number
+  total: number
+  createdAt: string
+  revealed: boolean
+  reviewAt: string | null // When hidden answers become visible (AFTER_DATE policy)
+  questions: AttemptReviewQuestion[]
+}
+
+// ============================================
+// ITEM ANALYTICS TYPES
+// ============================================
+
+// too_hard: nearly everyone fails; distractor: a wrong option is picked more than a right one
+export type ItemFlag = 'too_hard' | 'distractor'
+
+export interface ItemOptionStats {
+  id: string
+  text: string
+  correct: boolean
+  count: number
+  percent: number // share of responses that picked it
+}
+
+export interface QuestionItemStats {
+  questionId: string
+  text: string
+  type: QuestionType
+  responses: number
+  percentCorrect: number | null // mean credit, 0..100
+  discrimination: number | null // -1..1, upper vs lower 27% of attempts
+  avgTimeMs: number | null
+  options: ItemOptionStats[]
+  flags: ItemFlag[]
+}
+
+export interface QuizItemAnalytics {
+  quizId: string
+  attempts: number
+  flagged: number
+  questions: QuestionItemStats[]
+}
+
+// ============================================
+// QUIZ INTERCHANGE TYPES (Moodle XML, GIFT, QTI)
+// ============================================
+
+export type QuizFormat = 'moodle' | 'gift' | 'qti'
+
+export interface QuizConversionIssue {
+  item: string // question name or position in the file
+  message: string
+  skipped: boolean // the item was left out entirely
+}
+
+export interface QuizFormatReport {
+  converted: number
+  skipped: number
+  issues: QuizConversionIssue[]
+}
+
+export interface QuizFileImportResult {
+  quiz: { id: string; title: string } | null // null on a dry run
+  title: string
+  report: QuizFormatReport
+}
+
+export interface QuizExportFile {
+  filename: string
+  mimeType: string
+  encoding: 'utf8' | 'base64'
+  content: string
+  report: QuizFormatReport
+}
+
+// ============================================
+// CONTENT REVISION TYPES
+// ============================================
+
+export type RevisionEntity = 'material' | 'quiz' | 'question'
+
+export interface RevisionAuthor {
+  id: string
+  name: string
+  email: string
+}
+
+export interface ContentRevisionSummary {
+  id: string
+  version: number
+  author: RevisionAuthor | null
+  restoredFromVersion: number | null
+  createdAt: string
+  changedFields: string[] // vs the previous revision; option changes collapse to "options"
+}
+
+// One changed value; lang is set for the per-language parts of *Json fields
+export interface RevisionChange {
+  field: string // e.g. "titleJson", "options[1].correct"
+  lang: Lang | null
+  before: unknown
+  after: unknown
+}
+
+export interface RevisionDiff {
+  from: Omit<ContentRevisionSummary, 'restoredFromVersion' | 'changedFields'> & { snapshot: Record<string, unknown> }
+  to: Omit<ContentRevisionSummary, 'restoredFromVersion' | 'changedFields'> & { snapshot: Record<string, unknown> }
+  changes: RevisionChange[]
+}
+
+// ============================================
+// EDITORIAL REVIEW TYPES
+// ============================================
+
+export type WorkflowEntity = 'material' | 'quiz'
+export type ReviewTarget = WorkflowEntity | 'question'
+
+export interface WorkflowUser {
+  id: string
+  name: string
+  email: string
+}
+
+export interface WorkflowState {
+  id: string
+  title: string
+  status: Status
+  topicId: string
+  createdById: string | null
+  reviewerId: string | null
+  submittedAt: string | null
+  publishAt: string | null // Scheduled: publish time
+  unpublishAt: string | null // Published/Scheduled: unpublish time
+  publishedAt: string | null
+  updatedAt: string
+  createdBy: WorkflowUser | null
+  reviewer: WorkflowUser | null
+}
+
+export interface ReviewQueueItem extends WorkflowState {
+  entity: WorkflowEntity
+  topic: { id: string; name: string; slug: string }
+  openComments: number // unresolved, including those on quiz questions
+}
+
+export interface ReviewComment {
+  id: string
+  targetType: ReviewTarget
+  targetId: string
+  field: string | null
+  lang: Lang | null
+  quote: string | null
+  body: string
+  author: WorkflowUser | null
+  resolvedAt: string | null
+  createdAt: string
+}
+
+// ============================================
+// TRANSLATION TYPES
+// ============================================
+
+export type TranslationEntity = 'topic' | 'material' | 'quiz' | 'question'
+
+// stale: written against an older EN text; machine: machine-translated, needs review
+export type TranslationState = 'translated' | 'missing' | 'stale' | 'machine'
+
+// Counted in fields: a material with a title and text counts twice
+export interface TranslationCounts {
+  fields: number
+  translated: number // including stale
+  missing: number
+  stale: number
+  machine: number
+}
+
+export type LangCoverage = Record<Lang, TranslationCounts>
+
+export interface TopicTranslationCoverage {
+  id: string
+  slug: string
+  name: string
+  parentId: string | null
+  totals: LangCoverage
+  byEntity: Record<TranslationEntity, LangCoverage>
+}
+
+export interface TranslationCoverageReport {
+  langs: Lang[]
+  sourceLang: Lang
+  totals: LangCoverage
+  byEntity: Record<TranslationEntity, LangCoverage>
+  topics: TopicTranslationCoverage[]
+}
+
+export interface TranslationGap {
+  entity: TranslationEntity
+  id: string
+  title: string
+  topic: { id: string; name: string } | null
+  quizId: string | null
+  fields: { field: string; missing: Lang[]; stale: Lang[]; machine: Lang[] }[]
+}
+
+export interface TranslationSheetField {
+  field: string // e.g. "titleJson", "options[1].textJson"
+  values: LocalizedString
+  states: Record<Lang, TranslationState>
+}
+
+export interface MachineTranslationResult {
+  provider: string
+  count: number // translated fields
+  items: {
+    entity: TranslationEntity
+    id: string
+    title: string
+    fields: { field: string; from: Lang; lang: Lang }[]
+  }[]
+}
+
+export interface TranslationSheet {
+  entity: TranslationEntity
+  id: string
+  title: string
+  topicId: string | null
+  quizId: string | null
+  sourceLang: Lang
+  fields: TranslationSheetField[]
+}
+
+// ============================================
+// REVIEW TYPES (spaced repetition)
+// ============================================
+
+export interface ReviewItem {
+  questionId: string
+  quizId: string
+  dueAt: string
+  repetitions: number
+  interval: number // days
+  question: Question
+}
+
+export interface DueReviewsResponse {
+  items: ReviewItem[]
+  totalDue: number
+  nextDueAt: string | null
+}
+
+export interface ReviewGradeResult {
+  correct: boolean
+  credit: number
+  correctAnswer: string | string[] | null
+  explanation: string
+  card: {
+    dueAt: string
+    interval: number
+    repetitions: number
+    easeFactor: number
+  }
 }
 
 // ============================================
@@ -163,6 +480,15 @@ export interface ActivityLog {
   goalsMet: number
 }
 
+export interface DailyGoal {
+  id: string // template id from dailyGoalsDatabase, e.g. "g1"
+  text: string
+  category: 'quiz' | 'materials' | 'learning' | 'practice' | 'review'
+  progress: number
+  target: number
+  isCompleted: boolean
+}
+
 export interface UserStats {
   currentStreak: number
   longestStreak: number
@@ -171,6 +497,188 @@ export interface UserStats {
   lastActiveDate: string
 }
 
+// ============================================
+// ACHIEVEMENT TYPES
+// ============================================
+
+export interface Achievement {
+  code: string
+  icon: string
+  name: string
+  description: string
+  xpReward: number
+  unlocked: boolean
+  unlockedAt: string | null
+  progress: number
+  target: number
+}
+
+export interface AchievementSummary {
+  code: string
+  icon: string
+  name: string
+}
+
+// ============================================
+// LEARNING PATH TYPES
+// ============================================
+
+export type PathStepStatus = 'locked' | 'unlocked' | 'completed'
+
+export interface PathItem {
+  type: 'material' | 'quiz'
+  id: string
+  title: string
+  status: PathStepStatus
+}
+
+export interface PathStep {
+  topicId: string
+  slug: string
+  name: string
+  parentId: string | null
+  status: PathStepStatus
+  progress: number // 0-100
+  lockedBy: Array<{ type: 'quiz' | 'topic'; id: string; title: string }>
+  items: PathItem[]
+}
+
+export interface PathNextItem {
+  topicId: string
+  topicSlug: string
+  type: 'material' | 'quiz'
+  id: string
+  title: string
+}
+
+export interface PathProgress {
+  path: { id: string; slug: string; name: string }
+  enrolled: boolean
+  enrolledAt: string | null
+  progress: number // 0-100
+  completedItems: number
+  totalItems: number
+  steps: PathStep[]
+  next: PathNextItem | null
+}
+
+// ============================================
+// CERTIFICATE TYPES
+// ============================================
+
+export interface Certificate {
+  code: string
+  topicId: string
+  topicSlug: string
+  topicName: string
+  recipientName: string
+  lang: Lang
+  issuedAt: string
+  verifyUrl: string
+}
+
+export type CertificateVerification =
+  | { valid: true; code: string; recipientName: string; topicName: string; issuedAt: string }
+  | { valid: false; code: string }
+
+// ============================================
+// GROUP TYPES
+// ============================================
+
+export interface GroupSummary {
+  id: string
+  name: string
+  description: string | null
+  owner: { id: string; name: string }
+  isOwner: boolean
+  joinCode: string | null // Only for the owner
+  memberCount: number
+  assignmentCount: number
+  createdAt: string
+}
+
+export interface GroupAssignment {
+  id: string
+  topicId: string
+  topicSlug: string
+  topicName: string
+  dueAt: string | null
+  createdAt: string
+}
+
+export interface GroupMember {
+  id: string
+  name: string
+  email: string
+  avatarId: string | null
+  joinedAt: string
+}
+
+export interface GroupDetails {
+  id: string
+  name: string
+  description: string | null
+  owner: { id: string; name: string } | null
+  isOwner: boolean
+  joinCode: string | null
+  createdAt: string
+  assignments: GroupAssignment[]
+  members: GroupMember[] // Empty unless isOwner
+}
+
+export interface GroupAssignmentProgress {
+  assignmentId: string
+  completedItems: number
+  progress: number // 0-100
+  completed: boolean
+  overdue: boolean
+}
+
+export interface GroupMemberProgress {
+  user: { id: string; name: string; email: string; avatarId: string | null; xp: number }
+  quizAttempts: number
+  averageScore: number | null // % of points over all attempts
+  materialsViewed: number
+  timeSpent: number // seconds
+  lastActiveAt: string | null
+  assignments: GroupAssignmentProgress[]
+}
+
+export interface GroupProgress {
+  assignments: Array<Omit<GroupAssignment, 'createdAt'> & { totalItems: number }>
+  members: GroupMemberProgress[]
+}
+
+// ============================================
+// INVITE TYPES
+// ============================================
+
+export type InviteStatus = 'pending' | 'used' | 'expired' | 'revoked'
+
+export interface Invite {
+  id: string
+  email: string
+  role: Role
+  status: InviteStatus
+  invitedBy: { id: string; name: string } | null
+  expiresAt: string
+  lastSentAt: string
+  usedAt: string | null
+  createdAt: string
+}
+
+// Invites that were not created in a bulk request, with the reason
+export interface SkippedInvite {
+  email: string
+  reason: 'registered'
+}
+
+export interface RegistrationInfo {
+  inviteOnly: boolean
+  // Valid invite from the ?invite= link: its email is fixed for the new account
+  invite: { email: string; role: Role } | null
+}
+
 // ============================================
 // API RESPONSE TYPES
 // ============================================
@@ -0,0 +1,27 @@
+import type { MaterialType } from '@packages/shared'
+
+/** Material types generated from other materials with AI */
+export const STUDY_AID_TYPES: MaterialType[] = ['summary', 'flashcards', 'glossary']
+
+export const isStudyAid = (type: MaterialType) => STUDY_AID_TYPES.includes(type)
+
+export interface Flashcard {
+  front: string
+  back: string
+}
+
+/**
+ * Reads flashcards from material HTML: each <dt> is a card front, the following <dd> its back.
+ * Example: "<dl><dt>HTTP</dt><dd>Protocol</dd></dl>" -> [{ front: "HTTP", back: "Protocol" }]
+ */
+export function parseFlashcards(html: string): Flashcard[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const cards: Flashcard[] = []
+  doc.querySelectorAll('dt').forEach((dt) => {
+    const dd = dt.nextElementSibling
+    const front = dt.textContent?.trim()
+    const back = dd?.tagName === 'DD' ? dd.textContent?.trim() : ''
+    if (front && back) cards.push({ front, back })
+  })
+  return cards
+}